@@ -597,6 +597,44 @@ describe('GridValidationService', () => {
       const validResult = validationService.validateCell('expected', column, 0, 0);
       expect(validResult.warnings).toHaveLength(0);
     });
+
+    it('식 검증이 작동하고 문법 오류는 위치와 함께 오류로 반환해야 함', () => {
+      const column: GridColumn = {
+        id: 'test',
+        title: '테스트',
+        type: DataType.TEXT,
+        validation: [
+          {
+            type: 'expression',
+            value: 'startsWith(upper(value), "ORD-") and length(value) <= 12',
+            message: '주문 번호 형식이어야 합니다.'
+          }
+        ]
+      };
+
+      expect(validationService.validateCell('ord-001', column, 0, 0).isValid).toBe(true);
+      const invalidResult = validationService.validateCell('X-1', column, 0, 0);
+      expect(invalidResult.warnings[0]).toMatchObject({ type: 'expression_violation', message: '주문 번호 형식이어야 합니다.' });
+
+      column.validation![0]!.value = 'length(value) <=';
+      const syntaxResult = validationService.validateCell('ord-001', column, 0, 0);
+      expect(syntaxResult.isValid).toBe(false);
+      expect(syntaxResult.errors[0]).toMatchObject({ type: 'expression_syntax', value: { position: 16, line: 1, column: 17 } });
+    });
+
+    it('행 constraints의 expression 제약을 검증해야 함', () => {
+      const data: SchemaGridData[][] = [
+        [
+          { fieldName: 'qty', dataType: 'number', required: true, description: '', defaultValue: 0, constraints: 'minimum: 1, expression: value >= minimum' },
+          { fieldName: 'code', dataType: 'string', required: true, description: '', constraints: '{"expression": "length(value) == "}' }
+        ]
+      ];
+
+      const result = validationService.validateGrid(data, []);
+
+      expect(result.warnings).toEqual([expect.objectContaining({ row: 0, col: 0, type: 'expression_violation' })]);
+      expect(result.errors).toEqual([expect.objectContaining({ row: 0, col: 1, type: 'expression_syntax' })]);
+    });
   });
 
   describe('유틸리티 기능', () => {
@@ -29,7 +29,7 @@ describe("MCPIntegrationService", () => {
         metadata: {}
       };
 
-      mockMessageMappingService.generateMapping.mockReturnValue(mockMapping);
+      mockMessageMappingService.generateMapping.mockResolvedValue(mockMapping);
 
       const request = {
         action: "generateMapping",
@@ -134,6 +134,28 @@ describe("MCPIntegrationService", () => {
 
       await expect(mcpService.processRequest(request)).rejects.toThrow("Source and targetType are required");
     });
+
+    it("generateSample 액션으로 시드가 같은 샘플 메시지를 생성해야 함", async () => {
+      const request = {
+        action: "generateSample",
+        data: {
+          gridData: [[{ fieldName: "id", dataType: "integer", required: true, description: "" }]],
+          options: { format: "json", seed: 7 }
+        }
+      };
+
+      const first = await mcpService.processRequest(request);
+      const second = await mcpService.processRequest(request);
+
+      expect(first.seed).toBe(7);
+      expect(typeof JSON.parse(first.content).id).toBe("number");
+      expect(second.content).toBe(first.content);
+    });
+
+    it("generateSample에서 입력이 없을 때 에러를 발생시켜야 함", async () => {
+      await expect(mcpService.processRequest({ action: "generateSample", data: { schema: "{}" } }))
+        .rejects.toThrow("gridData or schema with a valid sourceFormat is required");
+    });
   });
 
   describe("getProviderInfo", () => {
@@ -146,7 +168,8 @@ describe("MCPIntegrationService", () => {
         capabilities: [
           "schema-mapping",
           "schema-validation",
-          "data-transformation"
+          "data-transformation",
+          "sample-generation"
         ],
         supportedFormats: ["XML", "JSON", "YAML"],
         timestamp: expect.any(String)
@@ -210,7 +233,7 @@ describe("MCPIntegrationService", () => {
         }
       };
 
-      mockMessageMappingService.generateMapping.mockReturnValue(mockMapping);
+      mockMessageMappingService.generateMapping.mockResolvedValue(mockMapping);
 
       const request = {
         action: "generateMapping",
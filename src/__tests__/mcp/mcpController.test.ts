@@ -15,12 +15,16 @@ const app = express();
 app.use(express.json());
 app.use("/api/mcp", mcpRoutes);
 
+// The controller creates its service when the module loads; automocked instances get their own
+// method mocks, so capture that instance before clearMocks empties mock.instances
+const controllerService = MockedMCPIntegrationService.mock.instances[0] as jest.Mocked<MCPIntegrationService>;
+
 describe("MCP Controller Routes", () => {
   let mockService: jest.Mocked<MCPIntegrationService>;
 
   beforeEach(() => {
     jest.clearAllMocks();
-    mockService = new MockedMCPIntegrationService() as jest.Mocked<MCPIntegrationService>;
+    mockService = controllerService;
   });
 
   describe("GET /api/mcp", () => {
@@ -41,7 +45,8 @@ describe("MCP Controller Routes", () => {
         capabilities: [
           "schema-transformation",
           "schema-validation",
-          "format-detection"
+          "format-detection",
+          "sample-generation"
         ],
         status: "active"
       });
@@ -4,7 +4,7 @@
  */
 
 import request from 'supertest';
-import { createApp } from '../../index';
+import { createApp } from '../../app';
 
 const app = createApp();
 
@@ -165,13 +165,264 @@ describe('API v2 통합 테스트', () => {
       expect(response.body.error.code).toBe('VALIDATION_ERROR');
     });
 
-    it('특정 스키마를 조회할 수 있어야 함', async () => {
+    it('생성한 스키마를 조회, 수정, 삭제할 수 있어야 함', async () => {
+      const created = await request(app)
+        .post('/api/v2/schemas')
+        .send({ name: '주문', format: 'json', content: '{"type":"object","properties":{"id":{"type":"string"}}}', tags: ['order'] })
+        .expect(201);
+      const schemaId = created.body.data.id;
+
+      const fetched = await request(app)
+        .get(`/api/v2/schemas/${schemaId}`)
+        .expect(200);
+      expect(fetched.body.data).toMatchObject({ id: schemaId, name: '주문', tags: ['order'], version: '1.0.0' });
+
+      const listed = await request(app)
+        .get('/api/v2/schemas?tags=order&search=주문')
+        .expect(200);
+      expect(listed.body.data.map((schema: any) => schema.id)).toContain(schemaId);
+
+      const updated = await request(app)
+        .put(`/api/v2/schemas/${schemaId}`)
+        .send({ content: '{"type":"object","properties":{"id":{"type":"integer"}}}' })
+        .expect(200);
+      expect(updated.body.data.version).toBe('1.1.0');
+
+      await request(app)
+        .delete(`/api/v2/schemas/${schemaId}`)
+        .expect(200);
+    });
+
+    it('리비전 이력을 조회하고 태그를 붙여 롤백할 수 있어야 함', async () => {
+      const created = await request(app)
+        .post('/api/v2/schemas')
+        .send({ name: '리비전', format: 'json', content: '{"type":"object","properties":{"id":{"type":"string"}}}' })
+        .expect(201);
+      const schemaId = created.body.data.id;
+
+      await request(app)
+        .put(`/api/v2/schemas/${schemaId}`)
+        .send({ content: '{"type":"object","properties":{"code":{"type":"string"}}}', changeSummary: 'id를 code로 교체' })
+        .expect(200);
+
+      const revisions = await request(app)
+        .get(`/api/v2/schemas/${schemaId}/revisions`)
+        .expect(200);
+      expect(revisions.body.data.map((revision: any) => revision.revision)).toEqual([1, 2]);
+      expect(revisions.body.data[1]).toMatchObject({ summary: 'id를 code로 교체', isBreaking: true });
+
+      await request(app)
+        .post(`/api/v2/schemas/${schemaId}/revisions/1/tags`)
+        .send({ tag: 'released-2026Q3' })
+        .expect(200);
+
+      const exported = await request(app)
+        .get(`/api/v2/schemas/${schemaId}/revisions/released-2026Q3?format=xsd`)
+        .expect(200);
+      expect(exported.body.data.content).toContain('name="id"');
+
+      const rolledBack = await request(app)
+        .post(`/api/v2/schemas/${schemaId}/revisions/released-2026Q3/rollback`)
+        .send({})
+        .expect(200);
+      expect(rolledBack.body.data.revision).toBe(3);
+    });
+
+    it('존재하지 않는 스키마 조회 시 404 에러를 반환해야 함', async () => {
       const response = await request(app)
-        .get('/api/v2/schemas/test-schema-id')
+        .get('/api/v2/schemas/missing-schema-id')
+        .expect(404);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.error.code).toBe('SCHEMA_NOT_FOUND');
+    });
+
+    it('검증에 실패한 스키마는 저장하지 않아야 함', async () => {
+      const response = await request(app)
+        .post('/api/v2/schemas')
+        .send({ name: '깨진 스키마', format: 'json', content: '{"type":' })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('SCHEMA_VALIDATION_FAILED');
+    });
+
+    it('호환되지 않는 스키마 변경을 위반 목록으로 반환해야 함', async () => {
+      const previous = JSON.stringify({ type: 'object', properties: { id: { type: 'string' } }, required: ['id'] });
+      const proposed = JSON.stringify({
+        type: 'object',
+        properties: { id: { type: 'string' }, region: { type: 'string' } },
+        required: ['id', 'region']
+      });
+
+      const response = await request(app)
+        .post('/api/v2/schemas/compatibility')
+        .send({
+          schema: { content: proposed, format: 'json' },
+          previousVersions: [{ content: previous, format: 'json', version: '1.0.0' }],
+          mode: 'BACKWARD'
+        })
         .expect(200);
 
       expect(response.body.success).toBe(true);
-      expect(response.body.data.id).toBe('test-schema-id');
+      expect(response.body.data.compatible).toBe(false);
+      expect(response.body.data.violations[0]).toMatchObject({ path: 'region', version: '1.0.0', direction: 'BACKWARD' });
+    });
+
+    it('잘못된 호환성 모드에 대해 검증 에러를 반환해야 함', async () => {
+      const response = await request(app)
+        .post('/api/v2/schemas/compatibility')
+        .send({ schema: { content: '{}' }, previousVersions: [], mode: 'SIDEWAYS' })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+
+    it('읽을 수 없는 스키마는 422, 없는 스키마는 404를 반환해야 함', async () => {
+      const unreadable = await request(app)
+        .post('/api/v2/schemas/compatibility')
+        .send({
+          schema: { content: '{"type":', format: 'json' },
+          previousVersions: [{ content: '{"type":"object"}', format: 'json' }]
+        })
+        .expect(422);
+      expect(unreadable.body.error.code).toBe('COMPATIBILITY_CHECK_FAILED');
+
+      const missing = await request(app)
+        .post('/api/v2/schemas/missing-schema-id/compatibility')
+        .send({ schema: { content: '{"type":"object"}', format: 'json' } })
+        .expect(404);
+      expect(missing.body.error.code).toBe('SCHEMA_NOT_FOUND');
+    });
+
+    it('저장된 스키마의 리비전 이력과 호환성을 검사해야 함', async () => {
+      const created = await request(app)
+        .post('/api/v2/schemas')
+        .send({ name: '호환성', format: 'json', content: '{"type":"object","properties":{"id":{"type":"string"}}}' })
+        .expect(201);
+      const schemaId = created.body.data.id;
+      await request(app)
+        .put(`/api/v2/schemas/${schemaId}`)
+        .send({ content: '{"type":"object","properties":{"id":{"type":"string"},"code":{"type":"string"}}}' })
+        .expect(200);
+
+      const proposed = JSON.stringify({
+        type: 'object',
+        properties: { id: { type: 'string' }, code: { type: 'string' }, region: { type: 'string' } },
+        required: ['region']
+      });
+      const latest = await request(app)
+        .post(`/api/v2/schemas/${schemaId}/compatibility`)
+        .send({ schema: { content: proposed, format: 'json' } })
+        .expect(200);
+      expect(latest.body.data).toMatchObject({ compatible: false, mode: 'BACKWARD', checkedVersions: ['1.1.0 (리비전 2)'] });
+      expect(latest.body.data.violations[0]).toMatchObject({ path: 'region', direction: 'BACKWARD' });
+
+      const all = await request(app)
+        .post(`/api/v2/schemas/${schemaId}/compatibility`)
+        .send({ schema: { content: proposed, format: 'json' }, mode: 'BACKWARD_TRANSITIVE' })
+        .expect(200);
+      expect(all.body.data.checkedVersions).toEqual(['1.0.0 (리비전 1)', '1.1.0 (리비전 2)']);
+      expect(all.body.data.violations.map((violation: any) => violation.version))
+        .toEqual(['1.0.0 (리비전 1)', '1.1.0 (리비전 2)']);
+    });
+  });
+
+  describe('일괄 작업 API', () => {
+    it('여러 작업을 실행하고 항목별 결과를 반환해야 함', async () => {
+      const response = await request(app)
+        .post('/api/v2/batch')
+        .send({
+          operations: [
+            { operation: 'create', data: { name: '일괄 생성', format: 'json', content: '{"type":"object"}' } },
+            { operation: 'delete', id: 'missing-schema-id' }
+          ],
+          options: { continueOnError: true }
+        })
+        .expect(207);
+
+      expect(response.body.data.results[0].success).toBe(true);
+      expect(response.body.data.results[1].error.code).toBe('SCHEMA_NOT_FOUND');
+      expect(response.body.data.summary).toMatchObject({ total: 2, successful: 1, failed: 1 });
+    });
+
+    it('잘못된 작업 유형에 대해 검증 에러를 반환해야 함', async () => {
+      const response = await request(app)
+        .post('/api/v2/batch')
+        .send({ operations: [{ operation: 'truncate' }] })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('검색 API', () => {
+    it('검색어와 필드 조건으로 스키마를 찾아야 함', async () => {
+      await request(app)
+        .post('/api/v2/schemas')
+        .send({
+          name: 'Shipment',
+          format: 'json',
+          content: JSON.stringify({ type: 'object', properties: { trackingNumber: { type: 'string' } } })
+        })
+        .expect(201);
+
+      const response = await request(app)
+        .post('/api/v2/search')
+        .send({ query: 'shipment field:trackingNumber:string', filters: { format: ['json'] } })
+        .expect(200);
+
+      expect(response.body.data[0].schema.name).toBe('Shipment');
+      expect(response.body.data[0].matchedFields[0].path).toBe('trackingNumber');
+      expect(response.body.meta.pagination).toBeDefined();
+    });
+
+    it('지원하지 않는 정렬 기준에 대해 검증 에러를 반환해야 함', async () => {
+      const response = await request(app)
+        .post('/api/v2/search')
+        .send({ query: 'order', sort: { field: 'owner' } })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    });
+  });
+
+  describe('영향 분석 API', () => {
+    it('필드 이름 변경의 영향을 분석해야 함', async () => {
+      await request(app)
+        .post('/api/v2/schemas')
+        .send({
+          name: 'Payment',
+          format: 'json',
+          content: JSON.stringify({ type: 'object', properties: { paymentRef: { type: 'string' } } })
+        })
+        .expect(201);
+
+      const response = await request(app)
+        .post('/api/v2/impact')
+        .send({ field: 'paymentRef', change: { kind: 'rename', newName: 'paymentReference' } })
+        .expect(200);
+
+      expect(response.body.data.schemas[0].changes[0].type).toBe('FIELD_RENAMED');
+      expect(response.body.data.summary.breaking).toBe(true);
+    });
+
+    it('필드 사용처를 조회해야 함', async () => {
+      const response = await request(app)
+        .get('/api/v2/impact/fields')
+        .query({ field: 'paymentRef' })
+        .expect(200);
+
+      expect(response.body.data.field).toBe('paymentRef');
+      expect(Array.isArray(response.body.data.mappings)).toBe(true);
+    });
+
+    it('잘못된 변경 종류에 대해 검증 에러를 반환해야 함', async () => {
+      const response = await request(app)
+        .post('/api/v2/impact')
+        .send({ field: 'paymentRef', change: { kind: 'truncate' } })
+        .expect(400);
+
+      expect(response.body.error.code).toBe('VALIDATION_ERROR');
     });
   });
 
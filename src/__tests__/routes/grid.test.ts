@@ -5,42 +5,27 @@
 import request from 'supertest';
 import express from 'express';
 import gridRoutes from '../../routes/grid';
+import { legacyErrorHandler as errorHandler } from '../../middleware/errorHandler';
 import { GridManager } from '../../services/GridManager';
 import { GridValidationService } from '../../services/GridValidationService';
 
 // 모킹
-jest.mock('../../services/GridManager.js');
-jest.mock('../../services/GridValidationService.js');
+jest.mock('../../services/GridManager');
+jest.mock('../../services/GridValidationService');
+
+// 라우터가 모듈 로드 시 만든 인스턴스 (clearMocks가 mock.instances를 비우기 전에 확보)
+const mockGridManager = jest.mocked(GridManager).mock.instances[0] as jest.Mocked<GridManager>;
+const mockValidationService = jest.mocked(GridValidationService).mock.instances[0] as jest.Mocked<GridValidationService>;
 
 describe('Grid Routes', () => {
   let app: express.Application;
-  let mockGridManager: jest.Mocked<GridManager>;
-  let mockValidationService: jest.Mocked<GridValidationService>;
 
   beforeEach(() => {
     app = express();
     app.use(express.json());
     app.use('/api/v2/grid', gridRoutes);
-
-    // GridManager 모킹
-    mockGridManager = {
-      getGridStats: jest.fn(),
-      convertSchemaToGridData: jest.fn(),
-      convertGridDataToSchema: jest.fn(),
-      createGrid: jest.fn(),
-      destroyGrid: jest.fn(),
-      exportGridData: jest.fn()
-    } as any;
-
-    // GridValidationService 모킹
-    mockValidationService = {
-      validateGrid: jest.fn(),
-      getValidationStats: jest.fn()
-    } as any;
-
-    // 모킹된 인스턴스 반환 설정
-    (GridManager as jest.MockedClass<typeof GridManager>).mockImplementation(() => mockGridManager);
-    (GridValidationService as jest.MockedClass<typeof GridValidationService>).mockImplementation(() => mockValidationService);
+    // createApp과 같은 에러 핸들러로 라우터가 던진 오류를 응답으로 변환
+    app.use(errorHandler);
   });
 
   describe('GET /api/v2/grid/metadata', () => {
@@ -256,6 +241,78 @@ describe('Grid Routes', () => {
       expect(response.body.data.format).toBe('xml');
       expect(response.body.data.contentType).toBe('application/xml');
     });
+
+    it('변환 옵션의 네임스페이스와 루트 요소로 XSD를 생성해야 함', async () => {
+      const response = await request(app)
+        .post('/api/v2/grid/convert/to-schema')
+        .send({
+          gridData: [[{ fieldName: 'id', dataType: 'string', required: true, description: '' }]],
+          format: 'xsd',
+          options: {
+            targetNamespace: 'urn:partner:order',
+            rootElementName: 'Order',
+            elementFormDefault: 'unqualified',
+            namespacePrefix: 'po',
+            importedNamespaces: [{ namespace: 'urn:partner:common', schemaLocation: 'common.xsd' }]
+          }
+        })
+        .expect(200);
+
+      expect(response.body.data.contentType).toBe('application/xml');
+      expect(response.body.data.schema).toContain('targetNamespace="urn:partner:order"');
+      expect(response.body.data.schema).toContain('xmlns:po="urn:partner:order"');
+      expect(response.body.data.schema).toContain('<xs:element name="Order">');
+      expect(response.body.data.schema).toContain('<xs:import namespace="urn:partner:common" schemaLocation="common.xsd"/>');
+      expect(mockGridManager.convertGridDataToSchema).not.toHaveBeenCalled();
+    });
+
+    it('잘못된 elementFormDefault 옵션이면 400 오류를 반환해야 함', async () => {
+      const response = await request(app)
+        .post('/api/v2/grid/convert/to-schema')
+        .send({
+          gridData: [[{ fieldName: 'id', dataType: 'string', required: true, description: '' }]],
+          format: 'wsdl',
+          options: { elementFormDefault: 'sometimes' }
+        })
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+    });
+  });
+
+  describe('POST /api/v2/grid/infer', () => {
+    it('인스턴스 문서로부터 그리드 행과 JSON 스키마를 추론해야 함', async () => {
+      const response = await request(app)
+        .post('/api/v2/grid/infer')
+        .send({
+          documents: ['{"id": 1, "name": "a"}', { content: '{"id": 2}', format: 'json' }],
+          targetFormat: 'json'
+        })
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.metadata.documentCount).toBe(2);
+      expect(response.body.data.gridData).toHaveLength(2);
+      expect(JSON.parse(response.body.data.schema.content).required).toEqual(['id']);
+    });
+
+    it('문서가 없으면 400 오류를 반환해야 함', async () => {
+      const response = await request(app)
+        .post('/api/v2/grid/infer')
+        .send({ documents: [] })
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+    });
+
+    it('해석할 수 없는 문서는 422 오류를 반환해야 함', async () => {
+      const response = await request(app)
+        .post('/api/v2/grid/infer')
+        .send({ documents: ['{invalid'] })
+        .expect(422);
+
+      expect(response.body.success).toBe(false);
+    });
   });
 
   describe('POST /api/v2/grid/validate', () => {
@@ -511,6 +568,64 @@ describe('Grid Routes', () => {
     });
   });
 
+  describe('POST /api/v2/grid/sample/message', () => {
+    const gridData = [
+      [{ fieldName: 'id', dataType: 'string', required: true, description: '', pattern: 'ID-[0-9]{3}' }],
+      [{ fieldName: 'status', dataType: 'string', required: true, description: '', enumValues: ['A', 'B'] }]
+    ];
+
+    it('그리드 데이터로부터 시드가 같은 샘플 메시지를 생성해야 함', async () => {
+      const first = await request(app)
+        .post('/api/v2/grid/sample/message')
+        .send({ gridData, options: { format: 'json', seed: 42 } })
+        .expect(200);
+      const second = await request(app)
+        .post('/api/v2/grid/sample/message')
+        .send({ gridData, options: { format: 'json', seed: 42 } })
+        .expect(200);
+
+      expect(first.body.success).toBe(true);
+      expect(first.body.data.seed).toBe(42);
+      expect(first.body.data.contentType).toBe('application/json');
+      expect(JSON.parse(first.body.data.content).id).toMatch(/^ID-[0-9]{3}$/);
+      expect(second.body.data.content).toBe(first.body.data.content);
+    });
+
+    it('스키마 문서로부터 XML 샘플 메시지를 생성해야 함', async () => {
+      const schema = JSON.stringify({
+        type: 'object',
+        properties: { name: { type: 'string', enum: ['kim'] } },
+        required: ['name']
+      });
+
+      const response = await request(app)
+        .post('/api/v2/grid/sample/message')
+        .send({ schema, sourceFormat: 'json', options: { format: 'xml', rootName: 'person' } })
+        .expect(200);
+
+      expect(response.body.data.content).toContain('<person>');
+      expect(response.body.data.content).toContain('<name>kim</name>');
+    });
+
+    it('입력이 없으면 400 오류를 반환해야 함', async () => {
+      const response = await request(app)
+        .post('/api/v2/grid/sample/message')
+        .send({ options: { format: 'json' } })
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+    });
+
+    it('지원하지 않는 출력 형식이면 400 오류를 반환해야 함', async () => {
+      const response = await request(app)
+        .post('/api/v2/grid/sample/message')
+        .send({ gridData, options: { format: 'csv' } })
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+    });
+  });
+
   describe('GET /api/v2/grid/stats', () => {
     it('그리드 통계를 반환해야 함', async () => {
       const mockStats = {
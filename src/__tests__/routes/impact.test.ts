@@ -0,0 +1,42 @@
+/**
+ * 영향 분석 API 테스트 (createApp이 연결한 협업 서비스의 세션 포함)
+ */
+
+import request from 'supertest';
+import { createApp } from '../../app';
+import { CollaborationService } from '../../services/CollaborationService';
+import { Logger } from '../../core/logging/Logger';
+
+describe('영향 분석 API', () => {
+  const collaborationService = new CollaborationService(new Logger('ImpactTest'));
+  const app = createApp({ collaborationService });
+
+  it('분석 대상 스키마를 편집 중인 협업 세션을 보고서에 포함해야 함', async () => {
+    const created = await request(app)
+      .post('/api/v2/schemas')
+      .send({
+        name: 'Invoice',
+        format: 'json',
+        content: JSON.stringify({ type: 'object', properties: { invoiceNo: { type: 'string' } } })
+      })
+      .expect(201);
+    const schemaId = created.body.data.id;
+
+    // 협업 라우터와 영향 분석이 같은 서비스 인스턴스를 사용
+    await request(app)
+      .post('/api/collaboration/sessions')
+      .send({ sessionId: schemaId, createdBy: 'alice' })
+      .expect(201);
+    await collaborationService.joinSession(schemaId, 'bob');
+
+    const response = await request(app)
+      .post('/api/v2/impact')
+      .send({ field: 'invoiceNo', schemaId, change: { kind: 'rename', newName: 'invoiceNumber' } })
+      .expect(200);
+
+    expect(response.body.data.sessions).toEqual([
+      expect.objectContaining({ sessionId: schemaId, schemaId, onlineUsers: ['bob'] })
+    ]);
+    expect(response.body.data.summary.sessionCount).toBe(1);
+  });
+});
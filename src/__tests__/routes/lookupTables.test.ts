@@ -0,0 +1,149 @@
+/// <reference types="jest" />
+import request from "supertest";
+import express from "express";
+import lookupTableRoutes, { lookupTableService } from "../../routes/lookupTables";
+import { ConflictError, NotFoundError, ValidationError } from "../../types/errors";
+
+jest.mock("../../utils/logger");
+
+const app = express();
+app.use(express.json());
+app.use("/api/lookup-tables", lookupTableRoutes);
+
+// Spies on the router's own instance, recreated per test (restoreMocks undoes them after each test)
+function spyOnLookupTableService() {
+  return {
+    listTables: jest.spyOn(lookupTableService, "listTables"),
+    createTable: jest.spyOn(lookupTableService, "createTable"),
+    getTable: jest.spyOn(lookupTableService, "getTable"),
+    importCsv: jest.spyOn(lookupTableService, "importCsv"),
+    exportCsv: jest.spyOn(lookupTableService, "exportCsv"),
+    resolve: jest.spyOn(lookupTableService, "resolve")
+  };
+}
+
+describe("Lookup Table Routes", () => {
+  let mockService: ReturnType<typeof spyOnLookupTableService>;
+
+  const table = {
+    name: "country",
+    missPolicy: "default" as const,
+    version: 1,
+    entries: [{ key: "KR", value: "Korea" }],
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockService = spyOnLookupTableService();
+  });
+
+  describe("POST /api/lookup-tables", () => {
+    it("테이블을 만들고 201을 반환해야 함", async () => {
+      mockService.createTable.mockResolvedValue(table);
+
+      const response = await request(app)
+        .post("/api/lookup-tables")
+        .send({ name: "country", entries: { KR: "Korea" } });
+
+      expect(response.status).toBe(201);
+      expect(response.body).toMatchObject({ name: "country", version: 1 });
+      expect(mockService.createTable).toHaveBeenCalledWith({ name: "country", entries: { KR: "Korea" } });
+    });
+
+    it("검증 오류는 400, 중복 이름은 409를 반환해야 함", async () => {
+      mockService.createTable.mockImplementationOnce(() => {
+        throw new ValidationError("중복된 키입니다: KR");
+      });
+      mockService.createTable.mockImplementationOnce(() => {
+        throw new ConflictError("이미 있는 룩업 테이블입니다: country");
+      });
+
+      const invalid = await request(app).post("/api/lookup-tables").send({ name: "country" });
+      const duplicate = await request(app).post("/api/lookup-tables").send({ name: "country" });
+
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.error).toBe("중복된 키입니다: KR");
+      expect(duplicate.status).toBe(409);
+    });
+  });
+
+  describe("GET /api/lookup-tables/:name", () => {
+    it("요청한 버전을 반환하고 없는 테이블은 404를 반환해야 함", async () => {
+      mockService.getTable.mockReturnValueOnce(table);
+      mockService.getTable.mockImplementationOnce(() => {
+        throw new NotFoundError("룩업 테이블을 찾을 수 없습니다: region");
+      });
+
+      const found = await request(app).get("/api/lookup-tables/country?version=1");
+      const missing = await request(app).get("/api/lookup-tables/region");
+      const invalid = await request(app).get("/api/lookup-tables/country?version=abc");
+
+      expect(found.status).toBe(200);
+      expect(mockService.getTable).toHaveBeenCalledWith("country", 1);
+      expect(missing.status).toBe(404);
+      expect(invalid.status).toBe(400);
+    });
+  });
+
+  describe("CSV import/export", () => {
+    it("text/csv 본문을 가져오고 없던 테이블이면 201을 반환해야 함", async () => {
+      mockService.listTables.mockReturnValue([]);
+      mockService.importCsv.mockResolvedValue(table);
+
+      const response = await request(app)
+        .post("/api/lookup-tables/country/import/csv?missPolicy=fail")
+        .set("Content-Type", "text/csv")
+        .send("key,value\nKR,Korea\n");
+
+      expect(response.status).toBe(201);
+      expect(mockService.importCsv).toHaveBeenCalledWith("country", "key,value\nKR,Korea\n", { missPolicy: "fail" });
+    });
+
+    it("JSON 본문으로 기존 테이블에 가져오면 200, 내용이 없으면 400을 반환해야 함", async () => {
+      mockService.listTables.mockReturnValue([table]);
+      mockService.importCsv.mockResolvedValue({ ...table, version: 2 });
+
+      const response = await request(app)
+        .post("/api/lookup-tables/country/import/csv")
+        .send({ csv: "key,value\nKR,Korea", comment: "분기 갱신" });
+      const empty = await request(app).post("/api/lookup-tables/country/import/csv").send({});
+
+      expect(response.status).toBe(200);
+      expect(mockService.importCsv).toHaveBeenCalledWith("country", "key,value\nKR,Korea", { comment: "분기 갱신" });
+      expect(empty.status).toBe(400);
+    });
+
+    it("CSV 파일로 내보내야 함", async () => {
+      mockService.exportCsv.mockReturnValue("key,value,description\r\nKR,Korea,\r\n");
+
+      const response = await request(app).get("/api/lookup-tables/country/export/csv?version=1");
+
+      expect(response.status).toBe(200);
+      expect(response.headers["content-type"]).toContain("text/csv");
+      expect(response.headers["content-disposition"]).toBe("attachment; filename=\"country-v1.csv\"");
+      expect(response.text).toBe("key,value,description\r\nKR,Korea,\r\n");
+      expect(mockService.exportCsv).toHaveBeenCalledWith("country", 1);
+    });
+  });
+
+  describe("POST /api/lookup-tables/:name/resolve", () => {
+    it("값을 반환하고 fail 정책의 없는 값은 422를 반환해야 함", async () => {
+      mockService.getTable.mockReturnValue(table);
+      mockService.resolve.mockReturnValueOnce("Korea");
+      mockService.resolve.mockImplementationOnce(() => {
+        throw new ValidationError("룩업 테이블 country에 없는 값입니다: US", "value", "US");
+      });
+
+      const found = await request(app).post("/api/lookup-tables/country/resolve").send({ key: "KR" });
+      const miss = await request(app).post("/api/lookup-tables/country/resolve").send({ key: "US", onMiss: "fail" });
+      const invalid = await request(app).post("/api/lookup-tables/country/resolve").send({ key: "US", onMiss: "skip" });
+
+      expect(found.body).toEqual({ key: "KR", value: "Korea" });
+      expect(miss.status).toBe(422);
+      expect(mockService.resolve).toHaveBeenLastCalledWith("country", "US", { version: undefined, missPolicy: "fail", defaultValue: undefined });
+      expect(invalid.status).toBe(400);
+    });
+  });
+});
@@ -3,13 +3,18 @@ import request from "supertest";
 import express from "express";
 import messageMappingRoutes from "../../routes/messageMapping";
 import { MessageMappingService } from "../../services/messageMappingService";
+import { getMessageMappingService } from "../../services/mapping/sharedServices";
+import { XsltTestHarness } from "../../services/mapping/XsltTestHarness";
+import { SchemaRepositoryService } from "../../services/SchemaRepositoryService";
+import { ConflictError, NotFoundError, ValidationError } from "../../types/errors";
 
 // Mock the MessageMappingService
 jest.mock("../../services/messageMappingService");
+jest.mock("../../services/mapping/XsltTestHarness");
+jest.mock("../../services/repository", () => ({ getSchemaRepository: jest.fn() }));
+jest.mock("../../services/SchemaRepositoryService");
 jest.mock("../../utils/logger");
 
-const MockedMessageMappingService = MessageMappingService as jest.MockedClass<typeof MessageMappingService>;
-
 const app = express();
 app.use(express.json());
 app.use("/api/message-mapping", messageMappingRoutes);
@@ -19,7 +24,8 @@ describe("Message Mapping Routes", () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
-    mockService = new MockedMessageMappingService() as jest.Mocked<MessageMappingService>;
+    // The router's own (automocked) instance
+    mockService = getMessageMappingService() as jest.Mocked<MessageMappingService>;
   });
 
   describe("GET /api/message-mapping", () => {
@@ -38,6 +44,61 @@ describe("Message Mapping Routes", () => {
       expect(response.body.success).toBe(true);
       expect(response.body.data).toEqual(mockMappings);
     });
+
+    it("page, limit, search가 있으면 페이지 정보와 함께 반환해야 함", async () => {
+      mockService.listMappings.mockReturnValue({ items: [{ id: "3" }] as any, total: 3, page: 2, limit: 2 });
+
+      const response = await request(app)
+        .get("/api/message-mapping?page=2&limit=2&search=order");
+      const invalid = await request(app)
+        .get("/api/message-mapping?limit=500");
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual([{ id: "3" }]);
+      expect(response.body.pagination).toEqual({ page: 2, limit: 2, total: 3, totalPages: 2, hasNext: false, hasPrev: true });
+      expect(mockService.listMappings).toHaveBeenCalledWith({ page: 2, limit: 2, search: "order" });
+      expect(invalid.status).toBe(400);
+    });
+  });
+
+  describe("Mapping bundles", () => {
+    const bundle = { format: "message-mapping-bundle", version: 1, exportedAt: "2024-05-01T00:00:00.000Z", mappings: [] };
+
+    it("선택한 매핑을 번들로 내보내고 없는 매핑은 404를 반환해야 함", async () => {
+      mockService.exportBundle.mockReturnValueOnce(bundle as any);
+      mockService.exportBundle.mockImplementationOnce(() => {
+        throw new NotFoundError("Message mapping not found: x");
+      });
+
+      const response = await request(app).get("/api/message-mapping/export/bundle?ids=a,b");
+      const missing = await request(app).get("/api/message-mapping/export/bundle?ids=x");
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(bundle);
+      expect(mockService.exportBundle).toHaveBeenCalledWith(["a", "b"]);
+      expect(missing.status).toBe(404);
+    });
+
+    it("번들을 가져오고 충돌은 409, 잘못된 번들은 400을 반환해야 함", async () => {
+      mockService.importBundle.mockResolvedValueOnce({ imported: ["a"], overwritten: ["a"] });
+      mockService.importBundle.mockImplementationOnce(() => {
+        throw new ConflictError("Message mappings already exist: a");
+      });
+      mockService.importBundle.mockImplementationOnce(() => {
+        throw new ValidationError("Unsupported bundle version: 2");
+      });
+
+      const imported = await request(app).post("/api/message-mapping/import/bundle?overwrite=true").send(bundle);
+      const conflict = await request(app).post("/api/message-mapping/import/bundle").send(bundle);
+      const invalid = await request(app).post("/api/message-mapping/import/bundle").send({ ...bundle, version: 2 });
+
+      expect(imported.status).toBe(201);
+      expect(imported.body).toEqual({ imported: ["a"], overwritten: ["a"] });
+      expect(mockService.importBundle).toHaveBeenNthCalledWith(1, bundle, { overwrite: true });
+      expect(mockService.importBundle).toHaveBeenNthCalledWith(2, bundle, { overwrite: false });
+      expect(conflict.status).toBe(409);
+      expect(invalid.status).toBe(400);
+    });
   });
 
   describe("POST /api/message-mapping/generate", () => {
@@ -50,7 +111,7 @@ describe("Message Mapping Routes", () => {
       const mockSource = "<?xml version=\"1.0\"?><root></root>";
       const mockMapping = { id: "test-id", mapping: "generated mapping" };
 
-      mockService.generateMapping.mockReturnValue(mockMapping);
+      mockService.generateMapping.mockResolvedValue(mockMapping);
 
       const response = await request(app)
         .post("/api/message-mapping/generate")
@@ -109,7 +170,7 @@ describe("Message Mapping Routes", () => {
 
   describe("DELETE /api/message-mapping/:id", () => {
     it("매핑을 성공적으로 삭제해야 함", async () => {
-      mockService.clearMapping.mockReturnValue(true);
+      mockService.clearMapping.mockResolvedValue(true);
 
       const response = await request(app)
         .delete("/api/message-mapping/test-id");
@@ -120,7 +181,7 @@ describe("Message Mapping Routes", () => {
     });
 
     it("존재하지 않는 매핑 삭제 시 404를 반환해야 함", async () => {
-      mockService.clearMapping.mockReturnValue(false);
+      mockService.clearMapping.mockResolvedValue(false);
 
       const response = await request(app)
         .delete("/api/message-mapping/nonexistent");
@@ -135,6 +196,7 @@ describe("Message Mapping Routes", () => {
       const mockRules = [
         { sourceField: "field1", targetField: "field2", transformation: "none" }
       ];
+      mockService.findRuleExpressionErrors.mockReturnValue([]);
 
       const response = await request(app)
         .post("/api/message-mapping/test-id/rules")
@@ -153,6 +215,267 @@ describe("Message Mapping Routes", () => {
       expect(response.status).toBe(400);
       expect(response.body.error).toContain("Rules array is required");
     });
+
+    it("식 문법 오류가 있는 규칙은 위치와 함께 거부해야 함", async () => {
+      const expressionErrors = [
+        { ruleId: "r1", field: "condition", expression: "total >", message: "식이 완성되지 않았습니다 (1줄 8열)", position: 7, line: 1, column: 8 }
+      ];
+      mockService.findRuleExpressionErrors.mockReturnValue(expressionErrors);
+
+      const response = await request(app)
+        .post("/api/message-mapping/test-id/rules")
+        .send({ rules: [{ id: "r1", condition: "total >" }] });
+
+      expect(response.status).toBe(400);
+      expect(response.body.details).toEqual(expressionErrors);
+      expect(mockService.createAdvancedMappingRules).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /api/message-mapping/expressions/validate", () => {
+    it("문법 오류 위치를 반환해야 함", async () => {
+      const response = await request(app)
+        .post("/api/message-mapping/expressions/validate")
+        .send({ expression: "upper(name" });
+
+      expect(response.status).toBe(200);
+      expect(response.body.valid).toBe(false);
+      expect(response.body.error).toMatchObject({ position: 10, line: 1, column: 11 });
+    });
+
+    it("올바른 식은 유효해야 함", async () => {
+      const response = await request(app)
+        .post("/api/message-mapping/expressions/validate")
+        .send({ expression: "total >= 1000 ? \"VIP\" : \"NORMAL\"" });
+
+      expect(response.body).toEqual({ valid: true });
+    });
+  });
+
+  describe("POST /api/message-mapping/:id/execute", () => {
+    it("매핑 규칙 실행 결과를 반환해야 함", async () => {
+      const mockResult = { success: true, format: "json", output: "{}", target: {}, trace: [], summary: { total: 0 } };
+      mockService.executeMapping.mockResolvedValue(mockResult as any);
+
+      const response = await request(app)
+        .post("/api/message-mapping/test-id/execute")
+        .send({ source: "{\"a\":1}", targetFormat: "json" });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(mockResult);
+      expect(mockService.executeMapping).toHaveBeenCalledWith("test-id", "{\"a\":1}", { sourceFormat: undefined, targetFormat: "json" });
+    });
+
+    it("규칙이 없는 매핑은 404를 반환해야 함", async () => {
+      mockService.executeMapping.mockResolvedValue(undefined);
+
+      const response = await request(app)
+        .post("/api/message-mapping/nonexistent/execute")
+        .send({ source: "{}" });
+
+      expect(response.status).toBe(404);
+    });
+
+    it("원본이 없으면 에러를 반환해야 함", async () => {
+      const response = await request(app)
+        .post("/api/message-mapping/test-id/execute")
+        .send({});
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain("Source is required");
+    });
+  });
+
+  describe("GET /api/message-mapping/:id/export/xslt", () => {
+    const exported = { stylesheet: "<xsl:stylesheet/>", skippedRules: ["r2"], warnings: [{ ruleId: "r2", message: "skipped" }] };
+
+    it("스타일시트와 제외된 규칙을 반환해야 함", async () => {
+      mockService.exportXslt.mockReturnValue(exported);
+
+      const response = await request(app).get("/api/message-mapping/test-id/export/xslt");
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual(exported);
+    });
+
+    it("format=xsl이면 스타일시트 파일을 반환해야 함", async () => {
+      mockService.exportXslt.mockReturnValue(exported);
+
+      const response = await request(app).get("/api/message-mapping/test-id/export/xslt?format=xsl");
+
+      expect(response.status).toBe(200);
+      expect(response.headers["content-type"]).toContain("application/xslt+xml");
+      expect(response.text).toBe("<xsl:stylesheet/>");
+    });
+
+    it("규칙이 없는 매핑은 404를 반환해야 함", async () => {
+      mockService.exportXslt.mockReturnValue(undefined);
+
+      const response = await request(app).get("/api/message-mapping/nonexistent/export/xslt");
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("POST /api/message-mapping/:id/export/xslt/test", () => {
+    it("XSLT 결과와 엔진 결과 비교를 반환해야 함", async () => {
+      mockService.getMapping.mockReturnValue({ source: "<a/>", configuration: { testData: "<order id=\"1\"/>" } } as any);
+      mockService.exportXslt.mockReturnValue({ stylesheet: "<xsl:stylesheet/>", skippedRules: [], warnings: [] });
+      mockService.executeMapping.mockResolvedValue({ output: "<invoice/>" } as any);
+      const processor = { name: "xslt-subset-emulator", conforming: false, note: "subset" };
+      jest.mocked(XsltTestHarness.prototype.compare).mockResolvedValue({ matches: true, processor, xsltOutput: "<invoice/>", differences: [] });
+
+      const response = await request(app).post("/api/message-mapping/test-id/export/xslt/test").send({});
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        matches: true, processor, engineOutput: "<invoice/>", xsltOutput: "<invoice/>", differences: [], warnings: []
+      });
+      expect(mockService.executeMapping).toHaveBeenCalledWith("test-id", "<order id=\"1\"/>", { sourceFormat: "xml", targetFormat: "xml" });
+    });
+
+    it("XML 원본이 없으면 에러를 반환해야 함", async () => {
+      mockService.getMapping.mockReturnValue(undefined);
+      mockService.exportXslt.mockReturnValue({ stylesheet: "<xsl:stylesheet/>", skippedRules: [], warnings: [] });
+
+      const response = await request(app).post("/api/message-mapping/test-id/export/xslt/test").send({ source: "{\"a\":1}" });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toContain("XML source document is required");
+    });
+  });
+
+  describe("JSON transform routes", () => {
+    const spec = { format: "json-transform", version: 1, rules: [], transformations: [], jsonata: "{}" } as any;
+
+    it("JSON 변환 명세를 반환하고 format=jsonata면 식만 반환해야 함", async () => {
+      mockService.exportJsonTransform.mockReturnValue({ spec, skippedRules: [], warnings: [] });
+
+      const response = await request(app).get("/api/message-mapping/test-id/export/json-transform");
+      const jsonata = await request(app).get("/api/message-mapping/test-id/export/json-transform?format=jsonata");
+
+      expect(response.status).toBe(200);
+      expect(response.body.spec).toEqual(spec);
+      expect(jsonata.text).toBe("{}");
+    });
+
+    it("입력이 없으면 매핑의 테스트 데이터로 명세를 실행해야 함", async () => {
+      mockService.getMapping.mockReturnValue({ configuration: { testData: { a: 1 } } } as any);
+      mockService.executeJsonTransform.mockResolvedValue({ success: true, target: { b: 1 } } as any);
+
+      const response = await request(app).post("/api/message-mapping/test-id/json-transform/execute").send({ spec });
+
+      expect(response.status).toBe(200);
+      expect(mockService.executeJsonTransform).toHaveBeenCalledWith(spec, { a: 1 });
+    });
+
+    it("명세를 가져와 규칙을 교체하고 식 오류는 400을 반환해야 함", async () => {
+      mockService.importJsonTransform.mockResolvedValueOnce({ rules: [], transformations: [], errors: [] });
+      const created = await request(app).post("/api/message-mapping/test-id/import/json-transform").send({ spec });
+      expect(created.status).toBe(201);
+
+      mockService.importJsonTransform.mockResolvedValueOnce({ rules: [], transformations: [], errors: [{ ruleId: "r1" } as any] });
+      const invalid = await request(app).post("/api/message-mapping/test-id/import/json-transform").send({ spec });
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.error).toBe("Invalid rule expressions");
+    });
+  });
+
+  describe("Mapping suggestion routes", () => {
+    const grid = [[{ fieldName: "name", dataType: "string", required: false, description: "" }]];
+    const suggestion = {
+      id: "s1",
+      sourcePath: "$.name",
+      targetPath: "$.fullName",
+      confidence: 0.8,
+      scores: { name: 0.7, type: 1 },
+      reasons: [],
+      rule: { id: "suggested-s1", type: "element", sourcePath: "$.name", targetPath: "$.fullName" },
+      status: "pending"
+    } as any;
+
+    it("저장된 스키마의 그리드로 제안을 만들어야 함", async () => {
+      jest.mocked(SchemaRepositoryService.prototype.getSchema).mockResolvedValue({ gridData: grid } as any);
+      mockService.suggestMappingRules.mockResolvedValue([suggestion]);
+
+      const response = await request(app)
+        .post("/api/message-mapping/test-id/rules/suggestions")
+        .send({ sourceSchemaId: "schema-a", targetGrid: grid, minConfidence: 0.6 });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([suggestion]);
+      expect(mockService.suggestMappingRules).toHaveBeenCalledWith("test-id", grid, grid, expect.objectContaining({ minConfidence: 0.6 }));
+    });
+
+    it("스키마가 없거나 찾을 수 없으면 오류를 반환해야 함", async () => {
+      const missing = await request(app).post("/api/message-mapping/test-id/rules/suggestions").send({ sourceGrid: grid });
+      expect(missing.status).toBe(400);
+
+      jest.mocked(SchemaRepositoryService.prototype.getSchema).mockRejectedValue(new NotFoundError("스키마를 찾을 수 없습니다"));
+      const notFound = await request(app)
+        .post("/api/message-mapping/test-id/rules/suggestions")
+        .send({ sourceSchemaId: "unknown", targetGrid: grid });
+      expect(notFound.status).toBe(404);
+    });
+
+    it("제안을 수락/거절해야 함", async () => {
+      mockService.getRuleSuggestions.mockReturnValue([suggestion]);
+      mockService.findRuleExpressionErrors.mockReturnValue([]);
+      mockService.acceptRuleSuggestion.mockResolvedValue(suggestion.rule);
+      const accepted = await request(app).post("/api/message-mapping/test-id/rules/suggestions/s1/accept").send({});
+      expect(accepted.status).toBe(201);
+      expect(accepted.body.rule).toEqual(suggestion.rule);
+
+      const unknown = await request(app).post("/api/message-mapping/test-id/rules/suggestions/s2/accept").send({});
+      expect(unknown.status).toBe(404);
+
+      mockService.rejectRuleSuggestion.mockResolvedValue({ ...suggestion, status: "rejected" });
+      const rejected = await request(app).post("/api/message-mapping/test-id/rules/suggestions/s1/reject");
+      expect(rejected.status).toBe(200);
+      expect(rejected.body.status).toBe("rejected");
+    });
+  });
+
+  describe("Mapping test case routes", () => {
+    const testCase = { id: "c1", name: "기본", input: { a: 1 }, expectedOutput: { b: 1 } };
+
+    it("테스트 케이스를 검증해 저장해야 함", async () => {
+      mockService.addTestCase.mockResolvedValue(testCase);
+
+      const created = await request(app).post("/api/message-mapping/test-id/tests").send(testCase);
+      expect(created.status).toBe(201);
+      expect(mockService.addTestCase).toHaveBeenCalledWith("test-id", testCase);
+
+      const invalid = await request(app).post("/api/message-mapping/test-id/tests").send({ name: "입력 없음" });
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.error).toBe("Test case input is required");
+    });
+
+    it("실패한 케이스가 있으면 422를 반환해야 함", async () => {
+      mockService.runTestCases.mockResolvedValueOnce({ mappingId: "test-id", total: 1, passed: 1, failed: 0, results: [], durationMs: 1 });
+      const passed = await request(app).post("/api/message-mapping/test-id/tests/run").send({});
+      expect(passed.status).toBe(200);
+
+      mockService.runTestCases.mockResolvedValueOnce({ mappingId: "test-id", total: 1, passed: 0, failed: 1, results: [], durationMs: 1 });
+      const failed = await request(app).post("/api/message-mapping/test-id/tests/run").send({ caseIds: ["c1"] });
+      expect(failed.status).toBe(422);
+      expect(mockService.runTestCases).toHaveBeenLastCalledWith("test-id", ["c1"]);
+
+      mockService.runTestCases.mockResolvedValueOnce(undefined);
+      const missing = await request(app).post("/api/message-mapping/unknown/tests/run").send({});
+      expect(missing.status).toBe(404);
+    });
+
+    it("테스트 케이스를 수정/삭제하고 없으면 404를 반환해야 함", async () => {
+      mockService.updateTestCase.mockResolvedValueOnce({ ...testCase, name: "수정" });
+      const updated = await request(app).put("/api/message-mapping/test-id/tests/c1").send({ name: "수정" });
+      expect(updated.status).toBe(200);
+      expect(mockService.updateTestCase).toHaveBeenCalledWith("test-id", "c1", { name: "수정" });
+
+      mockService.deleteTestCase.mockResolvedValueOnce(false);
+      const deleted = await request(app).delete("/api/message-mapping/test-id/tests/c9");
+      expect(deleted.status).toBe(404);
+    });
   });
 
   describe("POST /api/message-mapping/validate-schema", () => {
@@ -2,7 +2,7 @@
 import request from "supertest";
 import express from "express";
 import { uploadRoutes } from "../../routes/upload";
-import { errorHandler } from "../../middleware/errorHandler";
+import { legacyErrorHandler as errorHandler } from "../../middleware/errorHandler";
 import { fileUploadService } from "../../services/fileUploadService";
 import { urlFetchService } from "../../services/urlFetchService";
 
@@ -0,0 +1,85 @@
+/**
+ * 식 언어 (파서/평가기) 단위 테스트
+ */
+
+import { compileExpression, evaluateExpression, validateExpression } from '../../services/expression';
+import { ExpressionSyntaxError } from '../../types/errors';
+
+const order = {
+  order: {
+    $: { id: 'A-1' },
+    customer: { name: ' kim ', tier: 'G' },
+    total: { $: { currency: 'KRW' }, _: '1500' },
+    items: { item: [{ sku: 'p-1', qty: '2' }, { sku: 'p-2', qty: '3' }] }
+  }
+};
+
+describe('식 언어', () => {
+  it('문서 경로, 속성, 반복 요소를 읽어야 함', () => {
+    const scope = { document: order };
+
+    expect(evaluateExpression('order.@id', scope)).toBe('A-1');
+    expect(evaluateExpression('order.total', scope)).toBe('1500');
+    expect(evaluateExpression('order.total.@currency', scope)).toBe('KRW');
+    expect(evaluateExpression('order.items.item.sku', scope)).toEqual(['p-1', 'p-2']);
+    expect(evaluateExpression('order.items.item[1].sku', scope)).toBe('p-2');
+    expect(evaluateExpression('$["order"].customer["tier"]', scope)).toBe('G');
+    expect(evaluateExpression('sum(order.items.item.qty)', scope)).toBe(5);
+    expect(evaluateExpression('order.items.item.sku == "p-2"', scope)).toBe(true);
+  });
+
+  it('연산자 우선순위, 연결, 조건, null 병합을 계산해야 함', () => {
+    const scope = { variables: { value: ' kim ', price: '1200', qty: 3, memo: null } };
+
+    expect(evaluateExpression('1 + 2 * 3 - 4 / 2', scope)).toBe(5);
+    expect(evaluateExpression('price * qty >= 3600 and not (qty < 1)', scope)).toBe(true);
+    expect(evaluateExpression('upper(trim(value)) & "-" & qty', scope)).toBe('KIM-3');
+    expect(evaluateExpression('qty > 2 ? "BULK" : "SINGLE"', scope)).toBe('BULK');
+    expect(evaluateExpression('memo ?? missing ?? "N/A"', scope)).toBe('N/A');
+    expect(evaluateExpression('memo * 2 ?? 0', scope)).toBe(0);
+    expect(evaluateExpression('if(qty > 5, number("x"), "ok")', scope)).toBe('ok');
+    expect(evaluateExpression('concat("a", [1, 2], null, "b")', scope)).toBe('a12b');
+  });
+
+  it('날짜, 숫자, 룩업 함수를 제공해야 함', () => {
+    const now = new Date('2024-03-05T10:20:30Z');
+    const scope = {
+      variables: { tiers: { G: 'GOLD', S: 'SILVER' } },
+      lookupTable: (name: string) => (name === 'countries' ? { KR: 'Korea' } : undefined),
+      now
+    };
+
+    expect(evaluateExpression('formatDate(addDays("2024-02-28", 2), "YYYYMMDD")', scope)).toBe('20240301');
+    expect(evaluateExpression('today()', scope)).toBe('2024-03-05');
+    expect(evaluateExpression('daysBetween("2024-03-01", now())', scope)).toBe(4);
+    expect(evaluateExpression('round(10 / 3, 2)', scope)).toBe(3.33);
+    expect(evaluateExpression('lookup(tiers, "G")', scope)).toBe('GOLD');
+    expect(evaluateExpression('lookup(tiers, "B", "BASIC")', scope)).toBe('BASIC');
+    expect(evaluateExpression('lookup("countries", "KR")', scope)).toBe('Korea');
+    expect(() => evaluateExpression('lookup("unknown", "KR")', scope)).toThrow('룩업 테이블을 찾을 수 없습니다');
+  });
+
+  it('문법 오류를 위치와 함께 보고해야 함', () => {
+    expect(validateExpression('total >= 1000 &&')).toMatchObject({ position: 16, line: 1, column: 17 });
+    expect(validateExpression('status = "open"')).toMatchObject({ position: 7 });
+    expect(validateExpression('upper("a", "b")')?.message).toContain('upper 함수의 인자는 1개여야 합니다');
+    expect(validateExpression('a &&\n  eval("1")')).toMatchObject({ line: 2, column: 3, position: 7 });
+    expect(validateExpression('"open')?.message).toContain('문자열이 닫히지 않았습니다');
+    expect(validateExpression('value.trim()')?.message).toContain('함수는 이름으로만 호출할 수 있습니다');
+    expect(validateExpression('value > 0')).toBeUndefined();
+
+    expect(() => compileExpression('(1 + 2')).toThrow(ExpressionSyntaxError);
+  });
+
+  it('프로토타입과 등록되지 않은 함수에 접근할 수 없어야 함', () => {
+    const scope = { document: { name: 'x' }, variables: {} };
+
+    expect(evaluateExpression('constructor', scope)).toBeUndefined();
+    expect(evaluateExpression('name.constructor', scope)).toBeUndefined();
+    expect(evaluateExpression('$["__proto__"]', scope)).toBeUndefined();
+    expect(evaluateExpression('toString', scope)).toBeUndefined();
+    expect(validateExpression('toString()')?.message).toContain('알 수 없는 함수입니다: toString');
+    expect(validateExpression('a constructor b')).toBeDefined();
+    expect(() => evaluateExpression('"a" + 1')).toThrow('문자열 연결은 &');
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * FieldMatcher 단위 테스트
+ */
+
+import { FieldMatcher, splitFieldName } from '../../services/mapping/FieldMatcher';
+import { SchemaGridData } from '../../types/schema';
+
+const row = (path: string, dataType: string, extra: Partial<SchemaGridData> = {}): SchemaGridData => {
+  const segments = path.split('.');
+  return {
+    fieldName: segments[segments.length - 1]!,
+    dataType,
+    required: false,
+    description: '',
+    path,
+    ...(segments.length > 1 ? { parentPath: segments.slice(0, -1).join('.') } : {}),
+    ...extra
+  };
+};
+
+describe('FieldMatcher', () => {
+  let matcher: FieldMatcher;
+
+  beforeEach(() => {
+    matcher = new FieldMatcher();
+  });
+
+  it('camelCase/snake_case/약어를 단어로 나눠 비교해야 함', () => {
+    expect(splitFieldName('customerID')).toEqual(['customer', 'id']);
+    expect(splitFieldName('order_no')).toEqual(['order', 'no']);
+    expect(splitFieldName('ship-to-addr')).toEqual(['ship', 'to', 'addr']);
+
+    const suggestions = matcher.suggest(
+      [[row('cust_nm', 'string'), row('order_no', 'string'), row('tel', 'string')]],
+      [[row('customerName', 'string'), row('orderNumber', 'string'), row('phoneNumber', 'string')]]
+    );
+
+    expect(suggestions.map(s => [s.sourcePath, s.targetPath])).toEqual([
+      ['$.cust_nm', '$.customerName'],
+      ['$.order_no', '$.orderNumber'],
+      ['$.tel', '$.phoneNumber']
+    ]);
+    expect(suggestions[0]).toMatchObject({
+      id: 'suggestion-1',
+      confidence: 1,
+      scores: { name: 1, type: 1 },
+      status: 'pending',
+      rule: { id: 'suggested-1', type: 'element', sourcePath: '$.cust_nm', targetPath: '$.customerName' }
+    });
+    expect(suggestions[0]!.reasons[0]).toContain('약어/동의어 일치');
+    expect(suggestions[2]!.confidence).toBeLessThan(1);
+  });
+
+  it('동의어와 설명을 반영하고 사용자 동의어를 더할 수 있어야 함', () => {
+    const source = [[
+      row('client', 'object'),
+      row('client.email', 'string', { description: 'contact e-mail address of the client' }),
+      row('vendorCode', 'string')
+    ]];
+    const target = [[
+      row('buyer', 'object'),
+      row('buyer.mail', 'string', { description: 'buyer e-mail address' }),
+      row('partnerCode', 'string')
+    ]];
+
+    const suggestions = matcher.suggest(source, target);
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0]).toMatchObject({ sourcePath: '$.client.email', targetPath: '$.buyer.mail', scores: { name: 1, type: 1 } });
+    expect(suggestions[0]!.scores.description).toBeGreaterThan(0.5);
+    expect(suggestions[0]!.reasons).toContain('설명 유사');
+
+    const custom = new FieldMatcher([['vendor', 'partner']]).suggest(source, target);
+    expect(custom.map(s => s.targetPath)).toEqual(['$.partnerCode', '$.buyer.mail']);
+  });
+
+  it('타입 변환이 필요한 쌍은 dataType 규칙으로, XML 경로는 속성/반복을 반영해야 함', () => {
+    const source = [[
+      row('order', 'object'),
+      row('order.id', 'string', { isAttribute: true }),
+      row('order.items', 'array', { itemType: 'object' }),
+      row('order.items.qty', 'string'),
+      row('order.items.price', 'decimal')
+    ]];
+    const target = [[
+      row('items', 'array', { itemType: 'object' }),
+      row('items.quantity', 'integer', { required: true }),
+      row('items.price', 'string'),
+      row('orderId', 'string')
+    ]];
+
+    const suggestions = matcher.suggest(source, target, { sourceFormat: 'xml', targetFormat: 'json' });
+    const byTarget = Object.fromEntries(suggestions.map(s => [s.targetPath, s]));
+
+    expect(byTarget['$.items[*].quantity']!.rule).toEqual({
+      id: expect.any(String),
+      type: 'dataType',
+      sourcePath: '/order/items[*]/qty',
+      targetPath: '$.items[*].quantity',
+      transformation: 'integer',
+      required: true
+    });
+    expect(byTarget['$.items[*].quantity']!.scores.type).toBeLessThan(1);
+    expect(byTarget['$.items[*].price']!.rule).toMatchObject({ type: 'element', sourcePath: '/order/items[*]/price' });
+    expect(byTarget['$.orderId']!.rule).toMatchObject({ type: 'element', sourcePath: '/order/@id' });
+  });
+
+  it('대상마다 원본 하나만 배정하고 기준/제외/개수 제한을 지켜야 함', () => {
+    const source = [[row('name', 'string'), row('fullName', 'string'), row('createdAt', 'datetime')]];
+    const target = [[row('fullName', 'string'), row('name', 'string'), row('status', 'string')]];
+
+    const suggestions = matcher.suggest(source, target);
+    expect(suggestions.map(s => [s.sourcePath, s.targetPath])).toEqual([
+      ['$.fullName', '$.fullName'],
+      ['$.name', '$.name']
+    ]);
+
+    expect(matcher.suggest(source, target, {}, (_source, targetPath) => targetPath === '$.name')
+      .map(s => [s.sourcePath, s.targetPath])).toEqual([['$.fullName', '$.fullName']]);
+    expect(matcher.suggest(source, target, { limit: 1 })).toHaveLength(1);
+    expect(matcher.suggest([[row('name', 'boolean')]], [[row('name', 'date')]], { minConfidence: 0.8 })).toEqual([]);
+  });
+});
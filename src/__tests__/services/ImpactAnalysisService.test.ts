@@ -0,0 +1,138 @@
+/**
+ * ImpactAnalysisService 단위 테스트
+ */
+
+import { ImpactAnalysisService } from '../../services/ImpactAnalysisService';
+import { SchemaRepositoryService } from '../../services/SchemaRepositoryService';
+import { InMemorySchemaRepository } from '../../services/repository/InMemorySchemaRepository';
+import { MessageMappingService } from '../../services/messageMappingService';
+import { renameMappingPath } from '../../services/impact/FieldUsageIndex';
+import { CollaborationSession } from '../../types/collaboration';
+import { NotFoundError, ValidationError } from '../../types/errors';
+import { Logger } from '../../core/logging/Logger';
+
+// Logger 모킹
+jest.mock('../../core/logging/Logger');
+
+const orderSchema = JSON.stringify({
+  type: 'object',
+  properties: {
+    orderId: { type: 'string' },
+    customer: {
+      type: 'object',
+      properties: { customerId: { type: 'string' }, name: { type: 'string' } }
+    }
+  },
+  required: ['orderId']
+});
+
+const customerSchema = JSON.stringify({
+  type: 'object',
+  properties: { customerId: { type: 'string' }, email: { type: 'string' } }
+});
+
+describe('ImpactAnalysisService', () => {
+  let repositoryService: SchemaRepositoryService;
+  let mappingService: MessageMappingService;
+  let sessions: CollaborationSession[];
+  let service: ImpactAnalysisService;
+  let orderId: string;
+  let customerId: string;
+
+  beforeEach(async () => {
+    const mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+    (Logger.getInstance as jest.Mock).mockReturnValue(mockLogger);
+
+    repositoryService = new SchemaRepositoryService(new InMemorySchemaRepository());
+    mappingService = new MessageMappingService(mockLogger);
+    sessions = [];
+    service = new ImpactAnalysisService(repositoryService, mappingService, () => sessions);
+
+    orderId = (await repositoryService.createSchema({ name: 'Order', format: 'json', content: orderSchema }, 'alice')).id;
+    customerId = (await repositoryService.createSchema({ name: 'Customer', format: 'json', content: customerSchema }, 'bob')).id;
+
+    await mappingService.createAdvancedMappingRules('order-to-crm', [
+      { id: 'r1', type: 'element', sourcePath: '$.customer.customerId', targetPath: '/crm/ns:CustomerId' },
+      { id: 'r2', type: 'condition', sourcePath: '$.orderId', targetPath: '/crm/orderRef', condition: 'customerId != null' }
+    ]);
+    await mappingService.createTransformationRule('order-to-crm', {
+      id: 't1', name: 'upper', description: '', function: 'upper(email)', parameters: {}
+    });
+  });
+
+  it('스키마 필드와 매핑 경로, 식의 사용처를 찾아야 함', async () => {
+    const usages = await service.findUsages({ field: 'customerId' });
+
+    expect(usages.schemas.map(usage => `${usage.schemaName}:${usage.path}`).sort())
+      .toEqual(['Customer:customerId', 'Order:customer.customerId']);
+    expect(usages.mappings.map(usage => `${usage.ruleId}:${usage.location}`))
+      .toEqual(['r1:sourcePath', 'r2:condition']);
+
+    const scoped = await service.findUsages({ field: 'customer.customerId' });
+    expect(scoped.schemas.map(usage => usage.schemaName)).toEqual(['Order']);
+    expect(scoped.mappings.map(usage => usage.ruleId)).toEqual(['r1', 'r2']);
+  });
+
+  it('이름 변경 시 영향받는 스키마, 매핑, 협업 세션과 수정 경로를 반환해야 함', async () => {
+    sessions.push({
+      id: orderId,
+      schemaId: orderId,
+      name: 'Order 편집',
+      createdBy: 'alice',
+      createdAt: new Date(),
+      activeUsers: [
+        { id: 'alice', name: 'Alice', color: '#fff', joinedAt: new Date(), lastActivity: new Date(), permissions: [], isOnline: true },
+        { id: 'carol', name: 'Carol', color: '#000', joinedAt: new Date(), lastActivity: new Date(), permissions: [], isOnline: false }
+      ],
+      isActive: true,
+      settings: {} as CollaborationSession['settings'],
+      lastActivity: new Date()
+    });
+
+    const result = await service.analyze({ field: 'customerId', change: { kind: 'rename', newName: 'clientId' } });
+
+    expect(result.summary).toMatchObject({ schemaCount: 2, mappingCount: 1, ruleCount: 2, sessionCount: 1, breaking: true });
+    const order = result.schemas.find(schema => schema.schemaId === orderId)!;
+    expect(order.changes).toEqual([
+      expect.objectContaining({ type: 'FIELD_RENAMED', path: 'customer.clientId', oldPath: 'customer.customerId', severity: 'breaking' })
+    ]);
+
+    const [path, condition] = result.mappings;
+    expect(path).toMatchObject({ ruleId: 'r1', level: 'breaking', suggestedExpression: '$.customer.clientId' });
+    expect(condition).toMatchObject({ ruleId: 'r2', level: 'review', suggestedExpression: 'clientId != null' });
+    expect(result.sessions).toEqual([{ sessionId: orderId, schemaId: orderId, name: 'Order 편집', onlineUsers: ['alice'] }]);
+  });
+
+  it('타입 변경과 삭제를 스키마별 비교 결과로 분류해야 함', async () => {
+    const retyped = await service.analyze({ field: 'customer', schemaId: orderId, change: { kind: 'retype', newType: 'string' } });
+    expect(retyped.schemas).toHaveLength(1);
+    expect(retyped.schemas[0]!.changes).toEqual([
+      expect.objectContaining({ type: 'TYPE_CHANGED', path: 'customer', severity: 'breaking' })
+    ]);
+    expect(retyped.mappings[0]).toMatchObject({ ruleId: 'r1', level: 'review' });
+
+    const removed = await service.analyze({ field: 'email', schemaId: customerId, change: { kind: 'remove' } });
+    expect(removed.schemas[0]!.changes).toEqual([expect.objectContaining({ type: 'FIELD_REMOVED', path: 'email' })]);
+    expect(removed.mappings).toEqual([expect.objectContaining({ ruleId: 't1', location: 'transformationRule', level: 'review' })]);
+    expect(removed.summary.breaking).toBe(true);
+  });
+
+  it('없는 필드와 잘못된 변경을 거부해야 함', async () => {
+    await expect(service.analyze({ field: 'missing', schemaId: orderId, change: { kind: 'remove' } }))
+      .rejects.toBeInstanceOf(NotFoundError);
+    await expect(service.analyze({ field: 'orderId', change: { kind: 'rename', newName: 'a.b' } }))
+      .rejects.toBeInstanceOf(ValidationError);
+    expect((await service.analyze({ field: 'unused', change: { kind: 'remove' } })).summary)
+      .toMatchObject({ schemaCount: 0, ruleCount: 0, breaking: false });
+  });
+
+  it('매핑 경로의 접두사와 속성 표기를 유지하며 이름을 바꿔야 함', () => {
+    expect(renameMappingPath('/ns:order/items[*]/@sku', ['sku'], 'code')).toBe('/ns:order/items[*]/@code');
+    expect(renameMappingPath('$.order.items[0].sku', ['items', 'sku'], 'code')).toBe('$.order.items[0].code');
+  });
+});
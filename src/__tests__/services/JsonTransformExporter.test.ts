@@ -0,0 +1,64 @@
+/**
+ * JsonTransformExporter / jsonataTranslation 단위 테스트
+ */
+
+import { JsonTransformExporter } from '../../services/mapping/JsonTransformExporter';
+import { expressionToJsonata, transformToJsonata } from '../../services/mapping/jsonataTranslation';
+import { parseExpression } from '../../services/expression';
+import { AdvancedMappingRule, TransformationRule } from '../../services/messageMappingService';
+
+describe('JsonTransformExporter', () => {
+  let exporter: JsonTransformExporter;
+
+  beforeEach(() => {
+    exporter = new JsonTransformExporter();
+  });
+
+  it('식과 내장 변환을 JSONata로 옮겨야 함', () => {
+    expect(expressionToJsonata(parseExpression('total >= 1000 && status != "closed"')))
+      .toBe('(($$.total >= 1000) and ($$.status != "closed"))');
+    expect(expressionToJsonata(parseExpression('upper(value) & "-" & order.id'), { value: '$' }))
+      .toBe('(($uppercase($string($)) & "-") & $$.order.id)');
+    expect(expressionToJsonata(parseExpression('lookup(grades, value, "BASIC")'), { value: '$', parameters: { grades: { G: 'GOLD' } } }))
+      .toBe('($m := $lookup({"G":"GOLD"}, $string($)); $exists($m) ? $m : "BASIC")');
+    expect(transformToJsonata('formatDate', { format: 'YYYY/MM/DD [x]' }, '$'))
+      .toBe('$fromMillis($toMillis($string($)), "[Y0001]/[M01]/[D01] [[x]]")');
+    expect(() => expressionToJsonata(parseExpression('order.@id'))).toThrow('JSONata로 옮길 수 없습니다');
+  });
+
+  it('대상 경로별 객체 생성자로 규칙을 모으고 반복 대상은 배열로 만들어야 함', () => {
+    const transformations: TransformationRule[] = [
+      { id: 't1', name: 'tierName', description: '', function: 'map', parameters: { values: { G: 'GOLD' } } }
+    ];
+    const rules: AdvancedMappingRule[] = [
+      { id: 'id', type: 'element', sourcePath: '$.order.id', targetPath: '$.orderId' },
+      { id: 'tier', type: 'transformation', sourcePath: '$.order.tier', targetPath: '$.customer.tier', transformation: 'tierName', defaultValue: 'NONE' },
+      { id: 'vat', type: 'transformation', sourcePath: '$.order.total', targetPath: '$.amount.vat', transformation: 'round(value * 0.1)', condition: 'order.currency == "KRW"' },
+      { id: 'skus', type: 'element', sourcePath: '$.order.items[*].sku', targetPath: '$.lines[*].code' },
+      { id: 'attr', type: 'attribute', sourcePath: '/order/@id', targetPath: '$.code' }
+    ];
+
+    const result = exporter.export(rules, transformations, 'm1');
+
+    expect(result.spec).toMatchObject({ format: 'json-transform', version: 1, mappingId: 'm1', rules, transformations });
+    expect(result.skippedRules).toEqual(['attr']);
+    expect(result.warnings).toEqual([{ ruleId: 'attr', message: 'JSONata로 옮길 수 없습니다: 속성(@) 경로' }]);
+    expect(result.spec.jsonata).toContain('"orderId": ($v := $$.order.id; $not(($not($exists($v)) or $v = null or $v = "")) ? $v)');
+    expect(result.spec.jsonata).toContain('? ($m := $lookup({"G":"GOLD"}, $string("NONE")); $exists($m) ? $m : "NONE") :');
+    expect(result.spec.jsonata).toContain('"vat": (($$.order.currency = "KRW") ? ($v := $$.order.total;');
+    expect(result.spec.jsonata).toContain('"lines": [$$.order.items.{\n    "code": ($v := sku;');
+  });
+
+  it('명세를 규칙으로 다시 읽고 형식이 맞지 않으면 거부해야 함', () => {
+    const rules: AdvancedMappingRule[] = [
+      { id: 'r1', type: 'element', sourcePath: '$.a', targetPath: '$.b', validation: { type: 'enum', values: ['X'] } }
+    ];
+    const { spec } = exporter.export(rules, [{ id: 't1', name: 'up', description: '', function: 'uppercase', parameters: {} }]);
+
+    expect(exporter.toRules(JSON.parse(JSON.stringify(spec)))).toEqual({ rules, transformations: spec.transformations });
+    expect(() => exporter.toRules({ ...spec, format: 'jsonata' })).toThrow('JSON 변환 명세가 아닙니다');
+    expect(() => exporter.toRules({ ...spec, rules: undefined })).toThrow('명세에 rules 배열이 필요합니다');
+    expect(() => exporter.toRules({ ...spec, rules: [{ id: 'r1', type: 'copy', sourcePath: '', targetPath: '$.b' }] }))
+      .toThrow('rules[0]: 지원하지 않는 규칙 타입입니다: copy');
+  });
+});
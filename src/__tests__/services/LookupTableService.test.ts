@@ -0,0 +1,145 @@
+/**
+ * LookupTableService 단위 테스트
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LookupTableService, parseCsv } from '../../services/LookupTableService';
+import { FileLookupTableStore } from '../../services/lookup/FileLookupTableStore';
+import { InMemoryLookupTableStore } from '../../services/lookup/InMemoryLookupTableStore';
+import { MappingEngine } from '../../services/mapping/MappingEngine';
+import { AdvancedMappingRule, TransformationRule } from '../../services/messageMappingService';
+import { ConflictError, InternalServerError, NotFoundError, ValidationError } from '../../types/errors';
+import { Logger } from '../../core/logging/Logger';
+
+// Logger 모킹
+jest.mock('../../core/logging/Logger');
+
+describe('LookupTableService', () => {
+  let service: LookupTableService;
+
+  beforeEach(async () => {
+    const mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+    (Logger.getInstance as jest.Mock).mockReturnValue(mockLogger);
+
+    service = new LookupTableService();
+    await service.createTable({ name: 'country', entries: { KR: 'Korea', JP: 'Japan' } });
+  });
+
+  it('항목이 바뀔 때만 새 버전을 남기고 이전 버전을 조회할 수 있어야 함', async () => {
+    await expect(service.createTable({ name: 'country' })).rejects.toThrow(ConflictError);
+    await expect(service.createTable({ name: '1st table' })).rejects.toThrow(ValidationError);
+    await expect(service.createTable({ name: 'dup', entries: [{ key: 'A', value: 1 }, { key: 'A', value: 2 }] }))
+      .rejects.toThrow('중복된 키입니다: A');
+
+    await service.updateTable('country', { description: '국가 코드' });
+    expect(service.getTable('country')).toMatchObject({ version: 1, description: '국가 코드' });
+
+    await service.updateTable('country', { entries: { KR: 'South Korea' }, comment: '명칭 변경' });
+    expect(service.getTable('country')).toMatchObject({ version: 2, entries: [{ key: 'KR', value: 'South Korea' }] });
+    expect(service.getTable('country', 1).entries).toHaveLength(2);
+    expect(service.listVersions('country').map(({ version, entryCount, comment }) => ({ version, entryCount, comment })))
+      .toEqual([
+        { version: 2, entryCount: 1, comment: '명칭 변경' },
+        { version: 1, entryCount: 2, comment: '최초 생성' }
+      ]);
+
+    await service.deleteTable('country');
+    expect(() => service.getTable('country')).toThrow(NotFoundError);
+  });
+
+  it('CSV를 가져오고 같은 내용으로 내보내야 함', async () => {
+    const csv = '\uFEFFvalue,key,description\r\n"Seoul, Korea",SEL,"수도 ""서울"""\nBusan,PUS,\n\n';
+
+    expect(parseCsv(csv)).toEqual([
+      ['value', 'key', 'description'],
+      ['Seoul, Korea', 'SEL', '수도 "서울"'],
+      ['Busan', 'PUS', '']
+    ]);
+
+    const created = await service.importCsv('city', csv, { missPolicy: 'fail' });
+    expect(created).toMatchObject({ name: 'city', version: 1, missPolicy: 'fail' });
+    expect(created.entries).toEqual([
+      { key: 'SEL', value: 'Seoul, Korea', description: '수도 "서울"' },
+      { key: 'PUS', value: 'Busan' }
+    ]);
+
+    const exported = service.exportCsv('city');
+    expect(exported).toBe('key,value,description\r\nSEL,"Seoul, Korea","수도 ""서울"""\r\nPUS,Busan,\r\n');
+
+    // 이미 있는 테이블이면 새 버전
+    expect((await service.importCsv('city', exported)).version).toBe(2);
+    expect(service.listVersions('city')[0]!.comment).toBe('CSV 가져오기');
+    await expect(service.importCsv('city', 'code,name\nA,B')).rejects.toThrow('CSV 머리글에 key, value 열이 필요합니다');
+  });
+
+  it('없는 값은 테이블 정책에 따라 기본값, 원래 값 또는 실패로 처리해야 함', async () => {
+    expect(service.resolve('country', 'KR')).toBe('Korea');
+    expect(service.resolve('country', 'US')).toBe('US');
+    expect(service.resolve('country', 'US', { defaultValue: 'Unknown' })).toBe('Unknown');
+    expect(() => service.resolve('country', 'US', { missPolicy: 'fail' })).toThrow('룩업 테이블 country에 없는 값입니다: US');
+
+    await service.updateTable('country', { missPolicy: 'fail' });
+    expect(() => service.resolve('country', 'US')).toThrow(ValidationError);
+    expect(() => service.resolve('region', 'KR')).toThrow('룩업 테이블을 찾을 수 없습니다: region');
+  });
+
+  it('매핑 변환에서 이름으로 테이블을 참조해야 함', async () => {
+    await service.updateTable('country', { entries: { KR: 'South Korea', JP: 'Japan' } });
+    const engine = new MappingEngine(service);
+    const transformations: TransformationRule[] = [
+      { id: 't1', name: 'countryName', description: '', function: 'lookup', parameters: { table: 'country', version: 1, onMiss: 'fail' } }
+    ];
+    const rules: AdvancedMappingRule[] = [
+      { id: 'name', type: 'transformation', sourcePath: '$.order.country', targetPath: '$.countryName', transformation: 'countryName' },
+      { id: 'code', type: 'transformation', sourcePath: '$.order.origin', targetPath: '$.origin', transformation: 'countryName' },
+      { id: 'expr', type: 'transformation', sourcePath: '$.order.origin', targetPath: '$.originName', transformation: 'lookup("country", value, "Other")' }
+    ];
+
+    const result = await engine.execute({ order: { country: 'KR', origin: 'US' } }, rules, transformations, { targetFormat: 'json' });
+
+    expect(JSON.parse(result.output)).toEqual({ countryName: 'Korea', originName: 'Other' });
+    expect(result.trace.find(entry => entry.ruleId === 'code')).toMatchObject({
+      status: 'failed',
+      message: expect.stringContaining('룩업 테이블 country에 없는 값입니다: US')
+    });
+  });
+
+  it('저장소를 읽지 못하면 ready()와 변경 요청이 InternalServerError로 실패해야 함', async () => {
+    const store = new InMemoryLookupTableStore();
+    jest.spyOn(store, 'loadAll').mockRejectedValue(new Error('EACCES'));
+    const failed = new LookupTableService(store);
+
+    await expect(failed.ready()).rejects.toBeInstanceOf(InternalServerError);
+    await expect(failed.createTable({ name: 'unit' })).rejects.toThrow('저장된 룩업 테이블을 불러올 수 없습니다');
+  });
+
+  it('저장소에 남긴 테이블과 이전 버전을 다시 시작해도 복원해야 함', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'lookup-store-'));
+    try {
+      const first = new LookupTableService(new FileLookupTableStore(directory));
+      await first.createTable({ name: 'unit', missPolicy: 'fail', entries: { EA: 'each' } });
+      await first.updateTable('unit', { entries: { EA: 'each', BOX: 'box' }, comment: '상자 추가' });
+      await first.createTable({ name: 'temp' });
+      await first.deleteTable('temp');
+
+      const reopened = new LookupTableService(new FileLookupTableStore(directory));
+      await reopened.ready();
+      expect(reopened.listTables().map(table => table.name)).toEqual(['unit']);
+      expect(reopened.getTable('unit')).toMatchObject({ version: 2, missPolicy: 'fail' });
+      expect(reopened.getTable('unit', 1).entries).toEqual([{ key: 'EA', value: 'each' }]);
+      expect(reopened.listVersions('unit')[0]).toMatchObject({ version: 2, comment: '상자 추가' });
+      expect(reopened.listVersions('unit')[1]!.createdAt).toBeInstanceOf(Date);
+      expect(reopened.resolve('unit', 'BOX')).toBe('box');
+      expect(fs.readdirSync(directory)).toEqual(['unit.json']);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * MappingEngine 단위 테스트
+ */
+
+import { MappingEngine } from '../../services/mapping/MappingEngine';
+import { AdvancedMappingRule, TransformationRule } from '../../services/messageMappingService';
+import { Logger } from '../../core/logging/Logger';
+
+// Logger 모킹
+jest.mock('../../core/logging/Logger');
+
+const orderXml = `<?xml version="1.0"?>
+<ns:order xmlns:ns="urn:orders" id="A-1">
+  <ns:customer><ns:name> kim </ns:name><ns:tier>G</ns:tier></ns:customer>
+  <ns:total currency="KRW">1500</ns:total>
+  <ns:items><ns:item><ns:sku>p-1</ns:sku></ns:item><ns:item><ns:sku>p-2</ns:sku></ns:item></ns:items>
+</ns:order>`;
+
+describe('MappingEngine', () => {
+  let engine: MappingEngine;
+
+  beforeEach(() => {
+    const mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+    (Logger.getInstance as jest.Mock).mockReturnValue(mockLogger);
+
+    engine = new MappingEngine();
+  });
+
+  it('XML 원본의 요소와 속성을 JSON 대상 경로로 옮기고 규칙별 추적을 남겨야 함', async () => {
+    const transformations: TransformationRule[] = [
+      { id: 't1', name: 'tierName', description: '', function: 'map', parameters: { values: { G: 'GOLD' } } }
+    ];
+    const rules: AdvancedMappingRule[] = [
+      { id: 'id', type: 'attribute', sourcePath: '/order/@id', targetPath: '$.orderId' },
+      { id: 'name', type: 'transformation', sourcePath: '/order/customer/name', targetPath: '$.customer.name', transformation: 'trim|uppercase' },
+      { id: 'tier', type: 'transformation', sourcePath: '/order/customer/tier', targetPath: '$.customer.tier', transformation: 'tierName' },
+      { id: 'total', type: 'dataType', sourcePath: '/order/total', targetPath: '$.amount.value', transformation: 'number' },
+      { id: 'currency', type: 'attribute', sourcePath: '/order/total/@currency', targetPath: '$.amount.currency' },
+      { id: 'skus', type: 'element', sourcePath: '/order/items/item[*]/sku', targetPath: '$.lines[*].code' }
+    ];
+
+    const result = await engine.execute(orderXml, rules, transformations, { targetFormat: 'json' });
+
+    expect(result.success).toBe(true);
+    expect(result.target).toEqual({
+      orderId: 'A-1',
+      customer: { name: 'KIM', tier: 'GOLD' },
+      amount: { value: 1500, currency: 'KRW' },
+      lines: [{ code: 'p-1' }, { code: 'p-2' }]
+    });
+    expect(JSON.parse(result.output)).toEqual(result.target);
+    expect(result.trace.find(entry => entry.ruleId === 'name')).toMatchObject({
+      status: 'applied',
+      input: ' kim ',
+      output: 'KIM',
+      transformations: ['trim', 'uppercase']
+    });
+  });
+
+  it('조건, 기본값, 필수, 검증 결과를 상태로 구분해야 함', async () => {
+    const rules: AdvancedMappingRule[] = [
+      { id: 'vip', type: 'condition', sourcePath: '$.name', targetPath: '$.vip', condition: 'total >= 1000 && status == "open"' },
+      { id: 'cheap', type: 'condition', sourcePath: '$.name', targetPath: '$.cheap', condition: 'total < 100' },
+      { id: 'channel', type: 'element', sourcePath: '$.channel', targetPath: '$.channel', defaultValue: 'WEB' },
+      { id: 'memo', type: 'element', sourcePath: '$.memo', targetPath: '$.memo' },
+      { id: 'email', type: 'element', sourcePath: '$.email', targetPath: '$.email', required: true },
+      { id: 'status', type: 'element', sourcePath: '$.status', targetPath: '$.status', validation: { type: 'enum', values: ['OPEN'] } },
+      { id: 'total', type: 'element', sourcePath: '$.total', targetPath: '$.total', validation: { type: 'custom', function: 'value > 0' } }
+    ];
+
+    const result = await engine.execute({ name: 'kim', total: 1500, status: 'open' }, rules);
+
+    expect(result.trace.map(entry => `${entry.ruleId}:${entry.status}`)).toEqual([
+      'vip:applied', 'cheap:skipped', 'channel:defaulted', 'memo:missing', 'email:failed', 'status:failed', 'total:applied'
+    ]);
+    expect(result.summary).toMatchObject({ total: 7, applied: 2, defaulted: 1, skipped: 1, missing: 1, failed: 2 });
+    expect(result.success).toBe(false);
+    expect(result.target).toEqual({ vip: 'kim', channel: 'WEB', total: 1500 });
+  });
+
+  it('XML 대상 문서를 속성과 네임스페이스를 포함해 만들어야 함', async () => {
+    const rules: AdvancedMappingRule[] = [
+      { id: 'id', type: 'attribute', sourcePath: '$.id', targetPath: '/invoice/id' },
+      { id: 'amount', type: 'element', sourcePath: '$.amount', targetPath: '/invoice/amount' },
+      { id: 'currency', type: 'element', sourcePath: '$.currency', targetPath: '/invoice/amount/@currency' }
+    ];
+
+    const result = await engine.execute('{"id":"I-1","amount":10,"currency":"USD"}', rules, [], {
+      targetFormat: 'xml',
+      namespace: 'urn:invoices'
+    });
+
+    expect(result.output).toContain('<invoice xmlns="urn:invoices" id="I-1">');
+    expect(result.output).toContain('<amount currency="USD">10</amount>');
+  });
+
+  it('식 언어로 조건과 변환을 평가해야 함', async () => {
+    const transformations: TransformationRule[] = [
+      { id: 't1', name: 'grade', description: '', function: 'lookup(grades, value, "BASIC")', parameters: { grades: { G: 'GOLD' } } }
+    ];
+    const rules: AdvancedMappingRule[] = [
+      { id: 'label', type: 'transformation', sourcePath: '/order/customer/name', targetPath: '$.label', transformation: 'upper(trim(value)) & " (" & order.@id & ")"' },
+      { id: 'grade', type: 'transformation', sourcePath: '/order/customer/tier', targetPath: '$.grade', transformation: 'grade' },
+      { id: 'vat', type: 'transformation', sourcePath: '/order/total', targetPath: '$.vat', transformation: 'round(value * 0.1)', condition: 'order.total.@currency == "KRW"' },
+      { id: 'broken', type: 'condition', sourcePath: '/order/total', targetPath: '$.broken', condition: 'order.total >' }
+    ];
+
+    const result = await engine.execute(orderXml, rules, transformations);
+
+    expect(result.target).toEqual({ label: 'KIM (A-1)', grade: 'GOLD', vat: 150 });
+    expect(result.trace[3]).toMatchObject({ status: 'failed' });
+    expect(result.trace[3]!.message).toContain('1줄 14열');
+  });
+
+  it('알 수 없는 변환은 실패로 기록하고 해석할 수 없는 원본은 거부해야 함', async () => {
+    const result = await engine.execute({ a: 'x' }, [
+      { id: 'r', type: 'transformation', sourcePath: '$.a', targetPath: '$.b', transformation: 'rot13' }
+    ]);
+    expect(result.trace[0]).toMatchObject({ status: 'failed', message: '지원하지 않는 변환입니다: rot13' });
+
+    await expect(engine.execute('<broken', [], [], { sourceFormat: 'xml' })).rejects.toThrow('원본 XML 문서를 해석할 수 없습니다');
+  });
+
+  it('프로토타입에 닿는 경로는 실패로 기록하고 전역 객체를 바꾸지 않아야 함', async () => {
+    const result = await engine.execute('{"a": "x"}', [
+      { id: 'proto', type: 'element', sourcePath: 'a', targetPath: '__proto__.polluted' },
+      { id: 'ctor', type: 'element', sourcePath: '$.a', targetPath: '$.constructor.prototype.polluted' },
+      { id: 'attr', type: 'attribute', sourcePath: '$.a', targetPath: '/root/@__proto__' },
+      { id: 'inherited', type: 'element', sourcePath: '$.toString', targetPath: '$.b' }
+    ]);
+
+    expect(({} as any).polluted).toBeUndefined();
+    expect(result.trace.map(entry => entry.status)).toEqual(['failed', 'failed', 'failed', 'missing']);
+    expect(result.trace[0]!.message).toBe('경로에 쓸 수 없는 이름입니다: __proto__');
+    expect(result.target).toEqual({});
+  });
+});
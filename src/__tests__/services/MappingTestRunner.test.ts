@@ -0,0 +1,103 @@
+/**
+ * MappingTestRunner 단위 테스트
+ */
+
+import { MappingTestRunner } from '../../services/mapping/MappingTestRunner';
+import { AdvancedMappingRule } from '../../services/messageMappingService';
+import { Logger } from '../../core/logging/Logger';
+
+// Logger 모킹
+jest.mock('../../core/logging/Logger');
+
+describe('MappingTestRunner', () => {
+  let runner: MappingTestRunner;
+
+  const rules: AdvancedMappingRule[] = [
+    { id: 'id', type: 'element', sourcePath: '$.order.id', targetPath: '$.invoice.number', required: true },
+    { id: 'total', type: 'dataType', sourcePath: '$.order.total', targetPath: '$.invoice.amount', transformation: 'number' },
+    { id: 'skus', type: 'element', sourcePath: '$.order.items[*].sku', targetPath: '$.invoice.lines[*].code' }
+  ];
+
+  beforeEach(() => {
+    const mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+    (Logger.getInstance as jest.Mock).mockReturnValue(mockLogger);
+
+    runner = new MappingTestRunner();
+  });
+
+  it('기대 출력과 같으면 통과하고 다르면 위치별 차이를 보고해야 함', async () => {
+    const input = { order: { id: 'A-1', total: '1500', items: [{ sku: 'p-1' }, { sku: 'p-2' }] } };
+
+    const result = await runner.run('m1', [
+      {
+        id: 'ok',
+        name: '정상 주문',
+        input,
+        expectedOutput: { invoice: { number: 'A-1', amount: 1500, lines: [{ code: 'p-1' }, { code: 'p-2' }] } }
+      },
+      {
+        id: 'diff',
+        name: '달라진 출력',
+        input,
+        expectedOutput: '{"invoice": {"number": "A-2", "lines": [{"code": "p-1"}], "currency": "KRW"}}'
+      }
+    ], rules, [], { targetFormat: 'json' });
+
+    expect(result).toMatchObject({ mappingId: 'm1', total: 2, passed: 1, failed: 1 });
+    expect(result.results[0]).toMatchObject({ caseId: 'ok', passed: true, differences: [] });
+    expect(result.results[1]!.passed).toBe(false);
+    expect(result.results[1]!.differences).toEqual([
+      { path: '$.invoice.number', kind: 'changed', expected: 'A-2', actual: 'A-1' },
+      { path: '$.invoice.lines[1]', kind: 'unexpected', actual: { code: 'p-2' } },
+      { path: '$.invoice.currency', kind: 'missing', expected: 'KRW' },
+      { path: '$.invoice.amount', kind: 'unexpected', actual: 1500 }
+    ]);
+  });
+
+  it('기대한 규칙 실패와 실제 실패를 맞춰 보고해야 함', async () => {
+    const input = '{"order": {"total": "abc"}}';
+
+    const [expected, unexpected] = (await runner.run('m1', [
+      {
+        id: 'errors',
+        name: '필수 값 누락',
+        input,
+        expectedErrors: [{ ruleId: 'id', message: '필수 값이 없습니다' }, { ruleId: 'total' }]
+      },
+      { id: 'strict', name: '실패 없어야 함', input, expectedErrors: [{ ruleId: 'skus' }] }
+    ], rules)).results;
+
+    expect(expected).toMatchObject({ passed: true, missingErrors: [], unexpectedErrors: [] });
+    expect(unexpected!.passed).toBe(false);
+    expect(unexpected!.missingErrors).toEqual([{ ruleId: 'skus' }]);
+    expect(unexpected!.unexpectedErrors.map(failure => failure.ruleId)).toEqual(['id', 'total']);
+  });
+
+  it('XML 출력은 XPath 형태로 차이를 보고하고 해석할 수 없는 입력은 오류로 남겨야 함', async () => {
+    const xmlRules: AdvancedMappingRule[] = [
+      { id: 'id', type: 'attribute', sourcePath: '/order/@id', targetPath: '/invoice/@number' },
+      { id: 'name', type: 'element', sourcePath: '/order/customer', targetPath: '/invoice/buyer' }
+    ];
+
+    const [xml, broken] = (await runner.run('m1', [
+      {
+        id: 'xml',
+        name: 'XML',
+        input: '<order id="A-1"><customer>kim</customer></order>',
+        expectedOutput: '<invoice number="A-9"><buyer>kim</buyer><seller>acme</seller></invoice>'
+      },
+      { id: 'broken', name: '깨진 입력', input: '<order>' }
+    ], xmlRules, [], { sourceFormat: 'xml', targetFormat: 'xml' })).results;
+
+    expect(xml!.differences).toEqual([
+      { path: '/invoice/@number', kind: 'changed', expected: 'A-9', actual: 'A-1' },
+      { path: '/invoice/seller', kind: 'missing', expected: 'acme' }
+    ]);
+    expect(broken).toMatchObject({ passed: false, error: expect.stringContaining('원본 XML 문서를 해석할 수 없습니다') });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * SampleMessageGenerator 단위 테스트
+ */
+
+import * as xml2js from 'xml2js';
+import * as yaml from 'js-yaml';
+import { SampleMessageGenerator } from '../../services/SampleMessageGenerator';
+import { SchemaFormat, SchemaGridData } from '../../types/schema';
+import { Logger } from '../../core/logging/Logger';
+
+// Logger 모킹
+jest.mock('../../core/logging/Logger');
+
+const toRows = (rows: SchemaGridData[]): SchemaGridData[][] => rows.map(row => [row]);
+
+describe('SampleMessageGenerator', () => {
+  let generator: SampleMessageGenerator;
+
+  const orderGrid = toRows([
+    { fieldName: 'order', dataType: 'object', required: true, description: '', path: 'order', depth: 0 },
+    { fieldName: 'id', dataType: 'string', required: true, description: '', path: 'order.id', parentPath: 'order', depth: 1, isAttribute: true, pattern: '[A-Z]{3}-\\d{4}' },
+    { fieldName: 'status', dataType: 'string', required: true, description: '', path: 'order.status', parentPath: 'order', depth: 1, enumValues: ['NEW', 'PAID', 'SHIPPED'] },
+    { fieldName: 'currency', dataType: 'string', required: true, description: '', path: 'order.currency', parentPath: 'order', depth: 1, defaultValue: 'KRW' },
+    { fieldName: 'note', dataType: 'string', required: false, description: '', path: 'order.note', parentPath: 'order', depth: 1, minLength: 5, maxLength: 8 },
+    { fieldName: 'quantity', dataType: 'integer', required: true, description: '', path: 'order.quantity', parentPath: 'order', depth: 1, constraints: '{"minimum":1,"maximum":10}' },
+    { fieldName: 'items', dataType: 'array', itemType: 'object', required: true, description: '', path: 'order.items', parentPath: 'order', depth: 1, constraints: '{"minItems":3}' },
+    { fieldName: 'sku', dataType: 'string', required: true, description: '', path: 'order.items.sku', parentPath: 'order.items', depth: 2 }
+  ]);
+
+  beforeEach(() => {
+    const mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+    (Logger.getInstance as jest.Mock).mockReturnValue(mockLogger);
+
+    generator = new SampleMessageGenerator();
+  });
+
+  describe('generate', () => {
+    it('같은 시드에서는 같은 메시지를 생성해야 함', () => {
+      const first = generator.generate(orderGrid, { seed: 'orders' });
+      const second = generator.generate(orderGrid, { seed: 'orders' });
+
+      expect(second.content).toBe(first.content);
+      expect(second.seed).toBe(first.seed);
+    });
+
+    it('열거값, 패턴, 길이, 범위, 기본값 제약을 지켜야 함', () => {
+      for (let seed = 1; seed <= 20; seed++) {
+        const { data } = generator.generate(orderGrid, { seed });
+
+        expect(['NEW', 'PAID', 'SHIPPED']).toContain(data.order.status);
+        expect(data.order.id).toMatch(/^[A-Z]{3}-\d{4}$/);
+        expect(data.order.currency).toBe('KRW');
+        expect(data.order.note.length).toBeGreaterThanOrEqual(5);
+        expect(data.order.note.length).toBeLessThanOrEqual(8);
+        expect(Number.isInteger(data.order.quantity)).toBe(true);
+        expect(data.order.quantity).toBeGreaterThanOrEqual(1);
+        expect(data.order.quantity).toBeLessThanOrEqual(10);
+        expect(data.order.items).toHaveLength(3);
+      }
+    });
+
+    it('optionalFields가 required이면 선택 필드를 생략해야 함', () => {
+      const { data } = generator.generate(orderGrid, { seed: 1, optionalFields: 'required' });
+
+      expect(data.order).not.toHaveProperty('note');
+      expect(data.order).toHaveProperty('status');
+    });
+
+    it('XML에서 속성과 반복 요소를 생성해야 함', async () => {
+      const result = generator.generate(orderGrid, {
+        seed: 3,
+        format: 'xml',
+        rootName: 'message',
+        namespace: 'http://example.com/orders'
+      });
+      const parsed = await xml2js.parseStringPromise(result.content);
+
+      expect(parsed.message.$.xmlns).toBe('http://example.com/orders');
+      expect(parsed.message.order[0].$.id).toMatch(/^[A-Z]{3}-\d{4}$/);
+      expect(parsed.message.order[0].items).toHaveLength(3);
+      expect(parsed.message.order[0].items[0].sku).toHaveLength(1);
+    });
+
+    it('YAML 메시지를 생성해야 함', () => {
+      const result = generator.generate(orderGrid, { seed: 5, format: 'yaml' });
+
+      expect(yaml.load(result.content)).toEqual(result.data);
+    });
+
+    it('재귀 typeRef는 최대 깊이에서 멈추고 경고를 남겨야 함', () => {
+      const gridData = toRows([
+        { fieldName: 'node', dataType: 'object', required: true, description: '', path: 'node', depth: 0, typeRef: 'TreeNode' },
+        { fieldName: 'name', dataType: 'string', required: true, description: '', path: 'node.name', parentPath: 'node', depth: 1 },
+        { fieldName: 'child', dataType: 'object', required: true, description: '', path: 'node.child', parentPath: 'node', depth: 1, typeRef: 'TreeNode' }
+      ]);
+
+      const result = generator.generate(gridData, { seed: 1, maxDepth: 3 });
+
+      expect(result.data.node.child.child).toBeDefined();
+      expect(result.warnings.some(warning => warning.includes('최대 깊이'))).toBe(true);
+    });
+
+    it('지원하지 않는 형식은 에러를 발생시켜야 함', () => {
+      expect(() => generator.generate(orderGrid, { format: 'csv' as any })).toThrow('지원하지 않는 샘플 메시지 형식');
+    });
+  });
+
+  describe('generateFromSchema', () => {
+    it('JSON Schema 문서로부터 샘플을 생성해야 함', async () => {
+      const schema = JSON.stringify({
+        type: 'object',
+        properties: {
+          email: { type: 'string', format: 'email' },
+          age: { type: 'integer', minimum: 18, maximum: 30 }
+        },
+        required: ['email', 'age']
+      });
+
+      const result = await generator.generateFromSchema(schema, SchemaFormat.JSON, { seed: 9 });
+
+      expect(result.data.email).toMatch(/^[^@]+@[^@]+$/);
+      expect(result.data.age).toBeGreaterThanOrEqual(18);
+      expect(result.data.age).toBeLessThanOrEqual(30);
+    });
+
+    it('XSD 문서로부터 루트 요소가 같은 XML 샘플을 생성해야 함', async () => {
+      const xsd = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="customer">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="code">
+          <xs:simpleType>
+            <xs:restriction base="xs:string">
+              <xs:pattern value="C[0-9]{5}"/>
+            </xs:restriction>
+          </xs:simpleType>
+        </xs:element>
+      </xs:sequence>
+    </xs:complexType>
+  </xs:element>
+</xs:schema>`;
+
+      const result = await generator.generateFromSchema(xsd, SchemaFormat.XSD, { seed: 2, format: 'xml' });
+      const parsed = await xml2js.parseStringPromise(result.content);
+
+      expect(parsed.customer.code[0]).toMatch(/^C[0-9]{5}$/);
+    });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * SchemaBatchService 단위 테스트
+ */
+
+import { SchemaBatchService } from '../../services/SchemaBatchService';
+import { SchemaRepositoryService } from '../../services/SchemaRepositoryService';
+import { InMemorySchemaRepository } from '../../services/repository/InMemorySchemaRepository';
+import { Logger } from '../../core/logging/Logger';
+
+// Logger 모킹
+jest.mock('../../core/logging/Logger');
+
+const jsonSchema = (properties: Record<string, string>) => JSON.stringify({
+  type: 'object',
+  properties: Object.fromEntries(Object.entries(properties).map(([name, type]) => [name, { type }]))
+});
+
+const context = { userId: 'migrator', requestId: 'req-1' };
+
+describe('SchemaBatchService', () => {
+  let repositoryService: SchemaRepositoryService;
+  let service: SchemaBatchService;
+
+  beforeEach(() => {
+    const mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+    (Logger.getInstance as jest.Mock).mockReturnValue(mockLogger);
+
+    repositoryService = new SchemaRepositoryService(new InMemorySchemaRepository());
+    service = new SchemaBatchService(repositoryService);
+  });
+
+  it('여러 종류의 작업을 실행하고 항목별 결과를 반환해야 함', async () => {
+    const existing = await repositoryService.createSchema({ name: '기존', format: 'json', content: jsonSchema({ id: 'string' }) }, 'u');
+
+    const { results, summary } = await service.execute({
+      operations: [
+        { operation: 'create', data: { name: '신규', format: 'json', content: jsonSchema({ code: 'string' }) } },
+        { operation: 'update', id: existing.id, data: { content: jsonSchema({ id: 'integer' }) } },
+        { operation: 'convert', id: existing.id, data: { targetFormat: 'xsd' } },
+        { operation: 'validate', data: { content: '{"type":', format: 'json' } },
+        { operation: 'delete', id: existing.id }
+      ]
+    }, context);
+
+    expect(results.map(result => result.success)).toEqual([true, true, true, true, true]);
+    expect(results[0]!.data).toMatchObject({ name: '신규', createdBy: 'migrator' });
+    expect(results[1]!.data.version).toBe('1.1.0');
+    expect(results[2]!.data.content).toContain('xs:schema');
+    expect(results[3]!.data.isValid).toBe(false);
+    expect(summary).toMatchObject({ total: 5, successful: 5, failed: 0, skipped: 0, rolledBack: false });
+    expect((await repositoryService.listSchemas()).items.map(schema => schema.name)).toEqual(['신규']);
+  });
+
+  it('continueOnError가 없으면 첫 실패 이후 작업을 건너뛰어야 함', async () => {
+    const { results, summary } = await service.execute({
+      operations: [
+        { operation: 'delete', id: 'missing' },
+        { operation: 'create', data: { name: 'A', format: 'json', content: jsonSchema({ a: 'string' }) } }
+      ]
+    }, context);
+
+    expect(results[0]!.error?.code).toBe('SCHEMA_NOT_FOUND');
+    expect(results[1]).toMatchObject({ skipped: true, error: { code: 'BATCH_ABORTED' } });
+    expect(summary).toMatchObject({ failed: 1, skipped: 1 });
+    expect((await repositoryService.listSchemas()).total).toBe(0);
+  });
+
+  it('continueOnError면 실패한 작업과 관계없이 나머지를 실행해야 함', async () => {
+    const { results, summary } = await service.execute({
+      operations: [
+        { operation: 'create', data: { name: '이름만' } },
+        { operation: 'create', data: { name: 'A', format: 'json', content: jsonSchema({ a: 'string' }) } },
+        { operation: 'update' }
+      ],
+      options: { continueOnError: true, maxConcurrency: 2 }
+    }, context);
+
+    expect(results.map(result => result.index)).toEqual([0, 1, 2]);
+    expect(results[0]!.error).toMatchObject({ code: 'SCHEMA_VALIDATION_FAILED', message: 'data.format은(는) 필수입니다' });
+    expect(results[1]!.success).toBe(true);
+    expect(results[2]!.error?.message).toBe('update 작업에는 id가 필요합니다');
+    expect(summary).toMatchObject({ successful: 1, failed: 2, skipped: 0 });
+  });
+
+  it('트랜잭션 모드에서 실패하면 생성, 수정, 삭제를 모두 되돌려야 함', async () => {
+    const kept = await repositoryService.createSchema({ name: '수정 대상', format: 'json', content: jsonSchema({ id: 'string' }) }, 'u');
+    const removed = await repositoryService.createSchema({ name: '삭제 대상', format: 'json', content: jsonSchema({ id: 'string' }) }, 'u');
+    await repositoryService.tagRevision(removed.id, 1, 'stable');
+
+    const { results, summary } = await service.execute({
+      operations: [
+        { operation: 'create', data: { name: '신규', format: 'json', content: jsonSchema({ a: 'string' }) } },
+        { operation: 'update', id: kept.id, data: { name: '수정됨', content: jsonSchema({ id: 'integer' }) } },
+        { operation: 'delete', id: removed.id },
+        { operation: 'create', data: { name: '깨짐', format: 'json', content: '{"type":' } },
+        { operation: 'validate', id: kept.id }
+      ],
+      options: { transactional: true, continueOnError: true }
+    }, context);
+
+    expect(summary).toMatchObject({ rolledBack: true, successful: 0, skipped: 1 });
+    expect(results.slice(0, 3).every(result => result.rolledBack)).toBe(true);
+    expect(results[3]!.error?.code).toBe('SCHEMA_VALIDATION_FAILED');
+    expect(results[4]!.skipped).toBe(true);
+
+    const schemas = (await repositoryService.listSchemas()).items;
+    expect(schemas.map(schema => schema.name).sort()).toEqual(['삭제 대상', '수정 대상']);
+
+    const restored = await repositoryService.getSchema(kept.id);
+    expect(restored).toMatchObject({ name: '수정 대상', version: '1.0.0', revision: 1 });
+    expect(await repositoryService.listRevisions(kept.id)).toHaveLength(1);
+    expect((await repositoryService.getRevision(removed.id, 'stable')).revision).toBe(1);
+  });
+
+  it('본문 내용을 형식 자동 감지로 변환해야 함', async () => {
+    const { results } = await service.execute({
+      operations: [{ operation: 'convert', data: { content: jsonSchema({ id: 'string' }), targetFormat: 'yaml' } }]
+    }, context);
+
+    expect(results[0]!.data).toMatchObject({ format: 'yaml' });
+    expect(results[0]!.data.content).toContain('id');
+  });
+});
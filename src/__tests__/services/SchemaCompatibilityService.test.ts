@@ -0,0 +1,121 @@
+/**
+ * SchemaCompatibilityService 단위 테스트
+ */
+
+import { SchemaCompatibilityService } from '../../services/SchemaCompatibilityService';
+import { SchemaFormat } from '../../types/schema';
+import { Logger } from '../../core/logging/Logger';
+
+// Logger 모킹
+jest.mock('../../core/logging/Logger');
+
+const jsonSchema = (properties: Record<string, any>, required: string[] = []) => ({
+  content: JSON.stringify({ type: 'object', properties, required }),
+  format: SchemaFormat.JSON
+});
+
+describe('SchemaCompatibilityService', () => {
+  let service: SchemaCompatibilityService;
+
+  const v1 = { ...jsonSchema({ id: { type: 'string' }, status: { type: 'string', enum: ['NEW', 'PAID'] } }, ['id']), version: '1' };
+  const v2 = { ...jsonSchema({ id: { type: 'string' }, status: { type: 'string', enum: ['NEW', 'PAID', 'SHIPPED'] } }, ['id']), version: '2' };
+
+  beforeEach(() => {
+    const mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+    (Logger.getInstance as jest.Mock).mockReturnValue(mockLogger);
+
+    service = new SchemaCompatibilityService();
+  });
+
+  it('이전 버전이 없으면 호환되어야 함', async () => {
+    const result = await service.check(v1, []);
+
+    expect(result.compatible).toBe(true);
+    expect(result.checkedVersions).toEqual([]);
+  });
+
+  it('BACKWARD: 선택 필드 추가와 열거값 추가는 허용해야 함', async () => {
+    const proposed = jsonSchema({
+      id: { type: 'string' },
+      status: { type: 'string', enum: ['NEW', 'PAID', 'SHIPPED', 'CANCELLED'] },
+      note: { type: 'string' }
+    }, ['id']);
+
+    const result = await service.check(proposed, [v1, v2], 'BACKWARD');
+
+    expect(result.compatible).toBe(true);
+    expect(result.checkedVersions).toEqual(['2']);
+  });
+
+  it('BACKWARD: 필수 필드 추가는 위반이어야 함', async () => {
+    const proposed = jsonSchema({ id: { type: 'string' }, status: { type: 'string', enum: ['NEW', 'PAID', 'SHIPPED'] }, region: { type: 'string' } }, ['id', 'region']);
+
+    const result = await service.check(proposed, [v1, v2], 'BACKWARD');
+
+    expect(result.compatible).toBe(false);
+    expect(result.violations).toHaveLength(1);
+    expect(result.violations[0]).toMatchObject({ direction: 'BACKWARD', version: '2', path: 'region', changeType: 'FIELD_ADDED' });
+  });
+
+  it('BACKWARD: 선택 필드 삭제는 허용하고 FORWARD는 이전 스키마의 필수 필드 삭제만 위반이어야 함', async () => {
+    const previous = { ...jsonSchema({ id: { type: 'string' }, note: { type: 'string' }, region: { type: 'string' } }, ['id', 'region']), version: '1' };
+    const withoutNote = jsonSchema({ id: { type: 'string' }, region: { type: 'string' } }, ['id', 'region']);
+    const withoutRegion = jsonSchema({ id: { type: 'string' }, note: { type: 'string' } }, ['id']);
+
+    expect((await service.check(withoutNote, [previous], 'FULL')).compatible).toBe(true);
+    expect((await service.check(withoutRegion, [previous], 'BACKWARD')).compatible).toBe(true);
+
+    const forward = await service.check(withoutRegion, [previous], 'FORWARD');
+    expect(forward.violations).toHaveLength(1);
+    expect(forward.violations[0]).toMatchObject({ direction: 'FORWARD', path: 'region', changeType: 'FIELD_REMOVED' });
+  });
+
+  it('FORWARD: 선택 필드 추가는 이전 스키마가 무시하므로 허용해야 함', async () => {
+    const proposed = jsonSchema({
+      id: { type: 'string' },
+      status: { type: 'string', enum: ['NEW', 'PAID'] },
+      note: { type: 'string' }
+    }, ['id']);
+
+    const result = await service.check(proposed, [v1], 'FORWARD');
+
+    expect(result.compatible).toBe(true);
+  });
+
+  it('FORWARD: 열거값 추가는 이전 스키마가 읽을 수 없으므로 위반이어야 함', async () => {
+    const result = await service.check(v2, [v1], 'FORWARD');
+
+    expect(result.compatible).toBe(false);
+    expect(result.violations[0]).toMatchObject({ direction: 'FORWARD', path: 'status', changeType: 'CONSTRAINT_LOOSENED' });
+    expect(result.violations[0]!.reason).toContain('버전 1');
+  });
+
+  it('FULL은 양방향을 모두 검사해야 함', async () => {
+    const result = await service.check(v2, [v1], 'FULL');
+
+    expect(result.violations.map(violation => violation.direction)).toEqual(['FORWARD']);
+  });
+
+  it('TRANSITIVE 모드는 모든 이전 버전과 비교해야 함', async () => {
+    // v2에서 추가된 SHIPPED를 다시 제거: 직전 버전과는 비호환, v1과는 호환
+    const proposed = jsonSchema({ id: { type: 'string' }, status: { type: 'string', enum: ['NEW', 'PAID'] } }, ['id']);
+
+    const latest = await service.check(proposed, [v1, v2], 'FORWARD');
+    const transitive = await service.check(proposed, [v1, v2], 'BACKWARD_TRANSITIVE');
+
+    expect(latest.compatible).toBe(true);
+    expect(transitive.checkedVersions).toEqual(['1', '2']);
+    expect(transitive.violations.map(violation => violation.version)).toEqual(['2']);
+  });
+
+  it('NONE 모드는 검사하지 않아야 함', async () => {
+    const result = await service.check(jsonSchema({}), [v1], 'NONE');
+
+    expect(result.compatible).toBe(true);
+  });
+});
@@ -125,7 +125,7 @@ describe('SchemaConversionService', () => {
       const result = await service.convertToGrid(sampleSchema, SchemaFormat.JSON);
 
       expect(mockConverter.validate).toHaveBeenCalledWith(sampleSchema, SchemaFormat.JSON);
-      expect(mockConverter.toGrid).toHaveBeenCalledWith(sampleSchema, SchemaFormat.JSON);
+      expect(mockConverter.toGrid).toHaveBeenCalledWith(sampleSchema, SchemaFormat.JSON, undefined);
       expect(result).toEqual(mockGridData);
     });
 
@@ -153,6 +153,22 @@ describe('SchemaConversionService', () => {
       expect(result).toEqual(mockGridData);
     });
 
+    it('소스/대상 변환 옵션을 변환기에 전달해야 함', async () => {
+      const options = {
+        source: { openApi: { operationId: 'createOrder', direction: 'request' as const } },
+        target: { openApi: { schemaName: 'Order', path: '/orders' } }
+      };
+
+      mockConverter.validate.mockResolvedValue({ isValid: true, errors: [], warnings: [] });
+      mockConverter.toGrid.mockResolvedValue([]);
+      mockConverter.fromGrid.mockResolvedValue({ errors: [], warnings: [] });
+
+      await service.convertBetweenFormats('openapi: 3.0.3', SchemaFormat.OPENAPI, SchemaFormat.SWAGGER, options);
+
+      expect(mockConverter.toGrid).toHaveBeenCalledWith('openapi: 3.0.3', SchemaFormat.OPENAPI, options.source);
+      expect(mockConverter.fromGrid).toHaveBeenCalledWith([], SchemaFormat.SWAGGER, options.target);
+    });
+
     it('변환 오류를 처리해야 함', async () => {
       mockConverter.validate.mockResolvedValue({ isValid: true, errors: [], warnings: [] });
       mockConverter.toGrid.mockRejectedValue(new Error('변환 실패'));
@@ -234,11 +250,27 @@ describe('SchemaConversionService', () => {
 
       const result = await service.convertBetweenFormats(sampleSchema, SchemaFormat.JSON, SchemaFormat.XML);
 
-      expect(mockConverter.toGrid).toHaveBeenCalledWith(sampleSchema, SchemaFormat.JSON);
-      expect(mockConverter.fromGrid).toHaveBeenCalledWith(mockGridData, SchemaFormat.XML);
+      expect(mockConverter.toGrid).toHaveBeenCalledWith(sampleSchema, SchemaFormat.JSON, undefined);
+      expect(mockConverter.fromGrid).toHaveBeenCalledWith(mockGridData, SchemaFormat.XML, undefined);
       expect(result).toEqual(mockConversionResult);
     });
 
+    it('소스/대상 변환 옵션을 변환기에 전달해야 함', async () => {
+      const options = {
+        source: { openApi: { operationId: 'createOrder', direction: 'request' as const } },
+        target: { openApi: { schemaName: 'Order', path: '/orders' } }
+      };
+
+      mockConverter.validate.mockResolvedValue({ isValid: true, errors: [], warnings: [] });
+      mockConverter.toGrid.mockResolvedValue([]);
+      mockConverter.fromGrid.mockResolvedValue({ errors: [], warnings: [] });
+
+      await service.convertBetweenFormats('openapi: 3.0.3', SchemaFormat.OPENAPI, SchemaFormat.SWAGGER, options);
+
+      expect(mockConverter.toGrid).toHaveBeenCalledWith('openapi: 3.0.3', SchemaFormat.OPENAPI, options.source);
+      expect(mockConverter.fromGrid).toHaveBeenCalledWith([], SchemaFormat.SWAGGER, options.target);
+    });
+
     it('변환 오류를 처리해야 함', async () => {
       mockConverter.validate.mockResolvedValue({ isValid: true, errors: [], warnings: [] });
       mockConverter.toGrid.mockRejectedValue(new Error('변환 실패'));
@@ -268,6 +300,19 @@ describe('SchemaConversionService', () => {
       expect(result).toBe(SchemaFormat.JSON);
     });
 
+    it('버전 필드로 OpenAPI와 Swagger 문서를 감지해야 함', async () => {
+      expect(await service.detectSchemaFormat('openapi: 3.1.0\ninfo:\n  title: Orders\n')).toBe(SchemaFormat.OPENAPI);
+      expect(await service.detectSchemaFormat('{"swagger": "2.0", "info": {"title": "Orders"}}')).toBe(SchemaFormat.SWAGGER);
+      expect(mockConverter.validate).not.toHaveBeenCalled();
+    });
+
+    it('내용으로 Avro, Protobuf, Thrift 스키마를 감지해야 함', async () => {
+      expect(await service.detectSchemaFormat('{"type": "record", "name": "Order", "fields": []}')).toBe(SchemaFormat.AVRO);
+      expect(await service.detectSchemaFormat('syntax = "proto3";\nmessage Order {\n  string id = 1;\n}')).toBe(SchemaFormat.PROTOBUF);
+      expect(await service.detectSchemaFormat('struct Order {\n  1: required string id\n}')).toBe(SchemaFormat.THRIFT);
+      expect(mockConverter.validate).not.toHaveBeenCalled();
+    });
+
     it('유효한 형식이 없으면 null을 반환해야 함', async () => {
       const mockValidationResult: ValidationResult = {
         isValid: false,
@@ -402,4 +402,1137 @@ invalid: yaml: structure:
       expect(result.warnings.some(w => w.code === 'INVALID_CONSTRAINTS_FORMAT')).toBe(true);
     });
   });
-});
\ No newline at end of file
+  describe('중첩 구조 처리', () => {
+    const nestedJsonSchema = {
+      type: 'object',
+      properties: {
+        orderId: { type: 'string' },
+        customer: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            address: {
+              type: 'object',
+              properties: {
+                city: { type: 'string' }
+              },
+              required: ['city']
+            }
+          },
+          required: ['name']
+        },
+        items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              sku: { type: 'string' },
+              quantity: { type: 'integer' }
+            },
+            required: ['sku']
+          }
+        },
+        tags: {
+          type: 'array',
+          items: { type: 'string' }
+        }
+      },
+      required: ['orderId', 'items']
+    };
+
+    it('중첩된 JSON 스키마를 경로 정보를 가진 그리드로 변환해야 함', async () => {
+      const gridData = await converter.toGrid(JSON.stringify(nestedJsonSchema), SchemaFormat.JSON);
+      const rows = gridData.map(row => row[0]!);
+
+      const city = rows.find(row => row.path === 'customer.address.city');
+      expect(city).toBeDefined();
+      expect(city!.parentPath).toBe('customer.address');
+      expect(city!.depth).toBe(2);
+      expect(city!.required).toBe(true);
+
+      const items = rows.find(row => row.path === 'items');
+      expect(items!.dataType).toBe('array');
+      expect(items!.itemType).toBe('object');
+      expect(rows.find(row => row.path === 'items.sku')!.required).toBe(true);
+      expect(rows.find(row => row.path === 'tags')!.itemType).toBe('string');
+    });
+
+    it('중첩된 JSON 스키마가 그리드를 거쳐 손실 없이 재생성되어야 함', async () => {
+      const gridData = await converter.toGrid(JSON.stringify(nestedJsonSchema), SchemaFormat.JSON);
+      const result = await converter.fromGrid(gridData, SchemaFormat.JSON);
+
+      expect(result.errors).toHaveLength(0);
+      const parsed = JSON.parse(result.json!);
+      expect(parsed.properties.customer.properties.address.properties.city.type).toBe('string');
+      expect(parsed.properties.customer.required).toEqual(['name']);
+      expect(parsed.properties.items.items.properties.quantity.type).toBe('integer');
+      expect(parsed.properties.items.items.required).toEqual(['sku']);
+      expect(parsed.properties.tags.items).toEqual({ type: 'string' });
+      expect(parsed.required).toEqual(['orderId', 'items']);
+    });
+
+    it('다른 부모 아래의 같은 필드명은 중복으로 경고하지 않아야 함', async () => {
+      const gridData: SchemaGridData[][] = [
+        [{ fieldName: 'id', dataType: 'string', required: true, description: '' }],
+        [{ fieldName: 'customer', dataType: 'object', required: true, description: '' }],
+        [{ fieldName: 'id', dataType: 'string', required: true, description: '', parentPath: 'customer' }]
+      ];
+
+      const result = await converter.fromGrid(gridData, SchemaFormat.JSON);
+
+      expect(result.warnings.some(w => w.code === 'DUPLICATE_FIELD_NAME')).toBe(false);
+      expect(JSON.parse(result.json!).properties.customer.properties.id).toBeDefined();
+    });
+
+    it('경로 구분자(.)가 든 필드명은 이스케이프해 하위 경로와 구분해야 함', async () => {
+      const dotted = {
+        type: 'object',
+        properties: {
+          customer: { type: 'object', properties: { name: { type: 'string' } } },
+          'customer.name': { type: 'string' },
+          'a\\b': { type: 'object', properties: { 'c.d': { type: 'integer' } } }
+        }
+      };
+
+      const gridData = await converter.toGrid(JSON.stringify(dotted), SchemaFormat.JSON);
+      expect(gridData.map(row => row[0]!.path)).toEqual(['customer', 'customer.name', 'customer\\.name', 'a\\\\b', 'a\\\\b.c\\.d']);
+
+      const result = await converter.fromGrid(gridData, SchemaFormat.JSON);
+      expect(result.warnings.some(w => w.code === 'DUPLICATE_FIELD_NAME')).toBe(false);
+      expect(JSON.parse(result.json!).properties).toMatchObject(dotted.properties);
+    });
+
+    it('중첩 구조를 XSD complexType/sequence로 변환하고 다시 읽어야 함', async () => {
+      const gridData = await converter.toGrid(JSON.stringify(nestedJsonSchema), SchemaFormat.JSON);
+      const result = await converter.fromGrid(gridData, SchemaFormat.XSD);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.xml).toContain('maxOccurs="unbounded"');
+      expect(result.xml).toContain('xs:complexType');
+
+      const reimported = (await converter.toGrid(result.xml!, SchemaFormat.XSD)).map(row => row[0]!);
+      expect(reimported.map(row => row.path)).toEqual(gridData.map(row => row[0]!.path));
+
+      const items = reimported.find(row => row.path === 'items');
+      expect(items!.dataType).toBe('array');
+      expect(items!.itemType).toBe('object');
+      expect(reimported.find(row => row.path === 'items.quantity')!.dataType).toBe('integer');
+      expect(reimported.find(row => row.path === 'customer.name')!.required).toBe(true);
+      expect(reimported.find(row => row.path === 'tags')!.required).toBe(false);
+    });
+
+    it('중첩 구조를 도구 XML 형식으로 변환하고 다시 읽어야 함', async () => {
+      const gridData = await converter.toGrid(JSON.stringify(nestedJsonSchema), SchemaFormat.JSON);
+      const result = await converter.fromGrid(gridData, SchemaFormat.XML);
+
+      const reimported = (await converter.toGrid(result.xml!, SchemaFormat.XML)).map(row => row[0]!);
+      expect(reimported.map(row => row.path)).toEqual(gridData.map(row => row[0]!.path));
+      expect(reimported.find(row => row.path === 'items')!.itemType).toBe('object');
+    });
+
+    it('중첩 구조를 YAML로 변환하고 다시 읽어야 함', async () => {
+      const gridData = await converter.toGrid(JSON.stringify(nestedJsonSchema), SchemaFormat.JSON);
+      const result = await converter.fromGrid(gridData, SchemaFormat.YAML);
+
+      const reimported = (await converter.toGrid(result.yaml!, SchemaFormat.YAML)).map(row => row[0]!);
+      expect(reimported.map(row => row.path)).toEqual(gridData.map(row => row[0]!.path));
+    });
+
+    it('이름 있는 complexType을 참조하는 XSD를 읽어야 함', async () => {
+      const xsd = `<?xml version="1.0" encoding="UTF-8"?>
+        <xsd:schema xmlns:xsd="http://www.w3.org/2001/XMLSchema" xmlns:tns="urn:test" targetNamespace="urn:test">
+          <xsd:complexType name="AddressType">
+            <xsd:sequence>
+              <xsd:element name="street" type="xsd:string"/>
+              <xsd:element name="zip" type="xsd:string" minOccurs="0"/>
+            </xsd:sequence>
+          </xsd:complexType>
+          <xsd:element name="Party">
+            <xsd:complexType>
+              <xsd:sequence>
+                <xsd:element name="name" type="xsd:string"/>
+                <xsd:element name="address" type="tns:AddressType" maxOccurs="3"/>
+              </xsd:sequence>
+            </xsd:complexType>
+          </xsd:element>
+        </xsd:schema>`;
+
+      const rows = (await converter.toGrid(xsd, SchemaFormat.XSD)).map(row => row[0]!);
+
+      expect(rows.map(row => row.path)).toEqual(['name', 'address', 'address.street', 'address.zip']);
+      expect(rows[1]!.dataType).toBe('array');
+      expect(rows[3]!.required).toBe(false);
+    });
+  });
+  describe('$ref 및 공유 정의 처리', () => {
+    const partySchema = {
+      type: 'object',
+      properties: {
+        buyer: { $ref: '#/definitions/Party', description: '구매자' },
+        seller: { $ref: '#/definitions/Party' },
+        shipTo: { $ref: '#/$defs/Address' }
+      },
+      required: ['buyer'],
+      definitions: {
+        Party: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            address: { $ref: '#/$defs/Address' }
+          },
+          required: ['name']
+        }
+      },
+      $defs: {
+        Address: {
+          type: 'object',
+          properties: {
+            city: { type: 'string' }
+          }
+        }
+      }
+    };
+
+    it('로컬 $ref를 펼쳐서 그리드로 변환하고 정의 이름을 보존해야 함', async () => {
+      const rows = (await converter.toGrid(JSON.stringify(partySchema), SchemaFormat.JSON)).map(row => row[0]!);
+
+      const buyer = rows.find(row => row.path === 'buyer')!;
+      expect(buyer.dataType).toBe('object');
+      expect(buyer.typeRef).toBe('Party');
+      expect(buyer.description).toBe('구매자');
+      expect(rows.find(row => row.path === 'seller.address.city')).toBeDefined();
+      expect(rows.find(row => row.path === 'seller.name')!.required).toBe(true);
+      expect(rows.find(row => row.path === 'shipTo')!.typeRef).toBe('Address');
+    });
+
+    it('공유 정의를 중복 없이 definitions로 다시 생성해야 함', async () => {
+      const gridData = await converter.toGrid(JSON.stringify(partySchema), SchemaFormat.JSON);
+      const result = await converter.fromGrid(gridData, SchemaFormat.JSON);
+
+      expect(result.errors).toHaveLength(0);
+      const parsed = JSON.parse(result.json!);
+      expect(parsed.properties.buyer.$ref).toBe('#/definitions/Party');
+      expect(parsed.properties.seller.$ref).toBe('#/definitions/Party');
+      expect(parsed.definitions.Party.properties.address.$ref).toBe('#/definitions/Address');
+      expect(parsed.definitions.Address.properties.city.type).toBe('string');
+      expect(Object.keys(parsed.definitions)).toHaveLength(2);
+    });
+
+    it('공유 정의를 이름 있는 XSD complexType으로 생성해야 함', async () => {
+      const gridData = await converter.toGrid(JSON.stringify(partySchema), SchemaFormat.JSON);
+      const result = await converter.fromGrid(gridData, SchemaFormat.XSD);
+
+      expect(result.xml).toContain('<xs:complexType name="Party">');
+      expect(result.xml).toContain('name="buyer" type="Party"');
+
+      const reimported = (await converter.toGrid(result.xml!, SchemaFormat.XSD)).map(row => row[0]!);
+      expect(reimported.find(row => row.path === 'seller')!.typeRef).toBe('Party');
+      expect(reimported.find(row => row.path === 'seller.address.city')).toBeDefined();
+    });
+
+    it('순환 참조는 정의 이름만 남기고 무한히 펼치지 않아야 함', async () => {
+      const treeSchema = {
+        type: 'object',
+        properties: {
+          root: { $ref: '#/definitions/Node' }
+        },
+        definitions: {
+          Node: {
+            type: 'object',
+            properties: {
+              label: { type: 'string' },
+              children: { type: 'array', items: { $ref: '#/definitions/Node' } }
+            }
+          }
+        }
+      };
+
+      const gridData = await converter.toGrid(JSON.stringify(treeSchema), SchemaFormat.JSON);
+      const rows = gridData.map(row => row[0]!);
+
+      expect(rows.map(row => row.path)).toEqual(['root', 'root.label', 'root.children']);
+      expect(rows[2]!.itemType).toBe('object');
+      expect(rows[2]!.typeRef).toBe('Node');
+
+      const parsed = JSON.parse((await converter.fromGrid(gridData, SchemaFormat.JSON)).json!);
+      expect(parsed.definitions.Node.properties.children.items.$ref).toBe('#/definitions/Node');
+    });
+
+    it('외부 스키마 로더로 도구에 저장된 스키마 참조를 해석해야 함', async () => {
+      const loader = jest.fn(async (uri: string) => (uri === 'common-types' ? partySchema : undefined));
+      const externalConverter = new SchemaConverter({ externalSchemaLoader: loader });
+      const schema = {
+        type: 'object',
+        properties: {
+          customer: { $ref: 'common-types#/definitions/Party' }
+        }
+      };
+
+      const rows = (await externalConverter.toGrid(JSON.stringify(schema), SchemaFormat.JSON)).map(row => row[0]!);
+
+      expect(loader).toHaveBeenCalledWith('common-types');
+      expect(rows.find(row => row.path === 'customer.address.city')).toBeDefined();
+    });
+
+    it('해석할 수 없는 $ref에 대해 오류를 발생시켜야 함', async () => {
+      const schema = { type: 'object', properties: { a: { $ref: '#/definitions/Missing' } } };
+
+      await expect(converter.toGrid(JSON.stringify(schema), SchemaFormat.JSON))
+        .rejects.toThrow('$ref를 해석할 수 없습니다');
+    });
+  });
+
+  describe('XSD 제약 및 속성 처리', () => {
+    const partnerXSD = `<?xml version="1.0" encoding="UTF-8"?>
+<xsd:schema xmlns:xsd="http://www.w3.org/2001/XMLSchema"
+            xmlns:tns="http://partner.example.com/order"
+            targetNamespace="http://partner.example.com/order"
+            elementFormDefault="qualified">
+  <xsd:simpleType name="CurrencyCode">
+    <xsd:restriction base="xsd:string">
+      <xsd:length value="3"/>
+      <xsd:pattern value="[A-Z]{3}"/>
+    </xsd:restriction>
+  </xsd:simpleType>
+  <xsd:simpleType name="OrderStatus">
+    <xsd:restriction base="xsd:token">
+      <xsd:enumeration value="NEW"/>
+      <xsd:enumeration value="SHIPPED"/>
+      <xsd:enumeration value="CANCELLED"/>
+    </xsd:restriction>
+  </xsd:simpleType>
+  <xsd:complexType name="BaseParty">
+    <xsd:sequence>
+      <xsd:element name="name" type="xsd:string"/>
+    </xsd:sequence>
+  </xsd:complexType>
+  <xsd:complexType name="Buyer">
+    <xsd:complexContent>
+      <xsd:extension base="tns:BaseParty">
+        <xsd:sequence>
+          <xsd:element name="email" type="xsd:string" minOccurs="0"/>
+        </xsd:sequence>
+      </xsd:extension>
+    </xsd:complexContent>
+  </xsd:complexType>
+  <xsd:element name="Order">
+    <xsd:complexType>
+      <xsd:sequence>
+        <xsd:element name="orderId">
+          <xsd:simpleType>
+            <xsd:restriction base="xsd:string">
+              <xsd:minLength value="5"/>
+              <xsd:maxLength value="20"/>
+            </xsd:restriction>
+          </xsd:simpleType>
+        </xsd:element>
+        <xsd:element name="status" type="tns:OrderStatus" default="NEW"/>
+        <xsd:element name="amount">
+          <xsd:complexType>
+            <xsd:simpleContent>
+              <xsd:extension base="xsd:decimal">
+                <xsd:attribute name="currency" type="tns:CurrencyCode" use="required"/>
+              </xsd:extension>
+            </xsd:simpleContent>
+          </xsd:complexType>
+        </xsd:element>
+        <xsd:element name="quantity">
+          <xsd:simpleType>
+            <xsd:restriction base="xsd:decimal">
+              <xsd:totalDigits value="8"/>
+              <xsd:minInclusive value="1"/>
+            </xsd:restriction>
+          </xsd:simpleType>
+        </xsd:element>
+        <xsd:element name="buyer" type="tns:Buyer"/>
+        <xsd:choice>
+          <xsd:element name="pickup" type="xsd:boolean"/>
+          <xsd:element name="deliveryDate" type="xsd:date"/>
+        </xsd:choice>
+        <xsd:element name="note" type="xsd:string" minOccurs="0" maxOccurs="unbounded"/>
+      </xsd:sequence>
+      <xsd:attribute name="version" type="xsd:string" default="1.0"/>
+    </xsd:complexType>
+  </xsd:element>
+</xsd:schema>`;
+
+    const readRows = async (xsd: string) =>
+      (await converter.toGrid(xsd, SchemaFormat.XSD)).map(row => row[0]!);
+    const findRow = (rows: SchemaGridData[], path: string) => rows.find(row => row.path === path)!;
+
+    it('simpleType facet을 길이/패턴/열거값 컬럼으로 변환해야 함', async () => {
+      const rows = await readRows(partnerXSD);
+
+      expect(findRow(rows, 'orderId')).toMatchObject({ dataType: 'string', minLength: 5, maxLength: 20, required: true });
+      expect(findRow(rows, 'status')).toMatchObject({
+        dataType: 'string',
+        enumValues: ['NEW', 'SHIPPED', 'CANCELLED'],
+        defaultValue: 'NEW'
+      });
+      expect(findRow(rows, 'quantity').dataType).toBe('number');
+      expect(JSON.parse(findRow(rows, 'quantity').constraints!)).toEqual({ totalDigits: 8, minimum: 1 });
+    });
+
+    it('속성과 simpleContent를 속성 행으로 변환해야 함', async () => {
+      const rows = await readRows(partnerXSD);
+
+      expect(findRow(rows, 'amount').dataType).toBe('number');
+      expect(findRow(rows, 'amount.currency')).toMatchObject({
+        isAttribute: true,
+        required: true,
+        minLength: 3,
+        maxLength: 3,
+        pattern: '[A-Z]{3}'
+      });
+      expect(findRow(rows, 'version')).toMatchObject({ isAttribute: true, required: false, defaultValue: '1.0' });
+    });
+
+    it('complexContent 확장, choice, maxOccurs를 처리해야 함', async () => {
+      const rows = await readRows(partnerXSD);
+
+      expect(rows.filter(row => row.parentPath === 'buyer').map(row => row.fieldName)).toEqual(['name', 'email']);
+      expect(findRow(rows, 'buyer').typeRef).toBe('Buyer');
+      expect(findRow(rows, 'pickup').required).toBe(false);
+      expect(findRow(rows, 'deliveryDate')).toMatchObject({ dataType: 'date', required: false });
+      expect(findRow(rows, 'note')).toMatchObject({ dataType: 'array', itemType: 'string', required: false });
+    });
+
+    it('제약과 속성을 XSD로 다시 생성하고 손실 없이 읽어야 함', async () => {
+      const rows = await readRows(partnerXSD);
+      const result = await converter.fromGrid(rows.map(row => [row]), SchemaFormat.XSD);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.xml).toContain('<xs:enumeration value="SHIPPED"/>');
+      expect(result.xml).toContain('<xs:simpleContent>');
+      expect(result.xml).toContain('name="currency" use="required"');
+      expect(result.xml).toContain('<xs:totalDigits value="8"/>');
+
+      const reimported = await readRows(result.xml!);
+      ['orderId', 'status', 'amount.currency', 'quantity', 'version', 'note'].forEach(path => {
+        const { description: _original, ...expected } = findRow(rows, path);
+        expect(findRow(reimported, path)).toMatchObject(expected);
+      });
+    });
+
+    it('제약을 JSON Schema 키워드로 변환하고 다시 읽어야 함', async () => {
+      const rows = await readRows(partnerXSD);
+      const result = await converter.fromGrid(rows.map(row => [row]), SchemaFormat.JSON);
+      const parsed = JSON.parse(result.json!);
+
+      expect(parsed.properties.orderId).toMatchObject({ minLength: 5, maxLength: 20 });
+      expect(parsed.properties.status.enum).toEqual(['NEW', 'SHIPPED', 'CANCELLED']);
+      expect(parsed.properties.quantity).toMatchObject({ totalDigits: 8, minimum: 1 });
+
+      const reimported = (await converter.toGrid(result.json!, SchemaFormat.JSON)).map(row => row[0]!);
+      expect(findRow(reimported, 'orderId')).toMatchObject({ minLength: 5, maxLength: 20 });
+      expect(JSON.parse(findRow(reimported, 'quantity').constraints!)).toEqual({ minimum: 1, totalDigits: 8 });
+    });
+
+    it('제약과 속성을 도구 XML 형식으로 보존해야 함', async () => {
+      const rows = await readRows(partnerXSD);
+      const result = await converter.fromGrid(rows.map(row => [row]), SchemaFormat.XML);
+      const reimported = (await converter.toGrid(result.xml!, SchemaFormat.XML)).map(row => row[0]!);
+
+      expect(findRow(reimported, 'status').enumValues).toEqual(['NEW', 'SHIPPED', 'CANCELLED']);
+      expect(findRow(reimported, 'amount.currency')).toMatchObject({ isAttribute: true, minLength: 3, pattern: '[A-Z]{3}' });
+    });
+  });
+
+  describe('XSD/WSDL 네임스페이스 옵션', () => {
+    const gridData: SchemaGridData[][] = [
+      [{ fieldName: 'orderId', dataType: 'string', required: true, description: '' }],
+      [{ fieldName: 'buyer', dataType: 'object', required: true, description: '', typeRef: 'Party', path: 'buyer' }],
+      [{ fieldName: 'name', dataType: 'string', required: true, description: '', path: 'buyer.name', parentPath: 'buyer' }],
+      [{ fieldName: 'address', dataType: 'object', required: false, description: '', typeRef: 'cmn:AddressType' }]
+    ];
+
+    const options = {
+      rootName: 'PurchaseOrder',
+      namespace: 'urn:partner:order:v2',
+      xmlSchema: {
+        elementFormDefault: 'unqualified' as const,
+        targetPrefix: 'po',
+        prefixes: { ext: 'urn:partner:ext' },
+        imports: [{ namespace: 'urn:partner:common', schemaLocation: 'common.xsd', prefix: 'cmn' }]
+      }
+    };
+
+    it('지정한 대상 네임스페이스, 루트 요소, 접두사로 XSD를 생성해야 함', async () => {
+      const result = await converter.fromGrid(gridData, SchemaFormat.XSD, options);
+      const xsd = result.xml!;
+
+      expect(result.errors).toHaveLength(0);
+      expect(xsd).toContain('targetNamespace="urn:partner:order:v2"');
+      expect(xsd).toContain('xmlns:po="urn:partner:order:v2"');
+      expect(xsd).toContain('xmlns:ext="urn:partner:ext"');
+      expect(xsd).toContain('xmlns:cmn="urn:partner:common"');
+      expect(xsd).toContain('elementFormDefault="unqualified"');
+      expect(xsd).not.toContain('http://example.com/schema');
+      expect(xsd).toContain('<xs:import namespace="urn:partner:common" schemaLocation="common.xsd"/>');
+      expect(xsd.indexOf('<xs:import')).toBeLessThan(xsd.indexOf('<xs:element'));
+      expect(xsd).toContain('<xs:element name="PurchaseOrder">');
+      expect(xsd).toContain('<xs:element name="buyer" type="po:Party"/>');
+      expect(xsd).toContain('<xs:element name="address" minOccurs="0" type="cmn:AddressType"/>');
+    });
+
+    it('옵션으로 생성한 XSD를 다시 불러올 수 있어야 함', async () => {
+      const xsd = (await converter.fromGrid(gridData, SchemaFormat.XSD, options)).xml!;
+      const rows = (await converter.toGrid(xsd, SchemaFormat.XSD)).map(row => row[0]!);
+
+      expect(rows.slice(0, 3).map(row => row.path)).toEqual(['orderId', 'buyer', 'buyer.name']);
+      expect(rows[1]!.typeRef).toBe('Party');
+    });
+
+    it('옵션이 없으면 기존 기본 네임스페이스와 루트 요소를 사용해야 함', async () => {
+      const xsd = (await converter.fromGrid(gridData.slice(0, 3), SchemaFormat.XSD)).xml!;
+
+      expect(xsd).toContain('targetNamespace="http://example.com/schema"');
+      expect(xsd).toContain('xmlns="http://example.com/schema"');
+      expect(xsd).toContain('elementFormDefault="qualified"');
+      expect(xsd).toContain('<xs:element name="root">');
+      expect(xsd).toContain('<xs:element name="buyer" type="Party"/>');
+    });
+
+    it('WSDL types 스키마와 definitions에 네임스페이스 옵션을 적용해야 함', async () => {
+      const result = await converter.fromGrid(gridData, SchemaFormat.WSDL, options);
+      const wsdl = result.xml!;
+
+      expect(result.errors).toHaveLength(0);
+      expect(wsdl).toContain('xmlns:tns="urn:partner:order:v2"');
+      expect(wsdl).not.toContain('http://example.com/service');
+      expect(wsdl).toContain('elementFormDefault="unqualified"');
+      expect(wsdl).toContain('<xs:import namespace="urn:partner:common" schemaLocation="common.xsd"/>');
+      expect(wsdl).toContain('type="po:Party"');
+    });
+
+    it('잘못된 접두사나 충돌하는 선언은 변환 오류를 반환해야 함', async () => {
+      const invalidPrefix = await converter.fromGrid(gridData, SchemaFormat.XSD, {
+        xmlSchema: { prefixes: { 'xml-ns': 'urn:a', '1st': 'urn:b' } }
+      });
+      const conflict = await converter.fromGrid(gridData, SchemaFormat.XSD, {
+        xmlSchema: { targetPrefix: 'po', prefixes: { po: 'urn:other' } }
+      });
+      const invalidRoot = await converter.fromGrid(gridData, SchemaFormat.XSD, { rootName: 'Purchase Order' });
+
+      expect(invalidPrefix.xml).toBeUndefined();
+      expect(invalidPrefix.errors[0]!.message).toBe('유효하지 않은 네임스페이스 접두사: xml-ns');
+      expect(conflict.errors[0]!.message).toContain("'po'");
+      expect(invalidRoot.errors[0]!.message).toBe('유효하지 않은 루트 요소 이름: Purchase Order');
+    });
+  });
+
+  describe('WSDL 처리', () => {
+    const orderWSDL = `<?xml version="1.0" encoding="UTF-8"?>
+<wsdl:definitions name="OrderService"
+    xmlns:wsdl="http://schemas.xmlsoap.org/wsdl/"
+    xmlns:soap="http://schemas.xmlsoap.org/wsdl/soap/"
+    xmlns:xsd="http://www.w3.org/2001/XMLSchema"
+    xmlns:tns="http://partner.example.com/order"
+    targetNamespace="http://partner.example.com/order">
+  <wsdl:types>
+    <xsd:schema targetNamespace="http://partner.example.com/order" elementFormDefault="qualified">
+      <xsd:element name="GetOrder">
+        <xsd:complexType>
+          <xsd:sequence>
+            <xsd:element name="orderId" type="xsd:string"/>
+          </xsd:sequence>
+        </xsd:complexType>
+      </xsd:element>
+      <xsd:element name="GetOrderResponse">
+        <xsd:complexType>
+          <xsd:sequence>
+            <xsd:element name="orderId" type="xsd:string"/>
+            <xsd:element name="lines" maxOccurs="unbounded">
+              <xsd:complexType>
+                <xsd:sequence>
+                  <xsd:element name="sku" type="xsd:string"/>
+                  <xsd:element name="quantity" type="xsd:int"/>
+                </xsd:sequence>
+              </xsd:complexType>
+            </xsd:element>
+          </xsd:sequence>
+        </xsd:complexType>
+      </xsd:element>
+      <xsd:element name="OrderNotFound">
+        <xsd:complexType>
+          <xsd:sequence>
+            <xsd:element name="reason" type="xsd:string"/>
+          </xsd:sequence>
+        </xsd:complexType>
+      </xsd:element>
+    </xsd:schema>
+  </wsdl:types>
+  <wsdl:message name="GetOrderRequest"><wsdl:part name="parameters" element="tns:GetOrder"/></wsdl:message>
+  <wsdl:message name="GetOrderResponse"><wsdl:part name="parameters" element="tns:GetOrderResponse"/></wsdl:message>
+  <wsdl:message name="OrderNotFoundFault"><wsdl:part name="fault" element="tns:OrderNotFound"/></wsdl:message>
+  <wsdl:message name="PingRequest">
+    <wsdl:part name="text" type="xsd:string"/>
+    <wsdl:part name="count" type="xsd:int"/>
+  </wsdl:message>
+  <wsdl:portType name="OrderPortType">
+    <wsdl:operation name="GetOrder">
+      <wsdl:documentation>주문 조회</wsdl:documentation>
+      <wsdl:input message="tns:GetOrderRequest"/>
+      <wsdl:output message="tns:GetOrderResponse"/>
+      <wsdl:fault name="notFound" message="tns:OrderNotFoundFault"/>
+    </wsdl:operation>
+    <wsdl:operation name="Ping">
+      <wsdl:input message="tns:PingRequest"/>
+    </wsdl:operation>
+  </wsdl:portType>
+  <wsdl:binding name="OrderBinding" type="tns:OrderPortType">
+    <soap:binding style="document" transport="http://schemas.xmlsoap.org/soap/http"/>
+    <wsdl:operation name="GetOrder">
+      <soap:operation soapAction="urn:GetOrder"/>
+    </wsdl:operation>
+  </wsdl:binding>
+  <wsdl:service name="OrderService">
+    <wsdl:port name="OrderPort" binding="tns:OrderBinding">
+      <soap:address location="https://partner.example.com/order"/>
+    </wsdl:port>
+  </wsdl:service>
+</wsdl:definitions>`;
+
+    const toRows = (gridData: SchemaGridData[][]) => gridData.map(row => row[0]!);
+
+    it('서비스, 바인딩, 포트 타입, 오퍼레이션 모델을 추출해야 함', async () => {
+      const definition = await converter.readWSDL(orderWSDL);
+
+      expect(definition.version).toBe('1.1');
+      expect(definition.targetNamespace).toBe('http://partner.example.com/order');
+      expect(definition.elements).toEqual(['GetOrder', 'GetOrderResponse', 'OrderNotFound']);
+      expect(definition.portTypes[0]!.operations.map(operation => operation.name)).toEqual(['GetOrder', 'Ping']);
+      expect(definition.portTypes[0]!.operations[0]).toMatchObject({
+        documentation: '주문 조회',
+        input: { message: 'GetOrderRequest' },
+        output: { message: 'GetOrderResponse' },
+        faults: [{ name: 'notFound', message: 'OrderNotFoundFault' }]
+      });
+      expect(definition.bindings[0]).toMatchObject({
+        name: 'OrderBinding',
+        portType: 'OrderPortType',
+        style: 'document',
+        operations: [{ name: 'GetOrder', soapAction: 'urn:GetOrder' }]
+      });
+      expect(definition.services[0]!.ports[0]).toEqual({
+        name: 'OrderPort',
+        binding: 'OrderBinding',
+        address: 'https://partner.example.com/order'
+      });
+    });
+
+    it('선택한 오퍼레이션의 요청/응답/fault 메시지를 그리드로 불러와야 함', async () => {
+      const request = toRows(await converter.wsdlOperationToGrid(orderWSDL, { operation: 'GetOrder' }));
+      const response = toRows(await converter.wsdlOperationToGrid(orderWSDL, { operation: 'GetOrder', direction: 'output' }));
+      const fault = toRows(await converter.wsdlOperationToGrid(orderWSDL, { operation: 'GetOrder', direction: 'fault' }));
+
+      expect(request.map(row => row.path)).toEqual(['orderId']);
+      expect(response.map(row => row.path)).toEqual(['orderId', 'lines', 'lines.sku', 'lines.quantity']);
+      expect(response[1]).toMatchObject({ dataType: 'array', itemType: 'object' });
+      expect(fault.map(row => row.path)).toEqual(['reason']);
+    });
+
+    it('여러 part로 구성된 메시지는 part별 행으로 변환해야 함', async () => {
+      const rows = toRows(await converter.wsdlOperationToGrid(orderWSDL, { operation: 'Ping' }));
+
+      expect(rows).toEqual([
+        expect.objectContaining({ fieldName: 'text', dataType: 'string' }),
+        expect.objectContaining({ fieldName: 'count', dataType: 'integer' })
+      ]);
+    });
+
+    it('존재하지 않는 오퍼레이션이나 메시지에 대해 오류를 발생시켜야 함', async () => {
+      await expect(converter.wsdlOperationToGrid(orderWSDL, { operation: 'Cancel' }))
+        .rejects.toThrow('WSDL 오퍼레이션을 찾을 수 없습니다: Cancel');
+      await expect(converter.wsdlOperationToGrid(orderWSDL, { operation: 'Ping', direction: 'output' }))
+        .rejects.toThrow('output 메시지가 없습니다');
+    });
+
+    it('toGrid는 첫 번째 오퍼레이션의 요청 메시지를 불러와야 함', async () => {
+      const rows = toRows(await converter.toGrid(orderWSDL, SchemaFormat.WSDL));
+      expect(rows.map(row => row.fieldName)).toEqual(['orderId']);
+    });
+
+    it('WSDL 2.0 interface/endpoint를 같은 모델로 읽어야 함', async () => {
+      const wsdl20 = `<?xml version="1.0" encoding="UTF-8"?>
+<description xmlns="http://www.w3.org/ns/wsdl" xmlns:tns="urn:orders" xmlns:xs="http://www.w3.org/2001/XMLSchema"
+             xmlns:wsoap="http://www.w3.org/ns/wsdl/soap" targetNamespace="urn:orders">
+  <types>
+    <xs:schema targetNamespace="urn:orders">
+      <xs:element name="Lookup"><xs:complexType><xs:sequence><xs:element name="id" type="xs:long"/></xs:sequence></xs:complexType></xs:element>
+      <xs:element name="LookupResult"><xs:complexType><xs:sequence><xs:element name="status" type="xs:string"/></xs:sequence></xs:complexType></xs:element>
+      <xs:element name="LookupError"><xs:complexType><xs:sequence><xs:element name="code" type="xs:int"/></xs:sequence></xs:complexType></xs:element>
+    </xs:schema>
+  </types>
+  <interface name="OrderInterface">
+    <fault name="lookupFault" element="tns:LookupError"/>
+    <operation name="lookup" pattern="http://www.w3.org/ns/wsdl/in-out">
+      <input element="tns:Lookup"/>
+      <output element="tns:LookupResult"/>
+      <outfault ref="tns:lookupFault"/>
+    </operation>
+  </interface>
+  <binding name="OrderSoapBinding" interface="tns:OrderInterface" type="http://www.w3.org/ns/wsdl/soap">
+    <operation ref="tns:lookup" wsoap:action="urn:lookup"/>
+  </binding>
+  <service name="OrderService" interface="tns:OrderInterface">
+    <endpoint name="OrderEndpoint" binding="tns:OrderSoapBinding" address="http://example.com/orders"/>
+  </service>
+</description>`;
+
+      const definition = await converter.readWSDL(wsdl20);
+      expect(definition.version).toBe('2.0');
+      expect(definition.portTypes[0]!.operations[0]).toMatchObject({
+        name: 'lookup',
+        input: { element: 'Lookup' },
+        faults: [{ name: 'lookupFault', element: 'LookupError' }]
+      });
+      expect(definition.bindings[0]!.operations[0]).toEqual({ name: 'lookup', soapAction: 'urn:lookup' });
+      expect(definition.services[0]!.ports[0]!.address).toBe('http://example.com/orders');
+
+      const output = toRows(await converter.wsdlOperationToGrid(wsdl20, { operation: 'lookup', direction: 'output' }));
+      const fault = toRows(await converter.wsdlOperationToGrid(wsdl20, { operation: 'lookup', direction: 'fault' }));
+      expect(output.map(row => row.fieldName)).toEqual(['status']);
+      expect(fault[0]).toMatchObject({ fieldName: 'code', dataType: 'integer' });
+    });
+
+    it('메시지, portType, binding, service를 포함한 전체 WSDL을 생성하고 다시 읽어야 함', async () => {
+      const request = await converter.wsdlOperationToGrid(orderWSDL, { operation: 'GetOrder' });
+      const response = await converter.wsdlOperationToGrid(orderWSDL, { operation: 'GetOrder', direction: 'output' });
+      const fault = await converter.wsdlOperationToGrid(orderWSDL, { operation: 'GetOrder', direction: 'fault' });
+
+      const wsdl = await converter.generateWSDL({
+        serviceName: 'OrderService',
+        targetNamespace: 'http://partner.example.com/order',
+        endpoint: 'https://partner.example.com/order',
+        operations: [{ name: 'GetOrder', soapAction: 'urn:GetOrder', request, response, faults: [{ name: 'OrderNotFound', gridData: fault }] }]
+      });
+
+      expect(wsdl).toContain('<wsdl:message name="GetOrderRequest">');
+      expect(wsdl).toContain('<wsdl:portType name="OrderServicePortType">');
+      expect(wsdl).toContain('<soap:binding style="document" transport="http://schemas.xmlsoap.org/soap/http"/>');
+      expect(wsdl).toContain('<soap:address location="https://partner.example.com/order"/>');
+
+      const definition = await converter.readWSDL(wsdl);
+      expect(definition.portTypes[0]!.operations[0]).toMatchObject({
+        name: 'GetOrder',
+        input: { message: 'GetOrderRequest' },
+        output: { message: 'GetOrderResponse' },
+        faults: [{ name: 'OrderNotFound', message: 'OrderNotFound' }]
+      });
+      expect(definition.bindings[0]!.operations[0]!.soapAction).toBe('urn:GetOrder');
+
+      const reloaded = toRows(await converter.wsdlOperationToGrid(wsdl, { operation: 'GetOrder', direction: 'output' }));
+      expect(reloaded.map(row => row.path)).toEqual(['orderId', 'lines', 'lines.sku', 'lines.quantity']);
+    });
+
+    it('fromGrid(WSDL)은 그리드를 요청 메시지로 하는 전체 WSDL을 생성해야 함', async () => {
+      const gridData: SchemaGridData[][] = [[{ fieldName: 'id', dataType: 'integer', required: true, description: '' }]];
+      const result = await converter.fromGrid(gridData, SchemaFormat.WSDL);
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.xml).toContain('<wsdl:service name="SchemaService">');
+
+      const rows = toRows(await converter.toGrid(result.xml!, SchemaFormat.WSDL));
+      expect(rows[0]).toMatchObject({ fieldName: 'id', dataType: 'integer', required: true });
+    });
+  });
+
+  describe('OpenAPI/Swagger 처리', () => {
+    const openApiYAML = `openapi: 3.0.3
+info:
+  title: Orders API
+  version: 1.2.0
+paths:
+  /orders:
+    post:
+      operationId: createOrder
+      requestBody:
+        $ref: '#/components/requestBodies/OrderBody'
+      responses:
+        '201':
+          description: Created
+          content:
+            application/json:
+              schema:
+                $ref: '#/components/schemas/OrderReceipt'
+    get:
+      operationId: listOrders
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema:
+                type: array
+                items:
+                  $ref: '#/components/schemas/Order'
+components:
+  requestBodies:
+    OrderBody:
+      required: true
+      content:
+        application/json:
+          schema:
+            $ref: '#/components/schemas/Order'
+  schemas:
+    Order:
+      type: object
+      required: [orderId]
+      properties:
+        orderId:
+          type: string
+          maxLength: 20
+        status:
+          type: string
+          enum: [NEW, SHIPPED]
+        customer:
+          $ref: '#/components/schemas/Customer'
+    Customer:
+      type: object
+      properties:
+        name:
+          type: string
+    OrderReceipt:
+      type: object
+      properties:
+        receiptId:
+          type: string
+`;
+
+    const swaggerJSON = JSON.stringify({
+      swagger: '2.0',
+      info: { title: 'Legacy Orders', version: '1.0' },
+      paths: {
+        '/orders/{id}': {
+          put: {
+            operationId: 'updateOrder',
+            parameters: [
+              { in: 'path', name: 'id', type: 'string', required: true },
+              { in: 'body', name: 'body', schema: { $ref: '#/definitions/Order' } }
+            ],
+            responses: { '200': { description: 'OK', schema: { $ref: '#/definitions/Order' } } }
+          }
+        }
+      },
+      definitions: {
+        Order: {
+          type: 'object',
+          properties: {
+            id: { type: 'integer' },
+            lines: { type: 'array', items: { type: 'object', properties: { sku: { type: 'string' } } } }
+          }
+        }
+      }
+    });
+
+    const toRows = (gridData: SchemaGridData[][]) => gridData.map(row => row[0]!);
+
+    it('불러올 수 있는 component schema와 operation 목록을 제공해야 함', () => {
+      const summary = converter.readOpenAPI(openApiYAML);
+
+      expect(summary).toMatchObject({ version: '3.0', title: 'Orders API', schemas: ['Order', 'Customer', 'OrderReceipt'] });
+      expect(summary.operations).toEqual([
+        expect.objectContaining({ path: '/orders', method: 'get', operationId: 'listOrders', hasRequestBody: false, responses: ['200'] }),
+        expect.objectContaining({ path: '/orders', method: 'post', operationId: 'createOrder', hasRequestBody: true, responses: ['201'] })
+      ]);
+    });
+
+    it('component schema를 $ref를 해석하여 그리드로 불러와야 함', async () => {
+      const rows = toRows(await converter.toGrid(openApiYAML, SchemaFormat.OPENAPI, { openApi: { schemaName: 'Order' } }));
+
+      expect(rows.map(row => row.path)).toEqual(['orderId', 'status', 'customer', 'customer.name']);
+      expect(rows[0]).toMatchObject({ required: true, maxLength: 20 });
+      expect(rows[1]!.enumValues).toEqual(['NEW', 'SHIPPED']);
+      expect(rows[2]!.typeRef).toBe('Customer');
+    });
+
+    it('operation의 요청/응답 본문을 그리드로 불러와야 함', async () => {
+      const request = toRows(await converter.toGrid(openApiYAML, SchemaFormat.OPENAPI, {
+        openApi: { operationId: 'createOrder' }
+      }));
+      const response = toRows(await converter.toGrid(openApiYAML, SchemaFormat.OPENAPI, {
+        openApi: { path: '/orders', method: 'POST', direction: 'response' }
+      }));
+      const list = toRows(await converter.toGrid(openApiYAML, SchemaFormat.OPENAPI, {
+        openApi: { operationId: 'listOrders', direction: 'response', status: '200' }
+      }));
+
+      expect(request.map(row => row.fieldName)).toEqual(['orderId', 'status', 'customer', 'name']);
+      expect(response.map(row => row.fieldName)).toEqual(['receiptId']);
+      expect(list[0]!.fieldName).toBe('orderId');
+    });
+
+    it('Swagger 2.0 body 파라미터와 응답 스키마를 불러와야 함', async () => {
+      const request = toRows(await converter.toGrid(swaggerJSON, SchemaFormat.SWAGGER, {
+        openApi: { operationId: 'updateOrder' }
+      }));
+
+      expect(request.map(row => row.path)).toEqual(['id', 'lines', 'lines.sku']);
+      expect(request[1]).toMatchObject({ dataType: 'array', itemType: 'object' });
+    });
+
+    it('존재하지 않는 대상에 대해 오류를 발생시켜야 함', async () => {
+      await expect(converter.toGrid(openApiYAML, SchemaFormat.OPENAPI, { openApi: { schemaName: 'Missing' } }))
+        .rejects.toThrow('OpenAPI 스키마를 찾을 수 없습니다: Missing');
+      await expect(converter.toGrid(openApiYAML, SchemaFormat.OPENAPI, { openApi: { operationId: 'listOrders' } }))
+        .rejects.toThrow('GET /orders operation에 요청 본문이 없습니다');
+    });
+
+    it('components.schemas 문서와 골격 경로를 생성해야 함', async () => {
+      const gridData = await converter.toGrid(openApiYAML, SchemaFormat.OPENAPI, { openApi: { schemaName: 'Order' } });
+      const result = await converter.fromGrid(gridData, SchemaFormat.OPENAPI, {
+        openApi: { schemaName: 'Order', title: 'Orders', path: '/orders' }
+      });
+      const document = JSON.parse(result.json!);
+
+      expect(result.errors).toHaveLength(0);
+      expect(document.openapi).toBe('3.0.3');
+      expect(document.components.schemas.Order.properties.customer.$ref).toBe('#/components/schemas/Customer');
+      expect(document.components.schemas.Customer.properties.name.type).toBe('string');
+      expect(document.paths['/orders'].post.requestBody.content['application/json'].schema.$ref)
+        .toBe('#/components/schemas/Order');
+      expect(result.yaml).toContain('openapi: 3.0.3');
+
+      const reimported = toRows(await converter.toGrid(result.yaml!, SchemaFormat.OPENAPI, { openApi: { path: '/orders', method: 'post' } }));
+      expect(reimported.map(row => row.path)).toEqual(['orderId', 'status', 'customer', 'customer.name']);
+    });
+
+    it('Swagger 2.0 문서는 definitions와 body 파라미터로 생성해야 함', async () => {
+      const gridData: SchemaGridData[][] = [[{ fieldName: 'id', dataType: 'integer', required: true, description: '' }]];
+      const result = await converter.fromGrid(gridData, SchemaFormat.SWAGGER, { openApi: { path: '/items', method: 'PUT' } });
+      const document = JSON.parse(result.json!);
+
+      expect(document.swagger).toBe('2.0');
+      expect(document.definitions.Schema.required).toEqual(['id']);
+      expect(document.paths['/items'].put.parameters[0]).toMatchObject({ in: 'body', schema: { $ref: '#/definitions/Schema' } });
+    });
+
+    it('OpenAPI 문서 버전과 형식이 다르면 검증 오류를 반환해야 함', async () => {
+      const result = await converter.validate(swaggerJSON, SchemaFormat.OPENAPI);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]!.code).toBe('OPENAPI_VERSION_MISMATCH');
+      expect((await converter.validate(openApiYAML, SchemaFormat.OPENAPI)).isValid).toBe(true);
+    });
+  });
+
+  describe('Avro/Protobuf/Thrift 처리', () => {
+    const toRows = (gridData: SchemaGridData[][]) => gridData.map(row => row[0]!);
+
+    const avsc = JSON.stringify({
+      type: 'record',
+      name: 'Order',
+      namespace: 'com.example',
+      fields: [
+        { name: 'orderId', type: { type: 'string', logicalType: 'uuid' }, doc: '주문 ID' },
+        { name: 'amount', type: { type: 'bytes', logicalType: 'decimal', precision: 10, scale: 2 } },
+        { name: 'createdAt', type: { type: 'long', logicalType: 'timestamp-millis' } },
+        { name: 'note', type: ['null', 'string'], default: null },
+        { name: 'status', type: { type: 'enum', name: 'Status', symbols: ['NEW', 'SHIPPED'] }, default: 'NEW' },
+        {
+          name: 'billing',
+          type: { type: 'record', name: 'Address', fields: [{ name: 'city', type: 'string' }] }
+        },
+        { name: 'shipping', type: ['null', 'Address'], default: null },
+        { name: 'tags', type: { type: 'array', items: 'string' } }
+      ]
+    });
+
+    const proto = `
+      syntax = "proto3";
+      package shop;
+
+      import "google/protobuf/timestamp.proto";
+
+      message Order {
+        // 주문 ID
+        string order_id = 1;
+        repeated Line lines = 3;
+        optional string note = 5; // 메모
+        google.protobuf.Timestamp created_at = 7;
+        Status status = 8;
+
+        message Line {
+          string sku = 1;
+          int32 quantity = 2;
+        }
+
+        enum Status {
+          NEW = 0;
+          SHIPPED = 1;
+        }
+
+        oneof payment {
+          string card = 10;
+          string voucher = 11;
+        }
+      }
+    `;
+
+    const thrift = `
+      namespace * shop
+
+      enum Status { NEW = 0, SHIPPED = 1 }
+
+      struct Line {
+        1: required string sku
+        2: optional i32 quantity = 1
+      }
+
+      /** 주문 */
+      struct Order {
+        /** 주문 ID */
+        1: required string orderId,
+        2: list<Line> lines,
+        4: optional Status status = Status.NEW,
+        5: map<string, string> attributes
+      }
+    `;
+
+    it('Avro 유니온과 논리 타입을 그리드로 변환해야 함', async () => {
+      const rows = toRows(await converter.toGrid(avsc, SchemaFormat.AVRO));
+
+      expect(rows.map(row => row.path)).toEqual([
+        'orderId', 'amount', 'createdAt', 'note', 'status', 'billing', 'billing.city', 'shipping', 'shipping.city', 'tags'
+      ]);
+      expect(rows[0]).toMatchObject({ dataType: 'string', required: true, description: '주문 ID' });
+      expect(JSON.parse(rows[0]!.constraints!)).toEqual({ format: 'uuid' });
+      expect(JSON.parse(rows[1]!.constraints!)).toEqual({ totalDigits: 10, fractionDigits: 2 });
+      expect(rows[2]!.dataType).toBe('datetime');
+      expect(rows[3]!.required).toBe(false);
+      expect(rows[4]).toMatchObject({ enumValues: ['NEW', 'SHIPPED'], defaultValue: 'NEW' });
+      expect(rows[5]!.typeRef).toBe('Address');
+      expect(rows[7]).toMatchObject({ required: false, typeRef: 'Address' });
+      expect(rows[9]).toMatchObject({ dataType: 'array', itemType: 'string' });
+    });
+
+    it('Avro 스키마로 내보낸 뒤 다시 불러와도 구조가 유지되어야 함', async () => {
+      const gridData = await converter.toGrid(avsc, SchemaFormat.AVRO);
+      const result = await converter.fromGrid(gridData, SchemaFormat.AVRO, { rootName: 'Order', namespace: 'com.example' });
+      const schema = JSON.parse(result.json!);
+      const fields = Object.fromEntries(schema.fields.map((field: any) => [field.name, field]));
+
+      expect(result.errors).toHaveLength(0);
+      expect(schema).toMatchObject({ type: 'record', name: 'Order', namespace: 'com.example' });
+      expect(fields.amount.type).toEqual({ type: 'bytes', logicalType: 'decimal', precision: 10, scale: 2 });
+      expect(fields.note).toMatchObject({ type: ['null', 'string'], default: null });
+      expect(fields.status).toMatchObject({ type: { type: 'enum', name: 'Status', symbols: ['NEW', 'SHIPPED'] }, default: 'NEW' });
+      expect(fields.billing.type).toMatchObject({ type: 'record', name: 'Address' });
+      expect(fields.shipping.type).toEqual(['null', 'Address']);
+
+      const reimported = toRows(await converter.toGrid(result.json!, SchemaFormat.AVRO));
+      expect(reimported.map(row => row.path)).toEqual(toRows(gridData).map(row => row.path));
+    });
+
+    it('Protobuf message를 필드 번호와 함께 그리드로 변환해야 함', async () => {
+      const rows = toRows(await converter.toGrid(proto, SchemaFormat.PROTOBUF));
+
+      expect(rows.map(row => row.path)).toEqual([
+        'order_id', 'lines', 'lines.sku', 'lines.quantity', 'note', 'created_at', 'status', 'card', 'voucher'
+      ]);
+      expect(rows.map(row => row.fieldNumber)).toEqual([1, 3, 1, 2, 5, 7, 8, 10, 11]);
+      expect(rows[0]).toMatchObject({ required: true, description: '주문 ID' });
+      expect(rows[1]).toMatchObject({ dataType: 'array', itemType: 'object', required: false });
+      expect(rows[4]).toMatchObject({ required: false, description: '메모' });
+      expect(rows[5]!.dataType).toBe('datetime');
+      expect(rows[6]!.enumValues).toEqual(['NEW', 'SHIPPED']);
+      expect(rows[7]!.required).toBe(false);
+    });
+
+    it('Protobuf로 내보낼 때 기존 필드 번호를 유지하고 새 필드에 최대값 다음 번호를 부여해야 함', async () => {
+      const rows = toRows(await converter.toGrid(proto, SchemaFormat.PROTOBUF));
+      // 순서를 바꾸고 새 필드를 추가해도 기존 번호는 유지
+      const edited = [rows[5]!, rows[0]!, rows[4]!, { fieldName: 'channel', dataType: 'string', required: true, description: '' }];
+      const result = await converter.fromGrid(edited.map(row => [row]), SchemaFormat.PROTOBUF, {
+        rootName: 'Order',
+        namespace: 'shop'
+      });
+
+      expect(result.errors).toHaveLength(0);
+      expect(result.idl).toContain('syntax = "proto3";');
+      expect(result.idl).toContain('package shop;');
+      expect(result.idl).toContain('import "google/protobuf/timestamp.proto";');
+      expect(result.idl).toContain('google.protobuf.Timestamp created_at = 7;');
+      expect(result.idl).toContain('string order_id = 1;');
+      expect(result.idl).toContain('optional string note = 5;');
+      expect(result.idl).toContain('string channel = 8;');
+
+      const reimported = toRows(await converter.toGrid(result.idl!, SchemaFormat.PROTOBUF));
+      expect(reimported.map(row => [row.fieldName, row.fieldNumber])).toEqual([
+        ['created_at', 7], ['order_id', 1], ['note', 5], ['channel', 8]
+      ]);
+    });
+
+    it('Protobuf 중첩 message와 enum을 다시 생성해야 함', async () => {
+      const gridData = await converter.toGrid(proto, SchemaFormat.PROTOBUF);
+      const result = await converter.fromGrid(gridData, SchemaFormat.PROTOBUF, { rootName: 'Order' });
+
+      expect(result.idl).toContain('repeated Lines lines = 3;');
+      expect(result.idl).toContain('  message Lines {');
+      expect(result.idl).toContain('  enum Status {');
+      expect(result.idl).toContain('    SHIPPED = 1;');
+
+      const reimported = toRows(await converter.toGrid(result.idl!, SchemaFormat.PROTOBUF));
+      expect(reimported.map(row => row.path)).toEqual(toRows(gridData).map(row => row.path));
+      expect(reimported.map(row => row.fieldNumber)).toEqual(toRows(gridData).map(row => row.fieldNumber));
+    });
+
+    it('Thrift struct를 필드 ID와 기본값을 포함해 그리드로 변환해야 함', async () => {
+      const rows = toRows(await converter.toGrid(thrift, SchemaFormat.THRIFT));
+
+      expect(rows.map(row => row.path)).toEqual(['orderId', 'lines', 'lines.sku', 'lines.quantity', 'status', 'attributes']);
+      expect(rows.map(row => row.fieldNumber)).toEqual([1, 2, 1, 2, 4, 5]);
+      expect(rows[0]).toMatchObject({ required: true, description: '주문 ID' });
+      expect(rows[1]).toMatchObject({ dataType: 'array', itemType: 'object', required: false });
+      expect(rows[3]).toMatchObject({ dataType: 'integer', defaultValue: 1 });
+      expect(rows[4]).toMatchObject({ enumValues: ['NEW', 'SHIPPED'], defaultValue: 'NEW' });
+      expect(rows[5]!.dataType).toBe('object');
+    });
+
+    it('Thrift IDL로 내보낼 때 의존 타입을 먼저 선언해야 함', async () => {
+      const gridData = await converter.toGrid(thrift, SchemaFormat.THRIFT);
+      const result = await converter.fromGrid(gridData, SchemaFormat.THRIFT, { rootName: 'Order', namespace: 'shop' });
+      const idl = result.idl!;
+
+      expect(result.errors).toHaveLength(0);
+      expect(idl).toContain('namespace * shop');
+      expect(idl).toContain('  1: required string orderId');
+      expect(idl).toContain('  2: optional list<Lines> lines');
+      expect(idl).toContain('  2: optional i64 quantity = 1');
+      expect(idl).toContain('  4: optional Status status = Status.NEW');
+      expect(idl.indexOf('struct Lines')).toBeLessThan(idl.indexOf('struct Order'));
+
+      const reimported = toRows(await converter.toGrid(idl, SchemaFormat.THRIFT));
+      expect(reimported.map(row => row.path)).toEqual(toRows(gridData).map(row => row.path));
+      expect(reimported[4]!.defaultValue).toBe('NEW');
+    });
+
+    it('공유 타입(typeRef)은 한 번만 정의해야 함', async () => {
+      const gridData: SchemaGridData[][] = [
+        [{ fieldName: 'billing', dataType: 'object', required: true, description: '', typeRef: 'Address', path: 'billing' }],
+        [{ fieldName: 'city', dataType: 'string', required: true, description: '', path: 'billing.city', parentPath: 'billing' }],
+        [{ fieldName: 'shipping', dataType: 'object', required: false, description: '', typeRef: 'Address', path: 'shipping' }]
+      ];
+
+      const proto3 = (await converter.fromGrid(gridData, SchemaFormat.PROTOBUF)).idl!;
+      const thriftIdl = (await converter.fromGrid(gridData, SchemaFormat.THRIFT)).idl!;
+      const avro = JSON.parse((await converter.fromGrid(gridData, SchemaFormat.AVRO)).json!);
+
+      expect(proto3.match(/message Address \{/g)).toHaveLength(1);
+      expect(proto3).toContain('optional Address shipping = 2;');
+      expect(thriftIdl.match(/struct Address \{/g)).toHaveLength(1);
+      expect(avro.fields[1].type).toEqual(['null', 'Address']);
+    });
+
+    it('구문이 잘못된 IDL은 검증 오류를 반환해야 함', async () => {
+      const protoResult = await converter.validate('message Order { string id = ; }', SchemaFormat.PROTOBUF);
+      const avroResult = await converter.validate(JSON.stringify({ type: 'enum', name: 'E', symbols: [] }), SchemaFormat.AVRO);
+
+      expect(protoResult.isValid).toBe(false);
+      expect(protoResult.errors[0]!.code).toBe('INVALID_PROTOBUF_SCHEMA');
+      expect(avroResult.errors[0]!.code).toBe('INVALID_AVRO_SCHEMA');
+      expect((await converter.validate(thrift, SchemaFormat.THRIFT)).isValid).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * SchemaDiffService 단위 테스트
+ */
+
+import { SchemaDiffService } from '../../services/SchemaDiffService';
+import { SchemaFormat, SchemaGridData } from '../../types/schema';
+import { SchemaChange } from '../../types/diff';
+import { Logger } from '../../core/logging/Logger';
+
+// Logger 모킹
+jest.mock('../../core/logging/Logger');
+
+const toRows = (rows: SchemaGridData[]): SchemaGridData[][] => rows.map(row => [row]);
+
+const field = (fieldName: string, dataType: string, extra: Partial<SchemaGridData> = {}): SchemaGridData => ({
+  fieldName,
+  dataType,
+  required: false,
+  description: '',
+  ...extra
+});
+
+const findChange = (changes: SchemaChange[], type: string, path: string): SchemaChange | undefined =>
+  changes.find(change => change.type === type && change.path === path);
+
+describe('SchemaDiffService', () => {
+  let service: SchemaDiffService;
+
+  beforeEach(() => {
+    const mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+    (Logger.getInstance as jest.Mock).mockReturnValue(mockLogger);
+
+    service = new SchemaDiffService();
+  });
+
+  describe('diffGrids', () => {
+    it('같은 그리드는 변경이 없어야 함', () => {
+      const grid = toRows([field('id', 'string', { required: true })]);
+
+      const report = service.diffGrids(grid, grid);
+
+      expect(report.changes).toHaveLength(0);
+      expect(report.isBreaking).toBe(false);
+    });
+
+    it('필드 추가와 삭제를 분류해야 함', () => {
+      const previous = toRows([field('id', 'string'), field('legacy', 'string')]);
+      const next = toRows([field('id', 'string'), field('note', 'string'), field('region', 'string', { required: true })]);
+
+      const { changes } = service.diffGrids(previous, next);
+
+      expect(findChange(changes, 'FIELD_ADDED', 'note')?.severity).toBe('non-breaking');
+      expect(findChange(changes, 'FIELD_ADDED', 'region')?.severity).toBe('breaking');
+      expect(findChange(changes, 'FIELD_REMOVED', 'legacy')?.severity).toBe('breaking');
+    });
+
+    it('비슷한 이름의 같은 타입 필드는 이름 변경으로 판단하고 하위 필드를 계속 비교해야 함', () => {
+      const previous = toRows([
+        field('customer_info', 'object', { path: 'customer_info' }),
+        field('name', 'string', { path: 'customer_info.name', parentPath: 'customer_info', maxLength: 50 })
+      ]);
+      const next = toRows([
+        field('customerInfo', 'object', { path: 'customerInfo' }),
+        field('name', 'string', { path: 'customerInfo.name', parentPath: 'customerInfo', maxLength: 20 })
+      ]);
+
+      const { changes } = service.diffGrids(previous, next);
+
+      expect(findChange(changes, 'FIELD_RENAMED', 'customerInfo')).toMatchObject({ oldPath: 'customer_info', severity: 'breaking' });
+      expect(findChange(changes, 'CONSTRAINT_TIGHTENED', 'customerInfo.name')).toMatchObject({ constraint: 'maxLength', before: 50, after: 20 });
+      expect(changes.some(change => change.type === 'FIELD_REMOVED')).toBe(false);
+    });
+
+    it('이름 변경 감지를 끌 수 있어야 함', () => {
+      const previous = toRows([field('zipCode', 'string')]);
+      const next = toRows([field('zip_code', 'string')]);
+
+      const { changes } = service.diffGrids(previous, next, { detectRenames: false });
+
+      expect(changes.map(change => change.type).sort()).toEqual(['FIELD_ADDED', 'FIELD_REMOVED']);
+    });
+
+    it('타입 확장은 호환, 축소는 호환성 깨짐으로 분류해야 함', () => {
+      const previous = toRows([field('amount', 'integer'), field('count', 'number'), field('tags', 'array', { itemType: 'integer' })]);
+      const next = toRows([field('amount', 'number'), field('count', 'integer'), field('tags', 'array', { itemType: 'string' })]);
+
+      const { changes } = service.diffGrids(previous, next);
+
+      expect(findChange(changes, 'TYPE_CHANGED', 'amount')?.severity).toBe('non-breaking');
+      expect(findChange(changes, 'TYPE_CHANGED', 'count')?.severity).toBe('breaking');
+      expect(findChange(changes, 'TYPE_CHANGED', 'tags')).toMatchObject({ before: 'array<integer>', after: 'array<string>', severity: 'non-breaking' });
+    });
+
+    it('필수 여부 변경을 분류해야 함', () => {
+      const previous = toRows([field('a', 'string', { required: false }), field('b', 'string', { required: true })]);
+      const next = toRows([field('a', 'string', { required: true }), field('b', 'string', { required: false })]);
+
+      const { changes } = service.diffGrids(previous, next);
+
+      expect(findChange(changes, 'REQUIRED_CHANGED', 'a')?.severity).toBe('breaking');
+      expect(findChange(changes, 'REQUIRED_CHANGED', 'b')?.severity).toBe('non-breaking');
+    });
+
+    it('범위, 패턴, 열거값 제약의 강화와 완화를 분류해야 함', () => {
+      const previous = toRows([
+        field('qty', 'integer', { constraints: '{"minimum":1,"maximum":100}' }),
+        field('code', 'string', { pattern: '[A-Z]{3}' }),
+        field('status', 'string', { enumValues: ['NEW', 'PAID'] }),
+        field('kind', 'string', { enumValues: ['A', 'B'] })
+      ]);
+      const next = toRows([
+        field('qty', 'integer', { constraints: 'minimum: 0, maximum: 50' }),
+        field('code', 'string', { pattern: '[A-Z]{4}' }),
+        field('status', 'string', { enumValues: ['NEW', 'PAID', 'SHIPPED'] }),
+        field('kind', 'string', { enumValues: ['A'] })
+      ]);
+
+      const { changes } = service.diffGrids(previous, next);
+
+      expect(changes.find(change => change.path === 'qty' && change.constraint === 'minimum')?.type).toBe('CONSTRAINT_LOOSENED');
+      expect(changes.find(change => change.path === 'qty' && change.constraint === 'maximum')?.type).toBe('CONSTRAINT_TIGHTENED');
+      expect(findChange(changes, 'CONSTRAINT_CHANGED', 'code')?.severity).toBe('breaking');
+      expect(findChange(changes, 'CONSTRAINT_LOOSENED', 'status')?.severity).toBe('non-breaking');
+      expect(findChange(changes, 'CONSTRAINT_TIGHTENED', 'kind')?.message).toContain('B');
+    });
+
+    it('재귀 typeRef 구조에서도 종료해야 함', () => {
+      const grid = (childType: string) => toRows([
+        field('node', 'object', { path: 'node', typeRef: 'Node' }),
+        field('value', childType, { path: 'node.value', parentPath: 'node' }),
+        field('next', 'object', { path: 'node.next', parentPath: 'node', typeRef: 'Node' })
+      ]);
+
+      const { changes } = service.diffGrids(grid('integer'), grid('string'));
+
+      expect(findChange(changes, 'TYPE_CHANGED', 'node.value')).toBeDefined();
+    });
+  });
+
+  describe('diffSchemas', () => {
+    it('서로 다른 형식의 스키마를 비교해야 함', async () => {
+      const xsd = `<?xml version="1.0" encoding="UTF-8"?>
+<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="order">
+    <xs:complexType>
+      <xs:sequence>
+        <xs:element name="id" type="xs:string"/>
+        <xs:element name="amount" type="xs:int"/>
+      </xs:sequence>
+    </xs:complexType>
+  </xs:element>
+</xs:schema>`;
+      const jsonSchema = JSON.stringify({
+        type: 'object',
+        properties: { id: { type: 'string' }, amount: { type: 'number' } },
+        required: ['id', 'amount']
+      });
+
+      const report = await service.diffSchemas(
+        { content: xsd, format: SchemaFormat.XSD },
+        { content: jsonSchema, format: SchemaFormat.JSON }
+      );
+
+      expect(report.source.format).toBe(SchemaFormat.XSD);
+      expect(report.target.format).toBe(SchemaFormat.JSON);
+      expect(findChange(report.changes, 'TYPE_CHANGED', 'amount')?.severity).toBe('non-breaking');
+      expect(report.isBreaking).toBe(false);
+    });
+  });
+
+  describe('render', () => {
+    const previous = toRows([field('id', 'string'), field('old|name', 'string')]);
+    const next = toRows([field('id', 'integer'), field('note', 'string')]);
+
+    it('Markdown 표로 출력해야 함', () => {
+      const markdown = service.render(service.diffGrids(previous, next, { detectRenames: false }), 'markdown');
+
+      expect(markdown).toContain('# 스키마 변경 보고서');
+      expect(markdown).toContain('| **breaking** | 타입 변경 | `id` |');
+      expect(markdown).toContain('old\\|name');
+    });
+
+    it('HTML은 값을 이스케이프해야 함', () => {
+      const report = service.diffGrids(toRows([field('a', 'string', { pattern: '<b>' })]), toRows([field('a', 'string')]));
+
+      const html = service.render(report, 'html');
+
+      expect(html).toContain('<table>');
+      expect(html).toContain('&lt;b&gt;');
+      expect(html).not.toContain('<b>');
+    });
+
+    it('변경이 없으면 안내 문구를 출력해야 함', () => {
+      const markdown = service.render(service.diffGrids(previous, previous), 'markdown');
+
+      expect(markdown).toContain('변경 사항이 없습니다.');
+    });
+  });
+});
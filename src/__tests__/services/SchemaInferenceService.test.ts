@@ -0,0 +1,126 @@
+/**
+ * SchemaInferenceService 단위 테스트
+ */
+
+import { SchemaInferenceService } from '../../services/SchemaInferenceService';
+import { SchemaFormat, SchemaGridData } from '../../types/schema';
+import { Logger } from '../../core/logging/Logger';
+
+// Logger 모킹
+jest.mock('../../core/logging/Logger');
+
+const findRow = (gridData: SchemaGridData[][], path: string): SchemaGridData | undefined =>
+  gridData.map(row => row[0]!).find(row => row.path === path);
+
+describe('SchemaInferenceService', () => {
+  let service: SchemaInferenceService;
+
+  beforeEach(() => {
+    const mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+    (Logger.getInstance as jest.Mock).mockReturnValue(mockLogger);
+
+    service = new SchemaInferenceService();
+  });
+
+  describe('JSON 문서 추론', () => {
+    const documents = [
+      JSON.stringify({ id: 1, name: 'Kim', status: 'NEW', email: 'kim@example.com', createdAt: '2024-01-01T10:00:00Z', items: [{ sku: 'A1', price: 1.5 }] }),
+      JSON.stringify({ id: 2, name: 'Lee', status: 'PAID', email: 'lee@example.com', createdAt: '2024-02-01T10:00:00Z', items: [{ sku: 'B2', price: 3 }, { sku: 'C3', price: 2, note: 'gift' }] }),
+      JSON.stringify({ id: 3, name: 'Park Jihoon', status: 'NEW', email: 'park@example.com', createdAt: '2024-03-01', nickname: 'pj', items: [] })
+    ];
+
+    it('타입과 경로를 추론해야 함', async () => {
+      const result = await service.infer(documents);
+
+      expect(result.documentCount).toBe(3);
+      expect(findRow(result.gridData, 'id')?.dataType).toBe('integer');
+      expect(findRow(result.gridData, 'items')).toMatchObject({ dataType: 'array', itemType: 'object' });
+      expect(findRow(result.gridData, 'items.sku')).toMatchObject({ dataType: 'string', parentPath: 'items', depth: 1 });
+      expect(findRow(result.gridData, 'items.price')?.dataType).toBe('number');
+    });
+
+    it('모든 샘플에 있는 필드만 필수로 추론해야 함', async () => {
+      const result = await service.infer(documents);
+
+      expect(findRow(result.gridData, 'name')?.required).toBe(true);
+      expect(findRow(result.gridData, 'nickname')?.required).toBe(false);
+      expect(findRow(result.gridData, 'items.sku')?.required).toBe(true);
+      expect(findRow(result.gridData, 'items.note')?.required).toBe(false);
+
+      const stats = result.fieldStats.find(field => field.path === 'nickname');
+      expect(stats).toMatchObject({ occurrences: 1, parentOccurrences: 3 });
+    });
+
+    it('열거값 후보, 문자열 길이, 이메일/날짜 형식을 추론해야 함', async () => {
+      const result = await service.infer(documents);
+
+      expect(findRow(result.gridData, 'status')?.enumValues).toEqual(['NEW', 'PAID']);
+      expect(findRow(result.gridData, 'name')).toMatchObject({ minLength: 3, maxLength: 11 });
+      expect(findRow(result.gridData, 'name')?.enumValues).toBeUndefined();
+      expect(JSON.parse(findRow(result.gridData, 'email')!.constraints!)).toEqual({ format: 'email' });
+      expect(findRow(result.gridData, 'createdAt')?.dataType).toBe('datetime');
+    });
+
+    it('문서마다 타입이 다르면 string으로 추론하고 경고해야 함', async () => {
+      const result = await service.infer(['{"code": 1}', '{"code": "A"}']);
+
+      expect(findRow(result.gridData, 'code')?.dataType).toBe('string');
+      expect(result.warnings).toHaveLength(1);
+    });
+  });
+
+  describe('XML 문서 추론', () => {
+    const documents = [
+      `<order id="100" xmlns="http://example.com/orders">
+        <quantity>3</quantity>
+        <paid>true</paid>
+        <zip>01234</zip>
+        <orderDate>2024-01-01</orderDate>
+        <line><sku>A</sku></line>
+        <line><sku>B</sku></line>
+      </order>`,
+      `<order id="101"><quantity>10</quantity><paid>false</paid><zip>12345</zip><orderDate>2024-01-02</orderDate><line><sku>C</sku></line></order>`
+    ];
+
+    it('루트 요소를 벗겨내고 속성, 반복 요소, 텍스트 타입을 추론해야 함', async () => {
+      const result = await service.infer(documents);
+
+      expect(result.rootName).toBe('order');
+      expect(findRow(result.gridData, 'id')).toMatchObject({ isAttribute: true, dataType: 'integer', required: true });
+      expect(findRow(result.gridData, 'quantity')?.dataType).toBe('integer');
+      expect(findRow(result.gridData, 'paid')?.dataType).toBe('boolean');
+      expect(findRow(result.gridData, 'zip')?.dataType).toBe('string');
+      expect(findRow(result.gridData, 'orderDate')?.dataType).toBe('date');
+      expect(findRow(result.gridData, 'line')).toMatchObject({ dataType: 'array', itemType: 'object' });
+      expect(findRow(result.gridData, 'line.sku')?.required).toBe(true);
+    });
+
+    it('추론한 그리드를 XSD로 내보내야 함', async () => {
+      const result = await service.inferSchema(documents, SchemaFormat.XSD);
+
+      expect(result.conversion.xml).toContain('name="order"');
+      expect(result.conversion.xml).toContain('name="line"');
+      expect(result.conversion.xml).toContain('maxOccurs="unbounded"');
+    });
+
+    it('DTD가 포함된 문서는 거부해야 함', async () => {
+      await expect(service.infer(['<!DOCTYPE a [<!ENTITY x SYSTEM "file:///etc/passwd">]><a>&x;</a>']))
+        .rejects.toThrow('1번째 문서를 해석할 수 없습니다');
+    });
+  });
+
+  it('YAML 문서와 형식 지정을 지원해야 함', async () => {
+    const result = await service.infer([{ content: 'name: test\nactive: true\n', format: 'yaml' }]);
+
+    expect(findRow(result.gridData, 'active')?.dataType).toBe('boolean');
+  });
+
+  it('문서가 없으면 에러를 발생시켜야 함', async () => {
+    await expect(service.infer([])).rejects.toThrow('추론할 인스턴스 문서가 없습니다');
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * SchemaRepositoryService 및 저장소 어댑터 단위 테스트
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { SchemaRepositoryService } from '../../services/SchemaRepositoryService';
+import { FileSchemaRepository } from '../../services/repository/FileSchemaRepository';
+import { InMemorySchemaRepository } from '../../services/repository/InMemorySchemaRepository';
+import { SchemaFormat } from '../../types/schema';
+import { ConflictError, NotFoundError, ValidationError } from '../../types/errors';
+import { Logger } from '../../core/logging/Logger';
+
+// Logger 모킹
+jest.mock('../../core/logging/Logger');
+
+const orderSchema = JSON.stringify({
+  type: 'object',
+  properties: { id: { type: 'string' }, amount: { type: 'number' } },
+  required: ['id']
+});
+
+describe('SchemaRepositoryService', () => {
+  let service: SchemaRepositoryService;
+
+  beforeEach(() => {
+    const mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+    (Logger.getInstance as jest.Mock).mockReturnValue(mockLogger);
+
+    service = new SchemaRepositoryService(new InMemorySchemaRepository());
+  });
+
+  it('스키마를 검증하고 그리드와 함께 저장해야 함', async () => {
+    const created = await service.createSchema(
+      { name: '주문', format: 'json', content: orderSchema, tags: ['order', ' order ', ''] },
+      'user-1'
+    );
+
+    const stored = await service.getSchema(created.id);
+
+    expect(stored).toMatchObject({ name: '주문', format: SchemaFormat.JSON, version: '1.0.0', createdBy: 'user-1', tags: ['order'] });
+    expect(stored.originalContent).toBe(orderSchema);
+    expect(stored.gridData?.map(row => row[0]!.fieldName)).toEqual(['id', 'amount']);
+    expect(stored.lastValidation?.isValid).toBe(true);
+    expect(stored.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('검증에 실패한 스키마는 저장하지 않아야 함', async () => {
+    await expect(service.createSchema({ name: '깨짐', format: 'json', content: '{"type":' }, 'user-1'))
+      .rejects.toBeInstanceOf(ValidationError);
+
+    expect((await service.listSchemas()).total).toBe(0);
+  });
+
+  it('형식, 태그, 검색어로 필터링하고 페이지로 나눠야 함', async () => {
+    await service.createSchema({ name: '주문', format: 'json', content: orderSchema, tags: ['order', 'v1'] }, 'u');
+    await service.createSchema({ name: '고객', description: 'customer master', format: 'json', content: orderSchema, tags: ['customer'] }, 'u');
+    await service.createSchema({ name: '주문 XML', format: 'xml', content: '<order><id>1</id></order>', tags: ['order'] }, 'u');
+
+    expect((await service.listSchemas({ format: SchemaFormat.XML })).items.map(s => s.name)).toEqual(['주문 XML']);
+    expect((await service.listSchemas({ tags: ['order', 'v1'] })).items.map(s => s.name)).toEqual(['주문']);
+    expect((await service.listSchemas({ search: 'CUSTOMER' })).items.map(s => s.name)).toEqual(['고객']);
+
+    const page = await service.listSchemas({ page: 2, limit: 2 });
+    expect(page.total).toBe(3);
+    expect(page.items).toHaveLength(1);
+  });
+
+  it('내용이 바뀌면 다시 변환하고 버전을 올려야 함', async () => {
+    const created = await service.createSchema({ name: '주문', format: 'json', content: orderSchema }, 'u');
+
+    const renamed = await service.updateSchema(created.id, { name: '주문서' }, 'u');
+    expect(renamed.version).toBe('1.0.0');
+
+    const updated = await service.updateSchema(created.id, {
+      content: JSON.stringify({ type: 'object', properties: { id: { type: 'integer' } } })
+    }, 'u');
+
+    expect(updated).toMatchObject({ name: '주문서', version: '1.1.0' });
+    expect(updated.gridData?.[0]?.[0]?.dataType).toBe('integer');
+  });
+
+  it('없는 스키마는 NotFoundError를 발생시켜야 함', async () => {
+    await expect(service.getSchema('missing')).rejects.toBeInstanceOf(NotFoundError);
+    await expect(service.updateSchema('missing', { name: 'x' }, 'u')).rejects.toBeInstanceOf(NotFoundError);
+    await expect(service.deleteSchema('missing')).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('API 응답 형식으로 변환해야 함', async () => {
+    const created = await service.createSchema({ name: '주문', format: 'json', content: orderSchema }, 'u');
+
+    const response = service.toResponse(created);
+
+    expect(response).toMatchObject({ id: created.id, tags: [], size: orderSchema.length, isValid: true });
+    expect(typeof response.createdAt).toBe('string');
+    expect(typeof response.lastValidation?.timestamp).toBe('string');
+  });
+
+  describe('리비전 이력', () => {
+    const v2 = JSON.stringify({
+      type: 'object',
+      properties: { id: { type: 'string' }, amount: { type: 'number' }, currency: { type: 'string' } },
+      required: ['id', 'currency']
+    });
+
+    it('수정할 때마다 작성자, 요약, 직전 리비전 대비 diff를 남겨야 함', async () => {
+      const created = await service.createSchema({ name: '주문', format: 'json', content: orderSchema }, 'alice');
+      await service.updateSchema(created.id, { content: v2 }, 'bob');
+      await service.updateSchema(created.id, { description: '주문 메시지', changeSummary: '설명 보강' }, 'carol');
+
+      const revisions = await service.listRevisions(created.id);
+
+      expect(revisions.map(r => [r.revision, r.version, r.author])).toEqual([
+        [1, '1.0.0', 'alice'],
+        [2, '1.1.0', 'bob'],
+        [3, '1.1.0', 'carol']
+      ]);
+      expect(revisions[0]!.diff).toBeUndefined();
+      expect(revisions[1]!.summary).toBe('필드 변경 1건 (호환성 깨짐 1건)');
+      expect(revisions[1]!.diff?.changes[0]).toMatchObject({ type: 'FIELD_ADDED', path: 'currency', severity: 'breaking' });
+      expect(revisions[2]!.summary).toBe('설명 보강');
+      expect(revisions[2]!.diff?.changes).toEqual([]);
+      expect((await service.getSchema(created.id)).revision).toBe(3);
+    });
+
+    it('태그로 리비전을 조회하고 같은 태그는 한 리비전에만 붙여야 함', async () => {
+      const created = await service.createSchema({ name: '주문', format: 'json', content: orderSchema }, 'u');
+      await service.updateSchema(created.id, { content: v2 }, 'u');
+
+      await service.tagRevision(created.id, 1, 'released-2026Q3');
+
+      expect((await service.getRevision(created.id, 'released-2026Q3')).revision).toBe(1);
+      await expect(service.tagRevision(created.id, 2, 'released-2026Q3')).rejects.toBeInstanceOf(ConflictError);
+      await expect(service.tagRevision(created.id, 2, '42')).rejects.toBeInstanceOf(ValidationError);
+
+      await service.untagRevision(created.id, 1, 'released-2026Q3');
+      await expect(service.getRevision(created.id, 'released-2026Q3')).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('리비전을 다른 형식으로 내보내야 함', async () => {
+      const created = await service.createSchema({ name: '주문', format: 'json', content: orderSchema }, 'u');
+
+      const original = await service.exportRevision(created.id, 1);
+      const xsd = await service.exportRevision(created.id, 1, SchemaFormat.XSD);
+
+      expect(original.content).toBe(orderSchema);
+      expect(xsd.format).toBe(SchemaFormat.XSD);
+      expect(xsd.content).toContain('name="amount"');
+    });
+
+    it('롤백은 이전 내용으로 새 리비전을 만들어야 함', async () => {
+      const created = await service.createSchema({ name: '주문', format: 'json', content: orderSchema }, 'u');
+      await service.updateSchema(created.id, { content: v2 }, 'u');
+
+      const rolledBack = await service.rollbackSchema(created.id, 1, 'admin');
+
+      expect(rolledBack).toMatchObject({ originalContent: orderSchema, revision: 3, version: '1.2.0' });
+      const latest = await service.getRevision(created.id, 3);
+      expect(latest).toMatchObject({ restoredFrom: 1, author: 'admin', summary: '리비전 1(으)로 롤백' });
+      expect(latest.diff?.changes[0]).toMatchObject({ type: 'FIELD_REMOVED', path: 'currency' });
+
+      await expect(service.rollbackSchema(created.id, 3, 'admin')).rejects.toBeInstanceOf(ConflictError);
+    });
+
+    it('같은 리비전을 기준으로 한 동시 수정은 하나만 반영하고 나머지는 ConflictError로 거부해야 함', async () => {
+      const created = await service.createSchema({ name: '주문', format: 'json', content: orderSchema }, 'alice');
+
+      const results = await Promise.allSettled([
+        service.updateSchema(created.id, { name: '주문 A' }, 'alice'),
+        service.updateSchema(created.id, { name: '주문 B' }, 'bob')
+      ]);
+      const rejected = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+      const fulfilled = results.filter(
+        (result): result is PromiseFulfilledResult<Awaited<ReturnType<typeof service.updateSchema>>> => result.status === 'fulfilled'
+      );
+      expect(rejected).toHaveLength(1);
+      expect(rejected[0]!.reason).toBeInstanceOf(ConflictError);
+
+      const stored = await service.getSchema(created.id);
+      const revisions = await service.listRevisions(created.id);
+      expect(stored).toMatchObject({ name: fulfilled[0]!.value.name, revision: 2 });
+      expect(revisions.map(revision => revision.revision)).toEqual([1, 2]);
+      expect(revisions[1]!.author).toBe(fulfilled[0]!.value.name === '주문 A' ? 'alice' : 'bob');
+    });
+  });
+
+  describe('FileSchemaRepository', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await fs.mkdtemp(path.join(os.tmpdir(), 'schema-repo-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('파일로 저장한 스키마를 새 인스턴스에서도 읽어야 함', async () => {
+      const created = await new SchemaRepositoryService(new FileSchemaRepository(directory))
+        .createSchema({ name: '주문', format: 'json', content: orderSchema, tags: ['order'] }, 'u');
+
+      const reopened = new SchemaRepositoryService(new FileSchemaRepository(directory));
+      const stored = await reopened.getSchema(created.id);
+
+      expect(stored.updatedAt).toBeInstanceOf(Date);
+      expect(stored.gridData).toEqual(created.gridData);
+      expect((await reopened.listSchemas({ tags: ['order'] })).total).toBe(1);
+
+      expect(await reopened.listRevisions(created.id)).toHaveLength(1);
+
+      await reopened.deleteSchema(created.id);
+      expect((await fs.readdir(directory)).filter(name => name.endsWith('.json'))).toEqual([]);
+      expect(await new FileSchemaRepository(directory).listRevisions(created.id)).toEqual([]);
+    });
+
+    it('디렉토리 밖을 가리키는 ID는 조회하지 않아야 함', async () => {
+      const repository = new FileSchemaRepository(directory);
+
+      expect(await repository.findById('../secret')).toBeNull();
+      expect(await repository.delete('../secret')).toBe(false);
+    });
+
+    it('잘못된 ID는 ValidationError, 동시에 만든 같은 ID는 하나만 저장해야 함', async () => {
+      const repository = new FileSchemaRepository(directory);
+      const created = await new SchemaRepositoryService(new InMemorySchemaRepository())
+        .createSchema({ name: '주문', format: 'json', content: orderSchema }, 'u');
+
+      await expect(repository.create({ ...created, id: '../secret' })).rejects.toBeInstanceOf(ValidationError);
+
+      const results = await Promise.allSettled([
+        repository.create({ ...created, name: 'first' }),
+        repository.create({ ...created, name: 'second' })
+      ]);
+      const rejected = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+      expect(rejected).toHaveLength(1);
+      expect(rejected[0]!.reason).toBeInstanceOf(ConflictError);
+
+      const winner = results.find(result => result.status === 'fulfilled') as PromiseFulfilledResult<typeof created>;
+      expect((await repository.findById(created.id))!.name).toBe(winner.value.name);
+      expect((await fs.readdir(directory)).filter(name => name.endsWith('.tmp'))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * SchemaSearchService 단위 테스트
+ */
+
+import { SchemaSearchService } from '../../services/SchemaSearchService';
+import { SchemaRepositoryService } from '../../services/SchemaRepositoryService';
+import { InMemorySchemaRepository } from '../../services/repository/InMemorySchemaRepository';
+import { tokenize } from '../../services/search/SchemaSearchIndex';
+import { ValidationError } from '../../types/errors';
+import { Logger } from '../../core/logging/Logger';
+
+// Logger 모킹
+jest.mock('../../core/logging/Logger');
+
+const orderSchema = JSON.stringify({
+  type: 'object',
+  properties: {
+    orderId: { type: 'string' },
+    customerId: { type: 'integer' },
+    items: { type: 'array', items: { type: 'string' } }
+  }
+});
+
+const customerSchema = JSON.stringify({
+  type: 'object',
+  properties: { customerId: { type: 'string' }, email: { type: 'string' } }
+});
+
+const invoiceXsd = `<xs:schema xmlns:xs="http://www.w3.org/2001/XMLSchema">
+  <xs:element name="invoice">
+    <xs:complexType><xs:sequence><xs:element name="orderId" type="xs:string"/></xs:sequence></xs:complexType>
+  </xs:element>
+</xs:schema>`;
+
+describe('SchemaSearchService', () => {
+  let repository: InMemorySchemaRepository;
+  let repositoryService: SchemaRepositoryService;
+  let service: SchemaSearchService;
+
+  beforeEach(async () => {
+    const mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+    (Logger.getInstance as jest.Mock).mockReturnValue(mockLogger);
+
+    repository = new InMemorySchemaRepository();
+    repositoryService = new SchemaRepositoryService(repository);
+    service = new SchemaSearchService(repositoryService);
+
+    await repositoryService.createSchema({ name: 'Order', description: '주문 메시지', format: 'json', content: orderSchema, tags: ['sales'] }, 'alice');
+    await repositoryService.createSchema({ name: 'Customer', description: 'customer master data', format: 'json', content: customerSchema, tags: ['crm'] }, 'bob');
+    await repositoryService.createSchema({ name: 'Invoice', format: 'xsd', content: invoiceXsd }, 'alice');
+  });
+
+  const names = (result: Awaited<ReturnType<SchemaSearchService['search']>>) =>
+    result.items.map(item => item.schema.name);
+
+  it('camelCase 필드 이름을 조각으로도 색인해야 함', () => {
+    expect(tokenize('customerId XMLSchema v2')).toEqual(
+      expect.arrayContaining(['customerid', 'customer', 'id', 'xmlschema', 'xml', 'schema', 'v2'])
+    );
+  });
+
+  it('이름, 설명, 필드 이름을 자유 검색하고 이름 일치를 우선해야 함', async () => {
+    const result = await service.search({ query: 'customer' });
+
+    expect(names(result)).toEqual(['Customer', 'Order']);
+    expect(result.items[0]!.matchedIn).toEqual(expect.arrayContaining(['name', 'description', 'fields']));
+    expect(result.items[1]!.matchedIn).toEqual(['fields']);
+  });
+
+  it('모든 검색어가 일치하는 스키마만 반환해야 함', async () => {
+    expect(names(await service.search({ query: '주문 order' }))).toEqual(['Order']);
+    expect(names(await service.search({ query: 'order email' }))).toEqual([]);
+  });
+
+  it('필드 이름과 타입 조건으로 조회해야 함', async () => {
+    const inline = await service.search({ query: 'field:customerId:string' });
+    expect(names(inline)).toEqual(['Customer']);
+    expect(inline.items[0]!.matchedFields).toEqual([{ path: 'customerId', fieldName: 'customerId', dataType: 'string', itemType: undefined }]);
+
+    const structured = await service.search({ query: '', filters: { fields: [{ name: 'items', type: 'string' }] } });
+    expect(names(structured)).toEqual(['Order']);
+
+    expect(names(await service.search({ query: 'field:orderid', sort: { field: 'name', direction: 'asc' } }))).toEqual(['Invoice', 'Order']);
+  });
+
+  it('형식, 태그, 작성자, 날짜, 크기로 필터링해야 함', async () => {
+    expect(names(await service.search({ query: '', filters: { format: ['xsd'] } }))).toEqual(['Invoice']);
+    expect(names(await service.search({ query: '', filters: { tags: ['crm'] } }))).toEqual(['Customer']);
+    expect(names(await service.search({ query: '', filters: { createdBy: ['alice'], size: { min: 200, max: 1000 } } }))).toEqual(['Invoice']);
+    expect((await service.search({ query: '', filters: { dateRange: { from: '2000-01-01', to: '2000-12-31' } } })).total).toBe(0);
+  });
+
+  it('수정된 스키마를 다시 색인해야 함', async () => {
+    const invoice = (await service.search({ query: 'invoice' })).items[0]!.schema;
+    await repositoryService.updateSchema(invoice.id, { name: 'Bill' }, 'alice');
+
+    expect((await service.search({ query: 'invoice' })).total).toBe(0);
+    expect(names(await service.search({ query: 'bill' }))).toEqual(['Bill']);
+  });
+
+  it('저장소가 바뀌지 않았으면 스키마 목록을 다시 읽지 않아야 함', async () => {
+    const listSchemas = jest.spyOn(repositoryService, 'listSchemas');
+    await service.search({ query: 'order' });
+    await service.search({ query: 'customer' });
+    expect(listSchemas).toHaveBeenCalledTimes(1);
+
+    // 같은 저장소를 쓰는 다른 서비스 인스턴스에서 삭제해도 반영
+    const customer = (await service.search({ query: 'customer' })).items[0]!.schema;
+    await new SchemaRepositoryService(repository).deleteSchema(customer.id);
+    expect(names(await service.search({ query: 'customer' }))).not.toContain('Customer');
+    expect(listSchemas).toHaveBeenCalledTimes(2);
+  });
+
+  it('페이지로 나누고 잘못된 정렬 기준은 거부해야 함', async () => {
+    const page = await service.search({ query: '', pagination: { page: 2, limit: 2 } });
+    expect(page).toMatchObject({ total: 3, page: 2, limit: 2 });
+    expect(page.items).toHaveLength(1);
+
+    await expect(service.search({ query: '', sort: { field: 'owner', direction: 'asc' } }))
+      .rejects.toBeInstanceOf(ValidationError);
+  });
+});
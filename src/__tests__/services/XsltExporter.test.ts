@@ -0,0 +1,71 @@
+/**
+ * XsltExporter / xpathTranslation 단위 테스트
+ */
+
+import { XsltExporter } from '../../services/mapping/XsltExporter';
+import { expressionToXPath, segmentsToXPath, transformToXPath, xpathLiteral } from '../../services/mapping/xpathTranslation';
+import { parseMappingPath } from '../../services/mapping/mappingPath';
+import { parseExpression } from '../../services/expression';
+import { AdvancedMappingRule, TransformationRule } from '../../services/messageMappingService';
+
+describe('XsltExporter', () => {
+  it('원본 경로, 변환, 식을 XPath 1.0으로 옮겨야 함', () => {
+    expect(segmentsToXPath(parseMappingPath('/ns:order/items/item[1]/@sku'), true))
+      .toBe("/*[local-name()='order']/*[local-name()='items']/*[local-name()='item'][2]/@*[local-name()='sku']");
+    expect(xpathLiteral(`it's "x"`)).toBe(`concat('it', "'", 's "x"')`);
+    expect(transformToXPath('prefix', { value: 'ID-' }, '$v0')).toBe("concat('ID-', $v0)");
+
+    const label = expressionToXPath(parseExpression('upper(value) & "-" & order.@id'), { value: '$v0' });
+    expect(label.text).toContain("translate($v0, 'abcdefghijklmnopqrstuvwxyz', 'ABCDEFGHIJKLMNOPQRSTUVWXYZ')");
+    expect(label.text).toContain("string(/*[local-name()='order']/@*[local-name()='id'])");
+    expect(expressionToXPath(parseExpression('total >= 1000 && status != "closed"')).test)
+      .toBe("((/*[local-name()='total'] >= 1000) and not(/*[local-name()='status'] = 'closed'))");
+    expect(() => expressionToXPath(parseExpression('split(value, ",")'), { value: '$v0' })).toThrow('XSLT 1.0으로 옮길 수 없습니다');
+  });
+
+  it('대상 트리를 요소별로 모아 조건, 기본값, 검증, 반복을 스타일시트로 만들어야 함', () => {
+    const transformations: TransformationRule[] = [
+      { id: 't1', name: 'tierName', description: '', function: 'map', parameters: { values: { G: 'GOLD' } } }
+    ];
+    const rules: AdvancedMappingRule[] = [
+      { id: 'id', type: 'attribute', sourcePath: '/order/@id', targetPath: '/invoice/id' },
+      { id: 'tier', type: 'transformation', sourcePath: '/order/customer/tier', targetPath: '/invoice/tier', transformation: 'tierName', defaultValue: 'NONE' },
+      { id: 'total', type: 'dataType', sourcePath: '/order/total', targetPath: '/invoice/amount', transformation: 'number', validation: { type: 'range', min: 0 } },
+      { id: 'currency', type: 'attribute', sourcePath: '/order/total/@currency', targetPath: '/invoice/amount/@currency', condition: 'order.total > 100' },
+      { id: 'skus', type: 'element', sourcePath: '/order/items/item[*]/sku', targetPath: '/invoice/lines[*]/code' }
+    ];
+
+    const result = new XsltExporter().export(rules, transformations, { namespace: 'urn:invoices', mappingId: 'm1' });
+
+    expect(result.skippedRules).toEqual([]);
+    expect(result.warnings).toEqual([]);
+    expect(result.stylesheet).toContain('<xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">');
+    expect(result.stylesheet).toContain('<invoice xmlns="urn:invoices">');
+    expect(result.stylesheet).toContain('<xsl:attribute name="id"><xsl:value-of select="$v0"/></xsl:attribute>');
+    expect(result.stylesheet).toContain('<xsl:otherwise>');
+    expect(result.stylesheet).toContain(`<xsl:variable name="v0" select="'NONE'"/>`);
+    expect(result.stylesheet).toContain('<xsl:if test="number($v1) = number($v1) and number($v1) &gt;= 0">');
+    expect(result.stylesheet).toContain(`<xsl:if test="(/*[local-name()='order']/*[local-name()='total'] &gt; 100)">`);
+    expect(result.stylesheet).toContain(`<xsl:for-each select="/*[local-name()='order']/*[local-name()='items']/*[local-name()='item']">`);
+    expect(result.stylesheet).toContain(`<xsl:for-each select="*[local-name()='sku']">`);
+    // 속성은 같은 요소의 텍스트보다 먼저 출력
+    expect(result.stylesheet.indexOf('name="currency"')).toBeLessThan(result.stylesheet.indexOf('number($v0)'));
+  });
+
+  it('옮길 수 없는 규칙은 제외하고 근사 변환은 경고로 남겨야 함', () => {
+    const rules: AdvancedMappingRule[] = [
+      { id: 'name', type: 'transformation', sourcePath: '/order/name', targetPath: '/out/name', transformation: 'trim' },
+      { id: 'parts', type: 'transformation', sourcePath: '/order/tags', targetPath: '/out/tags', transformation: 'split(value, ",")' },
+      { id: 'code', type: 'element', sourcePath: '/order/code', targetPath: '/out/code', validation: { type: 'regex', pattern: '^[A-Z]+$' } },
+      { id: 'rot', type: 'transformation', sourcePath: '/order/code', targetPath: '/out/rot', transformation: 'rot13' }
+    ];
+
+    const result = new XsltExporter().export(rules);
+
+    expect(result.skippedRules).toEqual(['parts', 'rot']);
+    expect(result.warnings.map(warning => warning.ruleId)).toEqual(['name', 'parts', 'code', 'rot']);
+    expect(result.warnings[3]!.message).toBe('지원하지 않는 변환입니다: rot13');
+    expect(result.stylesheet).toContain('<out>');
+    expect(result.stylesheet).not.toContain('<tags>');
+  });
+});
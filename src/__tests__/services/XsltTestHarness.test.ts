@@ -0,0 +1,84 @@
+/**
+ * XsltTestHarness 단위 테스트 (내보낸 XSLT를 실행해 엔진 결과와 비교)
+ */
+
+import { XsltTestHarness } from '../../services/mapping/XsltTestHarness';
+import { XsltExporter } from '../../services/mapping/XsltExporter';
+import { MappingEngine } from '../../services/mapping/MappingEngine';
+import { AdvancedMappingRule, TransformationRule } from '../../services/messageMappingService';
+import { Logger } from '../../core/logging/Logger';
+
+// Logger 모킹
+jest.mock('../../core/logging/Logger');
+
+const orderXml = `<?xml version="1.0"?>
+<ns:order xmlns:ns="urn:orders" id="A-1">
+  <ns:customer><ns:name> kim </ns:name><ns:tier>G</ns:tier></ns:customer>
+  <ns:total currency="KRW">1500</ns:total>
+  <ns:items><ns:item><ns:sku>p-1</ns:sku></ns:item><ns:item><ns:sku>p-2</ns:sku></ns:item></ns:items>
+</ns:order>`;
+
+const transformations: TransformationRule[] = [
+  { id: 't1', name: 'tierName', description: '', function: 'map', parameters: { values: { G: 'GOLD' } } }
+];
+
+describe('XsltTestHarness', () => {
+  let harness: XsltTestHarness;
+  let engine: MappingEngine;
+
+  beforeEach(() => {
+    const mockLogger = {
+      info: jest.fn(),
+      error: jest.fn(),
+      warn: jest.fn(),
+      debug: jest.fn()
+    };
+    (Logger.getInstance as jest.Mock).mockReturnValue(mockLogger);
+
+    harness = new XsltTestHarness();
+    engine = new MappingEngine();
+  });
+
+  const run = async (rules: AdvancedMappingRule[]) => {
+    const options = { sourceFormat: 'xml' as const, targetFormat: 'xml' as const, namespace: 'urn:invoices' };
+    const exported = new XsltExporter().export(rules, transformations, options);
+    const execution = await engine.execute(orderXml, rules, transformations, options);
+    return harness.compare(exported.stylesheet, orderXml, execution.output);
+  };
+
+  it('내보낸 XSLT가 엔진과 같은 XML을 만들어야 함', async () => {
+    const result = await run([
+      { id: 'id', type: 'attribute', sourcePath: '/order/@id', targetPath: '/invoice/id' },
+      { id: 'name', type: 'transformation', sourcePath: '/order/customer/name', targetPath: '/invoice/customer', transformation: 'trim|uppercase' },
+      { id: 'tier', type: 'transformation', sourcePath: '/order/customer/tier', targetPath: '/invoice/tier', transformation: 'tierName' },
+      { id: 'channel', type: 'element', sourcePath: '/order/channel', targetPath: '/invoice/channel', defaultValue: 'WEB' },
+      { id: 'total', type: 'dataType', sourcePath: '/order/total', targetPath: '/invoice/amount', transformation: 'number' },
+      { id: 'currency', type: 'attribute', sourcePath: '/order/total/@currency', targetPath: '/invoice/amount/@currency', condition: 'order.total > 100' },
+      { id: 'skus', type: 'element', sourcePath: '/order/items/item[*]/sku', targetPath: '/invoice/lines[*]/code' }
+    ]);
+
+    expect(result.differences).toEqual([]);
+    expect(result.processor).toMatchObject({ name: 'xslt-subset-emulator', conforming: false });
+    expect(result.matches).toBe(true);
+    expect(result.xsltOutput).toContain('<invoice xmlns="urn:invoices" id="A-1">');
+    expect(result.xsltOutput).toContain('<amount currency="KRW">1500</amount>');
+  });
+
+  it('XSLT로 옮기지 못한 검증은 차이로 보고해야 함', async () => {
+    const result = await run([
+      { id: 'id', type: 'attribute', sourcePath: '/order/@id', targetPath: '/invoice/id' },
+      { id: 'memo', type: 'element', sourcePath: '/order/customer/tier', targetPath: '/invoice/memo', validation: { type: 'regex', pattern: '^[0-9]+$' } }
+    ]);
+
+    expect(result.matches).toBe(false);
+    expect(result.differences).toEqual(['/invoice/memo: 엔진 결과에 없음']);
+  });
+
+  it('지원하지 않는 XSLT 명령은 거부해야 함', () => {
+    const stylesheet = `<xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+  <xsl:template match="/"><out><xsl:apply-templates/></out></xsl:template>
+</xsl:stylesheet>`;
+
+    expect(() => harness.transform(stylesheet, orderXml)).toThrow('지원하지 않는 XSLT 명령입니다: xsl:apply-templates');
+  });
+});
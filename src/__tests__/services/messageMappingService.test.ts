@@ -1,5 +1,12 @@
 /// <reference types="jest" />
+import * as yaml from "js-yaml";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { FileMappingStore } from "../../services/mapping/store/FileMappingStore";
+import { InMemoryMappingStore } from "../../services/mapping/store/InMemoryMappingStore";
 import { MessageMappingService, Configuration, AdvancedMappingRule, TransformationRule, CollaborationData } from "../../services/messageMappingService";
+import { InternalServerError, ValidationError } from "../../types/errors";
 
 // Mock logger
 const mockLogger = {
@@ -9,8 +16,9 @@ const mockLogger = {
   debug: jest.fn()
 };
 
+// Loaded by SchemaValidationService before mockLogger is initialized; the service itself gets mockLogger
 jest.mock("../../utils/logger", () => ({
-  logger: mockLogger
+  logger: { info: jest.fn(), error: jest.fn(), warn: jest.fn(), debug: jest.fn() }
 }));
 
 describe("MessageMappingService", () => {
@@ -21,7 +29,7 @@ describe("MessageMappingService", () => {
   });
 
   describe("generateMapping", () => {
-    it("XML 설정으로 매핑을 생성해야 함", () => {
+    it("XML 설정으로 매핑을 생성해야 함", async () => {
       const config: Configuration = {
         messageType: "XML",
         dataType: "JSON",
@@ -34,7 +42,7 @@ describe("MessageMappingService", () => {
       };
 
       const source = '{"name": "test", "value": 123}';
-      const mapping = service.generateMapping(config, source);
+      const mapping = await service.generateMapping(config, source);
 
       expect(mapping).toMatchObject({
         id: expect.any(String),
@@ -55,7 +63,7 @@ describe("MessageMappingService", () => {
       expect(mapping.target).toContain("</testRoot>");
     });
 
-    it("JSON 설정으로 매핑을 생성해야 함", () => {
+    it("JSON 설정으로 매핑을 생성해야 함", async () => {
       const config: Configuration = {
         messageType: "JSON",
         dataType: "XML",
@@ -68,14 +76,14 @@ describe("MessageMappingService", () => {
       };
 
       const source = "<root><item>test</item></root>";
-      const mapping = service.generateMapping(config, source);
+      const mapping = await service.generateMapping(config, source);
 
       expect(mapping.target).toContain("\"root\": \"jsonRoot\"");
       expect(mapping.target).toContain("\"version\": \"2.0\"");
       expect(mapping.target).toContain("\"transformed\": true");
     });
 
-    it("YAML 설정으로 매핑을 생성해야 함", () => {
+    it("YAML 설정으로 매핑을 생성해야 함", async () => {
       const config: Configuration = {
         messageType: "YAML",
         dataType: "JSON",
@@ -88,15 +96,93 @@ describe("MessageMappingService", () => {
       };
 
       const source = '{"test": "yaml"}';
-      const mapping = service.generateMapping(config, source);
+      const mapping = await service.generateMapping(config, source);
 
-      expect(mapping.target).toContain("---");
-      expect(mapping.target).toContain("root: \"yamlRoot\"");
-      expect(mapping.target).toContain("namespace: \"yaml:ns\"");
-      expect(mapping.target).toContain("transformed: true");
+      expect(mapping.target.startsWith("---\n")).toBe(true);
+      expect(yaml.load(mapping.target)).toEqual({
+        root: "yamlRoot",
+        namespace: "yaml:ns",
+        encoding: "UTF-8",
+        version: "1.0",
+        data: { test: "yaml" },
+        statement: "yaml statement",
+        transformed: true
+      });
+      expect(mapping.metadata.validationStatus).toBe(true);
+    });
+
+    it("XML 이름으로 쓸 수 없는 키나 루트 요소는 ValidationError로 거부해야 함", async () => {
+      const base: Configuration = {
+        messageType: "XML",
+        dataType: "JSON",
+        rootElement: "order",
+        namespace: "urn:\"quoted\"",
+        encoding: "UTF-8",
+        version: "1.0",
+        statement: "",
+        testData: null
+      };
+
+      const valid = await service.generateMapping(base, JSON.stringify({ "품목-코드": "A", _id: 1 }));
+      expect(valid.target).toContain("<order xmlns=\"urn:&quot;quoted&quot;\">");
+      expect(valid.target).toContain("<품목-코드>");
+
+      for (const key of ["a><script>x</script><b", "1st", "a b", "ns:item", ""]) {
+        await expect(service.generateMapping(base, JSON.stringify({ [key]: "x" }))).rejects.toThrow(ValidationError);
+      }
+      await expect(service.generateMapping({ ...base, rootElement: "order id=\"1\"" }, "{}"))
+        .rejects.toThrow("Cannot use \"order id=\"1\"\" as an XML element name");
+      expect(service.getAllMappings()).toHaveLength(1);
+    });
+
+    it("YAML 원본을 파싱해 JSON/XML/YAML 대상으로 변환해야 함", async () => {
+      const base: Configuration = {
+        messageType: "JSON",
+        dataType: "YAML",
+        rootElement: "order",
+        namespace: "",
+        encoding: "UTF-8",
+        version: "1.0",
+        statement: "",
+        testData: null
+      };
+      const source = "id: \"007\"\nnote: |\n  first line\n  second & last\nitems:\n  - sku: A\n  - sku: B\n";
+
+      const json = JSON.parse((await service.generateMapping(base, source)).target);
+      expect(json.data).toEqual({ id: "007", note: "first line\nsecond & last\n", items: [{ sku: "A" }, { sku: "B" }] });
+
+      const xml = await service.generateMapping({ ...base, messageType: "XML" }, source);
+      expect(xml.target).toContain("second &amp; last");
+      expect(xml.target).toContain("<item index=\"1\">\n      <sku>\n        B\n      </sku>\n    </item>");
+      expect(xml.metadata.validationStatus).toBe(true);
+
+      const copy = await service.generateMapping({ ...base, messageType: "YAML" }, source);
+      expect((yaml.load(copy.target) as any).data).toEqual(json.data);
+    });
+
+    it("XML/JSON 원본을 YAML 대상으로 변환하고 잘못된 원본은 오류로 남겨야 함", async () => {
+      const base: Configuration = {
+        messageType: "YAML",
+        dataType: "XML",
+        rootElement: "root",
+        namespace: "",
+        encoding: "UTF-8",
+        version: "1.0",
+        statement: "",
+        testData: null
+      };
+
+      const fromXml = await service.generateMapping(base, "<order id=\"1\"><line>a</line><line>b</line></order>");
+      expect((yaml.load(fromXml.target) as any).data).toEqual({ order: { $: { id: "1" }, line: ["a", "b"] } });
+
+      const fromJson = await service.generateMapping({ ...base, dataType: "JSON" }, "{\n  \"text\": \"a: b\",\n  \"flag\": \"yes\"\n}");
+      expect((yaml.load(fromJson.target) as any).data).toEqual({ text: "a: b", flag: "yes" });
+
+      const invalid = await service.generateMapping({ ...base, dataType: "YAML" }, "a: [1, 2");
+      expect((yaml.load(invalid.target) as any).error).toBe("Invalid YAML source");
     });
 
-    it("잘못된 JSON 소스를 안전하게 처리해야 함", () => {
+    it("잘못된 JSON 소스를 안전하게 처리해야 함", async () => {
       const config: Configuration = {
         messageType: "XML",
         dataType: "JSON",
@@ -109,7 +195,7 @@ describe("MessageMappingService", () => {
       };
 
       const invalidJson = '{"invalid": json}';
-      const mapping = service.generateMapping(config, invalidJson);
+      const mapping = await service.generateMapping(config, invalidJson);
 
       expect(mapping.target).toContain("<error type=\"invalid-json\">");
       expect(mapping.target).toContain("Invalid JSON format");
@@ -118,7 +204,7 @@ describe("MessageMappingService", () => {
   });
 
   describe("getMapping", () => {
-    it("존재하는 매핑을 반환해야 함", () => {
+    it("존재하는 매핑을 반환해야 함", async () => {
       const config: Configuration = {
         messageType: "XML",
         dataType: "JSON",
@@ -130,7 +216,7 @@ describe("MessageMappingService", () => {
         testData: null
       };
 
-      const mapping = service.generateMapping(config, "{}");
+      const mapping = await service.generateMapping(config, "{}");
       const retrieved = service.getMapping(mapping.id);
 
       expect(retrieved).toEqual(mapping);
@@ -143,7 +229,7 @@ describe("MessageMappingService", () => {
   });
 
   describe("clearMapping", () => {
-    it("존재하는 매핑을 삭제해야 함", () => {
+    it("존재하는 매핑을 삭제해야 함", async () => {
       const config: Configuration = {
         messageType: "XML",
         dataType: "JSON",
@@ -155,21 +241,21 @@ describe("MessageMappingService", () => {
         testData: null
       };
 
-      const mapping = service.generateMapping(config, "{}");
-      const deleted = service.clearMapping(mapping.id);
+      const mapping = await service.generateMapping(config, "{}");
+      const deleted = await service.clearMapping(mapping.id);
 
       expect(deleted).toBe(true);
       expect(service.getMapping(mapping.id)).toBeUndefined();
     });
 
-    it("존재하지 않는 매핑 삭제 시 false를 반환해야 함", () => {
-      const deleted = service.clearMapping("nonexistent-id");
+    it("존재하지 않는 매핑 삭제 시 false를 반환해야 함", async () => {
+      const deleted = await service.clearMapping("nonexistent-id");
       expect(deleted).toBe(false);
     });
   });
 
   describe("getAllMappings", () => {
-    it("모든 매핑을 반환해야 함", () => {
+    it("모든 매핑을 반환해야 함", async () => {
       const config: Configuration = {
         messageType: "XML",
         dataType: "JSON",
@@ -181,8 +267,8 @@ describe("MessageMappingService", () => {
         testData: null
       };
 
-      const mapping1 = service.generateMapping(config, "{}");
-      const mapping2 = service.generateMapping(config, "[]");
+      const mapping1 = await service.generateMapping(config, "{}");
+      const mapping2 = await service.generateMapping(config, "[]");
 
       const allMappings = service.getAllMappings();
       expect(allMappings).toHaveLength(2);
@@ -197,7 +283,7 @@ describe("MessageMappingService", () => {
   });
 
   describe("Advanced Mapping Rules", () => {
-    it("고급 매핑 규칙을 생성하고 조회해야 함", () => {
+    it("고급 매핑 규칙을 생성하고 조회해야 함", async () => {
       const mappingId = "test-mapping";
       const rules: AdvancedMappingRule[] = [
         {
@@ -217,7 +303,7 @@ describe("MessageMappingService", () => {
         }
       ];
 
-      service.createAdvancedMappingRules(mappingId, rules);
+      await service.createAdvancedMappingRules(mappingId, rules);
       const retrievedRules = service.getAdvancedMappingRules(mappingId);
 
       expect(retrievedRules).toEqual(rules);
@@ -229,8 +315,322 @@ describe("MessageMappingService", () => {
     });
   });
 
+  describe("Rule Execution", () => {
+    it("저장된 규칙과 매핑 설정으로 원본을 변환해야 함", async () => {
+      const mapping = await service.generateMapping({
+        messageType: "XML",
+        dataType: "JSON",
+        rootElement: "customer",
+        namespace: "",
+        encoding: "UTF-8",
+        version: "1.0",
+        statement: "",
+        testData: null
+      }, "{}");
+      await service.createAdvancedMappingRules(mapping.id, [
+        { id: "rule1", type: "element", sourcePath: "$.name", targetPath: "/customer/fullName", transformation: "upperName" }
+      ]);
+      await service.createTransformationRule(mapping.id, {
+        id: "t1", name: "upperName", description: "", function: "uppercase", parameters: {}
+      });
+
+      const result = await service.executeMapping(mapping.id, "{\"name\":\"kim\"}");
+
+      expect(result?.success).toBe(true);
+      expect(result?.format).toBe("xml");
+      expect(result?.output).toContain("<fullName>KIM</fullName>");
+      expect(result?.trace[0]).toMatchObject({ ruleId: "rule1", status: "applied", transformations: ["upperName"] });
+    });
+
+    it("매핑과 규칙이 모두 없으면 undefined를 반환해야 함", async () => {
+      expect(await service.executeMapping("nonexistent", "{}")).toBeUndefined();
+    });
+
+    it("규칙의 식 문법 오류를 위치와 함께 찾아야 함", () => {
+      const errors = service.findRuleExpressionErrors([
+        { id: "r1", type: "condition", sourcePath: "$.a", targetPath: "$.b", condition: "total >= 10 &&" },
+        { id: "r2", type: "transformation", sourcePath: "$.a", targetPath: "$.b", transformation: "trim|uppercase" },
+        { id: "r3", type: "element", sourcePath: "$.a", targetPath: "$.b", validation: { type: "custom", function: "value >" } }
+      ], [
+        { id: "t1", name: "label", description: "", function: "concat(value, ", parameters: {} }
+      ]);
+
+      expect(errors.map(error => `${error.ruleId}:${error.field}:${error.position}`)).toEqual([
+        "r1:condition:14", "r3:validation.function:7", "t1:function:14"
+      ]);
+    });
+
+    it("저장된 규칙을 매핑 설정의 네임스페이스로 XSLT로 내보내야 함", async () => {
+      const mapping = await service.generateMapping({
+        messageType: "XML",
+        dataType: "XML",
+        rootElement: "",
+        namespace: "urn:customers",
+        encoding: "UTF-8",
+        version: "1.0",
+        statement: "",
+        testData: null
+      }, "<customer/>");
+      await service.createAdvancedMappingRules(mapping.id, [
+        { id: "rule1", type: "element", sourcePath: "/customer/name", targetPath: "/person/fullName", transformation: "uppercase" }
+      ]);
+
+      const result = service.exportXslt(mapping.id);
+
+      expect(result?.skippedRules).toEqual([]);
+      expect(result?.stylesheet).toContain("<person xmlns=\"urn:customers\">");
+      expect(result?.stylesheet).toContain("<fullName><xsl:value-of select=\"$v1\"/></fullName>");
+      expect(service.exportXslt("nonexistent")).toBeUndefined();
+    });
+
+    it("JSON 변환으로 내보낸 명세를 실행하고 다른 매핑으로 가져와야 함", async () => {
+      await service.createAdvancedMappingRules("m1", [
+        { id: "rule1", type: "transformation", sourcePath: "$.customer.name", targetPath: "$.name", transformation: "upperName" },
+        { id: "rule2", type: "element", sourcePath: "$.channel", targetPath: "$.channel", defaultValue: "WEB" }
+      ]);
+      await service.createTransformationRule("m1", { id: "t1", name: "upperName", description: "", function: "uppercase", parameters: {} });
+
+      const exported = service.exportJsonTransform("m1");
+      expect(exported?.spec.jsonata).toContain("\"name\": ($v := $$.customer.name;");
+
+      const result = await service.executeJsonTransform(exported!.spec, { customer: { name: "kim" } });
+      expect(result.target).toEqual({ name: "KIM", channel: "WEB" });
+
+      const imported = await service.importJsonTransform("m2", exported!.spec);
+      expect(imported.errors).toEqual([]);
+      expect(service.getAdvancedMappingRules("m2")).toEqual(service.getAdvancedMappingRules("m1"));
+      expect(service.getTransformationRules("m2")).toEqual(service.getTransformationRules("m1"));
+    });
+
+    it("식 오류가 있는 명세는 가져오지 않아야 함", async () => {
+      const spec = {
+        format: "json-transform" as const,
+        version: 1 as const,
+        rules: [{ id: "r1", type: "condition" as const, sourcePath: "$.a", targetPath: "$.b", condition: "a >" }],
+        transformations: [],
+        jsonata: "{}"
+      };
+
+      const imported = await service.importJsonTransform("m3", spec);
+
+      expect(imported.errors.map(error => error.ruleId)).toEqual(["r1"]);
+      expect(service.getAdvancedMappingRules("m3")).toEqual([]);
+    });
+  });
+
+  describe("Mapping Suggestions", () => {
+    const field = (fieldName: string, dataType: string) => ({ fieldName, dataType, required: false, description: "" });
+    const sourceGrid = [[field("cust_nm", "string"), field("order_no", "string"), field("qty", "string")]];
+    const targetGrid = [[field("customerName", "string"), field("orderNumber", "string"), field("quantity", "integer")]];
+
+    it("제안을 수락하면 규칙으로 추가하고 이미 매핑된 대상은 다시 제안하지 않아야 함", async () => {
+      const suggestions = await service.suggestMappingRules("m1", sourceGrid, targetGrid);
+      expect(suggestions.map(suggestion => suggestion.targetPath)).toEqual(["$.customerName", "$.orderNumber", "$.quantity"]);
+      expect(suggestions[2]?.rule).toMatchObject({ type: "dataType", transformation: "integer" });
+
+      const rule = await service.acceptRuleSuggestion("m1", suggestions[0]!.id, { defaultValue: "N/A" });
+      expect(rule).toMatchObject({ sourcePath: "$.cust_nm", targetPath: "$.customerName", defaultValue: "N/A" });
+      expect(service.getAdvancedMappingRules("m1")).toEqual([rule]);
+      await expect(service.acceptRuleSuggestion("m1", suggestions[0]!.id)).rejects.toThrow("already accepted");
+
+      const again = await service.suggestMappingRules("m1", sourceGrid, targetGrid);
+      expect(again.map(suggestion => suggestion.targetPath)).toEqual(["$.orderNumber", "$.quantity"]);
+      expect(service.getRuleSuggestions("m1", "pending")).toEqual(again);
+      expect(service.getRuleSuggestions("m1", "accepted")).toHaveLength(1);
+    });
+
+    it("거절한 쌍은 다시 제안하지 않아야 함", async () => {
+      const [first] = await service.suggestMappingRules("m2", sourceGrid, targetGrid);
+
+      expect((await service.rejectRuleSuggestion("m2", first!.id))?.status).toBe("rejected");
+      expect(await service.rejectRuleSuggestion("m2", "unknown")).toBeUndefined();
+      expect((await service.suggestMappingRules("m2", sourceGrid, targetGrid)).map(suggestion => suggestion.targetPath))
+        .toEqual(["$.orderNumber", "$.quantity"]);
+      expect(service.getAdvancedMappingRules("m2")).toEqual([]);
+    });
+  });
+
+  describe("Mapping Test Cases", () => {
+    it("테스트 케이스를 저장하고 현재 규칙으로 실행해야 함", async () => {
+      await service.createAdvancedMappingRules("m1", [
+        { id: "name", type: "transformation", sourcePath: "$.customer.name", targetPath: "$.name", transformation: "uppercase" }
+      ]);
+      const passing = await service.addTestCase("m1", { name: "대문자", input: { customer: { name: "kim" } }, expectedOutput: { name: "KIM" } });
+      await service.addTestCase("m1", { id: "case-2", name: "누락", input: "{}", expectedOutput: "{\"name\": \"LEE\"}" });
+
+      await expect(service.addTestCase("m1", { id: "case-2", name: "중복", input: "{}" })).rejects.toThrow("already exists");
+      expect(service.getTestCases("m1").map(testCase => testCase.id)).toEqual([passing.id, "case-2"]);
+
+      const run = await service.runTestCases("m1");
+      expect(run).toMatchObject({ total: 2, passed: 1, failed: 1 });
+      expect(run?.results[1]?.differences).toEqual([{ path: "$.name", kind: "missing", expected: "LEE" }]);
+
+      await service.updateTestCase("m1", "case-2", { input: { customer: { name: "lee" } } });
+      expect((await service.runTestCases("m1", ["case-2"]))).toMatchObject({ total: 1, passed: 1 });
+
+      expect(await service.deleteTestCase("m1", "case-2")).toBe(true);
+      expect(await service.deleteTestCase("m1", "case-2")).toBe(false);
+      expect(await service.updateTestCase("m1", "case-2", { name: "x" })).toBeUndefined();
+      expect(await service.runTestCases("nonexistent")).toBeUndefined();
+    });
+  });
+
+  describe("Persistence", () => {
+    const config: Configuration = {
+      messageType: "JSON",
+      dataType: "JSON",
+      rootElement: "order",
+      namespace: "",
+      encoding: "UTF-8",
+      version: "1.0",
+      statement: "",
+      testData: {}
+    };
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), "mapping-store-"));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("저장소에 남긴 매핑, 규칙, 테스트 케이스, 협업 이력을 다시 시작해도 복원해야 함", async () => {
+      const first = new MessageMappingService(mockLogger, undefined, new FileMappingStore(directory));
+      const mapping = await first.generateMapping(config, '{"id": 1}');
+      await first.createAdvancedMappingRules("orders/v1", [
+        { id: "id", type: "element", sourcePath: "$.id", targetPath: "$.orderId" }
+      ]);
+      await first.addTestCase("orders/v1", { id: "case-1", name: "기본", input: { id: 1 } });
+      await first.addCollaborationEvent(mapping.id, {
+        userId: "u1", username: "kim", timestamp: new Date("2024-05-01T00:00:00Z"), action: "update", target: "rules", details: {}
+      });
+
+      const reopened = new MessageMappingService(mockLogger, undefined, new FileMappingStore(directory));
+      await reopened.ready();
+      expect(reopened.getMapping(mapping.id)?.metadata.createdAt).toEqual(mapping.metadata.createdAt);
+      expect(reopened.getAdvancedMappingRules("orders/v1")).toHaveLength(1);
+      expect(reopened.getTestCases("orders/v1").map(testCase => testCase.id)).toEqual(["case-1"]);
+      expect(reopened.getCollaborationHistory(mapping.id)[0]?.timestamp).toEqual(new Date("2024-05-01T00:00:00Z"));
+
+      expect(fs.readdirSync(directory).sort()).toEqual([`${mapping.id}.json`, "orders%2Fv1.json"]);
+
+      // 협업 이력이 남아 있으면 매핑만 지우고, 남은 데이터가 없으면 레코드도 삭제
+      await reopened.clearMapping(mapping.id);
+      await reopened.deleteTestCase("orders/v1", "case-1");
+      await reopened.createAdvancedMappingRules("orders/v1", []);
+      const restarted = new MessageMappingService(mockLogger, undefined, new FileMappingStore(directory));
+      await restarted.ready();
+      expect(restarted.getMapping(mapping.id)).toBeUndefined();
+      expect(fs.readdirSync(directory)).toEqual([`${mapping.id}.json`]);
+    });
+
+    it("검색 조건에 맞는 매핑을 최근 순으로 페이지 단위로 반환해야 함", async () => {
+      const ids: string[] = [];
+      for (const [index, suffix] of ["a", "b", "c"].entries()) {
+        const mapping = await service.generateMapping({ ...config, rootElement: `order-${suffix}` }, "{}");
+        mapping.metadata.createdAt = new Date(Date.UTC(2024, 0, index + 1));
+        ids.push(mapping.id);
+      }
+      await service.generateMapping({ ...config, rootElement: "invoice" }, "{}");
+
+      const result = service.listMappings({ search: "ORDER", page: 1, limit: 2 });
+      expect(result).toMatchObject({ total: 3, page: 1, limit: 2 });
+      expect(result.items.map(mapping => mapping.id)).toEqual([ids[2], ids[1]]);
+      expect(service.listMappings({ search: "order", page: 2, limit: 2 }).items.map(mapping => mapping.id)).toEqual([ids[0]]);
+    });
+
+    it("번들로 내보낸 매핑을 다른 서비스로 가져오고 ID 충돌은 덮어쓰기 옵션이 있을 때만 허용해야 함", async () => {
+      const mapping = await service.generateMapping(config, '{"id": 1}');
+      await service.createAdvancedMappingRules(mapping.id, [
+        { id: "id", type: "element", sourcePath: "$.id", targetPath: "$.orderId" }
+      ]);
+      await service.createTransformationRule("rules-only", { id: "t1", name: "upper", description: "", function: "uppercase", parameters: {} });
+
+      const bundle = service.exportBundle([mapping.id]);
+      expect(bundle).toMatchObject({ format: "message-mapping-bundle", version: 1 });
+      expect(bundle.mappings.map(item => item.id)).toEqual([mapping.id]);
+      expect(service.exportBundle().mappings).toHaveLength(2);
+      expect(() => service.exportBundle(["unknown"])).toThrow("Message mapping not found: unknown");
+
+      const store = new InMemoryMappingStore();
+      const target = new MessageMappingService(mockLogger, undefined, store);
+      expect(await target.importBundle(JSON.parse(JSON.stringify(bundle)))).toEqual({ imported: [mapping.id], overwritten: [] });
+      expect(target.getMapping(mapping.id)?.metadata.createdAt).toBeInstanceOf(Date);
+      expect(target.getAdvancedMappingRules(mapping.id)).toEqual(service.getAdvancedMappingRules(mapping.id));
+      expect((await store.loadAll()).map(record => record.id)).toEqual([mapping.id]);
+
+      await target.createAdvancedMappingRules(mapping.id, []);
+      await expect(target.importBundle(bundle)).rejects.toThrow(`Message mappings already exist: ${mapping.id}`);
+      expect((await target.importBundle(bundle, { overwrite: true })).overwritten).toEqual([mapping.id]);
+      expect(target.getAdvancedMappingRules(mapping.id)).toHaveLength(1);
+
+      await expect(target.importBundle({ ...bundle, version: 2 })).rejects.toThrow("Unsupported bundle version: 2");
+      await expect(target.importBundle({ ...bundle, mappings: [bundle.mappings[0]!, bundle.mappings[0]!] })).rejects
+        .toThrow("Duplicate mapping ID in bundle");
+    });
+
+    it("형식이 잘못된 번들은 ValidationError로 거부하고 아무것도 저장하지 않아야 함", async () => {
+      const mapping = await service.generateMapping(config, '{"id": 1}');
+      const bundle = service.exportBundle([mapping.id]);
+      const item = bundle.mappings[0]!;
+      const bundleOf = (changes: Record<string, any>) => ({ ...bundle, mappings: [{ ...item, ...changes }] });
+
+      const store = new InMemoryMappingStore();
+      const target = new MessageMappingService(mockLogger, undefined, store);
+      const noMetadata = { ...item.mapping!, metadata: undefined };
+      const badDate = { ...item.mapping!, metadata: { ...item.mapping!.metadata, createdAt: "yesterday" } };
+
+      await expect(target.importBundle(bundleOf({ mapping: noMetadata }))).rejects
+        .toThrow("mappings[0]: mapping.metadata is required");
+      await expect(target.importBundle(bundleOf({ mapping: badDate }))).rejects
+        .toThrow("mappings[0]: mapping.metadata.createdAt must be a valid date");
+      await expect(target.importBundle(bundleOf({ collaboration: [{ userId: "u1", timestamp: null }] }))).rejects
+        .toThrow("mappings[0]: collaboration[0].timestamp must be a valid date");
+      await expect(target.importBundle(bundleOf({ rules: "none" }))).rejects.toBeInstanceOf(ValidationError);
+      expect(await store.loadAll()).toEqual([]);
+    });
+
+    it("가져오는 중 저장에 실패하면 메모리와 저장소를 가져오기 전 상태로 되돌려야 함", async () => {
+      const first = await service.generateMapping(config, '{"id": 1}');
+      const second = await service.generateMapping(config, '{"id": 2}');
+      const bundle = service.exportBundle([first.id, second.id]);
+
+      const store = new InMemoryMappingStore();
+      const target = new MessageMappingService(mockLogger, undefined, store);
+      await target.importBundle(service.exportBundle([first.id]));
+      await target.createAdvancedMappingRules(first.id, [
+        { id: "id", type: "element", sourcePath: "$.id", targetPath: "$.orderId" }
+      ]);
+
+      const save = store.save.bind(store);
+      jest.spyOn(store, "save").mockImplementation(async record => {
+        if (record.id === second.id) {
+          throw new Error("disk full");
+        }
+        await save(record);
+      });
+
+      await expect(target.importBundle(bundle, { overwrite: true })).rejects.toThrow("disk full");
+      expect(target.getMapping(second.id)).toBeUndefined();
+      expect(target.getAdvancedMappingRules(first.id)).toHaveLength(1);
+      expect((await store.loadAll()).map(record => [record.id, record.rules.length])).toEqual([[first.id, 1]]);
+    });
+
+    it("저장소를 읽지 못하면 ready()와 변경 요청이 InternalServerError로 실패해야 함", async () => {
+      const store = new InMemoryMappingStore();
+      jest.spyOn(store, "loadAll").mockRejectedValue(new Error("EACCES"));
+      const target = new MessageMappingService(mockLogger, undefined, store);
+
+      await expect(target.ready()).rejects.toBeInstanceOf(InternalServerError);
+      await expect(target.generateMapping(config, "{}")).rejects.toThrow("Stored message mappings could not be loaded");
+      expect(mockLogger.error).toHaveBeenCalledWith("Failed to load stored message mappings", expect.anything());
+    });
+  });
+
   describe("Transformation Rules", () => {
-    it("변환 규칙을 생성하고 조회해야 함", () => {
+    it("변환 규칙을 생성하고 조회해야 함", async () => {
       const mappingId = "test-mapping";
       const rule: TransformationRule = {
         id: "transform1",
@@ -240,14 +640,14 @@ describe("MessageMappingService", () => {
         parameters: { preserveSpaces: true }
       };
 
-      service.createTransformationRule(mappingId, rule);
+      await service.createTransformationRule(mappingId, rule);
       const rules = service.getTransformationRules(mappingId);
 
       expect(rules).toHaveLength(1);
       expect(rules[0]).toEqual(rule);
     });
 
-    it("여러 변환 규칙을 추가할 수 있어야 함", () => {
+    it("여러 변환 규칙을 추가할 수 있어야 함", async () => {
       const mappingId = "test-mapping";
       const rule1: TransformationRule = {
         id: "transform1",
@@ -264,8 +664,8 @@ describe("MessageMappingService", () => {
         parameters: {}
       };
 
-      service.createTransformationRule(mappingId, rule1);
-      service.createTransformationRule(mappingId, rule2);
+      await service.createTransformationRule(mappingId, rule1);
+      await service.createTransformationRule(mappingId, rule2);
 
       const rules = service.getTransformationRules(mappingId);
       expect(rules).toHaveLength(2);
@@ -275,7 +675,7 @@ describe("MessageMappingService", () => {
   });
 
   describe("Collaboration Features", () => {
-    it("협업 이벤트를 추가하고 조회해야 함", () => {
+    it("협업 이벤트를 추가하고 조회해야 함", async () => {
       const mappingId = "test-mapping";
       const event: CollaborationData = {
         userId: "user1",
@@ -286,14 +686,14 @@ describe("MessageMappingService", () => {
         details: { field: "value" }
       };
 
-      service.addCollaborationEvent(mappingId, event);
+      await service.addCollaborationEvent(mappingId, event);
       const history = service.getCollaborationHistory(mappingId);
 
       expect(history).toHaveLength(1);
       expect(history[0]).toEqual(event);
     });
 
-    it("여러 협업 이벤트를 순서대로 저장해야 함", () => {
+    it("여러 협업 이벤트를 순서대로 저장해야 함", async () => {
       const mappingId = "test-mapping";
       const event1: CollaborationData = {
         userId: "user1",
@@ -312,8 +712,8 @@ describe("MessageMappingService", () => {
         details: {}
       };
 
-      service.addCollaborationEvent(mappingId, event1);
-      service.addCollaborationEvent(mappingId, event2);
+      await service.addCollaborationEvent(mappingId, event1);
+      await service.addCollaborationEvent(mappingId, event2);
 
       const history = service.getCollaborationHistory(mappingId);
       expect(history).toHaveLength(2);
@@ -347,6 +747,21 @@ describe("MessageMappingService", () => {
       expect(typeof isValid).toBe("boolean");
     });
 
+    it("스키마에 맞지 않는 JSON/YAML 콘텐츠는 false를 반환해야 함", () => {
+      const schemaContent = '{"type": "object", "properties": {"value": {"type": "number"}}, "required": ["value"]}';
+
+      expect(service.validateSchema('{"value": 1}', "json", schemaContent)).toBe(true);
+      expect(service.validateSchema('{"value": "one"}', "json", schemaContent)).toBe(false);
+      expect(service.validateSchema("value: 1", "yaml", schemaContent)).toBe(true);
+      expect(service.validateSchema("name: test", "yaml", "type: object\nrequired: [value]")).toBe(false);
+    });
+
+    it("스칼라 YAML 문서는 다시 JSON으로 파싱하지 않고 그 값으로 검증해야 함", () => {
+      expect(service.validateSchema("hello", "yaml", "type: string")).toBe(true);
+      expect(service.validateSchema("'{\"a\":1}'", "yaml", "type: string")).toBe(true);
+      expect(service.validateSchema("'{\"a\":1}'", "yaml", "type: object")).toBe(false);
+    });
+
     it("지원되지 않는 스키마 타입에 대해 false를 반환해야 함", () => {
       const content = "test content";
       const schemaContent = "test schema";
@@ -357,7 +772,7 @@ describe("MessageMappingService", () => {
   });
 
   describe("Metadata Generation", () => {
-    it("XML 콘텐츠의 노드 수를 정확히 계산해야 함", () => {
+    it("XML 콘텐츠의 노드 수를 정확히 계산해야 함", async () => {
       const config: Configuration = {
         messageType: "XML",
         dataType: "JSON",
@@ -370,14 +785,14 @@ describe("MessageMappingService", () => {
       };
 
       const source = '{"item1": "value1", "item2": {"nested": "value2"}}';
-      const mapping = service.generateMapping(config, source);
+      const mapping = await service.generateMapping(config, source);
 
       expect(mapping.metadata.nodeCount).toBeGreaterThan(0);
       expect(mapping.metadata.xmlSize).toBeGreaterThan(0);
       expect(mapping.metadata.processingTime).toBeGreaterThanOrEqual(0);
     });
 
-    it("JSON 콘텐츠의 노드 수를 정확히 계산해야 함", () => {
+    it("JSON 콘텐츠의 노드 수를 정확히 계산해야 함", async () => {
       const config: Configuration = {
         messageType: "JSON",
         dataType: "XML",
@@ -390,12 +805,12 @@ describe("MessageMappingService", () => {
       };
 
       const source = "<root><item1>value1</item1><item2><nested>value2</nested></item2></root>";
-      const mapping = service.generateMapping(config, source);
+      const mapping = await service.generateMapping(config, source);
 
       expect(mapping.metadata.nodeCount).toBeGreaterThan(0);
     });
 
-    it("검증 상태를 올바르게 설정해야 함", () => {
+    it("검증 상태를 올바르게 설정해야 함", async () => {
       const config: Configuration = {
         messageType: "XML",
         dataType: "JSON",
@@ -408,7 +823,7 @@ describe("MessageMappingService", () => {
       };
 
       const source = '{"valid": "json"}';
-      const mapping = service.generateMapping(config, source);
+      const mapping = await service.generateMapping(config, source);
 
       expect(typeof mapping.metadata.validationStatus).toBe("boolean");
     });
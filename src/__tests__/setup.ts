@@ -5,6 +5,9 @@
 process.env.NODE_ENV = "test";
 process.env.LOG_LEVEL = "error"; // 테스트 중 로그 출력 최소화
 process.env.PORT = "0"; // 랜덤 포트 사용
+process.env.MAPPING_STORAGE_DRIVER = "memory"; // 테스트 중 매핑을 파일로 남기지 않음
+process.env.LOOKUP_STORAGE_DRIVER = "memory"; // 룩업 테이블도 마찬가지
+process.env.SCHEMA_STORAGE_DRIVER = "memory"; // 스키마 저장소도 마찬가지
 
 // 타임아웃 설정
 jest.setTimeout(30000); // 통합 테스트를 위해 증가
@@ -10,18 +10,35 @@ import { legacyErrorHandler as errorHandler } from "./middleware/errorHandler";
 import { uploadRoutes } from "./routes/upload";
 import { healthRoutes } from "./routes/health";
 import messageMappingRoutes from "./routes/messageMapping";
+import lookupTableRoutes from "./routes/lookupTables";
 import mcpRoutes from "./mcp/mcpController";
-import collaborationRoutes from "./routes/collaboration";
+import collaborationRoutes, { initializeCollaborationService } from "./routes/collaboration";
 import schemaValidationRoutes from "./routes/schemaValidation";
 import performanceMonitoringRoutes from "./routes/performanceMonitoring";
 import gridRoutes from "./routes/grid";
 import { schemaConversionRoutes } from "./routes/schemaConversion";
 import { apiV2Router } from "./routes/v2/index";
+import { initializeCollaborationV2Service } from "./routes/v2/collaboration";
+import { initializeImpactCollaborationService } from "./routes/v2/impact";
 import { compatibilityRouter } from "./routes/v1/compatibility";
+import { CollaborationService } from "./services/CollaborationService";
+import { Logger } from "./core/logging/Logger";
+
+export interface AppOptions {
+  // 협업 라우터와 영향 분석이 함께 쓰는 협업 서비스 (없으면 새로 생성)
+  collaborationService?: CollaborationService;
+}
 
 // 앱 생성 함수 (테스트용)
-export function createApp(): express.Application {
+export function createApp(options: AppOptions = {}): express.Application {
   const app: express.Application = express();
+
+  // 협업 서비스 연결 (Socket.IO는 서버를 시작할 때 initialize로 연결)
+  const collaborationService = options.collaborationService
+    ?? new CollaborationService(new Logger("CollaborationService"));
+  initializeCollaborationService(collaborationService);
+  initializeCollaborationV2Service(collaborationService);
+  initializeImpactCollaborationService(collaborationService);
   
   // Heroku에서 프록시 뒤에서 실행되므로 trust proxy 설정
   app.set("trust proxy", 1);
@@ -110,6 +127,7 @@ export function createApp(): express.Application {
   app.use("/api/health", healthRoutes);
   app.use("/api/upload", uploadRoutes);
   app.use("/api/message-mapping", messageMappingRoutes);
+  app.use("/api/lookup-tables", lookupTableRoutes);
   app.use("/api/mcp", mcpRoutes);
   app.use("/api/collaboration", collaborationRoutes);
   app.use("/api/schema-validation", schemaValidationRoutes);
@@ -18,6 +18,7 @@ import {
 } from '../types/grid';
 import { GridValidationService } from '../services/GridValidationService';
 import { GridAdvancedFeatures } from '../services/GridAdvancedFeatures';
+import { detectDataType } from '../services/inference/dataTypeDetection';
 import { GridAdvancedUI } from './GridAdvancedUI';
 import { Logger } from '../core/logging/Logger';
 
@@ -761,7 +762,7 @@ export class GridComponent {
       
       if (columnData.length === 0) {continue;}
 
-      const detectedType = this.detectDataType(columnData);
+      const detectedType = detectDataType(columnData);
       
       if (detectedType !== columns[col].type) {
         columns[col].type = detectedType;
@@ -777,50 +778,6 @@ export class GridComponent {
     this.showFeedback('데이터 타입이 자동으로 감지되었습니다.');
   }
 
-  /**
-   * 데이터 타입 감지
-   */
-  private detectDataType(values: any[]): DataType {
-    const sampleSize = Math.min(values.length, 10);
-    const samples = values.slice(0, sampleSize);
-
-    // 불린 타입 체크
-    if (samples.every(val => typeof val === 'boolean' || ['true', 'false', '1', '0'].includes(String(val).toLowerCase()))) {
-      return DataType.BOOLEAN;
-    }
-
-    // 숫자 타입 체크
-    if (samples.every(val => !isNaN(Number(val)) && isFinite(Number(val)))) {
-      return DataType.NUMBER;
-    }
-
-    // 날짜 타입 체크
-    if (samples.every(val => !isNaN(Date.parse(String(val))))) {
-      return DataType.DATE;
-    }
-
-    // 이메일 타입 체크
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (samples.every(val => emailRegex.test(String(val)))) {
-      return DataType.EMAIL;
-    }
-
-    // URL 타입 체크
-    if (samples.every(val => {
-      try {
-        new URL(String(val));
-        return true;
-      } catch {
-        return false;
-      }
-    })) {
-      return DataType.URL;
-    }
-
-    // 기본값: 텍스트
-    return DataType.TEXT;
-  }
-
   /**
    * 셀 수준 검증 규칙 설정
    */
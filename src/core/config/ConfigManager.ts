@@ -46,6 +46,18 @@ const envSchema = z.object({
   // 데이터베이스 설정 (향후 확장용)
   DATABASE_URL: z.string().optional(),
   REDIS_URL: z.string().optional(),
+
+  // 스키마 저장소 설정
+  SCHEMA_STORAGE_DRIVER: z.enum(['file', 'memory']).default('file'),
+  SCHEMA_STORAGE_DIR: z.string().default('./data/schemas'),
+
+  // 메시지 매핑 저장소 설정
+  MAPPING_STORAGE_DRIVER: z.enum(['file', 'memory']).default('file'),
+  MAPPING_STORAGE_DIR: z.string().default('./data/mappings'),
+
+  // 룩업 테이블 저장소 설정
+  LOOKUP_STORAGE_DRIVER: z.enum(['file', 'memory']).default('file'),
+  LOOKUP_STORAGE_DIR: z.string().default('./data/lookup-tables'),
   
   // 외부 서비스 설정
   EXTERNAL_API_TIMEOUT: z.string().transform(Number).default('5000'), // 5초
@@ -141,6 +153,36 @@ export class ConfigManager {
     };
   }
 
+  /**
+   * 스키마 저장소 설정 반환
+   */
+  public getSchemaStorageConfig() {
+    return {
+      driver: this.config.SCHEMA_STORAGE_DRIVER,
+      directory: this.config.SCHEMA_STORAGE_DIR
+    };
+  }
+
+  /**
+   * 메시지 매핑 저장소 설정 반환
+   */
+  public getMappingStorageConfig() {
+    return {
+      driver: this.config.MAPPING_STORAGE_DRIVER,
+      directory: this.config.MAPPING_STORAGE_DIR
+    };
+  }
+
+  /**
+   * 룩업 테이블 저장소 설정 반환
+   */
+  public getLookupStorageConfig() {
+    return {
+      driver: this.config.LOOKUP_STORAGE_DRIVER,
+      directory: this.config.LOOKUP_STORAGE_DIR
+    };
+  }
+
   /**
    * Rate Limiting 설정 반환
    */
@@ -65,6 +65,38 @@ export const writeTextFile = async (filePath: string, content: string): Promise<
   }
 };
 
+/**
+ * JSON 파일 원자적 쓰기 (저장소 어댑터용)
+ * 같은 디렉토리의 임시 파일에 쓴 뒤 옮겨 읽는 쪽이 부분 기록을 보지 않게 함
+ * exclusive면 링크로 옮겨 대상이 이미 있을 때 덮어쓰지 않고 false 반환
+ */
+export const writeJsonAtomic = async (
+  filePath: string,
+  data: unknown,
+  options: { exclusive?: boolean } = {}
+): Promise<boolean> => {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${generateUuid()}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+
+  if (!options.exclusive) {
+    await fs.rename(tempPath, filePath);
+    return true;
+  }
+
+  try {
+    await fs.link(tempPath, filePath);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      return false;
+    }
+    throw error;
+  } finally {
+    await fs.unlink(tempPath);
+  }
+};
+
 /**
  * 파일 읽기 (바이너리)
  */
@@ -1,5 +1,7 @@
 import { logger } from "../utils/logger";
 import { MessageMappingService } from "../services/messageMappingService";
+import { SampleMessageGenerator } from "../services/SampleMessageGenerator";
+import { SchemaFormat } from "../types/schema";
 
 /**
  * MCP (Model-View-Controller-Provider) Integration Service
@@ -7,9 +9,14 @@ import { MessageMappingService } from "../services/messageMappingService";
  */
 class MCPIntegrationService {
   private messageMappingService: MessageMappingService;
+  private sampleMessageGenerator: SampleMessageGenerator;
 
-  constructor(messageMappingService: MessageMappingService) {
+  constructor(
+    messageMappingService: MessageMappingService,
+    sampleMessageGenerator: SampleMessageGenerator = new SampleMessageGenerator()
+  ) {
     this.messageMappingService = messageMappingService;
+    this.sampleMessageGenerator = sampleMessageGenerator;
   }
 
   /**
@@ -32,6 +39,8 @@ class MCPIntegrationService {
         return await this.handleValidateSchema(data);
       case "transformData":
         return await this.handleTransformData(data);
+      case "generateSample":
+        return await this.handleGenerateSample(data);
       default:
         throw new Error(`Unsupported action: ${action}`);
       }
@@ -53,7 +62,7 @@ class MCPIntegrationService {
       throw new Error("Configuration and source are required");
     }
     
-    const mapping = this.messageMappingService.generateMapping(configuration, source);
+    const mapping = await this.messageMappingService.generateMapping(configuration, source);
     return mapping;
   }
 
@@ -95,6 +104,25 @@ class MCPIntegrationService {
     };
   }
 
+  /**
+   * Handle sample message generation request
+   * @param data Grid data (or schema and sourceFormat) with sample options
+   * @returns The generated sample message
+   */
+  private async handleGenerateSample(data: any): Promise<any> {
+    const { gridData, schema, sourceFormat, importOptions, options } = data || {};
+
+    if (Array.isArray(gridData)) {
+      return this.sampleMessageGenerator.generate(gridData, options);
+    }
+
+    if (!schema || !Object.values(SchemaFormat).includes(sourceFormat)) {
+      throw new Error("gridData or schema with a valid sourceFormat is required");
+    }
+
+    return this.sampleMessageGenerator.generateFromSchema(schema, sourceFormat, { ...options, import: importOptions });
+  }
+
   /**
    * Get provider information
    * @returns Provider information
@@ -106,7 +134,8 @@ class MCPIntegrationService {
       capabilities: [
         "schema-mapping",
         "schema-validation",
-        "data-transformation"
+        "data-transformation",
+        "sample-generation"
       ],
       supportedFormats: ["XML", "JSON", "YAML"],
       timestamp: new Date().toISOString()
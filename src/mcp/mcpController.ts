@@ -1,13 +1,12 @@
 import express from "express";
 import { MCPIntegrationService } from "./MCPIntegrationService";
-import { MessageMappingService } from "../services/messageMappingService";
+import { getMessageMappingService } from "../services/mapping/sharedServices";
 import { logger } from "../utils/logger";
 
 const router = express.Router();
 
-// Initialize services
-const messageMappingService = new MessageMappingService(logger);
-const mcpService = new MCPIntegrationService(messageMappingService);
+// Initialize services (the message mapping service is shared with /api/message-mapping)
+const mcpService = new MCPIntegrationService(getMessageMappingService());
 
 // Base route handler - MCP 서비스 정보 제공
 router.get("/", async (req, res) => {
@@ -24,7 +23,8 @@ router.get("/", async (req, res) => {
       capabilities: [
         "schema-transformation",
         "schema-validation", 
-        "format-detection"
+        "format-detection",
+        "sample-generation"
       ],
       status: "active"
     };
@@ -116,7 +116,7 @@ export const commonSchemas = {
   }),
 
   // 스키마 형식
-  schemaFormat: z.enum(['xml', 'json', 'yaml', 'xsd', 'wsdl']),
+  schemaFormat: z.enum(['xml', 'json', 'yaml', 'xsd', 'wsdl', 'openapi', 'swagger', 'avro', 'protobuf', 'thrift']),
 
   // 태그 배열
   tags: z.array(z.string()).optional(),
@@ -5,18 +5,32 @@
 import { Router, Request, Response } from 'express';
 import { GridManager } from '../services/GridManager';
 import { GridValidationService } from '../services/GridValidationService';
+import { SchemaConverter } from '../services/SchemaConverter';
+import { SampleMessageGenerator } from '../services/SampleMessageGenerator';
+import { SchemaInferenceService } from '../services/SchemaInferenceService';
 import { asyncHandler } from '../core/utils/asyncHandler';
 import { Logger } from '../core/logging/Logger';
 import { AppError } from '../core/errors/ErrorHandler';
+import { SchemaConversionError, ValidationError } from '../types/errors';
 import {
   GridColumn,
   SchemaGridData,
   DataType
 } from '../types/grid';
+import { SchemaExportOptions, SchemaFormat } from '../types/schema';
+import {
+  ConversionOptions,
+  ConvertToSchemaRequest,
+  GenerateSampleMessageRequest,
+  InferSchemaRequest
+} from '../types/api-v2';
 
 const router = Router();
 const gridManager = new GridManager();
 const validationService = new GridValidationService();
+const schemaConverter = new SchemaConverter();
+const sampleMessageGenerator = new SampleMessageGenerator(schemaConverter);
+const schemaInferenceService = new SchemaInferenceService(schemaConverter);
 const logger = new Logger('GridRoutes');
 
 /**
@@ -181,40 +195,58 @@ router.post('/convert/to-grid', asyncHandler(async (req: Request, res: Response)
  * POST /api/v2/grid/convert/to-schema
  */
 router.post('/convert/to-schema', asyncHandler(async (req: Request, res: Response) => {
-  const { gridData, format } = req.body;
+  const { gridData, format, options } = req.body as ConvertToSchemaRequest;
 
   if (!gridData || !Array.isArray(gridData)) {
     throw new AppError('유효한 그리드 데이터가 필요합니다.', 400);
   }
 
-  if (!format || !['json', 'xml', 'yaml'].includes(format)) {
-    throw new AppError('유효한 형식을 지정해야 합니다. (json, xml, yaml)', 400);
+  if (!format || !['json', 'xml', 'yaml', 'xsd', 'wsdl'].includes(format)) {
+    throw new ValidationError('유효한 형식을 지정해야 합니다. (json, xml, yaml, xsd, wsdl)', 'format', format);
   }
 
+  validateConversionOptions(options);
+
   logger.info(`그리드 데이터를 스키마로 변환 시작: ${format}`);
 
   try {
-    const schema = gridManager.convertGridDataToSchema(gridData, format as 'json' | 'xml' | 'yaml');
-    
     let serializedSchema: string;
     let contentType: string;
 
-    switch (format) {
-      case 'json':
-        serializedSchema = JSON.stringify(schema, null, 2);
-        contentType = 'application/json';
-        break;
-      case 'xml':
-        serializedSchema = typeof schema === 'string' ? schema : JSON.stringify(schema);
-        contentType = 'application/xml';
-        break;
-      case 'yaml':
-        // YAML 직렬화 (실제 구현에서는 YAML 라이브러리 사용)
-        serializedSchema = JSON.stringify(schema, null, 2);
-        contentType = 'application/x-yaml';
-        break;
-      default:
-        throw new AppError('지원하지 않는 형식입니다.', 400);
+    // XSD/WSDL은 네임스페이스 옵션을 지원하는 변환 엔진으로 생성
+    if (format === 'xsd' || format === 'wsdl') {
+      const result = await schemaConverter.fromGrid(
+        gridData,
+        format === 'xsd' ? SchemaFormat.XSD : SchemaFormat.WSDL,
+        toSchemaExportOptions(options)
+      );
+
+      if (!result.xml) {
+        throw new SchemaConversionError(result.errors[0]?.message || '스키마 변환 중 오류가 발생했습니다.', 'grid', format);
+      }
+
+      serializedSchema = result.xml;
+      contentType = 'application/xml';
+    } else {
+      const schema = gridManager.convertGridDataToSchema(gridData, format);
+
+      switch (format) {
+        case 'json':
+          serializedSchema = JSON.stringify(schema, null, 2);
+          contentType = 'application/json';
+          break;
+        case 'xml':
+          serializedSchema = typeof schema === 'string' ? schema : JSON.stringify(schema);
+          contentType = 'application/xml';
+          break;
+        case 'yaml':
+          // YAML 직렬화 (실제 구현에서는 YAML 라이브러리 사용)
+          serializedSchema = JSON.stringify(schema, null, 2);
+          contentType = 'application/x-yaml';
+          break;
+        default:
+          throw new AppError('지원하지 않는 형식입니다.', 400);
+      }
     }
 
     logger.info('스키마 변환 완료', {
@@ -238,10 +270,131 @@ router.post('/convert/to-schema', asyncHandler(async (req: Request, res: Respons
 
   } catch (error) {
     logger.error('스키마 변환 중 오류:', error);
+    if (error instanceof AppError) {
+      throw error;
+    }
     throw new AppError('스키마 변환 중 오류가 발생했습니다.', 422);
   }
 }));
 
+/**
+ * 변환 옵션 구조 검증
+ */
+function validateConversionOptions(options: ConversionOptions | undefined): void {
+  if (options === undefined) {
+    return;
+  }
+
+  if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+    throw new ValidationError('options는 객체여야 합니다.', 'options');
+  }
+
+  if (options.elementFormDefault !== undefined && !['qualified', 'unqualified'].includes(options.elementFormDefault)) {
+    throw new ValidationError('elementFormDefault는 qualified 또는 unqualified여야 합니다.', 'options.elementFormDefault', options.elementFormDefault);
+  }
+
+  if (options.prefixes !== undefined
+    && (typeof options.prefixes !== 'object' || options.prefixes === null || Array.isArray(options.prefixes))) {
+    throw new ValidationError('prefixes는 접두사와 네임스페이스 URI의 객체여야 합니다.', 'options.prefixes');
+  }
+
+  if (options.importedNamespaces !== undefined && !Array.isArray(options.importedNamespaces)) {
+    throw new ValidationError('importedNamespaces는 배열이어야 합니다.', 'options.importedNamespaces');
+  }
+}
+
+/**
+ * API 변환 옵션을 변환 엔진 옵션으로 매핑
+ */
+function toSchemaExportOptions(options: ConversionOptions = {}): SchemaExportOptions {
+  return {
+    rootName: options.rootElementName,
+    namespace: options.targetNamespace,
+    xmlSchema: {
+      elementFormDefault: options.elementFormDefault,
+      targetPrefix: options.namespacePrefix,
+      prefixes: options.prefixes,
+      imports: options.importedNamespaces
+    }
+  };
+}
+
+/**
+ * 예시 인스턴스 문서로부터 그리드 행 추론 (선택적으로 스키마 내보내기)
+ * POST /api/v2/grid/infer
+ */
+router.post('/infer', asyncHandler(async (req: Request, res: Response) => {
+  const { documents, options = {}, targetFormat, exportOptions } = req.body as InferSchemaRequest;
+
+  if (!Array.isArray(documents) || documents.length === 0) {
+    throw new ValidationError('하나 이상의 인스턴스 문서가 필요합니다.', 'documents');
+  }
+
+  const invalidIndex = documents.findIndex(document =>
+    typeof document !== 'string' && (typeof document?.content !== 'string'
+      || (document.format !== undefined && !['xml', 'json', 'yaml'].includes(document.format)))
+  );
+  if (invalidIndex !== -1) {
+    throw new ValidationError('문서는 문자열 또는 content와 xml, json, yaml 중 하나의 format을 가진 객체여야 합니다.', `documents[${invalidIndex}]`);
+  }
+
+  if (targetFormat !== undefined && !Object.values(SchemaFormat).includes(targetFormat as SchemaFormat)) {
+    throw new ValidationError('지원하지 않는 대상 형식입니다.', 'targetFormat', targetFormat);
+  }
+
+  validateConversionOptions(exportOptions);
+
+  logger.info('인스턴스 문서 스키마 추론 요청', {
+    documentCount: documents.length,
+    targetFormat
+  });
+
+  let inference;
+  let schema: { format: string; content: string } | undefined;
+  try {
+    if (targetFormat) {
+      const result = await schemaInferenceService.inferSchema(documents, targetFormat as SchemaFormat, {
+        ...options,
+        export: toSchemaExportOptions(exportOptions)
+      });
+      const { xml, json, yaml, idl, errors } = result.conversion;
+      const content = xml ?? json ?? yaml ?? idl;
+
+      if (!content) {
+        throw new Error(errors[0]?.message || '스키마 변환 중 오류가 발생했습니다.');
+      }
+
+      inference = result;
+      schema = { format: targetFormat, content };
+    } else {
+      inference = await schemaInferenceService.infer(documents, options);
+    }
+  } catch (error) {
+    logger.error('스키마 추론 중 오류', { error });
+    throw new SchemaConversionError(
+      error instanceof Error ? error.message : '스키마 추론 중 오류가 발생했습니다.',
+      'instance',
+      targetFormat || 'grid'
+    );
+  }
+
+  res.json({
+    success: true,
+    data: {
+      gridData: inference.gridData,
+      rootName: inference.rootName,
+      fieldStats: inference.fieldStats,
+      warnings: inference.warnings,
+      schema,
+      metadata: {
+        documentCount: inference.documentCount,
+        rowCount: inference.gridData.length,
+        inferredAt: new Date().toISOString()
+      }
+    }
+  });
+}));
+
 /**
  * 그리드 데이터 검증
  * POST /api/v2/grid/validate
@@ -536,6 +689,70 @@ router.get('/sample', asyncHandler(async (req: Request, res: Response) => {
   });
 }));
 
+/**
+ * 그리드 데이터 또는 스키마로 샘플 메시지 생성
+ * POST /api/v2/grid/sample/message
+ */
+router.post('/sample/message', asyncHandler(async (req: Request, res: Response) => {
+  const { gridData, schema, sourceFormat, importOptions, options = {} } = req.body as GenerateSampleMessageRequest;
+
+  if (gridData === undefined && !schema) {
+    throw new ValidationError('gridData 또는 schema가 필요합니다.', 'gridData');
+  }
+
+  if (gridData !== undefined && !Array.isArray(gridData)) {
+    throw new ValidationError('유효한 그리드 데이터가 필요합니다.', 'gridData');
+  }
+
+  if (gridData === undefined && !Object.values(SchemaFormat).includes(sourceFormat as SchemaFormat)) {
+    throw new ValidationError('유효한 sourceFormat을 지정해야 합니다.', 'sourceFormat', sourceFormat);
+  }
+
+  if (options.format !== undefined && !['xml', 'json', 'yaml'].includes(options.format)) {
+    throw new ValidationError('샘플 메시지 형식은 xml, json, yaml 중 하나여야 합니다.', 'options.format', options.format);
+  }
+
+  logger.info('샘플 메시지 생성 요청', {
+    source: gridData !== undefined ? 'grid' : sourceFormat,
+    format: options.format || 'json'
+  });
+
+  let result;
+  try {
+    result = gridData !== undefined
+      ? sampleMessageGenerator.generate(gridData, options)
+      : await sampleMessageGenerator.generateFromSchema(schema!, sourceFormat as SchemaFormat, { ...options, import: importOptions });
+  } catch (error) {
+    logger.error('샘플 메시지 생성 중 오류', { error });
+    throw new SchemaConversionError(
+      error instanceof Error ? error.message : '샘플 메시지 생성 중 오류가 발생했습니다.',
+      gridData !== undefined ? 'grid' : String(sourceFormat),
+      options.format || 'json'
+    );
+  }
+
+  const contentTypes: Record<string, string> = {
+    xml: 'application/xml',
+    json: 'application/json',
+    yaml: 'application/x-yaml'
+  };
+
+  res.json({
+    success: true,
+    data: {
+      content: result.content,
+      format: result.format,
+      contentType: contentTypes[result.format],
+      seed: result.seed,
+      warnings: result.warnings,
+      metadata: {
+        size: result.content.length,
+        generatedAt: new Date().toISOString()
+      }
+    }
+  });
+}));
+
 /**
  * 그리드 통계 조회
  * GET /api/v2/grid/stats
@@ -0,0 +1,173 @@
+import express from "express";
+import { getLookupTableService } from "../services/mapping/sharedServices";
+import { LookupCsvImportOptions, LookupMissPolicy, LookupTableInput, LookupTableUpdate } from "../types/lookup";
+import { ConflictError, NotFoundError, ValidationError } from "../types/errors";
+import { logger } from "../utils/logger";
+
+const router = express.Router();
+// Shared with the message mapping service so transformations can reference tables by name
+const lookupTableService = getLookupTableService();
+
+// Stored tables are loaded asynchronously; hold requests until they are in memory
+router.use(async (req, res, next) => {
+  try {
+    await lookupTableService.ready();
+    next();
+  } catch (error) {
+    next(error);
+  }
+});
+
+function sendLookupError(res: express.Response, error: unknown, action: string) {
+  if (error instanceof ValidationError) {
+    return res.status(400).json({ error: error.message });
+  }
+  if (error instanceof NotFoundError) {
+    return res.status(404).json({ error: error.message });
+  }
+  if (error instanceof ConflictError) {
+    return res.status(409).json({ error: error.message });
+  }
+  logger.error(`Error ${action}`, { error });
+  return res.status(500).json({ error: "Internal server error" });
+}
+
+function parseVersion(value: unknown): number | undefined {
+  if (value === undefined || value === "") {
+    return undefined;
+  }
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new ValidationError("Version must be a positive integer", "version", value);
+  }
+  return version;
+}
+
+// List lookup tables
+router.get("/", async (req, res) => {
+  try {
+    return res.json(lookupTableService.listTables());
+  } catch (error) {
+    return sendLookupError(res, error, "listing lookup tables");
+  }
+});
+
+// Create lookup table
+router.post("/", async (req, res) => {
+  try {
+    const input: LookupTableInput = req.body;
+    return res.status(201).json(await lookupTableService.createTable(input));
+  } catch (error) {
+    return sendLookupError(res, error, "creating lookup table");
+  }
+});
+
+// Get lookup table (?version=N for an earlier version's entries)
+router.get("/:name", async (req, res) => {
+  try {
+    return res.json(lookupTableService.getTable(req.params.name, parseVersion(req.query.version)));
+  } catch (error) {
+    return sendLookupError(res, error, "retrieving lookup table");
+  }
+});
+
+// Update lookup table settings; sending entries stores a new version
+router.put("/:name", async (req, res) => {
+  try {
+    const update: LookupTableUpdate = req.body;
+    return res.json(await lookupTableService.updateTable(req.params.name, update));
+  } catch (error) {
+    return sendLookupError(res, error, "updating lookup table");
+  }
+});
+
+// Delete lookup table
+router.delete("/:name", async (req, res) => {
+  try {
+    await lookupTableService.deleteTable(req.params.name);
+    return res.json({ message: "Lookup table deleted successfully" });
+  } catch (error) {
+    return sendLookupError(res, error, "deleting lookup table");
+  }
+});
+
+// List versions (newest first)
+router.get("/:name/versions", async (req, res) => {
+  try {
+    return res.json(lookupTableService.listVersions(req.params.name));
+  } catch (error) {
+    return sendLookupError(res, error, "listing lookup table versions");
+  }
+});
+
+// Import entries from CSV (key,value,description header). Accepts a text/csv body with options
+// in the query string, or JSON { csv, ...options }. Creates the table when it does not exist.
+router.post(
+  "/:name/import/csv",
+  express.text({ type: ["text/csv", "text/plain"], limit: "10mb" }),
+  async (req, res) => {
+    try {
+      const { csv, ...options }: { csv?: string } & LookupCsvImportOptions = typeof req.body === "string"
+        ? { csv: req.body, ...(req.query as Record<string, string>) }
+        : req.body || {};
+
+      if (typeof csv !== "string" || csv.trim() === "") {
+        return res.status(400).json({ error: "CSV content is required" });
+      }
+
+      const existed = lookupTableService.listTables().some(table => table.name === req.params.name);
+      const table = await lookupTableService.importCsv(req.params.name, csv, options);
+      return res.status(existed ? 200 : 201).json(table);
+    } catch (error) {
+      return sendLookupError(res, error, "importing lookup table CSV");
+    }
+  }
+);
+
+// Export entries as CSV (?version=N for an earlier version)
+router.get("/:name/export/csv", async (req, res) => {
+  try {
+    const { name } = req.params;
+    const version = parseVersion(req.query.version);
+    const csv = lookupTableService.exportCsv(name, version);
+    const fileName = version ? `${name}-v${version}.csv` : `${name}.csv`;
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    return res.send(csv);
+  } catch (error) {
+    return sendLookupError(res, error, "exporting lookup table CSV");
+  }
+});
+
+// Resolve one key the way a mapping transformation would (for checking a table before use).
+// A miss under the fail policy responds 422.
+router.post("/:name/resolve", async (req, res) => {
+  try {
+    const { key, version, onMiss, default: defaultValue }: {
+      key?: any;
+      version?: number;
+      onMiss?: LookupMissPolicy;
+      default?: any;
+    } = req.body;
+
+    if (key === undefined) {
+      return res.status(400).json({ error: "Key is required" });
+    }
+    if (onMiss !== undefined && onMiss !== "default" && onMiss !== "fail") {
+      return res.status(400).json({ error: "onMiss must be default or fail" });
+    }
+
+    const { name } = req.params;
+    lookupTableService.getTable(name);
+    const value = lookupTableService.resolve(name, key, { version: parseVersion(version), missPolicy: onMiss, defaultValue });
+    return res.json({ key, value });
+  } catch (error) {
+    if (error instanceof ValidationError && error.field === "value") {
+      return res.status(422).json({ error: error.message });
+    }
+    return sendLookupError(res, error, "resolving lookup table key");
+  }
+});
+
+export { lookupTableService };
+export default router;
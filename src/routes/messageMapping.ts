@@ -1,23 +1,108 @@
 import express from "express";
 import {
-  MessageMappingService,
   Configuration,
   AdvancedMappingRule,
   TransformationRule,
   CollaborationData
 } from "../services/messageMappingService";
+import {
+  JsonTransformSpec,
+  MappingDocumentFormat,
+  MappingSuggestionOptions,
+  MappingSuggestionStatus,
+  MappingTestCase,
+  XsltTestResult
+} from "../types/mapping";
+import { SchemaGridData } from "../types/schema";
+import { ConflictError, NotFoundError, ValidationError } from "../types/errors";
+import { validateExpression } from "../services/expression";
+import { XsltTestHarness } from "../services/mapping/XsltTestHarness";
+import { SchemaRepositoryService } from "../services/SchemaRepositoryService";
+import { getSchemaRepository } from "../services/repository";
 import { logger } from "../utils/logger";
+import { getLookupTableService, getMessageMappingService } from "../services/mapping/sharedServices";
 
 const router = express.Router();
-const messageMappingService = new MessageMappingService(logger);
+// Shared with the MCP and impact analysis APIs
+const messageMappingService = getMessageMappingService();
+const xsltTestHarness = new XsltTestHarness();
+const schemaRepositoryService = new SchemaRepositoryService(getSchemaRepository());
+
+// Stored mappings and lookup tables are loaded asynchronously; hold requests until they are in memory
+router.use(async (req, res, next) => {
+  try {
+    await Promise.all([messageMappingService.ready(), getLookupTableService().ready()]);
+    next();
+  } catch (error) {
+    next(error);
+  }
+});
+
+const DOCUMENT_FORMATS = ["xml", "json", "yaml"];
+
+// Returns the first problem with a test case body, or undefined when it can be stored
+function findTestCaseError(testCase: Partial<MappingTestCase>, partial = false): string | undefined {
+  if ((!partial || testCase.name !== undefined) && (typeof testCase.name !== "string" || testCase.name.trim() === "")) {
+    return "Test case name is required";
+  }
+  if ((!partial || testCase.input !== undefined) && (testCase.input === undefined || testCase.input === null || testCase.input === "")) {
+    return "Test case input is required";
+  }
+  if ([testCase.sourceFormat, testCase.targetFormat].some(format => format && !DOCUMENT_FORMATS.includes(format))) {
+    return "Formats must be one of xml, json, yaml";
+  }
+  if (testCase.expectedErrors !== undefined && !Array.isArray(testCase.expectedErrors)) {
+    return "expectedErrors must be an array";
+  }
+  return undefined;
+}
+
+// Grid model of a stored schema, or the inline grid sent with the request
+async function resolveSuggestionGrid(schemaId?: string, grid?: SchemaGridData[][]): Promise<SchemaGridData[][] | undefined> {
+  if (schemaId) {
+    return (await schemaRepositoryService.getSchema(schemaId)).gridData || [];
+  }
+  return Array.isArray(grid) ? grid : undefined;
+}
 
 // Get all message mappings (기본 경로)
+// page, limit or search switches to a paginated list (newest first)
 router.get("/", async (req, res) => {
   try {
-    const mappings = messageMappingService.getAllMappings();
+    const { page, limit, search } = req.query;
+    if (page === undefined && limit === undefined && search === undefined) {
+      const mappings = messageMappingService.getAllMappings();
+      return res.json({
+        success: true,
+        data: mappings
+      });
+    }
+
+    const pageNumber = page === undefined ? 1 : Number(page);
+    const pageSize = limit === undefined ? 20 : Number(limit);
+    if (!Number.isInteger(pageNumber) || pageNumber < 1 || !Number.isInteger(pageSize) || pageSize < 1 || pageSize > 100) {
+      return res.status(400).json({
+        success: false,
+        error: "page must be a positive integer and limit between 1 and 100"
+      });
+    }
+
+    const result = messageMappingService.listMappings({
+      page: pageNumber,
+      limit: pageSize,
+      search: typeof search === "string" ? search : undefined
+    });
     return res.json({
       success: true,
-      data: mappings
+      data: result.items,
+      pagination: {
+        page: result.page,
+        limit: result.limit,
+        total: result.total,
+        totalPages: Math.ceil(result.total / result.limit),
+        hasNext: result.page * result.limit < result.total,
+        hasPrev: result.page > 1
+      }
     });
   } catch (error) {
     logger.error("Error retrieving message mappings", { error });
@@ -42,17 +127,56 @@ router.post("/generate", async (req, res) => {
         .json({ error: "Configuration and source are required" });
     }
 
-    const mapping = messageMappingService.generateMapping(
+    const mapping = await messageMappingService.generateMapping(
       configuration,
       source,
     );
     return res.status(201).json(mapping);
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
     logger.error("Error generating message mapping", { error });
     return res.status(500).json({ error: "Internal server error" });
   }
 });
 
+// Export a bundle of mappings with their rules, transformations, test cases, suggestions and history
+// (?ids=a,b for selected mappings, all stored mappings otherwise)
+router.get("/export/bundle", async (req, res) => {
+  try {
+    const ids = typeof req.query.ids === "string"
+      ? req.query.ids.split(",").map(id => id.trim()).filter(Boolean)
+      : undefined;
+    const bundle = messageMappingService.exportBundle(ids);
+    res.setHeader("Content-Disposition", "attachment; filename=\"message-mappings.bundle.json\"");
+    return res.json(bundle);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({ error: error.message });
+    }
+    logger.error("Error exporting message mapping bundle", { error });
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Import a bundle (all or nothing); existing IDs are rejected unless ?overwrite=true
+router.post("/import/bundle", async (req, res) => {
+  try {
+    const result = await messageMappingService.importBundle(req.body, { overwrite: req.query.overwrite === "true" });
+    return res.status(201).json(result);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error instanceof ConflictError) {
+      return res.status(409).json({ error: error.message });
+    }
+    logger.error("Error importing message mapping bundle", { error });
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 // Get message mapping by ID
 router.get("/:id", async (req, res) => {
   try {
@@ -74,7 +198,7 @@ router.get("/:id", async (req, res) => {
 router.delete("/:id", async (req, res) => {
   try {
     const { id } = req.params;
-    const deleted = messageMappingService.clearMapping(id);
+    const deleted = await messageMappingService.clearMapping(id);
 
     if (!deleted) {
       return res.status(404).json({ error: "Message mapping not found" });
@@ -100,7 +224,12 @@ router.post("/:id/rules", async (req, res) => {
       return res.status(400).json({ error: "Rules array is required" });
     }
 
-    messageMappingService.createAdvancedMappingRules(id, rules);
+    const expressionErrors = messageMappingService.findRuleExpressionErrors(rules);
+    if (expressionErrors.length > 0) {
+      return res.status(400).json({ error: "Invalid rule expressions", details: expressionErrors });
+    }
+
+    await messageMappingService.createAdvancedMappingRules(id, rules);
     return res.status(201).json({ message: "Advanced mapping rules created successfully" });
   } catch (error) {
     logger.error("Error creating advanced mapping rules", { error });
@@ -130,7 +259,12 @@ router.post("/:id/transformations", async (req, res) => {
       return res.status(400).json({ error: "Transformation rule is required" });
     }
 
-    messageMappingService.createTransformationRule(id, rule);
+    const expressionErrors = messageMappingService.findRuleExpressionErrors([], [rule]);
+    if (expressionErrors.length > 0) {
+      return res.status(400).json({ error: "Invalid rule expressions", details: expressionErrors });
+    }
+
+    await messageMappingService.createTransformationRule(id, rule);
     return res.status(201).json({ message: "Transformation rule created successfully" });
   } catch (error) {
     logger.error("Error creating transformation rule", { error });
@@ -150,6 +284,355 @@ router.get("/:id/transformations", async (req, res) => {
   }
 });
 
+// Execute mapping rules against a source document
+router.post("/:id/execute", async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { source, sourceFormat, targetFormat }: {
+      source: string | Record<string, any>;
+      sourceFormat?: MappingDocumentFormat;
+      targetFormat?: MappingDocumentFormat;
+    } = req.body;
+
+    if (source === undefined || source === null || source === "") {
+      return res.status(400).json({ error: "Source is required" });
+    }
+    if ((sourceFormat && !DOCUMENT_FORMATS.includes(sourceFormat)) || (targetFormat && !DOCUMENT_FORMATS.includes(targetFormat))) {
+      return res.status(400).json({ error: "Formats must be one of xml, json, yaml" });
+    }
+
+    const result = await messageMappingService.executeMapping(id, source, { sourceFormat, targetFormat });
+    if (!result) {
+      return res.status(404).json({ error: "Message mapping or mapping rules not found" });
+    }
+
+    return res.status(result.success ? 200 : 422).json(result);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    logger.error("Error executing mapping rules", { error });
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// XSLT export
+// Returns the stylesheet with skipped rules and warnings; ?format=xsl returns the stylesheet file itself.
+router.get("/:id/export/xslt", async (req, res) => {
+  try {
+    const { id } = req.params;
+    const result = messageMappingService.exportXslt(id);
+    if (!result) {
+      return res.status(404).json({ error: "Message mapping or mapping rules not found" });
+    }
+
+    if (req.query.format === "xsl") {
+      res.setHeader("Content-Disposition", `attachment; filename="${id}.xsl"`);
+      return res.type("application/xslt+xml").send(result.stylesheet);
+    }
+    return res.json(result);
+  } catch (error) {
+    logger.error("Error exporting XSLT", { error });
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Runs the exported stylesheet through the subset emulator (not a conforming XSLT processor; the
+// response says so in "processor") and compares it with the engine's XML output.
+// The source defaults to the mapping's XML test data, then to its XML source document.
+router.post("/:id/export/xslt/test", async (req, res) => {
+  try {
+    const { id } = req.params;
+    const mapping = messageMappingService.getMapping(id);
+    const candidates = [req.body?.source, mapping?.configuration.testData, mapping?.source];
+    const source = candidates.find(
+      (candidate): candidate is string => typeof candidate === "string" && candidate.trim().startsWith("<"),
+    );
+
+    const exported = messageMappingService.exportXslt(id);
+    if (!exported) {
+      return res.status(404).json({ error: "Message mapping or mapping rules not found" });
+    }
+    if (!source) {
+      return res.status(400).json({ error: "An XML source document is required" });
+    }
+
+    const execution = await messageMappingService.executeMapping(id, source, { sourceFormat: "xml", targetFormat: "xml" });
+    const comparison = await xsltTestHarness.compare(exported.stylesheet, source, execution!.output);
+    const result: XsltTestResult = { ...comparison, engineOutput: execution!.output, warnings: exported.warnings };
+    return res.json(result);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    logger.error("Error testing exported XSLT", { error });
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// JSON transform export
+// Returns the spec with skipped rules and warnings; ?format=jsonata returns the JSONata expression itself.
+router.get("/:id/export/json-transform", async (req, res) => {
+  try {
+    const { id } = req.params;
+    const result = messageMappingService.exportJsonTransform(id);
+    if (!result) {
+      return res.status(404).json({ error: "Message mapping or mapping rules not found" });
+    }
+
+    if (req.query.format === "jsonata") {
+      return res.type("text/plain").send(result.spec.jsonata);
+    }
+    return res.json(result);
+  } catch (error) {
+    logger.error("Error exporting JSON transform", { error });
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Runs a JSON transform spec against sample input. The spec defaults to the mapping's own export
+// and the input to the mapping's JSON test data.
+router.post("/:id/json-transform/execute", async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { spec, input }: { spec?: JsonTransformSpec; input?: string | Record<string, any> } = req.body;
+
+    const transform = spec || messageMappingService.exportJsonTransform(id)?.spec;
+    if (!transform) {
+      return res.status(404).json({ error: "Message mapping or mapping rules not found" });
+    }
+    const sample = input ?? messageMappingService.getMapping(id)?.configuration.testData;
+    if (sample === undefined || sample === null || sample === "") {
+      return res.status(400).json({ error: "Input is required" });
+    }
+
+    const result = await messageMappingService.executeJsonTransform(transform, sample);
+    return res.status(result.success ? 200 : 422).json(result);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    logger.error("Error executing JSON transform", { error });
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Replaces the mapping's rules with those of an exported JSON transform spec
+router.post("/:id/import/json-transform", async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { spec }: { spec: JsonTransformSpec } = req.body;
+
+    if (!spec) {
+      return res.status(400).json({ error: "Spec is required" });
+    }
+
+    const { rules, transformations, errors } = await messageMappingService.importJsonTransform(id, spec);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: "Invalid rule expressions", details: errors });
+    }
+    return res.status(201).json({ rules, transformations });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    logger.error("Error importing JSON transform", { error });
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Mapping suggestion routes
+// Suggests rules between two schemas (stored schema IDs or inline grid models).
+// Suggestions stay pending until accepted into the mapping's rules or rejected.
+router.post("/:id/rules/suggestions", async (req, res) => {
+  try {
+    const { id } = req.params;
+    const {
+      sourceSchemaId,
+      targetSchemaId,
+      sourceGrid,
+      targetGrid,
+      ...options
+    }: {
+      sourceSchemaId?: string;
+      targetSchemaId?: string;
+      sourceGrid?: SchemaGridData[][];
+      targetGrid?: SchemaGridData[][];
+    } & MappingSuggestionOptions = req.body;
+
+    const source = await resolveSuggestionGrid(sourceSchemaId, sourceGrid);
+    const target = await resolveSuggestionGrid(targetSchemaId, targetGrid);
+    if (!source || !target) {
+      return res.status(400).json({ error: "Source and target schemas are required" });
+    }
+    if (options.minConfidence !== undefined && !(options.minConfidence >= 0 && options.minConfidence <= 1)) {
+      return res.status(400).json({ error: "minConfidence must be between 0 and 1" });
+    }
+
+    const suggestions = await messageMappingService.suggestMappingRules(id, source, target, {
+      minConfidence: options.minConfidence,
+      limit: options.limit,
+      synonyms: options.synonyms,
+      sourceFormat: options.sourceFormat,
+      targetFormat: options.targetFormat
+    });
+    return res.json(suggestions);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return res.status(404).json({ error: error.message });
+    }
+    logger.error("Error suggesting mapping rules", { error });
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Get mapping suggestions, optionally filtered by status
+router.get("/:id/rules/suggestions", async (req, res) => {
+  try {
+    const { id } = req.params;
+    const status = req.query.status as MappingSuggestionStatus | undefined;
+    return res.json(messageMappingService.getRuleSuggestions(id, status));
+  } catch (error) {
+    logger.error("Error retrieving mapping suggestions", { error });
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Accept a suggestion. The body may carry edits to the suggested rule.
+router.post("/:id/rules/suggestions/:suggestionId/accept", async (req, res) => {
+  try {
+    const { id, suggestionId } = req.params;
+    const { rule: overrides = {} }: { rule?: Partial<AdvancedMappingRule> } = req.body || {};
+
+    const suggestion = messageMappingService.getRuleSuggestions(id).find(item => item.id === suggestionId);
+    if (!suggestion) {
+      return res.status(404).json({ error: "Suggestion not found" });
+    }
+    const expressionErrors = messageMappingService.findRuleExpressionErrors([{ ...suggestion.rule, ...overrides }]);
+    if (expressionErrors.length > 0) {
+      return res.status(400).json({ error: "Invalid rule expressions", details: expressionErrors });
+    }
+
+    const rule = await messageMappingService.acceptRuleSuggestion(id, suggestionId, overrides);
+    return res.status(201).json({ rule });
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      return res.status(409).json({ error: error.message });
+    }
+    logger.error("Error accepting mapping suggestion", { error });
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Reject a suggestion so the same pair is not proposed again
+router.post("/:id/rules/suggestions/:suggestionId/reject", async (req, res) => {
+  try {
+    const { id, suggestionId } = req.params;
+    const suggestion = await messageMappingService.rejectRuleSuggestion(id, suggestionId);
+    if (!suggestion) {
+      return res.status(404).json({ error: "Suggestion not found" });
+    }
+    return res.json(suggestion);
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      return res.status(409).json({ error: error.message });
+    }
+    logger.error("Error rejecting mapping suggestion", { error });
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Mapping test case routes
+// Create a named test case (input document, expected output and/or expected rule failures)
+router.post("/:id/tests", async (req, res) => {
+  try {
+    const { id } = req.params;
+    const testCase: Omit<MappingTestCase, "id"> & { id?: string } = req.body;
+
+    const error = findTestCaseError(testCase);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    return res.status(201).json(await messageMappingService.addTestCase(id, testCase));
+  } catch (error) {
+    if (error instanceof ConflictError) {
+      return res.status(409).json({ error: error.message });
+    }
+    logger.error("Error creating mapping test case", { error });
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Get test cases
+router.get("/:id/tests", async (req, res) => {
+  try {
+    const { id } = req.params;
+    return res.json(messageMappingService.getTestCases(id));
+  } catch (error) {
+    logger.error("Error retrieving mapping test cases", { error });
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Run test cases against the current rules (body.caseIds limits the run).
+// Responds 422 when any case fails so callers can gate deployments on the status code.
+router.post("/:id/tests/run", async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { caseIds }: { caseIds?: string[] } = req.body || {};
+
+    if (caseIds !== undefined && !Array.isArray(caseIds)) {
+      return res.status(400).json({ error: "caseIds must be an array" });
+    }
+
+    const result = await messageMappingService.runTestCases(id, caseIds);
+    if (!result) {
+      return res.status(404).json({ error: "Message mapping or mapping rules not found" });
+    }
+    return res.status(result.failed === 0 ? 200 : 422).json(result);
+  } catch (error) {
+    logger.error("Error running mapping test cases", { error });
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Update a test case
+router.put("/:id/tests/:caseId", async (req, res) => {
+  try {
+    const { id, caseId } = req.params;
+    const { id: _ignored, ...changes }: Partial<MappingTestCase> = req.body;
+
+    const error = findTestCaseError(changes, true);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const updated = await messageMappingService.updateTestCase(id, caseId, changes);
+    if (!updated) {
+      return res.status(404).json({ error: "Test case not found" });
+    }
+    return res.json(updated);
+  } catch (error) {
+    logger.error("Error updating mapping test case", { error });
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Delete a test case
+router.delete("/:id/tests/:caseId", async (req, res) => {
+  try {
+    const { id, caseId } = req.params;
+    if (!(await messageMappingService.deleteTestCase(id, caseId))) {
+      return res.status(404).json({ error: "Test case not found" });
+    }
+    return res.json({ message: "Test case deleted successfully" });
+  } catch (error) {
+    logger.error("Error deleting mapping test case", { error });
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 // Collaboration routes
 // Add collaboration event
 router.post("/:id/collaboration", async (req, res) => {
@@ -161,7 +644,7 @@ router.post("/:id/collaboration", async (req, res) => {
       return res.status(400).json({ error: "Collaboration event is required" });
     }
 
-    messageMappingService.addCollaborationEvent(id, event);
+    await messageMappingService.addCollaborationEvent(id, event);
     return res.status(201).json({ message: "Collaboration event added successfully" });
   } catch (error) {
     logger.error("Error adding collaboration event", { error });
@@ -198,4 +681,21 @@ router.post("/validate-schema", async (req, res) => {
   }
 });
 
+// Expression syntax check (used by rule editors before saving)
+router.post("/expressions/validate", async (req, res) => {
+  try {
+    const { expression }: { expression: string } = req.body;
+
+    if (typeof expression !== "string") {
+      return res.status(400).json({ error: "Expression is required" });
+    }
+
+    const error = validateExpression(expression);
+    return res.json(error ? { valid: false, error } : { valid: true });
+  } catch (error) {
+    logger.error("Error validating expression", { error });
+    return res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 export default router;
\ No newline at end of file
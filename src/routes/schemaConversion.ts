@@ -1,11 +1,15 @@
 import { Router, Request, Response } from 'express';
 import multer from 'multer';
 import { SchemaConversionService } from '../services/SchemaConversionService';
+import { SchemaDiffService } from '../services/SchemaDiffService';
 import { logger } from '../utils/logger';
+import { FormatConversionOptions, SchemaFormat } from '../types/schema';
+import { SchemaDiffRenderFormat } from '../types/diff';
 
 const router = Router();
 const upload = multer({ storage: multer.memoryStorage() });
 const schemaConversionService = new SchemaConversionService();
+const schemaDiffService = new SchemaDiffService(schemaConversionService);
 
 /**
  * 스키마 변환 API
@@ -13,7 +17,7 @@ const schemaConversionService = new SchemaConversionService();
  */
 router.post('/convert', upload.single('file'), async (req: Request, res: Response) => {
   try {
-    const { format, targetFormat } = req.body;
+    const { format, targetFormat, options } = req.body;
     const file = req.file;
 
     if (!file) {
@@ -30,13 +34,26 @@ router.post('/convert', upload.single('file'), async (req: Request, res: Respons
       });
     }
 
+    // 멀티파트 요청에서는 옵션이 JSON 문자열로 전달됨
+    // (예: OpenAPI 불러올 대상 source.openApi, 내보내기 설정 target.openApi)
+    let conversionOptions: FormatConversionOptions | undefined;
+    try {
+      conversionOptions = typeof options === 'string' ? JSON.parse(options) : options;
+    } catch {
+      return res.status(400).json({
+        success: false,
+        error: '변환 옵션은 유효한 JSON이어야 합니다'
+      });
+    }
+
     const content = file.buffer.toString('utf-8');
     
     // 스키마 변환 수행
     const result = await schemaConversionService.convertSchema(
       content,
       format,
-      targetFormat
+      targetFormat,
+      conversionOptions
     );
 
     return res.json({
@@ -89,6 +106,57 @@ router.post('/validate', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * 두 스키마 버전 의미 비교 API (형식이 달라도 비교 가능)
+ * POST /api/diff
+ */
+router.post('/diff', async (req: Request, res: Response) => {
+  try {
+    const { oldSchema, newSchema, oldFormat, newFormat, output = 'json', options } = req.body;
+
+    if (!oldSchema || !newSchema) {
+      return res.status(400).json({
+        success: false,
+        error: '비교할 이전 스키마와 새 스키마를 지정해주세요'
+      });
+    }
+
+    const formats = Object.values(SchemaFormat) as string[];
+    if ((oldFormat && !formats.includes(oldFormat)) || (newFormat && !formats.includes(newFormat))) {
+      return res.status(400).json({
+        success: false,
+        error: '지원하지 않는 스키마 형식입니다'
+      });
+    }
+
+    if (!['json', 'markdown', 'html'].includes(output)) {
+      return res.status(400).json({
+        success: false,
+        error: '보고서 형식은 json, markdown, html 중 하나여야 합니다'
+      });
+    }
+
+    const report = await schemaDiffService.diffSchemas(
+      { content: typeof oldSchema === 'string' ? oldSchema : JSON.stringify(oldSchema), format: oldFormat },
+      { content: typeof newSchema === 'string' ? newSchema : JSON.stringify(newSchema), format: newFormat },
+      options
+    );
+
+    return res.json({
+      success: true,
+      report,
+      rendered: output === 'json' ? undefined : schemaDiffService.render(report, output as SchemaDiffRenderFormat)
+    });
+
+  } catch (error) {
+    logger.error('스키마 비교 중 오류 발생:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : '스키마 비교 중 오류가 발생했습니다'
+    });
+  }
+});
+
 /**
  * URL에서 스키마 가져오기 API
  * POST /api/fetch-schema
@@ -131,5 +199,155 @@ router.post('/fetch-schema', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * OpenAPI 문서 분석 API (불러올 수 있는 component schema와 operation 목록)
+ * POST /api/openapi/summary
+ */
+router.post('/openapi/summary', async (req: Request, res: Response) => {
+  try {
+    const { schema } = req.body;
+
+    if (!schema) {
+      return res.status(400).json({
+        success: false,
+        error: 'OpenAPI 문서를 지정해주세요'
+      });
+    }
+
+    const summary = schemaConversionService.getOpenApiSummary(
+      typeof schema === 'string' ? schema : JSON.stringify(schema)
+    );
+
+    return res.json({
+      success: true,
+      summary
+    });
+
+  } catch (error) {
+    logger.error('OpenAPI 분석 중 오류 발생:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'OpenAPI 분석 중 오류가 발생했습니다'
+    });
+  }
+});
+
+/**
+ * WSDL 모델 분석 API
+ * POST /api/wsdl/operations
+ */
+router.post('/wsdl/operations', async (req: Request, res: Response) => {
+  try {
+    const { schema } = req.body;
+
+    if (!schema) {
+      return res.status(400).json({
+        success: false,
+        error: 'WSDL 문서를 지정해주세요'
+      });
+    }
+
+    const definition = await schemaConversionService.getWsdlDefinition(schema);
+
+    return res.json({
+      success: true,
+      definition
+    });
+
+  } catch (error) {
+    logger.error('WSDL 분석 중 오류 발생:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'WSDL 분석 중 오류가 발생했습니다'
+    });
+  }
+});
+
+/**
+ * WSDL 오퍼레이션 메시지를 그리드로 불러오기 API
+ * POST /api/wsdl/operations/:operation/grid
+ */
+router.post('/wsdl/operations/:operation/grid', async (req: Request, res: Response) => {
+  try {
+    const { schema, portType, direction, faultName } = req.body;
+
+    if (!schema) {
+      return res.status(400).json({
+        success: false,
+        error: 'WSDL 문서를 지정해주세요'
+      });
+    }
+
+    if (direction && !['input', 'output', 'fault'].includes(direction)) {
+      return res.status(400).json({
+        success: false,
+        error: '메시지 방향은 input, output, fault 중 하나여야 합니다'
+      });
+    }
+
+    const gridData = await schemaConversionService.convertWsdlOperationToGrid(schema, {
+      operation: req.params.operation!,
+      portType,
+      direction,
+      faultName
+    });
+
+    return res.json({
+      success: true,
+      gridData
+    });
+
+  } catch (error) {
+    logger.error('WSDL 오퍼레이션 변환 중 오류 발생:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'WSDL 오퍼레이션 변환 중 오류가 발생했습니다'
+    });
+  }
+});
+
+/**
+ * 그리드로 전체 WSDL 생성 API
+ * POST /api/wsdl/generate
+ */
+router.post('/wsdl/generate', async (req: Request, res: Response) => {
+  try {
+    const { serviceName, targetNamespace, endpoint, operations } = req.body;
+
+    if (!serviceName || !Array.isArray(operations) || operations.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: '서비스 이름과 오퍼레이션 목록을 지정해주세요'
+      });
+    }
+
+    if (operations.some((operation: any) => !operation?.name || !Array.isArray(operation.request))) {
+      return res.status(400).json({
+        success: false,
+        error: '각 오퍼레이션에는 이름과 요청 그리드 데이터가 필요합니다'
+      });
+    }
+
+    const wsdl = await schemaConversionService.generateWsdl({
+      serviceName,
+      targetNamespace,
+      endpoint,
+      operations
+    });
+
+    return res.json({
+      success: true,
+      wsdl
+    });
+
+  } catch (error) {
+    logger.error('WSDL 생성 중 오류 발생:', error);
+    return res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'WSDL 생성 중 오류가 발생했습니다'
+    });
+  }
+});
+
 export { router as schemaConversionRoutes };
 export default router;
\ No newline at end of file
@@ -0,0 +1,79 @@
+/**
+ * 일괄 작업 API v2 라우터
+ * 여러 스키마에 대한 생성/수정/삭제/변환/검증을 한 번의 요청으로 처리
+ */
+
+import { Router, Request, Response } from 'express';
+import { body } from 'express-validator';
+import { validationMiddleware } from '../../middleware/validationMiddleware';
+import { Logger } from '../../core/logging/Logger';
+import { SchemaConversionService } from '../../services/SchemaConversionService';
+import { SchemaRepositoryService } from '../../services/SchemaRepositoryService';
+import { MAX_BATCH_CONCURRENCY, MAX_BATCH_OPERATIONS, SchemaBatchService } from '../../services/SchemaBatchService';
+import { getSchemaRepository } from '../../services/repository';
+import { toSchemaApiError } from '../../services/repository/schemaErrors';
+import { ApiResponse, BatchRequest, BatchResponse, SchemaBatchData } from '../../types/api-v2';
+
+// Request 인터페이스 확장
+interface AuthenticatedRequest extends Request {
+  requestId?: string;
+  user?: { id: string };
+}
+
+const router = Router();
+const logger = new Logger('BatchAPIv2');
+const schemaService = new SchemaConversionService();
+const batchService = new SchemaBatchService(
+  new SchemaRepositoryService(getSchemaRepository(), schemaService),
+  schemaService
+);
+
+// 일괄 작업 실행 (모두 성공하면 200, 일부라도 실패하면 207)
+router.post('/',
+  [
+    body('operations').isArray({ min: 1, max: MAX_BATCH_OPERATIONS })
+      .withMessage(`작업 목록은 1-${MAX_BATCH_OPERATIONS}개의 배열이어야 합니다`),
+    body('operations.*.operation').isIn(['create', 'update', 'delete', 'convert', 'validate'])
+      .withMessage('유효하지 않은 작업 유형입니다'),
+    body('operations.*.id').optional().isString().withMessage('리소스 ID는 문자열이어야 합니다'),
+    body('operations.*.data').optional().isObject().withMessage('작업 데이터는 객체여야 합니다'),
+    body('options.continueOnError').optional().isBoolean().withMessage('continueOnError는 불리언이어야 합니다'),
+    body('options.transactional').optional().isBoolean().withMessage('transactional은 불리언이어야 합니다'),
+    body('options.maxConcurrency').optional().isInt({ min: 1, max: MAX_BATCH_CONCURRENCY })
+      .withMessage(`최대 동시 실행 수는 1-${MAX_BATCH_CONCURRENCY} 사이의 정수여야 합니다`),
+    body('options.timeout').optional().isInt({ min: 1000 }).withMessage('타임아웃은 1000ms 이상이어야 합니다'),
+    validationMiddleware
+  ],
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const batchRequest = req.body as BatchRequest<SchemaBatchData>;
+      const result = await batchService.execute(batchRequest, {
+        userId: req.user?.id || 'anonymous',
+        requestId: req.requestId || 'unknown'
+      });
+
+      const response: ApiResponse<BatchResponse<any>> = {
+        success: true,
+        data: result,
+        meta: {
+          version: '2.0',
+          timestamp: new Date().toISOString(),
+          requestId: req.requestId || 'unknown'
+        }
+      };
+
+      return res.status(result.summary.successful === result.summary.total ? 200 : 207).json(response);
+    } catch (error) {
+      logger.error('일괄 작업 실패', { error, requestId: req.requestId });
+
+      const { status, error: apiError } = toSchemaApiError(error, req.requestId || 'unknown');
+      const response: ApiResponse = {
+        success: false,
+        error: apiError
+      };
+      return res.status(status).json(response);
+    }
+  }
+);
+
+export { router as batchRouter };
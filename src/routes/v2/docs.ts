@@ -160,7 +160,7 @@ const swaggerOptions = {
             },
             format: {
               type: 'string',
-              enum: ['xml', 'json', 'yaml', 'xsd', 'wsdl'],
+              enum: ['xml', 'json', 'yaml', 'xsd', 'wsdl', 'openapi', 'swagger', 'avro', 'protobuf', 'thrift'],
               description: '스키마 형식'
             },
             version: {
@@ -213,7 +213,7 @@ const swaggerOptions = {
             },
             format: {
               type: 'string',
-              enum: ['xml', 'json', 'yaml', 'xsd', 'wsdl'],
+              enum: ['xml', 'json', 'yaml', 'xsd', 'wsdl', 'openapi', 'swagger', 'avro', 'protobuf', 'thrift'],
               description: '스키마 형식'
             },
             content: {
@@ -556,18 +556,18 @@ const swaggerOptions = {
           properties: {
             operation: {
               type: 'string',
-              enum: ['create', 'update', 'delete'],
+              enum: ['create', 'update', 'delete', 'convert', 'validate'],
               description: '작업 유형'
             },
             id: {
               type: 'string',
-              description: '리소스 ID (update, delete 시 필요)'
+              description: '리소스 ID (update, delete 시 필요, convert/validate는 저장된 스키마 대상일 때 지정)'
             },
             data: {
-              description: '작업 데이터'
+              description: '작업 데이터 (delete는 생략 가능)'
             }
           },
-          required: ['operation', 'data']
+          required: ['operation']
         },
         BatchOptions: {
           type: 'object',
@@ -576,6 +576,10 @@ const swaggerOptions = {
               type: 'boolean',
               description: '오류 발생 시 계속 진행 여부'
             },
+            transactional: {
+              type: 'boolean',
+              description: '하나라도 실패하면 적용한 변경을 모두 되돌림'
+            },
             maxConcurrency: {
               type: 'integer',
               minimum: 1,
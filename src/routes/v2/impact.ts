@@ -0,0 +1,117 @@
+/**
+ * 필드 영향 분석 API v2 라우터
+ * 저장된 스키마와 메시지 매핑 규칙의 필드 사용처 조회, 이름 변경/타입 변경/삭제 영향 분석
+ */
+
+import { Router, Request, Response } from 'express';
+import { body, query } from 'express-validator';
+import { validationMiddleware } from '../../middleware/validationMiddleware';
+import { Logger } from '../../core/logging/Logger';
+import { CollaborationService } from '../../services/CollaborationService';
+import { ImpactAnalysisService } from '../../services/ImpactAnalysisService';
+import { SchemaRepositoryService } from '../../services/SchemaRepositoryService';
+import { getSchemaRepository } from '../../services/repository';
+import { toSchemaApiError } from '../../services/repository/schemaErrors';
+import { getMessageMappingService } from '../../services/mapping/sharedServices';
+import { ApiResponse } from '../../types/api-v2';
+import { FieldUsageResult, ImpactAnalysisRequest, ImpactAnalysisResult } from '../../types/impact';
+
+// Request 인터페이스 확장
+interface AuthenticatedRequest extends Request {
+  requestId?: string;
+  user?: { id: string };
+}
+
+const router = Router();
+const logger = new Logger('ImpactAPIv2');
+
+// 협업 서비스 인스턴스 (실제로는 의존성 주입으로 처리)
+let collaborationService: CollaborationService | undefined;
+
+// 협업 서비스 초기화 함수 (영향받는 협업 세션 조회용)
+export function initializeImpactCollaborationService(service: CollaborationService) {
+  collaborationService = service;
+}
+
+const impactService = new ImpactAnalysisService(
+  new SchemaRepositoryService(getSchemaRepository()),
+  getMessageMappingService(),
+  () => collaborationService?.getActiveSessions() || []
+);
+
+function sendImpactError(req: AuthenticatedRequest, res: Response, error: unknown) {
+  const { status, error: apiError } = toSchemaApiError(error, req.requestId || 'unknown');
+  const response: ApiResponse = {
+    success: false,
+    error: apiError
+  };
+  return res.status(status).json(response);
+}
+
+// 필드 사용처 조회
+router.get('/fields',
+  [
+    query('field').isString().notEmpty().withMessage('필드 이름 또는 경로는 필수입니다'),
+    query('schemaId').optional().isString().withMessage('스키마 ID는 문자열이어야 합니다'),
+    validationMiddleware
+  ],
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const usages = await impactService.findUsages({
+        field: req.query.field as string,
+        schemaId: req.query.schemaId as string | undefined
+      });
+
+      const response: ApiResponse<FieldUsageResult> = {
+        success: true,
+        data: usages,
+        meta: {
+          version: '2.0',
+          timestamp: new Date().toISOString(),
+          requestId: req.requestId || 'unknown'
+        }
+      };
+
+      return res.json(response);
+    } catch (error) {
+      logger.error('필드 사용처 조회 실패', { error, requestId: req.requestId });
+      return sendImpactError(req, res, error);
+    }
+  }
+);
+
+// 필드 변경 영향 분석
+router.post('/',
+  [
+    body('field').isString().notEmpty().withMessage('필드 이름 또는 경로는 필수입니다'),
+    body('schemaId').optional().isString().withMessage('스키마 ID는 문자열이어야 합니다'),
+    body('change.kind').isIn(['rename', 'retype', 'remove']).withMessage('변경 종류는 rename, retype, remove 중 하나여야 합니다'),
+    body('change.newName').if(body('change.kind').equals('rename'))
+      .isString().notEmpty().withMessage('새 필드 이름은 필수입니다'),
+    body('change.newType').if(body('change.kind').equals('retype'))
+      .isString().notEmpty().withMessage('새 타입은 필수입니다'),
+    validationMiddleware
+  ],
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const result = await impactService.analyze(req.body as ImpactAnalysisRequest);
+
+      const response: ApiResponse<ImpactAnalysisResult> = {
+        success: true,
+        data: result,
+        meta: {
+          version: '2.0',
+          timestamp: new Date().toISOString(),
+          requestId: req.requestId || 'unknown'
+        }
+      };
+
+      return res.json(response);
+    } catch (error) {
+      logger.error('필드 영향 분석 실패', { error, requestId: req.requestId });
+      return sendImpactError(req, res, error);
+    }
+  }
+);
+
+export { router as impactRouter };
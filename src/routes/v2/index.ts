@@ -6,6 +6,9 @@
 import { Router } from 'express';
 import { schemasRouter } from './schemas';
 import { collaborationRouter } from './collaboration';
+import { batchRouter } from './batch';
+import { searchRouter } from './search';
+import { impactRouter } from './impact';
 import { versionRouter } from './version';
 import { docsRouter } from './docs';
 // import { validationMiddleware } from '../../middleware/validationMiddleware'; // TODO: 필요시 사용
@@ -46,6 +49,9 @@ router.use('/version', versionRouter);
 // 메인 리소스 라우터
 router.use('/schemas', schemasRouter);
 router.use('/collaboration', collaborationRouter);
+router.use('/batch', batchRouter);
+router.use('/search', searchRouter);
+router.use('/impact', impactRouter);
 
 // 404 핸들러 (모든 경로에 대해)
 router.use((req, res) => {
@@ -7,14 +7,29 @@ import { Router, Request, Response } from 'express';
 import { body, param, query } from 'express-validator';
 import { validationMiddleware } from '../../middleware/validationMiddleware';
 // import { authMiddleware } from '../../middleware/authMiddleware'; // TODO: 필요시 사용
-// import { SchemaConversionService } from '../../services/SchemaConversionService'; // TODO: 필요시 사용
 // import { GridManager } from '../../services/GridManager'; // TODO: 필요시 사용
 import { Logger } from '../../core/logging/Logger';
+import { SchemaConversionService } from '../../services/SchemaConversionService';
+import { SchemaCompatibilityService } from '../../services/SchemaCompatibilityService';
+import { SchemaRepositoryService } from '../../services/SchemaRepositoryService';
+import { SchemaDiffService } from '../../services/SchemaDiffService';
+import { getSchemaRepository } from '../../services/repository';
+import { toSchemaApiError } from '../../services/repository/schemaErrors';
 import { 
   ApiResponse, 
   CreateSchemaRequest,
-  SchemaResponse
+  SchemaCompatibilityRequest,
+  SchemaRevisionCompatibilityRequest,
+  RollbackSchemaRequest,
+  SchemaResponse,
+  SchemaRevisionDetailResponse,
+  SchemaRevisionResponse,
+  TagRevisionRequest,
+  UpdateSchemaRequest
 } from '../../types/api-v2';
+import { CompatibilityCheckResult, COMPATIBILITY_MODES } from '../../types/compatibility';
+import { SchemaFormat } from '../../types/schema';
+import { ValidationError } from '../../types/errors';
 
 // Request 인터페이스 확장
 interface AuthenticatedRequest extends Request {
@@ -24,15 +39,50 @@ interface AuthenticatedRequest extends Request {
 
 const router = Router();
 const logger = new Logger('SchemasAPIv2');
-// const schemaService = new SchemaConversionService(); // TODO: 필요시 사용
+const schemaService = new SchemaConversionService();
 // const gridManager = new GridManager(); // TODO: 필요시 사용
+const schemaRepositoryService = new SchemaRepositoryService(getSchemaRepository(), schemaService);
+const compatibilityService = new SchemaCompatibilityService(new SchemaDiffService(schemaService));
+
+/**
+ * 저장소 서비스 오류를 API v2 에러 응답으로 전송
+ */
+function sendSchemaError(req: AuthenticatedRequest, res: Response, error: unknown) {
+  const { status, error: apiError } = toSchemaApiError(error, req.requestId || 'unknown');
+  const response: ApiResponse = {
+    success: false,
+    error: apiError
+  };
+  return res.status(status).json(response);
+}
+
+/**
+ * 호환성 검사 오류 전송 (읽을 수 없는 스키마는 422, 그 외는 저장소 오류와 같이 404/500)
+ */
+function sendCompatibilityError(req: AuthenticatedRequest, res: Response, error: unknown) {
+  logger.error('스키마 호환성 검사 실패', { error, requestId: req.requestId });
+
+  if (!(error instanceof ValidationError)) {
+    return sendSchemaError(req, res, error);
+  }
+  const response: ApiResponse = {
+    success: false,
+    error: {
+      code: 'COMPATIBILITY_CHECK_FAILED',
+      message: error.message,
+      timestamp: new Date().toISOString(),
+      requestId: req.requestId || 'unknown'
+    }
+  };
+  return res.status(422).json(response);
+}
 
 // 스키마 목록 조회
 router.get('/', 
   [
     query('page').optional().isInt({ min: 1 }).withMessage('페이지는 1 이상의 정수여야 합니다'),
     query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('제한은 1-100 사이의 정수여야 합니다'),
-    query('format').optional().isIn(['xml', 'json', 'yaml', 'xsd', 'wsdl']).withMessage('유효하지 않은 형식입니다'),
+    query('format').optional().isIn(['xml', 'json', 'yaml', 'xsd', 'wsdl', 'openapi', 'swagger', 'avro', 'protobuf', 'thrift']).withMessage('유효하지 않은 형식입니다'),
     query('tags').optional().isString().withMessage('태그는 문자열이어야 합니다'),
     query('search').optional().isString().withMessage('검색어는 문자열이어야 합니다'),
     validationMiddleware
@@ -41,13 +91,15 @@ router.get('/',
     try {
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 20;
-      // const format = req.query.format as string; // TODO: 필요시 사용
-      // const tags = req.query.tags as string; // TODO: 필요시 사용
-      // const search = req.query.search as string; // TODO: 필요시 사용
+      const format = req.query.format as SchemaFormat | undefined;
+      const tags = req.query.tags
+        ? (req.query.tags as string).split(',').map(tag => tag.trim()).filter(Boolean)
+        : undefined;
+      const search = req.query.search as string | undefined;
 
-      // 임시 구현 - 실제로는 데이터베이스에서 조회
-      const schemas: SchemaResponse[] = [];
-      const total = 0;
+      const result = await schemaRepositoryService.listSchemas({ page, limit, format, tags, search });
+      const schemas: SchemaResponse[] = result.items.map(schema => schemaRepositoryService.toResponse(schema));
+      const total = result.total;
 
       const response: ApiResponse<SchemaResponse[]> = {
         success: true,
@@ -70,17 +122,7 @@ router.get('/',
       res.json(response);
     } catch (error) {
       logger.error('스키마 목록 조회 실패', { error, requestId: req.requestId });
-      
-      const response: ApiResponse = {
-        success: false,
-        error: {
-          code: 'INTERNAL_ERROR',
-          message: '서버 내부 오류가 발생했습니다.',
-          timestamp: new Date().toISOString(),
-          requestId: req.requestId || 'unknown'
-        }
-      };
-      res.status(500).json(response);
+      sendSchemaError(req, res, error);
     }
   }
 );
@@ -89,7 +131,7 @@ router.get('/',
 router.post('/',
   [
     body('name').notEmpty().withMessage('스키마 이름은 필수입니다'),
-    body('format').isIn(['xml', 'json', 'yaml', 'xsd', 'wsdl']).withMessage('유효하지 않은 형식입니다'),
+    body('format').isIn(['xml', 'json', 'yaml', 'xsd', 'wsdl', 'openapi', 'swagger', 'avro', 'protobuf', 'thrift']).withMessage('유효하지 않은 형식입니다'),
     body('content').notEmpty().withMessage('스키마 내용은 필수입니다'),
     body('description').optional().isString().withMessage('설명은 문자열이어야 합니다'),
     body('tags').optional().isArray().withMessage('태그는 배열이어야 합니다'),
@@ -98,48 +140,13 @@ router.post('/',
   async (req: AuthenticatedRequest, res: Response) => {
     try {
       const createRequest: CreateSchemaRequest = req.body;
-      
-      // 스키마 검증 (임시 구현)
-      const validationResult = {
-        isValid: true,
-        errors: [],
-        warnings: [],
-        timestamp: new Date().toISOString()
-      };
 
-      if (!validationResult.isValid) {
-        const response: ApiResponse = {
-          success: false,
-          error: {
-            code: 'SCHEMA_VALIDATION_FAILED',
-            message: '스키마 검증에 실패했습니다',
-            details: validationResult.errors,
-            timestamp: new Date().toISOString(),
-            requestId: req.requestId || 'unknown'
-          }
-        };
-        return res.status(400).json(response);
-      }
-
-      // 스키마 생성 (임시 구현)
-      const schema: SchemaResponse = {
-        id: `schema_${Date.now()}`,
-        name: createRequest.name,
-        description: createRequest.description,
-        format: createRequest.format,
-        version: '1.0.0',
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        createdBy: req.user?.id || 'anonymous',
-        tags: createRequest.tags || [],
-        size: createRequest.content.length,
-        isValid: true,
-        lastValidation: validationResult
-      };
+      // 검증 실패 시 저장하지 않고 SCHEMA_VALIDATION_FAILED 반환
+      const created = await schemaRepositoryService.createSchema(createRequest, req.user?.id || 'anonymous');
 
       const response: ApiResponse<SchemaResponse> = {
         success: true,
-        data: schema,
+        data: schemaRepositoryService.toResponse(created),
         meta: {
           version: '2.0',
           timestamp: new Date().toISOString(),
@@ -150,17 +157,49 @@ router.post('/',
       res.status(201).json(response);
     } catch (error) {
       logger.error('스키마 생성 실패', { error, requestId: req.requestId });
-      
-      const response: ApiResponse = {
-        success: false,
-        error: {
-          code: 'INTERNAL_ERROR',
-          message: '서버 내부 오류가 발생했습니다.',
+      sendSchemaError(req, res, error);
+    }
+  }
+);
+
+// 스키마 호환성 검사 (제안된 스키마를 이전 버전과 비교)
+router.post('/compatibility',
+  [
+    body('schema.content').isString().notEmpty().withMessage('검사할 스키마 내용은 필수입니다'),
+    body('schema.format').optional().isIn(Object.values(SchemaFormat)).withMessage('유효하지 않은 형식입니다'),
+    body('previousVersions').isArray().withMessage('이전 버전 목록은 배열이어야 합니다'),
+    body('previousVersions.*.content').isString().notEmpty().withMessage('이전 버전 스키마 내용은 필수입니다'),
+    body('previousVersions.*.format').optional().isIn(Object.values(SchemaFormat)).withMessage('유효하지 않은 형식입니다'),
+    body('mode').optional().isIn(COMPATIBILITY_MODES).withMessage('유효하지 않은 호환성 모드입니다'),
+    validationMiddleware
+  ],
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { schema, previousVersions, mode } = req.body as SchemaCompatibilityRequest;
+
+      const result = await compatibilityService.check(
+        { content: schema.content, format: schema.format as SchemaFormat | undefined },
+        previousVersions.map(previous => ({
+          content: previous.content,
+          format: previous.format as SchemaFormat | undefined,
+          version: previous.version
+        })),
+        mode
+      );
+
+      const response: ApiResponse<CompatibilityCheckResult> = {
+        success: true,
+        data: result,
+        meta: {
+          version: '2.0',
           timestamp: new Date().toISOString(),
           requestId: req.requestId || 'unknown'
         }
       };
-      res.status(500).json(response);
+
+      return res.json(response);
+    } catch (error) {
+      return sendCompatibilityError(req, res, error);
     }
   }
 );
@@ -188,24 +227,11 @@ router.get('/:id',
         return res.status(400).json(response);
       }
       
-      // 임시 구현 - 실제로는 데이터베이스에서 조회
-      const schema: SchemaResponse = {
-        id: schemaId,
-        name: '샘플 스키마',
-        description: '테스트용 스키마입니다',
-        format: 'xml',
-        version: '1.0.0',
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        createdBy: 'user123',
-        tags: ['test', 'sample'],
-        size: 1024,
-        isValid: true
-      };
+      const schema = await schemaRepositoryService.getSchema(schemaId);
 
       const response: ApiResponse<SchemaResponse> = {
         success: true,
-        data: schema,
+        data: schemaRepositoryService.toResponse(schema),
         meta: {
           version: '2.0',
           timestamp: new Date().toISOString(),
@@ -216,17 +242,272 @@ router.get('/:id',
       return res.json(response);
     } catch (error) {
       logger.error('스키마 조회 실패', { error, requestId: req.requestId });
-      
+      return sendSchemaError(req, res, error);
+    }
+  }
+);
+
+// 스키마 수정 (내용이 바뀌면 재검증 후 버전 증가, 수정할 때마다 리비전 추가)
+router.put('/:id',
+  [
+    param('id').notEmpty().withMessage('스키마 ID는 필수입니다'),
+    body('name').optional().isString().notEmpty().withMessage('스키마 이름은 비어 있을 수 없습니다'),
+    body('description').optional().isString().withMessage('설명은 문자열이어야 합니다'),
+    body('content').optional().isString().notEmpty().withMessage('스키마 내용은 비어 있을 수 없습니다'),
+    body('tags').optional().isArray().withMessage('태그는 배열이어야 합니다'),
+    body('changeSummary').optional().isString().withMessage('변경 요약은 문자열이어야 합니다'),
+    validationMiddleware
+  ],
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const updateRequest: UpdateSchemaRequest = req.body;
+      const updated = await schemaRepositoryService.updateSchema(
+        req.params.id!,
+        updateRequest,
+        req.user?.id || 'anonymous'
+      );
+
+      const response: ApiResponse<SchemaResponse> = {
+        success: true,
+        data: schemaRepositoryService.toResponse(updated),
+        meta: {
+          version: '2.0',
+          timestamp: new Date().toISOString(),
+          requestId: req.requestId || 'unknown'
+        }
+      };
+
+      return res.json(response);
+    } catch (error) {
+      logger.error('스키마 수정 실패', { error, requestId: req.requestId });
+      return sendSchemaError(req, res, error);
+    }
+  }
+);
+
+// 스키마 삭제
+router.delete('/:id',
+  [
+    param('id').notEmpty().withMessage('스키마 ID는 필수입니다'),
+    validationMiddleware
+  ],
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      await schemaRepositoryService.deleteSchema(req.params.id!);
+
       const response: ApiResponse = {
-        success: false,
-        error: {
-          code: 'INTERNAL_ERROR',
-          message: '서버 내부 오류가 발생했습니다.',
+        success: true,
+        meta: {
+          version: '2.0',
+          timestamp: new Date().toISOString(),
+          requestId: req.requestId || 'unknown'
+        }
+      };
+
+      return res.json(response);
+    } catch (error) {
+      logger.error('스키마 삭제 실패', { error, requestId: req.requestId });
+      return sendSchemaError(req, res, error);
+    }
+  }
+);
+
+// 리비전 이력 조회 (오래된 순)
+router.get('/:id/revisions',
+  [
+    param('id').notEmpty().withMessage('스키마 ID는 필수입니다'),
+    validationMiddleware
+  ],
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const revisions = await schemaRepositoryService.listRevisions(req.params.id!);
+
+      const response: ApiResponse<SchemaRevisionResponse[]> = {
+        success: true,
+        data: revisions.map(revision => schemaRepositoryService.toRevisionResponse(revision)),
+        meta: {
+          version: '2.0',
           timestamp: new Date().toISOString(),
           requestId: req.requestId || 'unknown'
         }
       };
-      return res.status(500).json(response);
+
+      return res.json(response);
+    } catch (error) {
+      logger.error('리비전 이력 조회 실패', { error, requestId: req.requestId });
+      return sendSchemaError(req, res, error);
+    }
+  }
+);
+
+// 저장된 스키마의 호환성 검사 (제안된 스키마를 리비전 이력과 비교, 모드 생략 시 BACKWARD)
+router.post('/:id/compatibility',
+  [
+    param('id').notEmpty().withMessage('스키마 ID는 필수입니다'),
+    body('schema.content').isString().notEmpty().withMessage('검사할 스키마 내용은 필수입니다'),
+    body('schema.format').optional().isIn(Object.values(SchemaFormat)).withMessage('유효하지 않은 형식입니다'),
+    body('mode').optional().isIn(COMPATIBILITY_MODES).withMessage('유효하지 않은 호환성 모드입니다'),
+    validationMiddleware
+  ],
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { schema, mode } = req.body as SchemaRevisionCompatibilityRequest;
+      const revisions = await schemaRepositoryService.listRevisions(req.params.id!);
+
+      const result = await compatibilityService.check(
+        { content: schema.content, format: schema.format as SchemaFormat | undefined },
+        revisions.map(revision => ({
+          content: revision.content,
+          format: revision.format,
+          version: `${revision.version} (리비전 ${revision.revision})`
+        })),
+        mode
+      );
+
+      const response: ApiResponse<CompatibilityCheckResult> = {
+        success: true,
+        data: result,
+        meta: {
+          version: '2.0',
+          timestamp: new Date().toISOString(),
+          requestId: req.requestId || 'unknown'
+        }
+      };
+
+      return res.json(response);
+    } catch (error) {
+      return sendCompatibilityError(req, res, error);
+    }
+  }
+);
+
+// 리비전 조회 (번호 또는 태그, format 지정 시 해당 형식으로 변환)
+router.get('/:id/revisions/:revision',
+  [
+    param('id').notEmpty().withMessage('스키마 ID는 필수입니다'),
+    param('revision').notEmpty().withMessage('리비전 번호 또는 태그는 필수입니다'),
+    query('format').optional().isIn(Object.values(SchemaFormat)).withMessage('유효하지 않은 형식입니다'),
+    validationMiddleware
+  ],
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { revision, format, content } = await schemaRepositoryService.exportRevision(
+        req.params.id!,
+        req.params.revision!,
+        req.query.format as SchemaFormat | undefined
+      );
+
+      const response: ApiResponse<SchemaRevisionDetailResponse> = {
+        success: true,
+        data: schemaRepositoryService.toRevisionResponse(revision, { format, content }),
+        meta: {
+          version: '2.0',
+          timestamp: new Date().toISOString(),
+          requestId: req.requestId || 'unknown'
+        }
+      };
+
+      return res.json(response);
+    } catch (error) {
+      logger.error('리비전 조회 실패', { error, requestId: req.requestId });
+      return sendSchemaError(req, res, error);
+    }
+  }
+);
+
+// 리비전에 태그 추가 (예: released-2026Q3)
+router.post('/:id/revisions/:revision/tags',
+  [
+    param('id').notEmpty().withMessage('스키마 ID는 필수입니다'),
+    param('revision').notEmpty().withMessage('리비전 번호 또는 태그는 필수입니다'),
+    body('tag').isString().notEmpty().withMessage('태그는 필수입니다'),
+    validationMiddleware
+  ],
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { tag } = req.body as TagRevisionRequest;
+      const revision = await schemaRepositoryService.tagRevision(req.params.id!, req.params.revision!, tag);
+
+      const response: ApiResponse<SchemaRevisionResponse> = {
+        success: true,
+        data: schemaRepositoryService.toRevisionResponse(revision),
+        meta: {
+          version: '2.0',
+          timestamp: new Date().toISOString(),
+          requestId: req.requestId || 'unknown'
+        }
+      };
+
+      return res.json(response);
+    } catch (error) {
+      logger.error('리비전 태그 추가 실패', { error, requestId: req.requestId });
+      return sendSchemaError(req, res, error);
+    }
+  }
+);
+
+// 리비전 태그 삭제
+router.delete('/:id/revisions/:revision/tags/:tag',
+  [
+    param('id').notEmpty().withMessage('스키마 ID는 필수입니다'),
+    param('revision').notEmpty().withMessage('리비전 번호 또는 태그는 필수입니다'),
+    param('tag').notEmpty().withMessage('태그는 필수입니다'),
+    validationMiddleware
+  ],
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const revision = await schemaRepositoryService.untagRevision(req.params.id!, req.params.revision!, req.params.tag!);
+
+      const response: ApiResponse<SchemaRevisionResponse> = {
+        success: true,
+        data: schemaRepositoryService.toRevisionResponse(revision),
+        meta: {
+          version: '2.0',
+          timestamp: new Date().toISOString(),
+          requestId: req.requestId || 'unknown'
+        }
+      };
+
+      return res.json(response);
+    } catch (error) {
+      logger.error('리비전 태그 삭제 실패', { error, requestId: req.requestId });
+      return sendSchemaError(req, res, error);
+    }
+  }
+);
+
+// 리비전으로 롤백 (해당 내용으로 새 리비전 생성)
+router.post('/:id/revisions/:revision/rollback',
+  [
+    param('id').notEmpty().withMessage('스키마 ID는 필수입니다'),
+    param('revision').notEmpty().withMessage('리비전 번호 또는 태그는 필수입니다'),
+    body('changeSummary').optional().isString().withMessage('변경 요약은 문자열이어야 합니다'),
+    validationMiddleware
+  ],
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { changeSummary } = (req.body || {}) as RollbackSchemaRequest;
+      const schema = await schemaRepositoryService.rollbackSchema(
+        req.params.id!,
+        req.params.revision!,
+        req.user?.id || 'anonymous',
+        changeSummary
+      );
+
+      const response: ApiResponse<SchemaResponse> = {
+        success: true,
+        data: schemaRepositoryService.toResponse(schema),
+        meta: {
+          version: '2.0',
+          timestamp: new Date().toISOString(),
+          requestId: req.requestId || 'unknown'
+        }
+      };
+
+      return res.json(response);
+    } catch (error) {
+      logger.error('스키마 롤백 실패', { error, requestId: req.requestId });
+      return sendSchemaError(req, res, error);
     }
   }
 );
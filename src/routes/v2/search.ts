@@ -0,0 +1,87 @@
+/**
+ * 스키마 검색 API v2 라우터
+ * 자유 검색어와 구조화된 필터(형식, 태그, 작성자, 날짜, 크기, 필드 이름/타입)로 저장된 스키마 검색
+ */
+
+import { Router, Request, Response } from 'express';
+import { body } from 'express-validator';
+import { validationMiddleware } from '../../middleware/validationMiddleware';
+import { Logger } from '../../core/logging/Logger';
+import { SchemaRepositoryService } from '../../services/SchemaRepositoryService';
+import { MAX_SEARCH_PAGE_SIZE, SchemaSearchService, SEARCH_SORT_FIELDS } from '../../services/SchemaSearchService';
+import { getSchemaRepository } from '../../services/repository';
+import { toSchemaApiError } from '../../services/repository/schemaErrors';
+import { ApiResponse, SearchRequest, SearchResultItem } from '../../types/api-v2';
+import { SchemaFormat } from '../../types/schema';
+
+// Request 인터페이스 확장
+interface AuthenticatedRequest extends Request {
+  requestId?: string;
+  user?: { id: string };
+}
+
+const router = Router();
+const logger = new Logger('SearchAPIv2');
+const searchService = new SchemaSearchService(new SchemaRepositoryService(getSchemaRepository()));
+
+// 스키마 검색
+router.post('/',
+  [
+    body('query').optional().isString().withMessage('검색어는 문자열이어야 합니다'),
+    body('filters.format').optional().isArray().withMessage('형식 필터는 배열이어야 합니다'),
+    body('filters.format.*').isIn(Object.values(SchemaFormat)).withMessage('유효하지 않은 형식입니다'),
+    body('filters.tags').optional().isArray().withMessage('태그 필터는 배열이어야 합니다'),
+    body('filters.createdBy').optional().isArray().withMessage('작성자 필터는 배열이어야 합니다'),
+    body('filters.dateRange.from').optional().isISO8601().withMessage('시작일은 ISO 8601 형식이어야 합니다'),
+    body('filters.dateRange.to').optional().isISO8601().withMessage('종료일은 ISO 8601 형식이어야 합니다'),
+    body('filters.dateRange.field').optional().isIn(['createdAt', 'updatedAt']).withMessage('날짜 기준은 createdAt 또는 updatedAt이어야 합니다'),
+    body('filters.size.min').optional().isInt({ min: 0 }).withMessage('최소 크기는 0 이상의 정수여야 합니다'),
+    body('filters.size.max').optional().isInt({ min: 0 }).withMessage('최대 크기는 0 이상의 정수여야 합니다'),
+    body('filters.fields').optional().isArray().withMessage('필드 조건은 배열이어야 합니다'),
+    body('filters.fields.*.name').isString().notEmpty().withMessage('필드 이름은 필수입니다'),
+    body('filters.fields.*.type').optional().isString().withMessage('필드 타입은 문자열이어야 합니다'),
+    body('sort.field').optional().isIn([...SEARCH_SORT_FIELDS]).withMessage('유효하지 않은 정렬 기준입니다'),
+    body('sort.direction').optional().isIn(['asc', 'desc']).withMessage('정렬 방향은 asc 또는 desc여야 합니다'),
+    body('pagination.page').optional().isInt({ min: 1 }).withMessage('페이지는 1 이상의 정수여야 합니다'),
+    body('pagination.limit').optional().isInt({ min: 1, max: MAX_SEARCH_PAGE_SIZE })
+      .withMessage(`제한은 1-${MAX_SEARCH_PAGE_SIZE} 사이의 정수여야 합니다`),
+    validationMiddleware
+  ],
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const searchRequest = req.body as SearchRequest;
+      const { items, total, page, limit } = await searchService.search(searchRequest);
+
+      const response: ApiResponse<SearchResultItem[]> = {
+        success: true,
+        data: items,
+        meta: {
+          version: '2.0',
+          timestamp: new Date().toISOString(),
+          requestId: req.requestId || 'unknown',
+          pagination: {
+            page,
+            limit,
+            total,
+            totalPages: Math.ceil(total / limit),
+            hasNext: page * limit < total,
+            hasPrev: page > 1
+          }
+        }
+      };
+
+      return res.json(response);
+    } catch (error) {
+      logger.error('스키마 검색 실패', { error, requestId: req.requestId });
+
+      const { status, error: apiError } = toSchemaApiError(error, req.requestId || 'unknown');
+      const response: ApiResponse = {
+        success: false,
+        error: apiError
+      };
+      return res.status(status).json(response);
+    }
+  }
+);
+
+export { router as searchRouter };
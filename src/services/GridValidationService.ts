@@ -13,6 +13,9 @@ import {
   DataType
 } from '../types/grid';
 import { Logger } from '../core/logging/Logger';
+import { ExpressionSyntaxError } from '../types/errors';
+import { compileExpression } from './expression';
+import { parseRowConstraints } from './converters/gridTree';
 
 export class GridValidationService {
   private logger: Logger;
@@ -88,11 +91,9 @@ export class GridValidationService {
         for (const rule of column.validation) {
           const ruleValidation = this.validateRule(value, rule, row, col);
           if (!ruleValidation.isValid) {
-            if (rule.type === 'required') {
-              errors.push(...ruleValidation.errors);
-            } else {
-              warnings.push(...ruleValidation.warnings);
-            }
+            // required 위반과 식 문법 오류는 오류, 그 외 규칙 위반은 경고
+            errors.push(...ruleValidation.errors);
+            warnings.push(...ruleValidation.warnings);
           }
         }
       }
@@ -295,6 +296,13 @@ export class GridValidationService {
           });
         }
         break;
+
+      case 'expression': {
+        const result = this.checkExpression(String(rule.value ?? ''), { value }, undefined, row, col, rule.message);
+        errors.push(...result.errors);
+        warnings.push(...result.warnings);
+        break;
+      }
     }
 
     return {
@@ -359,6 +367,29 @@ export class GridValidationService {
       }
     }
 
+    // 행 constraints의 expression 제약: 문법 확인, 기본값이 있으면 기본값으로 평가
+    for (let row = 0; row < data.length; row++) {
+      data[row]?.forEach((cell, col) => {
+        const { expression, ...parameters } = cell ? parseRowConstraints(cell) : {};
+        if (expression === undefined) {
+          return;
+        }
+
+        const hasDefault = cell.defaultValue !== undefined && cell.defaultValue !== null && cell.defaultValue !== '';
+        const result = this.checkExpression(
+          String(expression),
+          { ...parameters, value: cell.defaultValue },
+          cell,
+          row,
+          col,
+          undefined,
+          !hasDefault
+        );
+        errors.push(...result.errors);
+        warnings.push(...result.warnings);
+      });
+    }
+
     return {
       isValid: errors.length === 0,
       errors,
@@ -366,6 +397,56 @@ export class GridValidationService {
     };
   }
 
+  /**
+   * 식 언어 제약 확인
+   * 문법 오류는 위치를 포함한 오류, 식을 만족하지 않거나 평가에 실패하면 경고
+   */
+  private checkExpression(
+    expression: string,
+    variables: Record<string, any>,
+    document: any,
+    row: number,
+    col: number,
+    message?: string,
+    syntaxOnly = false
+  ): ValidationResult {
+    const errors: ValidationError[] = [];
+    const warnings: ValidationWarning[] = [];
+
+    try {
+      const compiled = compileExpression(expression);
+      if (!syntaxOnly && !compiled.test({ variables, document })) {
+        warnings.push({
+          row,
+          col,
+          message: message || `제약 식을 만족하지 않습니다: ${expression}`,
+          type: 'expression_violation',
+          value: variables.value
+        });
+      }
+    } catch (error) {
+      if (error instanceof ExpressionSyntaxError) {
+        errors.push({
+          row,
+          col,
+          message: `제약 식 문법 오류: ${error.message}`,
+          type: 'expression_syntax',
+          value: { expression, position: error.position, line: error.line, column: error.column }
+        });
+      } else {
+        warnings.push({
+          row,
+          col,
+          message: `제약 식을 평가할 수 없습니다: ${error instanceof Error ? error.message : String(error)}`,
+          type: 'expression_violation',
+          value: variables.value
+        });
+      }
+    }
+
+    return { isValid: errors.length === 0 && warnings.length === 0, errors, warnings };
+  }
+
   /**
    * 날짜 유효성 검증
    */
@@ -0,0 +1,279 @@
+/**
+ * 필드 변경 영향 분석 서비스
+ * 저장된 스키마와 메시지 매핑 규칙에서 필드 사용처를 찾고, 이름 변경/타입 변경/삭제 시 깨지는 스키마, 매핑, 협업 세션을 알려줌
+ */
+
+import { SchemaGridData } from '../types/schema';
+import { CollaborationSession } from '../types/collaboration';
+import { NotFoundError, ValidationError } from '../types/errors';
+import {
+  FieldChange,
+  FieldReference,
+  FieldUsageResult,
+  ImpactAnalysisRequest,
+  ImpactAnalysisResult,
+  MappingImpact,
+  SchemaImpact,
+  SessionImpact
+} from '../types/impact';
+import { Logger } from '../core/logging/Logger';
+import { SchemaRepositoryService } from './SchemaRepositoryService';
+import { SchemaDiffService } from './SchemaDiffService';
+import { MessageMappingService } from './messageMappingService';
+import { FieldUsageIndex, IndexedMappingUsage, renameMappingPath, toFieldSegments } from './impact/FieldUsageIndex';
+import { escapePathSegment, getParentPath, isContainerRow, joinPath, PATH_SEPARATOR, resolveRowPath } from './converters/gridTree';
+
+/**
+ * 영향 분석 서비스 구현체
+ */
+export class ImpactAnalysisService {
+  private logger: Logger;
+
+  constructor(
+    private repositoryService: SchemaRepositoryService,
+    private mappingService: MessageMappingService,
+    // 협업 서비스가 초기화되지 않은 환경에서는 빈 목록
+    private sessionSource: () => CollaborationSession[] = () => [],
+    private diffService: SchemaDiffService = new SchemaDiffService()
+  ) {
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * 필드를 사용하는 스키마 필드와 매핑 규칙 조회
+   */
+  async findUsages(reference: FieldReference): Promise<FieldUsageResult> {
+    const field = this.normalizeField(reference.field);
+    const index = await this.buildIndex(reference.schemaId);
+
+    return {
+      field,
+      schemas: index.findSchemaFields(field, reference.schemaId),
+      mappings: index.findMappingUsages(field).map(({ segments: _segments, ...usage }) => usage)
+    };
+  }
+
+  /**
+   * 필드 변경을 적용했을 때의 영향 분석
+   */
+  async analyze(request: ImpactAnalysisRequest): Promise<ImpactAnalysisResult> {
+    const field = this.normalizeField(request.field);
+    this.validateChange(request.change);
+
+    const index = await this.buildIndex(request.schemaId);
+    const fields = index.findSchemaFields(field, request.schemaId);
+    if (request.schemaId && fields.length === 0) {
+      throw new NotFoundError(`스키마에 필드가 없습니다: ${field}`, 'field', field);
+    }
+
+    const schemas = await this.analyzeSchemas(fields, request.change);
+    const mappings = index.findMappingUsages(field).map(usage => this.analyzeMappingUsage(usage, field, request.change));
+    const sessions = this.findSessions(
+      new Set([...schemas.map(schema => schema.schemaId), ...mappings.map(mapping => mapping.mappingId)])
+    );
+
+    const mappingIds = new Set(mappings.map(mapping => mapping.mappingId));
+    const breaking = schemas.some(schema => schema.isBreaking) || mappings.some(mapping => mapping.level === 'breaking');
+
+    this.logger.info('필드 영향 분석 완료', {
+      field,
+      change: request.change.kind,
+      schemaCount: schemas.length,
+      mappingCount: mappingIds.size,
+      sessionCount: sessions.length,
+      breaking
+    });
+
+    return {
+      field,
+      change: request.change,
+      schemas,
+      mappings,
+      sessions,
+      summary: {
+        schemaCount: schemas.length,
+        mappingCount: mappingIds.size,
+        ruleCount: mappings.length,
+        sessionCount: sessions.length,
+        breaking
+      },
+      analyzedAt: new Date().toISOString()
+    };
+  }
+
+  private async buildIndex(schemaId?: string): Promise<FieldUsageIndex> {
+    const schemas = schemaId
+      ? [await this.repositoryService.getSchema(schemaId)]
+      : (await this.repositoryService.listSchemas({ limit: Number.MAX_SAFE_INTEGER })).items;
+
+    await this.mappingService.ready();
+    const ruleSets = this.mappingService.getRuleMappingIds().map(mappingId => ({
+      mappingId,
+      rules: this.mappingService.getAdvancedMappingRules(mappingId),
+      transformations: this.mappingService.getTransformationRules(mappingId)
+    }));
+
+    return new FieldUsageIndex(schemas, ruleSets);
+  }
+
+  /**
+   * 스키마별로 변경을 적용한 그리드를 현재 그리드와 비교
+   */
+  private async analyzeSchemas(fields: FieldUsageResult['schemas'], change: FieldChange): Promise<SchemaImpact[]> {
+    const bySchema = new Map<string, FieldUsageResult['schemas']>();
+    fields.forEach(usage => bySchema.set(usage.schemaId, [...(bySchema.get(usage.schemaId) || []), usage]));
+
+    const impacts: SchemaImpact[] = [];
+    for (const [schemaId, usages] of bySchema) {
+      const schema = await this.repositoryService.getSchema(schemaId);
+      const current = schema.gridData || [];
+      const changed = this.applyChange(current, usages.map(usage => usage.path), change);
+      const report = this.diffService.diffGrids(current, changed, {
+        detectRenames: change.kind === 'rename',
+        // 의도한 이름 변경이므로 이름 유사도와 관계없이 이름 변경으로 판단
+        renameSimilarity: 0
+      });
+
+      impacts.push({
+        schemaId,
+        schemaName: schema.name,
+        version: schema.version,
+        fields: usages,
+        changes: report.changes,
+        isBreaking: report.isBreaking
+      });
+    }
+
+    return impacts;
+  }
+
+  /**
+   * 그리드 사본에 필드 변경 적용 (하위 필드 경로도 함께 변경)
+   */
+  private applyChange(gridData: SchemaGridData[][], targets: string[], change: FieldChange): SchemaGridData[][] {
+    const isUnder = (path: string | undefined, target: string) =>
+      !!path && (path === target || path.startsWith(`${target}${PATH_SEPARATOR}`));
+
+    let rows = gridData.map(group => group.map(row => ({ ...row })));
+
+    // 깊은 경로부터 적용해야 상위 필드 이름 변경 전에 하위 필드를 찾을 수 있음
+    for (const target of [...targets].sort((a, b) => b.length - a.length)) {
+      const targetRow = rows.find(group => group[0] && resolveRowPath(group[0]) === target)?.[0];
+      if (!targetRow) {
+        continue;
+      }
+
+      switch (change.kind) {
+        case 'remove':
+          rows = rows.filter(group => !group[0] || !isUnder(resolveRowPath(group[0]), target));
+          break;
+
+        case 'retype': {
+          const wasContainer = isContainerRow(targetRow);
+          targetRow.dataType = change.newType;
+          targetRow.itemType = change.newType.toLowerCase() === 'array' ? change.newItemType : undefined;
+          delete targetRow.typeRef;
+          if (wasContainer && !isContainerRow(targetRow)) {
+            rows = rows.filter(group => !group[0] || !isUnder(group[0].parentPath, target));
+          }
+          break;
+        }
+
+        case 'rename': {
+          const renamed = joinPath(getParentPath(target), change.newName);
+          const move = (path: string) => `${renamed}${path.substring(target.length)}`;
+          targetRow.fieldName = change.newName;
+          rows.forEach(group => {
+            const row = group[0];
+            if (!row) {
+              return;
+            }
+            if (isUnder(row.path, target)) {
+              row.path = move(row.path!);
+            }
+            if (isUnder(row.parentPath, target)) {
+              row.parentPath = move(row.parentPath!);
+            }
+          });
+          break;
+        }
+      }
+    }
+
+    return rows;
+  }
+
+  private analyzeMappingUsage(usage: IndexedMappingUsage, field: string, change: FieldChange): MappingImpact {
+    const { segments, ...reference } = usage;
+    const query = toFieldSegments(field);
+    const fieldName = query[query.length - 1]!;
+
+    // 조건/변환 식은 필드 이름만 보고 찾으므로 항상 검토 대상
+    if (!segments) {
+      return {
+        ...reference,
+        level: 'review',
+        reason: `식에서 ${fieldName}을(를) 참조합니다`,
+        suggestedExpression: change.kind === 'rename'
+          ? reference.expression.replace(new RegExp(`\\b${this.escapeRegExp(fieldName)}\\b`, 'g'), change.newName)
+          : undefined
+      };
+    }
+
+    switch (change.kind) {
+      case 'rename':
+        return {
+          ...reference,
+          level: 'breaking',
+          reason: `이름이 바뀐 필드 ${field}의 경로를 참조합니다`,
+          suggestedExpression: renameMappingPath(reference.expression, query, change.newName)
+        };
+      case 'remove':
+        return { ...reference, level: 'breaking', reason: `삭제된 필드 ${field}의 경로를 참조합니다` };
+      case 'retype':
+        return { ...reference, level: 'review', reason: `필드 ${field}의 타입이 ${change.newType}(으)로 바뀝니다` };
+    }
+  }
+
+  private findSessions(ids: Set<string>): SessionImpact[] {
+    return this.sessionSource()
+      .filter(session => ids.has(session.schemaId))
+      .map(session => ({
+        sessionId: session.id,
+        schemaId: session.schemaId,
+        name: session.name,
+        onlineUsers: session.activeUsers.filter(user => user.isOnline).map(user => user.id)
+      }));
+  }
+
+  private normalizeField(field: string | undefined): string {
+    const segments = toFieldSegments(field || '');
+    if (segments.length === 0) {
+      throw new ValidationError('필드 이름 또는 경로는 필수입니다', 'field', field);
+    }
+    return segments.map(escapePathSegment).join(PATH_SEPARATOR);
+  }
+
+  private validateChange(change: FieldChange | undefined): void {
+    switch (change?.kind) {
+      case 'rename':
+        if (!change.newName?.trim() || change.newName.includes(PATH_SEPARATOR)) {
+          throw new ValidationError('새 필드 이름은 점(.)이 없는 이름이어야 합니다', 'change.newName', change.newName);
+        }
+        return;
+      case 'retype':
+        if (!change.newType?.trim()) {
+          throw new ValidationError('새 타입은 필수입니다', 'change.newType', change.newType);
+        }
+        return;
+      case 'remove':
+        return;
+      default:
+        throw new ValidationError('변경 종류는 rename, retype, remove 중 하나여야 합니다', 'change.kind', (change as any)?.kind);
+    }
+  }
+
+  private escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
@@ -0,0 +1,431 @@
+/**
+ * 룩업 테이블(코드 목록) 서비스
+ * 매핑 변환에서 이름으로 참조하는 코드 변환표 (국가 코드, 단위 코드, 시스템 간 상태 값 등)
+ *
+ * - 항목이 바뀔 때마다(생성, 수정, CSV 가져오기) 새 버전을 남기며 변환에서 버전을 고정해 참조할 수 있음
+ * - 설명, 없는 값 정책, 기본값은 테이블 설정이라 버전과 무관하게 현재 값을 사용
+ * - CSV는 key, value, description 열 (머리글 필수, 열 순서 무관)
+ * - 시작할 때 저장소의 테이블을 메모리에 올리고 변경할 때마다 해당 테이블을 다시 저장
+ *   (매핑 실행 중의 값 조회는 메모리에서 동기로 처리)
+ */
+
+import {
+  LookupCsvImportOptions,
+  LookupEntriesInput,
+  LookupEntry,
+  LookupMissPolicy,
+  LookupResolveOptions,
+  LookupTable,
+  LookupTableInput,
+  LookupTableRecord,
+  LookupTableResolver,
+  LookupTableStore,
+  LookupTableUpdate,
+  LookupTableVersion
+} from '../types/lookup';
+import { ConflictError, InternalServerError, NotFoundError, ValidationError } from '../types/errors';
+import { Logger } from '../core/logging/Logger';
+import { InMemoryLookupTableStore } from './lookup/InMemoryLookupTableStore';
+
+const TABLE_NAME_PATTERN = /^[A-Za-z_][\w.-]{0,99}$/;
+const MISS_POLICIES: LookupMissPolicy[] = ['default', 'fail'];
+const CSV_COLUMNS = ['key', 'value', 'description'];
+
+interface StoredVersion extends LookupTableVersion {
+  entries: LookupEntry[];
+  index: Map<string, LookupEntry>;
+  // getEntries 결과 (버전은 바뀌지 않으므로 처음 만들 때 보관)
+  record?: Record<string, any>;
+}
+
+interface StoredTable {
+  name: string;
+  description?: string;
+  missPolicy: LookupMissPolicy;
+  defaultValue?: any;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy?: string;
+  versions: StoredVersion[];
+}
+
+/**
+ * 룩업 키 (없는 값은 빈 문자열)
+ */
+function toKey(value: any): string {
+  return value === undefined || value === null ? '' : String(value);
+}
+
+/**
+ * RFC 4180 CSV 파싱 (따옴표 안의 쉼표/줄바꿈, "" 이스케이프)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index]!;
+    if (quoted) {
+      if (char === '"' && source[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[index + 1] === '\n') {
+        index++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new ValidationError('CSV의 따옴표가 닫히지 않았습니다', 'csv');
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // 빈 줄 제외
+  return rows.filter(cells => cells.some(cell => cell !== ''));
+}
+
+function toCsvField(value: any): string {
+  const text = value === undefined || value === null
+    ? ''
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * 룩업 테이블 서비스 구현체
+ */
+export class LookupTableService implements LookupTableResolver {
+  private logger: Logger;
+  private tables = new Map<string, StoredTable>();
+  private loaded: Promise<void>;
+  // 이전 상태가 나중 상태를 덮어쓰지 않도록 저장은 순서대로 처리
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private readonly store: LookupTableStore = new InMemoryLookupTableStore()) {
+    this.logger = Logger.getInstance();
+    this.loaded = this.store.loadAll()
+      .then(records => {
+        records.forEach(record => this.tables.set(record.name, this.fromRecord(record)));
+      })
+      .catch(error => {
+        this.logger.error('룩업 테이블 로드 실패', { error });
+        throw new InternalServerError('저장된 룩업 테이블을 불러올 수 없습니다', error);
+      });
+    // 실패는 ready()와 변경 메서드에서 드러나므로 처리되지 않은 거부로 남기지 않음
+    this.loaded.catch(() => undefined);
+  }
+
+  /**
+   * 저장된 테이블을 모두 읽을 때까지 대기 (조회 전에 호출)
+   */
+  ready(): Promise<void> {
+    return this.loaded;
+  }
+
+  listTables(): LookupTable[] {
+    return Array.from(this.tables.values())
+      .sort((left, right) => left.name.localeCompare(right.name))
+      .map(table => this.toTable(table, this.currentVersion(table)));
+  }
+
+  /**
+   * 테이블 조회 (version을 주면 해당 버전의 항목)
+   */
+  getTable(name: string, version?: number): LookupTable {
+    const table = this.findTable(name);
+    return this.toTable(table, this.findVersion(table, version));
+  }
+
+  async createTable(input: LookupTableInput, createdBy?: string): Promise<LookupTable> {
+    await this.loaded;
+    if (typeof input.name !== 'string' || !TABLE_NAME_PATTERN.test(input.name)) {
+      throw new ValidationError(
+        '테이블 이름은 영문자 또는 _로 시작하고 영문자, 숫자, _, ., -만 사용할 수 있습니다 (최대 100자)',
+        'name',
+        input.name
+      );
+    }
+    if (this.tables.has(input.name)) {
+      throw new ConflictError(`이미 있는 룩업 테이블입니다: ${input.name}`, 'lookupTable');
+    }
+
+    const now = new Date();
+    const table: StoredTable = {
+      name: input.name,
+      description: input.description,
+      missPolicy: this.normalizePolicy(input.missPolicy),
+      defaultValue: input.defaultValue,
+      createdAt: now,
+      updatedAt: now,
+      createdBy,
+      versions: []
+    };
+    this.addVersion(table, this.normalizeEntries(input.entries || []), { createdBy, comment: '최초 생성' });
+    this.tables.set(table.name, table);
+    await this.persist(table.name);
+
+    this.logger.info('룩업 테이블 생성 완료', { name: table.name, entryCount: table.versions[0]!.entryCount });
+    return this.toTable(table, this.currentVersion(table));
+  }
+
+  async updateTable(name: string, update: LookupTableUpdate, updatedBy?: string): Promise<LookupTable> {
+    await this.loaded;
+    const table = this.findTable(name);
+    // 항목 검증이 끝난 뒤에 설정을 바꿔 실패한 수정이 일부만 반영되지 않게 함
+    const entries = update.entries !== undefined ? this.normalizeEntries(update.entries) : undefined;
+    const missPolicy = update.missPolicy !== undefined ? this.normalizePolicy(update.missPolicy) : table.missPolicy;
+
+    table.missPolicy = missPolicy;
+    if (update.description !== undefined) {
+      table.description = update.description;
+    }
+    if (update.defaultValue !== undefined) {
+      table.defaultValue = update.defaultValue;
+    }
+    if (entries) {
+      this.addVersion(table, entries, { createdBy: updatedBy, comment: update.comment });
+    }
+    table.updatedAt = new Date();
+    await this.persist(name);
+
+    this.logger.info('룩업 테이블 수정 완료', { name, version: this.currentVersion(table).version });
+    return this.toTable(table, this.currentVersion(table));
+  }
+
+  async deleteTable(name: string): Promise<void> {
+    await this.loaded;
+    this.findTable(name);
+    this.tables.delete(name);
+    await this.persist(name);
+    this.logger.info('룩업 테이블 삭제 완료', { name });
+  }
+
+  listVersions(name: string): LookupTableVersion[] {
+    return this.findTable(name).versions
+      .map(({ version, entryCount, createdAt, createdBy, comment }) => ({ version, entryCount, createdAt, createdBy, comment }))
+      .reverse();
+  }
+
+  /**
+   * CSV 가져오기 (테이블이 있으면 항목 전체를 새 버전으로 교체, 없으면 생성)
+   */
+  async importCsv(name: string, csv: string, options: LookupCsvImportOptions = {}): Promise<LookupTable> {
+    await this.loaded;
+    const entries = this.parseCsvEntries(csv);
+    if (!this.tables.has(name)) {
+      const { description, missPolicy, defaultValue } = options;
+      return this.createTable({ name, description, missPolicy, defaultValue, entries }, options.createdBy);
+    }
+    return this.updateTable(name, { entries, comment: options.comment || 'CSV 가져오기' }, options.createdBy);
+  }
+
+  exportCsv(name: string, version?: number): string {
+    const { entries } = this.findVersion(this.findTable(name), version);
+    const lines = [CSV_COLUMNS.join(',')];
+    entries.forEach(entry => lines.push([entry.key, entry.value, entry.description].map(toCsvField).join(',')));
+    return `${lines.join('\r\n')}\r\n`;
+  }
+
+  /**
+   * 값 변환 (없는 값은 options 또는 테이블의 정책에 따름)
+   */
+  resolve(name: string, key: any, options: LookupResolveOptions = {}): any {
+    const table = this.tables.get(name);
+    if (!table) {
+      throw new ValidationError(`룩업 테이블을 찾을 수 없습니다: ${name}`, 'table', name);
+    }
+
+    const code = toKey(key);
+    const entry = this.findVersion(table, options.version).index.get(code);
+    if (entry) {
+      return entry.value;
+    }
+
+    if ((options.missPolicy || table.missPolicy) === 'fail') {
+      throw new ValidationError(`룩업 테이블 ${name}에 없는 값입니다: ${code}`, 'value', key);
+    }
+    const fallback = options.defaultValue !== undefined ? options.defaultValue : table.defaultValue;
+    return fallback === undefined ? key : fallback;
+  }
+
+  getEntries(name: string, version?: number): Record<string, any> | undefined {
+    const table = this.tables.get(name);
+    if (!table) {
+      return undefined;
+    }
+    const found = this.findVersion(table, version);
+    found.record ??= Object.fromEntries(found.entries.map(entry => [entry.key, entry.value]));
+    return found.record;
+  }
+
+  private findTable(name: string): StoredTable {
+    const table = this.tables.get(name);
+    if (!table) {
+      throw new NotFoundError('룩업 테이블을 찾을 수 없습니다', 'lookupTable', name);
+    }
+    return table;
+  }
+
+  private findVersion(table: StoredTable, version?: number): StoredVersion {
+    if (version === undefined) {
+      return this.currentVersion(table);
+    }
+    const found = table.versions.find(item => item.version === Number(version));
+    if (!found) {
+      throw new NotFoundError(`룩업 테이블 ${table.name}에 버전 ${version}이 없습니다`, 'lookupTableVersion', `${table.name}@${version}`);
+    }
+    return found;
+  }
+
+  /**
+   * 테이블의 현재 상태를 저장소에 반영 (없으면 삭제)
+   */
+  private async persist(name: string): Promise<void> {
+    const table = this.tables.get(name);
+    const record = table ? this.toRecord(table) : undefined;
+    const write = this.pendingWrite.then(async () => {
+      if (record) {
+        await this.store.save(record);
+      } else {
+        await this.store.delete(name);
+      }
+    });
+    this.pendingWrite = write.catch(() => undefined);
+    await write;
+  }
+
+  private toRecord(table: StoredTable): LookupTableRecord {
+    return {
+      ...table,
+      versions: table.versions.map(({ version, entryCount, createdAt, createdBy, comment, entries }) => (
+        { version, entryCount, createdAt, createdBy, comment, entries }
+      ))
+    };
+  }
+
+  private fromRecord(record: LookupTableRecord): StoredTable {
+    return {
+      ...record,
+      versions: record.versions.map(version => ({
+        ...version,
+        index: new Map(version.entries.map(entry => [entry.key, entry]))
+      }))
+    };
+  }
+
+  private currentVersion(table: StoredTable): StoredVersion {
+    return table.versions[table.versions.length - 1]!;
+  }
+
+  private addVersion(table: StoredTable, entries: LookupEntry[], change: { createdBy?: string; comment?: string }): void {
+    table.versions.push({
+      version: table.versions.length + 1,
+      entryCount: entries.length,
+      createdAt: new Date(),
+      createdBy: change.createdBy,
+      comment: change.comment,
+      entries,
+      index: new Map(entries.map(entry => [entry.key, entry]))
+    });
+  }
+
+  private normalizePolicy(policy: any): LookupMissPolicy {
+    if (policy === undefined) {
+      return 'default';
+    }
+    if (!MISS_POLICIES.includes(policy)) {
+      throw new ValidationError(`없는 값 정책은 ${MISS_POLICIES.join(', ')} 중 하나여야 합니다`, 'missPolicy', policy);
+    }
+    return policy;
+  }
+
+  /**
+   * 항목 목록으로 정리 (키는 문자열, 빈 키와 중복 키는 오류)
+   */
+  private normalizeEntries(input: LookupEntriesInput): LookupEntry[] {
+    if (!input || typeof input !== 'object') {
+      throw new ValidationError('항목은 목록 또는 { 키: 값 } 객체여야 합니다', 'entries', input);
+    }
+    const raw: any[] = Array.isArray(input) ? input : Object.entries(input).map(([key, value]) => ({ key, value }));
+
+    const seen = new Set<string>();
+    return raw.map((item, index) => {
+      if (!item || typeof item !== 'object') {
+        throw new ValidationError(`entries[${index}]: { key, value } 형태여야 합니다`, 'entries', item);
+      }
+      const key = toKey(item.key);
+      if (key === '') {
+        throw new ValidationError(`entries[${index}]: 키가 비어 있습니다`, 'entries', item);
+      }
+      if (seen.has(key)) {
+        throw new ValidationError(`중복된 키입니다: ${key}`, 'entries', key);
+      }
+      seen.add(key);
+      return {
+        key,
+        value: item.value,
+        ...(item.description ? { description: String(item.description) } : {})
+      };
+    });
+  }
+
+  private parseCsvEntries(csv: string): LookupEntry[] {
+    if (typeof csv !== 'string') {
+      throw new ValidationError('CSV 내용이 필요합니다', 'csv');
+    }
+
+    const [header, ...rows] = parseCsv(csv);
+    if (!header) {
+      throw new ValidationError('CSV 내용이 비어 있습니다', 'csv');
+    }
+    const columns = header.map(cell => cell.trim().toLowerCase());
+    const keyColumn = columns.indexOf('key');
+    const valueColumn = columns.indexOf('value');
+    const descriptionColumn = columns.indexOf('description');
+    if (keyColumn < 0 || valueColumn < 0) {
+      throw new ValidationError('CSV 머리글에 key, value 열이 필요합니다', 'csv', header);
+    }
+
+    return this.normalizeEntries(rows.map(cells => ({
+      key: cells[keyColumn],
+      value: cells[valueColumn] ?? '',
+      description: descriptionColumn >= 0 ? cells[descriptionColumn] : undefined
+    })));
+  }
+
+  private toTable(table: StoredTable, version: StoredVersion): LookupTable {
+    return {
+      name: table.name,
+      description: table.description,
+      missPolicy: table.missPolicy,
+      defaultValue: table.defaultValue,
+      version: version.version,
+      entries: version.entries.map(entry => ({ ...entry })),
+      createdAt: table.createdAt,
+      updatedAt: table.updatedAt,
+      createdBy: table.createdBy
+    };
+  }
+}
@@ -0,0 +1,483 @@
+/**
+ * 샘플 메시지 생성기
+ * 그리드 데이터(또는 지원하는 스키마 형식)로부터 제약을 만족하는 XML/JSON/YAML 예제 메시지를 생성
+ */
+
+import * as xml2js from 'xml2js';
+import * as yaml from 'js-yaml';
+import { SchemaFormat, SchemaGridData } from '../types/schema';
+import {
+  SampleMessageFormat,
+  SampleMessageOptions,
+  SampleMessageResult,
+  SchemaSampleMessageOptions
+} from '../types/sample';
+import { Logger } from '../core/logging/Logger';
+import { SchemaConverter } from './SchemaConverter';
+import { buildGridTree, collectSharedTypes, GridTreeNode, parseRowConstraints } from './converters/gridTree';
+import { XsdSchemaReader } from './converters/XsdSchemaReader';
+import { PatternSampler } from './sample/PatternSampler';
+import { SeededRandom } from './sample/SeededRandom';
+
+/**
+ * 생성된 값 트리 (XML 속성/텍스트 구분을 위해 원본 노드를 함께 보관)
+ */
+interface SampleValue {
+  node: GridTreeNode;
+  // 단순 값
+  value?: any;
+  // object 하위 필드 (단순 값 요소의 경우 XML 속성)
+  fields?: SampleValue[];
+  // 배열 항목
+  items?: SampleValue[];
+}
+
+/**
+ * 생성 컨텍스트
+ */
+interface SampleContext {
+  random: SeededRandom;
+  sharedTypes: Map<string, GridTreeNode>;
+  options: Required<Pick<SampleMessageOptions, 'optionalFields' | 'arrayItems' | 'maxDepth'>>;
+  warnings: string[];
+}
+
+/**
+ * 기본 생성 옵션
+ */
+const DEFAULT_ARRAY_ITEMS = 2;
+const DEFAULT_MAX_DEPTH = 8;
+
+/**
+ * 날짜 값 생성 기준 (2020-01-01부터 약 5년 범위)
+ */
+const BASE_DATE = Date.UTC(2020, 0, 1);
+const DATE_RANGE_DAYS = 1826;
+
+/**
+ * 샘플 문자열에 사용할 문자
+ */
+const ALPHANUMERIC = 'abcdefghijklmnopqrstuvwxyz0123456789';
+
+/**
+ * 샘플 메시지 생성기 구현체
+ */
+export class SampleMessageGenerator {
+  private logger: Logger;
+  private patternSampler = new PatternSampler();
+
+  constructor(private converter: SchemaConverter = new SchemaConverter()) {
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * 그리드 데이터로부터 샘플 메시지 생성
+   */
+  generate(gridData: SchemaGridData[][], options: SampleMessageOptions = {}): SampleMessageResult {
+    const format = options.format || 'json';
+    if (!['xml', 'json', 'yaml'].includes(format)) {
+      throw new Error(`지원하지 않는 샘플 메시지 형식: ${format}`);
+    }
+
+    const tree = buildGridTree(gridData);
+    const context: SampleContext = {
+      random: SeededRandom.from(options.seed),
+      sharedTypes: collectSharedTypes(tree),
+      options: {
+        optionalFields: options.optionalFields || 'all',
+        arrayItems: options.arrayItems ?? DEFAULT_ARRAY_ITEMS,
+        maxDepth: options.maxDepth ?? DEFAULT_MAX_DEPTH
+      },
+      warnings: []
+    };
+
+    const fields = this.buildFields(tree, context, 0);
+    const data = this.toPlainObject(fields);
+
+    this.logger.info('샘플 메시지 생성 완료', {
+      format,
+      seed: context.random.seed,
+      fieldCount: fields.length,
+      warningCount: context.warnings.length
+    });
+
+    return {
+      format,
+      content: this.serialize(format, fields, data, options),
+      data,
+      seed: context.random.seed,
+      warnings: context.warnings
+    };
+  }
+
+  /**
+   * 스키마 문서를 그리드로 불러온 뒤 샘플 메시지 생성
+   */
+  async generateFromSchema(
+    schema: string,
+    sourceFormat: SchemaFormat,
+    options: SchemaSampleMessageOptions = {}
+  ): Promise<SampleMessageResult> {
+    const gridData = await this.converter.toGrid(schema, sourceFormat, options.import);
+
+    // XSD 리더는 단일 루트 요소를 벗겨내므로 루트 이름을 생략하면 원래 요소 이름을 사용
+    if (sourceFormat === SchemaFormat.XSD && !options.rootName) {
+      const reader = new XsdSchemaReader();
+      await reader.read(schema);
+      const elementNames = reader.getGlobalElementNames();
+      if (elementNames.length === 1) {
+        return this.generate(gridData, { ...options, rootName: elementNames[0] });
+      }
+    }
+
+    return this.generate(gridData, options);
+  }
+
+  /**
+   * 필드 목록 값 생성 (선택 필드는 옵션에 따라 포함)
+   */
+  private buildFields(nodes: GridTreeNode[], context: SampleContext, depth: number): SampleValue[] {
+    return nodes
+      .filter(node => this.shouldInclude(node.row, context))
+      .map(node => this.buildField(node, context, depth));
+  }
+
+  /**
+   * 단일 필드 값 생성
+   */
+  private buildField(node: GridTreeNode, context: SampleContext, depth: number): SampleValue {
+    const row = node.row;
+
+    if ((row.dataType || '').toLowerCase() === 'array') {
+      const count = this.resolveArrayCount(row, context);
+      const itemType = (row.itemType || 'string').toLowerCase();
+      return {
+        node,
+        items: Array.from({ length: count }, () => this.buildContent(node, itemType, context, depth))
+      };
+    }
+
+    return this.buildContent(node, (row.dataType || 'string').toLowerCase(), context, depth);
+  }
+
+  /**
+   * object 또는 단순 값 생성
+   */
+  private buildContent(node: GridTreeNode, dataType: string, context: SampleContext, depth: number): SampleValue {
+    const children = this.resolveChildren(node, context);
+
+    if (dataType === 'object') {
+      if (depth >= context.options.maxDepth) {
+        context.warnings.push(`${node.path}: 최대 깊이(${context.options.maxDepth})에 도달하여 하위 필드를 생성하지 않았습니다`);
+        return { node, fields: [] };
+      }
+      return { node, fields: this.buildFields(children, context, depth + 1) };
+    }
+
+    const sample: SampleValue = { node, value: this.generateScalar(node, dataType, context) };
+
+    // 텍스트 내용과 속성을 함께 가진 요소 (XML simpleContent)
+    const attributes = children.filter(child => child.row.isAttribute);
+    if (attributes.length > 0) {
+      sample.fields = this.buildFields(attributes, context, depth + 1);
+    }
+
+    return sample;
+  }
+
+  /**
+   * 하위 노드 (하위 행이 없는 typeRef 참조는 공유 정의 사용)
+   */
+  private resolveChildren(node: GridTreeNode, context: SampleContext): GridTreeNode[] {
+    if (node.children.length > 0 || !node.row.typeRef) {
+      return node.children;
+    }
+    return context.sharedTypes.get(node.row.typeRef)?.children || [];
+  }
+
+  /**
+   * 선택 필드 포함 여부
+   */
+  private shouldInclude(row: SchemaGridData, context: SampleContext): boolean {
+    if (row.required) {
+      return true;
+    }
+
+    switch (context.options.optionalFields) {
+      case 'required':
+        return false;
+      case 'random':
+        return context.random.next() < 0.5;
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * 배열 항목 수 (minItems/maxItems 범위로 보정)
+   */
+  private resolveArrayCount(row: SchemaGridData, context: SampleContext): number {
+    const constraints = parseRowConstraints(row);
+    const minItems = typeof constraints.minItems === 'number' ? constraints.minItems : 0;
+    const maxItems = typeof constraints.maxItems === 'number' ? constraints.maxItems : Number.MAX_SAFE_INTEGER;
+    return Math.min(Math.max(context.options.arrayItems, minItems), maxItems);
+  }
+
+  /**
+   * 단순 값 생성 (기본값 > 열거값 > 타입별 생성 순)
+   */
+  private generateScalar(node: GridTreeNode, dataType: string, context: SampleContext): any {
+    const row = node.row;
+    const constraints = parseRowConstraints(row);
+
+    if (row.defaultValue !== undefined && row.defaultValue !== null && row.defaultValue !== '') {
+      return this.coerceValue(row.defaultValue, dataType);
+    }
+
+    const enumValues = row.enumValues || constraints.enum;
+    if (Array.isArray(enumValues) && enumValues.length > 0) {
+      return this.coerceValue(context.random.pick(enumValues), dataType);
+    }
+
+    switch (dataType) {
+      case 'boolean':
+        return context.random.next() < 0.5;
+      case 'integer':
+        return this.generateNumber(constraints, context, 0);
+      case 'number':
+        return this.generateNumber(
+          constraints,
+          context,
+          typeof constraints.fractionDigits === 'number' ? constraints.fractionDigits : 2
+        );
+      case 'date':
+        return this.generateDate(context).toISOString().substring(0, 10);
+      case 'datetime':
+        return this.generateDate(context).toISOString().replace(/\.\d{3}Z$/, 'Z');
+      case 'time':
+        return this.generateDate(context).toISOString().substring(11, 19);
+      default:
+        return this.generateString(node, constraints, context);
+    }
+  }
+
+  /**
+   * 범위 제약을 만족하는 숫자 생성
+   */
+  private generateNumber(constraints: Record<string, any>, context: SampleContext, fractionDigits: number): number {
+    const step = Math.pow(10, -fractionDigits);
+    let minimum = typeof constraints.minimum === 'number' ? constraints.minimum : undefined;
+    let maximum = typeof constraints.maximum === 'number' ? constraints.maximum : undefined;
+
+    if (typeof constraints.exclusiveMinimum === 'number') {
+      minimum = constraints.exclusiveMinimum + step;
+    }
+    if (typeof constraints.exclusiveMaximum === 'number') {
+      maximum = constraints.exclusiveMaximum - step;
+    }
+
+    // totalDigits는 정수부 자릿수 상한
+    if (typeof constraints.totalDigits === 'number') {
+      const limit = Math.pow(10, constraints.totalDigits - fractionDigits) - step;
+      maximum = maximum === undefined ? limit : Math.min(maximum, limit);
+    }
+
+    minimum = minimum ?? (maximum !== undefined && maximum < 1 ? maximum - 1000 : 1);
+    maximum = maximum ?? minimum + 1000;
+
+    const scale = Math.pow(10, fractionDigits);
+    const low = Math.ceil(minimum * scale);
+    const high = Math.floor(maximum * scale);
+    if (high < low) {
+      context.warnings.push(`범위 제약을 만족하는 숫자가 없습니다 (${minimum} ~ ${maximum})`);
+      return minimum;
+    }
+
+    let value = context.random.int(low, high);
+    if (typeof constraints.multipleOf === 'number' && constraints.multipleOf > 0) {
+      const multiple = Math.round(constraints.multipleOf * scale);
+      value = Math.max(low, Math.min(high, Math.round(value / multiple) * multiple));
+    }
+
+    return Number((value / scale).toFixed(fractionDigits));
+  }
+
+  /**
+   * 기준일로부터 임의 날짜/시간 생성
+   */
+  private generateDate(context: SampleContext): Date {
+    const days = context.random.int(0, DATE_RANGE_DAYS);
+    const seconds = context.random.int(0, 86399);
+    return new Date(BASE_DATE + days * 86400000 + seconds * 1000);
+  }
+
+  /**
+   * 패턴/형식/길이 제약을 만족하는 문자열 생성
+   */
+  private generateString(node: GridTreeNode, constraints: Record<string, any>, context: SampleContext): string {
+    const row = node.row;
+    const minLength = row.minLength ?? (typeof constraints.minLength === 'number' ? constraints.minLength : undefined);
+    const maxLength = row.maxLength ?? (typeof constraints.maxLength === 'number' ? constraints.maxLength : undefined);
+    const pattern = row.pattern || (typeof constraints.pattern === 'string' ? constraints.pattern : undefined);
+
+    if (pattern) {
+      try {
+        const value = this.patternSampler.generate(pattern, context.random, { minLength, maxLength });
+        if (value !== undefined) {
+          return value;
+        }
+        context.warnings.push(`${node.path}: 패턴과 길이 제약을 함께 만족하는 값을 생성하지 못했습니다`);
+      } catch (error) {
+        context.warnings.push(`${node.path}: ${error instanceof Error ? error.message : '패턴을 해석할 수 없습니다'}`);
+      }
+    }
+
+    const formatted = this.generateFormattedString(constraints.format, node, context);
+    if (formatted !== undefined) {
+      return formatted;
+    }
+
+    // 필드명 기반 값에 임의 문자를 붙이고 길이 제약에 맞게 조정
+    const base = (row.fieldName || 'value').replace(/[^A-Za-z0-9]/g, '') || 'value';
+    const targetMin = minLength ?? 1;
+    const targetMax = Math.max(targetMin, maxLength ?? Math.max(targetMin, base.length + 4));
+    const length = context.random.int(targetMin, targetMax);
+
+    let value = `${base}${this.randomAlphanumeric(4, context)}`;
+    while (value.length < length) {
+      value += this.randomAlphanumeric(length - value.length, context);
+    }
+    return value.substring(0, length);
+  }
+
+  /**
+   * format 제약 (email, uuid, uri, date, date-time) 값 생성
+   */
+  private generateFormattedString(format: any, node: GridTreeNode, context: SampleContext): string | undefined {
+    switch (format) {
+      case 'email':
+        return `${node.row.fieldName.replace(/[^A-Za-z0-9]/g, '').toLowerCase() || 'user'}${context.random.int(1, 999)}@example.com`;
+      case 'uuid': {
+        const hex = Array.from({ length: 32 }, () => context.random.int(0, 15).toString(16)).join('');
+        return `${hex.substring(0, 8)}-${hex.substring(8, 12)}-4${hex.substring(13, 16)}-a${hex.substring(17, 20)}-${hex.substring(20)}`;
+      }
+      case 'uri':
+      case 'url':
+        return `https://example.com/${this.randomAlphanumeric(8, context)}`;
+      case 'date':
+        return this.generateDate(context).toISOString().substring(0, 10);
+      case 'date-time':
+        return this.generateDate(context).toISOString().replace(/\.\d{3}Z$/, 'Z');
+      default:
+        return undefined;
+    }
+  }
+
+  private randomAlphanumeric(length: number, context: SampleContext): string {
+    return Array.from({ length }, () => ALPHANUMERIC[context.random.int(0, ALPHANUMERIC.length - 1)]).join('');
+  }
+
+  /**
+   * 기본값/열거값을 데이터 타입에 맞게 변환
+   */
+  private coerceValue(value: any, dataType: string): any {
+    switch (dataType) {
+      case 'integer':
+      case 'number': {
+        const numeric = Number(value);
+        return Number.isFinite(numeric) ? numeric : value;
+      }
+      case 'boolean':
+        return typeof value === 'boolean' ? value : String(value).toLowerCase() === 'true' || value === '1';
+      default:
+        return typeof value === 'string' ? value : String(value);
+    }
+  }
+
+  /**
+   * 값 트리를 일반 객체로 변환 (JSON/YAML)
+   */
+  private toPlainObject(fields: SampleValue[]): Record<string, any> {
+    const result: Record<string, any> = {};
+    fields.forEach(field => {
+      result[field.node.row.fieldName] = this.toPlainValue(field);
+    });
+    return result;
+  }
+
+  private toPlainValue(sample: SampleValue): any {
+    if (sample.items) {
+      return sample.items.map(item => this.toPlainValue(item));
+    }
+    if (sample.value !== undefined) {
+      return sample.value;
+    }
+    return this.toPlainObject(sample.fields || []);
+  }
+
+  /**
+   * 형식별 직렬화
+   */
+  private serialize(
+    format: SampleMessageFormat,
+    fields: SampleValue[],
+    data: Record<string, any>,
+    options: SampleMessageOptions
+  ): string {
+    switch (format) {
+      case 'xml': {
+        const root = this.toXMLElement(fields);
+        if (options.namespace) {
+          root.$ = { xmlns: options.namespace, ...(root.$ || {}) };
+        }
+        // 최상위 키가 하나인 객체는 xml2js가 그 키를 루트로 사용하므로 직접 감싸서 전달
+        const builder = new xml2js.Builder({
+          xmldec: { version: '1.0', encoding: 'UTF-8' },
+          renderOpts: { pretty: true, indent: '  ' }
+        });
+        return builder.buildObject({ [options.rootName || 'root']: root });
+      }
+      case 'yaml':
+        return yaml.dump(data, { indent: 2, lineWidth: 120 });
+      default:
+        return JSON.stringify(data, null, 2);
+    }
+  }
+
+  /**
+   * 값 트리를 xml2js 요소 객체로 변환 (isAttribute 행은 속성, 배열은 반복 요소)
+   */
+  private toXMLElement(fields: SampleValue[], text?: any): Record<string, any> {
+    const element: Record<string, any> = {};
+
+    fields.forEach(field => {
+      const name = field.node.row.fieldName;
+
+      if (field.node.row.isAttribute) {
+        element.$ = { ...(element.$ || {}), [name]: this.toXMLText(field.value) };
+        return;
+      }
+
+      element[name] = field.items
+        ? field.items.map(item => this.toXMLContent(item))
+        : this.toXMLContent(field);
+    });
+
+    if (text !== undefined) {
+      element._ = this.toXMLText(text);
+    }
+
+    return element;
+  }
+
+  private toXMLContent(sample: SampleValue): any {
+    if (sample.value !== undefined && !sample.fields) {
+      return this.toXMLText(sample.value);
+    }
+    return this.toXMLElement(sample.fields || [], sample.value);
+  }
+
+  private toXMLText(value: any): string {
+    return typeof value === 'string' ? value : String(value);
+  }
+}
@@ -0,0 +1,342 @@
+/**
+ * 스키마 일괄 작업 서비스
+ * 여러 스키마에 대한 create/update/delete/convert/validate 작업을 한 번에 실행하고 항목별 결과를 반환
+ */
+
+import {
+  BatchConvertData,
+  BatchConvertResult,
+  BatchOperation,
+  BatchRequest,
+  BatchResponse,
+  BatchResult,
+  BatchValidateData,
+  CreateSchemaRequest,
+  SchemaBatchData,
+  UpdateSchemaRequest
+} from '../types/api-v2';
+import { SchemaFormat } from '../types/schema';
+import { SchemaConversionError, ValidationError } from '../types/errors';
+import { Logger } from '../core/logging/Logger';
+import { SchemaConversionService } from './SchemaConversionService';
+import { SchemaRepositoryService } from './SchemaRepositoryService';
+import { toSchemaApiError } from './repository/schemaErrors';
+
+export const MAX_BATCH_OPERATIONS = 500;
+export const MAX_BATCH_CONCURRENCY = 10;
+
+export interface BatchContext {
+  userId: string;
+  requestId: string;
+}
+
+// 작업 결과와 트랜잭션 실패 시 변경을 되돌리는 함수
+interface OperationOutcome {
+  data?: any;
+  id?: string;
+  undo?: () => Promise<void>;
+}
+
+/**
+ * 스키마 일괄 작업 서비스 구현체
+ */
+export class SchemaBatchService {
+  private logger: Logger;
+
+  constructor(
+    private repositoryService: SchemaRepositoryService,
+    private conversionService: SchemaConversionService = new SchemaConversionService()
+  ) {
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * 일괄 작업 실행
+   * - transactional: 순서대로 실행하다 실패하면 중단하고 적용한 변경을 역순으로 되돌림
+   * - continueOnError: 실패해도 나머지 작업 계속 (아니면 첫 실패 이후 작업은 건너뜀)
+   */
+  async execute(request: BatchRequest<SchemaBatchData>, context: BatchContext): Promise<BatchResponse<any>> {
+    const startTime = Date.now();
+    const { operations } = request;
+    const options = request.options || {};
+
+    if (operations.length > MAX_BATCH_OPERATIONS) {
+      throw new ValidationError(`한 번에 최대 ${MAX_BATCH_OPERATIONS}개의 작업만 실행할 수 있습니다`, 'operations', operations.length);
+    }
+
+    const deadline = options.timeout ? startTime + options.timeout : Infinity;
+    const results: BatchResult<any>[] = new Array(operations.length);
+    let rolledBack = false;
+
+    if (options.transactional) {
+      rolledBack = await this.runTransactional(operations, results, context, deadline);
+    } else {
+      const concurrency = Math.min(Math.max(options.maxConcurrency || 1, 1), MAX_BATCH_CONCURRENCY);
+      await this.runIndependent(operations, results, context, deadline, concurrency, options.continueOnError ?? false);
+    }
+
+    const skipped = results.filter(result => result.skipped).length;
+    const successful = results.filter(result => result.success).length;
+    const summary = {
+      total: operations.length,
+      successful,
+      failed: operations.length - successful - skipped,
+      skipped,
+      rolledBack,
+      duration: Date.now() - startTime
+    };
+
+    this.logger.info('일괄 작업 완료', { ...summary, transactional: !!options.transactional, requestId: context.requestId });
+    return { results, summary };
+  }
+
+  private async runTransactional(
+    operations: BatchOperation<SchemaBatchData>[],
+    results: BatchResult<any>[],
+    context: BatchContext,
+    deadline: number
+  ): Promise<boolean> {
+    const applied: Array<{ index: number; undo?: () => Promise<void> }> = [];
+    let failedAt = -1;
+
+    for (const [index, operation] of operations.entries()) {
+      if (Date.now() > deadline) {
+        results[index] = this.timeoutResult(operation, index, context);
+        failedAt = index;
+        break;
+      }
+
+      try {
+        const outcome = await this.runOperation(operation, context);
+        results[index] = { success: true, operation: operation.operation, id: outcome.id, data: outcome.data, index };
+        applied.push({ index, undo: outcome.undo });
+      } catch (error) {
+        results[index] = this.failureResult(operation, index, error, context);
+        failedAt = index;
+        break;
+      }
+    }
+
+    if (failedAt === -1) {
+      return false;
+    }
+
+    for (let index = failedAt + 1; index < operations.length; index++) {
+      results[index] = this.skippedResult(operations[index]!, index, 'BATCH_ABORTED', '트랜잭션이 중단되어 실행하지 않았습니다', context);
+    }
+
+    // 적용한 변경을 역순으로 되돌림 (convert/validate처럼 변경이 없는 작업은 결과 유지)
+    for (const { index, undo } of applied.reverse()) {
+      if (!undo) {
+        continue;
+      }
+      try {
+        await undo();
+        results[index] = { ...results[index]!, success: false, rolledBack: true };
+      } catch (error) {
+        this.logger.error('일괄 작업 되돌리기 실패', {
+          index,
+          error: error instanceof Error ? error.message : '알 수 없는 오류',
+          requestId: context.requestId
+        });
+        results[index] = {
+          ...results[index]!,
+          error: toSchemaApiError(error, context.requestId).error
+        };
+      }
+    }
+    return true;
+  }
+
+  private async runIndependent(
+    operations: BatchOperation<SchemaBatchData>[],
+    results: BatchResult<any>[],
+    context: BatchContext,
+    deadline: number,
+    concurrency: number,
+    continueOnError: boolean
+  ): Promise<void> {
+    let cursor = 0;
+    let aborted = false;
+
+    const worker = async () => {
+      while (cursor < operations.length) {
+        const index = cursor++;
+        const operation = operations[index]!;
+
+        if (aborted) {
+          results[index] = this.skippedResult(operation, index, 'BATCH_ABORTED', '앞선 작업이 실패하여 실행하지 않았습니다', context);
+          continue;
+        }
+        if (Date.now() > deadline) {
+          results[index] = this.timeoutResult(operation, index, context);
+          continue;
+        }
+
+        try {
+          const outcome = await this.runOperation(operation, context);
+          results[index] = { success: true, operation: operation.operation, id: outcome.id, data: outcome.data, index };
+        } catch (error) {
+          results[index] = this.failureResult(operation, index, error, context);
+          if (!continueOnError) {
+            aborted = true;
+          }
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, operations.length) }, () => worker()));
+  }
+
+  private async runOperation(operation: BatchOperation<SchemaBatchData>, context: BatchContext): Promise<OperationOutcome> {
+    switch (operation.operation) {
+      case 'create': {
+        const data = this.requireData<CreateSchemaRequest>(operation, ['name', 'format', 'content']);
+        this.assertFormat(data.format, 'data.format');
+        const created = await this.repositoryService.createSchema(data, context.userId);
+        return {
+          id: created.id,
+          data: this.repositoryService.toResponse(created),
+          undo: () => this.repositoryService.deleteSchema(created.id)
+        };
+      }
+
+      case 'update': {
+        const id = this.requireId(operation);
+        const data = this.requireData<UpdateSchemaRequest>(operation, []);
+        const snapshot = await this.repositoryService.snapshot(id);
+        const updated = await this.repositoryService.updateSchema(id, data, context.userId);
+        return {
+          id,
+          data: this.repositoryService.toResponse(updated),
+          undo: () => this.repositoryService.restoreSnapshot(snapshot)
+        };
+      }
+
+      case 'delete': {
+        const id = this.requireId(operation);
+        const snapshot = await this.repositoryService.snapshot(id);
+        await this.repositoryService.deleteSchema(id);
+        return { id, undo: () => this.repositoryService.restoreSnapshot(snapshot) };
+      }
+
+      case 'convert':
+        return { id: operation.id, data: await this.convert(operation) };
+
+      case 'validate': {
+        let content: string;
+        let format: SchemaFormat;
+        if (operation.id) {
+          const schema = await this.repositoryService.getSchema(operation.id);
+          content = schema.originalContent;
+          format = schema.format;
+        } else {
+          const data = this.requireData<BatchValidateData>(operation, ['content', 'format']);
+          format = this.assertFormat(data.format, 'data.format');
+          content = data.content;
+        }
+        return { id: operation.id, data: await this.conversionService.validateSchema(content, format) };
+      }
+
+      default:
+        throw new ValidationError(`지원하지 않는 작업입니다: ${(operation as BatchOperation<unknown>).operation}`, 'operation');
+    }
+  }
+
+  /**
+   * 저장된 스키마(id) 또는 data.content를 대상 형식으로 변환
+   */
+  private async convert(operation: BatchOperation<SchemaBatchData>): Promise<BatchConvertResult> {
+    const data = (operation.data || {}) as BatchConvertData;
+    const targetFormat = this.assertFormat(data.targetFormat, 'data.targetFormat');
+
+    let content: string;
+    let sourceFormat: SchemaFormat | null;
+    if (operation.id) {
+      const schema = await this.repositoryService.getSchema(operation.id);
+      content = schema.originalContent;
+      sourceFormat = schema.format;
+    } else {
+      if (typeof data.content !== 'string' || data.content.length === 0) {
+        throw new ValidationError('변환할 스키마 id 또는 data.content가 필요합니다', 'data.content');
+      }
+      content = data.content;
+      sourceFormat = data.sourceFormat
+        ? this.assertFormat(data.sourceFormat, 'data.sourceFormat')
+        : await this.conversionService.detectSchemaFormat(content);
+      if (!sourceFormat) {
+        throw new ValidationError('스키마 형식을 감지할 수 없습니다. data.sourceFormat을 지정하세요', 'data.sourceFormat');
+      }
+    }
+
+    const result = await this.conversionService.convertBetweenFormats(content, sourceFormat, targetFormat);
+    const converted = result.xml ?? result.json ?? result.yaml ?? result.idl;
+    if (result.errors.length > 0 || converted === undefined) {
+      throw new SchemaConversionError(
+        result.errors[0]?.message || `${targetFormat} 형식으로 변환할 수 없습니다`,
+        sourceFormat,
+        targetFormat
+      );
+    }
+
+    return { format: targetFormat, content: converted, warnings: result.warnings.map(warning => warning.message) };
+  }
+
+  private requireId(operation: BatchOperation<SchemaBatchData>): string {
+    if (!operation.id) {
+      throw new ValidationError(`${operation.operation} 작업에는 id가 필요합니다`, 'id');
+    }
+    return operation.id;
+  }
+
+  private requireData<T>(operation: BatchOperation<SchemaBatchData>, fields: string[]): T {
+    const data = operation.data as Record<string, unknown> | undefined;
+    if (!data || typeof data !== 'object') {
+      throw new ValidationError(`${operation.operation} 작업에는 data가 필요합니다`, 'data');
+    }
+
+    const missing = fields.find(field => data[field] === undefined || data[field] === '');
+    if (missing) {
+      throw new ValidationError(`data.${missing}은(는) 필수입니다`, `data.${missing}`);
+    }
+    return data as T;
+  }
+
+  private assertFormat(format: unknown, field: string): SchemaFormat {
+    if (!Object.values(SchemaFormat).includes(format as SchemaFormat)) {
+      throw new ValidationError('유효하지 않은 형식입니다', field, format);
+    }
+    return format as SchemaFormat;
+  }
+
+  private failureResult(operation: BatchOperation<SchemaBatchData>, index: number, error: unknown, context: BatchContext): BatchResult<any> {
+    return {
+      success: false,
+      operation: operation.operation,
+      id: operation.id,
+      index,
+      error: toSchemaApiError(error, context.requestId).error
+    };
+  }
+
+  private skippedResult(
+    operation: BatchOperation<SchemaBatchData>,
+    index: number,
+    code: string,
+    message: string,
+    context: BatchContext
+  ): BatchResult<any> {
+    return {
+      success: false,
+      skipped: true,
+      operation: operation.operation,
+      id: operation.id,
+      index,
+      error: { code, message, timestamp: new Date().toISOString(), requestId: context.requestId }
+    };
+  }
+
+  private timeoutResult(operation: BatchOperation<SchemaBatchData>, index: number, context: BatchContext): BatchResult<any> {
+    return this.skippedResult(operation, index, 'BATCH_TIMEOUT', '제한 시간을 초과하여 실행하지 않았습니다', context);
+  }
+}
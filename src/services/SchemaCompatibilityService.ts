@@ -0,0 +1,168 @@
+/**
+ * 스키마 호환성 검사 서비스
+ * 생산자/소비자 진화 규칙(BACKWARD, FORWARD, FULL, *_TRANSITIVE)에 따라 제안된 스키마를 이전 버전과 비교
+ */
+
+import { SchemaChange, SchemaChangeType, SchemaDiffInput, SchemaDiffReport } from '../types/diff';
+import {
+  CompatibilityCheckResult,
+  CompatibilityMode,
+  CompatibilityViolation,
+  SchemaVersionSnapshot
+} from '../types/compatibility';
+import { Logger } from '../core/logging/Logger';
+import { SchemaDiffService } from './SchemaDiffService';
+
+/**
+ * 스키마 호환성 검사 서비스 구현체
+ */
+export class SchemaCompatibilityService {
+  private logger: Logger;
+
+  constructor(private diffService: SchemaDiffService = new SchemaDiffService()) {
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * 제안된 스키마를 이전 버전 목록(오래된 순)과 비교
+   * 이전 버전이 없으면 첫 버전이므로 항상 호환
+   */
+  async check(
+    proposed: SchemaDiffInput,
+    history: SchemaVersionSnapshot[],
+    mode: CompatibilityMode = 'BACKWARD'
+  ): Promise<CompatibilityCheckResult> {
+    const versions = this.selectVersions(history, mode);
+    // 버전 이름이 없으면 이력 내 순번(1부터)으로 표시
+    const offset = history.length - versions.length;
+    const labels = versions.map((previous, index) => previous.version || String(offset + index + 1));
+    const violations: CompatibilityViolation[] = [];
+
+    for (const [index, previous] of versions.entries()) {
+      if (this.checksBackward(mode)) {
+        // 이전 버전 메시지가 새 스키마에서도 유효해야 함
+        const report = await this.diffService.diffSchemas(previous, proposed, { detectRenames: false });
+        violations.push(...this.toViolations(report, 'BACKWARD', labels[index]!));
+      }
+
+      if (this.checksForward(mode)) {
+        // 새 버전 메시지가 이전 스키마에서도 유효해야 함 (역방향 비교)
+        const report = await this.diffService.diffSchemas(proposed, previous, { detectRenames: false });
+        violations.push(...this.toViolations(report, 'FORWARD', labels[index]!));
+      }
+    }
+
+    this.logger.info('스키마 호환성 검사 완료', {
+      mode,
+      checkedVersions: labels.length,
+      violationCount: violations.length
+    });
+
+    return {
+      compatible: violations.length === 0,
+      mode,
+      checkedVersions: labels,
+      violations
+    };
+  }
+
+  /**
+   * 모드에 따라 비교할 이전 버전 선택 (TRANSITIVE는 전체, 그 외는 직전 버전)
+   */
+  private selectVersions(history: SchemaVersionSnapshot[], mode: CompatibilityMode): SchemaVersionSnapshot[] {
+    if (mode === 'NONE' || history.length === 0) {
+      return [];
+    }
+    return mode.endsWith('_TRANSITIVE') ? history : history.slice(-1);
+  }
+
+  private checksBackward(mode: CompatibilityMode): boolean {
+    return mode.startsWith('BACKWARD') || mode.startsWith('FULL');
+  }
+
+  private checksForward(mode: CompatibilityMode): boolean {
+    return mode.startsWith('FORWARD') || mode.startsWith('FULL');
+  }
+
+  /**
+   * 읽는 쪽 스키마가 쓰는 쪽 메시지를 읽지 못하게 하는 변경만 위반으로 변환
+   * BACKWARD는 이전 버전→새 스키마, FORWARD는 새 스키마→이전 버전 diff이므로 같은 규칙으로 방향별 위반이 갈림
+   * 이름 변경은 직렬화된 메시지 기준으로 삭제+추가와 같으므로 diff에서 감지하지 않음
+   */
+  private toViolations(
+    report: SchemaDiffReport,
+    direction: 'BACKWARD' | 'FORWARD',
+    version: string
+  ): CompatibilityViolation[] {
+    return report.changes
+      .filter(change => this.breaksReader(change))
+      .map(change => ({
+        direction,
+        version,
+        path: change.path,
+        oldPath: change.oldPath,
+        changeType: direction === 'BACKWARD' ? change.type : this.invertChangeType(change.type),
+        reason: this.describeViolation(change, direction, version)
+      }));
+  }
+
+  /**
+   * 쓰는 쪽→읽는 쪽 diff의 변경이 쓰는 쪽 메시지를 읽는 쪽에서 무효로 만드는지 판단
+   * 필드 삭제는 읽는 쪽이 무시하면 되므로 위반이 아님 (반대 방향에서는 필수 필드 추가로 나타남)
+   */
+  private breaksReader(change: SchemaChange): boolean {
+    switch (change.type) {
+      case 'FIELD_ADDED':
+      case 'TYPE_CHANGED':
+      case 'REQUIRED_CHANGED':
+        // 필수 필드 추가, 좁아진 타입, 선택→필수 변경만 breaking으로 표시됨
+        return change.severity === 'breaking';
+      case 'CONSTRAINT_TIGHTENED':
+      case 'CONSTRAINT_CHANGED':
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * FORWARD 검사는 역방향 diff이므로 위반 유형을 새 스키마 기준으로 되돌림
+   */
+  private invertChangeType(type: SchemaChangeType): SchemaChangeType {
+    switch (type) {
+      case 'FIELD_ADDED':
+        return 'FIELD_REMOVED';
+      case 'FIELD_REMOVED':
+        return 'FIELD_ADDED';
+      case 'CONSTRAINT_TIGHTENED':
+        return 'CONSTRAINT_LOOSENED';
+      case 'CONSTRAINT_LOOSENED':
+        return 'CONSTRAINT_TIGHTENED';
+      default:
+        return type;
+    }
+  }
+
+  private describeViolation(change: SchemaChange, direction: 'BACKWARD' | 'FORWARD', version: string): string {
+    if (direction === 'BACKWARD') {
+      return `버전 ${version} 메시지를 새 스키마로 읽을 수 없음 - ${change.message}`;
+    }
+
+    // 역방향 비교 결과이므로 새 스키마 관점으로 다시 설명
+    let detail: string;
+    switch (change.type) {
+      case 'FIELD_ADDED':
+        detail = `${change.path}: 이전 스키마의 필수 필드가 새 스키마에 없습니다`;
+        break;
+      case 'REQUIRED_CHANGED':
+        detail = `${change.path}: 이전 스키마에서는 필수 필드입니다`;
+        break;
+      case 'TYPE_CHANGED':
+        detail = `${change.path}: 새 타입 ${change.before} 값을 이전 타입 ${change.after}(으)로 읽을 수 없습니다`;
+        break;
+      default:
+        detail = `${change.path}: 이전 스키마의 ${change.constraint} 제약이 더 엄격합니다`;
+    }
+    return `새 스키마 메시지를 버전 ${version} 스키마로 읽을 수 없음 - ${detail}`;
+  }
+}
@@ -4,7 +4,17 @@
  */
 
 import { SchemaConverter, ISchemaConverter } from './SchemaConverter';
-import { SchemaGridData, SchemaFormat, ConversionResult, ValidationResult } from '../types/schema';
+import {
+  SchemaGridData,
+  SchemaFormat,
+  ConversionResult,
+  ValidationResult,
+  FormatConversionOptions,
+  SchemaImportOptions
+} from '../types/schema';
+import { OpenApiDocumentSummary } from '../types/openapi';
+import { OpenApiDocumentReader } from './converters/OpenApiDocumentReader';
+import { WsdlDefinition, WsdlGenerationSpec, WsdlOperationSelection } from '../types/wsdl';
 import { Logger } from '../core/logging/Logger';
 
 /**
@@ -19,7 +29,7 @@ export interface ISchemaConversionService {
   /**
    * 스키마를 그리드 데이터로 변환
    */
-  convertToGrid(schema: string, sourceFormat: SchemaFormat): Promise<SchemaGridData[][]>;
+  convertToGrid(schema: string, sourceFormat: SchemaFormat, options?: SchemaImportOptions): Promise<SchemaGridData[][]>;
   
   /**
    * 스키마 검증
@@ -34,7 +44,12 @@ export interface ISchemaConversionService {
   /**
    * 형식 간 직접 변환
    */
-  convertBetweenFormats(schema: string, sourceFormat: SchemaFormat, targetFormat: SchemaFormat): Promise<ConversionResult>;
+  convertBetweenFormats(
+    schema: string,
+    sourceFormat: SchemaFormat,
+    targetFormat: SchemaFormat,
+    options?: FormatConversionOptions
+  ): Promise<ConversionResult>;
 }
 
 /**
@@ -42,10 +57,13 @@ export interface ISchemaConversionService {
  */
 export class SchemaConversionService implements ISchemaConversionService {
   private converter: ISchemaConverter;
+  private documentConverter: SchemaConverter;
   private logger: Logger;
 
   constructor(converter?: ISchemaConverter) {
     this.converter = converter || new SchemaConverter();
+    // 주입된 변환기가 WSDL/OpenAPI 문서 단위 기능을 지원하지 않으면 기본 변환기 사용
+    this.documentConverter = this.converter instanceof SchemaConverter ? this.converter : new SchemaConverter();
     this.logger = Logger.getInstance();
   }
 
@@ -86,6 +104,18 @@ export class SchemaConversionService implements ISchemaConversionService {
           case SchemaFormat.YAML:
             combinedResult.yaml = result.yaml;
             break;
+          case SchemaFormat.OPENAPI:
+          case SchemaFormat.SWAGGER:
+            combinedResult.json = result.json;
+            combinedResult.yaml = result.yaml;
+            break;
+          case SchemaFormat.AVRO:
+            combinedResult.json = result.json;
+            break;
+          case SchemaFormat.PROTOBUF:
+          case SchemaFormat.THRIFT:
+            combinedResult.idl = result.idl;
+            break;
         }
       }
 
@@ -117,7 +147,7 @@ export class SchemaConversionService implements ISchemaConversionService {
   /**
    * 스키마를 그리드 데이터로 변환
    */
-  async convertToGrid(schema: string, sourceFormat: SchemaFormat): Promise<SchemaGridData[][]> {
+  async convertToGrid(schema: string, sourceFormat: SchemaFormat, options?: SchemaImportOptions): Promise<SchemaGridData[][]> {
     this.logger.info('스키마를 그리드 데이터로 변환 시작', {
       sourceFormat,
       schemaLength: schema.length,
@@ -136,7 +166,7 @@ export class SchemaConversionService implements ISchemaConversionService {
       }
 
       // 그리드 데이터로 변환
-      const gridData = await this.converter.toGrid(schema, sourceFormat);
+      const gridData = await this.converter.toGrid(schema, sourceFormat, options);
 
       this.logger.info('스키마를 그리드 데이터로 변환 완료', {
         sourceFormat,
@@ -212,7 +242,8 @@ export class SchemaConversionService implements ISchemaConversionService {
   async convertBetweenFormats(
     schema: string, 
     sourceFormat: SchemaFormat, 
-    targetFormat: SchemaFormat
+    targetFormat: SchemaFormat,
+    options: FormatConversionOptions = {}
   ): Promise<ConversionResult> {
     this.logger.info('형식 간 직접 변환 시작', {
       sourceFormat,
@@ -223,10 +254,10 @@ export class SchemaConversionService implements ISchemaConversionService {
 
     try {
       // 1단계: 소스 스키마를 그리드 데이터로 변환
-      const gridData = await this.convertToGrid(schema, sourceFormat);
+      const gridData = await this.convertToGrid(schema, sourceFormat, options.source);
 
       // 2단계: 그리드 데이터를 대상 형식으로 변환
-      const result = await this.converter.fromGrid(gridData, targetFormat);
+      const result = await this.converter.fromGrid(gridData, targetFormat, options.target);
 
       this.logger.info('형식 간 직접 변환 완료', {
         sourceFormat,
@@ -258,6 +289,75 @@ export class SchemaConversionService implements ISchemaConversionService {
     }
   }
 
+  /**
+   * OpenAPI/Swagger 문서에서 불러올 수 있는 component schema와 operation 목록 조회
+   */
+  getOpenApiSummary(content: string): OpenApiDocumentSummary {
+    this.logger.info('OpenAPI 문서 분석 시작', {
+      schemaLength: content.length,
+      operation: 'getOpenApiSummary'
+    });
+
+    return this.documentConverter.readOpenAPI(content);
+  }
+
+  /**
+   * WSDL 문서의 서비스/바인딩/포트 타입/오퍼레이션 모델 조회
+   */
+  async getWsdlDefinition(wsdl: string): Promise<WsdlDefinition> {
+    this.logger.info('WSDL 모델 분석 시작', {
+      schemaLength: wsdl.length,
+      operation: 'getWsdlDefinition'
+    });
+
+    try {
+      return await this.documentConverter.readWSDL(wsdl);
+    } catch (error) {
+      this.logger.error('WSDL 모델 분석 중 오류 발생', {
+        error: error instanceof Error ? error.message : '알 수 없는 오류',
+        operation: 'getWsdlDefinition'
+      });
+
+      throw new Error(`WSDL 분석 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
+    }
+  }
+
+  /**
+   * WSDL 오퍼레이션의 요청/응답/fault 메시지를 그리드 데이터로 변환
+   */
+  async convertWsdlOperationToGrid(wsdl: string, selection: WsdlOperationSelection): Promise<SchemaGridData[][]> {
+    this.logger.info('WSDL 오퍼레이션을 그리드 데이터로 변환 시작', {
+      wsdlOperation: selection.operation,
+      direction: selection.direction || 'input',
+      operation: 'convertWsdlOperationToGrid'
+    });
+
+    try {
+      return await this.documentConverter.wsdlOperationToGrid(wsdl, selection);
+    } catch (error) {
+      this.logger.error('WSDL 오퍼레이션 변환 중 오류 발생', {
+        error: error instanceof Error ? error.message : '알 수 없는 오류',
+        wsdlOperation: selection.operation,
+        operation: 'convertWsdlOperationToGrid'
+      });
+
+      throw new Error(`WSDL 오퍼레이션 변환 실패: ${error instanceof Error ? error.message : '알 수 없는 오류'}`);
+    }
+  }
+
+  /**
+   * 오퍼레이션별 요청/응답 그리드로 전체 WSDL 생성
+   */
+  async generateWsdl(spec: WsdlGenerationSpec): Promise<string> {
+    this.logger.info('WSDL 생성 시작', {
+      serviceName: spec.serviceName,
+      operationCount: spec.operations.length,
+      operation: 'generateWsdl'
+    });
+
+    return this.documentConverter.generateWSDL(spec);
+  }
+
   /**
    * 스키마 형식 자동 감지
    */
@@ -267,6 +367,16 @@ export class SchemaConversionService implements ISchemaConversionService {
       operation: 'detectSchemaFormat'
     });
 
+    // OpenAPI/Swagger, Avro 문서는 JSON/YAML로도 유효하므로 문서 구조로 먼저 판별
+    const documentFormat = OpenApiDocumentReader.detectFormat(schema) || this.detectIdlFormat(schema);
+    if (documentFormat) {
+      this.logger.info('스키마 형식 감지 완료', {
+        detectedFormat: documentFormat,
+        operation: 'detectSchemaFormat'
+      });
+      return documentFormat;
+    }
+
     const formats = [SchemaFormat.JSON, SchemaFormat.XML, SchemaFormat.YAML, SchemaFormat.XSD, SchemaFormat.WSDL];
     
     for (const format of formats) {
@@ -292,14 +402,48 @@ export class SchemaConversionService implements ISchemaConversionService {
     return null;
   }
 
+  /**
+   * 내용으로 Avro/Protobuf/Thrift 형식 판별
+   */
+  private detectIdlFormat(schema: string): SchemaFormat | null {
+    const trimmed = schema.trim();
+
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+      try {
+        const parsed = JSON.parse(trimmed);
+        const candidates: any[] = Array.isArray(parsed) ? parsed : parsed.protocol ? parsed.types || [] : [parsed];
+        return candidates.some(candidate => candidate?.type === 'record' && Array.isArray(candidate.fields))
+          ? SchemaFormat.AVRO
+          : null;
+      } catch {
+        return null;
+      }
+    }
+
+    if (/^\s*syntax\s*=\s*["']proto[23]["']/m.test(schema) || /^\s*message\s+\w+\s*\{/m.test(schema)) {
+      return SchemaFormat.PROTOBUF;
+    }
+
+    if (/^\s*(struct|exception)\s+\w+\s*\{/m.test(schema)) {
+      return SchemaFormat.THRIFT;
+    }
+
+    return null;
+  }
+
   /**
    * 스키마 변환 (통합 테스트용)
    */
-  async convertSchema(content: string, sourceFormat: string, targetFormat: string): Promise<ConversionResult> {
+  async convertSchema(
+    content: string,
+    sourceFormat: string,
+    targetFormat: string,
+    options?: FormatConversionOptions
+  ): Promise<ConversionResult> {
     const source = sourceFormat.toLowerCase() as SchemaFormat;
     const target = targetFormat.toLowerCase() as SchemaFormat;
     
-    return this.convertBetweenFormats(content, source, target);
+    return this.convertBetweenFormats(content, source, target, options);
   }
 
   /**
@@ -3,10 +3,36 @@
  * 그리드 데이터와 다양한 스키마 형식 간의 변환을 담당
  */
 
-import { SchemaGridData, SchemaFormat, ConversionResult, ValidationResult } from '../types/schema';
+import {
+  SchemaGridData,
+  SchemaFormat,
+  ConversionResult,
+  ValidationResult,
+  SchemaExportOptions,
+  SchemaImportOptions,
+  XmlSchemaExportOptions
+} from '../types/schema';
+import { OpenApiDocumentSummary, OpenApiExportOptions, OpenApiSelection } from '../types/openapi';
+import { WsdlDefinition, WsdlGenerationSpec, WsdlOperationSelection } from '../types/wsdl';
 import { Logger } from '../core/logging/Logger';
 import * as xml2js from 'xml2js';
 import * as yaml from 'js-yaml';
+import {
+  buildGridTree,
+  collectSharedTypes,
+  createNestedRow,
+  GridTreeNode,
+  isContainerRow,
+  resolveRowPath
+} from './converters/gridTree';
+import { XsdSchemaReader } from './converters/XsdSchemaReader';
+import { WsdlDocumentReader } from './converters/WsdlDocumentReader';
+import { OpenApiDocumentReader } from './converters/OpenApiDocumentReader';
+import { AvroSchemaReader } from './converters/AvroSchemaReader';
+import { ProtobufSchemaReader } from './converters/ProtobufSchemaReader';
+import { ThriftSchemaReader } from './converters/ThriftSchemaReader';
+import { IdlTokenStream } from './converters/IdlTokenizer';
+import { ExternalSchemaLoader, JsonSchemaRefResolver } from './converters/JsonSchemaRefResolver';
 
 /**
  * 스키마 변환기 인터페이스
@@ -15,12 +41,12 @@ export interface ISchemaConverter {
   /**
    * 그리드 데이터를 지정된 형식으로 변환
    */
-  fromGrid(gridData: SchemaGridData[][], targetFormat: SchemaFormat): Promise<ConversionResult>;
+  fromGrid(gridData: SchemaGridData[][], targetFormat: SchemaFormat, options?: SchemaExportOptions): Promise<ConversionResult>;
   
   /**
    * 스키마 문자열을 그리드 데이터로 변환
    */
-  toGrid(schema: string, sourceFormat: SchemaFormat): Promise<SchemaGridData[][]>;
+  toGrid(schema: string, sourceFormat: SchemaFormat, options?: SchemaImportOptions): Promise<SchemaGridData[][]>;
   
   /**
    * 스키마 검증
@@ -28,16 +54,119 @@ export interface ISchemaConverter {
   validate(schema: string, format: SchemaFormat): Promise<ValidationResult>;
 }
 
+/**
+ * WSDL 오퍼레이션 단위 변환기 인터페이스
+ */
+export interface IWsdlConverter {
+  /**
+   * WSDL 문서를 서비스/바인딩/포트 타입/오퍼레이션 모델로 변환
+   */
+  readWSDL(wsdl: string): Promise<WsdlDefinition>;
+
+  /**
+   * 선택한 오퍼레이션 메시지 구조를 그리드 데이터로 변환
+   */
+  wsdlOperationToGrid(wsdl: string, selection: WsdlOperationSelection): Promise<SchemaGridData[][]>;
+
+  /**
+   * 명세로부터 전체 WSDL 문서 생성
+   */
+  generateWSDL(spec: WsdlGenerationSpec): Promise<string>;
+}
+
+/**
+ * 스키마 변환기 옵션
+ */
+export interface SchemaConverterOptions {
+  /**
+   * 외부 $ref(도구에 저장된 다른 스키마) 로더
+   */
+  externalSchemaLoader?: ExternalSchemaLoader;
+}
+
+/**
+ * JSON Schema 필드 추출 컨텍스트 ($ref 해석 상태)
+ */
+interface JSONExtractionContext {
+  resolver: JsonSchemaRefResolver;
+  baseUri: string;
+  refStack: Set<string>;
+}
+
+/**
+ * 공유 정의 $ref 접두사 (JSON Schema, OpenAPI 3.x, Swagger 2.0)
+ */
+const JSON_SCHEMA_REF_PREFIX = '#/definitions/';
+const OPENAPI_REF_PREFIX = '#/components/schemas/';
+
+/**
+ * constraints 컬럼으로 보존하는 JSON Schema 제약 키워드
+ */
+const JSON_CONSTRAINT_KEYWORDS = [
+  'minimum',
+  'maximum',
+  'exclusiveMinimum',
+  'exclusiveMaximum',
+  'multipleOf',
+  'format',
+  'totalDigits',
+  'fractionDigits',
+  'minItems',
+  'maxItems'
+];
+
+/**
+ * XSD 숫자 facet과 JSON Schema 제약 키워드 매핑
+ */
+const XSD_NUMERIC_FACETS: Record<string, string> = {
+  minimum: 'xs:minInclusive',
+  maximum: 'xs:maxInclusive',
+  exclusiveMinimum: 'xs:minExclusive',
+  exclusiveMaximum: 'xs:maxExclusive',
+  totalDigits: 'xs:totalDigits',
+  fractionDigits: 'xs:fractionDigits'
+};
+
+/**
+ * XSD 생성 기본값 (옵션으로 대상 네임스페이스를 지정하지 않은 경우)
+ */
+const XSD_NAMESPACE = 'http://www.w3.org/2001/XMLSchema';
+const DEFAULT_SCHEMA_NAMESPACE = 'http://example.com/schema';
+const DEFAULT_SERVICE_NAMESPACE = 'http://example.com/service';
+
+/**
+ * XML 접두사/요소 이름으로 사용할 수 있는 NCName (콜론 없는 XML 이름)
+ */
+const XML_NCNAME_PATTERN = /^[A-Za-z_][\w.-]*$/;
+
+/**
+ * Avro/Protobuf/Thrift 타입·필드 이름으로 사용할 수 있는 식별자
+ */
+const IDL_IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * IDL 계열(Avro/Protobuf/Thrift) 출력 컨텍스트
+ */
+interface IdlWriterContext {
+  sharedTypes: Map<string, GridTreeNode>;
+  // typeRef -> 출력한 타입 이름
+  definedTypes: Map<string, string>;
+  usedNames: Set<string>;
+}
+
 /**
  * 스키마 변환 엔진 구현체
  */
-export class SchemaConverter implements ISchemaConverter {
+export class SchemaConverter implements ISchemaConverter, IWsdlConverter {
   private logger: Logger;
+  private externalSchemaLoader?: ExternalSchemaLoader;
   private xmlBuilder: xml2js.Builder;
+  private documentBuilder: xml2js.Builder;
   private xmlParser: xml2js.Parser;
 
-  constructor() {
+  constructor(options: SchemaConverterOptions = {}) {
     this.logger = Logger.getInstance();
+    this.externalSchemaLoader = options.externalSchemaLoader;
     
     // XML 빌더 설정
     this.xmlBuilder = new xml2js.Builder({
@@ -46,6 +175,12 @@ export class SchemaConverter implements ISchemaConverter {
       renderOpts: { pretty: true, indent: '  ' }
     });
 
+    // XSD/WSDL 빌더 설정 (객체의 단일 최상위 키를 루트 요소로 사용)
+    this.documentBuilder = new xml2js.Builder({
+      xmldec: { version: '1.0', encoding: 'UTF-8' },
+      renderOpts: { pretty: true, indent: '  ' }
+    });
+
     // XML 파서 설정 (XXE 공격 방지)
     this.xmlParser = new xml2js.Parser({
       explicitArray: false,
@@ -63,7 +198,11 @@ export class SchemaConverter implements ISchemaConverter {
   /**
    * 그리드 데이터를 지정된 형식으로 변환
    */
-  async fromGrid(gridData: SchemaGridData[][], targetFormat: SchemaFormat): Promise<ConversionResult> {
+  async fromGrid(
+    gridData: SchemaGridData[][],
+    targetFormat: SchemaFormat,
+    options: SchemaExportOptions = {}
+  ): Promise<ConversionResult> {
     const result: ConversionResult = {
       errors: [],
       warnings: []
@@ -107,10 +246,26 @@ export class SchemaConverter implements ISchemaConverter {
           result.yaml = await this.convertToYAML(gridData);
           break;
         case SchemaFormat.XSD:
-          result.xml = await this.convertToXSD(gridData);
+          result.xml = await this.convertToXSD(gridData, options);
           break;
         case SchemaFormat.WSDL:
-          result.xml = await this.convertToWSDL(gridData);
+          result.xml = await this.convertToWSDL(gridData, options);
+          break;
+        case SchemaFormat.OPENAPI:
+        case SchemaFormat.SWAGGER: {
+          const document = this.convertToOpenAPI(gridData, targetFormat, options.openApi);
+          result.json = JSON.stringify(document, null, 2);
+          result.yaml = yaml.dump(document, { indent: 2, lineWidth: 120 });
+          break;
+        }
+        case SchemaFormat.AVRO:
+          result.json = this.convertToAvro(gridData, options);
+          break;
+        case SchemaFormat.PROTOBUF:
+          result.idl = this.convertToProtobuf(gridData, options);
+          break;
+        case SchemaFormat.THRIFT:
+          result.idl = this.convertToThrift(gridData, options);
           break;
         default:
           throw new Error(`지원하지 않는 대상 형식: ${targetFormat}`);
@@ -138,10 +293,21 @@ export class SchemaConverter implements ISchemaConverter {
   /**
    * 스키마 문자열을 그리드 데이터로 변환
    */
-  async toGrid(schema: string, sourceFormat: SchemaFormat): Promise<SchemaGridData[][]> {
+  async toGrid(schema: string, sourceFormat: SchemaFormat, options: SchemaImportOptions = {}): Promise<SchemaGridData[][]> {
     try {
       this.logger.info(`${sourceFormat} 스키마를 그리드 데이터로 변환 시작`);
 
+      // 실제 XML Schema/WSDL 문서와 IDL 계열 형식은 전용 리더로 처리 (도구 고유 XML 형식은 기존 경로 사용)
+      const rows = await this.readWithDedicatedReader(schema, sourceFormat, options);
+
+      if (rows) {
+        this.logger.info(`스키마를 그리드 데이터로 변환 완료`, {
+          sourceFormat,
+          rowCount: rows.length
+        });
+        return rows.map(field => [field]);
+      }
+
       let parsedData: any;
 
       // 형식별 파싱
@@ -157,12 +323,16 @@ export class SchemaConverter implements ISchemaConverter {
         case SchemaFormat.YAML:
           parsedData = yaml.load(schema);
           break;
+        case SchemaFormat.OPENAPI:
+        case SchemaFormat.SWAGGER:
+          parsedData = this.parseJSONOrYAML(schema);
+          break;
         default:
           throw new Error(`지원하지 않는 소스 형식: ${sourceFormat}`);
       }
 
       // 파싱된 데이터를 그리드 형태로 변환
-      const gridData = await this.convertParsedDataToGrid(parsedData, sourceFormat);
+      const gridData = await this.convertParsedDataToGrid(parsedData, sourceFormat, options);
 
       this.logger.info(`스키마를 그리드 데이터로 변환 완료`, { 
         sourceFormat,
@@ -206,6 +376,19 @@ export class SchemaConverter implements ISchemaConverter {
         case SchemaFormat.YAML:
           await this.validateYAMLSchema(schema, result);
           break;
+        case SchemaFormat.OPENAPI:
+        case SchemaFormat.SWAGGER:
+          this.validateOpenAPIDocument(this.parseJSONOrYAML(schema), format, result);
+          break;
+        case SchemaFormat.AVRO:
+          this.validateIdlSchema(() => new AvroSchemaReader().read(schema), 'INVALID_AVRO_SCHEMA', result);
+          break;
+        case SchemaFormat.PROTOBUF:
+          this.validateIdlSchema(() => new ProtobufSchemaReader().read(schema), 'INVALID_PROTOBUF_SCHEMA', result);
+          break;
+        case SchemaFormat.THRIFT:
+          this.validateIdlSchema(() => new ThriftSchemaReader().read(schema), 'INVALID_THRIFT_SCHEMA', result);
+          break;
       }
 
       result.isValid = result.errors.length === 0;
@@ -236,140 +419,1198 @@ export class SchemaConverter implements ISchemaConverter {
   private async convertToXML(gridData: SchemaGridData[][]): Promise<string> {
     const schemaObject = {
       fields: {
-        field: gridData.flat().map(row => ({
-          $: {
-            name: row.fieldName,
-            type: row.dataType,
-            required: row.required.toString()
-          },
-          description: row.description,
-          defaultValue: row.defaultValue,
-          constraints: row.constraints
-        }))
+        field: this.buildXMLFields(buildGridTree(gridData))
       }
     };
 
     return this.xmlBuilder.buildObject(schemaObject);
   }
 
+  /**
+   * 트리 노드를 도구 고유 XML field 요소로 변환 (하위 필드는 중첩 fields로 표현)
+   */
+  private buildXMLFields(nodes: GridTreeNode[]): any[] {
+    return nodes.map(node => {
+      const row = node.row;
+      const field: any = {
+        $: {
+          name: row.fieldName,
+          type: row.dataType,
+          required: row.required.toString()
+        },
+        description: row.description,
+        defaultValue: row.defaultValue,
+        constraints: row.constraints
+      };
+
+      if (row.itemType) {
+        field.$.itemType = row.itemType;
+      }
+
+      if (row.isAttribute) {
+        field.$.attribute = 'true';
+      }
+
+      if (row.fieldNumber !== undefined) {
+        field.$.fieldNumber = String(row.fieldNumber);
+      }
+
+      if (row.minLength !== undefined) {
+        field.$.minLength = String(row.minLength);
+      }
+
+      if (row.maxLength !== undefined) {
+        field.$.maxLength = String(row.maxLength);
+      }
+
+      if (row.pattern) {
+        field.pattern = row.pattern;
+      }
+
+      if (row.enumValues && row.enumValues.length > 0) {
+        field.enumValues = { value: row.enumValues };
+      }
+
+      if (node.children.length > 0) {
+        field.fields = { field: this.buildXMLFields(node.children) };
+      }
+
+      return field;
+    });
+  }
+
   /**
    * 그리드 데이터를 JSON으로 변환
+   * typeRef가 지정된 구조는 definitions에 한 번만 정의하고 $ref로 참조
    */
   private async convertToJSON(gridData: SchemaGridData[][]): Promise<string> {
-    const schemaObject = {
+    const tree = buildGridTree(gridData);
+    const sharedTypes = collectSharedTypes(tree);
+    const definitions: Record<string, any> = {};
+
+    sharedTypes.forEach((node, name) => {
+      definitions[name] = { type: 'object', ...this.buildJSONObject(node.children, sharedTypes) };
+    });
+
+    const { properties, required } = this.buildJSONProperties(tree, sharedTypes);
+
+    const schemaObject: Record<string, any> = {
       type: 'object',
-      properties: {},
-      required: []
+      properties,
+      required
     };
 
-    gridData.flat().forEach(row => {
-      schemaObject.properties[row.fieldName] = {
-        type: this.mapDataTypeToJSONType(row.dataType),
-        description: row.description,
-        default: row.defaultValue
+    if (sharedTypes.size > 0) {
+      schemaObject.definitions = definitions;
+    }
+
+    return JSON.stringify(schemaObject, null, 2);
+  }
+
+  /**
+   * 트리 노드를 JSON Schema properties/required로 변환
+   */
+  private buildJSONProperties(
+    nodes: GridTreeNode[],
+    sharedTypes: Map<string, GridTreeNode>,
+    refPrefix: string = JSON_SCHEMA_REF_PREFIX
+  ): { properties: Record<string, any>; required: string[] } {
+    const properties: Record<string, any> = {};
+    const required: string[] = [];
+
+    nodes.forEach(node => {
+      const row = node.row;
+      const type = this.mapDataTypeToJSONType(row.dataType);
+      const sharedRef = row.typeRef && sharedTypes.has(row.typeRef)
+        ? { $ref: `${refPrefix}${row.typeRef}` }
+        : undefined;
+      let property: Record<string, any>;
+
+      if (type === 'object' && sharedRef) {
+        property = { ...sharedRef, description: row.description || undefined, default: row.defaultValue };
+      } else {
+        property = {
+          type,
+          description: row.description,
+          default: row.defaultValue
+        };
+
+        if (type === 'object' && node.children.length > 0) {
+          Object.assign(property, this.buildJSONObject(node.children, sharedTypes, refPrefix));
+        } else if (type === 'array') {
+          property.items = sharedRef && (row.itemType || '').toLowerCase() === 'object'
+            ? sharedRef
+            : this.buildJSONArrayItems(row, node.children, sharedTypes, refPrefix);
+        }
+      }
+
+      if (row.required) {
+        required.push(row.fieldName);
+      }
+
+      // 배열은 항목 스키마에, 그 외에는 속성 자체에 문자열 제약 적용
+      this.applyJSONFacets(type === 'array' && property.items && !property.items.$ref ? property.items : property, row);
+
+      // 제약 조건 추가
+      if (row.constraints) {
+        try {
+          const constraints = JSON.parse(row.constraints);
+          Object.assign(property, constraints);
+        } catch {
+          // 제약 조건 파싱 실패 시 문자열로 저장
+          property.constraints = row.constraints;
+        }
+      }
+
+      properties[row.fieldName] = property;
+    });
+
+    return { properties, required };
+  }
+
+  /**
+   * 행의 길이/패턴/열거값 제약을 JSON Schema 키워드로 추가
+   */
+  private applyJSONFacets(target: Record<string, any>, row: SchemaGridData): void {
+    if (row.minLength !== undefined) {
+      target.minLength = row.minLength;
+    }
+    if (row.maxLength !== undefined) {
+      target.maxLength = row.maxLength;
+    }
+    if (row.pattern) {
+      target.pattern = row.pattern;
+    }
+    if (row.enumValues && row.enumValues.length > 0) {
+      target.enum = row.enumValues;
+    }
+  }
+
+  /**
+   * 하위 노드로 중첩 object 스키마 생성 (비어 있는 required는 생략)
+   */
+  private buildJSONObject(
+    children: GridTreeNode[],
+    sharedTypes: Map<string, GridTreeNode>,
+    refPrefix: string = JSON_SCHEMA_REF_PREFIX
+  ): Record<string, any> {
+    const { properties, required } = this.buildJSONProperties(children, sharedTypes, refPrefix);
+    return required.length > 0 ? { properties, required } : { properties };
+  }
+
+  /**
+   * 배열 항목 스키마 생성
+   */
+  private buildJSONArrayItems(
+    row: SchemaGridData,
+    children: GridTreeNode[],
+    sharedTypes: Map<string, GridTreeNode>,
+    refPrefix: string = JSON_SCHEMA_REF_PREFIX
+  ): Record<string, any> {
+    if (!row.itemType) {
+      return children.length > 0 ? { type: 'object', ...this.buildJSONObject(children, sharedTypes, refPrefix) } : {};
+    }
+
+    const itemType = this.mapDataTypeToJSONType(row.itemType);
+    if (itemType === 'object' && children.length > 0) {
+      return { type: 'object', ...this.buildJSONObject(children, sharedTypes, refPrefix) };
+    }
+
+    return { type: itemType };
+  }
+
+  /**
+   * 그리드 데이터를 OpenAPI 3.x / Swagger 2.0 문서로 변환
+   * 루트 구조와 공유 정의를 components.schemas(2.0은 definitions)에 등록하고 선택적으로 골격 경로 생성
+   */
+  private convertToOpenAPI(
+    gridData: SchemaGridData[][],
+    format: SchemaFormat,
+    options: OpenApiExportOptions = {}
+  ): Record<string, any> {
+    const isSwagger = format === SchemaFormat.SWAGGER;
+    const refPrefix = isSwagger ? JSON_SCHEMA_REF_PREFIX : OPENAPI_REF_PREFIX;
+    const schemaName = options.schemaName || 'Schema';
+    const tree = buildGridTree(gridData);
+    const sharedTypes = collectSharedTypes(tree);
+    const schemas: Record<string, any> = {
+      [schemaName]: { type: 'object', ...this.buildJSONObject(tree, sharedTypes, refPrefix) }
+    };
+
+    sharedTypes.forEach((node, name) => {
+      if (name !== schemaName) {
+        schemas[name] = { type: 'object', ...this.buildJSONObject(node.children, sharedTypes, refPrefix) };
+      }
+    });
+
+    const paths: Record<string, any> = {};
+    if (options.path) {
+      const schemaRef = { $ref: `${refPrefix}${schemaName}` };
+      const operation: Record<string, any> = isSwagger
+        ? {
+          consumes: ['application/json'],
+          parameters: [{ in: 'body', name: 'body', required: true, schema: schemaRef }],
+          responses: { '200': { description: 'OK' } }
+        }
+        : {
+          requestBody: { required: true, content: { 'application/json': { schema: schemaRef } } },
+          responses: { '200': { description: 'OK' } }
+        };
+      paths[options.path] = { [(options.method || 'post').toLowerCase()]: operation };
+    }
+
+    const info = { title: options.title || schemaName, version: options.version || '1.0.0' };
+    const document = isSwagger
+      ? { swagger: '2.0', info, paths, definitions: schemas }
+      : {
+        openapi: options.specVersion === '3.1' ? '3.1.0' : '3.0.3',
+        info,
+        paths,
+        components: { schemas }
       };
 
-      if (row.required) {
-        schemaObject.required.push(row.fieldName);
+    // undefined 값 제거 (YAML 직렬화 호환)
+    return JSON.parse(JSON.stringify(document));
+  }
+
+  /**
+   * 그리드 데이터를 Avro(.avsc) record 스키마로 변환
+   * 선택 필드는 null 유니온, 날짜/시간과 decimal은 논리 타입으로 표현
+   */
+  private convertToAvro(gridData: SchemaGridData[][], options: SchemaExportOptions = {}): string {
+    const tree = buildGridTree(gridData);
+    const context = this.createIdlWriterContext(tree);
+    const record: Record<string, any> = {
+      type: 'record',
+      name: this.allocateTypeName(options.rootName || 'Root', context)
+    };
+
+    if (options.namespace) {
+      record.namespace = options.namespace;
+    }
+    record.fields = tree.map(node => this.buildAvroField(node, context));
+
+    return JSON.stringify(record, null, 2);
+  }
+
+  /**
+   * 트리 노드를 Avro record 필드로 변환
+   */
+  private buildAvroField(node: GridTreeNode, context: IdlWriterContext): Record<string, any> {
+    const row = node.row;
+    const type = this.buildAvroType(node, context);
+    const field: Record<string, any> = { name: row.fieldName, type };
+
+    if (row.description) {
+      field.doc = row.description;
+    }
+
+    const defaultValue = this.toAvroDefault(row, type);
+    if (row.required) {
+      if (defaultValue !== undefined) {
+        field.default = defaultValue;
+      }
+    } else if (defaultValue !== undefined) {
+      // 유니온 필드의 기본값은 첫 번째 멤버 타입이어야 함
+      field.type = [type, 'null'];
+      field.default = defaultValue;
+    } else {
+      field.type = ['null', type];
+      field.default = null;
+    }
+
+    return field;
+  }
+
+  /**
+   * 행의 Avro 타입 생성 (배열은 items로 감쌈)
+   */
+  private buildAvroType(node: GridTreeNode, context: IdlWriterContext): any {
+    const row = node.row;
+    if ((row.dataType || '').toLowerCase() === 'array') {
+      return { type: 'array', items: this.buildAvroContentType(node, row.itemType || 'string', context) };
+    }
+    return this.buildAvroContentType(node, row.dataType || 'string', context);
+  }
+
+  /**
+   * 단일 값 Avro 타입 생성 (record/enum/논리 타입/기본 타입)
+   */
+  private buildAvroContentType(node: GridTreeNode, dataType: string, context: IdlWriterContext): any {
+    const row = node.row;
+    const type = dataType.toLowerCase();
+
+    if (type === 'object') {
+      const shared = row.typeRef ? context.sharedTypes.get(row.typeRef) : undefined;
+      if (!shared && node.children.length === 0) {
+        return { type: 'map', values: 'string' };
+      }
+
+      // 공유 record는 처음 나온 위치에서 정의하고 이후에는 이름으로 참조
+      if (shared && row.typeRef) {
+        const definedName = context.definedTypes.get(row.typeRef);
+        if (definedName) {
+          return definedName;
+        }
+        const name = this.allocateTypeName(row.typeRef, context);
+        context.definedTypes.set(row.typeRef, name);
+        return { type: 'record', name, fields: shared.children.map(child => this.buildAvroField(child, context)) };
+      }
+
+      return {
+        type: 'record',
+        name: this.allocateTypeName(row.fieldName, context),
+        fields: node.children.map(child => this.buildAvroField(child, context))
+      };
+    }
+
+    if (this.hasIdlEnumValues(row)) {
+      return { type: 'enum', name: this.allocateTypeName(row.fieldName, context), symbols: [...row.enumValues!] };
+    }
+
+    const constraints = this.parseRowConstraints(row);
+    if (type === 'number' && typeof constraints.totalDigits === 'number') {
+      return {
+        type: 'bytes',
+        logicalType: 'decimal',
+        precision: constraints.totalDigits,
+        scale: typeof constraints.fractionDigits === 'number' ? constraints.fractionDigits : 0
+      };
+    }
+    if (type === 'string' && constraints.format === 'uuid') {
+      return { type: 'string', logicalType: 'uuid' };
+    }
+
+    return this.mapDataTypeToAvroType(type);
+  }
+
+  /**
+   * Avro 기본값 변환 (논리 타입·record·enum 외 값은 기본값으로 표현하지 않음)
+   */
+  private toAvroDefault(row: SchemaGridData, type: any): any {
+    if (typeof type === 'object' && type.type !== 'enum') {
+      return undefined;
+    }
+    if (typeof type === 'object' && !type.symbols.includes(String(row.defaultValue))) {
+      return undefined;
+    }
+    return this.coerceDefaultValue(row);
+  }
+
+  /**
+   * 그리드 데이터를 Protobuf(proto3) 정의로 변환
+   * 필드 번호는 행의 fieldNumber를 유지하고, 번호가 없는 행만 message 내 최대값 다음 번호를 부여
+   */
+  private convertToProtobuf(gridData: SchemaGridData[][], options: SchemaExportOptions = {}): string {
+    const tree = buildGridTree(gridData);
+    const context = this.createIdlWriterContext(tree);
+    const imports = new Set<string>();
+    const pendingTypes: Array<{ name: string; nodes: GridTreeNode[] }> = [];
+    const messages: string[][] = [];
+
+    const rootName = this.allocateTypeName(options.rootName || 'Root', context);
+    messages.push(this.buildProtobufMessage(rootName, tree, context, imports, pendingTypes, ''));
+
+    // 공유 message(typeRef)는 최상위에 한 번만 정의
+    while (pendingTypes.length > 0) {
+      const pending = pendingTypes.shift()!;
+      messages.push(this.buildProtobufMessage(pending.name, pending.nodes, context, imports, pendingTypes, ''));
+    }
+
+    const lines = ['syntax = "proto3";', ''];
+    if (options.namespace) {
+      lines.push(`package ${options.namespace};`, '');
+    }
+    if (imports.size > 0) {
+      lines.push(...Array.from(imports).sort().map(file => `import "${file}";`), '');
+    }
+    lines.push(messages.map(message => message.join('\n')).join('\n\n'));
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * message 블록 생성 (하위 구조는 중첩 message/enum으로 정의)
+   */
+  private buildProtobufMessage(
+    name: string,
+    nodes: GridTreeNode[],
+    context: IdlWriterContext,
+    imports: Set<string>,
+    pendingTypes: Array<{ name: string; nodes: GridTreeNode[] }>,
+    indent: string
+  ): string[] {
+    const inner = `${indent}  `;
+    const fieldNumbers = this.assignFieldNumbers(nodes);
+    const nestedNames = new Set<string>();
+    const fields: string[] = [];
+    const nested: string[] = [];
+
+    const allocateNestedName = (fieldName: string) => {
+      const base = this.toTypeName(fieldName);
+      let nestedName = base;
+      for (let index = 2; nestedNames.has(nestedName); index++) {
+        nestedName = `${base}${index}`;
+      }
+      nestedNames.add(nestedName);
+      return nestedName;
+    };
+
+    nodes.forEach(node => {
+      const row = node.row;
+      const isArray = (row.dataType || '').toLowerCase() === 'array';
+      const dataType = ((isArray ? row.itemType : row.dataType) || 'string').toLowerCase();
+      let type: string;
+
+      if (dataType === 'object') {
+        const shared = row.typeRef ? context.sharedTypes.get(row.typeRef) : undefined;
+        if (shared && row.typeRef) {
+          type = this.resolveSharedTypeName(row.typeRef, context, (sharedName, sharedNodes) => {
+            pendingTypes.push({ name: sharedName, nodes: sharedNodes });
+          });
+        } else if (node.children.length > 0) {
+          type = allocateNestedName(row.fieldName);
+          nested.push(...this.buildProtobufMessage(type, node.children, context, imports, pendingTypes, inner));
+        } else {
+          type = 'google.protobuf.Struct';
+          imports.add('google/protobuf/struct.proto');
+        }
+      } else if (this.hasIdlEnumValues(row)) {
+        type = allocateNestedName(row.fieldName);
+        nested.push(
+          `${inner}enum ${type} {`,
+          ...row.enumValues!.map((value, index) => `${inner}  ${value} = ${index};`),
+          `${inner}}`
+        );
+      } else {
+        type = this.mapDataTypeToProtobufType(dataType);
+        if (type === 'google.protobuf.Timestamp') {
+          imports.add('google/protobuf/timestamp.proto');
+        }
+      }
+
+      if (row.description) {
+        fields.push(`${inner}// ${this.toSingleLine(row.description)}`);
+      }
+
+      const label = isArray ? 'repeated ' : row.required ? '' : 'optional ';
+      fields.push(`${inner}${label}${type} ${row.fieldName} = ${fieldNumbers.get(node)};`);
+    });
+
+    const lines = [`${indent}message ${name} {`, ...fields];
+    if (nested.length > 0) {
+      lines.push('', ...nested);
+    }
+    lines.push(`${indent}}`);
+
+    return lines;
+  }
+
+  /**
+   * 그리드 데이터를 Thrift IDL로 변환
+   * 의존 struct/enum을 먼저 선언하고 필드 ID는 행의 fieldNumber를 유지
+   */
+  private convertToThrift(gridData: SchemaGridData[][], options: SchemaExportOptions = {}): string {
+    const tree = buildGridTree(gridData);
+    const context = this.createIdlWriterContext(tree);
+    const definitions: string[][] = [];
+
+    this.buildThriftStruct(this.allocateTypeName(options.rootName || 'Root', context), tree, context, definitions);
+
+    const lines: string[] = [];
+    if (options.namespace) {
+      lines.push(`namespace * ${options.namespace}`, '');
+    }
+    lines.push(definitions.map(definition => definition.join('\n')).join('\n\n'));
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * struct 정의 생성 (하위 struct/enum 정의를 먼저 definitions에 추가)
+   */
+  private buildThriftStruct(
+    name: string,
+    nodes: GridTreeNode[],
+    context: IdlWriterContext,
+    definitions: string[][]
+  ): void {
+    const fieldNumbers = this.assignFieldNumbers(nodes);
+    const fields: string[] = [];
+
+    nodes.forEach(node => {
+      const row = node.row;
+      const isArray = (row.dataType || '').toLowerCase() === 'array';
+      const contentType = this.buildThriftContentType(node, (isArray ? row.itemType : row.dataType) || 'string', context, definitions);
+      const type = isArray ? `list<${contentType}>` : contentType;
+
+      if (row.description) {
+        fields.push(`  /** ${this.toSingleLine(row.description)} */`);
+      }
+
+      let line = `  ${fieldNumbers.get(node)}: ${row.required ? 'required' : 'optional'} ${type} ${row.fieldName}`;
+      const defaultValue = isArray ? undefined : this.coerceDefaultValue(row);
+      if (defaultValue !== undefined) {
+        line += this.hasIdlEnumValues(row)
+          ? row.enumValues!.includes(String(defaultValue)) ? ` = ${contentType}.${defaultValue}` : ''
+          : ` = ${typeof defaultValue === 'string' ? JSON.stringify(defaultValue) : defaultValue}`;
+      }
+      fields.push(line);
+    });
+
+    definitions.push([`struct ${name} {`, ...fields, '}']);
+  }
+
+  /**
+   * 단일 값 Thrift 타입 생성 (struct/enum 정의 포함)
+   */
+  private buildThriftContentType(
+    node: GridTreeNode,
+    dataType: string,
+    context: IdlWriterContext,
+    definitions: string[][]
+  ): string {
+    const row = node.row;
+    const type = dataType.toLowerCase();
+
+    if (type === 'object') {
+      const shared = row.typeRef ? context.sharedTypes.get(row.typeRef) : undefined;
+      if (shared && row.typeRef) {
+        return this.resolveSharedTypeName(row.typeRef, context, (sharedName, sharedNodes) => {
+          this.buildThriftStruct(sharedName, sharedNodes, context, definitions);
+        });
+      }
+      if (node.children.length === 0) {
+        return 'map<string, string>';
+      }
+      const name = this.allocateTypeName(row.fieldName, context);
+      this.buildThriftStruct(name, node.children, context, definitions);
+      return name;
+    }
+
+    if (this.hasIdlEnumValues(row)) {
+      const name = this.allocateTypeName(row.fieldName, context);
+      definitions.push([
+        `enum ${name} {`,
+        ...row.enumValues!.map((value, index) => `  ${value} = ${index}`),
+        '}'
+      ]);
+      return name;
+    }
+
+    return this.mapDataTypeToThriftType(type);
+  }
+
+  /**
+   * IDL 출력 컨텍스트 생성
+   */
+  private createIdlWriterContext(tree: GridTreeNode[]): IdlWriterContext {
+    return {
+      sharedTypes: collectSharedTypes(tree),
+      definedTypes: new Map(),
+      usedNames: new Set()
+    };
+  }
+
+  /**
+   * 공유 타입(typeRef) 이름 해석 (처음 참조될 때 define으로 정의를 출력)
+   */
+  private resolveSharedTypeName(
+    typeRef: string,
+    context: IdlWriterContext,
+    define: (name: string, nodes: GridTreeNode[]) => void
+  ): string {
+    const definedName = context.definedTypes.get(typeRef);
+    if (definedName) {
+      return definedName;
+    }
+
+    // 재귀 참조가 이름으로 해석되도록 정의 전에 등록
+    const name = this.allocateTypeName(typeRef, context);
+    context.definedTypes.set(typeRef, name);
+    define(name, context.sharedTypes.get(typeRef)!.children);
+    return name;
+  }
+
+  /**
+   * 문서 내에서 중복되지 않는 타입 이름 할당
+   */
+  private allocateTypeName(baseName: string, context: IdlWriterContext): string {
+    const base = this.toTypeName(baseName);
+    let name = base;
+    for (let index = 2; context.usedNames.has(name); index++) {
+      name = `${base}${index}`;
+    }
+    context.usedNames.add(name);
+    return name;
+  }
+
+  /**
+   * 필드명을 PascalCase 타입 이름으로 변환 (예: order_line -> OrderLine)
+   */
+  private toTypeName(name: string): string {
+    const pascal = name
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean)
+      .map(part => part.charAt(0).toUpperCase() + part.substring(1))
+      .join('');
+
+    if (!pascal) {
+      return 'Type';
+    }
+    return /^\d/.test(pascal) ? `_${pascal}` : pascal;
+  }
+
+  /**
+   * 필드 번호 할당
+   * 기존 번호는 순서가 바뀌어도 유지하고, 번호가 없거나 중복된 행만 최대값 다음 번호를 부여
+   */
+  private assignFieldNumbers(nodes: GridTreeNode[]): Map<GridTreeNode, number> {
+    const fieldNumbers = new Map<GridTreeNode, number>();
+    const used = new Set<number>();
+
+    nodes.forEach(node => {
+      const fieldNumber = node.row.fieldNumber;
+      if (fieldNumber !== undefined && Number.isInteger(fieldNumber) && fieldNumber > 0 && !used.has(fieldNumber)) {
+        fieldNumbers.set(node, fieldNumber);
+        used.add(fieldNumber);
+      }
+    });
+
+    let next = Math.max(0, ...Array.from(used)) + 1;
+    nodes.forEach(node => {
+      if (!fieldNumbers.has(node)) {
+        fieldNumbers.set(node, next++);
+      }
+    });
+
+    return fieldNumbers;
+  }
+
+  /**
+   * 열거값이 모두 IDL 식별자로 사용 가능한지 확인 (아니면 문자열 타입으로 출력)
+   */
+  private hasIdlEnumValues(row: SchemaGridData): boolean {
+    return !!row.enumValues && row.enumValues.length > 0
+      && row.enumValues.every(value => IDL_IDENTIFIER_PATTERN.test(value));
+  }
+
+  /**
+   * 행의 constraints JSON 파싱 (파싱할 수 없으면 빈 객체)
+   */
+  private parseRowConstraints(row: SchemaGridData): Record<string, any> {
+    if (!row.constraints) {
+      return {};
+    }
+    try {
+      return JSON.parse(row.constraints);
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * 기본값을 데이터 타입에 맞게 변환 (표현할 수 없으면 undefined)
+   */
+  private coerceDefaultValue(row: SchemaGridData): any {
+    const value = row.defaultValue;
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+
+    switch ((row.dataType || '').toLowerCase()) {
+      case 'integer':
+      case 'number': {
+        const numeric = Number(value);
+        return Number.isFinite(numeric) ? numeric : undefined;
+      }
+      case 'boolean':
+        return this.parseBoolean(value);
+      case 'array':
+      case 'object':
+        return undefined;
+      default:
+        return String(value);
+    }
+  }
+
+  /**
+   * 설명을 한 줄 주석으로 변환
+   */
+  private toSingleLine(text: string): string {
+    return text.replace(/\s*\n\s*/g, ' ').replace(/\*\//g, '* /').trim();
+  }
+
+  /**
+   * 그리드 데이터를 YAML로 변환
+   */
+  private async convertToYAML(gridData: SchemaGridData[][]): Promise<string> {
+    const jsonSchema = await this.convertToJSON(gridData);
+    const schemaObject = JSON.parse(jsonSchema);
+    return yaml.dump(schemaObject, { indent: 2, lineWidth: 120 });
+  }
+
+  /**
+   * 그리드 데이터를 XSD로 변환
+   * typeRef가 지정된 구조는 이름 있는 xs:complexType으로 한 번만 정의
+   */
+  private async convertToXSD(gridData: SchemaGridData[][], options: SchemaExportOptions = {}): Promise<string> {
+    const tree = buildGridTree(gridData);
+    const sharedTypes = collectSharedTypes(tree);
+    const rootName = options.rootName || 'root';
+
+    if (!XML_NCNAME_PATTERN.test(rootName)) {
+      throw new Error(`유효하지 않은 루트 요소 이름: ${rootName}`);
+    }
+
+    const { schema, typePrefix } = this.buildXSDSchemaNode(options.namespace || DEFAULT_SCHEMA_NAMESPACE, options.xmlSchema);
+    schema['xs:element'] = {
+      $: { name: rootName },
+      'xs:complexType': this.buildXSDComplexType(tree, sharedTypes, typePrefix)
+    };
+
+    if (sharedTypes.size > 0) {
+      schema['xs:complexType'] = Array.from(sharedTypes.entries()).map(([name, node]) => ({
+        $: { name },
+        ...this.buildXSDComplexType(node.children, sharedTypes, typePrefix)
+      }));
+    }
+
+    return this.documentBuilder.buildObject({ 'xs:schema': schema });
+  }
+
+  /**
+   * xs:schema 노드의 네임스페이스 선언과 xs:import 생성
+   * 반환하는 typePrefix는 대상 네임스페이스의 공유 complexType을 참조할 때 사용
+   */
+  private buildXSDSchemaNode(
+    targetNamespace: string,
+    options: XmlSchemaExportOptions = {}
+  ): { schema: Record<string, any>; typePrefix: string } {
+    const elementFormDefault = options.elementFormDefault || 'qualified';
+    if (elementFormDefault !== 'qualified' && elementFormDefault !== 'unqualified') {
+      throw new Error(`유효하지 않은 elementFormDefault 값: ${elementFormDefault}`);
+    }
+
+    const attributes: Record<string, string> = {
+      'xmlns:xs': XSD_NAMESPACE,
+      'targetNamespace': targetNamespace
+    };
+
+    const declarePrefix = (prefix: string, namespace: string) => {
+      if (!XML_NCNAME_PATTERN.test(prefix) || /^xml/i.test(prefix)) {
+        throw new Error(`유효하지 않은 네임스페이스 접두사: ${prefix}`);
+      }
+      const declared = attributes[`xmlns:${prefix}`];
+      if (declared !== undefined && declared !== namespace) {
+        throw new Error(`네임스페이스 접두사 '${prefix}'가 서로 다른 URI로 선언되었습니다`);
+      }
+      attributes[`xmlns:${prefix}`] = namespace;
+    };
+
+    if (options.targetPrefix) {
+      declarePrefix(options.targetPrefix, targetNamespace);
+    } else {
+      attributes.xmlns = targetNamespace;
+    }
+
+    Object.entries(options.prefixes || {}).forEach(([prefix, namespace]) => declarePrefix(prefix, namespace));
+
+    const imports = (options.imports || []).map(entry => {
+      if (!entry.namespace) {
+        throw new Error('xs:import에는 namespace가 필요합니다');
+      }
+      if (entry.namespace === targetNamespace) {
+        throw new Error(`대상 네임스페이스는 xs:import할 수 없습니다: ${entry.namespace}`);
+      }
+      if (entry.prefix) {
+        declarePrefix(entry.prefix, entry.namespace);
+      }
+
+      const importAttributes: Record<string, string> = { namespace: entry.namespace };
+      if (entry.schemaLocation) {
+        importAttributes.schemaLocation = entry.schemaLocation;
+      }
+      return { $: importAttributes };
+    });
+
+    attributes.elementFormDefault = elementFormDefault;
+
+    // xs:import는 xs:schema의 첫 번째 하위 요소여야 함
+    const schema: Record<string, any> = { $: attributes };
+    if (imports.length > 0) {
+      schema['xs:import'] = imports;
+    }
+
+    return { schema, typePrefix: options.targetPrefix ? `${options.targetPrefix}:` : '' };
+  }
+
+  /**
+   * 하위 노드로 complexType 내용 생성 (요소는 xs:sequence, 속성 행은 xs:attribute)
+   */
+  private buildXSDComplexType(
+    children: GridTreeNode[],
+    sharedTypes: Map<string, GridTreeNode>,
+    typePrefix = ''
+  ): Record<string, any> {
+    const elements = children.filter(child => !child.row.isAttribute);
+    const attributes = children.filter(child => child.row.isAttribute);
+    const complexType: Record<string, any> = {
+      'xs:sequence': {
+        'xs:element': this.buildXSDElements(elements, sharedTypes, typePrefix)
+      }
+    };
+
+    if (attributes.length > 0) {
+      complexType['xs:attribute'] = this.buildXSDAttributes(attributes);
+    }
+
+    return complexType;
+  }
+
+  /**
+   * 트리 노드를 xs:element 목록으로 변환
+   * object는 익명 complexType/sequence, 배열은 maxOccurs="unbounded"로 표현
+   */
+  private buildXSDElements(nodes: GridTreeNode[], sharedTypes: Map<string, GridTreeNode>, typePrefix = ''): any[] {
+    return nodes.map(node => {
+      const row = node.row;
+      const isArray = row.dataType.toLowerCase() === 'array';
+      const contentType = isArray ? (row.itemType || 'string') : row.dataType;
+      const element: any = {
+        $: { name: row.fieldName }
+      };
+
+      if (!row.required) {
+        element.$.minOccurs = '0';
+      }
+
+      if (isArray) {
+        element.$.maxOccurs = 'unbounded';
+      }
+
+      if (!isContainerRow(row) && row.defaultValue !== undefined && row.defaultValue !== null && row.defaultValue !== '') {
+        element.$.default = String(row.defaultValue);
+      }
+
+      if (row.description) {
+        element['xs:annotation'] = { 'xs:documentation': row.description };
+      }
+
+      if (contentType.toLowerCase() === 'object') {
+        if (row.typeRef && sharedTypes.has(row.typeRef)) {
+          element.$.type = `${typePrefix}${row.typeRef}`;
+        } else if (row.typeRef?.includes(':') && node.children.length === 0) {
+          // xs:import한 네임스페이스의 타입 참조 (예: cmn:AddressType)
+          element.$.type = row.typeRef;
+        } else {
+          element['xs:complexType'] = this.buildXSDComplexType(node.children, sharedTypes, typePrefix);
+        }
+      } else if (node.children.some(child => child.row.isAttribute)) {
+        // 텍스트 내용과 속성을 함께 가진 요소는 simpleContent/extension으로 표현
+        element['xs:complexType'] = {
+          'xs:simpleContent': {
+            'xs:extension': {
+              $: { base: this.mapDataTypeToXSDType(contentType) },
+              'xs:attribute': this.buildXSDAttributes(node.children.filter(child => child.row.isAttribute))
+            }
+          }
+        };
+      } else {
+        this.applyXSDSimpleType(element, row, contentType);
+      }
+
+      return element;
+    });
+  }
+
+  /**
+   * 속성 행을 xs:attribute 목록으로 변환
+   */
+  private buildXSDAttributes(nodes: GridTreeNode[]): any[] {
+    return nodes.map(node => {
+      const row = node.row;
+      const attribute: any = {
+        $: { name: row.fieldName }
+      };
+
+      if (row.required) {
+        attribute.$.use = 'required';
+      }
+
+      if (row.defaultValue !== undefined && row.defaultValue !== null && row.defaultValue !== '') {
+        attribute.$.default = String(row.defaultValue);
+      }
+
+      if (row.description) {
+        attribute['xs:annotation'] = { 'xs:documentation': row.description };
+      }
+
+      this.applyXSDSimpleType(attribute, row, row.dataType);
+      return attribute;
+    });
+  }
+
+  /**
+   * 단순 타입 지정: 제약이 있으면 인라인 xs:simpleType/xs:restriction, 없으면 type 속성
+   */
+  private applyXSDSimpleType(target: any, row: SchemaGridData, dataType: string): void {
+    const baseType = this.mapDataTypeToXSDType(dataType);
+    const facets = this.buildXSDFacets(row);
+
+    if (Object.keys(facets).length === 0) {
+      target.$.type = baseType;
+      return;
+    }
+
+    target['xs:simpleType'] = {
+      'xs:restriction': {
+        $: { base: baseType },
+        ...facets
+      }
+    };
+  }
+
+  /**
+   * 행의 제약을 XSD facet 요소로 변환 (xs:restriction 하위 요소 순서 준수)
+   */
+  private buildXSDFacets(row: SchemaGridData): Record<string, any> {
+    const facets: Record<string, any> = {};
+    let constraints: Record<string, any> = {};
+
+    if (row.constraints) {
+      try {
+        constraints = JSON.parse(row.constraints);
+      } catch {
+        // 파싱할 수 없는 제약은 XSD로 표현하지 않음
       }
+    }
 
-      // 제약 조건 추가
-      if (row.constraints) {
-        try {
-          const constraints = JSON.parse(row.constraints);
-          Object.assign(schemaObject.properties[row.fieldName], constraints);
-        } catch {
-          // 제약 조건 파싱 실패 시 문자열로 저장
-          schemaObject.properties[row.fieldName].constraints = row.constraints;
-        }
+    Object.entries(XSD_NUMERIC_FACETS).forEach(([keyword, facet]) => {
+      if (typeof constraints[keyword] === 'number') {
+        facets[facet] = { $: { value: String(constraints[keyword]) } };
       }
     });
 
-    return JSON.stringify(schemaObject, null, 2);
+    if (row.minLength !== undefined) {
+      facets['xs:minLength'] = { $: { value: String(row.minLength) } };
+    }
+
+    if (row.maxLength !== undefined) {
+      facets['xs:maxLength'] = { $: { value: String(row.maxLength) } };
+    }
+
+    if (row.enumValues && row.enumValues.length > 0) {
+      facets['xs:enumeration'] = row.enumValues.map(value => ({ $: { value } }));
+    }
+
+    if (row.pattern) {
+      facets['xs:pattern'] = { $: { value: row.pattern } };
+    }
+
+    return facets;
   }
 
   /**
-   * 그리드 데이터를 YAML로 변환
+   * 그리드 데이터를 WSDL로 변환
+   * 그리드 구조를 단일 오퍼레이션의 요청 메시지로 하는 document/literal 서비스 생성
    */
-  private async convertToYAML(gridData: SchemaGridData[][]): Promise<string> {
-    const jsonSchema = await this.convertToJSON(gridData);
-    const schemaObject = JSON.parse(jsonSchema);
-    return yaml.dump(schemaObject, { indent: 2, lineWidth: 120 });
+  private async convertToWSDL(gridData: SchemaGridData[][], options: SchemaExportOptions = {}): Promise<string> {
+    return this.generateWSDL({
+      serviceName: 'SchemaService',
+      targetNamespace: options.namespace,
+      operations: [{ name: 'process', request: gridData }],
+      xmlSchema: options.xmlSchema
+    });
   }
 
   /**
-   * 그리드 데이터를 XSD로 변환
+   * 명세로부터 전체 WSDL 1.1 문서 생성 (types, message, portType, binding, service)
    */
-  private async convertToXSD(gridData: SchemaGridData[][]): Promise<string> {
-    const elements = gridData.flat().map(row => {
-      const element = {
-        $: {
-          name: row.fieldName,
-          type: this.mapDataTypeToXSDType(row.dataType)
-        }
-      };
+  async generateWSDL(spec: WsdlGenerationSpec): Promise<string> {
+    const targetNamespace = spec.targetNamespace || DEFAULT_SERVICE_NAMESPACE;
+    const { schema, typePrefix } = this.buildXSDSchemaNode(targetNamespace, spec.xmlSchema);
+    const portTypeName = `${spec.serviceName}PortType`;
+    const bindingName = `${spec.serviceName}Binding`;
+    const sharedTypes = new Map<string, GridTreeNode>();
+    const elements: any[] = [];
+    const messages: any[] = [];
+
+    // 메시지별 전역 요소와 wsdl:message 생성
+    const addMessage = (name: string, gridData: SchemaGridData[][]) => {
+      const tree = buildGridTree(gridData);
+      collectSharedTypes(tree, sharedTypes);
+      elements.push({
+        $: { name },
+        'xs:complexType': this.buildXSDComplexType(tree, sharedTypes, typePrefix)
+      });
+      messages.push({
+        $: { name },
+        'wsdl:part': { $: { name: 'parameters', element: `tns:${name}` } }
+      });
+    };
 
-      if (!row.required) {
-        element.$.minOccurs = '0';
+    const operations = spec.operations.map(operation => {
+      const requestName = `${operation.name}Request`;
+      const responseName = `${operation.name}Response`;
+      const faults = operation.faults || [];
+
+      addMessage(requestName, operation.request);
+      if (operation.response) {
+        addMessage(responseName, operation.response);
       }
+      faults.forEach(fault => addMessage(fault.name, fault.gridData));
 
-      return element;
+      const portTypeOperation: any = { $: { name: operation.name } };
+      if (operation.documentation) {
+        portTypeOperation['wsdl:documentation'] = operation.documentation;
+      }
+      portTypeOperation['wsdl:input'] = { $: { message: `tns:${requestName}` } };
+      if (operation.response) {
+        portTypeOperation['wsdl:output'] = { $: { message: `tns:${responseName}` } };
+      }
+      if (faults.length > 0) {
+        portTypeOperation['wsdl:fault'] = faults.map(fault => ({ $: { name: fault.name, message: `tns:${fault.name}` } }));
+      }
+
+      const bindingOperation: any = {
+        $: { name: operation.name },
+        'soap:operation': { $: { soapAction: operation.soapAction || `${targetNamespace}/${operation.name}` } },
+        'wsdl:input': { 'soap:body': { $: { use: 'literal' } } }
+      };
+      if (operation.response) {
+        bindingOperation['wsdl:output'] = { 'soap:body': { $: { use: 'literal' } } };
+      }
+      if (faults.length > 0) {
+        bindingOperation['wsdl:fault'] = faults.map(fault => ({
+          $: { name: fault.name },
+          'soap:fault': { $: { name: fault.name, use: 'literal' } }
+        }));
+      }
+
+      return { portTypeOperation, bindingOperation };
     });
 
-    const xsdObject = {
-      'xs:schema': {
+    schema['xs:element'] = elements;
+
+    if (sharedTypes.size > 0) {
+      schema['xs:complexType'] = Array.from(sharedTypes.entries()).map(([name, node]) => ({
+        $: { name },
+        ...this.buildXSDComplexType(node.children, sharedTypes, typePrefix)
+      }));
+    }
+
+    const wsdlObject = {
+      'wsdl:definitions': {
         $: {
-          'xmlns:xs': 'http://www.w3.org/2001/XMLSchema',
-          'targetNamespace': 'http://example.com/schema',
-          'xmlns': 'http://example.com/schema',
-          'elementFormDefault': 'qualified'
+          'name': spec.serviceName,
+          'xmlns:wsdl': 'http://schemas.xmlsoap.org/wsdl/',
+          'xmlns:soap': 'http://schemas.xmlsoap.org/wsdl/soap/',
+          'xmlns:xs': XSD_NAMESPACE,
+          'xmlns:tns': targetNamespace,
+          'targetNamespace': targetNamespace
         },
-        'xs:element': {
-          $: { name: 'root' },
-          'xs:complexType': {
-            'xs:sequence': {
-              'xs:element': elements
-            }
+        'wsdl:types': { 'xs:schema': schema },
+        'wsdl:message': messages,
+        'wsdl:portType': {
+          $: { name: portTypeName },
+          'wsdl:operation': operations.map(operation => operation.portTypeOperation)
+        },
+        'wsdl:binding': {
+          $: { name: bindingName, type: `tns:${portTypeName}` },
+          'soap:binding': { $: { style: 'document', transport: 'http://schemas.xmlsoap.org/soap/http' } },
+          'wsdl:operation': operations.map(operation => operation.bindingOperation)
+        },
+        'wsdl:service': {
+          $: { name: spec.serviceName },
+          'wsdl:port': {
+            $: { name: `${spec.serviceName}Port`, binding: `tns:${bindingName}` },
+            'soap:address': { $: { location: spec.endpoint || `http://localhost/${spec.serviceName}` } }
           }
         }
       }
     };
 
-    return this.xmlBuilder.buildObject(xsdObject);
+    return this.documentBuilder.buildObject(wsdlObject);
   }
 
   /**
-   * 그리드 데이터를 WSDL로 변환
+   * OpenAPI/Swagger 문서에서 불러올 수 있는 component schema와 operation 목록
    */
-  private async convertToWSDL(gridData: SchemaGridData[][]): Promise<string> {
-    // WSDL은 복잡한 구조이므로 기본 템플릿 제공
-    const wsdlObject = {
-      'wsdl:definitions': {
-        $: {
-          'xmlns:wsdl': 'http://schemas.xmlsoap.org/wsdl/',
-          'xmlns:soap': 'http://schemas.xmlsoap.org/wsdl/soap/',
-          'xmlns:tns': 'http://example.com/service',
-          'targetNamespace': 'http://example.com/service'
-        },
-        'wsdl:types': {
-          'xs:schema': {
-            $: {
-              'xmlns:xs': 'http://www.w3.org/2001/XMLSchema',
-              'targetNamespace': 'http://example.com/service'
-            },
-            'xs:element': gridData.flat().map(row => ({
-              $: {
-                name: row.fieldName,
-                type: this.mapDataTypeToXSDType(row.dataType)
-              }
-            }))
-          }
+  readOpenAPI(content: string): OpenApiDocumentSummary {
+    return new OpenApiDocumentReader().summarize(this.parseJSONOrYAML(content));
+  }
+
+  /**
+   * WSDL 문서를 서비스/바인딩/포트 타입/오퍼레이션 모델로 변환
+   */
+  async readWSDL(wsdl: string): Promise<WsdlDefinition> {
+    if (this.containsXXEPatterns(wsdl)) {
+      throw new Error('잠재적인 XXE 공격 패턴이 감지되었습니다');
+    }
+
+    return new WsdlDocumentReader().read(wsdl);
+  }
+
+  /**
+   * WSDL 오퍼레이션의 요청/응답/fault 메시지 구조를 그리드 데이터로 변환
+   */
+  async wsdlOperationToGrid(wsdl: string, selection: WsdlOperationSelection): Promise<SchemaGridData[][]> {
+    if (this.containsXXEPatterns(wsdl)) {
+      throw new Error('잠재적인 XXE 공격 패턴이 감지되었습니다');
+    }
+
+    const rows = await new WsdlDocumentReader().readOperationMessage(wsdl, selection);
+    return rows.map(field => [field]);
+  }
+
+  /**
+   * 전용 리더가 필요한 형식을 그리드 행으로 변환 (해당하지 않으면 undefined)
+   */
+  private async readWithDedicatedReader(
+    schema: string,
+    sourceFormat: SchemaFormat,
+    options: SchemaImportOptions
+  ): Promise<SchemaGridData[] | undefined> {
+    switch (sourceFormat) {
+      case SchemaFormat.XSD:
+      case SchemaFormat.WSDL: {
+        const isWSDLDocument = sourceFormat === SchemaFormat.WSDL && WsdlDocumentReader.isWSDLDocument(schema);
+        if (!isWSDLDocument && !(sourceFormat === SchemaFormat.XSD && XsdSchemaReader.isXSDDocument(schema))) {
+          return undefined;
+        }
+        if (this.containsXXEPatterns(schema)) {
+          throw new Error('잠재적인 XXE 공격 패턴이 감지되었습니다');
         }
+        return isWSDLDocument ? this.readWSDLToGrid(schema) : new XsdSchemaReader().read(schema);
       }
-    };
+      case SchemaFormat.AVRO:
+        return new AvroSchemaReader().read(schema, options.rootType);
+      case SchemaFormat.PROTOBUF:
+        return new ProtobufSchemaReader().read(schema, options.rootType);
+      case SchemaFormat.THRIFT:
+        return new ThriftSchemaReader().read(schema, options.rootType);
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * WSDL 문서 기본 변환: 첫 번째 오퍼레이션의 요청 메시지 (오퍼레이션이 없으면 types 섹션 전체)
+   */
+  private async readWSDLToGrid(wsdl: string): Promise<SchemaGridData[]> {
+    const reader = new WsdlDocumentReader();
+    const { definition, schemas } = await reader.parse(wsdl);
+    const operation = definition.portTypes.flatMap(portType => portType.operations)[0];
+
+    if (operation?.input) {
+      return reader.readOperationMessage(wsdl, { operation: operation.name, direction: 'input' });
+    }
+
+    const xsdReader = new XsdSchemaReader();
+    return schemas.flatMap(schema => xsdReader.readSchemaNode(schema));
+  }
 
-    return this.xmlBuilder.buildObject(wsdlObject);
-  } 
  /**
    * XML 파싱 (XXE 공격 방지 포함)
    */
@@ -390,6 +1631,14 @@ export class SchemaConverter implements ISchemaConverter {
     });
   }
 
+  /**
+   * JSON 또는 YAML 문자열 파싱 (OpenAPI 문서는 두 형식 모두 사용)
+   */
+  private parseJSONOrYAML(content: string): any {
+    const trimmed = content.trim();
+    return trimmed.startsWith('{') ? JSON.parse(trimmed) : yaml.load(content);
+  }
+
   /**
    * XXE 공격 패턴 검사
    */
@@ -407,7 +1656,11 @@ export class SchemaConverter implements ISchemaConverter {
   /**
    * 파싱된 데이터를 그리드 형태로 변환
    */
-  private async convertParsedDataToGrid(parsedData: any, sourceFormat: SchemaFormat): Promise<SchemaGridData[][]> {
+  private async convertParsedDataToGrid(
+    parsedData: any,
+    sourceFormat: SchemaFormat,
+    options: SchemaImportOptions = {}
+  ): Promise<SchemaGridData[][]> {
     const gridData: SchemaGridData[] = [];
 
     switch (sourceFormat) {
@@ -417,10 +1670,14 @@ export class SchemaConverter implements ISchemaConverter {
         this.extractFieldsFromXML(parsedData, gridData);
         break;
       case SchemaFormat.JSON:
-        this.extractFieldsFromJSON(parsedData, gridData);
+        await this.extractFieldsFromJSON(parsedData, gridData);
         break;
       case SchemaFormat.YAML:
-        this.extractFieldsFromYAML(parsedData, gridData);
+        await this.extractFieldsFromYAML(parsedData, gridData);
+        break;
+      case SchemaFormat.OPENAPI:
+      case SchemaFormat.SWAGGER:
+        await this.extractFieldsFromOpenAPI(parsedData, gridData, options.openApi);
         break;
     }
 
@@ -432,48 +1689,266 @@ export class SchemaConverter implements ISchemaConverter {
    * XML에서 필드 추출
    */
   private extractFieldsFromXML(xmlData: any, gridData: SchemaGridData[]): void {
-    if (xmlData.schema && xmlData.schema.fields && xmlData.schema.fields.field) {
-      const fields = Array.isArray(xmlData.schema.fields.field) 
-        ? xmlData.schema.fields.field 
-        : [xmlData.schema.fields.field];
-
-      fields.forEach((field: any) => {
-        gridData.push({
-          fieldName: field.name || field.$.name || '',
-          dataType: field.type || field.$.type || 'string',
-          required: this.parseBoolean(field.required || field.$.required),
-          description: field.description || '',
-          defaultValue: field.defaultValue,
-          constraints: field.constraints
-        });
-      });
+    if (xmlData.schema && xmlData.schema.fields) {
+      this.extractXMLFieldList(xmlData.schema.fields, gridData, undefined, 0);
+    }
+  }
+
+  /**
+   * fields 요소의 field 목록을 재귀적으로 추출 (중첩 fields는 하위 필드)
+   */
+  private extractXMLFieldList(
+    fieldsNode: any,
+    gridData: SchemaGridData[],
+    parentPath: string | undefined,
+    depth: number
+  ): void {
+    if (!fieldsNode || !fieldsNode.field) {
+      return;
     }
+
+    const fields = Array.isArray(fieldsNode.field) ? fieldsNode.field : [fieldsNode.field];
+
+    fields.forEach((field: any) => {
+      const attrs = field.$ || {};
+      const row = createNestedRow({
+        fieldName: field.name || attrs.name || '',
+        dataType: field.type || attrs.type || 'string',
+        required: this.parseBoolean(field.required || attrs.required),
+        description: field.description || '',
+        // normalizeTags 설정으로 태그명이 소문자로 변환됨
+        defaultValue: field.defaultvalue ?? field.defaultValue,
+        constraints: field.constraints
+      }, parentPath, depth);
+
+      const itemType = field.itemType || attrs.itemType;
+      if (itemType) {
+        row.itemType = itemType;
+      }
+
+      if (this.parseBoolean(field.attribute || attrs.attribute)) {
+        row.isAttribute = true;
+      }
+
+      if (attrs.fieldNumber !== undefined) {
+        row.fieldNumber = Number(attrs.fieldNumber);
+      }
+
+      const minLength = field.minLength ?? attrs.minLength;
+      const maxLength = field.maxLength ?? attrs.maxLength;
+      if (minLength !== undefined) {
+        row.minLength = Number(minLength);
+      }
+      if (maxLength !== undefined) {
+        row.maxLength = Number(maxLength);
+      }
+
+      if (field.pattern) {
+        row.pattern = field.pattern;
+      }
+
+      // normalizeTags 설정으로 enumValues 태그명이 소문자로 변환됨
+      const enumValues = field.enumvalues?.value;
+      if (enumValues !== undefined) {
+        row.enumValues = Array.isArray(enumValues) ? enumValues : [enumValues];
+      }
+
+      gridData.push(row);
+      this.extractXMLFieldList(field.fields, gridData, row.path, depth + 1);
+    });
   }
 
   /**
    * JSON에서 필드 추출
+   * $ref/definitions/$defs는 펼쳐서 하위 행으로 추가하고 정의 이름을 typeRef로 보존
    */
-  private extractFieldsFromJSON(jsonData: any, gridData: SchemaGridData[]): void {
-    if (jsonData.properties) {
-      Object.keys(jsonData.properties).forEach(fieldName => {
-        const property = jsonData.properties[fieldName];
-        gridData.push({
-          fieldName,
-          dataType: this.mapJSONTypeToDataType(property.type || 'string'),
-          required: jsonData.required ? jsonData.required.includes(fieldName) : false,
-          description: property.description || '',
-          defaultValue: property.default,
-          constraints: property.constraints ? JSON.stringify(property.constraints) : undefined
-        });
-      });
+  private async extractFieldsFromJSON(jsonData: any, gridData: SchemaGridData[], documentRoot: any = jsonData): Promise<void> {
+    const resolver = new JsonSchemaRefResolver(this.externalSchemaLoader);
+    await resolver.load(documentRoot);
+
+    const context: JSONExtractionContext = { resolver, baseUri: '', refStack: new Set() };
+    const { schema: rootSchema, context: rootContext } = this.dereferenceJSON(jsonData, context);
+    this.extractJSONProperties(rootSchema, gridData, undefined, 0, rootContext);
+  }
+
+  /**
+   * JSON Schema properties를 재귀적으로 추출
+   * object는 하위 properties, 배열은 items 구조를 하위 행으로 추가
+   */
+  private extractJSONProperties(
+    objectSchema: any,
+    gridData: SchemaGridData[],
+    parentPath: string | undefined,
+    depth: number,
+    context: JSONExtractionContext
+  ): void {
+    if (!objectSchema || !objectSchema.properties) {
+      return;
+    }
+
+    const requiredFields: string[] = Array.isArray(objectSchema.required) ? objectSchema.required : [];
+
+    Object.keys(objectSchema.properties).forEach(fieldName => {
+      const rawProperty = objectSchema.properties[fieldName] || {};
+      const { schema: property, context: propertyContext, refName, recursive } =
+        this.dereferenceJSON(rawProperty, context);
+      const dataType = this.mapJSONTypeToDataType(this.resolveJSONType(property));
+      const row = createNestedRow({
+        fieldName,
+        dataType,
+        required: requiredFields.includes(fieldName),
+        description: property.description || '',
+        defaultValue: property.default
+      }, parentPath, depth);
+
+      this.readJSONFacets(property, row);
+
+      if (refName) {
+        row.typeRef = refName;
+      }
+
+      let childSchema: any = dataType === 'object' ? property : undefined;
+      let childContext = propertyContext;
+      let childRecursive = recursive;
+
+      if (dataType === 'array' && property.items && !Array.isArray(property.items)) {
+        const items = this.dereferenceJSON(property.items, propertyContext);
+        row.itemType = this.mapJSONTypeToDataType(this.resolveJSONType(items.schema));
+
+        if (items.refName) {
+          row.typeRef = items.refName;
+        }
+
+        if (row.itemType !== 'object') {
+          this.readJSONFacets(items.schema, row);
+        } else {
+          childSchema = items.schema;
+          childContext = items.context;
+          childRecursive = items.recursive;
+        }
+      }
+
+      gridData.push(row);
+
+      // 순환 참조는 정의 이름만 남기고 더 이상 펼치지 않음
+      if (childSchema && !childRecursive) {
+        this.extractJSONProperties(childSchema, gridData, row.path, depth + 1, childContext);
+      }
+    });
+  }
+
+  /**
+   * JSON Schema 제약 키워드를 행에 반영
+   * 길이/패턴/열거값은 전용 컬럼, 나머지 수치/형식 제약은 constraints JSON으로 보존
+   */
+  private readJSONFacets(property: any, row: SchemaGridData): void {
+    if (typeof property.minLength === 'number') {
+      row.minLength = property.minLength;
+    }
+    if (typeof property.maxLength === 'number') {
+      row.maxLength = property.maxLength;
+    }
+    if (typeof property.pattern === 'string') {
+      row.pattern = property.pattern;
+    }
+    if (Array.isArray(property.enum)) {
+      row.enumValues = property.enum.map((value: any) => String(value));
+    }
+
+    // 배열은 속성과 항목 스키마에서 두 번 호출되므로 기존 제약과 병합
+    const constraints: Record<string, any> = row.constraints ? JSON.parse(row.constraints) : {};
+    if (property.constraints && typeof property.constraints === 'object') {
+      Object.assign(constraints, property.constraints);
+    }
+    JSON_CONSTRAINT_KEYWORDS.forEach(keyword => {
+      if (property[keyword] !== undefined) {
+        constraints[keyword] = property[keyword];
+      }
+    });
+
+    if (Object.keys(constraints).length > 0) {
+      row.constraints = JSON.stringify(constraints);
     }
   }
 
+  /**
+   * $ref가 있으면 대상 스키마로 치환 ($ref와 함께 선언된 description/default는 우선 적용)
+   */
+  private dereferenceJSON(
+    schema: any,
+    context: JSONExtractionContext
+  ): { schema: any; context: JSONExtractionContext; refName?: string; recursive: boolean } {
+    if (!schema || typeof schema.$ref !== 'string') {
+      return { schema: schema || {}, context, recursive: false };
+    }
+
+    const resolved = context.resolver.resolve(schema.$ref, context.baseUri);
+    const { $ref: _ref, ...siblings } = schema;
+    const recursive = context.refStack.has(resolved.key);
+    const nextContext: JSONExtractionContext = {
+      resolver: context.resolver,
+      baseUri: resolved.baseUri,
+      refStack: new Set(context.refStack).add(resolved.key)
+    };
+
+    // 참조 대상이 다시 $ref인 경우 (별칭 정의) 끝까지 따라감
+    const target = recursive
+      ? { schema: resolved.schema, context: nextContext, recursive: true }
+      : this.dereferenceJSON(resolved.schema, nextContext);
+
+    return {
+      schema: { ...target.schema, ...siblings },
+      context: target.context,
+      refName: resolved.name,
+      recursive: recursive || target.recursive
+    };
+  }
+
+  /**
+   * JSON Schema 속성의 타입 결정
+   * type 배열(["string", "null"])은 null이 아닌 첫 타입, type이 없으면 구조로 추론
+   */
+  private resolveJSONType(property: any): string {
+    if (Array.isArray(property.type)) {
+      return property.type.find((type: string) => type !== 'null') || 'string';
+    }
+
+    if (typeof property.type === 'string') {
+      return property.type;
+    }
+
+    if (property.properties) {
+      return 'object';
+    }
+
+    if (property.items) {
+      return 'array';
+    }
+
+    return 'string';
+  }
+
+  /**
+   * OpenAPI/Swagger 문서에서 선택한 스키마의 필드 추출
+   * $ref(#/components/schemas, #/definitions)는 문서 전체를 루트로 해석하고 배열 본문은 항목 구조를 사용
+   */
+  private async extractFieldsFromOpenAPI(
+    document: any,
+    gridData: SchemaGridData[],
+    selection?: OpenApiSelection
+  ): Promise<void> {
+    const selected = new OpenApiDocumentReader().select(document, selection);
+    const schema = selected.schema?.type === 'array' && selected.schema.items ? selected.schema.items : selected.schema;
+
+    this.logger.info('OpenAPI 스키마 선택', { source: selected.source });
+    await this.extractFieldsFromJSON(schema, gridData, document);
+  }
+
   /**
    * YAML에서 필드 추출 (JSON과 동일한 구조)
    */
-  private extractFieldsFromYAML(yamlData: any, gridData: SchemaGridData[]): void {
-    this.extractFieldsFromJSON(yamlData, gridData);
+  private async extractFieldsFromYAML(yamlData: any, gridData: SchemaGridData[]): Promise<void> {
+    await this.extractFieldsFromJSON(yamlData, gridData);
   }
 
   /**
@@ -510,8 +1985,9 @@ export class SchemaConverter implements ISchemaConverter {
           });
         }
 
-        // 필드명 중복 검증
-        const duplicateFields = gridData.flat().filter(f => f.fieldName === field.fieldName);
+        // 필드명 중복 검증 (중첩 구조에서는 같은 부모 아래에서만 중복으로 간주)
+        const fieldPath = resolveRowPath(field);
+        const duplicateFields = gridData.flat().filter(f => resolveRowPath(f) === fieldPath);
         if (duplicateFields.length > 1) {
           result.warnings.push({
             field: 'fieldName',
@@ -555,6 +2031,38 @@ export class SchemaConverter implements ISchemaConverter {
       case SchemaFormat.YAML:
         yaml.load(schema);
         break;
+      case SchemaFormat.OPENAPI:
+      case SchemaFormat.SWAGGER:
+        this.parseJSONOrYAML(schema);
+        break;
+      case SchemaFormat.AVRO:
+        JSON.parse(schema);
+        break;
+      case SchemaFormat.PROTOBUF:
+      case SchemaFormat.THRIFT:
+        IdlTokenStream.tokenize(schema);
+        break;
+    }
+  }
+
+  /**
+   * IDL 계열 스키마를 리더로 해석하여 구조 오류를 검증 결과에 추가
+   */
+  private validateIdlSchema(read: () => SchemaGridData[], code: string, result: ValidationResult): void {
+    try {
+      if (read().length === 0) {
+        result.warnings.push({
+          field: 'schema',
+          message: '스키마에 필드가 없습니다',
+          code: 'EMPTY_SCHEMA'
+        });
+      }
+    } catch (error) {
+      result.errors.push({
+        field: 'schema',
+        message: error instanceof Error ? error.message : '알 수 없는 스키마 오류',
+        code
+      });
     }
   }
 
@@ -636,6 +2144,46 @@ export class SchemaConverter implements ISchemaConverter {
     }
   }
 
+  /**
+   * OpenAPI/Swagger 문서 검증
+   */
+  private validateOpenAPIDocument(document: any, format: SchemaFormat, result: ValidationResult): void {
+    const version = OpenApiDocumentReader.detectVersion(document);
+
+    if (!version) {
+      result.errors.push({
+        field: format === SchemaFormat.SWAGGER ? 'swagger' : 'openapi',
+        message: 'OpenAPI 문서에는 openapi(3.x) 또는 swagger(2.0) 버전 필드가 필요합니다',
+        code: 'MISSING_OPENAPI_VERSION'
+      });
+      return;
+    }
+
+    if ((version === '2.0') !== (format === SchemaFormat.SWAGGER)) {
+      result.errors.push({
+        field: version === '2.0' ? 'swagger' : 'openapi',
+        message: `문서 버전(${version})이 지정한 형식(${format})과 일치하지 않습니다`,
+        code: 'OPENAPI_VERSION_MISMATCH'
+      });
+    }
+
+    if (document.paths !== undefined && (typeof document.paths !== 'object' || document.paths === null)) {
+      result.errors.push({
+        field: 'paths',
+        message: 'paths 필드는 객체여야 합니다',
+        code: 'INVALID_PATHS_TYPE'
+      });
+    }
+
+    if (!document.info) {
+      result.warnings.push({
+        field: 'info',
+        message: 'OpenAPI 문서에 info 필드가 없습니다',
+        code: 'MISSING_INFO'
+      });
+    }
+  }
+
   /**
    * YAML 스키마 검증
    */
@@ -714,6 +2262,60 @@ export class SchemaConverter implements ISchemaConverter {
     return typeMap[dataType.toLowerCase()] || 'xs:string';
   }
 
+  /**
+   * 데이터 타입을 Avro 타입으로 매핑 (날짜/시간은 논리 타입)
+   */
+  private mapDataTypeToAvroType(dataType: string): any {
+    const typeMap: Record<string, any> = {
+      'string': 'string',
+      'text': 'string',
+      'number': 'double',
+      'integer': 'long',
+      'boolean': 'boolean',
+      'date': { type: 'int', logicalType: 'date' },
+      'datetime': { type: 'long', logicalType: 'timestamp-millis' },
+      'time': { type: 'int', logicalType: 'time-millis' }
+    };
+
+    return typeMap[dataType.toLowerCase()] || 'string';
+  }
+
+  /**
+   * 데이터 타입을 Protobuf 스칼라 타입으로 매핑
+   */
+  private mapDataTypeToProtobufType(dataType: string): string {
+    const typeMap: Record<string, string> = {
+      'string': 'string',
+      'text': 'string',
+      'number': 'double',
+      'integer': 'int64',
+      'boolean': 'bool',
+      'date': 'string',
+      'datetime': 'google.protobuf.Timestamp',
+      'time': 'string'
+    };
+
+    return typeMap[dataType.toLowerCase()] || 'string';
+  }
+
+  /**
+   * 데이터 타입을 Thrift 기본 타입으로 매핑
+   */
+  private mapDataTypeToThriftType(dataType: string): string {
+    const typeMap: Record<string, string> = {
+      'string': 'string',
+      'text': 'string',
+      'number': 'double',
+      'integer': 'i64',
+      'boolean': 'bool',
+      'date': 'string',
+      'datetime': 'string',
+      'time': 'string'
+    };
+
+    return typeMap[dataType.toLowerCase()] || 'string';
+  }
+
   /**
    * 문자열을 불린으로 파싱
    */
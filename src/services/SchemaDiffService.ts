@@ -0,0 +1,598 @@
+/**
+ * 스키마 의미 비교(diff) 서비스
+ * 두 스키마 버전을 그리드 모델로 불러와 필드 추가/삭제/이름 변경, 타입·필수 여부·제약 변경을 분류
+ */
+
+import { SchemaFormat, SchemaGridData } from '../types/schema';
+import {
+  SchemaChange,
+  SchemaChangeType,
+  SchemaDiffInput,
+  SchemaDiffOptions,
+  SchemaDiffRenderFormat,
+  SchemaDiffReport
+} from '../types/diff';
+import { Logger } from '../core/logging/Logger';
+import { ValidationError } from '../types/errors';
+import { SchemaConversionService } from './SchemaConversionService';
+import {
+  buildGridTree,
+  collectSharedTypes,
+  GridTreeNode,
+  isContainerRow,
+  joinPath,
+  parseRowConstraints
+} from './converters/gridTree';
+import { SchemaDiffRenderer } from './diff/SchemaDiffRenderer';
+
+/**
+ * 비교 중 상태 (공유 타입과 재귀 참조 방지)
+ */
+interface DiffContext {
+  oldSharedTypes: Map<string, GridTreeNode>;
+  newSharedTypes: Map<string, GridTreeNode>;
+  // 비교 중인 typeRef 쌍 (재귀 구조 무한 반복 방지)
+  visiting: Set<string>;
+  options: Required<SchemaDiffOptions>;
+  changes: SchemaChange[];
+}
+
+/**
+ * 값이 클수록 엄격해지는 하한 제약
+ */
+const LOWER_BOUND_CONSTRAINTS = ['minLength', 'minimum', 'exclusiveMinimum', 'minItems'];
+
+/**
+ * 값이 작을수록 엄격해지는 상한 제약
+ */
+const UPPER_BOUND_CONSTRAINTS = ['maxLength', 'maximum', 'exclusiveMaximum', 'maxItems', 'totalDigits', 'fractionDigits'];
+
+/**
+ * 대소 비교할 수 없어 값이 바뀌면 호환성이 깨지는 제약
+ */
+const EXACT_CONSTRAINTS = ['pattern', 'format', 'multipleOf'];
+
+/**
+ * 기존 값을 모두 받아들이는 타입 확장 (이전 타입 -> 새 타입)
+ */
+const WIDENING_CONVERSIONS: Record<string, string[]> = {
+  integer: ['number', 'string'],
+  number: ['string'],
+  boolean: ['string'],
+  date: ['string'],
+  datetime: ['string'],
+  time: ['string']
+};
+
+/**
+ * 데이터 타입 별칭 정규화
+ */
+const TYPE_ALIASES: Record<string, string> = {
+  text: 'string',
+  int: 'integer',
+  long: 'integer',
+  float: 'number',
+  double: 'number',
+  decimal: 'number',
+  bool: 'boolean',
+  'date-time': 'datetime',
+  timestamp: 'datetime'
+};
+
+const DEFAULT_RENAME_SIMILARITY = 0.6;
+
+/**
+ * 스키마 diff 서비스 구현체
+ */
+export class SchemaDiffService {
+  private logger: Logger;
+  private renderer = new SchemaDiffRenderer();
+
+  constructor(private conversionService: SchemaConversionService = new SchemaConversionService()) {
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * 두 스키마 문서 비교 (형식이 달라도 그리드 모델로 불러와 비교)
+   */
+  async diffSchemas(
+    previous: SchemaDiffInput,
+    next: SchemaDiffInput,
+    options: SchemaDiffOptions = {}
+  ): Promise<SchemaDiffReport> {
+    const [previousFormat, nextFormat] = await Promise.all([
+      this.resolveFormat(previous, '이전'),
+      this.resolveFormat(next, '새')
+    ]);
+
+    const [previousGrid, nextGrid] = await Promise.all([
+      this.loadGrid(previous, previousFormat, '이전'),
+      this.loadGrid(next, nextFormat, '새')
+    ]);
+
+    const report = this.diffGrids(previousGrid, nextGrid, options);
+    report.source.format = previousFormat;
+    report.target.format = nextFormat;
+    return report;
+  }
+
+  /**
+   * 두 그리드 데이터 비교
+   */
+  diffGrids(
+    previousGrid: SchemaGridData[][],
+    nextGrid: SchemaGridData[][],
+    options: SchemaDiffOptions = {}
+  ): SchemaDiffReport {
+    const previousTree = buildGridTree(previousGrid);
+    const nextTree = buildGridTree(nextGrid);
+    const context: DiffContext = {
+      oldSharedTypes: collectSharedTypes(previousTree),
+      newSharedTypes: collectSharedTypes(nextTree),
+      visiting: new Set(),
+      options: {
+        detectRenames: options.detectRenames ?? true,
+        renameSimilarity: options.renameSimilarity ?? DEFAULT_RENAME_SIMILARITY
+      },
+      changes: []
+    };
+
+    this.diffChildren(previousTree, nextTree, undefined, undefined, context);
+
+    const changes = context.changes;
+    const byType: Partial<Record<SchemaChangeType, number>> = {};
+    changes.forEach(change => {
+      byType[change.type] = (byType[change.type] || 0) + 1;
+    });
+    const breaking = changes.filter(change => change.severity === 'breaking').length;
+
+    this.logger.info('스키마 비교 완료', {
+      changeCount: changes.length,
+      breakingCount: breaking
+    });
+
+    return {
+      isBreaking: breaking > 0,
+      changes,
+      summary: {
+        total: changes.length,
+        breaking,
+        nonBreaking: changes.length - breaking,
+        byType
+      },
+      source: { fieldCount: this.countRows(previousGrid) },
+      target: { fieldCount: this.countRows(nextGrid) },
+      generatedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * 비교 보고서 출력 (json, markdown, html)
+   */
+  render(report: SchemaDiffReport, format: SchemaDiffRenderFormat): string {
+    switch (format) {
+      case 'markdown':
+        return this.renderer.toMarkdown(report);
+      case 'html':
+        return this.renderer.toHTML(report);
+      default:
+        return JSON.stringify(report, null, 2);
+    }
+  }
+
+  private async resolveFormat(input: SchemaDiffInput, label: string): Promise<SchemaFormat> {
+    const format = input.format || await this.conversionService.detectSchemaFormat(input.content);
+    if (!format) {
+      throw new ValidationError(`${label} 스키마의 형식을 감지할 수 없습니다`, 'format');
+    }
+    return format;
+  }
+
+  /**
+   * 비교할 스키마를 그리드로 불러오기 (읽을 수 없는 문서는 입력 오류로 처리)
+   */
+  private async loadGrid(input: SchemaDiffInput, format: SchemaFormat, label: string): Promise<SchemaGridData[][]> {
+    try {
+      return await this.conversionService.convertToGrid(input.content, format, input.importOptions);
+    } catch (error) {
+      throw new ValidationError(
+        `${label} 스키마를 읽을 수 없습니다: ${error instanceof Error ? error.message : '알 수 없는 오류'}`,
+        'content'
+      );
+    }
+  }
+
+  /**
+   * 같은 부모 아래의 필드 목록 비교 (이름으로 짝짓고 남은 필드는 이름 변경 후보)
+   */
+  private diffChildren(
+    oldNodes: GridTreeNode[],
+    newNodes: GridTreeNode[],
+    oldParentPath: string | undefined,
+    newParentPath: string | undefined,
+    context: DiffContext
+  ): void {
+    const oldByName = new Map(oldNodes.map(node => [node.row.fieldName, node]));
+    const pairs = new Map<GridTreeNode, GridTreeNode>();
+
+    newNodes.forEach(node => {
+      const match = oldByName.get(node.row.fieldName);
+      if (match) {
+        pairs.set(node, match);
+        oldByName.delete(node.row.fieldName);
+      }
+    });
+
+    const added = newNodes.filter(node => !pairs.has(node));
+    const removed = Array.from(oldByName.values());
+    const renamed = context.options.detectRenames ? this.matchRenames(removed, added, context) : new Map();
+
+    newNodes.forEach(node => {
+      const path = joinPath(newParentPath, node.row.fieldName);
+      const previous = pairs.get(node) || renamed.get(node);
+
+      if (!previous) {
+        context.changes.push({
+          type: 'FIELD_ADDED',
+          severity: node.row.required ? 'breaking' : 'non-breaking',
+          path,
+          message: node.row.required
+            ? `${path}: 필수 필드가 추가되었습니다`
+            : `${path}: 선택 필드가 추가되었습니다`
+        });
+        return;
+      }
+
+      const oldPath = joinPath(oldParentPath, previous.row.fieldName);
+      if (previous.row.fieldName !== node.row.fieldName) {
+        context.changes.push({
+          type: 'FIELD_RENAMED',
+          severity: 'breaking',
+          path,
+          oldPath,
+          before: previous.row.fieldName,
+          after: node.row.fieldName,
+          message: `${oldPath}: 필드 이름이 ${node.row.fieldName}(으)로 바뀌었습니다`
+        });
+      }
+
+      this.compareFields(previous, node, oldPath, path, context);
+    });
+
+    removed
+      .filter(node => !Array.from(renamed.values()).includes(node))
+      .forEach(node => {
+        const path = joinPath(oldParentPath, node.row.fieldName);
+        context.changes.push({
+          type: 'FIELD_REMOVED',
+          severity: 'breaking',
+          path,
+          message: `${path}: 필드가 삭제되었습니다`
+        });
+      });
+  }
+
+  /**
+   * 삭제/추가된 필드 중 표현 방식과 타입이 같고 이름이 비슷한 쌍을 이름 변경으로 판단
+   */
+  private matchRenames(
+    removed: GridTreeNode[],
+    added: GridTreeNode[],
+    context: DiffContext
+  ): Map<GridTreeNode, GridTreeNode> {
+    const candidates: Array<{ previous: GridTreeNode; next: GridTreeNode; score: number }> = [];
+
+    removed.forEach(previous => {
+      added.forEach(next => {
+        if (Boolean(previous.row.isAttribute) !== Boolean(next.row.isAttribute)
+          || this.describeType(previous.row) !== this.describeType(next.row)) {
+          return;
+        }
+        const score = this.nameSimilarity(previous.row.fieldName, next.row.fieldName);
+        if (score >= context.options.renameSimilarity) {
+          candidates.push({ previous, next, score });
+        }
+      });
+    });
+
+    const renamed = new Map<GridTreeNode, GridTreeNode>();
+    const used = new Set<GridTreeNode>();
+    candidates
+      .sort((a, b) => b.score - a.score)
+      .forEach(({ previous, next }) => {
+        if (!renamed.has(next) && !used.has(previous)) {
+          renamed.set(next, previous);
+          used.add(previous);
+        }
+      });
+
+    return renamed;
+  }
+
+  /**
+   * 짝지어진 두 필드의 타입, 필수 여부, 기본값, 제약, 하위 필드 비교
+   */
+  private compareFields(
+    previous: GridTreeNode,
+    next: GridTreeNode,
+    oldPath: string,
+    path: string,
+    context: DiffContext
+  ): void {
+    const oldRow = previous.row;
+    const newRow = next.row;
+
+    if (Boolean(oldRow.isAttribute) !== Boolean(newRow.isAttribute)) {
+      context.changes.push({
+        type: 'TYPE_CHANGED',
+        severity: 'breaking',
+        path,
+        before: oldRow.isAttribute ? 'attribute' : 'element',
+        after: newRow.isAttribute ? 'attribute' : 'element',
+        message: `${path}: XML 속성/요소 표현이 바뀌었습니다`
+      });
+    }
+
+    const oldType = this.describeType(oldRow);
+    const newType = this.describeType(newRow);
+    if (oldType !== newType) {
+      context.changes.push({
+        type: 'TYPE_CHANGED',
+        severity: this.isWidening(oldRow, newRow) ? 'non-breaking' : 'breaking',
+        path,
+        before: oldType,
+        after: newType,
+        message: `${path}: 타입이 ${oldType}에서 ${newType}(으)로 바뀌었습니다`
+      });
+    }
+
+    if (Boolean(oldRow.required) !== Boolean(newRow.required)) {
+      context.changes.push({
+        type: 'REQUIRED_CHANGED',
+        severity: newRow.required ? 'breaking' : 'non-breaking',
+        path,
+        before: Boolean(oldRow.required),
+        after: Boolean(newRow.required),
+        message: newRow.required ? `${path}: 선택 필드가 필수로 바뀌었습니다` : `${path}: 필수 필드가 선택으로 바뀌었습니다`
+      });
+    }
+
+    if (!this.isEmptyValue(oldRow.defaultValue) || !this.isEmptyValue(newRow.defaultValue)) {
+      if (String(oldRow.defaultValue ?? '') !== String(newRow.defaultValue ?? '')) {
+        context.changes.push({
+          type: 'DEFAULT_CHANGED',
+          severity: 'non-breaking',
+          path,
+          before: oldRow.defaultValue,
+          after: newRow.defaultValue,
+          message: `${path}: 기본값이 바뀌었습니다`
+        });
+      }
+    }
+
+    this.compareConstraints(oldRow, newRow, path, context);
+
+    if (isContainerRow(oldRow) && isContainerRow(newRow)) {
+      const visitKey = `${oldRow.typeRef || oldPath}|${newRow.typeRef || path}`;
+      if (context.visiting.has(visitKey)) {
+        return;
+      }
+
+      context.visiting.add(visitKey);
+      this.diffChildren(
+        this.resolveChildren(previous, context.oldSharedTypes),
+        this.resolveChildren(next, context.newSharedTypes),
+        oldPath,
+        path,
+        context
+      );
+      context.visiting.delete(visitKey);
+    }
+  }
+
+  /**
+   * 길이/범위/패턴/열거값 제약 비교
+   */
+  private compareConstraints(oldRow: SchemaGridData, newRow: SchemaGridData, path: string, context: DiffContext): void {
+    const before = this.collectConstraints(oldRow);
+    const after = this.collectConstraints(newRow);
+
+    LOWER_BOUND_CONSTRAINTS.forEach(name => {
+      this.compareBound(name, before[name], after[name], path, context, (oldValue, newValue) => newValue > oldValue);
+    });
+
+    UPPER_BOUND_CONSTRAINTS.forEach(name => {
+      this.compareBound(name, before[name], after[name], path, context, (oldValue, newValue) => newValue < oldValue);
+    });
+
+    EXACT_CONSTRAINTS.forEach(name => {
+      const oldValue = before[name];
+      const newValue = after[name];
+      if (oldValue === undefined && newValue === undefined || String(oldValue) === String(newValue)) {
+        return;
+      }
+
+      if (oldValue === undefined) {
+        this.pushConstraintChange('CONSTRAINT_TIGHTENED', name, oldValue, newValue, path, context, `${name} 제약이 추가되었습니다`);
+      } else if (newValue === undefined) {
+        this.pushConstraintChange('CONSTRAINT_LOOSENED', name, oldValue, newValue, path, context, `${name} 제약이 제거되었습니다`);
+      } else {
+        this.pushConstraintChange('CONSTRAINT_CHANGED', name, oldValue, newValue, path, context, `${name} 제약이 바뀌었습니다`);
+      }
+    });
+
+    this.compareEnumValues(oldRow.enumValues, newRow.enumValues, path, context);
+  }
+
+  private compareBound(
+    name: string,
+    oldValue: any,
+    newValue: any,
+    path: string,
+    context: DiffContext,
+    isTighter: (oldValue: number, newValue: number) => boolean
+  ): void {
+    if (oldValue === newValue || (oldValue === undefined && newValue === undefined)) {
+      return;
+    }
+
+    if (oldValue === undefined) {
+      this.pushConstraintChange('CONSTRAINT_TIGHTENED', name, oldValue, newValue, path, context, `${name} 제약(${newValue})이 추가되었습니다`);
+    } else if (newValue === undefined) {
+      this.pushConstraintChange('CONSTRAINT_LOOSENED', name, oldValue, newValue, path, context, `${name} 제약(${oldValue})이 제거되었습니다`);
+    } else {
+      const tighter = isTighter(Number(oldValue), Number(newValue));
+      this.pushConstraintChange(
+        tighter ? 'CONSTRAINT_TIGHTENED' : 'CONSTRAINT_LOOSENED',
+        name,
+        oldValue,
+        newValue,
+        path,
+        context,
+        `${name} 제약이 ${oldValue}에서 ${newValue}(으)로 ${tighter ? '강화' : '완화'}되었습니다`
+      );
+    }
+  }
+
+  /**
+   * 열거값 비교 (허용 값이 하나라도 빠지면 강화)
+   */
+  private compareEnumValues(
+    oldValues: string[] | undefined,
+    newValues: string[] | undefined,
+    path: string,
+    context: DiffContext
+  ): void {
+    const before = (oldValues || []).map(String);
+    const after = (newValues || []).map(String);
+    if (before.length === 0 && after.length === 0) {
+      return;
+    }
+
+    if (before.length === 0) {
+      this.pushConstraintChange('CONSTRAINT_TIGHTENED', 'enumValues', undefined, after, path, context, '열거값 제약이 추가되었습니다');
+      return;
+    }
+    if (after.length === 0) {
+      this.pushConstraintChange('CONSTRAINT_LOOSENED', 'enumValues', before, undefined, path, context, '열거값 제약이 제거되었습니다');
+      return;
+    }
+
+    const removedValues = before.filter(value => !after.includes(value));
+    const addedValues = after.filter(value => !before.includes(value));
+
+    if (removedValues.length > 0) {
+      this.pushConstraintChange('CONSTRAINT_TIGHTENED', 'enumValues', before, after, path, context, `열거값이 제거되었습니다 (${removedValues.join(', ')})`);
+    } else if (addedValues.length > 0) {
+      this.pushConstraintChange('CONSTRAINT_LOOSENED', 'enumValues', before, after, path, context, `열거값이 추가되었습니다 (${addedValues.join(', ')})`);
+    }
+  }
+
+  private pushConstraintChange(
+    type: SchemaChangeType,
+    constraint: string,
+    before: any,
+    after: any,
+    path: string,
+    context: DiffContext,
+    description: string
+  ): void {
+    context.changes.push({
+      type,
+      severity: type === 'CONSTRAINT_LOOSENED' ? 'non-breaking' : 'breaking',
+      path,
+      constraint,
+      before,
+      after,
+      message: `${path}: ${description}`
+    });
+  }
+
+  /**
+   * 행 컬럼(minLength, maxLength, pattern)과 constraints 컬럼의 제약을 합침 (행 컬럼 우선)
+   */
+  private collectConstraints(row: SchemaGridData): Record<string, any> {
+    const constraints = parseRowConstraints(row);
+    if (row.minLength !== undefined) {
+      constraints.minLength = row.minLength;
+    }
+    if (row.maxLength !== undefined) {
+      constraints.maxLength = row.maxLength;
+    }
+    if (row.pattern) {
+      constraints.pattern = row.pattern;
+    }
+    return constraints;
+  }
+
+  /**
+   * 하위 노드 (하위 행이 없는 typeRef 참조는 공유 정의 사용)
+   */
+  private resolveChildren(node: GridTreeNode, sharedTypes: Map<string, GridTreeNode>): GridTreeNode[] {
+    if (node.children.length > 0 || !node.row.typeRef) {
+      return node.children;
+    }
+    return sharedTypes.get(node.row.typeRef)?.children || [];
+  }
+
+  /**
+   * 비교용 타입 표기 (배열은 array<항목 타입>)
+   */
+  private describeType(row: SchemaGridData): string {
+    const dataType = this.normalizeType(row.dataType);
+    return dataType === 'array' ? `array<${this.normalizeType(row.itemType || 'string')}>` : dataType;
+  }
+
+  private normalizeType(dataType: string | undefined): string {
+    const normalized = (dataType || 'string').toLowerCase();
+    return TYPE_ALIASES[normalized] || normalized;
+  }
+
+  private isWidening(oldRow: SchemaGridData, newRow: SchemaGridData): boolean {
+    const oldType = this.normalizeType(oldRow.dataType);
+    const newType = this.normalizeType(newRow.dataType);
+
+    if (oldType === 'array' && newType === 'array') {
+      const oldItem = this.normalizeType(oldRow.itemType || 'string');
+      const newItem = this.normalizeType(newRow.itemType || 'string');
+      return (WIDENING_CONVERSIONS[oldItem] || []).includes(newItem);
+    }
+
+    return (WIDENING_CONVERSIONS[oldType] || []).includes(newType);
+  }
+
+  /**
+   * 대소문자와 구분자(_, -)를 무시한 편집 거리 기반 이름 유사도 (0~1)
+   */
+  private nameSimilarity(left: string, right: string): number {
+    const a = left.toLowerCase().replace(/[_-]/g, '');
+    const b = right.toLowerCase().replace(/[_-]/g, '');
+    const longest = Math.max(a.length, b.length);
+    if (longest === 0) {
+      return 1;
+    }
+
+    let previousRow = Array.from({ length: b.length + 1 }, (_, index) => index);
+    for (let i = 1; i <= a.length; i++) {
+      const currentRow = [i];
+      for (let j = 1; j <= b.length; j++) {
+        currentRow[j] = Math.min(
+          previousRow[j]! + 1,
+          currentRow[j - 1]! + 1,
+          previousRow[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+        );
+      }
+      previousRow = currentRow;
+    }
+
+    return 1 - previousRow[b.length]! / longest;
+  }
+
+  private isEmptyValue(value: any): boolean {
+    return value === undefined || value === null || value === '';
+  }
+
+  private countRows(gridData: SchemaGridData[][]): number {
+    return gridData.flat().filter(row => row && row.fieldName).length;
+  }
+}
@@ -0,0 +1,481 @@
+/**
+ * 인스턴스 문서 기반 스키마 추론 서비스
+ * 파트너로부터 받은 XML/JSON/YAML 예시 메시지로 그리드 행을 제안하고 일반 fromGrid 내보내기로 연결
+ */
+
+import * as xml2js from 'xml2js';
+import * as yaml from 'js-yaml';
+import { SchemaFormat, SchemaGridData } from '../types/schema';
+import { DataType } from '../types/grid';
+import {
+  InferredFieldStats,
+  InstanceDocument,
+  InstanceDocumentFormat,
+  SchemaInferenceExportOptions,
+  SchemaInferenceExportResult,
+  SchemaInferenceOptions,
+  SchemaInferenceResult
+} from '../types/inference';
+import { Logger } from '../core/logging/Logger';
+import { SchemaConverter } from './SchemaConverter';
+import { joinPath } from './converters/gridTree';
+import { detectDataType } from './inference/dataTypeDetection';
+
+/**
+ * 필드 관측 정보 (같은 경로의 값을 모든 문서에 걸쳐 누적)
+ */
+interface FieldObservation {
+  name: string;
+  isAttribute: boolean;
+  // 필드가 등장한 부모 인스턴스 수
+  occurrences: number;
+  // 하위 필드/속성의 필수 여부 판단 기준이 되는 인스턴스 수
+  instanceCount: number;
+  // JSON 배열이거나 한 부모 안에서 XML 요소가 반복됨
+  repeated: boolean;
+  // 관측된 값 종류
+  kinds: Set<string>;
+  // XML 텍스트처럼 타입 정보가 없는 문자열 값이 있는지 여부
+  lexical: boolean;
+  values: any[];
+  children: Map<string, FieldObservation>;
+}
+
+/**
+ * 단순 값 추론 결과
+ */
+interface ScalarInference {
+  dataType: string;
+  format?: string;
+  minLength?: number;
+  maxLength?: number;
+  enumValues?: string[];
+}
+
+const DEFAULT_MAX_ENUM_VALUES = 5;
+const DEFAULT_MIN_ENUM_OCCURRENCES = 3;
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+// 앞자리 0이 의미 있는 코드 값 (우편번호, 계좌번호 등)
+const LEADING_ZERO_PATTERN = /^0\d/;
+
+/**
+ * 스키마 추론 서비스 구현체
+ */
+export class SchemaInferenceService {
+  private logger: Logger;
+  private xmlParser: xml2js.Parser;
+
+  constructor(private converter: SchemaConverter = new SchemaConverter()) {
+    this.logger = Logger.getInstance();
+    // 네임스페이스 접두사와 무관하게 같은 필드로 누적하기 위해 접두사 제거
+    this.xmlParser = new xml2js.Parser({
+      explicitArray: true,
+      explicitRoot: true,
+      tagNameProcessors: [xml2js.processors.stripPrefix],
+      attrkey: '$',
+      charkey: '_',
+      trim: true,
+      strict: true
+    });
+  }
+
+  /**
+   * 하나 이상의 인스턴스 문서로부터 그리드 행 추론
+   */
+  async infer(
+    documents: Array<string | InstanceDocument>,
+    options: SchemaInferenceOptions = {}
+  ): Promise<SchemaInferenceResult> {
+    if (documents.length === 0) {
+      throw new Error('추론할 인스턴스 문서가 없습니다');
+    }
+
+    const root = this.createObservation('', false);
+    const warnings: string[] = [];
+    let rootName: string | undefined;
+
+    for (const [index, document] of documents.entries()) {
+      const { content, format } = typeof document === 'string' ? { content: document, format: undefined } : document;
+      const documentFormat = format || this.detectFormat(content);
+
+      try {
+        if (documentFormat === 'xml') {
+          const elementName = await this.observeXMLDocument(root, content);
+          if (rootName === undefined) {
+            rootName = elementName;
+          } else if (rootName !== elementName) {
+            warnings.push(`${index + 1}번째 문서의 루트 요소(${elementName})가 첫 문서(${rootName})와 다릅니다`);
+          }
+        } else {
+          this.observeDataDocument(root, documentFormat === 'json' ? JSON.parse(content) : yaml.load(content));
+        }
+      } catch (error) {
+        throw new Error(`${index + 1}번째 문서를 해석할 수 없습니다: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const rows: SchemaGridData[] = [];
+    const fieldStats: InferredFieldStats[] = [];
+    this.buildRows(root, undefined, 0, rows, fieldStats, warnings, options);
+
+    this.logger.info('인스턴스 문서 스키마 추론 완료', {
+      documentCount: documents.length,
+      fieldCount: rows.length,
+      warningCount: warnings.length
+    });
+
+    return {
+      gridData: rows.map(row => [row]),
+      rootName,
+      documentCount: documents.length,
+      fieldStats,
+      warnings
+    };
+  }
+
+  /**
+   * 인스턴스 문서로 추론한 그리드를 지정 형식의 스키마로 내보내기
+   */
+  async inferSchema(
+    documents: Array<string | InstanceDocument>,
+    targetFormat: SchemaFormat,
+    options: SchemaInferenceExportOptions = {}
+  ): Promise<SchemaInferenceExportResult> {
+    const inference = await this.infer(documents, options);
+    const conversion = await this.converter.fromGrid(inference.gridData, targetFormat, {
+      ...options.export,
+      rootName: options.export?.rootName || inference.rootName
+    });
+
+    return { ...inference, conversion };
+  }
+
+  /**
+   * 내용으로 문서 형식 감지
+   */
+  private detectFormat(content: string): InstanceDocumentFormat {
+    const trimmed = content.trim();
+    if (trimmed.startsWith('<')) {
+      return 'xml';
+    }
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+      return 'json';
+    }
+    return 'yaml';
+  }
+
+  /**
+   * XML 문서 관측 (루트 요소는 행으로 만들지 않고 이름만 반환)
+   */
+  private async observeXMLDocument(root: FieldObservation, content: string): Promise<string> {
+    // 외부 엔티티/DTD는 예시 메시지에 필요 없으므로 거부
+    if (/<!(DOCTYPE|ENTITY)/i.test(content)) {
+      throw new Error('DTD 또는 엔티티 선언이 포함된 문서는 지원하지 않습니다');
+    }
+
+    const parsed = await this.xmlParser.parseStringPromise(content);
+    const [elementName] = Object.keys(parsed);
+    const element = parsed[elementName!];
+
+    this.observeXMLElement(root, typeof element === 'object' && element !== null ? element : {});
+    return elementName!;
+  }
+
+  /**
+   * xml2js 요소 객체 관측 ($: 속성, _: 텍스트, 나머지: 하위 요소 배열)
+   */
+  private observeXMLElement(parent: FieldObservation, element: Record<string, any>): void {
+    parent.instanceCount++;
+
+    Object.entries(element.$ || {}).forEach(([name, value]) => {
+      if (name === 'xmlns' || name.startsWith('xmlns:') || name.includes(':')) {
+        return;
+      }
+      const field = this.getChild(parent, name, true);
+      field.occurrences++;
+      field.lexical = true;
+      field.kinds.add('string');
+      field.values.push(value);
+    });
+
+    Object.entries(element).forEach(([name, items]) => {
+      if (name === '$' || name === '_') {
+        return;
+      }
+
+      const field = this.getChild(parent, name, false);
+      const list: any[] = Array.isArray(items) ? items : [items];
+      field.occurrences++;
+      field.lexical = true;
+      if (list.length > 1) {
+        field.repeated = true;
+      }
+
+      list.forEach(item => {
+        // 텍스트만 있는 요소는 xml2js가 문자열로 반환
+        const node = typeof item === 'object' && item !== null ? item : { _: item };
+        const hasChildElements = Object.keys(node).some(key => key !== '$' && key !== '_');
+
+        if (hasChildElements) {
+          field.kinds.add('object');
+        } else {
+          this.observeXMLText(field, node._);
+        }
+        this.observeXMLElement(field, node);
+      });
+    });
+  }
+
+  private observeXMLText(field: FieldObservation, text: any): void {
+    if (text === undefined || text === '') {
+      field.kinds.add('null');
+      return;
+    }
+    field.kinds.add('string');
+    field.values.push(String(text));
+  }
+
+  /**
+   * JSON/YAML 문서 관측 (루트 배열은 항목마다 하나의 인스턴스로 취급)
+   */
+  private observeDataDocument(root: FieldObservation, data: any): void {
+    const instances = Array.isArray(data) ? data : [data];
+
+    instances.forEach(instance => {
+      if (!this.isPlainObject(instance)) {
+        throw new Error('최상위 값은 객체 또는 객체 배열이어야 합니다');
+      }
+      this.observeObject(root, instance);
+    });
+  }
+
+  private observeObject(parent: FieldObservation, value: Record<string, any>): void {
+    parent.instanceCount++;
+
+    Object.entries(value).forEach(([name, child]) => {
+      const field = this.getChild(parent, name, false);
+      field.occurrences++;
+
+      if (Array.isArray(child)) {
+        field.repeated = true;
+        child.forEach(item => this.observeValue(field, item));
+      } else {
+        this.observeValue(field, child);
+      }
+    });
+  }
+
+  private observeValue(field: FieldObservation, value: any): void {
+    if (value === null || value === undefined) {
+      field.kinds.add('null');
+    } else if (Array.isArray(value)) {
+      // 배열의 배열은 그리드로 표현할 수 없으므로 문자열로 취급
+      field.kinds.add('array');
+      field.values.push(JSON.stringify(value));
+    } else if (this.isPlainObject(value)) {
+      field.kinds.add('object');
+      this.observeObject(field, value);
+    } else if (value instanceof Date) {
+      // YAML 타임스탬프
+      field.kinds.add('string');
+      field.values.push(value.toISOString());
+    } else {
+      field.kinds.add(typeof value);
+      field.values.push(value);
+    }
+  }
+
+  /**
+   * 관측 트리를 그리드 행으로 변환 (처음 관측된 순서 유지)
+   */
+  private buildRows(
+    parent: FieldObservation,
+    parentPath: string | undefined,
+    depth: number,
+    rows: SchemaGridData[],
+    fieldStats: InferredFieldStats[],
+    warnings: string[],
+    options: SchemaInferenceOptions
+  ): void {
+    parent.children.forEach(field => {
+      const path = joinPath(parentPath, field.name);
+      const isObject = field.kinds.has('object');
+      const scalar = this.inferScalar(field, path, warnings, options);
+
+      if (isObject && field.values.length > 0) {
+        warnings.push(`${path}: 객체와 단순 값이 섞여 있어 object로 추론했습니다`);
+      }
+
+      const itemType = isObject ? 'object' : scalar.dataType;
+      const row: SchemaGridData = {
+        fieldName: field.name,
+        dataType: field.repeated && !field.isAttribute ? 'array' : itemType,
+        required: field.occurrences === parent.instanceCount,
+        description: '',
+        path,
+        depth
+      };
+
+      if (parentPath) {
+        row.parentPath = parentPath;
+      }
+      if (row.dataType === 'array') {
+        row.itemType = itemType;
+      }
+      if (field.isAttribute) {
+        row.isAttribute = true;
+      }
+      if (!isObject) {
+        this.applyScalarFacets(row, scalar);
+      }
+
+      rows.push(row);
+      fieldStats.push({
+        path,
+        occurrences: field.occurrences,
+        parentOccurrences: parent.instanceCount,
+        observedTypes: Array.from(field.kinds),
+        distinctValues: new Set(field.values.map(value => String(value))).size
+      });
+
+      if (field.children.size > 0) {
+        this.buildRows(field, path, depth + 1, rows, fieldStats, warnings, options);
+      }
+    });
+  }
+
+  private applyScalarFacets(row: SchemaGridData, scalar: ScalarInference): void {
+    if (scalar.format) {
+      row.constraints = JSON.stringify({ format: scalar.format });
+    }
+    if (scalar.minLength !== undefined) {
+      row.minLength = scalar.minLength;
+    }
+    if (scalar.maxLength !== undefined) {
+      row.maxLength = scalar.maxLength;
+    }
+    if (scalar.enumValues) {
+      row.enumValues = scalar.enumValues;
+    }
+  }
+
+  /**
+   * 관측 값으로 단순 타입 추론
+   * 타입 정보가 없는 XML 텍스트는 그리드 자동 감지 휴리스틱을 모두 적용하고,
+   * JSON/YAML 문자열은 작성자가 문자열로 표현했으므로 날짜/이메일/URL 형식만 감지
+   */
+  private inferScalar(
+    field: FieldObservation,
+    path: string,
+    warnings: string[],
+    options: SchemaInferenceOptions
+  ): ScalarInference {
+    const values = field.values;
+    if (values.length === 0) {
+      return { dataType: 'string' };
+    }
+
+    if (!field.lexical) {
+      if (values.every(value => typeof value === 'boolean')) {
+        return { dataType: 'boolean' };
+      }
+      if (values.every(value => typeof value === 'number')) {
+        return { dataType: values.every(value => Number.isInteger(value)) ? 'integer' : 'number' };
+      }
+      if (!values.every(value => typeof value === 'string')) {
+        const types = Array.from(new Set(values.map(value => typeof value)));
+        warnings.push(`${path}: 문서마다 값의 타입이 달라 string으로 추론했습니다 (${types.join(', ')})`);
+      }
+    }
+
+    const texts = values.map(value => String(value));
+    const detected = detectDataType(texts, texts.length);
+
+    if (field.lexical && detected === DataType.BOOLEAN) {
+      // 감지 휴리스틱은 1/0도 불린으로 보지만 true/false가 없으면 정수 코드로 취급
+      return texts.some(text => /^(true|false)$/i.test(text)) ? { dataType: 'boolean' } : { dataType: 'integer' };
+    }
+
+    if (field.lexical && detected === DataType.NUMBER && !texts.some(text => LEADING_ZERO_PATTERN.test(text))) {
+      return { dataType: texts.every(text => INTEGER_PATTERN.test(text)) ? 'integer' : 'number' };
+    }
+
+    // Date.parse는 관대하므로 ISO 8601 형식만 날짜로 인정
+    if (detected === DataType.DATE) {
+      if (texts.every(text => ISO_DATE_PATTERN.test(text))) {
+        return { dataType: 'date', format: 'date' };
+      }
+      if (texts.every(text => ISO_DATE_PATTERN.test(text) || ISO_DATETIME_PATTERN.test(text))) {
+        return { dataType: 'datetime', format: 'date-time' };
+      }
+    }
+
+    if (detected === DataType.EMAIL) {
+      return { dataType: 'string', format: 'email' };
+    }
+    if (detected === DataType.URL) {
+      return { dataType: 'string', format: 'uri' };
+    }
+
+    return { dataType: 'string', ...this.inferStringFacets(texts, options) };
+  }
+
+  /**
+   * 문자열 길이 범위와 열거값 후보
+   */
+  private inferStringFacets(texts: string[], options: SchemaInferenceOptions): Partial<ScalarInference> {
+    const facets: Partial<ScalarInference> = {};
+
+    if (options.inferLengths !== false) {
+      const lengths = texts.map(text => text.length);
+      facets.minLength = Math.min(...lengths);
+      facets.maxLength = Math.max(...lengths);
+    }
+
+    const maxEnumValues = options.maxEnumValues ?? DEFAULT_MAX_ENUM_VALUES;
+    const minEnumOccurrences = options.minEnumOccurrences ?? DEFAULT_MIN_ENUM_OCCURRENCES;
+    const distinct = Array.from(new Set(texts));
+
+    // 반복해서 관측된 소수의 값만 열거값 후보로 제안
+    if (maxEnumValues > 0
+      && texts.length >= minEnumOccurrences
+      && distinct.length <= maxEnumValues
+      && distinct.length < texts.length) {
+      facets.enumValues = distinct;
+    }
+
+    return facets;
+  }
+
+  private getChild(parent: FieldObservation, name: string, isAttribute: boolean): FieldObservation {
+    // 같은 이름의 속성과 하위 요소는 별도 필드
+    const key = isAttribute ? `@${name}` : name;
+    let child = parent.children.get(key);
+    if (!child) {
+      child = this.createObservation(name, isAttribute);
+      parent.children.set(key, child);
+    }
+    return child;
+  }
+
+  private createObservation(name: string, isAttribute: boolean): FieldObservation {
+    return {
+      name,
+      isAttribute,
+      occurrences: 0,
+      instanceCount: 0,
+      repeated: false,
+      kinds: new Set(),
+      lexical: false,
+      values: [],
+      children: new Map()
+    };
+  }
+
+  private isPlainObject(value: any): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+  }
+}
@@ -0,0 +1,470 @@
+/**
+ * 스키마 저장소 서비스
+ * 저장 전 스키마를 검증하고 그리드로 변환해 함께 보관하며, 저장 방식은 SchemaRepository 어댑터에 위임
+ * 생성/수정/롤백마다 변경 불가능한 리비전을 남김
+ */
+
+import crypto from 'crypto';
+import { Schema, SchemaFormat, ValidationResult } from '../types/schema';
+import { SchemaListQuery, SchemaListResult, SchemaRepository, SchemaRevision, SchemaSnapshot } from '../types/repository';
+import {
+  CreateSchemaRequest,
+  SchemaResponse,
+  SchemaRevisionDetailResponse,
+  SchemaRevisionResponse,
+  UpdateSchemaRequest
+} from '../types/api-v2';
+import { SchemaDiffReport } from '../types/diff';
+import { ConflictError, NotFoundError, SchemaConversionError, ValidationError } from '../types/errors';
+import { Logger } from '../core/logging/Logger';
+import { SchemaConversionService } from './SchemaConversionService';
+import { SchemaDiffService } from './SchemaDiffService';
+
+export const INITIAL_SCHEMA_VERSION = '1.0.0';
+
+// 리비전 조회 시 번호 대신 사용할 수 있는 태그 형식 (숫자만으로 된 태그는 번호와 구분할 수 없으므로 제외)
+const REVISION_TAG_PATTERN = /^(?!\d+$)[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+
+// 리비전 저장 시 함께 기록할 변경 내용
+interface RevisionChange {
+  author: string;
+  summary?: string;
+  restoredFrom?: number;
+}
+
+/**
+ * 스키마 저장소 서비스 구현체
+ */
+export class SchemaRepositoryService {
+  private logger: Logger;
+
+  constructor(
+    private repository: SchemaRepository,
+    private conversionService: SchemaConversionService = new SchemaConversionService(),
+    private diffService: SchemaDiffService = new SchemaDiffService(conversionService)
+  ) {
+    this.logger = Logger.getInstance();
+  }
+
+  /**
+   * 스키마 검증 후 저장
+   * 검증에 실패하면 저장하지 않고 ValidationError(value: 검증 오류 목록) 발생
+   */
+  async createSchema(request: CreateSchemaRequest, createdBy: string): Promise<Schema> {
+    const format = request.format as SchemaFormat;
+    const now = new Date();
+
+    const schema: Schema = {
+      id: crypto.randomUUID(),
+      name: request.name,
+      description: request.description,
+      format,
+      version: INITIAL_SCHEMA_VERSION,
+      revision: 1,
+      createdAt: now,
+      updatedAt: now,
+      createdBy,
+      originalContent: request.content,
+      tags: this.normalizeTags(request.tags),
+      ...(await this.analyze(request.content, format))
+    };
+
+    const created = await this.repository.create(schema);
+    await this.repository.addRevision(this.buildRevision(created, { author: createdBy, summary: '최초 생성' }));
+    this.logger.info('스키마 저장 완료', { schemaId: created.id, format, createdBy });
+    return created;
+  }
+
+  async getSchema(id: string): Promise<Schema> {
+    const schema = await this.repository.findById(id);
+    if (!schema) {
+      throw new NotFoundError('스키마를 찾을 수 없습니다', 'schema', id);
+    }
+    return schema;
+  }
+
+  async listSchemas(query: SchemaListQuery = {}): Promise<SchemaListResult> {
+    return this.repository.list(query);
+  }
+
+  /**
+   * 저장소 변경 카운터 (같은 저장소를 쓰는 다른 서비스 인스턴스의 변경도 포함)
+   */
+  getChangeCount(): number {
+    return this.repository.getChangeCount();
+  }
+
+  /**
+   * 스키마 수정
+   * 내용이 바뀌면 다시 검증/그리드 변환하고 부 버전을 올림
+   * 메타데이터만 바뀌어도 리비전을 남김
+   */
+  async updateSchema(id: string, request: UpdateSchemaRequest, author: string): Promise<Schema> {
+    const current = await this.getSchema(id);
+    const updated: Schema = {
+      ...current,
+      name: request.name ?? current.name,
+      description: request.description ?? current.description,
+      tags: request.tags !== undefined ? this.normalizeTags(request.tags) : current.tags
+    };
+
+    return this.saveRevision(current, updated, request.content, { author, summary: request.changeSummary });
+  }
+
+  /**
+   * 지정한 리비전의 내용으로 되돌림
+   * 이력을 지우지 않고 해당 내용으로 새 리비전을 만듦
+   */
+  async rollbackSchema(id: string, revisionRef: string | number, author: string, summary?: string): Promise<Schema> {
+    const current = await this.getSchema(id);
+    const target = await this.getRevision(id, revisionRef);
+
+    if (target.revision === current.revision) {
+      throw new ConflictError(`이미 현재 리비전입니다: ${target.revision}`, 'revision');
+    }
+
+    const rolledBack = await this.saveRevision(current, { ...current }, target.content, {
+      author,
+      summary: summary || `리비전 ${target.revision}(으)로 롤백`,
+      restoredFrom: target.revision
+    });
+
+    this.logger.info('스키마 롤백 완료', { schemaId: id, restoredFrom: target.revision, revision: rolledBack.revision });
+    return rolledBack;
+  }
+
+  async listRevisions(id: string): Promise<SchemaRevision[]> {
+    await this.getSchema(id);
+    return this.repository.listRevisions(id);
+  }
+
+  /**
+   * 리비전 번호 또는 태그로 리비전 조회
+   */
+  async getRevision(id: string, revisionRef: string | number): Promise<SchemaRevision> {
+    await this.getSchema(id);
+
+    const revisionNumber = typeof revisionRef === 'number' ? revisionRef : Number(revisionRef);
+    const revision = Number.isInteger(revisionNumber)
+      ? await this.repository.findRevision(id, revisionNumber)
+      : (await this.repository.listRevisions(id)).find(candidate => candidate.tags.includes(String(revisionRef)));
+
+    if (!revision) {
+      throw new NotFoundError('리비전을 찾을 수 없습니다', 'revision', `${id}@${revisionRef}`);
+    }
+    return revision;
+  }
+
+  /**
+   * 리비전 내용을 요청한 형식으로 내보냄 (형식을 생략하거나 같으면 원본 그대로)
+   */
+  async exportRevision(
+    id: string,
+    revisionRef: string | number,
+    targetFormat?: SchemaFormat
+  ): Promise<{ revision: SchemaRevision; format: SchemaFormat; content: string }> {
+    const revision = await this.getRevision(id, revisionRef);
+    if (!targetFormat || targetFormat === revision.format) {
+      return { revision, format: revision.format, content: revision.content };
+    }
+
+    const result = await this.conversionService.convertBetweenFormats(revision.content, revision.format, targetFormat);
+    const content = result.xml ?? result.json ?? result.yaml ?? result.idl;
+    if (result.errors.length > 0 || content === undefined) {
+      throw new SchemaConversionError(
+        result.errors[0]?.message || `리비전을 ${targetFormat} 형식으로 변환할 수 없습니다`,
+        revision.format,
+        targetFormat
+      );
+    }
+
+    return { revision, format: targetFormat, content };
+  }
+
+  /**
+   * 리비전에 태그 추가 (같은 스키마 안에서 태그는 하나의 리비전에만 붙음)
+   */
+  async tagRevision(id: string, revisionRef: string | number, tag: string): Promise<SchemaRevision> {
+    const normalized = tag.trim();
+    if (!REVISION_TAG_PATTERN.test(normalized)) {
+      throw new ValidationError('태그는 영문/숫자로 시작하고 영문, 숫자, ".", "_", "-"만 사용할 수 있습니다 (숫자만으로 된 태그 불가)', 'tag', tag);
+    }
+
+    const revision = await this.getRevision(id, revisionRef);
+    if (revision.tags.includes(normalized)) {
+      return revision;
+    }
+
+    const owner = (await this.repository.listRevisions(id)).find(candidate => candidate.tags.includes(normalized));
+    if (owner) {
+      throw new ConflictError(`태그 ${normalized}은(는) 이미 리비전 ${owner.revision}에 붙어 있습니다`, 'revision-tag');
+    }
+
+    return this.repository.updateRevisionTags(id, revision.revision, [...revision.tags, normalized]);
+  }
+
+  async untagRevision(id: string, revisionRef: string | number, tag: string): Promise<SchemaRevision> {
+    const revision = await this.getRevision(id, revisionRef);
+    if (!revision.tags.includes(tag)) {
+      throw new NotFoundError('리비전에 해당 태그가 없습니다', 'revision-tag', tag);
+    }
+    return this.repository.updateRevisionTags(id, revision.revision, revision.tags.filter(existing => existing !== tag));
+  }
+
+  async deleteSchema(id: string): Promise<void> {
+    if (!(await this.repository.delete(id))) {
+      throw new NotFoundError('스키마를 찾을 수 없습니다', 'schema', id);
+    }
+    this.logger.info('스키마 삭제 완료', { schemaId: id });
+  }
+
+  /**
+   * 스키마와 리비전 이력의 현재 상태 저장 (일괄 작업 트랜잭션 되돌리기용)
+   */
+  async snapshot(id: string): Promise<SchemaSnapshot> {
+    return {
+      schema: await this.getSchema(id),
+      revisions: await this.repository.listRevisions(id)
+    };
+  }
+
+  /**
+   * 스냅샷 시점으로 복원
+   * 삭제된 스키마는 다시 만들고, 스냅샷 이후 추가된 리비전은 제거
+   */
+  async restoreSnapshot(snapshot: SchemaSnapshot): Promise<void> {
+    const { schema, revisions } = snapshot;
+
+    if (await this.repository.findById(schema.id)) {
+      await this.repository.update(schema);
+    } else {
+      await this.repository.create(schema);
+    }
+
+    const kept = new Map(revisions.map(revision => [revision.revision, revision]));
+    for (const revision of await this.repository.listRevisions(schema.id)) {
+      if (!kept.has(revision.revision)) {
+        await this.repository.deleteRevision(schema.id, revision.revision);
+      } else if (kept.get(revision.revision)!.tags.join(',') !== revision.tags.join(',')) {
+        await this.repository.updateRevisionTags(schema.id, revision.revision, kept.get(revision.revision)!.tags);
+      }
+      kept.delete(revision.revision);
+    }
+    for (const revision of kept.values()) {
+      await this.repository.addRevision(revision);
+    }
+
+    this.logger.info('스키마 스냅샷 복원 완료', { schemaId: schema.id, revision: schema.revision });
+  }
+
+  /**
+   * 저장된 스키마를 API v2 응답 형식으로 변환
+   */
+  toResponse(schema: Schema): SchemaResponse {
+    const validation = schema.lastValidation;
+
+    return {
+      id: schema.id,
+      name: schema.name,
+      description: schema.description,
+      format: schema.format,
+      version: schema.version,
+      revision: schema.revision,
+      createdAt: schema.createdAt.toISOString(),
+      updatedAt: schema.updatedAt.toISOString(),
+      createdBy: schema.createdBy,
+      tags: schema.tags || [],
+      size: Buffer.byteLength(schema.originalContent, 'utf-8'),
+      isValid: validation?.isValid ?? true,
+      lastValidation: validation && {
+        isValid: validation.isValid,
+        errors: validation.errors.map(error => ({
+          code: error.code,
+          message: error.message,
+          path: error.field,
+          line: error.line,
+          column: error.column
+        })),
+        warnings: validation.warnings.map(warning => ({
+          code: warning.code,
+          message: warning.message,
+          path: warning.field
+        })),
+        timestamp: validation.metadata?.validatedAt || schema.updatedAt.toISOString()
+      }
+    };
+  }
+
+  /**
+   * 리비전을 API v2 응답 형식으로 변환 (detail이면 내용과 전체 diff 포함)
+   */
+  toRevisionResponse(revision: SchemaRevision): SchemaRevisionResponse;
+  toRevisionResponse(revision: SchemaRevision, detail: { format: SchemaFormat; content: string }): SchemaRevisionDetailResponse;
+  toRevisionResponse(
+    revision: SchemaRevision,
+    detail?: { format: SchemaFormat; content: string }
+  ): SchemaRevisionResponse | SchemaRevisionDetailResponse {
+    const response: SchemaRevisionResponse = {
+      schemaId: revision.schemaId,
+      revision: revision.revision,
+      version: revision.version,
+      author: revision.author,
+      createdAt: revision.createdAt.toISOString(),
+      summary: revision.summary,
+      format: revision.format,
+      size: Buffer.byteLength(revision.content, 'utf-8'),
+      tags: revision.tags,
+      restoredFrom: revision.restoredFrom,
+      isBreaking: revision.diff?.isBreaking,
+      changes: revision.diff?.summary
+    };
+
+    if (!detail) {
+      return response;
+    }
+    return { ...response, format: detail.format, content: detail.content, diff: revision.diff };
+  }
+
+  /**
+   * 변경 내용을 저장하고 리비전 추가
+   * 새 내용(content)이 주어지고 기존과 다르면 다시 분석하고 버전을 올림
+   * 리비전을 먼저 기록해 같은 리비전을 만들려는 동시 수정은 스키마를 건드리기 전에 ConflictError로 실패
+   */
+  private async saveRevision(
+    current: Schema,
+    updated: Schema,
+    content: string | undefined,
+    change: RevisionChange
+  ): Promise<Schema> {
+    const contentChanged = content !== undefined && content !== current.originalContent;
+    updated.updatedAt = new Date();
+    updated.revision = (current.revision ?? 0) + 1;
+
+    if (contentChanged) {
+      Object.assign(updated, {
+        originalContent: content,
+        version: this.nextVersion(current.version),
+        ...(await this.analyze(content, current.format))
+      });
+    }
+
+    const diff = current.gridData && updated.gridData
+      ? this.diffService.diffGrids(current.gridData, updated.gridData)
+      : undefined;
+
+    const revision = this.buildRevision(updated, {
+      ...change,
+      summary: change.summary || this.summarize(current, updated, contentChanged, diff)
+    }, diff);
+    try {
+      await this.repository.addRevision(revision);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        throw new ConflictError(`다른 요청이 먼저 스키마를 수정했습니다: ${updated.id}@${revision.revision}`, 'revision');
+      }
+      throw error;
+    }
+
+    let saved: Schema;
+    try {
+      saved = await this.repository.update(updated);
+    } catch (error) {
+      // 스키마에 반영되지 않은 리비전은 이력에서 제거
+      await this.repository.deleteRevision(updated.id, revision.revision);
+      throw error;
+    }
+
+    this.logger.info('스키마 수정 완료', {
+      schemaId: saved.id,
+      version: saved.version,
+      revision: saved.revision,
+      contentChanged
+    });
+    return saved;
+  }
+
+  private buildRevision(schema: Schema, change: RevisionChange, diff?: SchemaDiffReport): SchemaRevision {
+    return {
+      schemaId: schema.id,
+      revision: schema.revision ?? 1,
+      version: schema.version,
+      author: change.author,
+      createdAt: schema.updatedAt,
+      summary: change.summary || '',
+      format: schema.format,
+      content: schema.originalContent,
+      gridData: schema.gridData,
+      diff,
+      restoredFrom: change.restoredFrom,
+      tags: []
+    };
+  }
+
+  /**
+   * 변경 요약을 지정하지 않은 경우 자동으로 생성
+   */
+  private summarize(previous: Schema, next: Schema, contentChanged: boolean, diff?: SchemaDiffReport): string {
+    const parts: string[] = [];
+
+    if (previous.name !== next.name) {
+      parts.push(`이름 변경 (${previous.name} → ${next.name})`);
+    }
+    if (previous.description !== next.description) {
+      parts.push('설명 변경');
+    }
+    if ((previous.tags || []).join(',') !== (next.tags || []).join(',')) {
+      parts.push('태그 변경');
+    }
+    if (contentChanged) {
+      parts.push(diff
+        ? `필드 변경 ${diff.summary.total}건 (호환성 깨짐 ${diff.summary.breaking}건)`
+        : '스키마 내용 변경');
+    }
+
+    return parts.length > 0 ? parts.join(', ') : '변경 없음';
+  }
+
+  /**
+   * 스키마를 검증하고 그리드로 변환
+   * 그리드 변환 실패는 저장을 막지 않음 (원본 내용은 그대로 보관)
+   */
+  private async analyze(
+    content: string,
+    format: SchemaFormat
+  ): Promise<Pick<Schema, 'gridData' | 'lastValidation'>> {
+    const validation: ValidationResult = await this.conversionService.validateSchema(content, format);
+    if (!validation.isValid) {
+      throw new ValidationError('스키마 검증에 실패했습니다', 'content', validation.errors);
+    }
+
+    let gridData: Schema['gridData'];
+    try {
+      gridData = await this.conversionService.convertToGrid(content, format);
+    } catch (error) {
+      this.logger.warn('스키마를 그리드로 변환할 수 없어 원본만 저장', {
+        format,
+        error: error instanceof Error ? error.message : '알 수 없는 오류'
+      });
+    }
+
+    return {
+      gridData,
+      lastValidation: {
+        ...validation,
+        metadata: { ...validation.metadata, validatedAt: new Date().toISOString() }
+      }
+    };
+  }
+
+  private normalizeTags(tags?: string[]): string[] {
+    return Array.from(new Set((tags || []).map(tag => tag.trim()).filter(tag => tag.length > 0)));
+  }
+
+  private nextVersion(version: string): string {
+    const [major, minor] = version.split('.').map(part => parseInt(part, 10));
+    if (major === undefined || Number.isNaN(major) || minor === undefined || Number.isNaN(minor)) {
+      return INITIAL_SCHEMA_VERSION;
+    }
+    return `${major}.${minor + 1}.0`;
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * 스키마 검색 서비스
+ * 저장된 스키마를 색인해 자유 검색어, 형식/태그/작성자/날짜/크기 필터, 필드 이름/타입 조건으로 조회
+ */
+
+import { FieldQuery, SearchFieldMatch, SearchRequest, SearchResultItem } from '../types/api-v2';
+import { ValidationError } from '../types/errors';
+import { Logger } from '../core/logging/Logger';
+import { SchemaRepositoryService } from './SchemaRepositoryService';
+import { ATTRIBUTE_WEIGHTS, IndexedSchema, SchemaSearchIndex, SearchableAttribute } from './search/SchemaSearchIndex';
+
+export const SEARCH_SORT_FIELDS = ['relevance', 'name', 'createdAt', 'updatedAt', 'size'] as const;
+export const MAX_SEARCH_PAGE_SIZE = 100;
+
+// 검색어 안의 필드 조건 (field:이름 또는 field:이름:타입)
+const FIELD_TERM_PATTERN = /^field:([^:\s]+)(?::([^:\s]+))?$/i;
+
+export interface SchemaSearchResult {
+  items: SearchResultItem[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+interface ScoredDocument {
+  document: IndexedSchema;
+  score: number;
+  matchedIn: Set<SearchableAttribute>;
+  matchedFields: SearchFieldMatch[];
+}
+
+/**
+ * 스키마 검색 서비스 구현체
+ */
+export class SchemaSearchService {
+  private logger: Logger;
+  private index = new SchemaSearchIndex();
+  // 마지막으로 색인을 동기화한 시점의 저장소 변경 카운터
+  private indexedChangeCount?: number;
+
+  constructor(private repositoryService: SchemaRepositoryService) {
+    this.logger = Logger.getInstance();
+  }
+
+  async search(request: SearchRequest): Promise<SchemaSearchResult> {
+    const { terms, fieldQueries } = this.parseQuery(request.query || '');
+    const filters = request.filters || {};
+    const allFieldQueries = [...(filters.fields || []), ...fieldQueries];
+
+    await this.refresh();
+
+    const scored: ScoredDocument[] = [];
+    const termMatches = terms.map(term => this.index.matchTerm(term));
+
+    for (const document of this.index.all()) {
+      if (!this.matchesFilters(document, request)) {
+        continue;
+      }
+
+      const matchedFields: SearchFieldMatch[] = [];
+      let fieldsMatched = true;
+      for (const fieldQuery of allFieldQueries) {
+        const found = this.index.findFields(document, fieldQuery);
+        if (found.length === 0) {
+          fieldsMatched = false;
+          break;
+        }
+        matchedFields.push(...found.filter(field => !matchedFields.some(existing => existing.path === field.path)));
+      }
+      if (!fieldsMatched) {
+        continue;
+      }
+
+      // 모든 검색어가 어딘가에 일치해야 함
+      let score = matchedFields.length;
+      const matchedIn = new Set<SearchableAttribute>();
+      let termsMatched = true;
+      for (const matches of termMatches) {
+        const attributes = matches.get(document.schema.id);
+        if (!attributes) {
+          termsMatched = false;
+          break;
+        }
+        attributes.forEach(attribute => {
+          matchedIn.add(attribute);
+          score += ATTRIBUTE_WEIGHTS[attribute];
+        });
+      }
+      if (!termsMatched) {
+        continue;
+      }
+
+      scored.push({ document, score, matchedIn, matchedFields });
+    }
+
+    this.sort(scored, request, terms.length > 0 || allFieldQueries.length > 0);
+
+    const page = Math.max(1, request.pagination?.page || 1);
+    const limit = Math.min(Math.max(1, request.pagination?.limit || 20), MAX_SEARCH_PAGE_SIZE);
+    const items = scored.slice((page - 1) * limit, page * limit).map(entry => ({
+      schema: this.repositoryService.toResponse(entry.document.schema),
+      score: entry.score,
+      matchedIn: Array.from(entry.matchedIn),
+      matchedFields: entry.matchedFields
+    }));
+
+    this.logger.info('스키마 검색 완료', {
+      query: request.query,
+      termCount: terms.length,
+      fieldQueryCount: allFieldQueries.length,
+      total: scored.length
+    });
+
+    return { items, total: scored.length, page, limit };
+  }
+
+  /**
+   * 저장소와 색인 동기화 (저장소 변경 카운터가 그대로면 다시 읽지 않고, 바뀐 스키마만 다시 색인)
+   * 목록을 읽기 전의 카운터를 기록하므로 읽는 동안 생긴 변경은 다음 검색에서 반영
+   */
+  private async refresh(): Promise<void> {
+    const changeCount = this.repositoryService.getChangeCount();
+    if (changeCount === this.indexedChangeCount) {
+      return;
+    }
+    const { items } = await this.repositoryService.listSchemas({ limit: Number.MAX_SAFE_INTEGER });
+    this.index.sync(items);
+    this.indexedChangeCount = changeCount;
+  }
+
+  /**
+   * 검색어를 자유 검색 단어와 필드 조건으로 분리
+   */
+  private parseQuery(query: string): { terms: string[]; fieldQueries: FieldQuery[] } {
+    const terms: string[] = [];
+    const fieldQueries: FieldQuery[] = [];
+
+    for (const part of query.trim().split(/\s+/).filter(Boolean)) {
+      const fieldMatch = part.match(FIELD_TERM_PATTERN);
+      if (fieldMatch) {
+        fieldQueries.push({ name: fieldMatch[1]!, type: fieldMatch[2] });
+        continue;
+      }
+      terms.push(...(part.match(/[\p{L}\p{N}]+/gu) || []).map(word => word.toLowerCase()));
+    }
+
+    return { terms, fieldQueries };
+  }
+
+  private matchesFilters(document: IndexedSchema, request: SearchRequest): boolean {
+    const { schema, size } = document;
+    const filters = request.filters || {};
+
+    if (filters.format?.length && !filters.format.includes(schema.format)) {
+      return false;
+    }
+    if (filters.tags?.length && !filters.tags.every(tag => (schema.tags || []).includes(tag))) {
+      return false;
+    }
+    if (filters.createdBy?.length && !filters.createdBy.includes(schema.createdBy)) {
+      return false;
+    }
+
+    if (filters.dateRange) {
+      const value = (filters.dateRange.field === 'updatedAt' ? schema.updatedAt : schema.createdAt).getTime();
+      const from = this.parseDate(filters.dateRange.from, 'filters.dateRange.from');
+      const to = this.parseDate(filters.dateRange.to, 'filters.dateRange.to');
+      if ((from !== undefined && value < from) || (to !== undefined && value > to)) {
+        return false;
+      }
+    }
+
+    if (filters.size) {
+      if ((filters.size.min !== undefined && size < filters.size.min)
+        || (filters.size.max !== undefined && size > filters.size.max)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private parseDate(value: string | undefined, field: string): number | undefined {
+    if (!value) {
+      return undefined;
+    }
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) {
+      throw new ValidationError('유효하지 않은 날짜입니다', field, value);
+    }
+    return time;
+  }
+
+  /**
+   * 정렬 기준 적용 (검색 조건이 있으면 기본값은 관련도, 없으면 최근 수정 순)
+   */
+  private sort(scored: ScoredDocument[], request: SearchRequest, hasCriteria: boolean): void {
+    const field = request.sort?.field || (hasCriteria ? 'relevance' : 'updatedAt');
+    if (!(SEARCH_SORT_FIELDS as readonly string[]).includes(field)) {
+      throw new ValidationError(`지원하지 않는 정렬 기준입니다: ${field}`, 'sort.field', field);
+    }
+
+    const direction = request.sort?.direction || (field === 'name' ? 'asc' : 'desc');
+    const sign = direction === 'asc' ? 1 : -1;
+
+    const value = (entry: ScoredDocument): number | string => {
+      switch (field) {
+        case 'relevance':
+          return entry.score;
+        case 'name':
+          return entry.document.schema.name;
+        case 'createdAt':
+          return entry.document.schema.createdAt.getTime();
+        case 'size':
+          return entry.document.size;
+        default:
+          return entry.document.schema.updatedAt.getTime();
+      }
+    };
+
+    scored.sort((a, b) => {
+      const left = value(a);
+      const right = value(b);
+      const compared = typeof left === 'string'
+        ? left.localeCompare(right as string)
+        : left - (right as number);
+      return compared * sign
+        || b.document.schema.updatedAt.getTime() - a.document.schema.updatedAt.getTime()
+        || a.document.schema.id.localeCompare(b.document.schema.id);
+    });
+  }
+}
@@ -1,6 +1,7 @@
 import Ajv from "ajv";
 import addFormats from "ajv-formats";
 import libxmljs from "libxmljs2";
+import * as jsYaml from "js-yaml";
 import { logger } from "../utils/logger";
 
 /**
@@ -76,38 +77,39 @@ class SchemaValidationService {
   /**
    * Validate YAML schema
    * @param yaml YAML data to validate
-   * @param schema Schema to validate against (can be JSON schema)
+   * @param schema JSON schema to validate against (object, JSON text or YAML text)
    * @returns Validation result
    */
   validateYamlSchema(yaml: string, schema?: any): { valid: boolean; errors?: string[] } {
+    let data: any;
     try {
-      // Basic YAML syntax validation by trying to parse it
-      try {
-        // Try to parse the YAML to check syntax
-        const yamljs = require("js-yaml");
-        yamljs.load(yaml);
-        // If parsing succeeds, the YAML is syntactically valid
-      } catch (parseError: any) {
-        return {
-          valid: false,
-          errors: [parseError.message]
-        };
-      }
-
-      // If schema is provided, validate against it
-      if (schema) {
-        // For now, we'll just do basic validation
-        // In a more advanced implementation, you could convert YAML to JSON and validate with AJV
-        return {
-          valid: true,
-          errors: undefined
-        };
-      }
+      data = jsYaml.load(yaml);
+    } catch (parseError: any) {
+      return {
+        valid: false,
+        errors: [parseError.message]
+      };
+    }
 
+    if (!schema) {
       return {
         valid: true,
         errors: undefined
       };
+    }
+
+    try {
+      // JSON text is also valid YAML, so one loader covers both schema notations
+      const parsedSchema = typeof schema === "string" ? jsYaml.load(schema) : schema;
+      // Validate the loaded value directly: a string document must not be parsed again as JSON
+      const validate = this.ajv.compile(parsedSchema as any);
+      const valid = validate(data);
+      return {
+        valid,
+        errors: valid
+          ? undefined
+          : (validate.errors || []).map(error => `${error.instancePath || "/"}: ${error.message}`)
+      };
     } catch (error: any) {
       logger.error("Error validating YAML schema", { error });
       return {
@@ -96,6 +96,22 @@ name: John
       expect(result.valid).toBe(false);
       expect(result.errors).toBeDefined();
     });
+
+    it("should validate YAML against a JSON schema written in YAML", () => {
+      const schema = `
+type: object
+properties:
+  age:
+    type: number
+required: [name, age]
+`;
+
+      expect(schemaValidationService.validateYamlSchema("name: John\nage: 30", schema).valid).toBe(true);
+
+      const result = schemaValidationService.validateYamlSchema("name: John\nage: thirty", schema);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual(["/age: must be number"]);
+    });
   });
 
   describe("getSupportedFormats", () => {
@@ -0,0 +1,272 @@
+/**
+ * Avro 스키마 리더
+ * .avsc(JSON) record 스키마를 중첩 경로를 가진 그리드 데이터로 변환
+ * (null 유니온은 선택 필드, 논리 타입은 날짜/시간/decimal 데이터 타입으로 매핑)
+ */
+
+import { SchemaGridData } from '../../types/schema';
+import { createNestedRow } from './gridTree';
+
+/**
+ * 해석된 Avro 타입
+ */
+interface ResolvedAvroType {
+  dataType: string;
+  nullable: boolean;
+  // record 정의 (하위 행 생성용)
+  record?: any;
+  // 이름 있는 타입 (record/enum/fixed)
+  name?: string;
+  // 이미 정의된 이름 있는 타입을 이름으로 참조한 경우
+  isReference?: boolean;
+  enumValues?: string[];
+  constraints?: Record<string, any>;
+  // 배열 항목 타입
+  items?: ResolvedAvroType;
+}
+
+/**
+ * Avro 리더 구현체
+ */
+export class AvroSchemaReader {
+  private namedTypes: Map<string, any> = new Map();
+  // 이름 있는 record를 처음 정의한 행 (이름 참조 시 typeRef를 함께 지정)
+  private definingRows: Map<string, SchemaGridData> = new Map();
+
+  /**
+   * Avro 스키마 문자열을 그리드 행 목록으로 변환
+   * rootType을 지정하면 최상위 유니온/프로토콜 types 중 해당 record를 루트로 사용
+   */
+  read(avsc: string, rootType?: string): SchemaGridData[] {
+    const parsed = JSON.parse(avsc);
+    this.namedTypes.clear();
+    this.definingRows.clear();
+
+    // 최상위 유니온 또는 프로토콜(types) 모두 지원
+    const candidates: any[] = Array.isArray(parsed) ? parsed : parsed.types || [parsed];
+    candidates.forEach(candidate => this.registerNamedTypes(candidate, undefined));
+
+    const root = rootType
+      ? this.namedTypes.get(rootType) || candidates.find(candidate => candidate?.name === rootType)
+      : candidates.filter(candidate => candidate?.type === 'record').pop();
+
+    if (!root || root.type !== 'record') {
+      throw new Error(rootType ? `Avro record를 찾을 수 없습니다: ${rootType}` : 'Avro 스키마에 record 타입이 없습니다');
+    }
+
+    const rows: SchemaGridData[] = [];
+    this.readFields(root, undefined, 0, rows, new Set([this.fullName(root, undefined)]));
+    return rows;
+  }
+
+  /**
+   * 이름 있는 타입 사전 등록 (정의 순서와 무관하게 이름 참조를 해석하기 위함)
+   */
+  private registerNamedTypes(schema: any, namespace: string | undefined): void {
+    if (Array.isArray(schema)) {
+      schema.forEach(member => this.registerNamedTypes(member, namespace));
+      return;
+    }
+
+    if (!schema || typeof schema !== 'object') {
+      return;
+    }
+
+    if (['record', 'error', 'enum', 'fixed'].includes(schema.type) && schema.name) {
+      const fullName = this.fullName(schema, namespace);
+      this.namedTypes.set(fullName, schema);
+      this.namedTypes.set(this.shortName(fullName), schema);
+      (schema.fields || []).forEach((field: any) => this.registerNamedTypes(field.type, this.namespaceOf(fullName)));
+    } else if (schema.type === 'array') {
+      this.registerNamedTypes(schema.items, namespace);
+    } else if (schema.type === 'map') {
+      this.registerNamedTypes(schema.values, namespace);
+    }
+  }
+
+  /**
+   * record 필드 목록을 행으로 변환
+   */
+  private readFields(
+    record: any,
+    parentPath: string | undefined,
+    depth: number,
+    rows: SchemaGridData[],
+    visited: Set<string>
+  ): void {
+    (record.fields || []).forEach((field: any) => {
+      const resolved = this.resolveType(field.type);
+      const content = resolved.dataType === 'array' && resolved.items ? resolved.items : resolved;
+      const row = createNestedRow({
+        fieldName: field.name,
+        dataType: resolved.dataType,
+        required: !resolved.nullable,
+        description: field.doc || ''
+      }, parentPath, depth);
+
+      if (resolved.dataType === 'array') {
+        row.itemType = content.dataType;
+      }
+
+      if (field.default !== undefined && field.default !== null) {
+        row.defaultValue = field.default;
+      }
+
+      if (content.enumValues) {
+        row.enumValues = content.enumValues;
+      }
+
+      if (content.constraints) {
+        row.constraints = JSON.stringify(content.constraints);
+      }
+
+      rows.push(row);
+
+      if (!content.record) {
+        return;
+      }
+
+      const recordName = this.fullName(content.record, undefined);
+
+      // 같은 record를 이름으로 다시 참조하면 공유 정의로 표시
+      if (content.isReference) {
+        row.typeRef = content.record.name;
+        const definingRow = this.definingRows.get(recordName);
+        if (definingRow) {
+          definingRow.typeRef = content.record.name;
+        }
+      } else {
+        this.definingRows.set(recordName, row);
+      }
+
+      // 재귀 record는 이름만 남기고 더 이상 펼치지 않음
+      if (visited.has(recordName)) {
+        row.typeRef = content.record.name;
+        return;
+      }
+
+      this.readFields(content.record, row.path, depth + 1, rows, new Set(visited).add(recordName));
+    });
+  }
+
+  /**
+   * Avro 타입 해석
+   */
+  private resolveType(type: any): ResolvedAvroType {
+    // 유니온: null 멤버가 있으면 선택 필드, 나머지 첫 번째 멤버를 타입으로 사용
+    if (Array.isArray(type)) {
+      const members = type.filter(member => member !== 'null' && member?.type !== 'null');
+      const resolved = members.length > 0 ? this.resolveType(members[0]) : { dataType: 'string', nullable: true };
+      return { ...resolved, nullable: members.length < type.length || resolved.nullable };
+    }
+
+    if (typeof type === 'string') {
+      const named = this.namedTypes.get(type);
+      if (named) {
+        return { ...this.resolveType(named), isReference: true };
+      }
+      return { dataType: this.mapAvroTypeToDataType(type), nullable: type === 'null' };
+    }
+
+    if (!type || typeof type !== 'object') {
+      return { dataType: 'string', nullable: false };
+    }
+
+    if (type.logicalType) {
+      return this.resolveLogicalType(type);
+    }
+
+    switch (type.type) {
+      case 'record':
+      case 'error':
+        return { dataType: 'object', nullable: false, record: type, name: type.name };
+      case 'enum':
+        return { dataType: 'string', nullable: false, name: type.name, enumValues: [...(type.symbols || [])] };
+      case 'fixed':
+        return { dataType: 'string', nullable: false, name: type.name, constraints: { size: type.size } };
+      case 'array':
+        return { dataType: 'array', nullable: false, items: this.resolveType(type.items) };
+      case 'map':
+        return { dataType: 'object', nullable: false };
+      default:
+        return this.resolveType(type.type);
+    }
+  }
+
+  /**
+   * 논리 타입 해석 (date, time-*, timestamp-*, decimal, uuid)
+   */
+  private resolveLogicalType(type: any): ResolvedAvroType {
+    switch (type.logicalType) {
+      case 'date':
+        return { dataType: 'date', nullable: false };
+      case 'time-millis':
+      case 'time-micros':
+        return { dataType: 'time', nullable: false };
+      case 'timestamp-millis':
+      case 'timestamp-micros':
+      case 'local-timestamp-millis':
+      case 'local-timestamp-micros':
+        return { dataType: 'datetime', nullable: false };
+      case 'decimal': {
+        const constraints: Record<string, any> = {};
+        if (type.precision !== undefined) {
+          constraints.totalDigits = type.precision;
+        }
+        if (type.scale !== undefined) {
+          constraints.fractionDigits = type.scale;
+        }
+        return { dataType: 'number', nullable: false, constraints };
+      }
+      case 'uuid':
+        return { dataType: 'string', nullable: false, constraints: { format: 'uuid' } };
+      default:
+        // 알 수 없는 논리 타입은 기반 타입으로 처리
+        return this.resolveType(type.type);
+    }
+  }
+
+  /**
+   * 이름 있는 타입의 전체 이름 (namespace.name)
+   */
+  private fullName(schema: any, namespace: string | undefined): string {
+    if (schema.name.includes('.')) {
+      return schema.name;
+    }
+    const effectiveNamespace = schema.namespace ?? namespace;
+    return effectiveNamespace ? `${effectiveNamespace}.${schema.name}` : schema.name;
+  }
+
+  /**
+   * 전체 이름에서 짧은 이름 추출
+   */
+  private shortName(fullName: string): string {
+    return fullName.substring(fullName.lastIndexOf('.') + 1);
+  }
+
+  /**
+   * 전체 이름에서 namespace 추출
+   */
+  private namespaceOf(fullName: string): string | undefined {
+    const index = fullName.lastIndexOf('.');
+    return index === -1 ? undefined : fullName.substring(0, index);
+  }
+
+  /**
+   * Avro 기본 타입을 데이터 타입으로 매핑
+   */
+  private mapAvroTypeToDataType(avroType: string): string {
+    const typeMap: Record<string, string> = {
+      'string': 'string',
+      'bytes': 'string',
+      'int': 'integer',
+      'long': 'integer',
+      'float': 'number',
+      'double': 'number',
+      'boolean': 'boolean',
+      'null': 'string'
+    };
+
+    return typeMap[avroType] || 'string';
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * IDL 토크나이저
+ * Protobuf(.proto)와 Thrift IDL 파서가 공유하는 토큰 분리기 (주석은 다음 토큰의 문서로 보존)
+ */
+
+/**
+ * 토큰
+ */
+export interface IdlToken {
+  value: string;
+  kind: 'identifier' | 'number' | 'string' | 'symbol';
+  line: number;
+  // 토큰 바로 앞의 주석 (필드/타입 설명)
+  doc?: string;
+  // 같은 줄 뒤에 오는 주석 (필드 뒤 설명)
+  trailingDoc?: string;
+}
+
+/**
+ * 구분 기호
+ */
+const SYMBOLS = new Set(['{', '}', '<', '>', '(', ')', '[', ']', '=', ';', ',', ':', '*']);
+
+/**
+ * 토큰 스트림
+ */
+export class IdlTokenStream {
+  private index = 0;
+
+  constructor(private tokens: IdlToken[]) {}
+
+  /**
+   * 문자열을 토큰 스트림으로 변환
+   */
+  static tokenize(source: string): IdlTokenStream {
+    const tokens: IdlToken[] = [];
+    let position = 0;
+    let line = 1;
+    let pendingDoc: string[] = [];
+
+    const attachComment = (text: string, commentLine: number) => {
+      const comment = text.trim();
+      if (!comment) {
+        return;
+      }
+      const previous = tokens[tokens.length - 1];
+      // 같은 줄의 앞선 토큰 뒤에 오는 주석은 그 줄의 설명으로 취급
+      if (previous && previous.line === commentLine && pendingDoc.length === 0) {
+        previous.trailingDoc = previous.trailingDoc ? `${previous.trailingDoc} ${comment}` : comment;
+      } else {
+        pendingDoc.push(comment);
+      }
+    };
+
+    while (position < source.length) {
+      const char = source[position]!;
+
+      if (char === '\n') {
+        line++;
+        position++;
+        continue;
+      }
+
+      if (/\s/.test(char)) {
+        position++;
+        continue;
+      }
+
+      // 한 줄 주석 (//, #)
+      if ((char === '/' && source[position + 1] === '/') || char === '#') {
+        const end = source.indexOf('\n', position);
+        const text = source.substring(position + (char === '#' ? 1 : 2), end === -1 ? source.length : end);
+        attachComment(text.replace(/^\//, ''), line);
+        position = end === -1 ? source.length : end;
+        continue;
+      }
+
+      // 블록 주석 (/* */, /** */)
+      if (char === '/' && source[position + 1] === '*') {
+        const end = source.indexOf('*/', position + 2);
+        if (end === -1) {
+          throw new Error(`닫히지 않은 주석이 있습니다 (${line}행)`);
+        }
+        const raw = source.substring(position + 2, end);
+        const text = raw
+          .split('\n')
+          .map(part => part.replace(/^\s*\*+\s?/, '').trim())
+          .filter(Boolean)
+          .join(' ');
+        attachComment(text, line);
+        line += (raw.match(/\n/g) || []).length;
+        position = end + 2;
+        continue;
+      }
+
+      let token: IdlToken;
+
+      if (char === '"' || char === "'") {
+        let end = position + 1;
+        while (end < source.length && source[end] !== char) {
+          end += source[end] === '\\' ? 2 : 1;
+        }
+        if (end >= source.length) {
+          throw new Error(`닫히지 않은 문자열이 있습니다 (${line}행)`);
+        }
+        token = { value: source.substring(position + 1, end), kind: 'string', line };
+        position = end + 1;
+      } else if (SYMBOLS.has(char)) {
+        token = { value: char, kind: 'symbol', line };
+        position++;
+      } else {
+        const match = /^[-+]?[\w.]+/.exec(source.substring(position));
+        if (!match) {
+          throw new Error(`알 수 없는 문자 '${char}' (${line}행)`);
+        }
+        const value = match[0];
+        token = { value, kind: /^[-+]?\d/.test(value) ? 'number' : 'identifier', line };
+        position += value.length;
+      }
+
+      if (pendingDoc.length > 0) {
+        token.doc = pendingDoc.join(' ');
+        pendingDoc = [];
+      }
+      tokens.push(token);
+    }
+
+    return new IdlTokenStream(tokens);
+  }
+
+  /**
+   * 현재 토큰 (소비하지 않음)
+   */
+  peek(offset = 0): IdlToken | undefined {
+    return this.tokens[this.index + offset];
+  }
+
+  /**
+   * 현재 토큰 소비
+   */
+  next(): IdlToken {
+    const token = this.tokens[this.index];
+    if (!token) {
+      throw new Error('예기치 않은 파일 끝입니다');
+    }
+    this.index++;
+    return token;
+  }
+
+  /**
+   * 다음 토큰이 지정한 값이면 소비하고 true 반환
+   */
+  accept(value: string): boolean {
+    if (this.peek()?.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * 다음 토큰이 지정한 값이어야 함
+   */
+  expect(value: string): IdlToken {
+    const token = this.next();
+    if (token.value !== value) {
+      throw new Error(`'${value}'가 필요하지만 '${token.value}'가 있습니다 (${token.line}행)`);
+    }
+    return token;
+  }
+
+  /**
+   * 스트림 끝 여부
+   */
+  isEnd(): boolean {
+    return this.index >= this.tokens.length;
+  }
+
+  /**
+   * 괄호 블록 전체 건너뛰기 (현재 토큰이 여는 괄호여야 함)
+   */
+  skipBlock(open: string, close: string): void {
+    this.expect(open);
+    let depth = 1;
+    while (depth > 0) {
+      const token = this.next();
+      if (token.value === open) {
+        depth++;
+      } else if (token.value === close) {
+        depth--;
+      }
+    }
+  }
+
+  /**
+   * 문장 끝(;)까지 또는 블록까지 건너뛰기
+   */
+  skipStatement(): void {
+    while (!this.isEnd()) {
+      const token = this.peek()!;
+      if (token.value === ';') {
+        this.next();
+        return;
+      }
+      if (token.value === '{') {
+        this.skipBlock('{', '}');
+        this.accept(';');
+        return;
+      }
+      this.next();
+    }
+  }
+}
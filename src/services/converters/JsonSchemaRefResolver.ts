@@ -0,0 +1,160 @@
+/**
+ * JSON Schema $ref 해석기
+ * 로컬 참조(#/definitions, #/$defs)와 도구에 저장된 외부 스키마 참조를 해석
+ */
+
+/**
+ * 외부 스키마 로더 (URI를 받아 파싱된 JSON Schema 반환, 없으면 undefined)
+ */
+export type ExternalSchemaLoader = (uri: string) => Promise<any | undefined>;
+
+/**
+ * 해석된 참조 정보
+ */
+export interface ResolvedRef {
+  schema: any;
+  // 공유 정의 이름 (JSON Pointer의 마지막 세그먼트)
+  name: string;
+  // 순환 참조 감지용 고유 키 (문서 URI + 포인터)
+  key: string;
+  // 참조 대상 문서 URI (대상 내부의 상대 참조 해석 기준)
+  baseUri: string;
+}
+
+/**
+ * 루트 문서 URI
+ */
+const ROOT_DOCUMENT = '';
+
+/**
+ * $ref 해석기 구현체
+ */
+export class JsonSchemaRefResolver {
+  private documents: Map<string, any> = new Map();
+
+  constructor(private loader?: ExternalSchemaLoader) {}
+
+  /**
+   * 루트 문서 등록 및 외부 참조 문서 사전 로드
+   */
+  async load(root: any): Promise<void> {
+    this.documents.clear();
+    this.documents.set(ROOT_DOCUMENT, root);
+    await this.loadExternalDocuments(root);
+  }
+
+  /**
+   * $ref 문자열 해석
+   */
+  resolve(ref: string, baseUri: string = ROOT_DOCUMENT): ResolvedRef {
+    const { uri, pointer } = this.splitRef(ref);
+    const documentUri = uri || baseUri;
+    const document = this.documents.get(documentUri);
+
+    if (document === undefined) {
+      throw new Error(`참조된 스키마 문서를 찾을 수 없습니다: ${ref}`);
+    }
+
+    const schema = this.evaluatePointer(document, pointer);
+    if (schema === undefined) {
+      throw new Error(`$ref를 해석할 수 없습니다: ${ref}`);
+    }
+
+    const segments = this.parsePointer(pointer);
+    const name = segments.length > 0 ? segments[segments.length - 1]! : this.documentName(documentUri);
+
+    return {
+      schema,
+      name,
+      key: `${documentUri}#${pointer}`,
+      baseUri: documentUri
+    };
+  }
+
+  /**
+   * 문서 내 외부 참조를 재귀적으로 찾아 로드
+   */
+  private async loadExternalDocuments(node: any): Promise<void> {
+    const pending = this.collectExternalUris(node).filter(uri => !this.documents.has(uri));
+
+    for (const uri of pending) {
+      if (this.documents.has(uri)) {
+        continue;
+      }
+
+      if (!this.loader) {
+        throw new Error(`외부 스키마 참조를 해석할 로더가 없습니다: ${uri}`);
+      }
+
+      const document = await this.loader(uri);
+      if (document === undefined) {
+        throw new Error(`외부 스키마를 찾을 수 없습니다: ${uri}`);
+      }
+
+      this.documents.set(uri, document);
+      await this.loadExternalDocuments(document);
+    }
+  }
+
+  /**
+   * 객체 트리에서 외부 문서 URI 수집
+   */
+  private collectExternalUris(node: any, uris: Set<string> = new Set()): string[] {
+    if (Array.isArray(node)) {
+      node.forEach(item => this.collectExternalUris(item, uris));
+    } else if (node && typeof node === 'object') {
+      if (typeof node.$ref === 'string') {
+        const { uri } = this.splitRef(node.$ref);
+        if (uri) {
+          uris.add(uri);
+        }
+      }
+      Object.values(node).forEach(value => this.collectExternalUris(value, uris));
+    }
+
+    return Array.from(uris);
+  }
+
+  /**
+   * $ref를 문서 URI와 JSON Pointer로 분리
+   */
+  private splitRef(ref: string): { uri: string; pointer: string } {
+    const hashIndex = ref.indexOf('#');
+    if (hashIndex === -1) {
+      return { uri: ref, pointer: '' };
+    }
+    return { uri: ref.substring(0, hashIndex), pointer: ref.substring(hashIndex + 1) };
+  }
+
+  /**
+   * JSON Pointer(RFC 6901) 세그먼트 분리
+   */
+  private parsePointer(pointer: string): string[] {
+    if (!pointer || pointer === '/') {
+      return [];
+    }
+
+    return pointer
+      .replace(/^\//, '')
+      .split('/')
+      .map(segment => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'));
+  }
+
+  /**
+   * JSON Pointer 평가
+   */
+  private evaluatePointer(document: any, pointer: string): any {
+    return this.parsePointer(pointer).reduce(
+      (current, segment) => (current && typeof current === 'object' ? current[segment] : undefined),
+      document
+    );
+  }
+
+  /**
+   * 포인터가 없는 외부 참조의 정의 이름 (URI 파일명에서 확장자 제거)
+   */
+  private documentName(uri: string): string {
+    const fileName = uri.split('/').pop() || uri;
+    return fileName.replace(/\.(json|ya?ml)$/i, '');
+  }
+}
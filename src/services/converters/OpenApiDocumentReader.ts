@@ -0,0 +1,325 @@
+/**
+ * OpenAPI 문서 리더
+ * OpenAPI 3.0/3.1과 Swagger 2.0 문서에서 component schema 또는 operation 요청/응답 본문 스키마를 선택
+ * (선택된 스키마의 $ref는 문서 전체를 루트로 하여 JSON Schema와 동일하게 해석)
+ */
+
+import * as yaml from 'js-yaml';
+import { SchemaFormat } from '../../types/schema';
+import {
+  OpenApiDocumentSummary,
+  OpenApiOperationSummary,
+  OpenApiSelection,
+  OpenApiVersion
+} from '../../types/openapi';
+
+/**
+ * 경로 항목에서 operation으로 취급하는 HTTP 메서드
+ */
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+/**
+ * 기본 미디어 타입
+ */
+const JSON_MEDIA_TYPE = 'application/json';
+
+/**
+ * 선택된 스키마
+ */
+export interface SelectedOpenApiSchema {
+  schema: any;
+  // 선택 대상 설명 (로그/오류 메시지용)
+  source: string;
+}
+
+/**
+ * 파싱된 operation 정보
+ */
+interface OpenApiOperationEntry {
+  path: string;
+  method: string;
+  operation: any;
+  pathItem: any;
+}
+
+/**
+ * OpenAPI 리더 구현체
+ */
+export class OpenApiDocumentReader {
+  /**
+   * 문서의 OpenAPI/Swagger 버전 감지 (OpenAPI 문서가 아니면 undefined)
+   */
+  static detectVersion(document: any): OpenApiVersion | undefined {
+    if (!document || typeof document !== 'object') {
+      return undefined;
+    }
+
+    if (typeof document.swagger === 'string' && document.swagger.startsWith('2.')) {
+      return '2.0';
+    }
+
+    if (typeof document.openapi === 'string') {
+      if (document.openapi.startsWith('3.1')) {
+        return '3.1';
+      }
+      if (document.openapi.startsWith('3.')) {
+        return '3.0';
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 문자열(JSON 또는 YAML)이 OpenAPI/Swagger 문서이면 해당 형식 반환
+   */
+  static detectFormat(content: string): SchemaFormat.OPENAPI | SchemaFormat.SWAGGER | undefined {
+    let document: any;
+    try {
+      const trimmed = content.trim();
+      document = trimmed.startsWith('{') ? JSON.parse(trimmed) : yaml.load(content);
+    } catch {
+      return undefined;
+    }
+
+    const version = OpenApiDocumentReader.detectVersion(document);
+    if (!version) {
+      return undefined;
+    }
+    return version === '2.0' ? SchemaFormat.SWAGGER : SchemaFormat.OPENAPI;
+  }
+
+  /**
+   * 문서에서 불러올 수 있는 스키마와 operation 목록
+   */
+  summarize(document: any): OpenApiDocumentSummary {
+    const version = this.requireVersion(document);
+
+    return {
+      version,
+      title: document.info?.title,
+      schemas: Object.keys(this.getSchemaDefinitions(document, version)),
+      operations: this.listOperations(document).map(entry => this.summarizeOperation(document, version, entry))
+    };
+  }
+
+  /**
+   * 선택 대상 스키마 조회
+   * 선택이 없으면 첫 번째 component schema, 없으면 첫 번째 operation의 요청(없으면 응답) 본문
+   */
+  select(document: any, selection: OpenApiSelection = {}): SelectedOpenApiSchema {
+    const version = this.requireVersion(document);
+    const definitions = this.getSchemaDefinitions(document, version);
+
+    if (selection.schemaName) {
+      const schema = definitions[selection.schemaName];
+      if (!schema) {
+        throw new Error(`OpenAPI 스키마를 찾을 수 없습니다: ${selection.schemaName}`);
+      }
+      return { schema, source: selection.schemaName };
+    }
+
+    if (selection.operationId || selection.path) {
+      return this.selectOperationBody(document, version, selection);
+    }
+
+    const firstSchema = Object.keys(definitions)[0];
+    if (firstSchema) {
+      return { schema: definitions[firstSchema], source: firstSchema };
+    }
+
+    for (const entry of this.listOperations(document)) {
+      const summary = this.summarizeOperation(document, version, entry);
+      if (summary.hasRequestBody || summary.responses.length > 0) {
+        return this.selectOperationBody(document, version, {
+          path: entry.path,
+          method: entry.method,
+          direction: summary.hasRequestBody ? 'request' : 'response'
+        });
+      }
+    }
+
+    throw new Error('OpenAPI 문서에 불러올 스키마가 없습니다');
+  }
+
+  /**
+   * operation 요청/응답 본문 스키마 선택
+   */
+  private selectOperationBody(document: any, version: OpenApiVersion, selection: OpenApiSelection): SelectedOpenApiSchema {
+    const entry = this.findOperation(document, selection);
+    const direction = selection.direction || 'request';
+    const label = `${entry.method.toUpperCase()} ${entry.path}`;
+
+    if (direction === 'request') {
+      const schema = this.getRequestSchema(document, version, entry, selection.mediaType);
+      if (!schema) {
+        throw new Error(`${label} operation에 요청 본문이 없습니다`);
+      }
+      return { schema, source: `${label} request` };
+    }
+
+    const responses = entry.operation.responses || {};
+    const status = selection.status || this.defaultResponseStatus(document, version, responses);
+    const response = status ? this.resolveLocal(document, responses[status]) : undefined;
+    const schema = response ? this.getResponseSchema(document, version, response, selection.mediaType) : undefined;
+
+    if (!schema) {
+      throw new Error(`${label} operation에 ${status ? `${status} ` : ''}응답 본문이 없습니다`);
+    }
+
+    return { schema, source: `${label} response ${status}` };
+  }
+
+  /**
+   * operationId 또는 path+method로 operation 조회
+   */
+  private findOperation(document: any, selection: OpenApiSelection): OpenApiOperationEntry {
+    const operations = this.listOperations(document);
+    const method = selection.method?.toLowerCase();
+    const entry = selection.operationId
+      ? operations.find(candidate => candidate.operation.operationId === selection.operationId)
+      : operations.find(candidate =>
+        candidate.path === selection.path && (!method || candidate.method === method)
+      );
+
+    if (!entry) {
+      const target = selection.operationId || `${(method || '').toUpperCase()} ${selection.path}`.trim();
+      throw new Error(`OpenAPI operation을 찾을 수 없습니다: ${target}`);
+    }
+
+    return entry;
+  }
+
+  /**
+   * 모든 operation 나열
+   */
+  private listOperations(document: any): OpenApiOperationEntry[] {
+    const entries: OpenApiOperationEntry[] = [];
+
+    Object.entries(document.paths || {}).forEach(([path, rawPathItem]) => {
+      const pathItem = this.resolveLocal(document, rawPathItem) || {};
+      HTTP_METHODS.forEach(method => {
+        if (pathItem[method]) {
+          entries.push({ path, method, operation: pathItem[method], pathItem });
+        }
+      });
+    });
+
+    return entries;
+  }
+
+  /**
+   * operation 요약 생성
+   */
+  private summarizeOperation(
+    document: any,
+    version: OpenApiVersion,
+    entry: OpenApiOperationEntry
+  ): OpenApiOperationSummary {
+    const responses = entry.operation.responses || {};
+
+    return {
+      path: entry.path,
+      method: entry.method,
+      operationId: entry.operation.operationId,
+      summary: entry.operation.summary,
+      hasRequestBody: this.getRequestSchema(document, version, entry) !== undefined,
+      responses: Object.keys(responses).filter(status =>
+        this.getResponseSchema(document, version, this.resolveLocal(document, responses[status]) || {}) !== undefined
+      )
+    };
+  }
+
+  /**
+   * 요청 본문 스키마 (3.x: requestBody.content, 2.0: in=body 파라미터)
+   */
+  private getRequestSchema(
+    document: any,
+    version: OpenApiVersion,
+    entry: OpenApiOperationEntry,
+    mediaType?: string
+  ): any | undefined {
+    if (version === '2.0') {
+      const parameters = [...(entry.pathItem.parameters || []), ...(entry.operation.parameters || [])]
+        .map(parameter => this.resolveLocal(document, parameter));
+      return parameters.find(parameter => parameter?.in === 'body')?.schema;
+    }
+
+    const requestBody = this.resolveLocal(document, entry.operation.requestBody);
+    return requestBody ? this.selectMediaSchema(requestBody.content, mediaType) : undefined;
+  }
+
+  /**
+   * 응답 본문 스키마
+   */
+  private getResponseSchema(document: any, version: OpenApiVersion, response: any, mediaType?: string): any | undefined {
+    if (version === '2.0') {
+      return response.schema;
+    }
+    return this.selectMediaSchema(response.content, mediaType);
+  }
+
+  /**
+   * 기본 응답 상태 코드 (첫 번째 2xx, 없으면 default)
+   */
+  private defaultResponseStatus(document: any, version: OpenApiVersion, responses: Record<string, any>): string | undefined {
+    const withBody = Object.keys(responses).filter(status =>
+      this.getResponseSchema(document, version, this.resolveLocal(document, responses[status]) || {}) !== undefined
+    );
+    return withBody.find(status => status.startsWith('2')) || withBody.find(status => status === 'default') || withBody[0];
+  }
+
+  /**
+   * content 맵에서 미디어 타입별 스키마 선택
+   */
+  private selectMediaSchema(content: Record<string, any> | undefined, mediaType?: string): any | undefined {
+    if (!content) {
+      return undefined;
+    }
+
+    const key = mediaType
+      || (content[JSON_MEDIA_TYPE] ? JSON_MEDIA_TYPE : Object.keys(content).find(type => type.includes('json')))
+      || Object.keys(content)[0];
+
+    return key ? content[key]?.schema : undefined;
+  }
+
+  /**
+   * 스키마 정의 맵 (3.x: components.schemas, 2.0: definitions)
+   */
+  private getSchemaDefinitions(document: any, version: OpenApiVersion): Record<string, any> {
+    return (version === '2.0' ? document.definitions : document.components?.schemas) || {};
+  }
+
+  /**
+   * requestBody/response/parameter/pathItem의 문서 내부 $ref 해석
+   */
+  private resolveLocal(document: any, node: any, depth = 0): any {
+    if (!node || typeof node.$ref !== 'string' || !node.$ref.startsWith('#/') || depth > 10) {
+      return node;
+    }
+
+    const target = node.$ref
+      .substring(2)
+      .split('/')
+      .map((segment: string) => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce((current: any, segment: string) => (current && typeof current === 'object' ? current[segment] : undefined), document);
+
+    if (target === undefined) {
+      throw new Error(`$ref를 해석할 수 없습니다: ${node.$ref}`);
+    }
+
+    return this.resolveLocal(document, target, depth + 1);
+  }
+
+  /**
+   * 버전 확인 (OpenAPI 문서가 아니면 오류)
+   */
+  private requireVersion(document: any): OpenApiVersion {
+    const version = OpenApiDocumentReader.detectVersion(document);
+    if (!version) {
+      throw new Error('openapi 또는 swagger 버전 필드가 있는 OpenAPI 문서가 아닙니다');
+    }
+    return version;
+  }
+}
@@ -0,0 +1,392 @@
+/**
+ * Protobuf 스키마 리더
+ * .proto(proto2/proto3) message 정의를 중첩 경로를 가진 그리드 데이터로 변환
+ * (필드 번호는 fieldNumber로 보존하여 다시 내보낼 때 유지)
+ */
+
+import { SchemaGridData } from '../../types/schema';
+import { createNestedRow } from './gridTree';
+import { IdlToken, IdlTokenStream } from './IdlTokenizer';
+
+/**
+ * 파싱된 message 필드
+ */
+interface ProtoField {
+  name: string;
+  type: string;
+  number: number;
+  label?: 'optional' | 'required' | 'repeated';
+  doc?: string;
+  // oneof 멤버는 선택 필드
+  inOneof?: boolean;
+  // map<K, V> 필드
+  isMap?: boolean;
+}
+
+/**
+ * 파싱된 message
+ */
+interface ProtoMessage {
+  name: string;
+  // 패키지를 제외한 중첩 전체 이름 (예: Order.Line)
+  scopedName: string;
+  fields: ProtoField[];
+}
+
+/**
+ * 잘 알려진 타입(google.protobuf.*) 매핑
+ */
+const WELL_KNOWN_TYPES: Record<string, { dataType: string; nullable: boolean }> = {
+  'google.protobuf.Timestamp': { dataType: 'datetime', nullable: false },
+  'google.protobuf.Duration': { dataType: 'string', nullable: false },
+  'google.protobuf.StringValue': { dataType: 'string', nullable: true },
+  'google.protobuf.BytesValue': { dataType: 'string', nullable: true },
+  'google.protobuf.BoolValue': { dataType: 'boolean', nullable: true },
+  'google.protobuf.Int32Value': { dataType: 'integer', nullable: true },
+  'google.protobuf.Int64Value': { dataType: 'integer', nullable: true },
+  'google.protobuf.UInt32Value': { dataType: 'integer', nullable: true },
+  'google.protobuf.UInt64Value': { dataType: 'integer', nullable: true },
+  'google.protobuf.FloatValue': { dataType: 'number', nullable: true },
+  'google.protobuf.DoubleValue': { dataType: 'number', nullable: true },
+  'google.protobuf.Struct': { dataType: 'object', nullable: false }
+};
+
+/**
+ * Protobuf 리더 구현체
+ */
+export class ProtobufSchemaReader {
+  private packageName = '';
+  private messages: Map<string, ProtoMessage> = new Map();
+  private enums: Map<string, string[]> = new Map();
+  private topLevelMessages: ProtoMessage[] = [];
+  private referenceCounts: Map<string, number> = new Map();
+
+  /**
+   * .proto 문자열을 그리드 행 목록으로 변환
+   * rootType을 지정하지 않으면 다른 message가 참조하지 않는 첫 번째 최상위 message를 사용
+   */
+  read(proto: string, rootType?: string): SchemaGridData[] {
+    this.packageName = '';
+    this.messages.clear();
+    this.enums.clear();
+    this.topLevelMessages = [];
+    this.referenceCounts.clear();
+
+    this.parseFile(IdlTokenStream.tokenize(proto));
+    this.countReferences();
+
+    const root = rootType ? this.resolveMessage(rootType, '') : this.findDefaultRoot();
+    if (!root) {
+      throw new Error(rootType ? `Protobuf message를 찾을 수 없습니다: ${rootType}` : 'Protobuf 파일에 message가 없습니다');
+    }
+
+    const rows: SchemaGridData[] = [];
+    this.readFields(root, undefined, 0, rows, new Set([root.scopedName]));
+    return rows;
+  }
+
+  /**
+   * 파일 최상위 선언 파싱
+   */
+  private parseFile(stream: IdlTokenStream): void {
+    while (!stream.isEnd()) {
+      const token = stream.next();
+
+      switch (token.value) {
+        case 'syntax':
+        case 'edition':
+        case 'import':
+        case 'option':
+          stream.skipStatement();
+          break;
+        case 'package':
+          this.packageName = stream.next().value;
+          stream.expect(';');
+          break;
+        case 'message':
+          this.topLevelMessages.push(this.parseMessage(stream, ''));
+          break;
+        case 'enum':
+          this.parseEnum(stream, '');
+          break;
+        case ';':
+          break;
+        default:
+          // service, extend 등 스키마 구조와 무관한 선언은 건너뜀
+          stream.skipStatement();
+      }
+    }
+  }
+
+  /**
+   * message 블록 파싱
+   */
+  private parseMessage(stream: IdlTokenStream, scope: string): ProtoMessage {
+    const name = stream.next().value;
+    const scopedName = scope ? `${scope}.${name}` : name;
+    const message: ProtoMessage = { name, scopedName, fields: [] };
+    this.messages.set(scopedName, message);
+
+    stream.expect('{');
+    while (!stream.accept('}')) {
+      const token = stream.peek()!;
+
+      switch (token.value) {
+        case 'message':
+          stream.next();
+          this.parseMessage(stream, scopedName);
+          break;
+        case 'enum':
+          stream.next();
+          this.parseEnum(stream, scopedName);
+          break;
+        case 'oneof':
+          stream.next();
+          stream.next();
+          stream.expect('{');
+          while (!stream.accept('}')) {
+            if (stream.peek()!.value === 'option') {
+              stream.skipStatement();
+              continue;
+            }
+            message.fields.push({ ...this.parseField(stream), inOneof: true });
+          }
+          break;
+        case 'option':
+        case 'reserved':
+        case 'extensions':
+        case 'extend':
+          stream.next();
+          stream.skipStatement();
+          break;
+        case ';':
+          stream.next();
+          break;
+        default:
+          message.fields.push(this.parseField(stream));
+      }
+    }
+
+    return message;
+  }
+
+  /**
+   * 필드 선언 파싱: [label] type name = number [options];
+   */
+  private parseField(stream: IdlTokenStream): ProtoField {
+    const first = stream.next();
+    let label: ProtoField['label'];
+    let typeToken: IdlToken = first;
+
+    if (first.value === 'optional' || first.value === 'required' || first.value === 'repeated') {
+      label = first.value;
+      typeToken = stream.next();
+    }
+
+    let type = typeToken.value;
+    let isMap = false;
+
+    if (type === 'map') {
+      stream.expect('<');
+      stream.next();
+      stream.expect(',');
+      type = stream.next().value;
+      stream.expect('>');
+      isMap = true;
+    }
+
+    const nameToken = stream.next();
+    stream.expect('=');
+    const numberToken = stream.next();
+
+    if (stream.peek()?.value === '[') {
+      stream.skipBlock('[', ']');
+    }
+    const end = stream.expect(';');
+
+    const doc = first.doc || nameToken.trailingDoc || numberToken.trailingDoc || end.trailingDoc;
+    return {
+      name: nameToken.value,
+      type,
+      number: Number(numberToken.value),
+      label,
+      doc,
+      isMap
+    };
+  }
+
+  /**
+   * enum 블록 파싱 (값 이름 목록만 보존)
+   */
+  private parseEnum(stream: IdlTokenStream, scope: string): void {
+    const name = stream.next().value;
+    const values: string[] = [];
+
+    stream.expect('{');
+    while (!stream.accept('}')) {
+      const token = stream.next();
+      if (token.value === 'option' || token.value === 'reserved') {
+        stream.skipStatement();
+        continue;
+      }
+      if (token.value === ';') {
+        continue;
+      }
+
+      values.push(token.value);
+      stream.expect('=');
+      stream.next();
+      if (stream.peek()?.value === '[') {
+        stream.skipBlock('[', ']');
+      }
+      stream.expect(';');
+    }
+
+    this.enums.set(scope ? `${scope}.${name}` : name, values);
+  }
+
+  /**
+   * message별 참조 횟수 계산 (두 번 이상 참조되는 message는 공유 정의로 표시)
+   */
+  private countReferences(): void {
+    this.messages.forEach(message => {
+      message.fields.forEach(field => {
+        const target = this.resolveMessage(field.type, message.scopedName);
+        if (target) {
+          this.referenceCounts.set(target.scopedName, (this.referenceCounts.get(target.scopedName) || 0) + 1);
+        }
+      });
+    });
+  }
+
+  /**
+   * 기본 루트 message (다른 message가 참조하지 않는 첫 번째 최상위 message)
+   */
+  private findDefaultRoot(): ProtoMessage | undefined {
+    return this.topLevelMessages.find(message => !this.referenceCounts.has(message.scopedName))
+      || this.topLevelMessages[0];
+  }
+
+  /**
+   * message 필드 목록을 행으로 변환
+   */
+  private readFields(
+    message: ProtoMessage,
+    parentPath: string | undefined,
+    depth: number,
+    rows: SchemaGridData[],
+    visited: Set<string>
+  ): void {
+    message.fields.forEach(field => {
+      const isArray = field.label === 'repeated' && !field.isMap;
+      const target = field.isMap ? undefined : this.resolveMessage(field.type, message.scopedName);
+      const enumValues = target ? undefined : this.resolveEnum(field.type, message.scopedName);
+      const wellKnown = WELL_KNOWN_TYPES[field.type.replace(/^\./, '')];
+
+      let contentType: string;
+      if (field.isMap) {
+        contentType = 'object';
+      } else if (target) {
+        contentType = 'object';
+      } else if (wellKnown) {
+        contentType = wellKnown.dataType;
+      } else if (enumValues) {
+        contentType = 'string';
+      } else {
+        contentType = this.mapProtobufTypeToDataType(field.type);
+      }
+
+      const row = createNestedRow({
+        fieldName: field.name,
+        dataType: isArray ? 'array' : contentType,
+        required: !isArray && !field.isMap && !field.inOneof && field.label !== 'optional' && !wellKnown?.nullable,
+        description: field.doc || '',
+        fieldNumber: field.number
+      }, parentPath, depth);
+
+      if (isArray) {
+        row.itemType = contentType;
+      }
+
+      if (enumValues) {
+        row.enumValues = enumValues;
+      }
+
+      rows.push(row);
+
+      if (!target) {
+        return;
+      }
+
+      if ((this.referenceCounts.get(target.scopedName) || 0) > 1 || visited.has(target.scopedName)) {
+        row.typeRef = target.name;
+      }
+
+      // 재귀 message는 이름만 남기고 더 이상 펼치지 않음
+      if (!visited.has(target.scopedName)) {
+        this.readFields(target, row.path, depth + 1, rows, new Set(visited).add(target.scopedName));
+      }
+    });
+  }
+
+  /**
+   * 스코프 규칙에 따라 message 이름 해석 (안쪽 스코프부터 바깥쪽으로 검색)
+   */
+  private resolveMessage(typeName: string, scope: string): ProtoMessage | undefined {
+    const key = this.resolveScopedName(typeName, scope, name => this.messages.has(name));
+    return key ? this.messages.get(key) : undefined;
+  }
+
+  /**
+   * 스코프 규칙에 따라 enum 이름 해석
+   */
+  private resolveEnum(typeName: string, scope: string): string[] | undefined {
+    const key = this.resolveScopedName(typeName, scope, name => this.enums.has(name));
+    return key ? this.enums.get(key) : undefined;
+  }
+
+  /**
+   * 타입 이름을 패키지를 제외한 중첩 이름으로 해석
+   */
+  private resolveScopedName(typeName: string, scope: string, exists: (name: string) => boolean): string | undefined {
+    let name = typeName.replace(/^\./, '');
+    if (this.packageName && name.startsWith(`${this.packageName}.`)) {
+      name = name.substring(this.packageName.length + 1);
+    }
+
+    const scopes = scope.split('.').filter(Boolean);
+    for (let index = scopes.length; index >= 0; index--) {
+      const candidate = [...scopes.slice(0, index), name].join('.');
+      if (exists(candidate)) {
+        return candidate;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Protobuf 스칼라 타입을 데이터 타입으로 매핑
+   */
+  private mapProtobufTypeToDataType(protoType: string): string {
+    const typeMap: Record<string, string> = {
+      'string': 'string',
+      'bytes': 'string',
+      'bool': 'boolean',
+      'double': 'number',
+      'float': 'number',
+      'int32': 'integer',
+      'int64': 'integer',
+      'uint32': 'integer',
+      'uint64': 'integer',
+      'sint32': 'integer',
+      'sint64': 'integer',
+      'fixed32': 'integer',
+      'fixed64': 'integer',
+      'sfixed32': 'integer',
+      'sfixed64': 'integer'
+    };
+
+    return typeMap[protoType] || 'string';
+  }
+}
@@ -0,0 +1,410 @@
+/**
+ * Thrift 스키마 리더
+ * Thrift IDL의 struct/union/exception 정의를 중첩 경로를 가진 그리드 데이터로 변환
+ * (필드 ID는 fieldNumber로 보존하여 다시 내보낼 때 유지)
+ */
+
+import { SchemaGridData } from '../../types/schema';
+import { createNestedRow } from './gridTree';
+import { IdlTokenStream } from './IdlTokenizer';
+
+/**
+ * 파싱된 Thrift 타입 참조
+ */
+interface ThriftTypeRef {
+  name: string;
+  // list<T>, set<T>의 항목 타입
+  elementType?: ThriftTypeRef;
+}
+
+/**
+ * 파싱된 struct 필드
+ */
+interface ThriftField {
+  id?: number;
+  name: string;
+  type: ThriftTypeRef;
+  requiredness?: 'required' | 'optional';
+  defaultValue?: any;
+  doc?: string;
+}
+
+/**
+ * 파싱된 struct/union/exception
+ */
+interface ThriftStruct {
+  name: string;
+  kind: string;
+  fields: ThriftField[];
+}
+
+/**
+ * Thrift 리더 구현체
+ */
+export class ThriftSchemaReader {
+  private structs: Map<string, ThriftStruct> = new Map();
+  private enums: Map<string, string[]> = new Map();
+  private typedefs: Map<string, ThriftTypeRef> = new Map();
+  private referenceCounts: Map<string, number> = new Map();
+
+  /**
+   * Thrift IDL 문자열을 그리드 행 목록으로 변환
+   * rootType을 지정하지 않으면 다른 struct가 참조하지 않는 마지막 struct를 사용
+   */
+  read(idl: string, rootType?: string): SchemaGridData[] {
+    this.structs.clear();
+    this.enums.clear();
+    this.typedefs.clear();
+    this.referenceCounts.clear();
+
+    this.parseDocument(IdlTokenStream.tokenize(idl));
+    this.countReferences();
+
+    const root = rootType ? this.structs.get(this.localName(rootType)) : this.findDefaultRoot();
+    if (!root) {
+      throw new Error(rootType ? `Thrift struct를 찾을 수 없습니다: ${rootType}` : 'Thrift IDL에 struct가 없습니다');
+    }
+
+    const rows: SchemaGridData[] = [];
+    this.readFields(root, undefined, 0, rows, new Set([root.name]));
+    return rows;
+  }
+
+  /**
+   * 문서 최상위 정의 파싱
+   */
+  private parseDocument(stream: IdlTokenStream): void {
+    while (!stream.isEnd()) {
+      const token = stream.next();
+
+      switch (token.value) {
+        case 'namespace':
+          stream.next();
+          stream.next();
+          break;
+        case 'include':
+        case 'cpp_include':
+          stream.next();
+          break;
+        case 'struct':
+        case 'union':
+        case 'exception': {
+          const struct = this.parseStruct(stream, token.value);
+          this.structs.set(struct.name, struct);
+          break;
+        }
+        case 'enum':
+          this.parseEnum(stream);
+          break;
+        case 'typedef': {
+          const type = this.parseType(stream);
+          this.typedefs.set(stream.next().value, type);
+          this.skipSeparator(stream);
+          break;
+        }
+        case 'const':
+          this.parseType(stream);
+          stream.next();
+          stream.expect('=');
+          this.skipConstValue(stream);
+          this.skipSeparator(stream);
+          break;
+        case 'service':
+          stream.next();
+          if (stream.accept('extends')) {
+            stream.next();
+          }
+          stream.skipBlock('{', '}');
+          break;
+        default:
+          // senum 등 지원하지 않는 선언
+          stream.skipStatement();
+      }
+    }
+  }
+
+  /**
+   * struct/union/exception 블록 파싱
+   */
+  private parseStruct(stream: IdlTokenStream, kind: string): ThriftStruct {
+    const name = stream.next().value;
+    const struct: ThriftStruct = { name, kind, fields: [] };
+
+    stream.expect('{');
+    while (!stream.accept('}')) {
+      struct.fields.push(this.parseField(stream, kind === 'union'));
+    }
+    this.skipAnnotations(stream);
+
+    return struct;
+  }
+
+  /**
+   * 필드 파싱: [id:] [required|optional] type name [= default] [annotations] [,|;]
+   */
+  private parseField(stream: IdlTokenStream, inUnion: boolean): ThriftField {
+    const first = stream.peek()!;
+    let id: number | undefined;
+
+    if (first.kind === 'number' && stream.peek(1)?.value === ':') {
+      id = Number(stream.next().value);
+      stream.expect(':');
+    }
+
+    let requiredness: ThriftField['requiredness'];
+    const label = stream.peek()!.value;
+    if (label === 'required' || label === 'optional') {
+      requiredness = label;
+      stream.next();
+    }
+
+    const type = this.parseType(stream);
+    const nameToken = stream.next();
+    const field: ThriftField = {
+      id,
+      name: nameToken.value,
+      type,
+      // union 멤버는 하나만 설정되므로 선택 필드
+      requiredness: inUnion ? 'optional' : requiredness,
+      doc: first.doc
+    };
+
+    if (stream.accept('=')) {
+      field.defaultValue = this.skipConstValue(stream);
+    }
+    this.skipAnnotations(stream);
+
+    const separator = stream.peek();
+    this.skipSeparator(stream);
+
+    field.doc = field.doc || nameToken.trailingDoc || separator?.trailingDoc;
+    return field;
+  }
+
+  /**
+   * 타입 파싱 (list<T>, set<T>, map<K,V> 포함)
+   */
+  private parseType(stream: IdlTokenStream): ThriftTypeRef {
+    const name = stream.next().value;
+
+    if (name === 'list' || name === 'set') {
+      stream.expect('<');
+      const elementType = this.parseType(stream);
+      stream.expect('>');
+      this.skipAnnotations(stream);
+      return { name, elementType };
+    }
+
+    if (name === 'map') {
+      stream.expect('<');
+      this.parseType(stream);
+      stream.expect(',');
+      this.parseType(stream);
+      stream.expect('>');
+      this.skipAnnotations(stream);
+      return { name };
+    }
+
+    this.skipAnnotations(stream);
+    return { name };
+  }
+
+  /**
+   * enum 블록 파싱 (값 이름 목록만 보존)
+   */
+  private parseEnum(stream: IdlTokenStream): void {
+    const name = stream.next().value;
+    const values: string[] = [];
+
+    stream.expect('{');
+    while (!stream.accept('}')) {
+      values.push(stream.next().value);
+      if (stream.accept('=')) {
+        stream.next();
+      }
+      this.skipAnnotations(stream);
+      this.skipSeparator(stream);
+    }
+    this.skipAnnotations(stream);
+
+    this.enums.set(name, values);
+  }
+
+  /**
+   * 상수 값 파싱 (리터럴은 값 반환, 목록/맵은 건너뜀)
+   */
+  private skipConstValue(stream: IdlTokenStream): any {
+    const token = stream.peek()!;
+
+    if (token.value === '[') {
+      stream.skipBlock('[', ']');
+      return undefined;
+    }
+    if (token.value === '{') {
+      stream.skipBlock('{', '}');
+      return undefined;
+    }
+
+    stream.next();
+    if (token.kind === 'number') {
+      return Number(token.value);
+    }
+    if (token.value === 'true' || token.value === 'false') {
+      return token.value === 'true';
+    }
+    return token.value;
+  }
+
+  /**
+   * 선택적 구분자(, 또는 ;) 건너뛰기
+   */
+  private skipSeparator(stream: IdlTokenStream): void {
+    if (!stream.accept(',')) {
+      stream.accept(';');
+    }
+  }
+
+  /**
+   * 타입/필드 주석 어노테이션 (...) 건너뛰기
+   */
+  private skipAnnotations(stream: IdlTokenStream): void {
+    if (stream.peek()?.value === '(') {
+      stream.skipBlock('(', ')');
+    }
+  }
+
+  /**
+   * struct별 참조 횟수 계산 (두 번 이상 참조되는 struct는 공유 정의로 표시)
+   */
+  private countReferences(): void {
+    this.structs.forEach(struct => {
+      struct.fields.forEach(field => {
+        const target = this.resolveStruct(this.contentType(field.type));
+        if (target) {
+          this.referenceCounts.set(target.name, (this.referenceCounts.get(target.name) || 0) + 1);
+        }
+      });
+    });
+  }
+
+  /**
+   * 기본 루트 struct (다른 struct가 참조하지 않는 마지막 struct, IDL은 의존 타입을 먼저 선언)
+   */
+  private findDefaultRoot(): ThriftStruct | undefined {
+    const structs = Array.from(this.structs.values());
+    return structs.filter(struct => !this.referenceCounts.has(struct.name)).pop() || structs.pop();
+  }
+
+  /**
+   * struct 필드 목록을 행으로 변환
+   */
+  private readFields(
+    struct: ThriftStruct,
+    parentPath: string | undefined,
+    depth: number,
+    rows: SchemaGridData[],
+    visited: Set<string>
+  ): void {
+    struct.fields.forEach(field => {
+      const type = this.resolveTypedef(field.type);
+      const isArray = type.name === 'list' || type.name === 'set';
+      const content = this.contentType(type);
+      const target = this.resolveStruct(content);
+      const enumValues = this.enums.get(this.localName(content.name));
+      const contentType = target || content.name === 'map'
+        ? 'object'
+        : enumValues ? 'string' : this.mapThriftTypeToDataType(content.name);
+
+      const row = createNestedRow({
+        fieldName: field.name,
+        dataType: isArray ? 'array' : contentType,
+        required: field.requiredness === 'required',
+        description: field.doc || ''
+      }, parentPath, depth);
+
+      if (field.id !== undefined) {
+        row.fieldNumber = field.id;
+      }
+
+      if (isArray) {
+        row.itemType = contentType;
+      }
+
+      if (field.defaultValue !== undefined) {
+        // enum 기본값은 Status.NEW 형태이므로 값 이름만 보존
+        row.defaultValue = enumValues && typeof field.defaultValue === 'string'
+          ? this.localName(field.defaultValue)
+          : field.defaultValue;
+      }
+
+      if (enumValues) {
+        row.enumValues = enumValues;
+      }
+
+      rows.push(row);
+
+      if (!target) {
+        return;
+      }
+
+      if ((this.referenceCounts.get(target.name) || 0) > 1 || visited.has(target.name)) {
+        row.typeRef = target.name;
+      }
+
+      // 재귀 struct는 이름만 남기고 더 이상 펼치지 않음
+      if (!visited.has(target.name)) {
+        this.readFields(target, row.path, depth + 1, rows, new Set(visited).add(target.name));
+      }
+    });
+  }
+
+  /**
+   * 목록 타입이면 항목 타입, 아니면 자신 (typedef 해석 포함)
+   */
+  private contentType(type: ThriftTypeRef): ThriftTypeRef {
+    const resolved = this.resolveTypedef(type);
+    return resolved.elementType ? this.resolveTypedef(resolved.elementType) : resolved;
+  }
+
+  /**
+   * typedef 별칭 해석
+   */
+  private resolveTypedef(type: ThriftTypeRef, depth = 0): ThriftTypeRef {
+    const alias = this.typedefs.get(this.localName(type.name));
+    return alias && depth < 10 ? this.resolveTypedef(alias, depth + 1) : type;
+  }
+
+  /**
+   * struct 이름 해석 (include 접두사 제거)
+   */
+  private resolveStruct(type: ThriftTypeRef): ThriftStruct | undefined {
+    return this.structs.get(this.localName(type.name));
+  }
+
+  /**
+   * include 접두사를 제거한 로컬 이름 (예: shared.Address -> Address)
+   */
+  private localName(name: string): string {
+    return name.substring(name.lastIndexOf('.') + 1);
+  }
+
+  /**
+   * Thrift 기본 타입을 데이터 타입으로 매핑
+   */
+  private mapThriftTypeToDataType(thriftType: string): string {
+    const typeMap: Record<string, string> = {
+      'string': 'string',
+      'binary': 'string',
+      'bool': 'boolean',
+      'byte': 'integer',
+      'i8': 'integer',
+      'i16': 'integer',
+      'i32': 'integer',
+      'i64': 'integer',
+      'double': 'number',
+      'uuid': 'string'
+    };
+
+    return typeMap[thriftType] || 'string';
+  }
+}
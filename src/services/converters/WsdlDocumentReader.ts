@@ -0,0 +1,363 @@
+/**
+ * WSDL 문서 리더
+ * WSDL 1.1(definitions)과 WSDL 2.0(description) 문서를 서비스/바인딩/포트 타입/오퍼레이션 모델로 변환하고
+ * 선택한 오퍼레이션의 요청/응답/fault 메시지 구조를 그리드 행으로 변환
+ */
+
+import * as xml2js from 'xml2js';
+import { SchemaGridData } from '../../types/schema';
+import {
+  WsdlBinding,
+  WsdlDefinition,
+  WsdlMessage,
+  WsdlOperation,
+  WsdlOperationMessage,
+  WsdlOperationSelection,
+  WsdlPortType,
+  WsdlService
+} from '../../types/wsdl';
+import { createNestedRow, escapePathSegment, PATH_SEPARATOR } from './gridTree';
+import { XsdSchemaReader } from './XsdSchemaReader';
+
+/**
+ * WSDL 네임스페이스
+ */
+export const WSDL11_NAMESPACE = 'http://schemas.xmlsoap.org/wsdl/';
+export const WSDL20_NAMESPACE = 'http://www.w3.org/ns/wsdl';
+
+/**
+ * 파싱된 WSDL 문서 (모델 + types 섹션 스키마)
+ */
+export interface ParsedWsdlDocument {
+  definition: WsdlDefinition;
+  schemas: any[];
+}
+
+/**
+ * WSDL 리더 구현체
+ */
+export class WsdlDocumentReader {
+  private parser: xml2js.Parser;
+
+  constructor() {
+    // 접두사(wsdl:, soap:, xs:)와 무관하게 처리하기 위해 태그 접두사 제거
+    this.parser = new xml2js.Parser({
+      explicitArray: true,
+      explicitRoot: true,
+      tagNameProcessors: [xml2js.processors.stripPrefix],
+      attrkey: '$',
+      charkey: '_',
+      trim: true,
+      strict: true
+    });
+  }
+
+  /**
+   * 문자열이 WSDL 문서인지 확인
+   */
+  static isWSDLDocument(content: string): boolean {
+    return content.includes(WSDL11_NAMESPACE) || content.includes(WSDL20_NAMESPACE);
+  }
+
+  /**
+   * WSDL 문자열을 모델로 변환
+   */
+  async read(wsdl: string): Promise<WsdlDefinition> {
+    return (await this.parse(wsdl)).definition;
+  }
+
+  /**
+   * WSDL 문자열 파싱 (모델과 types 섹션 스키마 노드 반환)
+   */
+  async parse(wsdl: string): Promise<ParsedWsdlDocument> {
+    const parsed = await this.parser.parseStringPromise(wsdl);
+
+    if (parsed?.definitions) {
+      return this.readWsdl11(parsed.definitions);
+    }
+
+    if (parsed?.description) {
+      return this.readWsdl20(parsed.description);
+    }
+
+    throw new Error('wsdl:definitions 또는 wsdl:description 루트 요소를 찾을 수 없습니다');
+  }
+
+  /**
+   * 선택한 오퍼레이션 메시지의 구조를 그리드 행으로 변환
+   * 단일 요소 part(document/literal)는 요소 내용을, 여러 part(rpc)는 part별 행을 생성
+   */
+  async readOperationMessage(wsdl: string, selection: WsdlOperationSelection): Promise<SchemaGridData[]> {
+    const { definition, schemas } = await this.parse(wsdl);
+    const operation = this.findOperation(definition, selection);
+    const direction = selection.direction || 'input';
+    const operationMessage = direction === 'fault'
+      ? operation.faults.find(fault => !selection.faultName || fault.name === selection.faultName)
+      : operation[direction];
+
+    if (!operationMessage) {
+      throw new Error(`오퍼레이션 ${operation.name}에 ${direction} 메시지가 없습니다`);
+    }
+
+    const xsdReader = new XsdSchemaReader();
+    xsdReader.loadSchemas(schemas);
+
+    // WSDL 2.0은 오퍼레이션이 요소를 직접 참조
+    if (operationMessage.element) {
+      return xsdReader.readGlobalElement(operationMessage.element);
+    }
+
+    const message = definition.messages.find(candidate => candidate.name === operationMessage.message);
+    if (!message) {
+      throw new Error(`WSDL 메시지를 찾을 수 없습니다: ${operationMessage.message}`);
+    }
+
+    const onlyPart = message.parts.length === 1 ? message.parts[0] : undefined;
+    if (onlyPart?.element) {
+      return xsdReader.readGlobalElement(onlyPart.element);
+    }
+
+    const rows: SchemaGridData[] = [];
+    message.parts.forEach(part => {
+      if (part.element) {
+        const elementRows = xsdReader.readGlobalElement(part.element);
+        rows.push(createNestedRow({ fieldName: part.name, dataType: 'object', required: true, description: '' }, undefined, 0));
+        elementRows.forEach(row => rows.push(this.nestUnder(row, part.name)));
+      } else {
+        rows.push(...xsdReader.readTypedField(part.name, part.type || 'xs:string'));
+      }
+    });
+
+    return rows;
+  }
+
+  /**
+   * 오퍼레이션 조회 (portType 미지정 시 모든 portType에서 검색)
+   */
+  findOperation(definition: WsdlDefinition, selection: WsdlOperationSelection): WsdlOperation {
+    const portTypes = selection.portType
+      ? definition.portTypes.filter(portType => portType.name === selection.portType)
+      : definition.portTypes;
+
+    if (selection.portType && portTypes.length === 0) {
+      throw new Error(`WSDL portType을 찾을 수 없습니다: ${selection.portType}`);
+    }
+
+    for (const portType of portTypes) {
+      const operation = portType.operations.find(candidate => candidate.name === selection.operation);
+      if (operation) {
+        return operation;
+      }
+    }
+
+    throw new Error(`WSDL 오퍼레이션을 찾을 수 없습니다: ${selection.operation}`);
+  }
+
+  /**
+   * WSDL 1.1 definitions 변환
+   */
+  private readWsdl11(definitions: any): ParsedWsdlDocument {
+    const messages: WsdlMessage[] = (definitions.message || []).map((message: any) => ({
+      name: message.$?.name,
+      parts: (message.part || []).map((part: any) => ({
+        name: part.$?.name,
+        element: part.$?.element ? this.localName(part.$.element) : undefined,
+        type: part.$?.type
+      }))
+    }));
+
+    const portTypes: WsdlPortType[] = (definitions.portType || []).map((portType: any) => ({
+      name: portType.$?.name,
+      operations: (portType.operation || []).map((operation: any) => ({
+        name: operation.$?.name,
+        documentation: this.readDocumentation(operation),
+        input: this.readOperationMessageRef(operation.input?.[0], 'message'),
+        output: this.readOperationMessageRef(operation.output?.[0], 'message'),
+        faults: (operation.fault || []).map((fault: any) => this.readOperationMessageRef(fault, 'message'))
+      }))
+    }));
+
+    const bindings: WsdlBinding[] = (definitions.binding || []).map((binding: any) => {
+      // soap:binding / soap12:binding (접두사 제거 후 동일한 태그명)
+      const soapBinding = binding.binding?.[0]?.$ || {};
+      return {
+        name: binding.$?.name,
+        portType: this.localName(binding.$?.type || ''),
+        transport: soapBinding.transport,
+        style: soapBinding.style,
+        operations: (binding.operation || []).map((operation: any) => {
+          const soapOperation = operation.operation?.[0]?.$ || {};
+          return {
+            name: operation.$?.name,
+            soapAction: soapOperation.soapAction,
+            style: soapOperation.style
+          };
+        })
+      };
+    });
+
+    const services: WsdlService[] = (definitions.service || []).map((service: any) => ({
+      name: service.$?.name,
+      ports: (service.port || []).map((port: any) => ({
+        name: port.$?.name,
+        binding: this.localName(port.$?.binding || ''),
+        address: port.address?.[0]?.$?.location
+      }))
+    }));
+
+    const schemas = this.collectSchemas(definitions);
+
+    return {
+      definition: {
+        version: '1.1',
+        name: definitions.$?.name,
+        targetNamespace: definitions.$?.targetNamespace,
+        namespaces: this.readNamespaces(definitions),
+        elements: this.collectElementNames(schemas),
+        messages,
+        portTypes,
+        bindings,
+        services
+      },
+      schemas
+    };
+  }
+
+  /**
+   * WSDL 2.0 description 변환 (interface를 portType으로, endpoint를 port로 매핑)
+   */
+  private readWsdl20(description: any): ParsedWsdlDocument {
+    const portTypes: WsdlPortType[] = (description.interface || []).map((wsdlInterface: any) => ({
+      name: wsdlInterface.$?.name,
+      operations: (wsdlInterface.operation || []).map((operation: any) => {
+        const interfaceFaults: any[] = wsdlInterface.fault || [];
+        const faultRefs: any[] = operation.outfault || [];
+
+        return {
+          name: operation.$?.name,
+          documentation: this.readDocumentation(operation),
+          pattern: operation.$?.pattern,
+          input: this.readOperationMessageRef(operation.input?.[0], 'element'),
+          output: this.readOperationMessageRef(operation.output?.[0], 'element'),
+          faults: faultRefs.map((faultRef: any) => {
+            const faultName = this.localName(faultRef.$?.ref || '');
+            const fault = interfaceFaults.find((candidate: any) => candidate.$?.name === faultName);
+            return {
+              name: faultName,
+              element: fault?.$?.element ? this.localName(fault.$.element) : undefined
+            };
+          })
+        };
+      })
+    }));
+
+    const bindings: WsdlBinding[] = (description.binding || []).map((binding: any) => ({
+      name: binding.$?.name,
+      portType: this.localName(binding.$?.interface || ''),
+      transport: binding.$?.['wsoap:protocol'] || binding.$?.type,
+      operations: (binding.operation || []).map((operation: any) => ({
+        name: this.localName(operation.$?.ref || ''),
+        soapAction: operation.$?.['wsoap:action']
+      }))
+    }));
+
+    const services: WsdlService[] = (description.service || []).map((service: any) => ({
+      name: service.$?.name,
+      ports: (service.endpoint || []).map((endpoint: any) => ({
+        name: endpoint.$?.name,
+        binding: this.localName(endpoint.$?.binding || ''),
+        address: endpoint.$?.address
+      }))
+    }));
+
+    const schemas = this.collectSchemas(description);
+
+    return {
+      definition: {
+        version: '2.0',
+        name: description.$?.name,
+        targetNamespace: description.$?.targetNamespace,
+        namespaces: this.readNamespaces(description),
+        elements: this.collectElementNames(schemas),
+        messages: [],
+        portTypes,
+        bindings,
+        services
+      },
+      schemas
+    };
+  }
+
+  /**
+   * 오퍼레이션 input/output/fault 참조 읽기
+   */
+  private readOperationMessageRef(node: any, attribute: 'message' | 'element'): WsdlOperationMessage | undefined {
+    if (!node) {
+      return undefined;
+    }
+
+    const reference = node.$?.[attribute];
+    const result: WsdlOperationMessage = { name: node.$?.name };
+    if (reference) {
+      result[attribute] = this.localName(reference);
+    }
+    return result;
+  }
+
+  /**
+   * types 섹션의 xs:schema 노드 수집
+   */
+  private collectSchemas(root: any): any[] {
+    return (root.types || []).flatMap((types: any) => types.schema || []);
+  }
+
+  /**
+   * 스키마들의 전역 요소 이름 수집
+   */
+  private collectElementNames(schemas: any[]): string[] {
+    return schemas.flatMap(schema => (schema.element || []).map((element: any) => element.$?.name).filter(Boolean));
+  }
+
+  /**
+   * 루트 요소의 네임스페이스 선언 수집 (기본 네임스페이스는 빈 접두사)
+   */
+  private readNamespaces(root: any): Record<string, string> {
+    const namespaces: Record<string, string> = {};
+    Object.entries(root.$ || {}).forEach(([name, value]) => {
+      if (name === 'xmlns') {
+        namespaces[''] = String(value);
+      } else if (name.startsWith('xmlns:')) {
+        namespaces[name.substring('xmlns:'.length)] = String(value);
+      }
+    });
+    return namespaces;
+  }
+
+  /**
+   * 다른 부모 아래로 행 이동 (경로 재계산)
+   */
+  private nestUnder(row: SchemaGridData, parentName: string): SchemaGridData {
+    const parentSegment = escapePathSegment(parentName);
+    const parentPath = row.parentPath ? `${parentSegment}${PATH_SEPARATOR}${row.parentPath}` : parentSegment;
+    return createNestedRow({ ...row, parentPath }, parentPath, (row.depth ?? 0) + 1);
+  }
+
+  /**
+   * wsdl:documentation 텍스트 추출
+   */
+  private readDocumentation(node: any): string | undefined {
+    const documentation = node.documentation?.[0];
+    if (documentation === undefined) {
+      return undefined;
+    }
+    return typeof documentation === 'string' ? documentation : documentation._;
+  }
+
+  /**
+   * 접두사를 제거한 로컬 이름 반환 (예: tns:GetOrder -> GetOrder)
+   */
+  private localName(qualifiedName: string): string {
+    const index = qualifiedName.indexOf(':');
+    return index === -1 ? qualifiedName : qualifiedName.substring(index + 1);
+  }
+}
@@ -0,0 +1,573 @@
+/**
+ * XSD 스키마 리더
+ * 실제 XML Schema 문서(xs:schema)를 중첩 경로를 가진 그리드 데이터로 변환
+ * (xs:element, xs:complexType, xs:simpleType 제약(facet), minOccurs/maxOccurs, xs:attribute 지원)
+ */
+
+import * as xml2js from 'xml2js';
+import { SchemaGridData } from '../../types/schema';
+import { createNestedRow } from './gridTree';
+
+/**
+ * XML Schema 네임스페이스
+ */
+export const XSD_NAMESPACE = 'http://www.w3.org/2001/XMLSchema';
+
+/**
+ * simpleType 제약(facet) 정보
+ */
+export interface XsdFacets {
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  enumValues?: string[];
+  // 그리드 전용 컬럼이 없는 제약 (JSON Schema 키워드로 저장: minimum, totalDigits 등)
+  constraints: Record<string, any>;
+}
+
+/**
+ * 해석된 단순 타입 (기본 데이터 타입 + 제약)
+ */
+interface ResolvedSimpleType {
+  dataType: string;
+  facets: XsdFacets;
+}
+
+/**
+ * 모델 그룹에서 수집한 요소 (choice 내부 요소는 선택적)
+ */
+interface Particle {
+  element: any;
+  optional: boolean;
+}
+
+/**
+ * 숫자 제약 facet과 JSON Schema 키워드 매핑
+ */
+const NUMERIC_FACETS: Record<string, string> = {
+  minInclusive: 'minimum',
+  maxInclusive: 'maximum',
+  minExclusive: 'exclusiveMinimum',
+  maxExclusive: 'exclusiveMaximum',
+  totalDigits: 'totalDigits',
+  fractionDigits: 'fractionDigits'
+};
+
+/**
+ * XSD 리더 구현체
+ */
+export class XsdSchemaReader {
+  private parser: xml2js.Parser;
+  private complexTypes: Map<string, any> = new Map();
+  private simpleTypes: Map<string, any> = new Map();
+  private globalElements: Map<string, any> = new Map();
+  private globalAttributes: Map<string, any> = new Map();
+
+  constructor() {
+    // 접두사(xs:, xsd:)와 무관하게 처리하기 위해 태그 접두사 제거
+    this.parser = new xml2js.Parser({
+      explicitArray: true,
+      explicitRoot: true,
+      tagNameProcessors: [xml2js.processors.stripPrefix],
+      attrkey: '$',
+      charkey: '_',
+      trim: true,
+      strict: true
+    });
+  }
+
+  /**
+   * 문자열이 XML Schema 문서인지 확인
+   */
+  static isXSDDocument(content: string): boolean {
+    return /<([\w-]+:)?schema[\s>]/.test(content) && content.includes(XSD_NAMESPACE);
+  }
+
+  /**
+   * XSD 문자열을 그리드 행 목록으로 변환
+   */
+  async read(xsd: string): Promise<SchemaGridData[]> {
+    const parsed = await this.parser.parseStringPromise(xsd);
+    const schema = parsed?.schema;
+
+    if (!schema) {
+      throw new Error('xs:schema 루트 요소를 찾을 수 없습니다');
+    }
+
+    return this.readSchemaNode(schema);
+  }
+
+  /**
+   * 파싱된 xs:schema 노드를 그리드 행 목록으로 변환 (WSDL types 섹션 등에서 재사용)
+   */
+  readSchemaNode(schema: any): SchemaGridData[] {
+    this.loadSchemas([schema]);
+
+    const rows: SchemaGridData[] = [];
+    const elements: any[] = schema.element || [];
+
+    // 단일 루트 요소가 complexType을 가지면 루트를 감싸는 래퍼로 보고 내용만 추출
+    const rootElement = elements.length === 1 ? elements[0] : undefined;
+    const rootType = rootElement ? this.resolveComplexType(rootElement) : undefined;
+
+    if (rootType && !rootType.simpleContent) {
+      this.readComplexType(rootType, undefined, 0, rows, new Set());
+    } else {
+      elements.forEach(element => this.readElement(element, undefined, 0, rows, new Set()));
+    }
+
+    return rows;
+  }
+
+  /**
+   * 전역 요소 이름 목록 (WSDL 메시지 part 해석 등에 사용)
+   */
+  getGlobalElementNames(): string[] {
+    return Array.from(this.globalElements.keys());
+  }
+
+  /**
+   * 이름과 타입으로 필드 하나를 그리드 행으로 변환 (WSDL rpc 스타일 part 등)
+   */
+  readTypedField(fieldName: string, qualifiedType: string): SchemaGridData[] {
+    const rows: SchemaGridData[] = [];
+    this.readElement({ $: { name: fieldName, type: qualifiedType } }, undefined, 0, rows, new Set());
+    return rows;
+  }
+
+  /**
+   * 전역 요소 하나를 루트로 하여 하위 구조를 그리드 행으로 변환
+   */
+  readGlobalElement(name: string): SchemaGridData[] {
+    const element = this.globalElements.get(this.localName(name));
+    if (!element) {
+      throw new Error(`XSD 전역 요소를 찾을 수 없습니다: ${name}`);
+    }
+
+    const rows: SchemaGridData[] = [];
+    const complexType = this.resolveComplexType(element);
+
+    if (complexType && !complexType.simpleContent) {
+      this.readComplexType(complexType, undefined, 0, rows, new Set());
+    } else {
+      this.readElement(element, undefined, 0, rows, new Set());
+    }
+
+    return rows;
+  }
+
+  /**
+   * 전역 complexType 하나의 하위 구조를 그리드 행으로 변환
+   */
+  readNamedComplexType(name: string): SchemaGridData[] {
+    const complexType = this.complexTypes.get(this.localName(name));
+    if (!complexType) {
+      throw new Error(`XSD complexType을 찾을 수 없습니다: ${name}`);
+    }
+
+    const rows: SchemaGridData[] = [];
+    this.readComplexType(complexType, undefined, 0, rows, new Set([this.localName(name)]));
+    return rows;
+  }
+
+  /**
+   * 파싱된 xs:schema 노드들의 전역 정의 색인 (WSDL types 섹션의 여러 스키마는 하나로 병합)
+   */
+  loadSchemas(schemas: any[]): void {
+    this.complexTypes.clear();
+    this.simpleTypes.clear();
+    this.globalElements.clear();
+    this.globalAttributes.clear();
+    schemas.forEach(schema => this.indexGlobals(schema));
+  }
+
+  /**
+   * 전역 정의 색인
+   */
+  private indexGlobals(schema: any): void {
+    const index = (nodes: any[] | undefined, target: Map<string, any>) => {
+      (nodes || []).forEach((node: any) => {
+        const name = node.$?.name;
+        if (name) {
+          target.set(name, node);
+        }
+      });
+    };
+
+    index(schema.complexType, this.complexTypes);
+    index(schema.simpleType, this.simpleTypes);
+    index(schema.element, this.globalElements);
+    index(schema.attribute, this.globalAttributes);
+  }
+
+  /**
+   * xs:element 하나를 행으로 변환 (하위 구조는 재귀 처리)
+   */
+  private readElement(
+    element: any,
+    parentPath: string | undefined,
+    depth: number,
+    rows: SchemaGridData[],
+    visitedTypes: Set<string>,
+    optional = false
+  ): void {
+    // ref="tns:Foo" 참조는 전역 요소 정의를 사용하고 발생 횟수는 참조 측 값을 사용
+    const refName = element.$?.ref ? this.localName(element.$.ref) : undefined;
+    const definition = refName ? this.globalElements.get(refName) || element : element;
+    const attrs = { ...(definition.$ || {}), ...(element.$ || {}) };
+    const fieldName = refName || attrs.name;
+
+    if (!fieldName) {
+      return;
+    }
+
+    const maxOccurs = attrs.maxOccurs;
+    const isArray = maxOccurs === 'unbounded' || (maxOccurs !== undefined && Number(maxOccurs) > 1);
+    const typeName = this.localName(definition.$?.type || '');
+    const complexType = this.resolveComplexType(definition);
+    const simpleContent = complexType?.simpleContent?.[0];
+
+    let simpleType: ResolvedSimpleType | undefined;
+    if (simpleContent) {
+      simpleType = this.readDerivation(simpleContent.extension?.[0] || simpleContent.restriction?.[0]);
+    } else if (!complexType) {
+      simpleType = this.resolveSimpleType(definition);
+    }
+
+    const contentType = simpleType ? simpleType.dataType : 'object';
+    const row = createNestedRow({
+      fieldName,
+      dataType: isArray ? 'array' : contentType,
+      required: !optional && attrs.minOccurs !== '0',
+      description: this.readDocumentation(definition)
+    }, parentPath, depth);
+
+    if (isArray) {
+      row.itemType = contentType;
+    }
+
+    if (attrs.default !== undefined) {
+      row.defaultValue = attrs.default;
+    }
+
+    if (simpleType) {
+      this.applyFacets(row, simpleType.facets);
+    }
+
+    // 이름 있는 complexType은 공유 정의로 보존
+    if (complexType && !simpleContent && !definition.complexType && typeName) {
+      row.typeRef = typeName;
+    }
+
+    rows.push(row);
+
+    if (simpleContent) {
+      // 텍스트 내용 + 속성을 가진 요소: 속성을 하위 행으로 추가
+      const derivation = simpleContent.extension?.[0] || simpleContent.restriction?.[0] || {};
+      this.readAttributes(derivation, row.path, depth + 1, rows);
+      return;
+    }
+
+    if (complexType) {
+      // 재귀 타입(예: 트리 구조)의 무한 루프 방지
+      const typeKey = complexType.$?.name;
+      if (typeKey && visitedTypes.has(typeKey)) {
+        return;
+      }
+
+      const nextVisited = new Set(visitedTypes);
+      if (typeKey) {
+        nextVisited.add(typeKey);
+      }
+
+      this.readComplexType(complexType, row.path, depth + 1, rows, nextVisited);
+    }
+  }
+
+  /**
+   * complexType의 내용 처리
+   * complexContent/extension은 기본 타입의 내용을 먼저 읽고 확장 내용을 추가
+   */
+  private readComplexType(
+    complexType: any,
+    parentPath: string | undefined,
+    depth: number,
+    rows: SchemaGridData[],
+    visitedTypes: Set<string>
+  ): void {
+    let content = complexType;
+    const complexContent = complexType.complexContent?.[0];
+
+    if (complexContent) {
+      const extension = complexContent.extension?.[0];
+      content = extension || complexContent.restriction?.[0] || {};
+
+      if (extension?.$?.base) {
+        const baseName = this.localName(extension.$.base);
+        const baseType = this.complexTypes.get(baseName);
+
+        if (baseType && !visitedTypes.has(baseName)) {
+          this.readComplexType(baseType, parentPath, depth, rows, new Set(visitedTypes).add(baseName));
+        }
+      }
+    }
+
+    this.collectParticles(content, false).forEach(particle =>
+      this.readElement(particle.element, parentPath, depth, rows, visitedTypes, particle.optional)
+    );
+    this.readAttributes(content, parentPath, depth, rows);
+  }
+
+  /**
+   * 모델 그룹(sequence/all/choice)에서 요소 목록 수집 (중첩 그룹 포함)
+   */
+  private collectParticles(container: any, optional: boolean): Particle[] {
+    const particles: Particle[] = (container.element || []).map((element: any) => ({ element, optional }));
+
+    ['sequence', 'all', 'choice'].forEach(group => {
+      (container[group] || []).forEach((groupNode: any) => {
+        const groupOptional = optional || group === 'choice' || groupNode.$?.minOccurs === '0';
+        particles.push(...this.collectParticles(groupNode, groupOptional));
+      });
+    });
+
+    return particles;
+  }
+
+  /**
+   * xs:attribute 목록을 속성 행으로 변환
+   */
+  private readAttributes(container: any, parentPath: string | undefined, depth: number, rows: SchemaGridData[]): void {
+    (container.attribute || []).forEach((attribute: any) => {
+      const refName = attribute.$?.ref ? this.localName(attribute.$.ref) : undefined;
+      const definition = refName ? this.globalAttributes.get(refName) || attribute : attribute;
+      const attrs = { ...(definition.$ || {}), ...(attribute.$ || {}) };
+      const fieldName = refName || attrs.name;
+
+      if (!fieldName || attrs.use === 'prohibited') {
+        return;
+      }
+
+      const simpleType = this.resolveSimpleType(definition);
+      const row = createNestedRow({
+        fieldName,
+        dataType: simpleType.dataType,
+        required: attrs.use === 'required',
+        description: this.readDocumentation(definition),
+        isAttribute: true
+      }, parentPath, depth);
+
+      if (attrs.default !== undefined) {
+        row.defaultValue = attrs.default;
+      }
+
+      this.applyFacets(row, simpleType.facets);
+      rows.push(row);
+    });
+  }
+
+  /**
+   * 요소/속성의 단순 타입 해석 (인라인 simpleType, 이름 있는 simpleType, 내장 타입)
+   */
+  private resolveSimpleType(node: any): ResolvedSimpleType {
+    if (node.simpleType && node.simpleType[0]) {
+      return this.readSimpleType(node.simpleType[0], new Set());
+    }
+
+    return this.resolveTypeName(node.$?.type || 'string', new Set());
+  }
+
+  /**
+   * 타입 이름 해석 (이름 있는 simpleType이면 제약까지 포함)
+   */
+  private resolveTypeName(qualifiedName: string, visited: Set<string>): ResolvedSimpleType {
+    const name = this.localName(qualifiedName);
+    const simpleType = this.simpleTypes.get(name);
+
+    if (simpleType && !visited.has(name)) {
+      return this.readSimpleType(simpleType, new Set(visited).add(name));
+    }
+
+    return { dataType: this.mapXSDTypeToDataType(name), facets: { constraints: {} } };
+  }
+
+  /**
+   * xs:simpleType 해석 (restriction 기반, list/union은 문자열로 처리)
+   */
+  private readSimpleType(simpleType: any, visited: Set<string>): ResolvedSimpleType {
+    const restriction = simpleType.restriction?.[0];
+    if (!restriction) {
+      return { dataType: 'string', facets: { constraints: {} } };
+    }
+
+    return this.readDerivation(restriction, visited);
+  }
+
+  /**
+   * restriction/extension 해석: 기본 타입의 제약 위에 현재 제약을 덮어씀
+   */
+  private readDerivation(derivation: any, visited: Set<string> = new Set()): ResolvedSimpleType {
+    if (!derivation) {
+      return { dataType: 'string', facets: { constraints: {} } };
+    }
+
+    const base = derivation.simpleType?.[0]
+      ? this.readSimpleType(derivation.simpleType[0], visited)
+      : this.resolveTypeName(derivation.$?.base || 'string', visited);
+    const own = this.readFacets(derivation);
+
+    return {
+      dataType: base.dataType,
+      facets: {
+        ...base.facets,
+        ...this.definedOnly(own),
+        constraints: { ...base.facets.constraints, ...own.constraints }
+      }
+    };
+  }
+
+  /**
+   * restriction 하위 facet 읽기
+   */
+  private readFacets(restriction: any): XsdFacets {
+    const facets: XsdFacets = { constraints: {} };
+    const facetValue = (name: string): string | undefined => restriction[name]?.[0]?.$?.value;
+
+    const length = facetValue('length');
+    const minLength = facetValue('minLength') ?? length;
+    const maxLength = facetValue('maxLength') ?? length;
+
+    if (minLength !== undefined) {
+      facets.minLength = Number(minLength);
+    }
+    if (maxLength !== undefined) {
+      facets.maxLength = Number(maxLength);
+    }
+
+    // 여러 pattern은 XSD에서 OR 관계
+    const patterns: string[] = (restriction.pattern || []).map((pattern: any) => pattern.$?.value).filter(Boolean);
+    if (patterns.length === 1) {
+      facets.pattern = patterns[0];
+    } else if (patterns.length > 1) {
+      facets.pattern = patterns.map(pattern => `(?:${pattern})`).join('|');
+    }
+
+    const enumValues: string[] = (restriction.enumeration || [])
+      .map((enumeration: any) => enumeration.$?.value)
+      .filter((value: any) => value !== undefined);
+    if (enumValues.length > 0) {
+      facets.enumValues = enumValues;
+    }
+
+    Object.entries(NUMERIC_FACETS).forEach(([facet, keyword]) => {
+      const value = facetValue(facet);
+      if (value !== undefined && value !== '' && !isNaN(Number(value))) {
+        facets.constraints[keyword] = Number(value);
+      }
+    });
+
+    return facets;
+  }
+
+  /**
+   * 정의된 facet만 추출 (기본 타입 facet을 undefined로 덮어쓰지 않도록)
+   */
+  private definedOnly(facets: XsdFacets): Partial<XsdFacets> {
+    const result: Partial<XsdFacets> = {};
+    if (facets.minLength !== undefined) {
+      result.minLength = facets.minLength;
+    }
+    if (facets.maxLength !== undefined) {
+      result.maxLength = facets.maxLength;
+    }
+    if (facets.pattern !== undefined) {
+      result.pattern = facets.pattern;
+    }
+    if (facets.enumValues !== undefined) {
+      result.enumValues = facets.enumValues;
+    }
+    return result;
+  }
+
+  /**
+   * facet을 그리드 행에 적용
+   */
+  private applyFacets(row: SchemaGridData, facets: XsdFacets): void {
+    if (facets.minLength !== undefined) {
+      row.minLength = facets.minLength;
+    }
+    if (facets.maxLength !== undefined) {
+      row.maxLength = facets.maxLength;
+    }
+    if (facets.pattern !== undefined) {
+      row.pattern = facets.pattern;
+    }
+    if (facets.enumValues !== undefined) {
+      row.enumValues = facets.enumValues;
+    }
+    if (Object.keys(facets.constraints).length > 0) {
+      row.constraints = JSON.stringify(facets.constraints);
+    }
+  }
+
+  /**
+   * 요소의 complexType 조회 (인라인 또는 이름 참조)
+   */
+  private resolveComplexType(element: any): any | undefined {
+    if (element.complexType && element.complexType[0]) {
+      return element.complexType[0];
+    }
+
+    const typeName = element.$?.type ? this.localName(element.$.type) : undefined;
+    return typeName ? this.complexTypes.get(typeName) : undefined;
+  }
+
+  /**
+   * xs:annotation/xs:documentation 텍스트 추출
+   */
+  private readDocumentation(node: any): string {
+    const documentation = node.annotation?.[0]?.documentation?.[0];
+    if (documentation === undefined) {
+      return '';
+    }
+    return typeof documentation === 'string' ? documentation : documentation._ || '';
+  }
+
+  /**
+   * 접두사를 제거한 로컬 이름 반환 (예: tns:Address -> Address)
+   */
+  private localName(qualifiedName: string): string {
+    const index = qualifiedName.indexOf(':');
+    return index === -1 ? qualifiedName : qualifiedName.substring(index + 1);
+  }
+
+  /**
+   * XSD 내장 타입을 데이터 타입으로 매핑
+   */
+  private mapXSDTypeToDataType(xsdType: string): string {
+    const typeMap: Record<string, string> = {
+      'string': 'string',
+      'normalizedString': 'string',
+      'token': 'string',
+      'anyURI': 'string',
+      'int': 'integer',
+      'integer': 'integer',
+      'long': 'integer',
+      'short': 'integer',
+      'byte': 'integer',
+      'nonNegativeInteger': 'integer',
+      'positiveInteger': 'integer',
+      'unsignedInt': 'integer',
+      'unsignedLong': 'integer',
+      'decimal': 'number',
+      'double': 'number',
+      'float': 'number',
+      'boolean': 'boolean',
+      'date': 'date',
+      'dateTime': 'datetime',
+      'time': 'time'
+    };
+
+    return typeMap[xsdType] || 'string';
+  }
+}
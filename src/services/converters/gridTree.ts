@@ -0,0 +1,193 @@
+/**
+ * 그리드 트리 유틸리티
+ * 평면 그리드 행(path/parentPath)과 중첩 트리 구조 간의 변환을 담당
+ */
+
+import { SchemaGridData } from '../../types/schema';
+
+/**
+ * 그리드 트리 노드
+ */
+export interface GridTreeNode {
+  row: SchemaGridData;
+  path: string;
+  children: GridTreeNode[];
+}
+
+/**
+ * 경로 구분자
+ */
+export const PATH_SEPARATOR = '.';
+
+/**
+ * 경로 조각 안의 구분자를 일반 문자로 표시하는 이스케이프 문자
+ */
+const PATH_ESCAPE = '\\';
+
+/**
+ * 필드명을 경로 조각으로 변환 (구분자와 이스케이프 문자 앞에 \\ 추가)
+ * JSON 키, XML 이름, OpenAPI 속성명에 쓰인 점이 하위 경로로 해석되지 않도록 함
+ */
+export function escapePathSegment(fieldName: string): string {
+  return fieldName.replace(/[\\.]/g, char => `${PATH_ESCAPE}${char}`);
+}
+
+/**
+ * 전체 경로를 이스케이프되지 않은 구분자로 나눠 필드명 목록으로 변환
+ */
+export function splitPath(path: string): string[] {
+  const segments: string[] = [];
+  let segment = '';
+
+  for (let index = 0; index < path.length; index++) {
+    const char = path[index]!;
+    if (char === PATH_ESCAPE && index + 1 < path.length) {
+      segment += path[++index];
+    } else if (char === PATH_SEPARATOR) {
+      segments.push(segment);
+      segment = '';
+    } else {
+      segment += char;
+    }
+  }
+  segments.push(segment);
+
+  return segments;
+}
+
+/**
+ * 부모 경로와 필드명으로 전체 경로 생성
+ */
+export function joinPath(parentPath: string | undefined, fieldName: string): string {
+  const segment = escapePathSegment(fieldName);
+  return parentPath ? `${parentPath}${PATH_SEPARATOR}${segment}` : segment;
+}
+
+/**
+ * 전체 경로에서 부모 경로 추출
+ */
+export function getParentPath(path: string): string | undefined {
+  const segments = splitPath(path);
+  return segments.length > 1 ? segments.slice(0, -1).map(escapePathSegment).join(PATH_SEPARATOR) : undefined;
+}
+
+/**
+ * 행의 전체 경로 계산 (path가 없으면 parentPath + fieldName)
+ */
+export function resolveRowPath(row: SchemaGridData): string {
+  return row.path || joinPath(row.parentPath, row.fieldName);
+}
+
+/**
+ * 하위 행을 가질 수 있는 행인지 확인 (object 또는 object 배열)
+ */
+export function isContainerRow(row: SchemaGridData): boolean {
+  const dataType = (row.dataType || '').toLowerCase();
+  return dataType === 'object' || (dataType === 'array' && (row.itemType || '').toLowerCase() === 'object');
+}
+
+/**
+ * constraints 컬럼 해석 (JSON 또는 "minimum: 1, maxLength: 50" 형식)
+ * expression 키는 필드 값(value)에 대한 식 언어 제약 (예: "expression: value >= minimum")
+ */
+export function parseRowConstraints(row: SchemaGridData): Record<string, any> {
+  const raw = row.constraints?.trim();
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    // 그리드 직접 입력 형식: 다음 "키:" 앞의 쉼표로만 분리 (pattern 내 쉼표 보존)
+    const constraints: Record<string, any> = {};
+    raw.split(/,\s*(?=[A-Za-z]+\s*:)/).forEach(pair => {
+      const separator = pair.indexOf(':');
+      if (separator === -1) {
+        return;
+      }
+      const key = pair.substring(0, separator).trim();
+      const value = pair.substring(separator + 1).trim();
+      constraints[key] = key === 'pattern' || key === 'format' || key === 'expression' || value === '' || isNaN(Number(value))
+        ? value
+        : Number(value);
+    });
+    return constraints;
+  }
+}
+
+/**
+ * 평면 그리드 데이터를 트리로 변환
+ * 부모를 찾을 수 없는 행은 최상위 노드로 취급
+ */
+export function buildGridTree(gridData: SchemaGridData[][]): GridTreeNode[] {
+  const roots: GridTreeNode[] = [];
+  const nodesByPath = new Map<string, GridTreeNode>();
+  const nodes: GridTreeNode[] = [];
+
+  // 1차: 노드 생성 (자식 행이 부모보다 먼저 나와도 연결되도록 분리)
+  gridData.flat().forEach(row => {
+    if (!row || !row.fieldName) {
+      return;
+    }
+
+    const node: GridTreeNode = { row, path: resolveRowPath(row), children: [] };
+    nodes.push(node);
+    nodesByPath.set(node.path, node);
+  });
+
+  // 2차: 부모-자식 연결
+  nodes.forEach(node => {
+    const parentPath = node.row.parentPath ?? getParentPath(node.path);
+    const parent = parentPath ? nodesByPath.get(parentPath) : undefined;
+
+    if (parent && parent !== node) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  return roots;
+}
+
+/**
+ * 공유 타입(typeRef) 정의 수집
+ * 같은 이름의 첫 번째 구조(하위 행이 있는 노드)를 정의로 사용
+ */
+export function collectSharedTypes(
+  nodes: GridTreeNode[],
+  sharedTypes: Map<string, GridTreeNode> = new Map()
+): Map<string, GridTreeNode> {
+  nodes.forEach(node => {
+    const typeRef = node.row.typeRef;
+    if (typeRef && isContainerRow(node.row) && node.children.length > 0 && !sharedTypes.has(typeRef)) {
+      sharedTypes.set(typeRef, node);
+    }
+    collectSharedTypes(node.children, sharedTypes);
+  });
+
+  return sharedTypes;
+}
+
+/**
+ * 행 목록에 경로 정보를 채워 추가하는 헬퍼
+ */
+export function createNestedRow(
+  row: SchemaGridData,
+  parentPath: string | undefined,
+  depth: number
+): SchemaGridData {
+  const nestedRow: SchemaGridData = {
+    ...row,
+    path: joinPath(parentPath, row.fieldName),
+    depth
+  };
+
+  if (parentPath) {
+    nestedRow.parentPath = parentPath;
+  }
+
+  return nestedRow;
+}
@@ -0,0 +1,137 @@
+/**
+ * 스키마 비교 보고서 출력기
+ * 검토 문서나 PR 코멘트에 붙일 수 있도록 Markdown/HTML로 변환
+ */
+
+import { SchemaChange, SchemaChangeType, SchemaDiffReport, SchemaDiffSide } from '../../types/diff';
+import { escapeHtml } from '../../core/utils/validation';
+
+/**
+ * 변경 유형 표시 이름
+ */
+const CHANGE_TYPE_LABELS: Record<SchemaChangeType, string> = {
+  FIELD_ADDED: '필드 추가',
+  FIELD_REMOVED: '필드 삭제',
+  FIELD_RENAMED: '이름 변경',
+  TYPE_CHANGED: '타입 변경',
+  REQUIRED_CHANGED: '필수 여부 변경',
+  CONSTRAINT_TIGHTENED: '제약 강화',
+  CONSTRAINT_LOOSENED: '제약 완화',
+  CONSTRAINT_CHANGED: '제약 변경',
+  DEFAULT_CHANGED: '기본값 변경'
+};
+
+/**
+ * 보고서 출력기 구현체
+ */
+export class SchemaDiffRenderer {
+  /**
+   * Markdown 보고서
+   */
+  toMarkdown(report: SchemaDiffReport): string {
+    const lines = [
+      '# 스키마 변경 보고서',
+      '',
+      `- 이전 스키마: ${this.describeSide(report.source)}`,
+      `- 새 스키마: ${this.describeSide(report.target)}`,
+      `- ${this.describeSummary(report)}`,
+      `- 생성 시각: ${report.generatedAt}`,
+      ''
+    ];
+
+    if (report.changes.length === 0) {
+      lines.push('변경 사항이 없습니다.');
+      return lines.join('\n') + '\n';
+    }
+
+    lines.push('| 호환성 | 변경 유형 | 경로 | 설명 |', '| --- | --- | --- | --- |');
+    report.changes.forEach(change => {
+      lines.push(`| ${[
+        change.severity === 'breaking' ? '**breaking**' : 'non-breaking',
+        CHANGE_TYPE_LABELS[change.type],
+        `\`${change.oldPath ? `${change.oldPath} → ${change.path}` : change.path}\``,
+        this.describeChange(change)
+      ].map(cell => cell.replace(/\|/g, '\\|')).join(' | ')} |`);
+    });
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * 독립 실행 가능한 HTML 보고서
+   */
+  toHTML(report: SchemaDiffReport): string {
+    const rows = report.changes.map(change => `      <tr class="${change.severity}">
+        <td>${change.severity}</td>
+        <td>${escapeHtml(CHANGE_TYPE_LABELS[change.type])}</td>
+        <td><code>${escapeHtml(change.oldPath ? `${change.oldPath} → ${change.path}` : change.path)}</code></td>
+        <td>${escapeHtml(this.describeChange(change))}</td>
+      </tr>`);
+
+    const body = report.changes.length === 0
+      ? '  <p>변경 사항이 없습니다.</p>'
+      : `  <table>
+    <thead>
+      <tr><th>호환성</th><th>변경 유형</th><th>경로</th><th>설명</th></tr>
+    </thead>
+    <tbody>
+${rows.join('\n')}
+    </tbody>
+  </table>`;
+
+    return `<!DOCTYPE html>
+<html lang="ko">
+<head>
+  <meta charset="UTF-8">
+  <title>스키마 변경 보고서</title>
+  <style>
+    body { font-family: sans-serif; margin: 24px; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { border: 1px solid #ddd; padding: 6px 10px; text-align: left; }
+    tr.breaking td:first-child { color: #b00020; font-weight: bold; }
+    tr.non-breaking td:first-child { color: #2e7d32; }
+  </style>
+</head>
+<body>
+  <h1>스키마 변경 보고서</h1>
+  <ul>
+    <li>이전 스키마: ${escapeHtml(this.describeSide(report.source))}</li>
+    <li>새 스키마: ${escapeHtml(this.describeSide(report.target))}</li>
+    <li>${escapeHtml(this.describeSummary(report))}</li>
+    <li>생성 시각: ${escapeHtml(report.generatedAt)}</li>
+  </ul>
+${body}
+</body>
+</html>
+`;
+  }
+
+  private describeSide(side: SchemaDiffSide): string {
+    return `${side.format || 'grid'} (${side.fieldCount}개 필드)`;
+  }
+
+  private describeSummary(report: SchemaDiffReport): string {
+    const { total, breaking, nonBreaking } = report.summary;
+    return `변경 ${total}건 (호환성 깨짐 ${breaking}건, 호환 ${nonBreaking}건)`;
+  }
+
+  /**
+   * 경로 접두어를 뺀 설명과 이전/이후 값
+   */
+  private describeChange(change: SchemaChange): string {
+    const prefix = `${change.oldPath || change.path}: `;
+    const message = change.message.startsWith(prefix) ? change.message.substring(prefix.length) : change.message;
+
+    if (change.constraint && (change.before !== undefined || change.after !== undefined)) {
+      return `${message} (${this.formatValue(change.before)} → ${this.formatValue(change.after)})`;
+    }
+    return message;
+  }
+
+  private formatValue(value: any): string {
+    if (value === undefined) {
+      return '없음';
+    }
+    return Array.isArray(value) ? `[${value.join(', ')}]` : String(value);
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * 식 언어 평가기
+ * 구문 트리를 변수/문서 범위에서 계산하며 문서 객체의 자기 속성만 읽음 (프로토타입 접근 불가)
+ *
+ * - 이름은 변수에서 먼저 찾고 없으면 문서($)의 필드
+ * - 배열의 필드 접근은 항목마다 읽어 목록으로 (XML 반복 요소), 비교는 항목 중 하나라도 만족하면 참
+ * - 산술 연산은 숫자 또는 숫자 문자열만, 피연산자가 비어 있으면 null (?? 로 기본값 지정)
+ * - 문자열 연결은 & 또는 concat(), null은 빈 문자열
+ */
+
+import { ValidationError } from '../../types/errors';
+import { ExpressionScope } from '../../types/expression';
+import { ATTRIBUTE_KEY, isEmptyValue, unwrapText } from '../mapping/mappingPath';
+import { toNumber } from '../mapping/transformFunctions';
+import { ExpressionNode } from './ExpressionParser';
+import { EXPRESSION_FUNCTIONS, ExpressionFunctionContext, toText } from './expressionFunctions';
+
+// 문서에 같은 이름의 자기 속성이 있어도 읽지 않는 이름
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'constructor', 'prototype']);
+
+interface EvaluationContext extends ExpressionFunctionContext {
+  variables: Record<string, any>;
+  document: any;
+}
+
+function hasOwn(target: any, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(target, key) && !BLOCKED_PROPERTIES.has(key);
+}
+
+/**
+ * 참/거짓 판단 (빈 문자열, 0, null, 빈 배열은 거짓)
+ */
+export function isTruthy(value: any): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value && !Number.isNaN(value);
+}
+
+function readMember(target: any, key: string, attribute: boolean): any {
+  if (Array.isArray(target)) {
+    const values = target
+      .map(item => readMember(item, key, attribute))
+      .flatMap(value => (Array.isArray(value) ? value : [value]))
+      .filter(value => value !== undefined);
+    return values;
+  }
+  if (target === null || typeof target !== 'object' || target instanceof Date) {
+    return undefined;
+  }
+
+  const attributes = target[ATTRIBUTE_KEY];
+  if (attribute && attributes && typeof attributes === 'object' && hasOwn(attributes, key)) {
+    return attributes[key];
+  }
+  return hasOwn(target, key) ? target[key] : undefined;
+}
+
+// 경로 결과의 텍스트만 있는 XML 요소를 텍스트 값으로
+function unwrapValue(value: any): any {
+  return Array.isArray(value) ? value.map(unwrapText) : unwrapText(value);
+}
+
+function readIndex(target: any, index: any): any {
+  if (typeof index === 'number') {
+    if (!Array.isArray(target)) {
+      // 반복되지 않은 XML 요소도 [0]으로 읽을 수 있게 함
+      return index === 0 && !isEmptyValue(target) ? target : undefined;
+    }
+    return target[index < 0 ? target.length + index : index];
+  }
+  return readMember(target, toText(index), false);
+}
+
+function isNumeric(value: any): boolean {
+  return typeof value !== 'boolean' && value !== '' && value !== null && value !== undefined
+    && !Array.isArray(value) && !Number.isNaN(Number(value instanceof Date ? value.getTime() : value));
+}
+
+function compareValues(left: any, operator: string, right: any): boolean {
+  if (Array.isArray(left)) {
+    return left.some(item => compareValues(item, operator, right));
+  }
+  if (Array.isArray(right)) {
+    return right.some(item => compareValues(left, operator, item));
+  }
+
+  // 빈 값 비교는 존재 여부로 판단
+  if (isEmptyValue(left) || isEmptyValue(right)) {
+    if (operator === '==') {
+      return isEmptyValue(left) && isEmptyValue(right);
+    }
+    return operator === '!=' ? isEmptyValue(left) !== isEmptyValue(right) : false;
+  }
+
+  const numeric = isNumeric(left) && isNumeric(right);
+  const a = numeric ? Number(left instanceof Date ? left.getTime() : left) : toText(left);
+  const b = numeric ? Number(right instanceof Date ? right.getTime() : right) : toText(right);
+
+  switch (operator) {
+    case '==':
+      return a === b;
+    case '!=':
+      return a !== b;
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    default:
+      return a >= b;
+  }
+}
+
+function arithmetic(left: any, operator: string, right: any): number | null {
+  if (isEmptyValue(left) || isEmptyValue(right)) {
+    return null;
+  }
+  if (!isNumeric(left) || !isNumeric(right)) {
+    throw new ValidationError(
+      `숫자가 아닌 값에는 ${operator} 연산을 사용할 수 없습니다 (문자열 연결은 &): ${toText(isNumeric(left) ? right : left)}`,
+      'expression',
+      operator
+    );
+  }
+
+  const a = toNumber(left);
+  const b = toNumber(right);
+  switch (operator) {
+    case '+':
+      return a + b;
+    case '-':
+      return a - b;
+    case '*':
+      return a * b;
+    default:
+      if (b === 0) {
+        throw new ValidationError('0으로 나눌 수 없습니다', 'expression', operator);
+      }
+      return operator === '/' ? a / b : a % b;
+  }
+}
+
+// 경로 노드는 XML 요소를 감싼 채로 읽어 이어지는 @속성 접근이 가능하게 함
+function readNode(node: ExpressionNode, context: EvaluationContext): any {
+  switch (node.kind) {
+    case 'root':
+      return context.document;
+    case 'identifier':
+      return hasOwn(context.variables, node.name)
+        ? context.variables[node.name]
+        : readMember(context.document, node.name, false);
+    case 'member':
+      return readMember(readNode(node.object, context), node.property, node.attribute);
+    case 'index':
+      return readIndex(readNode(node.object, context), evaluateNode(node.index, context));
+    default:
+      return evaluateNode(node, context);
+  }
+}
+
+function evaluateNode(node: ExpressionNode, context: EvaluationContext): any {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'root':
+    case 'identifier':
+    case 'member':
+    case 'index':
+      return unwrapValue(readNode(node, context));
+    case 'array':
+      return node.items.map(item => evaluateNode(item, context));
+    case 'unary': {
+      const operand = evaluateNode(node.operand, context);
+      if (node.operator === '!') {
+        return !isTruthy(operand);
+      }
+      return isEmptyValue(operand) ? null : -toNumber(operand);
+    }
+    case 'logical': {
+      const left = evaluateNode(node.left, context);
+      switch (node.operator) {
+        case '??':
+          return isEmptyValue(left) || (Array.isArray(left) && left.length === 0) ? evaluateNode(node.right, context) : left;
+        case '&&':
+          return isTruthy(left) && isTruthy(evaluateNode(node.right, context));
+        default:
+          return isTruthy(left) || isTruthy(evaluateNode(node.right, context));
+      }
+    }
+    case 'binary': {
+      const left = evaluateNode(node.left, context);
+      const right = evaluateNode(node.right, context);
+      if (node.operator === '&') {
+        return toText(left) + toText(right);
+      }
+      if (['==', '!=', '<', '<=', '>', '>='].includes(node.operator)) {
+        return compareValues(left, node.operator, right);
+      }
+      return arithmetic(left, node.operator, right);
+    }
+    case 'conditional':
+      return isTruthy(evaluateNode(node.test, context))
+        ? evaluateNode(node.consequent, context)
+        : evaluateNode(node.alternate, context);
+    case 'call': {
+      // if는 선택된 값만 평가해 다른 쪽의 변환 오류를 피함
+      if (node.callee === 'if') {
+        const [test, consequent, alternate] = node.args;
+        return isTruthy(evaluateNode(test!, context)) ? evaluateNode(consequent!, context) : evaluateNode(alternate!, context);
+      }
+      const args = node.args.map(arg => evaluateNode(arg, context));
+      return EXPRESSION_FUNCTIONS[node.callee]!.call(args, context);
+    }
+  }
+}
+
+/**
+ * 구문 트리 평가 (실행 오류는 ValidationError)
+ */
+export function evaluateExpressionNode(node: ExpressionNode, scope: ExpressionScope = {}): any {
+  return evaluateNode(node, {
+    variables: scope.variables || {},
+    document: scope.document,
+    lookupTable: scope.lookupTable,
+    lookupMiss: scope.lookupMiss,
+    now: scope.now || new Date()
+  });
+}
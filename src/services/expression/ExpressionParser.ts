@@ -0,0 +1,378 @@
+/**
+ * 식 언어 파서
+ * 식 문자열을 토큰으로 나눈 뒤 연산자 우선순위에 따라 구문 트리로 변환 (eval/Function 미사용)
+ *
+ * 우선순위 (낮음 → 높음)
+ *   조건 ?:  →  ??  →  || or  →  && and  →  == !=  →  < <= > >=  →  & (문자열 연결)  →  + -  →  * / %  →  ! not -(단항)
+ * 값: 숫자, '문자열', "문자열", true, false, null, [목록], 이름, $(문서 루트), @속성
+ * 접근: a.b, a.@attr, a[0], a['이름'], 함수 호출은 등록된 이름만 허용
+ */
+
+import { ExpressionSyntaxError } from '../../types/errors';
+import { EXPRESSION_FUNCTIONS } from './expressionFunctions';
+
+export type BinaryOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | '&' | '+' | '-' | '*' | '/' | '%';
+export type LogicalOperator = '&&' | '||' | '??';
+
+export type ExpressionNode =
+  | { kind: 'literal'; value: any; position: number }
+  | { kind: 'identifier'; name: string; position: number }
+  | { kind: 'root'; position: number }
+  | { kind: 'member'; object: ExpressionNode; property: string; attribute: boolean; position: number }
+  | { kind: 'index'; object: ExpressionNode; index: ExpressionNode; position: number }
+  | { kind: 'call'; callee: string; args: ExpressionNode[]; position: number }
+  | { kind: 'unary'; operator: '!' | '-'; operand: ExpressionNode; position: number }
+  | { kind: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode; position: number }
+  | { kind: 'logical'; operator: LogicalOperator; left: ExpressionNode; right: ExpressionNode; position: number }
+  | { kind: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode; position: number }
+  | { kind: 'array'; items: ExpressionNode[]; position: number };
+
+type TokenType = 'number' | 'string' | 'name' | 'attribute' | 'operator' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+export const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_DEPTH = 50;
+
+// 길이가 긴 연산자부터 비교
+const OPERATORS = ['??', '||', '&&', '==', '!=', '<=', '>=', '<', '>', '!', '?', ':', '+', '-', '*', '/', '%', '&', '(', ')', '[', ']', ',', '.', '$'];
+const NUMBER_PATTERN = /\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const NAME_PATTERN = /[\p{L}_][\p{L}\p{N}_]*/uy;
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\', "'": "'", '"': '"' };
+
+// 이항 연산자 우선순위 (and/or 키워드 포함)
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '??': 1,
+  '||': 2, or: 2,
+  '&&': 3, and: 3,
+  '==': 4, '!=': 4,
+  '<': 5, '<=': 5, '>': 5, '>=': 5,
+  '&': 6,
+  '+': 7, '-': 7,
+  '*': 8, '/': 8, '%': 8
+};
+
+/**
+ * 문자 위치의 줄/열 계산 (1부터 시작)
+ */
+export function locatePosition(source: string, position: number): { line: number; column: number } {
+  const before = source.substring(0, position).split('\n');
+  return { line: before.length, column: before[before.length - 1]!.length + 1 };
+}
+
+function syntaxError(source: string, message: string, position: number): ExpressionSyntaxError {
+  const { line, column } = locatePosition(source, position);
+  return new ExpressionSyntaxError(`${message} (${line}줄 ${column}열)`, source, position, line, column);
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const char = source[position]!;
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    if (/\d/.test(char)) {
+      NUMBER_PATTERN.lastIndex = position;
+      const value = NUMBER_PATTERN.exec(source)![0];
+      tokens.push({ type: 'number', value, position });
+      position += value.length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const start = position;
+      let value = '';
+      position++;
+      while (position < source.length && source[position] !== char) {
+        if (source[position] === '\\') {
+          const escaped = source[position + 1];
+          if (escaped === 'u' && /^[0-9a-fA-F]{4}$/.test(source.substring(position + 2, position + 6))) {
+            value += String.fromCharCode(parseInt(source.substring(position + 2, position + 6), 16));
+            position += 6;
+            continue;
+          }
+          if (escaped === undefined || ESCAPES[escaped] === undefined) {
+            throw syntaxError(source, '지원하지 않는 이스케이프 문자입니다', position);
+          }
+          value += ESCAPES[escaped];
+          position += 2;
+          continue;
+        }
+        value += source[position];
+        position++;
+      }
+      if (position >= source.length) {
+        throw syntaxError(source, '문자열이 닫히지 않았습니다', start);
+      }
+      tokens.push({ type: 'string', value, position: start });
+      position++;
+      continue;
+    }
+
+    NAME_PATTERN.lastIndex = char === '@' ? position + 1 : position;
+    const name = NAME_PATTERN.exec(source)?.[0];
+    if (char === '@') {
+      if (!name) {
+        throw syntaxError(source, '@ 뒤에 속성 이름이 필요합니다', position);
+      }
+      tokens.push({ type: 'attribute', value: name, position });
+      position += name.length + 1;
+      continue;
+    }
+    if (name) {
+      tokens.push({ type: 'name', value: name, position });
+      position += name.length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(candidate => source.startsWith(candidate, position));
+    if (!operator) {
+      const hint = char === '=' ? ' (같음 비교는 ==)' : '';
+      throw syntaxError(source, `예상하지 못한 문자입니다: '${char}'${hint}`, position);
+    }
+    tokens.push({ type: 'operator', value: operator, position });
+    position += operator.length;
+  }
+
+  tokens.push({ type: 'eof', value: '', position: source.length });
+  return tokens;
+}
+
+class Parser {
+  private tokens: Token[];
+  private index = 0;
+  private depth = 0;
+
+  constructor(private source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): ExpressionNode {
+    const node = this.parseConditional();
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      throw this.unexpected(token);
+    }
+    return node;
+  }
+
+  private parseConditional(): ExpressionNode {
+    this.enter();
+    const test = this.parseBinary(1);
+    let node = test;
+
+    if (this.isOperator('?')) {
+      this.next();
+      const consequent = this.parseConditional();
+      this.expectOperator(':');
+      const alternate = this.parseConditional();
+      node = { kind: 'conditional', test, consequent, alternate, position: test.position };
+    }
+
+    this.depth--;
+    return node;
+  }
+
+  // 우선순위 상승 방식 이항 연산 파싱 (모든 이항 연산자는 왼쪽 결합)
+  private parseBinary(minPrecedence: number): ExpressionNode {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const token = this.peek();
+      const precedence = (token.type === 'operator' || token.type === 'name')
+        && Object.prototype.hasOwnProperty.call(BINARY_PRECEDENCE, token.value)
+        ? BINARY_PRECEDENCE[token.value]
+        : undefined;
+      if (precedence === undefined || precedence < minPrecedence) {
+        return left;
+      }
+
+      this.next();
+      const right = this.parseBinary(precedence + 1);
+      const operator = token.value === 'or' ? '||' : token.value === 'and' ? '&&' : token.value;
+      left = operator === '&&' || operator === '||' || operator === '??'
+        ? { kind: 'logical', operator, left, right, position: token.position }
+        : { kind: 'binary', operator: operator as BinaryOperator, left, right, position: token.position };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (this.isOperator('!') || this.isOperator('-') || (token.type === 'name' && token.value === 'not')) {
+      this.next();
+      this.enter();
+      const operand = this.parseUnary();
+      this.depth--;
+      return { kind: 'unary', operator: token.value === '-' ? '-' : '!', operand, position: token.position };
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(node: ExpressionNode): ExpressionNode {
+    for (;;) {
+      const token = this.peek();
+
+      if (this.isOperator('.')) {
+        this.next();
+        const property = this.next();
+        if (property.type !== 'name' && property.type !== 'attribute') {
+          throw syntaxError(this.source, '. 뒤에 이름이 필요합니다', property.position);
+        }
+        node = { kind: 'member', object: node, property: property.value, attribute: property.type === 'attribute', position: token.position };
+      } else if (this.isOperator('[')) {
+        this.next();
+        const index = this.parseConditional();
+        this.expectOperator(']');
+        node = { kind: 'index', object: node, index, position: token.position };
+      } else if (this.isOperator('(')) {
+        throw syntaxError(this.source, '함수는 이름으로만 호출할 수 있습니다', token.position);
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value), position: token.position };
+      case 'string':
+        return { kind: 'literal', value: token.value, position: token.position };
+      case 'attribute':
+        return { kind: 'member', object: { kind: 'root', position: token.position }, property: token.value, attribute: true, position: token.position };
+      case 'name':
+        return this.parseName(token);
+      case 'operator':
+        if (token.value === '$') {
+          return { kind: 'root', position: token.position };
+        }
+        if (token.value === '(') {
+          const node = this.parseConditional();
+          this.expectOperator(')');
+          return node;
+        }
+        if (token.value === '[') {
+          const items = this.parseList(']');
+          return { kind: 'array', items, position: token.position };
+        }
+        throw this.unexpected(token);
+      default:
+        throw syntaxError(this.source, '식이 완성되지 않았습니다', token.position);
+    }
+  }
+
+  private parseName(token: Token): ExpressionNode {
+    switch (token.value) {
+      case 'true':
+      case 'false':
+        return { kind: 'literal', value: token.value === 'true', position: token.position };
+      case 'null':
+        return { kind: 'literal', value: null, position: token.position };
+    }
+
+    if (!this.isOperator('(')) {
+      return { kind: 'identifier', name: token.value, position: token.position };
+    }
+
+    const definition = Object.prototype.hasOwnProperty.call(EXPRESSION_FUNCTIONS, token.value)
+      ? EXPRESSION_FUNCTIONS[token.value]
+      : undefined;
+    if (!definition) {
+      throw syntaxError(this.source, `알 수 없는 함수입니다: ${token.value}`, token.position);
+    }
+
+    this.next();
+    const args = this.parseList(')');
+    const maxArgs = definition.maxArgs ?? definition.minArgs;
+    if (args.length < definition.minArgs || args.length > maxArgs) {
+      const expected = maxArgs === definition.minArgs
+        ? `${definition.minArgs}개`
+        : maxArgs === Infinity ? `${definition.minArgs}개 이상` : `${definition.minArgs}~${maxArgs}개`;
+      throw syntaxError(this.source, `${token.value} 함수의 인자는 ${expected}여야 합니다`, token.position);
+    }
+    return { kind: 'call', callee: token.value, args, position: token.position };
+  }
+
+  // 쉼표로 구분한 식 목록 (여는 괄호 다음부터 닫는 괄호까지)
+  private parseList(close: string): ExpressionNode[] {
+    const items: ExpressionNode[] = [];
+    if (this.isOperator(close)) {
+      this.next();
+      return items;
+    }
+
+    for (;;) {
+      items.push(this.parseConditional());
+      if (this.isOperator(',')) {
+        this.next();
+        continue;
+      }
+      this.expectOperator(close);
+      return items;
+    }
+  }
+
+  private enter(): void {
+    this.depth++;
+    if (this.depth > MAX_DEPTH) {
+      throw syntaxError(this.source, `식 중첩은 ${MAX_DEPTH}단계까지 허용됩니다`, this.peek().position);
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]!;
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index]!;
+    if (token.type !== 'eof') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private isOperator(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && token.value === value;
+  }
+
+  private expectOperator(value: string): void {
+    const token = this.next();
+    if (token.type !== 'operator' || token.value !== value) {
+      throw token.type === 'eof'
+        ? syntaxError(this.source, `'${value}'가 필요합니다`, token.position)
+        : syntaxError(this.source, `'${value}'가 필요하지만 '${token.value}'가 있습니다`, token.position);
+    }
+  }
+
+  private unexpected(token: Token): ExpressionSyntaxError {
+    return token.type === 'eof'
+      ? syntaxError(this.source, '식이 완성되지 않았습니다', token.position)
+      : syntaxError(this.source, `예상하지 못한 토큰입니다: '${token.value}'`, token.position);
+  }
+}
+
+/**
+ * 식 문자열을 구문 트리로 변환 (문법 오류는 위치를 포함한 ExpressionSyntaxError)
+ */
+export function parseExpression(source: string): ExpressionNode {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw syntaxError(source, `식은 ${MAX_EXPRESSION_LENGTH}자 이하여야 합니다`, MAX_EXPRESSION_LENGTH);
+  }
+  if (!source.trim()) {
+    throw syntaxError(source, '식이 비어 있습니다', 0);
+  }
+  return new Parser(source).parse();
+}
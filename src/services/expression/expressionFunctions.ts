@@ -0,0 +1,183 @@
+/**
+ * 식 언어 내장 함수 목록
+ * 식에서는 여기 등록된 이름만 호출할 수 있으며 모든 함수는 입력 외의 상태를 바꾸지 않음
+ */
+
+import { ValidationError } from '../../types/errors';
+import { formatDate, toBoolean, toNumber } from '../mapping/transformFunctions';
+import { isEmptyValue } from '../mapping/mappingPath';
+
+export interface ExpressionFunctionContext {
+  now: Date;
+  lookupTable?: (name: string) => Record<string, any> | undefined;
+  lookupMiss?: (name: string, key: string) => any;
+}
+
+export interface ExpressionFunction {
+  minArgs: number;
+  // 생략하면 minArgs와 같음, Infinity면 가변 인자
+  maxArgs?: number;
+  call: (args: any[], context: ExpressionFunctionContext) => any;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// 반복 문자열 함수가 만들 수 있는 최대 길이
+const MAX_PAD_LENGTH = 10000;
+// matches 함수 정규식 최대 길이
+const MAX_PATTERN_LENGTH = 200;
+
+/**
+ * 식 결과 값을 문자열로 (없는 값은 빈 문자열, 날짜는 ISO 문자열)
+ */
+export function toText(value: any): string {
+  if (isEmptyValue(value)) {
+    return '';
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toText).join(',');
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * 날짜 값 해석 (Date, ISO 문자열, epoch 밀리초)
+ */
+export function toDate(value: any): Date {
+  const date = value instanceof Date ? value : new Date(typeof value === 'number' ? value : String(value));
+  if (isEmptyValue(value) || Number.isNaN(date.getTime())) {
+    throw new ValidationError(`날짜로 변환할 수 없는 값입니다: ${value}`, 'value', value);
+  }
+  return date;
+}
+
+// 문자열 함수는 값이 없으면 null을 돌려줘 ?? 로 기본값을 줄 수 있게 함
+function text(fn: (value: string, args: any[]) => any): ExpressionFunction['call'] {
+  return ([value, ...rest]) => (value === undefined || value === null ? null : fn(toText(value), rest));
+}
+
+function flatten(args: any[]): any[] {
+  return args.flatMap(arg => (Array.isArray(arg) ? flatten(arg) : [arg])).filter(arg => !isEmptyValue(arg));
+}
+
+function numbers(args: any[]): number[] {
+  return flatten(args).map(arg => toNumber(arg));
+}
+
+function padLength(length: any): number {
+  const number = toNumber(length);
+  if (number > MAX_PAD_LENGTH) {
+    throw new ValidationError(`채울 길이는 ${MAX_PAD_LENGTH} 이하여야 합니다`, 'length', length);
+  }
+  return number;
+}
+
+function lookup([table, key, fallback]: any[], context: ExpressionFunctionContext, hasFallback: boolean): any {
+  const entries = typeof table === 'string' ? context.lookupTable?.(table) : table;
+  if (!entries || typeof entries !== 'object') {
+    throw new ValidationError(`룩업 테이블을 찾을 수 없습니다: ${typeof table === 'string' ? table : toText(table)}`, 'table', table);
+  }
+
+  const code = toText(key);
+  if (Array.isArray(entries)) {
+    // [{ key, value }] 형태 목록
+    const entry = entries.find(item => item && toText(item.key) === code);
+    if (entry) {
+      return entry.value;
+    }
+  } else if (Object.prototype.hasOwnProperty.call(entries, code)) {
+    return entries[code];
+  }
+  if (hasFallback) {
+    return fallback;
+  }
+  return typeof table === 'string' && context.lookupMiss ? context.lookupMiss(table, code) : null;
+}
+
+export const EXPRESSION_FUNCTIONS: Record<string, ExpressionFunction> = {
+  // 문자열
+  upper: { minArgs: 1, call: text(value => value.toUpperCase()) },
+  lower: { minArgs: 1, call: text(value => value.toLowerCase()) },
+  trim: { minArgs: 1, call: text(value => value.trim()) },
+  // substring(문자열, 시작, 끝?)
+  substring: {
+    minArgs: 2,
+    maxArgs: 3,
+    call: text((value, [start, end]) => value.substring(toNumber(start), end === undefined ? undefined : toNumber(end)))
+  },
+  // replace(문자열, 찾을 문자열, 바꿀 문자열): 정규식이 아닌 문자열 그대로 모두 바꿈
+  replace: { minArgs: 3, call: text((value, [search, replacement]) => value.split(toText(search)).join(toText(replacement))) },
+  padStart: { minArgs: 2, maxArgs: 3, call: text((value, [length, char = ' ']) => value.padStart(padLength(length), toText(char))) },
+  padEnd: { minArgs: 2, maxArgs: 3, call: text((value, [length, char = ' ']) => value.padEnd(padLength(length), toText(char))) },
+  startsWith: { minArgs: 2, call: ([value, search]) => toText(value).startsWith(toText(search)) },
+  endsWith: { minArgs: 2, call: ([value, search]) => toText(value).endsWith(toText(search)) },
+  // 배열이면 항목 포함 여부, 그 외에는 부분 문자열 여부
+  contains: {
+    minArgs: 2,
+    call: ([value, search]) => Array.isArray(value)
+      ? value.some(item => toText(item) === toText(search))
+      : toText(value).includes(toText(search))
+  },
+  matches: {
+    minArgs: 2,
+    call: ([value, pattern]) => {
+      const source = toText(pattern);
+      if (source.length > MAX_PATTERN_LENGTH) {
+        throw new ValidationError(`정규식은 ${MAX_PATTERN_LENGTH}자 이하여야 합니다`, 'pattern', source);
+      }
+      return new RegExp(source).test(toText(value));
+    }
+  },
+  split: { minArgs: 2, call: text((value, [separator]) => value.split(toText(separator))) },
+  join: { minArgs: 1, maxArgs: 2, call: ([values, separator = '']) => flatten([values]).map(toText).join(toText(separator)) },
+  concat: { minArgs: 1, maxArgs: Infinity, call: args => flatten(args).map(toText).join('') },
+  // 문자열 길이 또는 배열 항목 수
+  length: { minArgs: 1, call: ([value]) => (Array.isArray(value) ? value.length : toText(value).length) },
+
+  // 숫자
+  number: { minArgs: 1, call: ([value]) => (isEmptyValue(value) ? null : toNumber(value)) },
+  integer: { minArgs: 1, call: ([value]) => (isEmptyValue(value) ? null : Math.trunc(toNumber(value))) },
+  round: {
+    minArgs: 1,
+    maxArgs: 2,
+    call: ([value, digits = 0]) => {
+      const factor = 10 ** toNumber(digits);
+      return Math.round(toNumber(value) * factor) / factor;
+    }
+  },
+  floor: { minArgs: 1, call: ([value]) => Math.floor(toNumber(value)) },
+  ceil: { minArgs: 1, call: ([value]) => Math.ceil(toNumber(value)) },
+  abs: { minArgs: 1, call: ([value]) => Math.abs(toNumber(value)) },
+  min: { minArgs: 1, maxArgs: Infinity, call: args => (numbers(args).length ? Math.min(...numbers(args)) : null) },
+  max: { minArgs: 1, maxArgs: Infinity, call: args => (numbers(args).length ? Math.max(...numbers(args)) : null) },
+  sum: { minArgs: 1, maxArgs: Infinity, call: args => numbers(args).reduce((total, number) => total + number, 0) },
+  // 값이 있는 항목 수
+  count: { minArgs: 1, call: ([value]) => flatten([value]).length },
+
+  // 날짜 (UTC 기준)
+  now: { minArgs: 0, call: (_args, context) => new Date(context.now.getTime()) },
+  today: { minArgs: 0, call: (_args, context) => formatDate(context.now, 'YYYY-MM-DD') },
+  date: { minArgs: 1, call: ([value]) => (isEmptyValue(value) ? null : toDate(value)) },
+  // formatDate(날짜, 형식?) 형식 토큰은 YYYY, MM, DD, HH, mm, ss
+  formatDate: {
+    minArgs: 1,
+    maxArgs: 2,
+    call: ([value, format = 'YYYY-MM-DD']) => (isEmptyValue(value) ? null : formatDate(toDate(value), toText(format)))
+  },
+  addDays: { minArgs: 2, call: ([value, days]) => new Date(toDate(value).getTime() + toNumber(days) * DAY_MS) },
+  daysBetween: { minArgs: 2, call: ([from, to]) => Math.round((toDate(to).getTime() - toDate(from).getTime()) / DAY_MS) },
+
+  // 조건/값 확인 (if는 평가기에서 선택된 인자만 평가)
+  if: { minArgs: 3, call: ([condition, consequent, alternate]) => (condition ? consequent : alternate) },
+  coalesce: { minArgs: 1, maxArgs: Infinity, call: args => args.find(arg => !isEmptyValue(arg)) ?? null },
+  isEmpty: { minArgs: 1, call: ([value]) => (Array.isArray(value) ? value.length === 0 : isEmptyValue(value)) },
+  exists: { minArgs: 1, call: ([value]) => (Array.isArray(value) ? value.length > 0 : !isEmptyValue(value)) },
+  string: { minArgs: 1, call: ([value]) => toText(value) },
+  boolean: { minArgs: 1, call: ([value]) => (isEmptyValue(value) ? null : toBoolean(value)) },
+
+  // lookup(테이블 또는 테이블 이름, 키, 기본값?) 키가 없으면 기본값, 기본값도 없으면 null
+  // (이름으로 찾은 관리 테이블은 기본값 인자가 없으면 테이블의 없는 값 정책을 따름)
+  lookup: { minArgs: 2, maxArgs: 3, call: (args, context) => lookup(args, context, args.length > 2) }
+};
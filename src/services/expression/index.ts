@@ -0,0 +1,78 @@
+/**
+ * 식 언어 진입점
+ * 매핑 규칙 condition/transformation/검증식과 그리드 제약 조건에서 같은 식 언어를 사용
+ */
+
+import { ExpressionSyntaxError } from '../../types/errors';
+import { ExpressionDiagnostic, ExpressionScope } from '../../types/expression';
+import { evaluateExpressionNode, isTruthy } from './ExpressionEvaluator';
+import { ExpressionNode, parseExpression } from './ExpressionParser';
+
+export { parseExpression, locatePosition, MAX_EXPRESSION_LENGTH } from './ExpressionParser';
+export type { ExpressionNode } from './ExpressionParser';
+export { isTruthy } from './ExpressionEvaluator';
+export { EXPRESSION_FUNCTIONS } from './expressionFunctions';
+
+export interface CompiledExpression {
+  source: string;
+  ast: ExpressionNode;
+  evaluate(scope?: ExpressionScope): any;
+  // 결과를 참/거짓으로
+  test(scope?: ExpressionScope): boolean;
+}
+
+// 규칙마다 같은 식을 반복 평가하므로 파싱 결과를 재사용
+const MAX_CACHE_SIZE = 500;
+const cache = new Map<string, CompiledExpression>();
+
+/**
+ * 식 컴파일 (문법 오류는 ExpressionSyntaxError)
+ */
+export function compileExpression(source: string): CompiledExpression {
+  const cached = cache.get(source);
+  if (cached) {
+    return cached;
+  }
+
+  const ast = parseExpression(source);
+  const compiled: CompiledExpression = {
+    source,
+    ast,
+    evaluate: scope => evaluateExpressionNode(ast, scope),
+    test: scope => isTruthy(evaluateExpressionNode(ast, scope))
+  };
+
+  if (cache.size >= MAX_CACHE_SIZE) {
+    cache.delete(cache.keys().next().value!);
+  }
+  cache.set(source, compiled);
+  return compiled;
+}
+
+/**
+ * 식 문법 확인 (오류가 없으면 undefined)
+ */
+export function validateExpression(source: string): ExpressionDiagnostic | undefined {
+  try {
+    compileExpression(source);
+    return undefined;
+  } catch (error) {
+    if (error instanceof ExpressionSyntaxError) {
+      return {
+        expression: source,
+        message: error.message,
+        position: error.position,
+        line: error.line,
+        column: error.column
+      };
+    }
+    throw error;
+  }
+}
+
+/**
+ * 식을 한 번 평가
+ */
+export function evaluateExpression(source: string, scope?: ExpressionScope): any {
+  return compileExpression(source).evaluate(scope);
+}
@@ -0,0 +1,156 @@
+/**
+ * 필드 사용처 색인
+ * 저장된 스키마의 그리드 필드와 메시지 매핑 규칙(sourcePath/targetPath, 조건/변환 식)을 필드 이름 기준으로 모음
+ */
+
+import { Schema } from '../../types/schema';
+import { MappingFieldUsage, MappingUsageLocation, SchemaFieldUsage } from '../../types/impact';
+import { AdvancedMappingRule, TransformationRule } from '../messageMappingService';
+import { resolveRowPath, splitPath } from '../converters/gridTree';
+import { tokenizeMappingPath } from '../mapping/mappingPath';
+
+export interface MappingRuleSet {
+  mappingId: string;
+  rules: AdvancedMappingRule[];
+  transformations: TransformationRule[];
+}
+
+export interface IndexedMappingUsage extends MappingFieldUsage {
+  // 경로 참조는 경로 조각 이름 목록, 식 참조는 없음
+  segments?: string[];
+}
+
+// 조건/변환 식 안의 식별자
+const IDENTIFIER_PATTERN = /[A-Za-z_]\w*/g;
+
+/**
+ * 필드 조회 문자열을 경로 조각 이름 목록으로 변환
+ */
+export function toFieldSegments(field: string): string[] {
+  return splitPath(field).map(segment => segment.trim()).filter(Boolean);
+}
+
+/**
+ * names 안에서 query가 연속으로 나타나는 위치의 마지막 조각 인덱스 목록
+ */
+export function findSegmentMatches(names: string[], query: string[]): number[] {
+  const matches: number[] = [];
+  for (let end = query.length - 1; end < names.length; end++) {
+    const start = end - query.length + 1;
+    if (query.every((segment, offset) => names[start + offset] === segment)) {
+      matches.push(end);
+    }
+  }
+  return matches;
+}
+
+/**
+ * 매핑 경로에서 query와 일치하는 조각의 이름을 바꾼 경로 (@, 접두사, 구분자는 유지)
+ */
+export function renameMappingPath(path: string, query: string[], newName: string): string {
+  const tokens = tokenizeMappingPath(path);
+  const named = tokens.filter(token => token.name !== undefined);
+  const matches = findSegmentMatches(named.map(token => token.name!), query);
+
+  matches.forEach(index => {
+    const token = named[index]!;
+    token.raw = token.raw.slice(0, token.raw.length - token.name!.length) + newName;
+  });
+
+  return tokens.map(token => token.raw).join('');
+}
+
+export class FieldUsageIndex {
+  private schemaFields = new Map<string, SchemaFieldUsage[]>();
+  private mappingUsages = new Map<string, IndexedMappingUsage[]>();
+
+  constructor(schemas: Schema[], ruleSets: MappingRuleSet[]) {
+    schemas.forEach(schema => this.addSchema(schema));
+    ruleSets.forEach(ruleSet => this.addRuleSet(ruleSet));
+  }
+
+  /**
+   * 경로 끝부분이 필드 조회 조건과 일치하는 스키마 필드
+   */
+  findSchemaFields(field: string, schemaId?: string): SchemaFieldUsage[] {
+    const query = toFieldSegments(field);
+    const candidates = this.schemaFields.get(query[query.length - 1] || '') || [];
+
+    return candidates.filter(usage => {
+      if (schemaId && usage.schemaId !== schemaId) {
+        return false;
+      }
+      const segments = toFieldSegments(usage.path);
+      return findSegmentMatches(segments, query).includes(segments.length - 1);
+    });
+  }
+
+  /**
+   * 필드를 경로 또는 식에서 참조하는 매핑 규칙
+   * 경로는 중간 조각까지 비교 (부모 필드가 바뀌어도 하위 경로가 깨지므로)
+   */
+  findMappingUsages(field: string): IndexedMappingUsage[] {
+    const query = toFieldSegments(field);
+    const candidates = this.mappingUsages.get(query[query.length - 1] || '') || [];
+
+    return candidates.filter(usage =>
+      !usage.segments || findSegmentMatches(usage.segments, query).length > 0
+    );
+  }
+
+  private addSchema(schema: Schema): void {
+    for (const rowGroup of schema.gridData || []) {
+      const row = rowGroup[0];
+      if (!row?.fieldName) {
+        continue;
+      }
+      this.add(this.schemaFields, row.fieldName, {
+        schemaId: schema.id,
+        schemaName: schema.name,
+        path: resolveRowPath(row),
+        dataType: row.dataType,
+        itemType: row.itemType
+      });
+    }
+  }
+
+  private addRuleSet({ mappingId, rules, transformations }: MappingRuleSet): void {
+    for (const rule of rules) {
+      this.addPath(mappingId, rule.id, 'sourcePath', rule.sourcePath);
+      this.addPath(mappingId, rule.id, 'targetPath', rule.targetPath);
+      this.addExpression(mappingId, rule.id, 'condition', rule.condition);
+      this.addExpression(mappingId, rule.id, 'transformation', rule.transformation);
+    }
+    for (const transformation of transformations) {
+      this.addExpression(mappingId, transformation.id, 'transformationRule', transformation.function);
+    }
+  }
+
+  private addPath(mappingId: string, ruleId: string, location: MappingUsageLocation, path: string | undefined): void {
+    if (!path) {
+      return;
+    }
+    const segments = tokenizeMappingPath(path)
+      .filter(token => token.name !== undefined)
+      .map(token => token.name!);
+
+    new Set(segments).forEach(name => {
+      this.add(this.mappingUsages, name, { mappingId, ruleId, location, expression: path, segments });
+    });
+  }
+
+  private addExpression(mappingId: string, ruleId: string, location: MappingUsageLocation, expression: string | undefined): void {
+    if (!expression) {
+      return;
+    }
+    new Set(expression.match(IDENTIFIER_PATTERN) || []).forEach(name => {
+      this.add(this.mappingUsages, name, { mappingId, ruleId, location, expression });
+    });
+  }
+
+  private add<T>(index: Map<string, T[]>, key: string, value: T): void {
+    const entries = index.get(key) || [];
+    entries.push(value);
+    index.set(key, entries);
+  }
+}
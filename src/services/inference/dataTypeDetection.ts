@@ -0,0 +1,57 @@
+/**
+ * 값 목록 기반 데이터 타입 감지
+ * 그리드 컬럼 자동 감지와 인스턴스 문서 스키마 추론에서 공통으로 사용
+ */
+
+import { DataType } from '../../types/grid';
+
+/**
+ * 기본 표본 크기 (그리드 컬럼 자동 감지)
+ */
+const DEFAULT_SAMPLE_SIZE = 10;
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * 값 목록의 데이터 타입 감지 (앞에서부터 sampleSize개만 검사)
+ */
+export function detectDataType(values: any[], sampleSize: number = DEFAULT_SAMPLE_SIZE): DataType {
+  const samples = values.slice(0, Math.min(values.length, sampleSize));
+
+  // 불린 타입 체크
+  if (samples.every(val => typeof val === 'boolean' || ['true', 'false', '1', '0'].includes(String(val).toLowerCase()))) {
+    return DataType.BOOLEAN;
+  }
+
+  // 숫자 타입 체크
+  if (samples.every(val => !isNaN(Number(val)) && isFinite(Number(val)))) {
+    return DataType.NUMBER;
+  }
+
+  // 날짜 타입 체크
+  if (samples.every(val => !isNaN(Date.parse(String(val))))) {
+    return DataType.DATE;
+  }
+
+  // 이메일 타입 체크
+  if (samples.every(val => EMAIL_REGEX.test(String(val)))) {
+    return DataType.EMAIL;
+  }
+
+  // URL 타입 체크
+  if (samples.every(val => isURL(String(val)))) {
+    return DataType.URL;
+  }
+
+  // 기본값: 텍스트
+  return DataType.TEXT;
+}
+
+function isURL(value: string): boolean {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
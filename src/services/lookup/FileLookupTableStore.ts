@@ -0,0 +1,65 @@
+/**
+ * 파일 시스템 기반 룩업 테이블 저장소 (기본 어댑터)
+ * 테이블마다 <이름>.json 파일에 모든 버전을 저장하며 임시 파일에 쓴 뒤 이름을 바꿔 부분 기록을 방지
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { LookupTableRecord, LookupTableStore } from '../../types/lookup';
+import { Logger } from '../../core/logging/Logger';
+import { writeJsonAtomic } from '../../core/utils/fileUtils';
+import { deserializeLookupRecord } from './lookupRecord';
+
+export class FileLookupTableStore implements LookupTableStore {
+  private logger: Logger;
+
+  constructor(private readonly directory: string) {
+    this.logger = Logger.getInstance();
+  }
+
+  async loadAll(): Promise<LookupTableRecord[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const records: LookupTableRecord[] = [];
+    for (const entry of entries.filter(name => name.endsWith('.json'))) {
+      try {
+        records.push(deserializeLookupRecord(await fs.readFile(path.join(this.directory, entry), 'utf-8')));
+      } catch (error) {
+        // 손상된 파일 하나 때문에 서비스 시작이 실패하지 않도록 건너뜀
+        this.logger.warn('룩업 테이블 파일을 읽을 수 없어 건너뜀', {
+          file: entry,
+          error: error instanceof Error ? error.message : '알 수 없는 오류'
+        });
+      }
+    }
+    return records;
+  }
+
+  async save(record: LookupTableRecord): Promise<void> {
+    await writeJsonAtomic(this.filePath(record.name), record);
+  }
+
+  async delete(name: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.filePath(name));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private filePath(name: string): string {
+    return path.join(this.directory, `${encodeURIComponent(name)}.json`);
+  }
+}
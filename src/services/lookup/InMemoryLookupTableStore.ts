@@ -0,0 +1,22 @@
+/**
+ * 메모리 기반 룩업 테이블 저장소 (테스트 및 임시 실행용, 재시작하면 초기화)
+ */
+
+import { LookupTableRecord, LookupTableStore } from '../../types/lookup';
+import { cloneLookupRecord } from './lookupRecord';
+
+export class InMemoryLookupTableStore implements LookupTableStore {
+  private records = new Map<string, LookupTableRecord>();
+
+  async loadAll(): Promise<LookupTableRecord[]> {
+    return Array.from(this.records.values()).map(cloneLookupRecord);
+  }
+
+  async save(record: LookupTableRecord): Promise<void> {
+    this.records.set(record.name, cloneLookupRecord(record));
+  }
+
+  async delete(name: string): Promise<boolean> {
+    return this.records.delete(name);
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * 룩업 테이블 저장소 어댑터 생성
+ */
+
+import path from 'path';
+import { LookupTableStore } from '../../types/lookup';
+import { ConfigManager } from '../../core/config/ConfigManager';
+import { FileLookupTableStore } from './FileLookupTableStore';
+import { InMemoryLookupTableStore } from './InMemoryLookupTableStore';
+
+export { FileLookupTableStore } from './FileLookupTableStore';
+export { InMemoryLookupTableStore } from './InMemoryLookupTableStore';
+
+/**
+ * 환경 설정(LOOKUP_STORAGE_DRIVER, LOOKUP_STORAGE_DIR)에 맞는 저장소 생성
+ */
+export function createLookupTableStore(): LookupTableStore {
+  const { driver, directory } = ConfigManager.getInstance().getLookupStorageConfig();
+
+  if (driver === 'memory') {
+    return new InMemoryLookupTableStore();
+  }
+  return new FileLookupTableStore(path.resolve(process.cwd(), directory));
+}
@@ -0,0 +1,44 @@
+/**
+ * 룩업 테이블 레코드 직렬화 (저장소 어댑터 공통)
+ */
+
+import { LookupTableRecord } from '../../types/lookup';
+import { ValidationError } from '../../types/errors';
+
+function toDate(value: unknown, field: string): Date {
+  const date = typeof value === 'string' || typeof value === 'number' || value instanceof Date
+    ? new Date(value)
+    : undefined;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new ValidationError(`${field} 값이 올바른 날짜가 아닙니다`, field, value);
+  }
+  return date;
+}
+
+/**
+ * JSON으로 직렬화된 레코드 복원 (날짜 필드를 Date로 되돌림)
+ */
+export function deserializeLookupRecord(content: string): LookupTableRecord {
+  const raw = JSON.parse(content);
+  if (!raw || typeof raw.name !== 'string' || !Array.isArray(raw.versions) || raw.versions.length === 0) {
+    throw new ValidationError('룩업 테이블 레코드 형식이 올바르지 않습니다', 'record');
+  }
+  return {
+    ...raw,
+    createdAt: toDate(raw.createdAt, 'createdAt'),
+    updatedAt: toDate(raw.updatedAt, 'updatedAt'),
+    versions: raw.versions.map((version: any, index: number) => {
+      if (!version || !Array.isArray(version.entries)) {
+        throw new ValidationError(`versions[${index}].entries 값이 목록이 아닙니다`, 'versions');
+      }
+      return { ...version, createdAt: toDate(version.createdAt, `versions[${index}].createdAt`) };
+    })
+  };
+}
+
+/**
+ * 저장소 밖에서 수정해도 저장된 값에 영향이 없도록 깊은 복사
+ */
+export function cloneLookupRecord(record: LookupTableRecord): LookupTableRecord {
+  return deserializeLookupRecord(JSON.stringify(record));
+}
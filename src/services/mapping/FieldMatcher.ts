@@ -0,0 +1,302 @@
+/**
+ * 필드 매핑 자동 제안
+ * 그리드 모델로 읽은 두 스키마의 말단 필드를 이름/타입/설명 유사도로 비교해 AdvancedMappingRule 후보를 만듦
+ *
+ * - 이름은 camelCase/snake_case/kebab-case를 단어로 나눈 뒤 약어를 풀고 동의어를 대표 단어로 맞춰 비교
+ * - 대상 필드 하나에 원본 필드 하나만 제안 (신뢰도 높은 쌍부터 배정)
+ * - 타입 변환이 필요한 쌍은 dataType 규칙으로 제안
+ */
+
+import { SchemaGridData } from '../../types/schema';
+import { MappingDocumentFormat, MappingSuggestion, MappingSuggestionOptions } from '../../types/mapping';
+import type { AdvancedMappingRule } from '../messageMappingService';
+import { escapePathSegment, isContainerRow, PATH_SEPARATOR, resolveRowPath, splitPath } from '../converters/gridTree';
+
+const DEFAULT_MIN_CONFIDENCE = 0.5;
+// 이름이 이보다 다르면 타입/설명이 같아도 후보로 보지 않음
+const MIN_NAME_SCORE = 0.6;
+
+// 약어 → 단어
+const ABBREVIATIONS: Record<string, string> = {
+  no: 'number', num: 'number', nbr: 'number', qty: 'quantity', amt: 'amount', addr: 'address',
+  desc: 'description', dt: 'date', cust: 'customer', acct: 'account', cd: 'code', nm: 'name',
+  tel: 'phone', msg: 'message', ref: 'reference', seq: 'sequence', cnt: 'count', pct: 'percent',
+  org: 'organization', dept: 'department', emp: 'employee', prod: 'product', ord: 'order',
+  txn: 'transaction', ccy: 'currency', curr: 'currency', yn: 'flag'
+};
+
+// 동의어 묶음 (첫 단어가 대표)
+const SYNONYMS: string[][] = [
+  ['customer', 'client', 'buyer', 'consumer'],
+  ['amount', 'total', 'sum'],
+  ['phone', 'telephone', 'mobile', 'cell'],
+  ['zip', 'zipcode', 'postcode', 'postal'],
+  ['quantity', 'count'],
+  ['id', 'identifier', 'key'],
+  ['email', 'mail'],
+  ['city', 'town'],
+  ['description', 'remark', 'note', 'comment', 'memo'],
+  ['first', 'given'],
+  ['last', 'family', 'surname'],
+  ['vendor', 'supplier', 'seller'],
+  ['product', 'item', 'article'],
+  ['status', 'state'],
+  ['created', 'creation', 'registered']
+];
+
+const STOP_WORDS = new Set(['the', 'of', 'and', 'for', 'to', 'in', 'is', 'or', 'an', 'a', 'by', 'on', 'with']);
+
+// 데이터 타입 분류
+const TYPE_CATEGORIES: Record<string, string> = {
+  string: 'string', text: 'string', email: 'string', url: 'string', uri: 'string', anyuri: 'string', phone: 'string',
+  uuid: 'string', token: 'string', enum: 'string', dropdown: 'string', char: 'string', varchar: 'string',
+  number: 'number', float: 'number', double: 'number', decimal: 'number', currency: 'number', percentage: 'number',
+  integer: 'integer', int: 'integer', long: 'integer', short: 'integer', byte: 'integer', int32: 'integer', int64: 'integer',
+  boolean: 'boolean', bool: 'boolean',
+  date: 'date', datetime: 'date', 'date-time': 'date', time: 'date', timestamp: 'date'
+};
+
+// 원본 타입 → 대상 타입 호환성
+const TYPE_COMPATIBILITY: Record<string, Record<string, number>> = {
+  string: { number: 0.4, integer: 0.4, boolean: 0.4, date: 0.5 },
+  number: { string: 0.7, integer: 0.6 },
+  integer: { string: 0.7, number: 0.9 },
+  boolean: { string: 0.7, integer: 0.3, number: 0.3 },
+  date: { string: 0.7 }
+};
+
+// 대상 타입에 맞추려면 필요한 dataType 변환
+const CONVERSIONS: Record<string, string> = { number: 'number', integer: 'integer', boolean: 'boolean' };
+
+interface MatchField {
+  row: SchemaGridData;
+  mappingPath: string;
+  words: string[];
+  // 부모 필드 이름 단어 (같은 이름 필드 구분용)
+  context: string[];
+  compact: string;
+  type?: string;
+  description: string[];
+}
+
+interface Candidate {
+  source: MatchField;
+  target: MatchField;
+  confidence: number;
+  scores: MappingSuggestion['scores'];
+  reasons: string[];
+}
+
+/**
+ * 이름을 단어로 분리 (customerID → customer, id / order_no → order, no)
+ */
+export function splitFieldName(name: string): string[] {
+  return (name.match(/\p{Lu}+(?!\p{Ll})|\p{Lu}?\p{Ll}+|\p{Lo}+|\p{N}+/gu) || []).map(word => word.toLowerCase());
+}
+
+function dice(left: string[], right: string[]): number {
+  const a = new Set(left);
+  const b = new Set(right);
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  const shared = Array.from(a).filter(word => b.has(word)).length;
+  return (2 * shared) / (a.size + b.size);
+}
+
+function editSimilarity(left: string, right: string): number {
+  const longest = Math.max(left.length, right.length);
+  if (longest === 0) {
+    return 1;
+  }
+
+  let previousRow = Array.from({ length: right.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= left.length; i++) {
+    const currentRow = [i];
+    for (let j = 1; j <= right.length; j++) {
+      currentRow[j] = Math.min(
+        previousRow[j]! + 1,
+        currentRow[j - 1]! + 1,
+        previousRow[j - 1]! + (left[i - 1] === right[j - 1] ? 0 : 1)
+      );
+    }
+    previousRow = currentRow;
+  }
+
+  return 1 - previousRow[right.length]! / longest;
+}
+
+function round(score: number): number {
+  return Math.round(score * 100) / 100;
+}
+
+/**
+ * 필드 매핑 제안기
+ */
+export class FieldMatcher {
+  private canonical = new Map<string, string>();
+
+  constructor(synonyms: string[][] = []) {
+    [...SYNONYMS, ...synonyms].forEach(group => {
+      const words = group.map(word => word.toLowerCase());
+      const head = this.canonical.get(words[0]!) || words[0]!;
+      words.forEach(word => this.canonical.set(word, head));
+    });
+  }
+
+  /**
+   * 원본/대상 그리드의 말단 필드 쌍 중 신뢰도가 기준 이상인 제안 목록 (신뢰도 순)
+   * exclude가 true를 반환하는 쌍과 대상은 제외 (이미 매핑된 대상, 거절한 제안)
+   */
+  suggest(
+    sourceGrid: SchemaGridData[][],
+    targetGrid: SchemaGridData[][],
+    options: MappingSuggestionOptions = {},
+    exclude: (sourcePath: string, targetPath: string) => boolean = () => false
+  ): MappingSuggestion[] {
+    const sources = this.collectFields(sourceGrid, options.sourceFormat || 'json');
+    const targets = this.collectFields(targetGrid, options.targetFormat || 'json');
+    const minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+
+    const candidates: Candidate[] = [];
+    targets.forEach(target => sources.forEach(source => {
+      if (exclude(source.mappingPath, target.mappingPath)) {
+        return;
+      }
+      const candidate = this.score(source, target);
+      if (candidate && candidate.confidence >= minConfidence) {
+        candidates.push(candidate);
+      }
+    }));
+
+    // 신뢰도 높은 쌍부터 원본/대상이 겹치지 않게 배정
+    const usedSources = new Set<MatchField>();
+    const usedTargets = new Set<MatchField>();
+    const suggestions: MappingSuggestion[] = [];
+    candidates
+      .sort((left, right) => right.confidence - left.confidence)
+      .forEach(candidate => {
+        if (usedSources.has(candidate.source) || usedTargets.has(candidate.target)) {
+          return;
+        }
+        usedSources.add(candidate.source);
+        usedTargets.add(candidate.target);
+        suggestions.push(this.toSuggestion(candidate, suggestions.length + 1));
+      });
+
+    return options.limit !== undefined ? suggestions.slice(0, options.limit) : suggestions;
+  }
+
+  /**
+   * 그리드의 말단 필드 (object/object 배열 행 제외)와 매핑 경로
+   */
+  private collectFields(gridData: SchemaGridData[][], format: MappingDocumentFormat): MatchField[] {
+    const rows = gridData.flat().filter(row => row && row.fieldName);
+    const rowsByPath = new Map(rows.map(row => [resolveRowPath(row), row]));
+
+    return rows.filter(row => !isContainerRow(row)).map(row => {
+      const gridPath = splitPath(resolveRowPath(row));
+      // 상위 배열 필드는 [*]로 (반복 항목마다 매핑)
+      const segments = gridPath.map((name, index) => {
+        const ancestorPath = gridPath.slice(0, index + 1).map(escapePathSegment).join(PATH_SEPARATOR);
+        const ancestor = index < gridPath.length - 1 ? rowsByPath.get(ancestorPath) : undefined;
+        return ancestor && (ancestor.dataType || '').toLowerCase() === 'array' ? `${name}[*]` : name;
+      });
+      if (row.isAttribute && format === 'xml') {
+        segments[segments.length - 1] = `@${segments[segments.length - 1]}`;
+      }
+      const mappingPath = format === 'xml' ? `/${segments.join('/')}` : `$.${segments.join('.')}`;
+
+      const words = this.normalizeWords(splitFieldName(row.fieldName));
+      const parent = gridPath.length > 1 ? gridPath[gridPath.length - 2]! : '';
+      return {
+        row,
+        mappingPath,
+        words,
+        context: this.normalizeWords(splitFieldName(parent)),
+        compact: splitFieldName(row.fieldName).join(''),
+        type: TYPE_CATEGORIES[(row.dataType || 'string').toLowerCase()],
+        description: this.normalizeWords(splitFieldName(row.description || '').filter(word => word.length > 1 && !STOP_WORDS.has(word)))
+      };
+    });
+  }
+
+  private normalizeWords(words: string[]): string[] {
+    return words.map(word => {
+      const expanded = ABBREVIATIONS[word] || word;
+      return this.canonical.get(expanded) || expanded;
+    });
+  }
+
+  private score(source: MatchField, target: MatchField): Candidate | undefined {
+    const reasons: string[] = [];
+
+    // 이름: 정규화 단어 일치, 부모 이름까지 붙인 단어 일치(customer.name ↔ customerName), 편집 거리 중 최댓값
+    const exact = source.words.length > 0 && source.words.join(' ') === target.words.join(' ');
+    const qualified = dice([...source.context, ...source.words], [...target.context, ...target.words]);
+    let name = exact ? 1 : Math.max(dice(source.words, target.words), qualified * 0.95, editSimilarity(source.compact, target.compact) * 0.9);
+    if (name < MIN_NAME_SCORE) {
+      return undefined;
+    }
+    // 부모 이름이 비슷하면 가산 (billing.city ↔ invoice.billing.city)
+    name = Math.min(1, name + 0.1 * dice(source.context, target.context));
+
+    if (exact && source.compact === target.compact) {
+      reasons.push(`이름 일치: ${source.row.fieldName} = ${target.row.fieldName}`);
+    } else if (exact) {
+      reasons.push(`이름 정규화/약어/동의어 일치: ${source.row.fieldName} ≈ ${target.row.fieldName}`);
+    } else {
+      reasons.push(`이름 유사: ${source.row.fieldName} ≈ ${target.row.fieldName}`);
+    }
+
+    let type = 0.5;
+    if (source.type && target.type) {
+      type = source.type === target.type ? 1 : TYPE_COMPATIBILITY[source.type]?.[target.type] ?? 0;
+      reasons.push(type === 1 ? `타입 일치: ${target.type}` : `타입 ${type > 0 ? '변환 가능' : '불일치'}: ${source.type} → ${target.type}`);
+    }
+
+    let description: number | undefined;
+    if (source.description.length > 0 && target.description.length > 0) {
+      description = dice(source.description, target.description);
+      if (description >= 0.5) {
+        reasons.push('설명 유사');
+      }
+    }
+
+    const confidence = description === undefined
+      ? name * 0.7 + type * 0.3
+      : name * 0.6 + type * 0.25 + description * 0.15;
+
+    return {
+      source,
+      target,
+      confidence: round(confidence),
+      scores: { name: round(name), type: round(type), ...(description !== undefined ? { description: round(description) } : {}) },
+      reasons
+    };
+  }
+
+  private toSuggestion(candidate: Candidate, index: number): MappingSuggestion {
+    const { source, target } = candidate;
+    const conversion = target.type && source.type !== target.type ? CONVERSIONS[target.type] : undefined;
+    const rule: AdvancedMappingRule = {
+      id: `suggested-${index}`,
+      type: conversion ? 'dataType' : target.row.isAttribute ? 'attribute' : 'element',
+      sourcePath: source.mappingPath,
+      targetPath: target.mappingPath,
+      ...(conversion ? { transformation: conversion } : {}),
+      ...(target.row.required ? { required: true } : {})
+    };
+
+    return {
+      id: `suggestion-${index}`,
+      sourcePath: source.mappingPath,
+      targetPath: target.mappingPath,
+      confidence: candidate.confidence,
+      scores: candidate.scores,
+      reasons: candidate.reasons,
+      rule,
+      status: 'pending'
+    };
+  }
+}
@@ -0,0 +1,318 @@
+/**
+ * JSON 변환 내보내기/가져오기
+ * 메시지 매핑 규칙을 JSON 변환 명세(규칙 원본 + JSONata 식)로 내보내고, 명세를 다시 규칙으로 읽음
+ *
+ * - 명세의 rules/transformations는 저장된 규칙 그대로이므로 가져오면 편집 상태가 그대로 복원됨
+ * - jsonata는 JSON → JSON 실행을 같은 결과로 옮긴 식이며, 옮길 수 없는 규칙은 제외하고 경고로 남김
+ * - 대상 경로의 첫 [*]는 원본 경로의 첫 [*]까지 반복 항목마다 객체/값 하나로 출력
+ */
+
+import { ExpressionSyntaxError, ValidationError } from '../../types/errors';
+import { JsonTransformExportResult, JsonTransformSpec, MappingExportWarning } from '../../types/mapping';
+import type { AdvancedMappingRule, TransformationRule } from '../messageMappingService';
+import { compileExpression } from '../expression';
+import { parseMappingPath, PathSegment } from './mappingPath';
+import { DATA_TYPE_FUNCTIONS, TRANSFORM_FUNCTIONS, TRANSFORMATION_NAMES_PATTERN } from './transformFunctions';
+import { expressionToJsonata, jsonataIsEmpty, jsonataLiteral, segmentsToJsonata, transformToJsonata } from './jsonataTranslation';
+
+export const JSON_TRANSFORM_FORMAT = 'json-transform';
+
+const RULE_TYPES = ['element', 'attribute', 'dataType', 'statement', 'transformation', 'condition'];
+const VALIDATION_TYPES = ['regex', 'range', 'enum', 'custom'];
+// $number()는 숫자가 아닌 문자열에서 오류를 내므로 range 검증 전에 형식부터 확인
+const NUMBER_PATTERN = String.raw`/^\s*-?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?\s*$/`;
+
+// JSONata에서 엔진과 결과가 다를 수 있는 내장 변환
+const APPROXIMATE_TRANSFORMS: Record<string, string> = {
+  trim: 'trim은 $trim()으로 옮겨 값 안쪽의 연속 공백도 하나로 줄입니다',
+  boolean: 'boolean은 true/1/y/yes가 아닌 값을 오류 대신 false로 바꿉니다'
+};
+
+type ValueStep = (input: string) => string;
+
+interface RulePlan {
+  rule: AdvancedMappingRule;
+  source?: PathSegment[];
+  // 반복 출력 안에서 원본 경로 앞부분 중 반복 항목이 차지하는 조각 수
+  groupDepth: number;
+  condition?: string;
+  steps: ValueStep[];
+  validation?: ValueStep;
+}
+
+interface TargetNode {
+  children: Map<string, TargetNode>;
+  // 이 키에 값을 쓰는 규칙 (같은 키에 여러 규칙이면 엔진처럼 마지막 규칙 값)
+  plan?: RulePlan;
+  // [*] 대상이면 반복할 원본 항목 (입력 루트 기준 JSONata 경로)
+  repeat?: string;
+  name: string;
+}
+
+function createNode(name: string, repeat?: string): TargetNode {
+  return { name, children: new Map(), repeat };
+}
+
+/**
+ * JSON 변환 명세 구현체
+ */
+export class JsonTransformExporter {
+  private warnings: MappingExportWarning[] = [];
+
+  /**
+   * 규칙 목록을 JSON 변환 명세로
+   */
+  export(rules: AdvancedMappingRule[], transformations: TransformationRule[] = [], mappingId?: string): JsonTransformExportResult {
+    this.warnings = [];
+    const skippedRules: string[] = [];
+    const root = createNode('');
+
+    for (const rule of rules) {
+      try {
+        this.place(root, this.plan(rule, transformations));
+      } catch (error) {
+        if (!(error instanceof ValidationError) && !(error instanceof ExpressionSyntaxError)) {
+          throw error;
+        }
+        skippedRules.push(rule.id);
+        this.warnings.push({ ruleId: rule.id, message: error.message });
+      }
+    }
+
+    const spec: JsonTransformSpec = {
+      format: JSON_TRANSFORM_FORMAT,
+      version: 1,
+      ...(mappingId ? { mappingId } : {}),
+      rules,
+      transformations,
+      jsonata: this.renderObject(root, false, 0)
+    };
+    return { spec, skippedRules, warnings: this.warnings };
+  }
+
+  /**
+   * 명세를 규칙 목록으로 (형식이 맞지 않으면 ValidationError)
+   */
+  toRules(spec: any): { rules: AdvancedMappingRule[]; transformations: TransformationRule[] } {
+    if (!spec || typeof spec !== 'object' || spec.format !== JSON_TRANSFORM_FORMAT) {
+      throw new ValidationError(`format이 ${JSON_TRANSFORM_FORMAT}인 JSON 변환 명세가 아닙니다`, 'format', spec?.format);
+    }
+    if (spec.version !== 1) {
+      throw new ValidationError(`지원하지 않는 명세 버전입니다: ${spec.version}`, 'version', spec.version);
+    }
+    if (!Array.isArray(spec.rules)) {
+      // JSONata 식만으로는 규칙을 복원할 수 없음
+      throw new ValidationError('명세에 rules 배열이 필요합니다', 'rules');
+    }
+    const transformations = spec.transformations ?? [];
+    if (!Array.isArray(transformations)) {
+      throw new ValidationError('transformations는 배열이어야 합니다', 'transformations');
+    }
+
+    spec.rules.forEach((rule: any, index: number) => {
+      const field = `rules[${index}]`;
+      if (!rule || typeof rule !== 'object' || typeof rule.id !== 'string' || !rule.id) {
+        throw new ValidationError(`${field}: id가 필요합니다`, field);
+      }
+      if (!RULE_TYPES.includes(rule.type)) {
+        throw new ValidationError(`${field}: 지원하지 않는 규칙 타입입니다: ${rule.type}`, `${field}.type`, rule.type);
+      }
+      if (typeof rule.sourcePath !== 'string' || typeof rule.targetPath !== 'string' || !rule.targetPath) {
+        throw new ValidationError(`${field}: sourcePath와 targetPath가 필요합니다`, field);
+      }
+      if (rule.validation !== undefined && !VALIDATION_TYPES.includes(rule.validation?.type)) {
+        throw new ValidationError(`${field}: 지원하지 않는 검증 타입입니다: ${rule.validation?.type}`, `${field}.validation`, rule.validation);
+      }
+    });
+    transformations.forEach((rule: any, index: number) => {
+      if (!rule || typeof rule !== 'object' || typeof rule.id !== 'string' || typeof rule.name !== 'string' || typeof rule.function !== 'string') {
+        throw new ValidationError(`transformations[${index}]: id, name, function이 필요합니다`, `transformations[${index}]`);
+      }
+    });
+
+    return {
+      rules: spec.rules,
+      transformations: transformations.map((rule: any) => ({ description: '', parameters: {}, ...rule }))
+    };
+  }
+
+  /**
+   * 규칙 하나를 JSONata 조각으로 (옮길 수 없으면 ValidationError)
+   */
+  private plan(rule: AdvancedMappingRule, transformations: TransformationRule[]): RulePlan {
+    const plan: RulePlan = { rule, groupDepth: 0, steps: [] };
+
+    if (rule.sourcePath) {
+      plan.source = parseMappingPath(rule.sourcePath);
+      segmentsToJsonata(plan.source, '$$');
+    }
+    if (rule.condition) {
+      plan.condition = expressionToJsonata(compileExpression(rule.condition).ast);
+    }
+    if (rule.transformation) {
+      plan.steps = this.planTransformation(rule, transformations);
+    }
+    if (rule.validation) {
+      plan.validation = this.planValidation(rule);
+    }
+
+    // 옮길 수 없는 함수는 여기서 오류가 나도록 한 번 만들어 봄
+    plan.steps.forEach(step => step('$'));
+    plan.validation?.('$');
+    return plan;
+  }
+
+  private planTransformation(rule: AdvancedMappingRule, transformations: TransformationRule[]): ValueStep[] {
+    const transformation = rule.transformation!;
+    if (rule.type !== 'dataType' && !TRANSFORMATION_NAMES_PATTERN.test(transformation)) {
+      const ast = compileExpression(transformation).ast;
+      return [input => expressionToJsonata(ast, { value: input })];
+    }
+
+    return transformation.split('|').map(name => name.trim()).filter(Boolean).map(name => {
+      if (rule.type === 'dataType' && !DATA_TYPE_FUNCTIONS.includes(name)) {
+        throw new ValidationError(`지원하지 않는 대상 타입입니다: ${name}`, 'transformation', name);
+      }
+
+      const named = transformations.find(candidate => candidate.name === name || candidate.id === name);
+      const functionName = named ? named.function.trim() : name;
+      const parameters = named?.parameters || {};
+
+      if (named && !TRANSFORMATION_NAMES_PATTERN.test(named.function)) {
+        const ast = compileExpression(named.function).ast;
+        return (input: string) => expressionToJsonata(ast, { value: input, parameters });
+      }
+      if (!Object.prototype.hasOwnProperty.call(TRANSFORM_FUNCTIONS, functionName)) {
+        throw new ValidationError(`지원하지 않는 변환입니다: ${functionName}`, 'transformation', functionName);
+      }
+      if (APPROXIMATE_TRANSFORMS[functionName]) {
+        this.warnings.push({ ruleId: rule.id, message: APPROXIMATE_TRANSFORMS[functionName]! });
+      }
+      return (input: string) => transformToJsonata(functionName, parameters, input);
+    });
+  }
+
+  private planValidation(rule: AdvancedMappingRule): ValueStep | undefined {
+    const validation = rule.validation!;
+
+    switch (validation.type) {
+      case 'range':
+        return input => [
+          `($type(${input}) = "number" or $contains($string(${input}), ${NUMBER_PATTERN}))`,
+          ...(validation.min !== undefined ? [`$number(${input}) >= ${validation.min}`] : []),
+          ...(validation.max !== undefined ? [`$number(${input}) <= ${validation.max}`] : [])
+        ].join(' and ');
+      case 'enum':
+        return validation.values ? input => `$string(${input}) in ${jsonataLiteral(validation.values)}` : undefined;
+      case 'custom': {
+        if (!validation.function) {
+          return undefined;
+        }
+        const ast = compileExpression(validation.function).ast;
+        return input => expressionToJsonata(ast, { value: input });
+      }
+      default:
+        if (!validation.pattern) {
+          return undefined;
+        }
+        if (validation.pattern.includes('/')) {
+          throw new ValidationError(`JSONata로 옮길 수 없습니다: 정규식 ${validation.pattern}`, 'jsonata', validation.pattern);
+        }
+        return input => `$contains($string(${input}), /${validation.pattern}/)`;
+    }
+  }
+
+  /**
+   * 대상 경로 위치에 규칙 배치 ([*]는 원본 반복 항목 단위 출력)
+   */
+  private place(root: TargetNode, plan: RulePlan): void {
+    const { rule } = plan;
+    if (!plan.source && rule.defaultValue === undefined) {
+      // 원본도 기본값도 없는 규칙은 값을 쓰지 않음
+      return;
+    }
+    const segments = parseMappingPath(rule.targetPath);
+    if (segments.length === 0) {
+      throw new ValidationError('대상 경로가 비어 있습니다', 'targetPath', rule.targetPath);
+    }
+    if (segments.some(segment => segment.attribute)) {
+      throw new ValidationError(`JSONata로 옮길 수 없습니다: 대상 속성 경로 ${rule.targetPath}`, 'targetPath', rule.targetPath);
+    }
+    if (segments.some(segment => typeof segment.index === 'number')) {
+      throw new ValidationError(`JSONata로 옮길 수 없습니다: 대상 경로 인덱스 ${rule.targetPath}`, 'targetPath', rule.targetPath);
+    }
+
+    const spread = segments.findIndex(segment => segment.index === '*');
+    let node = root;
+
+    segments.forEach((segment, position) => {
+      let key = segment.name;
+      let repeat: string | undefined;
+      if (position === spread && plan.source) {
+        // 원본 경로의 첫 [*]까지 (없으면 원본 값 전체) 반복
+        const group = plan.source.findIndex(item => item.index === '*');
+        plan.groupDepth = group === -1 ? plan.source.length : group + 1;
+        repeat = segmentsToJsonata(plan.source.slice(0, plan.groupDepth), '$$');
+        key = `${segment.name}[*]${repeat}`;
+      }
+
+      if (!node.children.has(key)) {
+        node.children.set(key, createNode(segment.name, repeat));
+      }
+      node = node.children.get(key)!;
+    });
+
+    if (node.children.size > 0) {
+      throw new ValidationError(`JSONata로 옮길 수 없습니다: 하위 필드가 있는 대상 ${rule.targetPath}`, 'targetPath', rule.targetPath);
+    }
+    if (node.plan) {
+      this.warnings.push({ ruleId: node.plan.rule.id, message: `같은 대상(${rule.targetPath})에 쓰는 ${rule.id} 규칙 값으로 대체됩니다` });
+    }
+    node.plan = plan;
+  }
+
+  private renderObject(node: TargetNode, relative: boolean, indent: number): string {
+    const entries = Array.from(node.children.values()).filter(child => child.plan || child.children.size > 0);
+    if (entries.length === 0) {
+      return '{}';
+    }
+
+    const padding = '  '.repeat(indent + 1);
+    const fields = entries.map(child => `${padding}${JSON.stringify(child.name)}: ${this.renderNode(child, relative, indent + 1)}`);
+    return `{\n${fields.join(',\n')}\n${'  '.repeat(indent)}}`;
+  }
+
+  private renderNode(node: TargetNode, relative: boolean, indent: number): string {
+    if (node.repeat) {
+      const body = node.plan ? `(${this.renderValue(node.plan, true)})` : this.renderObject(node, true, indent);
+      return `[${node.repeat}.${body}]`;
+    }
+    return node.plan ? this.renderValue(node.plan, relative) : this.renderObject(node, relative, indent);
+  }
+
+  /**
+   * 규칙 값 식: 조건 → 원본 값(항목마다) 또는 기본값 → 변환 → 검증, 값이 없으면 키 생략
+   */
+  private renderValue(plan: RulePlan, relative: boolean): string {
+    const item = (input: string) => {
+      const value = plan.steps.reduce((current, step) => step(current), input);
+      return plan.validation ? `($r := ${value}; ${plan.validation('$r')} ? $r)` : value;
+    };
+    const defaultValue = plan.rule.defaultValue;
+
+    let value: string;
+    if (!plan.source) {
+      value = item(jsonataLiteral(defaultValue));
+    } else {
+      const source = relative
+        ? segmentsToJsonata(plan.source.slice(plan.groupDepth), '')
+        : segmentsToJsonata(plan.source, '$$');
+      const present = item('$') === '$' ? '$v' : `$v.(${item('$')})`;
+      value = defaultValue === undefined
+        ? `($v := ${source}; $not(${jsonataIsEmpty('$v')}) ? ${present})`
+        : `($v := ${source}; ${jsonataIsEmpty('$v')} ? ${item(jsonataLiteral(defaultValue))} : ${present})`;
+    }
+
+    return plan.condition ? `(${plan.condition} ? ${value})` : value;
+  }
+}
@@ -0,0 +1,376 @@
+/**
+ * 메시지 매핑 실행 엔진
+ * AdvancedMappingRule을 원본 문서에 순서대로 적용해 대상 메시지를 만들고 규칙별 추적 결과를 남김
+ *
+ * 규칙 처리 순서: 조건(condition) → 원본 값 읽기 → 기본값/필수 확인 → 변환 → 검증 → 대상 경로에 쓰기
+ * - attribute 규칙은 XML 대상에서 속성으로 씀 (대상 경로 마지막 조각이 @이름이어도 속성)
+ * - dataType 규칙의 transformation은 대상 타입(string, number, integer, boolean)
+ * - 그 외 transformation은 TransformationRule 이름/ID 또는 내장 변환 이름을 |로 이어서 순서대로 적용하거나,
+ *   이름 목록이 아니면 식 언어로 평가 (value는 원본 값, 그 외 이름은 원본 문서)
+ * - condition과 custom 검증식도 식 언어 (services/expression)
+ * - lookup 변환과 식의 lookup('테이블 이름', key)는 생성자로 받은 룩업 테이블을 이름으로 찾음
+ */
+
+import * as xml2js from 'xml2js';
+import * as yaml from 'js-yaml';
+import { ValidationError } from '../../types/errors';
+import {
+  MappingDocumentFormat,
+  MappingExecutionOptions,
+  MappingExecutionResult,
+  RuleTraceEntry
+} from '../../types/mapping';
+import { ExpressionScope } from '../../types/expression';
+import { LookupMissPolicy, LookupTableResolver } from '../../types/lookup';
+import { Logger } from '../../core/logging/Logger';
+import type { AdvancedMappingRule, TransformationRule, ValidationRule } from '../messageMappingService';
+import {
+  assignPath,
+  ATTRIBUTE_KEY,
+  isEmptyValue,
+  parseMappingPath,
+  resolvePath,
+  TEXT_KEY
+} from './mappingPath';
+import { DATA_TYPE_FUNCTIONS, TRANSFORM_FUNCTIONS, TRANSFORMATION_NAMES_PATTERN } from './transformFunctions';
+import { compileExpression } from '../expression';
+
+interface RuleContext {
+  document: any;
+  transformations: TransformationRule[];
+  xml: boolean;
+}
+
+/**
+ * 매핑 실행 엔진 구현체
+ */
+export class MappingEngine {
+  private logger: Logger;
+  private xmlParser: xml2js.Parser;
+
+  constructor(private lookupTables?: LookupTableResolver) {
+    this.logger = Logger.getInstance();
+    // 매핑 경로는 네임스페이스 접두사 없이 비교하므로 원본 요소/속성 이름의 접두사 제거
+    // 값의 앞뒤 공백도 원본 그대로 전달 (trim 변환으로 제거)
+    this.xmlParser = new xml2js.Parser({
+      explicitArray: false,
+      explicitRoot: true,
+      tagNameProcessors: [xml2js.processors.stripPrefix],
+      attrNameProcessors: [xml2js.processors.stripPrefix],
+      attrkey: ATTRIBUTE_KEY,
+      charkey: TEXT_KEY,
+      trim: false
+    });
+  }
+
+  /**
+   * 원본 문서에 규칙을 적용해 대상 메시지 생성
+   */
+  async execute(
+    source: string | Record<string, any>,
+    rules: AdvancedMappingRule[],
+    transformations: TransformationRule[] = [],
+    options: MappingExecutionOptions = {}
+  ): Promise<MappingExecutionResult> {
+    const startTime = Date.now();
+    const document = typeof source === 'string'
+      ? await this.parseSource(source, options.sourceFormat || this.detectFormat(source))
+      : source;
+    const format = options.targetFormat || 'json';
+    const context: RuleContext = { document, transformations, xml: format === 'xml' };
+
+    const target: Record<string, any> = {};
+    const trace = rules.map(rule => this.applyRule(rule, context, target));
+
+    const count = (status: RuleTraceEntry['status']) => trace.filter(entry => entry.status === status).length;
+    const summary = {
+      total: trace.length,
+      applied: count('applied'),
+      defaulted: count('defaulted'),
+      skipped: count('skipped'),
+      missing: count('missing'),
+      failed: count('failed')
+    };
+
+    const result: MappingExecutionResult = {
+      success: summary.failed === 0,
+      format,
+      output: this.serialize(target, format, options),
+      target,
+      trace,
+      summary,
+      durationMs: Date.now() - startTime
+    };
+
+    this.logger.info('매핑 규칙 실행 완료', { format, ...summary });
+    return result;
+  }
+
+  private applyRule(rule: AdvancedMappingRule, context: RuleContext, target: Record<string, any>): RuleTraceEntry {
+    const entry: RuleTraceEntry = {
+      ruleId: rule.id,
+      type: rule.type,
+      sourcePath: rule.sourcePath,
+      targetPath: rule.targetPath,
+      status: 'applied',
+      transformations: []
+    };
+
+    try {
+      if (rule.condition && !compileExpression(rule.condition).test(this.scope(context))) {
+        return { ...entry, status: 'skipped', message: `조건을 만족하지 않습니다: ${rule.condition}` };
+      }
+
+      let value = rule.sourcePath ? this.readPath(context.document, rule.sourcePath) : undefined;
+      entry.input = value;
+
+      if (Array.isArray(value) ? value.length === 0 : isEmptyValue(value)) {
+        if (rule.defaultValue !== undefined) {
+          value = rule.defaultValue;
+          entry.status = 'defaulted';
+        } else if (rule.required) {
+          return { ...entry, status: 'failed', message: `필수 값이 없습니다: ${rule.sourcePath}` };
+        } else {
+          return { ...entry, status: 'missing', message: `원본 값이 없습니다: ${rule.sourcePath}` };
+        }
+      }
+
+      if (rule.transformation) {
+        value = this.transform(value, rule, context, entry);
+      }
+
+      if (rule.validation) {
+        const failure = this.validate(value, rule.validation, context);
+        if (failure) {
+          return { ...entry, status: 'failed', output: value, message: failure };
+        }
+      }
+
+      const segments = parseMappingPath(rule.targetPath);
+      if (segments.length === 0) {
+        throw new ValidationError('대상 경로가 비어 있습니다', 'targetPath', rule.targetPath);
+      }
+      if (rule.type === 'attribute') {
+        segments[segments.length - 1]!.attribute = true;
+      }
+      assignPath(target, segments, context.xml ? value : this.toPlain(value), context.xml);
+
+      return { ...entry, output: value };
+    } catch (error) {
+      return { ...entry, status: 'failed', message: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * 경로 값 읽기 (배열을 펼친 경로는 값 목록)
+   */
+  private readPath(document: any, path: string): any {
+    const { values, multiple } = resolvePath(document, parseMappingPath(path));
+    return multiple ? values : values[0];
+  }
+
+  /**
+   * transformation 적용 (여러 값이면 값마다 적용)
+   */
+  private transform(value: any, rule: AdvancedMappingRule, context: RuleContext, entry: RuleTraceEntry): any {
+    const transformation = rule.transformation!;
+    if (rule.type !== 'dataType' && !TRANSFORMATION_NAMES_PATTERN.test(transformation)) {
+      const expression = compileExpression(transformation);
+      entry.transformations.push(transformation);
+      return this.mapValues(value, item => expression.evaluate(this.scope(context, { value: item })));
+    }
+
+    const names = transformation.split('|').map(name => name.trim()).filter(Boolean);
+
+    for (const name of names) {
+      if (rule.type === 'dataType' && !DATA_TYPE_FUNCTIONS.includes(name)) {
+        throw new ValidationError(`지원하지 않는 대상 타입입니다: ${name}`, 'transformation', name);
+      }
+
+      const named = context.transformations.find(candidate => candidate.name === name || candidate.id === name);
+      value = named ? this.applyTransformationRule(value, named, context) : this.applyBuiltin(value, name, {});
+      entry.transformations.push(name);
+    }
+
+    return value;
+  }
+
+  /**
+   * TransformationRule 적용 (function이 내장 변환 이름이 아니면 식, parameters는 식 변수)
+   */
+  private applyTransformationRule(value: any, rule: TransformationRule, context: RuleContext): any {
+    const parameters = rule.parameters || {};
+    if (TRANSFORMATION_NAMES_PATTERN.test(rule.function) && !rule.function.includes('|')) {
+      return this.applyBuiltin(value, rule.function.trim(), parameters);
+    }
+
+    const expression = compileExpression(rule.function);
+    return this.mapValues(value, item => expression.evaluate(this.scope(context, { ...parameters, value: item })));
+  }
+
+  private applyBuiltin(value: any, name: string, parameters: Record<string, any>): any {
+    if (name === 'lookup') {
+      return this.mapValues(value, item => this.lookup(item, parameters));
+    }
+    const fn = Object.prototype.hasOwnProperty.call(TRANSFORM_FUNCTIONS, name) ? TRANSFORM_FUNCTIONS[name] : undefined;
+    if (!fn) {
+      throw new ValidationError(`지원하지 않는 변환입니다: ${name}`, 'transformation', name);
+    }
+    return this.mapValues(value, item => fn(item, parameters));
+  }
+
+  /**
+   * 룩업 테이블 변환 (TransformationRule.parameters: { table, version?, onMiss?: 'default' | 'fail', default? })
+   * version, onMiss, default를 생략하면 테이블의 현재 버전과 설정을 사용
+   */
+  private lookup(value: any, { table, version, onMiss, default: fallback }: Record<string, any>): any {
+    if (typeof table !== 'string' || table.trim() === '') {
+      throw new ValidationError('lookup 변환에는 table 파라미터가 필요합니다', 'table', table);
+    }
+    if (onMiss !== undefined && onMiss !== 'default' && onMiss !== 'fail') {
+      throw new ValidationError(`onMiss는 default 또는 fail이어야 합니다: ${onMiss}`, 'onMiss', onMiss);
+    }
+    if (!this.lookupTables) {
+      throw new ValidationError(`룩업 테이블을 찾을 수 없습니다: ${table}`, 'table', table);
+    }
+    return this.lookupTables.resolve(table, value, {
+      version: version === undefined ? undefined : Number(version),
+      missPolicy: onMiss as LookupMissPolicy | undefined,
+      defaultValue: fallback
+    });
+  }
+
+  /**
+   * 식 평가 범위 (원본 문서, 변수, 이름으로 찾는 룩업 테이블)
+   */
+  private scope(context: RuleContext, variables?: Record<string, any>): ExpressionScope {
+    const tables = this.lookupTables;
+    return {
+      document: context.document,
+      variables,
+      ...(tables ? {
+        lookupTable: (name: string) => tables.getEntries(name),
+        lookupMiss: (name: string, key: string) => tables.resolve(name, key)
+      } : {})
+    };
+  }
+
+  private mapValues(value: any, fn: (item: any) => any): any {
+    return Array.isArray(value) ? value.map(fn) : fn(value);
+  }
+
+  /**
+   * 검증 규칙 확인 (실패 사유, 통과하면 undefined)
+   */
+  private validate(value: any, validation: ValidationRule, context: RuleContext): string | undefined {
+    const values = Array.isArray(value) ? value : [value];
+
+    for (const item of values) {
+      switch (validation.type) {
+        case 'regex':
+          if (validation.pattern && !new RegExp(validation.pattern).test(String(item))) {
+            return `패턴과 일치하지 않습니다: ${item}`;
+          }
+          break;
+        case 'range': {
+          const number = Number(item);
+          if (Number.isNaN(number)
+            || (validation.min !== undefined && number < validation.min)
+            || (validation.max !== undefined && number > validation.max)) {
+            return `허용 범위를 벗어났습니다: ${item}`;
+          }
+          break;
+        }
+        case 'enum':
+          if (validation.values && !validation.values.includes(String(item))) {
+            return `허용되지 않는 값입니다: ${item}`;
+          }
+          break;
+        case 'custom':
+          // 검증식에서 value는 검증할 값, 그 외 이름은 원본 문서
+          if (validation.function && !compileExpression(validation.function).test(this.scope(context, { value: item }))) {
+            return `검증식을 만족하지 않습니다: ${validation.function}`;
+          }
+          break;
+      }
+    }
+
+    return undefined;
+  }
+
+  private detectFormat(source: string): MappingDocumentFormat {
+    const trimmed = source.trim();
+    if (trimmed.startsWith('<')) {
+      return 'xml';
+    }
+    return trimmed.startsWith('{') || trimmed.startsWith('[') ? 'json' : 'yaml';
+  }
+
+  private async parseSource(source: string, format: MappingDocumentFormat): Promise<any> {
+    try {
+      switch (format) {
+        case 'xml':
+          return await this.xmlParser.parseStringPromise(source);
+        case 'yaml':
+          return yaml.load(source);
+        default:
+          return JSON.parse(source);
+      }
+    } catch (error) {
+      throw new ValidationError(
+        `원본 ${format.toUpperCase()} 문서를 해석할 수 없습니다: ${error instanceof Error ? error.message : String(error)}`,
+        'source',
+        format
+      );
+    }
+  }
+
+  /**
+   * XML 원본의 요소 객체를 JSON/YAML 대상용 일반 객체로 변환 ($ 속성은 필드로, 텍스트는 #text)
+   */
+  private toPlain(value: any): any {
+    if (Array.isArray(value)) {
+      return value.map(item => this.toPlain(item));
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+
+    const plain: Record<string, any> = { ...(value[ATTRIBUTE_KEY] || {}) };
+    Object.entries(value).forEach(([key, child]) => {
+      if (key === TEXT_KEY) {
+        plain['#text'] = child;
+      } else if (key !== ATTRIBUTE_KEY) {
+        plain[key] = this.toPlain(child);
+      }
+    });
+    return plain;
+  }
+
+  private serialize(target: Record<string, any>, format: MappingDocumentFormat, options: MappingExecutionOptions): string {
+    switch (format) {
+      case 'xml': {
+        const keys = Object.keys(target);
+        // 최상위 요소가 하나면 그대로 루트로, 아니면 rootElement로 감쌈
+        const rootName = keys.length === 1 && !options.rootElement ? keys[0]! : options.rootElement || 'root';
+        const root = keys.length === 1 && rootName === keys[0] ? target[rootName] : target;
+        const rootNode = root && typeof root === 'object' ? { ...root } : { [TEXT_KEY]: root };
+        if (options.namespace) {
+          rootNode[ATTRIBUTE_KEY] = { xmlns: options.namespace, ...(rootNode[ATTRIBUTE_KEY] || {}) };
+        }
+
+        const builder = new xml2js.Builder({
+          xmldec: { version: '1.0', encoding: options.encoding || 'UTF-8' },
+          renderOpts: { pretty: true, indent: '  ' },
+          attrkey: ATTRIBUTE_KEY,
+          charkey: TEXT_KEY
+        });
+        return builder.buildObject({ [rootName]: rootNode });
+      }
+      case 'yaml':
+        return yaml.dump(target, { indent: 2, lineWidth: 120 });
+      default:
+        return JSON.stringify(target, null, 2);
+    }
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * 매핑 테스트 케이스 실행기
+ * 케이스마다 입력 문서에 매핑 규칙을 실행하고 기대 출력/기대 규칙 실패와 비교해 차이를 구조화해 보고함
+ *
+ * - 출력 비교는 직렬화된 결과를 대상 형식으로 다시 읽어서 함 (XML은 루트 요소와 속성까지 비교)
+ * - 기대 출력이 문자열이면 같은 방식으로 읽고, 객체면 그대로 비교
+ * - expectedErrors를 생략한 케이스는 실패한 규칙이 없어야 통과
+ */
+
+import * as xml2js from 'xml2js';
+import * as yaml from 'js-yaml';
+import { isDeepStrictEqual } from 'util';
+import {
+  MappingDocumentFormat,
+  MappingExecutionOptions,
+  MappingExecutionResult,
+  MappingTestCase,
+  MappingTestCaseResult,
+  MappingTestDifference,
+  MappingTestExpectedError,
+  MappingTestRuleFailure,
+  MappingTestRunResult
+} from '../../types/mapping';
+import type { AdvancedMappingRule, TransformationRule } from '../messageMappingService';
+import { MappingEngine } from './MappingEngine';
+import { ATTRIBUTE_KEY, TEXT_KEY } from './mappingPath';
+
+export class MappingTestRunner {
+  constructor(private engine: MappingEngine = new MappingEngine()) {}
+
+  /**
+   * 케이스를 순서대로 실행 (한 케이스가 실패해도 나머지는 계속 실행)
+   */
+  async run(
+    mappingId: string,
+    cases: MappingTestCase[],
+    rules: AdvancedMappingRule[],
+    transformations: TransformationRule[] = [],
+    options: MappingExecutionOptions = {}
+  ): Promise<MappingTestRunResult> {
+    const startTime = Date.now();
+    const results: MappingTestCaseResult[] = [];
+    for (const testCase of cases) {
+      results.push(await this.runCase(testCase, rules, transformations, options));
+    }
+
+    const passed = results.filter(result => result.passed).length;
+    return {
+      mappingId,
+      total: results.length,
+      passed,
+      failed: results.length - passed,
+      results,
+      durationMs: Date.now() - startTime
+    };
+  }
+
+  async runCase(
+    testCase: MappingTestCase,
+    rules: AdvancedMappingRule[],
+    transformations: TransformationRule[] = [],
+    options: MappingExecutionOptions = {}
+  ): Promise<MappingTestCaseResult> {
+    const startTime = Date.now();
+    const result: MappingTestCaseResult = {
+      caseId: testCase.id,
+      name: testCase.name,
+      passed: false,
+      differences: [],
+      missingErrors: [],
+      unexpectedErrors: [],
+      durationMs: 0
+    };
+
+    let execution: MappingExecutionResult;
+    try {
+      execution = await this.engine.execute(testCase.input, rules, transformations, {
+        ...options,
+        sourceFormat: testCase.sourceFormat || options.sourceFormat,
+        targetFormat: testCase.targetFormat || options.targetFormat
+      });
+    } catch (error) {
+      return { ...result, error: this.errorMessage(error), durationMs: Date.now() - startTime };
+    }
+    result.output = execution.output;
+
+    const failures: MappingTestRuleFailure[] = execution.trace
+      .filter(entry => entry.status === 'failed')
+      .map(entry => ({ ruleId: entry.ruleId, ...(entry.message ? { message: entry.message } : {}) }));
+    const expectedErrors = testCase.expectedErrors || [];
+    result.missingErrors = expectedErrors.filter(expected => !failures.some(failure => this.matchesError(expected, failure)));
+    result.unexpectedErrors = failures.filter(failure => !expectedErrors.some(expected => this.matchesError(expected, failure)));
+
+    if (testCase.expectedOutput !== undefined) {
+      try {
+        const actual = await this.readDocument(execution.output, execution.format);
+        const expected = typeof testCase.expectedOutput === 'string'
+          ? await this.readDocument(testCase.expectedOutput, execution.format)
+          : testCase.expectedOutput;
+        this.diff(expected, actual, execution.format === 'xml' ? '' : '$', execution.format, result.differences);
+      } catch (error) {
+        result.error = `기대 출력을 ${execution.format.toUpperCase()} 문서로 해석할 수 없습니다: ${this.errorMessage(error)}`;
+      }
+    }
+
+    result.passed = !result.error
+      && result.differences.length === 0
+      && result.missingErrors.length === 0
+      && result.unexpectedErrors.length === 0;
+    result.durationMs = Date.now() - startTime;
+    return result;
+  }
+
+  private matchesError(expected: MappingTestExpectedError, failure: MappingTestRuleFailure): boolean {
+    return (!expected.ruleId || expected.ruleId === failure.ruleId)
+      && (!expected.message || (failure.message || '').includes(expected.message));
+  }
+
+  private async readDocument(text: string, format: MappingDocumentFormat): Promise<any> {
+    switch (format) {
+      case 'xml':
+        return xml2js.parseStringPromise(text, { explicitArray: false, attrkey: ATTRIBUTE_KEY, charkey: TEXT_KEY });
+      case 'yaml':
+        return yaml.load(text);
+      default:
+        return JSON.parse(text);
+    }
+  }
+
+  private diff(
+    expected: any,
+    actual: any,
+    path: string,
+    format: MappingDocumentFormat,
+    differences: MappingTestDifference[],
+    attributes = false
+  ): void {
+    if (isDeepStrictEqual(expected, actual)) {
+      return;
+    }
+    const location = path || '/';
+    if (expected === undefined) {
+      differences.push({ path: location, kind: 'unexpected', actual });
+      return;
+    }
+    if (actual === undefined) {
+      differences.push({ path: location, kind: 'missing', expected });
+      return;
+    }
+
+    if (Array.isArray(expected) && Array.isArray(actual)) {
+      for (let index = 0; index < Math.max(expected.length, actual.length); index++) {
+        // XML 반복 요소는 XPath처럼 1부터
+        const child = format === 'xml' ? `${path}[${index + 1}]` : `${path}[${index}]`;
+        this.diff(expected[index], actual[index], child, format, differences);
+      }
+      return;
+    }
+    if (this.isObject(expected) && this.isObject(actual)) {
+      const keys = [...new Set([...Object.keys(expected), ...Object.keys(actual)])];
+      keys.forEach(key => {
+        if (format === 'xml' && !attributes && key === ATTRIBUTE_KEY) {
+          // 속성은 하나씩 /@이름으로 보고
+          this.diff(expected[key] || {}, actual[key] || {}, path, format, differences, true);
+          return;
+        }
+        this.diff(expected[key], actual[key], this.childPath(path, key, format, attributes), format, differences);
+      });
+      return;
+    }
+
+    differences.push({ path: location, kind: 'changed', expected, actual });
+  }
+
+  private childPath(path: string, key: string, format: MappingDocumentFormat, attributes: boolean): string {
+    if (format !== 'xml') {
+      return /^[A-Za-z_$][\w$-]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+    }
+    if (attributes) {
+      return `${path}/@${key}`;
+    }
+    return key === TEXT_KEY ? `${path}/text()` : `${path}/${key}`;
+  }
+
+  private isObject(value: any): value is Record<string, any> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+  }
+
+  private errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
@@ -0,0 +1,458 @@
+/**
+ * 메시지 매핑 XSLT 1.0 내보내기
+ * AdvancedMappingRule 목록을 MappingEngine과 같은 결과를 내는 XSLT 스타일시트로 변환 (XML 원본 → XML 대상)
+ *
+ * - 대상 경로를 트리로 모아 요소마다 한 번만 출력하고, 값을 쓰는 규칙이 모두 건너뛰어지면 요소도 생략
+ * - 규칙 처리 순서는 엔진과 같음: 조건 → 원본 값 또는 기본값 → 변환 → 검증 → 출력
+ * - 대상 경로의 첫 [*]는 원본 경로의 첫 [*]까지 반복 요소마다 xsl:for-each로 출력
+ * - 변환/조건/검증식은 xpathTranslation으로 XPath 1.0 식이 되며, 옮길 수 없는 규칙은 제외하고 경고로 남김
+ */
+
+import { ExpressionSyntaxError, ValidationError } from '../../types/errors';
+import { MappingExportWarning, XsltExportResult } from '../../types/mapping';
+import type { AdvancedMappingRule, TransformationRule } from '../messageMappingService';
+import { compileExpression } from '../expression';
+import { parseMappingPath, PathSegment } from './mappingPath';
+import { DATA_TYPE_FUNCTIONS, TRANSFORM_FUNCTIONS, TRANSFORMATION_NAMES_PATTERN } from './transformFunctions';
+import { expressionToXPath, segmentsToXPath, transformToXPath, xpathLiteral, XSLT_NAMESPACE } from './xpathTranslation';
+
+export interface XsltExportOptions {
+  // 엔진 실행 옵션과 같은 의미 (대상 최상위 요소가 하나면 그 요소가 루트)
+  rootElement?: string;
+  namespace?: string;
+  encoding?: string;
+  // 스타일시트 주석에 남길 매핑 ID
+  mappingId?: string;
+}
+
+// XSLT에서 엔진과 결과가 다를 수 있는 내장 변환
+const APPROXIMATE_TRANSFORMS: Record<string, string> = {
+  trim: 'trim은 normalize-space()로 옮겨 값 안쪽의 연속 공백도 하나로 줄입니다',
+  uppercase: 'uppercase는 ASCII 영문자만 변환합니다',
+  lowercase: 'lowercase는 ASCII 영문자만 변환합니다',
+  formatDate: 'formatDate는 ISO 8601 형식(YYYY-MM-DDTHH:mm:ss) 원본 값만 UTC 변환 없이 옮깁니다'
+};
+
+type ValueStep = (input: string) => string;
+
+interface RulePlan {
+  rule: AdvancedMappingRule;
+  // 원본 값을 가진 요소 경로 (속성 값이면 속성을 가진 요소까지)와 속성 이름
+  elementSegments?: PathSegment[];
+  attribute?: string;
+  // 반복 출력 안에서 원본 경로 앞부분 중 반복 요소가 차지하는 조각 수
+  groupDepth: number;
+  condition?: string;
+  steps: ValueStep[];
+  validation?: ValueStep;
+}
+
+interface TargetElement {
+  name: string;
+  attributes: Map<string, RulePlan[]>;
+  texts: RulePlan[];
+  children: Map<string, TargetElement>;
+  // [*] 대상이면 반복할 원본 요소 (절대 XPath)
+  repeat?: string;
+}
+
+type ValueOutput = { kind: 'text' } | { kind: 'attribute'; name: string } | { kind: 'element'; name: string };
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function escapeText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function createElement(name: string, repeat?: string): TargetElement {
+  return { name, attributes: new Map(), texts: [], children: new Map(), repeat };
+}
+
+/**
+ * XSLT 내보내기 구현체
+ */
+export class XsltExporter {
+  private lines: string[] = [];
+  private warnings: MappingExportWarning[] = [];
+
+  /**
+   * 규칙 목록을 XSLT 1.0 스타일시트로 변환
+   */
+  export(
+    rules: AdvancedMappingRule[],
+    transformations: TransformationRule[] = [],
+    options: XsltExportOptions = {}
+  ): XsltExportResult {
+    this.lines = [];
+    this.warnings = [];
+    const skippedRules: string[] = [];
+    const root = createElement('');
+
+    for (const rule of rules) {
+      try {
+        this.place(root, this.plan(rule, transformations), rule);
+      } catch (error) {
+        if (!(error instanceof ValidationError) && !(error instanceof ExpressionSyntaxError)) {
+          throw error;
+        }
+        skippedRules.push(rule.id);
+        this.warnings.push({ ruleId: rule.id, message: error.message });
+      }
+    }
+
+    this.write(0, `<?xml version="1.0" encoding="${escapeAttribute(options.encoding || 'UTF-8')}"?>`);
+    if (options.mappingId) {
+      this.write(0, `<!-- message mapping ${escapeText(options.mappingId).replace(/--/g, '- -')} -->`);
+    }
+    this.write(0, `<xsl:stylesheet version="1.0" xmlns:xsl="${XSLT_NAMESPACE}">`);
+    this.write(1, `<xsl:output method="xml" encoding="${escapeAttribute(options.encoding || 'UTF-8')}" indent="yes"/>`);
+    this.write(1, '<xsl:template match="/">');
+    this.writeRoot(root, options);
+    this.write(1, '</xsl:template>');
+    this.write(0, '</xsl:stylesheet>');
+
+    return { stylesheet: `${this.lines.join('\n')}\n`, skippedRules, warnings: this.warnings };
+  }
+
+  /**
+   * 규칙 하나를 XPath 조각으로 변환 (옮길 수 없으면 ValidationError)
+   */
+  private plan(rule: AdvancedMappingRule, transformations: TransformationRule[]): RulePlan {
+    const plan: RulePlan = { rule, groupDepth: 0, steps: [] };
+
+    if (rule.sourcePath) {
+      const segments = parseMappingPath(rule.sourcePath);
+      const last = segments[segments.length - 1];
+      if (segments.length === 0 || segments.slice(0, -1).some(segment => segment.attribute)) {
+        throw new ValidationError(`XSLT로 옮길 수 없는 원본 경로입니다: ${rule.sourcePath}`, 'sourcePath', rule.sourcePath);
+      }
+      plan.elementSegments = last!.attribute ? segments.slice(0, -1) : segments;
+      plan.attribute = last!.attribute ? last!.name : undefined;
+    }
+
+    if (rule.condition) {
+      plan.condition = expressionToXPath(compileExpression(rule.condition).ast).test;
+    }
+    if (rule.transformation) {
+      plan.steps = this.planTransformation(rule, transformations);
+    }
+    if (rule.validation) {
+      plan.validation = this.planValidation(rule);
+    }
+
+    // 옮길 수 없는 함수는 여기서 오류가 나도록 한 번 만들어 봄
+    plan.steps.forEach(step => step('$v'));
+    plan.validation?.('$v');
+    return plan;
+  }
+
+  private planTransformation(rule: AdvancedMappingRule, transformations: TransformationRule[]): ValueStep[] {
+    const transformation = rule.transformation!;
+    if (rule.type !== 'dataType' && !TRANSFORMATION_NAMES_PATTERN.test(transformation)) {
+      const ast = compileExpression(transformation).ast;
+      return [input => expressionToXPath(ast, { value: input }).text];
+    }
+
+    return transformation.split('|').map(name => name.trim()).filter(Boolean).map(name => {
+      if (rule.type === 'dataType' && !DATA_TYPE_FUNCTIONS.includes(name)) {
+        throw new ValidationError(`지원하지 않는 대상 타입입니다: ${name}`, 'transformation', name);
+      }
+
+      const named = transformations.find(candidate => candidate.name === name || candidate.id === name);
+      const functionName = named ? named.function.trim() : name;
+      const parameters = named?.parameters || {};
+
+      if (named && !TRANSFORMATION_NAMES_PATTERN.test(named.function)) {
+        const ast = compileExpression(named.function).ast;
+        return (input: string) => expressionToXPath(ast, { value: input, parameters }).text;
+      }
+      if (!Object.prototype.hasOwnProperty.call(TRANSFORM_FUNCTIONS, functionName)) {
+        throw new ValidationError(`지원하지 않는 변환입니다: ${functionName}`, 'transformation', functionName);
+      }
+      if (APPROXIMATE_TRANSFORMS[functionName]) {
+        this.warnings.push({ ruleId: rule.id, message: APPROXIMATE_TRANSFORMS[functionName]! });
+      }
+      return (input: string) => transformToXPath(functionName, parameters, input);
+    });
+  }
+
+  private planValidation(rule: AdvancedMappingRule): ValueStep | undefined {
+    const validation = rule.validation!;
+
+    switch (validation.type) {
+      case 'range':
+        return input => [
+          `number(${input}) = number(${input})`,
+          ...(validation.min !== undefined ? [`number(${input}) >= ${validation.min}`] : []),
+          ...(validation.max !== undefined ? [`number(${input}) <= ${validation.max}`] : [])
+        ].join(' and ');
+      case 'enum':
+        return validation.values
+          ? input => validation.values!.length > 0
+            ? validation.values!.map(value => `${input} = ${xpathLiteral(value)}`).join(' or ')
+            : 'false()'
+          : undefined;
+      case 'custom': {
+        if (!validation.function) {
+          return undefined;
+        }
+        const ast = compileExpression(validation.function).ast;
+        return input => expressionToXPath(ast, { value: input }).test;
+      }
+      default:
+        // XPath 1.0에는 정규식이 없어 regex 검증은 생략
+        this.warnings.push({ ruleId: rule.id, message: 'regex 검증은 XSLT 1.0에서 확인하지 않습니다' });
+        return undefined;
+    }
+  }
+
+  /**
+   * 대상 경로 위치에 규칙 배치 ([*]는 원본 반복 요소 단위 출력)
+   */
+  private place(root: TargetElement, plan: RulePlan, rule: AdvancedMappingRule): void {
+    const segments = parseMappingPath(rule.targetPath);
+    if (segments.length === 0) {
+      throw new ValidationError('대상 경로가 비어 있습니다', 'targetPath', rule.targetPath);
+    }
+    if (rule.type === 'attribute') {
+      segments[segments.length - 1]!.attribute = true;
+    }
+    if (segments.length === 1 && segments[0]!.attribute) {
+      throw new ValidationError(`루트 속성은 XSLT로 옮길 수 없습니다: ${rule.targetPath}`, 'targetPath', rule.targetPath);
+    }
+    if (segments.some(segment => segment.qualifiedName.includes(':'))) {
+      this.warnings.push({ ruleId: rule.id, message: '대상 경로의 네임스페이스 접두사는 제외하고 출력합니다' });
+    }
+
+    const spread = segments.findIndex(segment => segment.index === '*');
+    let node = root;
+
+    segments.forEach((segment, position) => {
+      const last = position === segments.length - 1;
+      if (last && segment.attribute) {
+        node.attributes.set(segment.name, [...(node.attributes.get(segment.name) || []), plan]);
+        return;
+      }
+
+      let key = segment.name;
+      let repeat: string | undefined;
+      if (position === spread && plan.elementSegments) {
+        // 원본 경로의 첫 [*]까지 (없으면 원본 값 요소) 반복
+        const group = plan.elementSegments.findIndex(item => item.index === '*');
+        plan.groupDepth = group === -1 ? plan.elementSegments.length : group + 1;
+        repeat = segmentsToXPath(plan.elementSegments.slice(0, plan.groupDepth), true);
+        key = `${segment.name}[*]${repeat}`;
+      } else if (typeof segment.index === 'number' && segment.index > 0) {
+        throw new ValidationError(`대상 경로의 0이 아닌 인덱스는 XSLT로 옮길 수 없습니다: ${rule.targetPath}`, 'targetPath', rule.targetPath);
+      }
+
+      if (!node.children.has(key)) {
+        node.children.set(key, createElement(segment.name, repeat));
+      }
+      node = node.children.get(key)!;
+      if (last) {
+        node.texts.push(plan);
+      }
+    });
+  }
+
+  private writeRoot(root: TargetElement, options: XsltExportOptions): void {
+    const top = Array.from(root.children.values());
+    const namespace = options.namespace ? ` xmlns="${escapeAttribute(options.namespace)}"` : '';
+
+    // 엔진과 같이 최상위 요소가 하나면 그 요소를, 아니면 rootElement(기본 root)로 감싸 루트로 사용
+    if (top.length === 1 && !top[0]!.repeat && (!options.rootElement || options.rootElement === top[0]!.name)) {
+      this.writeBody(top[0]!, false, 2, namespace);
+      return;
+    }
+
+    const rootName = options.rootElement || 'root';
+    if (top.length === 0) {
+      this.write(2, `<${rootName}${namespace}/>`);
+      return;
+    }
+    this.write(2, `<${rootName}${namespace}>`);
+    top.forEach(child => this.writeElement(child, false, 3));
+    this.write(2, `</${rootName}>`);
+  }
+
+  private writeElement(node: TargetElement, relative: boolean, indent: number): void {
+    if (node.repeat) {
+      this.write(indent, `<xsl:for-each select="${escapeAttribute(node.repeat)}">`);
+      this.writeGuarded(node, true, indent + 1);
+      this.write(indent, '</xsl:for-each>');
+      return;
+    }
+
+    // 값 하나만 쓰는 요소는 원본 값이 여러 개면 값마다 요소를 반복 (엔진의 배열 값 출력)
+    if (node.texts.length === 1 && node.attributes.size === 0 && node.children.size === 0) {
+      this.writeValue(node.texts[0]!, relative, { kind: 'element', name: node.name }, true, indent);
+      return;
+    }
+
+    this.writeGuarded(node, relative, indent);
+  }
+
+  private writeGuarded(node: TargetElement, relative: boolean, indent: number): void {
+    const guard = this.guard(node, relative);
+    if (guard === undefined) {
+      this.writeBody(node, relative, indent);
+      return;
+    }
+    this.write(indent, `<xsl:if test="${escapeAttribute(guard)}">`);
+    this.writeBody(node, relative, indent + 1);
+    this.write(indent, '</xsl:if>');
+  }
+
+  private writeBody(node: TargetElement, relative: boolean, indent: number, namespace = ''): void {
+    if (node.attributes.size === 0 && node.texts.length === 0 && node.children.size === 0) {
+      this.write(indent, `<${node.name}${namespace}/>`);
+      return;
+    }
+
+    this.write(indent, `<${node.name}${namespace}>`);
+    node.attributes.forEach((plans, name) =>
+      plans.forEach(plan => this.writeValue(plan, relative, { kind: 'attribute', name }, false, indent + 1)));
+    node.texts.forEach(plan => this.writeValue(plan, relative, { kind: 'text' }, false, indent + 1));
+    node.children.forEach(child => this.writeElement(child, relative, indent + 1));
+    this.write(indent, `</${node.name}>`);
+  }
+
+  /**
+   * 규칙 값 출력: 조건 → 원본 값(여러 개면 multiple일 때만 모두) 또는 기본값 → 변환 → 검증
+   */
+  private writeValue(plan: RulePlan, relative: boolean, output: ValueOutput, multiple: boolean, indent: number): void {
+    const defaultValue = plan.rule.defaultValue;
+    if (!plan.elementSegments && defaultValue === undefined) {
+      return;
+    }
+
+    let level = indent;
+    if (plan.condition) {
+      this.write(level++, `<xsl:if test="${escapeAttribute(plan.condition)}">`);
+    }
+
+    if (!plan.elementSegments) {
+      this.writeSteps(plan, xpathLiteral(String(defaultValue)), output, level);
+    } else {
+      const { elements, presence } = this.sourcePaths(plan, relative);
+      const start = plan.attribute ? `string(@*[local-name()=${xpathLiteral(plan.attribute)}])` : 'string(.)';
+      const select = multiple ? elements : `(${elements})[1]`;
+
+      if (defaultValue === undefined) {
+        this.write(level, `<xsl:if test="${escapeAttribute(presence)}">`);
+      } else {
+        this.write(level, '<xsl:choose>');
+        this.write(level + 1, `<xsl:when test="${escapeAttribute(presence)}">`);
+      }
+      const inner = defaultValue === undefined ? level + 1 : level + 2;
+      this.write(inner, `<xsl:for-each select="${escapeAttribute(select)}">`);
+      this.writeSteps(plan, start, output, inner + 1);
+      this.write(inner, '</xsl:for-each>');
+      if (defaultValue === undefined) {
+        this.write(level, '</xsl:if>');
+      } else {
+        this.write(level + 1, '</xsl:when>');
+        this.write(level + 1, '<xsl:otherwise>');
+        this.writeSteps(plan, xpathLiteral(String(defaultValue)), output, level + 2);
+        this.write(level + 1, '</xsl:otherwise>');
+        this.write(level, '</xsl:choose>');
+      }
+    }
+
+    if (plan.condition) {
+      this.write(indent, '</xsl:if>');
+    }
+  }
+
+  private writeSteps(plan: RulePlan, start: string, output: ValueOutput, indent: number): void {
+    this.write(indent, `<xsl:variable name="v0" select="${escapeAttribute(start)}"/>`);
+    plan.steps.forEach((step, index) =>
+      this.write(indent, `<xsl:variable name="v${index + 1}" select="${escapeAttribute(step(`$v${index}`))}"/>`));
+    const value = `$v${plan.steps.length}`;
+
+    let level = indent;
+    if (plan.validation) {
+      this.write(level++, `<xsl:if test="${escapeAttribute(plan.validation(value))}">`);
+    }
+    const valueOf = `<xsl:value-of select="${value}"/>`;
+    switch (output.kind) {
+      case 'attribute':
+        this.write(level, `<xsl:attribute name="${escapeAttribute(output.name)}">${valueOf}</xsl:attribute>`);
+        break;
+      case 'element':
+        this.write(level, `<${output.name}>${valueOf}</${output.name}>`);
+        break;
+      default:
+        this.write(level, valueOf);
+    }
+    if (plan.validation) {
+      this.write(indent, '</xsl:if>');
+    }
+  }
+
+  /**
+   * 원본 값 요소 경로와 값 존재 조건 (엔진: 값이 여러 개이거나 빈 문자열이 아니면 존재)
+   */
+  private sourcePaths(plan: RulePlan, relative: boolean): { elements: string; presence: string } {
+    const segments = relative ? plan.elementSegments!.slice(plan.groupDepth) : plan.elementSegments!;
+    const path = segmentsToXPath(segments, !relative);
+    if (!plan.attribute) {
+      return { elements: path, presence: `count(${path}) > 1 or string(${path}) != ''` };
+    }
+
+    const attribute = `@*[local-name()=${xpathLiteral(plan.attribute)}]`;
+    const values = path === '.' ? attribute : `${path}/${attribute}`;
+    return {
+      elements: `${path === '.' ? 'self::node()' : path}[${attribute}]`,
+      presence: `count(${values}) > 1 or string(${values}) != ''`
+    };
+  }
+
+  /**
+   * 요소 출력 조건 (하위 규칙 중 하나라도 값을 쓸 때, 항상 쓰면 undefined)
+   */
+  private guard(node: TargetElement, relative: boolean): string | undefined {
+    const guards: string[] = [];
+    const collect = (element: TargetElement, inner: boolean): boolean => {
+      if (element.repeat && element !== node) {
+        guards.push(`count(${element.repeat}) > 0`);
+        return false;
+      }
+      const plans = [...Array.from(element.attributes.values()).flat(), ...element.texts];
+      for (const plan of plans) {
+        const guard = this.planGuard(plan, inner);
+        if (guard === undefined) {
+          return true;
+        }
+        guards.push(guard);
+      }
+      return Array.from(element.children.values()).some(child => collect(child, inner));
+    };
+
+    if (collect(node, relative)) {
+      return undefined;
+    }
+    return guards.length > 0 ? guards.map(guard => `(${guard})`).join(' or ') : 'false()';
+  }
+
+  private planGuard(plan: RulePlan, relative: boolean): string | undefined {
+    const parts: string[] = [];
+    if (plan.condition) {
+      parts.push(plan.condition);
+    }
+    if (plan.rule.defaultValue === undefined) {
+      if (!plan.elementSegments) {
+        return 'false()';
+      }
+      parts.push(this.sourcePaths(plan, relative).presence);
+    }
+    return parts.length > 0 ? parts.map(part => `(${part})`).join(' and ') : undefined;
+  }
+
+  private write(indent: number, text: string): void {
+    this.lines.push(`${'  '.repeat(indent)}${text}`);
+  }
+}
@@ -0,0 +1,288 @@
+/**
+ * XSLT 내보내기 확인용 부분집합 에뮬레이터
+ * XSLT 1.0 처리기가 아님. XsltExporter가 만드는 명령만 직접 해석하고 식은 libxmljs2의 XPath 평가에 맡김
+ * 결과가 엔진과 같아도 libxslt, Saxon 같은 실제 처리기에서 같은 결과가 나온다는 보장은 없으므로
+ * 배포 전에는 대상 처리기로 다시 확인해야 함 (응답의 processor.conforming이 false)
+ *
+ * - 지원 명령: template match="/", 리터럴 요소, attribute, value-of, text, if, choose, for-each, variable
+ * - 변수는 평가한 값을 리터럴로 바꿔 XPath에 넣음 (결과 트리 조각 변수는 지원하지 않음)
+ * - 비교는 두 결과를 xml2js로 같은 방식으로 읽어 요소/속성/텍스트 단위로 수행
+ */
+
+import libxmljs from 'libxmljs2';
+import * as xml2js from 'xml2js';
+import { ValidationError } from '../../types/errors';
+import { XsltProcessorInfo, XsltTestResult } from '../../types/mapping';
+import { XSLT_NAMESPACE, xpathLiteral } from './xpathTranslation';
+
+type XPathValue = string | number | boolean;
+
+interface OutputElement {
+  name: string;
+  namespace?: string;
+  attributes: Array<[string, string]>;
+  children: Array<OutputElement | string>;
+}
+
+const PROCESSOR: XsltProcessorInfo = {
+  name: 'xslt-subset-emulator',
+  conforming: false,
+  note: 'Emulates only the XSLT 1.0 subset produced by the exporter; it is not a conforming XSLT processor. '
+    + 'Verify the stylesheet with the target processor (e.g. libxslt, Saxon) before deploying it.'
+};
+
+const VARIABLE_PATTERN = /'[^']*'|"[^"]*"|\$([A-Za-z_][\w.-]*)/g;
+
+function escapeXml(value: string, attribute: boolean): string {
+  const escaped = value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  return attribute ? escaped.replace(/"/g, '&quot;') : escaped;
+}
+
+function toLiteral(value: XPathValue): string {
+  if (typeof value === 'boolean') {
+    return value ? 'true()' : 'false()';
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? String(value) : `number(${xpathLiteral(String(value))})`;
+  }
+  return xpathLiteral(value);
+}
+
+function stringValue(value: any): string {
+  if (Array.isArray(value)) {
+    return value.length > 0 ? stringValue(value[0]) : '';
+  }
+  if (value && typeof value === 'object') {
+    return typeof value.value === 'function' && value.type() === 'attribute' ? value.value() : value.text();
+  }
+  return typeof value === 'number' && Number.isNaN(value) ? 'NaN' : String(value);
+}
+
+/**
+ * XSLT 부분집합 에뮬레이터 (지원하지 않는 명령은 ValidationError)
+ */
+export class XsltTestHarness {
+  /**
+   * 스타일시트를 원본 XML에 적용해 결과 XML 반환
+   */
+  transform(stylesheet: string, source: string): string {
+    const xslt = this.parse(stylesheet, '스타일시트를 해석할 수 없습니다');
+    const document = this.parse(source, '원본 XML 문서를 해석할 수 없습니다');
+
+    const root = xslt.root();
+    if (!this.isXsl(root, 'stylesheet') && !this.isXsl(root, 'transform')) {
+      throw new ValidationError('xsl:stylesheet 루트가 아닙니다', 'stylesheet');
+    }
+    const template = this.xslChildren(root).find(child => this.isXsl(child, 'template'));
+    if (!template || template.attr('match')?.value() !== '/') {
+      throw new ValidationError('template match="/"가 필요합니다', 'stylesheet');
+    }
+    const output = this.xslChildren(root).find(child => this.isXsl(child, 'output'));
+
+    const result: OutputElement = { name: '', attributes: [], children: [] };
+    this.process(template.childNodes(), document.root(), new Map(), result);
+
+    const elements = result.children.filter((child): child is OutputElement => typeof child !== 'string');
+    if (elements.length !== 1) {
+      throw new ValidationError(`결과 문서의 루트 요소가 하나가 아닙니다 (${elements.length}개)`, 'stylesheet');
+    }
+    const encoding = output?.attr('encoding')?.value() || 'UTF-8';
+    return `<?xml version="1.0" encoding="${encoding}"?>\n${this.serialize(elements[0]!, undefined, 0)}\n`;
+  }
+
+  /**
+   * 스타일시트 결과와 엔진 결과 비교 (결과에 에뮬레이터로 실행했다는 정보 포함)
+   */
+  async compare(stylesheet: string, source: string, engineOutput: string): Promise<Omit<XsltTestResult, 'engineOutput' | 'warnings'>> {
+    const xsltOutput = this.transform(stylesheet, source);
+    const options = { trim: true, explicitArray: true };
+    const [expected, actual] = await Promise.all([
+      xml2js.parseStringPromise(engineOutput, options),
+      xml2js.parseStringPromise(xsltOutput, options)
+    ]);
+
+    const differences: string[] = [];
+    this.diff(expected, actual, '', differences);
+    return { matches: differences.length === 0, processor: { ...PROCESSOR }, xsltOutput, differences };
+  }
+
+  private parse(xml: string, message: string): any {
+    try {
+      return libxmljs.parseXmlString(xml);
+    } catch (error) {
+      throw new ValidationError(`${message}: ${error instanceof Error ? error.message : String(error)}`, 'xml');
+    }
+  }
+
+  private isXsl(node: any, name: string): boolean {
+    return node.type() === 'element' && node.namespace()?.href() === XSLT_NAMESPACE && node.name() === name;
+  }
+
+  private xslChildren(node: any): any[] {
+    return node.childNodes().filter((child: any) => child.type() === 'element');
+  }
+
+  /**
+   * 스타일시트 노드 목록 실행 (변수는 뒤따르는 형제와 그 하위에서만 보임)
+   */
+  private process(nodes: any[], context: any, variables: Map<string, XPathValue>, output: OutputElement): void {
+    const scope = new Map(variables);
+
+    for (const node of nodes) {
+      const type = node.type();
+      if (type === 'text') {
+        // 공백뿐인 텍스트는 스타일시트 서식이므로 무시
+        if (node.text().trim()) {
+          output.children.push(node.text());
+        }
+        continue;
+      }
+      if (type !== 'element') {
+        continue;
+      }
+      if (node.namespace()?.href() !== XSLT_NAMESPACE) {
+        this.literal(node, context, scope, output);
+        continue;
+      }
+
+      switch (node.name()) {
+        case 'variable':
+          scope.set(node.attr('name').value(), this.evaluate(this.select(node), context, scope));
+          break;
+        case 'value-of':
+          output.children.push(stringValue(this.evaluate(this.select(node), context, scope)));
+          break;
+        case 'text':
+          output.children.push(node.text());
+          break;
+        case 'attribute': {
+          const value: OutputElement = { name: '', attributes: [], children: [] };
+          this.process(node.childNodes(), context, scope, value);
+          output.attributes.push([node.attr('name').value(), value.children.filter(child => typeof child === 'string').join('')]);
+          break;
+        }
+        case 'if':
+          if (this.test(node, context, scope)) {
+            this.process(node.childNodes(), context, scope, output);
+          }
+          break;
+        case 'choose': {
+          const branch = this.xslChildren(node).find(child =>
+            this.isXsl(child, 'otherwise') || (this.isXsl(child, 'when') && this.test(child, context, scope)));
+          if (branch) {
+            this.process(branch.childNodes(), context, scope, output);
+          }
+          break;
+        }
+        case 'for-each': {
+          const items = context.find(this.substitute(this.select(node), scope));
+          if (!Array.isArray(items)) {
+            throw new ValidationError('for-each select가 노드 집합이 아닙니다', 'stylesheet', this.select(node));
+          }
+          items.forEach(item => this.process(node.childNodes(), item, scope, output));
+          break;
+        }
+        case 'comment':
+          break;
+        default:
+          throw new ValidationError(`지원하지 않는 XSLT 명령입니다: xsl:${node.name()}`, 'stylesheet', node.name());
+      }
+    }
+  }
+
+  private literal(node: any, context: any, variables: Map<string, XPathValue>, output: OutputElement): void {
+    const element: OutputElement = {
+      name: node.name(),
+      namespace: node.namespace()?.href() || undefined,
+      attributes: node.attrs().map((attribute: any) => {
+        if (attribute.value().includes('{')) {
+          throw new ValidationError('속성 값 템플릿은 지원하지 않습니다', 'stylesheet', attribute.value());
+        }
+        return [attribute.name(), attribute.value()] as [string, string];
+      }),
+      children: []
+    };
+    this.process(node.childNodes(), context, variables, element);
+    output.children.push(element);
+  }
+
+  private select(node: any): string {
+    const select = node.attr('select');
+    if (!select) {
+      throw new ValidationError(`xsl:${node.name()}에 select가 필요합니다`, 'stylesheet');
+    }
+    return select.value();
+  }
+
+  private test(node: any, context: any, variables: Map<string, XPathValue>): boolean {
+    return this.evaluate(`boolean(${node.attr('test').value()})`, context, variables) === true;
+  }
+
+  private evaluate(xpath: string, context: any, variables: Map<string, XPathValue>): XPathValue {
+    const result = context.find(this.substitute(xpath, variables));
+    return Array.isArray(result) ? stringValue(result) : result;
+  }
+
+  /**
+   * $변수를 값 리터럴로 치환 (문자열 리터럴 안은 그대로)
+   */
+  private substitute(xpath: string, variables: Map<string, XPathValue>): string {
+    return xpath.replace(VARIABLE_PATTERN, (match, name?: string) => {
+      if (!name) {
+        return match;
+      }
+      if (!variables.has(name)) {
+        throw new ValidationError(`정의되지 않은 변수입니다: $${name}`, 'stylesheet', name);
+      }
+      return toLiteral(variables.get(name)!);
+    });
+  }
+
+  private serialize(element: OutputElement, parentNamespace: string | undefined, indent: number): string {
+    const padding = '  '.repeat(indent);
+    const namespace = element.namespace !== parentNamespace && element.namespace !== undefined
+      ? ` xmlns="${escapeXml(element.namespace, true)}"`
+      : '';
+    const attributes = element.attributes.map(([name, value]) => ` ${name}="${escapeXml(value, true)}"`).join('');
+    const open = `${padding}<${element.name}${namespace}${attributes}`;
+
+    if (element.children.length === 0) {
+      return `${open}/>`;
+    }
+    if (element.children.every(child => typeof child === 'string')) {
+      return `${open}>${escapeXml(element.children.join(''), false)}</${element.name}>`;
+    }
+    const children = element.children.map(child => typeof child === 'string'
+      ? `${'  '.repeat(indent + 1)}${escapeXml(child, false)}`
+      : this.serialize(child, element.namespace, indent + 1));
+    return `${open}>\n${children.join('\n')}\n${padding}</${element.name}>`;
+  }
+
+  /**
+   * xml2js 결과 재귀 비교 (경로: /요소[n]/@속성)
+   */
+  private diff(expected: any, actual: any, path: string, differences: string[], attributes = false): void {
+    if (Array.isArray(expected) && Array.isArray(actual)) {
+      if (expected.length !== actual.length) {
+        differences.push(`${path}: 엔진 ${expected.length}개 ≠ XSLT ${actual.length}개`);
+      }
+      expected.slice(0, actual.length).forEach((item, index) =>
+        this.diff(item, actual[index], expected.length > 1 ? `${path}[${index + 1}]` : path, differences));
+      return;
+    }
+    if (expected && actual && typeof expected === 'object' && typeof actual === 'object') {
+      new Set([...Object.keys(expected), ...Object.keys(actual)]).forEach(key => {
+        const child = attributes ? `${path}/@${key}` : key === '$' ? path : key === '_' ? `${path}/text()` : `${path}/${key}`;
+        if (!(key in expected) || !(key in actual)) {
+          differences.push(`${child}: ${key in expected ? 'XSLT 결과에 없음' : '엔진 결과에 없음'}`);
+          return;
+        }
+        this.diff(expected[key], actual[key], child, differences, !attributes && key === '$');
+      });
+      return;
+    }
+    if (expected !== actual) {
+      differences.push(`${path || '/'}: 엔진 ${JSON.stringify(expected)} ≠ XSLT ${JSON.stringify(actual)}`);
+    }
+  }
+}
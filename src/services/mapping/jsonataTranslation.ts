@@ -0,0 +1,286 @@
+/**
+ * 매핑 규칙 → JSONata 변환
+ * JSON 변환 내보내기에서 원본 경로, 내장 변환, 식 언어 구문 트리를 JSONata 식으로 옮김
+ *
+ * - 문서 경로는 항상 입력 루트($$) 기준으로 옮겨 반복 블록 안에서도 같은 값을 가리킴
+ * - 식의 value는 현재 값 변수($v), 변환 파라미터는 JSON 리터럴로 옮김
+ * - 옮길 수 없는 함수/변환은 ValidationError (내보내기에서 규칙별 경고로 기록)
+ */
+
+import { ValidationError } from '../../types/errors';
+import { PathSegment } from './mappingPath';
+import { ExpressionNode } from '../expression';
+
+const DATE_TOKEN_PATTERN = /YYYY|MM|DD|HH|mm|ss/g;
+// 날짜 형식 토큰 → $fromMillis 그림 문자열
+const DATE_PICTURES: Record<string, string> = {
+  YYYY: '[Y0001]', MM: '[M01]', DD: '[D01]', HH: '[H01]', mm: '[m01]', ss: '[s01]'
+};
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const DAY_MS = 86400000;
+
+export interface JsonataScope {
+  // 식의 value가 가리키는 JSONata 식 (현재 값 변수)
+  value?: string;
+  // 변환 파라미터 (이름으로 참조하면 JSON 리터럴)
+  parameters?: Record<string, any>;
+}
+
+function unsupported(detail: string): ValidationError {
+  return new ValidationError(`JSONata로 옮길 수 없습니다: ${detail}`, 'jsonata', detail);
+}
+
+/**
+ * JSONata 필드 이름 (식별자가 아니면 `이름`)
+ */
+export function jsonataName(name: string): string {
+  return NAME_PATTERN.test(name) ? name : `\`${name.replace(/`/g, '')}\``;
+}
+
+/**
+ * 값을 JSONata 리터럴로 (JSON 문법과 같음)
+ */
+export function jsonataLiteral(value: any): string {
+  return value === undefined ? 'null' : JSON.stringify(value);
+}
+
+/**
+ * 경로 조각을 JSONata 경로로 (base는 시작 식, 조각이 없으면 base 자체)
+ * [n]은 그대로, [*]와 인덱스 없는 배열은 JSONata가 항목마다 이어서 탐색
+ */
+export function segmentsToJsonata(segments: PathSegment[], base: string): string {
+  if (segments.some(segment => segment.attribute)) {
+    throw unsupported('속성(@) 경로');
+  }
+  const steps = segments.map(segment =>
+    jsonataName(segment.name) + (typeof segment.index === 'number' ? `[${segment.index}]` : ''));
+  return [base, ...steps].filter(Boolean).join('.') || '$';
+}
+
+/**
+ * 값이 비었는지 (엔진 isEmptyValue: 없음, null, 빈 문자열)
+ */
+export function jsonataIsEmpty(input: string): string {
+  return `($not($exists(${input})) or ${input} = null or ${input} = "")`;
+}
+
+function datePicture(format: string): string {
+  const parts: string[] = [];
+  let last = 0;
+  format.replace(DATE_TOKEN_PATTERN, (token, offset: number) => {
+    parts.push(format.substring(last, offset).replace(/\[/g, '[[').replace(/]/g, ']]'), DATE_PICTURES[token]!);
+    last = offset + token.length;
+    return token;
+  });
+  parts.push(format.substring(last).replace(/\[/g, '[[').replace(/]/g, ']]'));
+  return parts.join('');
+}
+
+function truncate(input: string): string {
+  return `($n := $number(${input}); $n < 0 ? $ceil($n) : $floor($n))`;
+}
+
+function mapValue(input: string, table: Record<string, any>, fallback: string): string {
+  return `($m := $lookup(${jsonataLiteral(table)}, $string(${input})); $exists($m) ? $m : ${fallback})`;
+}
+
+/**
+ * 내장 변환(TRANSFORM_FUNCTIONS)을 JSONata 식으로 (input은 현재 값 식)
+ */
+export function transformToJsonata(name: string, parameters: Record<string, any>, input: string): string {
+  switch (name) {
+    case 'uppercase':
+      return `$uppercase($string(${input}))`;
+    case 'lowercase':
+      return `$lowercase($string(${input}))`;
+    case 'trim':
+      return `$trim($string(${input}))`;
+    case 'substring': {
+      const start = Number(parameters.start ?? 0);
+      return parameters.end === undefined
+        ? `$substring($string(${input}), ${start})`
+        : `$substring($string(${input}), ${start}, ${Math.max(Number(parameters.end) - start, 0)})`;
+    }
+    case 'replace': {
+      if (typeof parameters.pattern !== 'string' || parameters.pattern.includes('/')) {
+        throw unsupported(`replace ${parameters.pattern}`);
+      }
+      const flags = String(parameters.flags ?? 'g').replace(/[gu]/g, '');
+      return `$replace($string(${input}), /${parameters.pattern}/${flags}, ${jsonataLiteral(String(parameters.replacement ?? ''))})`;
+    }
+    case 'prefix':
+      return `(${jsonataLiteral(String(parameters.value ?? ''))} & ${input})`;
+    case 'suffix':
+      return `(${input} & ${jsonataLiteral(String(parameters.value ?? ''))})`;
+    case 'padStart':
+      return `$pad($string(${input}), -${Number(parameters.length)}, ${jsonataLiteral(String(parameters.char ?? '0'))})`;
+    case 'map':
+      return mapValue(input, parameters.values || {}, parameters.default === undefined ? input : jsonataLiteral(parameters.default));
+    case 'formatDate':
+      return `$fromMillis($toMillis($string(${input})), ${jsonataLiteral(datePicture(String(parameters.format ?? 'YYYY-MM-DD')))})`;
+    case 'string':
+      return `$string(${input})`;
+    case 'number':
+      return `$number(${input})`;
+    case 'integer':
+      return truncate(input);
+    case 'boolean':
+      return `($lowercase($trim($string(${input}))) in ["true", "1", "y", "yes"])`;
+    default:
+      throw unsupported(`변환 ${name}`);
+  }
+}
+
+/**
+ * 식 언어 구문 트리 → JSONata 식
+ */
+export function expressionToJsonata(node: ExpressionNode, scope: JsonataScope = {}): string {
+  const render = (child: ExpressionNode) => expressionToJsonata(child, scope);
+
+  switch (node.kind) {
+    case 'literal':
+      return jsonataLiteral(node.value);
+    case 'root':
+      return '$$';
+    case 'identifier':
+      if (node.name === 'value' && scope.value !== undefined) {
+        return scope.value;
+      }
+      if (scope.parameters && Object.prototype.hasOwnProperty.call(scope.parameters, node.name)) {
+        return jsonataLiteral(scope.parameters[node.name]);
+      }
+      return `$$.${jsonataName(node.name)}`;
+    case 'member':
+      if (node.attribute) {
+        throw unsupported(`속성 접근 @${node.property}`);
+      }
+      return `${render(node.object)}.${jsonataName(node.property)}`;
+    case 'index':
+      if (node.index.kind === 'literal' && typeof node.index.value === 'number') {
+        return `${render(node.object)}[${node.index.value}]`;
+      }
+      if (node.index.kind === 'literal' && typeof node.index.value === 'string') {
+        return `${render(node.object)}.${jsonataName(node.index.value)}`;
+      }
+      throw unsupported('계산된 인덱스');
+    case 'unary':
+      return node.operator === '!' ? `$not(${render(node.operand)})` : `-(${render(node.operand)})`;
+    case 'binary': {
+      const operator = node.operator === '==' ? '=' : node.operator;
+      return `(${render(node.left)} ${operator} ${render(node.right)})`;
+    }
+    case 'logical':
+      if (node.operator === '??') {
+        return `($l := ${render(node.left)}; ${jsonataIsEmpty('$l')} ? ${render(node.right)} : $l)`;
+      }
+      return `(${render(node.left)} ${node.operator === '&&' ? 'and' : 'or'} ${render(node.right)})`;
+    case 'conditional':
+      return `(${render(node.test)} ? ${render(node.consequent)} : ${render(node.alternate)})`;
+    case 'array':
+      return `[${node.items.map(render).join(', ')}]`;
+    case 'call':
+      return callToJsonata(node.callee, node.args, scope);
+  }
+}
+
+function callToJsonata(callee: string, nodes: ExpressionNode[], scope: JsonataScope): string {
+  const args = nodes.map(node => expressionToJsonata(node, scope));
+  const [first, second, third] = args;
+  const text = (arg: string) => `$string(${arg})`;
+
+  switch (callee) {
+    case 'upper':
+      return `$uppercase(${text(first!)})`;
+    case 'lower':
+      return `$lowercase(${text(first!)})`;
+    case 'trim':
+      return `$trim(${text(first!)})`;
+    case 'substring':
+      return third === undefined
+        ? `$substring(${text(first!)}, ${second})`
+        : `($s := ${second}; $substring(${text(first!)}, $s, ${third} - $s))`;
+    case 'replace':
+      return `$join($split(${text(first!)}, ${text(second!)}), ${text(third!)})`;
+    case 'padStart':
+    case 'padEnd':
+      return `$pad(${text(first!)}, ${callee === 'padStart' ? '-' : ''}${second}, ${third ?? '" "'})`;
+    case 'startsWith':
+      return `($x := ${text(second!)}; $substring(${text(first!)}, 0, $length($x)) = $x)`;
+    case 'endsWith':
+      return `($x := ${text(second!)}; $s := ${text(first!)}; $substring($s, $length($s) - $length($x)) = $x)`;
+    case 'contains':
+      return `($c := ${first}; $type($c) = "array" ? ${text(second!)} in $c.$string() : $contains($string($c), ${text(second!)}))`;
+    case 'matches': {
+      const pattern = nodes[1];
+      if (pattern?.kind !== 'literal' || typeof pattern.value !== 'string' || pattern.value.includes('/')) {
+        throw unsupported('matches 패턴은 / 없는 문자열 리터럴만 지원');
+      }
+      return `$contains(${text(first!)}, /${pattern.value}/)`;
+    }
+    case 'split':
+      return `$split(${text(first!)}, ${text(second!)})`;
+    case 'join':
+      return `$join(${first}.$string(), ${second ?? '""'})`;
+    case 'concat':
+      return `(${args.join(' & ')})`;
+    case 'length':
+      return `($c := ${first}; $type($c) = "array" ? $count($c) : $length($string($c)))`;
+    case 'number':
+      return `($c := ${first}; ${jsonataIsEmpty('$c')} ? null : $number($c))`;
+    case 'integer':
+      return truncate(first!);
+    case 'round':
+      // Math.round와 같이 .5는 올림 ($round는 짝수 쪽으로 반올림)
+      return `($f := $power(10, ${second ?? '0'}); $floor($number(${first}) * $f + 0.5) / $f)`;
+    case 'floor':
+    case 'ceil':
+    case 'abs':
+      return `$${callee}($number(${first}))`;
+    case 'min':
+    case 'max':
+    case 'sum':
+      return `$${callee}([${args.join(', ')}])`;
+    case 'count':
+      return `$count(${first})`;
+    case 'now':
+      return '$now()';
+    case 'today':
+      return '$substring($now(), 0, 10)';
+    case 'date':
+      return `$fromMillis($toMillis(${text(first!)}))`;
+    case 'formatDate': {
+      const format = nodes[1];
+      if (format && (format.kind !== 'literal' || typeof format.value !== 'string')) {
+        throw unsupported('formatDate 형식은 문자열 리터럴만 지원');
+      }
+      const picture = datePicture(format ? String((format as { value: string }).value) : 'YYYY-MM-DD');
+      return `$fromMillis($toMillis(${text(first!)}), ${jsonataLiteral(picture)})`;
+    }
+    case 'addDays':
+      return `$fromMillis($toMillis(${text(first!)}) + $number(${second}) * ${DAY_MS})`;
+    case 'daysBetween':
+      return `$round(($toMillis(${text(second!)}) - $toMillis(${text(first!)})) / ${DAY_MS})`;
+    case 'if':
+      return `(${first} ? ${second} : ${third})`;
+    case 'coalesce':
+      return args.reduceRight((fallback, arg) => `($c := ${arg}; ${jsonataIsEmpty('$c')} ? ${fallback} : $c)`, 'null');
+    case 'isEmpty':
+      return `($c := ${first}; $type($c) = "array" ? $count($c) = 0 : ${jsonataIsEmpty('$c')})`;
+    case 'exists':
+      return `($c := ${first}; $type($c) = "array" ? $count($c) > 0 : $not(${jsonataIsEmpty('$c')}))`;
+    case 'string':
+      return text(first!);
+    case 'boolean':
+      return `($lowercase($trim(${text(first!)})) in ["true", "1", "y", "yes"])`;
+    case 'lookup': {
+      const table = nodes[0];
+      const entries = table?.kind === 'identifier' ? scope.parameters?.[table.name] : undefined;
+      if (!entries || typeof entries !== 'object') {
+        throw unsupported('lookup 테이블은 변환 파라미터 객체만 지원');
+      }
+      return mapValue(second!, entries, third ?? 'null');
+    }
+    default:
+      throw unsupported(`함수 ${callee}`);
+  }
+}
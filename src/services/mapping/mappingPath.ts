@@ -0,0 +1,209 @@
+/**
+ * 매핑 경로 유틸리티
+ * AdvancedMappingRule의 sourcePath/targetPath($.order.items[0].sku, /order/items/@sku, ns:order/ns:id)를
+ * 조각으로 나누고 문서 객체에서 값을 읽거나 씀
+ */
+
+import { ValidationError } from '../../types/errors';
+
+export interface PathToken {
+  raw: string;
+  // 구분자, 인덱스([0], [*]), 루트($)가 아닌 조각의 이름 (@, 네임스페이스 접두사 제외)
+  name?: string;
+}
+
+export interface PathSegment {
+  name: string;
+  // 대상 문서에 쓸 이름 (@만 제외, 네임스페이스 접두사 유지)
+  qualifiedName: string;
+  attribute: boolean;
+  // [n]은 숫자, [*]는 '*', 없으면 undefined (배열이면 전체 항목)
+  index?: number | '*';
+}
+
+export interface ResolvedPath {
+  values: any[];
+  // 경로 중간에 배열을 펼쳤는지 (여러 값 결과)
+  multiple: boolean;
+}
+
+// XML 문서(xml2js)의 속성/텍스트 키
+export const ATTRIBUTE_KEY = '$';
+export const TEXT_KEY = '_';
+
+const PATH_TOKEN_PATTERN = /\[[^\]]*\]|[./]|[^./[\]]+/g;
+
+// 객체 프로토타입에 닿는 이름 (규칙 경로로 전역 객체를 오염시키지 못하도록 거부)
+const UNSAFE_SEGMENT_NAMES = new Set(['__proto__', 'constructor', 'prototype']);
+
+/**
+ * 매핑 경로를 조각 단위로 분리 (구분자 포함, 다시 이어 붙이면 원문)
+ */
+export function tokenizeMappingPath(path: string): PathToken[] {
+  return (path.match(PATH_TOKEN_PATTERN) || []).map(raw => {
+    if (raw === '.' || raw === '/' || raw === '$' || raw.startsWith('[')) {
+      return { raw };
+    }
+    return { raw, name: raw.replace(/^@/, '').replace(/^[^:]+:/, '') };
+  });
+}
+
+/**
+ * 매핑 경로를 읽기/쓰기용 조각 목록으로 변환
+ */
+export function parseMappingPath(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+
+  for (const token of tokenizeMappingPath(path)) {
+    if (token.name !== undefined) {
+      assertSafeSegment(token.name, path);
+      segments.push({
+        name: token.name,
+        qualifiedName: token.raw.replace(/^@/, ''),
+        attribute: token.raw.startsWith('@')
+      });
+      continue;
+    }
+
+    const last = segments[segments.length - 1];
+    if (last && token.raw.startsWith('[')) {
+      const inner = token.raw.slice(1, -1).trim();
+      last.index = inner === '*' || inner === '' ? '*' : Number(inner);
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * 문서에서 경로 값 읽기
+ * 인덱스가 없는 배열은 모든 항목으로 펼치고, 텍스트만 있는 XML 요소는 텍스트 값으로 반환
+ */
+export function resolvePath(document: any, segments: PathSegment[]): ResolvedPath {
+  let current: any[] = [document];
+  let multiple = false;
+
+  for (const segment of segments) {
+    const next: any[] = [];
+
+    for (const node of current) {
+      if (node === null || typeof node !== 'object') {
+        continue;
+      }
+
+      assertSafeSegment(segment.name);
+      const child = segment.attribute
+        ? ownValue(ownValue(node, ATTRIBUTE_KEY), segment.name) ?? ownValue(node, segment.name)
+        : ownValue(node, segment.name);
+      if (child === undefined) {
+        continue;
+      }
+
+      if (Array.isArray(child)) {
+        if (typeof segment.index === 'number') {
+          if (child[segment.index] !== undefined) {
+            next.push(child[segment.index]);
+          }
+        } else {
+          multiple = true;
+          next.push(...child);
+        }
+      } else if (typeof segment.index !== 'number' || segment.index === 0) {
+        next.push(child);
+      }
+    }
+
+    current = next;
+  }
+
+  return { values: current.map(unwrapText), multiple };
+}
+
+/**
+ * 대상 문서에 경로 값 쓰기
+ * 여러 값은 첫 [*] 위치에 항목별로 나눠 쓰고, [*]가 없으면 배열 그대로 씀
+ * xml이면 @속성은 $ 아래에, 속성이 있는 요소의 텍스트는 _에 씀
+ */
+export function assignPath(target: Record<string, any>, segments: PathSegment[], value: any, xml: boolean): void {
+  const spread = segments.findIndex(segment => segment.index === '*');
+  if (Array.isArray(value) && spread !== -1) {
+    value.forEach((item, index) => {
+      const indexed = segments.map((segment, position) => position === spread ? { ...segment, index } : segment);
+      assignPath(target, indexed, item, xml);
+    });
+    return;
+  }
+
+  let node: Record<string, any> = target;
+  segments.forEach((segment, position) => {
+    assertSafeSegment(segment.name);
+    const key = xml ? segment.qualifiedName : segment.name;
+    const last = position === segments.length - 1;
+
+    if (last) {
+      if (segment.attribute && xml) {
+        node[ATTRIBUTE_KEY] = { ...(node[ATTRIBUTE_KEY] || {}), [key]: value };
+      } else if (typeof segment.index === 'number') {
+        const items = Array.isArray(node[key]) ? node[key] : [];
+        items[segment.index] = value;
+        node[key] = items;
+      } else if (xml && isElementWithAttributes(node[key]) && (value === null || typeof value !== 'object')) {
+        node[key][TEXT_KEY] = value;
+      } else {
+        node[key] = value;
+      }
+      return;
+    }
+
+    if (typeof segment.index === 'number') {
+      const items = Array.isArray(node[key]) ? node[key] : [];
+      items[segment.index] = toContainer(items[segment.index]);
+      node[key] = items;
+      node = items[segment.index];
+    } else {
+      node[key] = toContainer(node[key]);
+      node = node[key];
+    }
+  });
+}
+
+/**
+ * 값이 비었는지 확인 (undefined, null, 빈 문자열)
+ */
+export function isEmptyValue(value: any): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+// 텍스트만 있거나 텍스트와 속성만 있는 XML 요소는 텍스트 값으로 취급
+export function unwrapText(value: any): any {
+  if (value && typeof value === 'object' && !Array.isArray(value) && TEXT_KEY in value
+    && Object.keys(value).every(key => key === TEXT_KEY || key === ATTRIBUTE_KEY)) {
+    return value[TEXT_KEY];
+  }
+  return value;
+}
+
+function assertSafeSegment(name: string, path?: string): void {
+  if (UNSAFE_SEGMENT_NAMES.has(name)) {
+    throw new ValidationError(`경로에 쓸 수 없는 이름입니다: ${name}`, 'path', path ?? name);
+  }
+}
+
+// 상속된 속성(toString 등)은 문서 값으로 보지 않음
+function ownValue(node: any, key: string): any {
+  return node !== null && typeof node === 'object' && Object.prototype.hasOwnProperty.call(node, key)
+    ? node[key]
+    : undefined;
+}
+
+function isElementWithAttributes(value: any): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && ATTRIBUTE_KEY in value;
+}
+
+// 중간 경로 노드 준비 (이미 텍스트가 있으면 텍스트를 보존한 요소로 변환)
+function toContainer(value: any): Record<string, any> {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return value;
+  }
+  return value === undefined || value === null ? {} : { [TEXT_KEY]: value };
+}
@@ -0,0 +1,33 @@
+/**
+ * 라우터 간에 공유하는 매핑 관련 서비스 인스턴스
+ * 메시지 매핑 API, MCP API, 영향 분석 API가 같은 매핑 데이터를 보도록 한 곳에서 생성
+ */
+
+import { MessageMappingService } from '../messageMappingService';
+import { LookupTableService } from '../LookupTableService';
+import { createMappingStore } from './store';
+import { createLookupTableStore } from '../lookup';
+import { logger } from '../../utils/logger';
+
+let sharedLookupTableService: LookupTableService | undefined;
+let sharedMessageMappingService: MessageMappingService | undefined;
+
+/**
+ * 공유 룩업 테이블 서비스 (매핑 변환에서 이름으로 참조, 환경 설정에 맞는 저장소 사용)
+ */
+export function getLookupTableService(): LookupTableService {
+  if (!sharedLookupTableService) {
+    sharedLookupTableService = new LookupTableService(createLookupTableStore());
+  }
+  return sharedLookupTableService;
+}
+
+/**
+ * 공유 메시지 매핑 서비스 (환경 설정에 맞는 저장소 사용)
+ */
+export function getMessageMappingService(): MessageMappingService {
+  if (!sharedMessageMappingService) {
+    sharedMessageMappingService = new MessageMappingService(logger, getLookupTableService(), createMappingStore());
+  }
+  return sharedMessageMappingService;
+}
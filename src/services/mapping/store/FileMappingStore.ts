@@ -0,0 +1,66 @@
+/**
+ * 파일 시스템 기반 메시지 매핑 저장소 (기본 어댑터)
+ * 매핑 ID마다 <인코딩된 ID>.json 파일로 저장하며 임시 파일에 쓴 뒤 이름을 바꿔 부분 기록을 방지
+ * 매핑 ID는 요청 경로에서 그대로 오므로 파일 이름에는 URI 인코딩한 값을 사용
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { MessageMappingRecord, MessageMappingStore } from '../../../types/mapping';
+import { Logger } from '../../../core/logging/Logger';
+import { writeJsonAtomic } from '../../../core/utils/fileUtils';
+import { deserializeMappingRecord } from './mappingRecord';
+
+export class FileMappingStore implements MessageMappingStore {
+  private logger: Logger;
+
+  constructor(private readonly directory: string) {
+    this.logger = Logger.getInstance();
+  }
+
+  async loadAll(): Promise<MessageMappingRecord[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const records: MessageMappingRecord[] = [];
+    for (const entry of entries.filter(name => name.endsWith('.json'))) {
+      try {
+        records.push(deserializeMappingRecord(await fs.readFile(path.join(this.directory, entry), 'utf-8')));
+      } catch (error) {
+        // 손상된 파일 하나 때문에 서비스 시작이 실패하지 않도록 건너뜀
+        this.logger.warn('메시지 매핑 파일을 읽을 수 없어 건너뜀', {
+          file: entry,
+          error: error instanceof Error ? error.message : '알 수 없는 오류'
+        });
+      }
+    }
+    return records;
+  }
+
+  async save(record: MessageMappingRecord): Promise<void> {
+    await writeJsonAtomic(this.filePath(record.id), record);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.filePath(id));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private filePath(id: string): string {
+    return path.join(this.directory, `${encodeURIComponent(id)}.json`);
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * 메모리 기반 메시지 매핑 저장소 (테스트 및 임시 실행용, 재시작하면 초기화)
+ */
+
+import { MessageMappingRecord, MessageMappingStore } from '../../../types/mapping';
+import { cloneMappingRecord } from './mappingRecord';
+
+export class InMemoryMappingStore implements MessageMappingStore {
+  private records = new Map<string, MessageMappingRecord>();
+
+  async loadAll(): Promise<MessageMappingRecord[]> {
+    return Array.from(this.records.values()).map(cloneMappingRecord);
+  }
+
+  async save(record: MessageMappingRecord): Promise<void> {
+    this.records.set(record.id, cloneMappingRecord(record));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.records.delete(id);
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * 메시지 매핑 저장소 어댑터 생성
+ */
+
+import path from 'path';
+import { MessageMappingStore } from '../../../types/mapping';
+import { ConfigManager } from '../../../core/config/ConfigManager';
+import { FileMappingStore } from './FileMappingStore';
+import { InMemoryMappingStore } from './InMemoryMappingStore';
+
+export { FileMappingStore } from './FileMappingStore';
+export { InMemoryMappingStore } from './InMemoryMappingStore';
+
+/**
+ * 환경 설정(MAPPING_STORAGE_DRIVER, MAPPING_STORAGE_DIR)에 맞는 저장소 생성
+ */
+export function createMappingStore(): MessageMappingStore {
+  const { driver, directory } = ConfigManager.getInstance().getMappingStorageConfig();
+
+  if (driver === 'memory') {
+    return new InMemoryMappingStore();
+  }
+  return new FileMappingStore(path.resolve(process.cwd(), directory));
+}
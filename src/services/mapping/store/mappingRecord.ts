@@ -0,0 +1,78 @@
+/**
+ * 메시지 매핑 레코드 직렬화 (저장소 어댑터 공통)
+ */
+
+import { MessageMappingRecord } from '../../../types/mapping';
+import { ValidationError } from '../../../types/errors';
+
+const RECORD_LIST_FIELDS = ['rules', 'transformations', 'collaboration', 'suggestions', 'testCases'] as const;
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toDate(value: unknown, field: string): Date {
+  const date = typeof value === 'string' || typeof value === 'number' || value instanceof Date
+    ? new Date(value)
+    : undefined;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new ValidationError(`${field} must be a valid date`, field, value);
+  }
+  return date;
+}
+
+/**
+ * JSON으로 직렬화된 레코드 복원 (날짜 필드를 Date로 되돌림)
+ * 형식이 맞지 않으면 ValidationError (번들 가져오기와 저장 파일 읽기에서 공통 사용)
+ */
+export function deserializeMappingRecord(content: string): MessageMappingRecord {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    throw new ValidationError(`Invalid mapping record JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!isObject(raw) || typeof raw.id !== 'string' || raw.id.trim() === '') {
+    throw new ValidationError('id is required', 'id');
+  }
+  if (raw.mapping !== undefined && raw.mapping !== null
+    && (!isObject(raw.mapping) || !isObject(raw.mapping.metadata))) {
+    throw new ValidationError('mapping.metadata is required', 'mapping.metadata', raw.mapping);
+  }
+  const invalidList = RECORD_LIST_FIELDS.find(key => raw[key] !== undefined && !Array.isArray(raw[key]));
+  if (invalidList) {
+    throw new ValidationError(`${invalidList} must be an array`, invalidList, raw[invalidList]);
+  }
+  const collaboration: any[] = raw.collaboration || [];
+  if (collaboration.some(event => !isObject(event))) {
+    throw new ValidationError('collaboration events must be objects', 'collaboration');
+  }
+
+  return {
+    ...raw,
+    id: raw.id,
+    mapping: raw.mapping
+      ? {
+        ...raw.mapping,
+        metadata: { ...raw.mapping.metadata, createdAt: toDate(raw.mapping.metadata.createdAt, 'mapping.metadata.createdAt') }
+      }
+      : undefined,
+    rules: raw.rules || [],
+    transformations: raw.transformations || [],
+    collaboration: collaboration.map((event, index) => ({
+      ...event,
+      timestamp: toDate(event.timestamp, `collaboration[${index}].timestamp`)
+    })),
+    suggestions: raw.suggestions || [],
+    testCases: raw.testCases || [],
+    updatedAt: toDate(raw.updatedAt, 'updatedAt')
+  } as MessageMappingRecord;
+}
+
+/**
+ * 저장소 밖에서 수정해도 저장된 값에 영향이 없도록 깊은 복사
+ */
+export function cloneMappingRecord(record: MessageMappingRecord): MessageMappingRecord {
+  return deserializeMappingRecord(JSON.stringify(record));
+}
@@ -0,0 +1,87 @@
+/**
+ * 매핑 변환 함수 목록
+ * TransformationRule.function 또는 AdvancedMappingRule.transformation에서 이름으로 호출하는 내장 변환
+ */
+
+import { ValidationError } from '../../types/errors';
+
+// 변환 실패는 ValidationError로 던지며 규칙 추적 결과에 실패로 기록됨
+export type TransformFunction = (value: any, parameters: Record<string, any>) => any;
+
+const DATE_TOKEN_PATTERN = /YYYY|MM|DD|HH|mm|ss/g;
+
+export function toNumber(value: any): number {
+  const number = typeof value === 'number' ? value : Number(String(value).trim());
+  if (String(value).trim() === '' || Number.isNaN(number)) {
+    throw new ValidationError(`숫자로 변환할 수 없는 값입니다: ${value}`, 'value', value);
+  }
+  return number;
+}
+
+export function toBoolean(value: any): boolean {
+  const normalized = String(value).trim().toLowerCase();
+  if (['true', '1', 'y', 'yes'].includes(normalized)) {
+    return true;
+  }
+  if (['false', '0', 'n', 'no'].includes(normalized)) {
+    return false;
+  }
+  throw new ValidationError(`불리언으로 변환할 수 없는 값입니다: ${value}`, 'value', value);
+}
+
+export function formatDate(value: any, format: string): string {
+  const date = value instanceof Date ? value : new Date(String(value));
+  if (Number.isNaN(date.getTime())) {
+    throw new ValidationError(`날짜로 변환할 수 없는 값입니다: ${value}`, 'value', value);
+  }
+
+  const pad = (number: number) => String(number).padStart(2, '0');
+  const parts: Record<string, string> = {
+    YYYY: String(date.getUTCFullYear()),
+    MM: pad(date.getUTCMonth() + 1),
+    DD: pad(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds())
+  };
+  return format.replace(DATE_TOKEN_PATTERN, token => parts[token]!);
+}
+
+export const TRANSFORM_FUNCTIONS: Record<string, TransformFunction> = {
+  uppercase: value => String(value).toUpperCase(),
+  lowercase: value => String(value).toLowerCase(),
+  trim: value => String(value).trim(),
+  // { start, end? }
+  substring: (value, { start = 0, end }) => String(value).substring(Number(start), end === undefined ? undefined : Number(end)),
+  // { pattern, replacement?, flags? } (pattern은 정규식 문자열)
+  replace: (value, { pattern, replacement = '', flags = 'g' }) => {
+    if (typeof pattern !== 'string') {
+      throw new ValidationError('replace 변환에는 pattern 파라미터가 필요합니다', 'pattern', pattern);
+    }
+    return String(value).replace(new RegExp(pattern, flags), String(replacement));
+  },
+  prefix: (value, { value: prefix = '' }) => `${prefix}${value}`,
+  suffix: (value, { value: suffix = '' }) => `${value}${suffix}`,
+  // { length, char? }
+  padStart: (value, { length, char = '0' }) => String(value).padStart(Number(length), String(char)),
+  // { values: { 원래값: 새값 }, default? }
+  map: (value, { values = {}, default: fallback }) => {
+    const key = String(value);
+    if (Object.prototype.hasOwnProperty.call(values, key)) {
+      return values[key];
+    }
+    return fallback === undefined ? value : fallback;
+  },
+  // { format } (YYYY, MM, DD, HH, mm, ss, UTC 기준)
+  formatDate: (value, { format = 'YYYY-MM-DD' }) => formatDate(value, String(format)),
+  string: value => String(value),
+  number: value => toNumber(value),
+  integer: value => Math.trunc(toNumber(value)),
+  boolean: value => toBoolean(value)
+};
+
+// transformation/function이 이 형태면 변환 이름 (|로 연결), 아니면 식 언어
+export const TRANSFORMATION_NAMES_PATTERN = /^\s*[A-Za-z_][\w-]*(\s*\|\s*[A-Za-z_][\w-]*)*\s*$/;
+
+// dataType 규칙에서 transformation으로 지정할 수 있는 대상 타입
+export const DATA_TYPE_FUNCTIONS = ['string', 'number', 'integer', 'boolean'];
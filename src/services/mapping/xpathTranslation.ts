@@ -0,0 +1,440 @@
+/**
+ * 매핑 규칙 → XPath 1.0 변환
+ * XSLT 내보내기에서 원본 경로, 내장 변환, 식 언어 구문 트리를 XPath 1.0 식으로 옮김
+ *
+ * - 원본 경로는 네임스페이스 접두사와 무관하게 local-name()으로 비교 (엔진과 같은 방식)
+ * - XPath 1.0에는 조건 식이 없으므로 ?:, ??, if, map 등은 substring 길이를 조건으로 곱하는 방식으로 표현
+ * - 옮길 수 없는 함수/변환은 ValidationError (내보내기에서 규칙별 경고로 기록)
+ */
+
+import { ValidationError } from '../../types/errors';
+import { PathSegment } from './mappingPath';
+import { ExpressionNode } from '../expression';
+
+export const XSLT_NAMESPACE = 'http://www.w3.org/1999/XSL/Transform';
+
+const LOWER_CASE = 'abcdefghijklmnopqrstuvwxyz';
+const UPPER_CASE = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const DATE_TOKEN_PATTERN = /YYYY|MM|DD|HH|mm|ss/g;
+// ISO 8601 문자열(YYYY-MM-DDTHH:mm:ss)에서 각 토큰의 위치와 길이
+const DATE_TOKEN_POSITIONS: Record<string, [number, number]> = {
+  YYYY: [1, 4], MM: [6, 2], DD: [9, 2], HH: [12, 2], mm: [15, 2], ss: [18, 2]
+};
+
+type XPathType = 'nodes' | 'string' | 'number' | 'boolean';
+
+interface Translated {
+  xpath: string;
+  type: XPathType;
+}
+
+export interface XPathScope {
+  // 식의 value가 가리키는 XPath (현재 값 변수)
+  value?: string;
+  // 변환 파라미터 (스칼라는 리터럴로, 객체는 lookup 테이블로 사용)
+  parameters?: Record<string, any>;
+}
+
+function unsupported(detail: string): ValidationError {
+  return new ValidationError(`XSLT 1.0으로 옮길 수 없습니다: ${detail}`, 'xslt', detail);
+}
+
+/**
+ * XPath 문자열 리터럴 (작은/큰따옴표가 모두 있으면 concat으로 분리)
+ */
+export function xpathLiteral(value: string): string {
+  if (!value.includes("'")) {
+    return `'${value}'`;
+  }
+  if (!value.includes('"')) {
+    return `"${value}"`;
+  }
+  return `concat(${value.split("'").map(part => `'${part}'`).join(`, "'", `)})`;
+}
+
+function step(name: string, attribute: boolean): string {
+  return `${attribute ? '@' : ''}*[local-name()=${xpathLiteral(name)}]`;
+}
+
+/**
+ * 경로 조각을 XPath 위치 경로로 (absolute면 문서 루트부터, 아니면 현재 노드 기준)
+ * [n]은 [n+1], [*]와 인덱스 없는 반복은 모든 항목
+ */
+export function segmentsToXPath(segments: PathSegment[], absolute: boolean): string {
+  const steps = segments.map(segment =>
+    step(segment.name, segment.attribute) + (typeof segment.index === 'number' ? `[${segment.index + 1}]` : ''));
+  if (absolute) {
+    return `/${steps.join('/')}`;
+  }
+  return steps.length > 0 ? steps.join('/') : '.';
+}
+
+// 조건부 문자열: test가 참이면 whenTrue, 거짓이면 whenFalse (둘 다 문자열 식)
+function chooseString(test: string, whenTrue: string, whenFalse: string): string {
+  return `concat(substring(${whenTrue}, 1, number(${test}) * string-length(${whenTrue})), `
+    + `substring(${whenFalse}, 1, number(not(${test})) * string-length(${whenFalse})))`;
+}
+
+function concatStrings(parts: string[]): string {
+  if (parts.length === 0) {
+    return "''";
+  }
+  return parts.length === 1 ? parts[0]! : `concat(${parts.join(', ')})`;
+}
+
+function padString(input: string, length: any, char: any, end: boolean): string {
+  const size = Number(length);
+  if (!Number.isInteger(size) || size < 0 || String(char ?? '').length === 0) {
+    throw unsupported(`채울 길이/문자 ${length}, ${char}`);
+  }
+  const pad = xpathLiteral(String(char).repeat(size).substring(0, size));
+  const fill = `substring(${pad}, 1, (${size} - string-length(${input})) * number(string-length(${input}) < ${size}))`;
+  return end ? `concat(${input}, ${fill})` : `concat(${fill}, ${input})`;
+}
+
+// map/lookup: 키가 일치하는 값, 없으면 fallback
+function mapString(input: string, entries: Array<[string, any]>, fallback: string): string {
+  const parts = entries.map(([key, value]) => {
+    const literal = xpathLiteral(String(value));
+    return `substring(${literal}, 1, number(${input} = ${xpathLiteral(key)}) * string-length(${literal}))`;
+  });
+  const noMatch = entries.length > 0
+    ? `not(${entries.map(([key]) => `${input} = ${xpathLiteral(key)}`).join(' or ')})`
+    : 'true()';
+  parts.push(`substring(${fallback}, 1, number(${noMatch}) * string-length(${fallback}))`);
+  return concatStrings(parts);
+}
+
+// ISO 8601 입력 기준 날짜 형식화 (UTC 변환 없음)
+function formatDateString(input: string, format: string): string {
+  const parts: string[] = [];
+  let last = 0;
+  format.replace(DATE_TOKEN_PATTERN, (token, offset: number) => {
+    if (offset > last) {
+      parts.push(xpathLiteral(format.substring(last, offset)));
+    }
+    const [start, length] = DATE_TOKEN_POSITIONS[token]!;
+    parts.push(`substring(${input}, ${start}, ${length})`);
+    last = offset + token.length;
+    return token;
+  });
+  if (last < format.length) {
+    parts.push(xpathLiteral(format.substring(last)));
+  }
+  return concatStrings(parts);
+}
+
+// 한 글자를 한 글자 이하로 바꾸는 replace만 translate()로 표현 (regex면 정규식 한 글자 또는 \로 이스케이프한 글자)
+function translateChar(input: string, pattern: any, replacement: any, regex: boolean): string {
+  const source = String(pattern ?? '');
+  const escaped = regex && /^\\.$/.test(source);
+  const search = escaped ? source.substring(1) : source;
+  const value = String(replacement ?? '');
+  if (search.length !== 1 || value.length > 1 || (regex && !escaped && /[.*+?^${}()|[\]\\]/.test(search))) {
+    throw unsupported(`replace ${source} (한 글자를 한 글자 이하로 바꾸는 경우만 지원)`);
+  }
+  return `translate(${input}, ${xpathLiteral(search)}, ${xpathLiteral(value)})`;
+}
+
+/**
+ * 내장 변환(TRANSFORM_FUNCTIONS)을 XPath 문자열 식으로 (input은 문자열 식)
+ */
+export function transformToXPath(name: string, parameters: Record<string, any>, input: string): string {
+  switch (name) {
+    case 'uppercase':
+      return `translate(${input}, '${LOWER_CASE}', '${UPPER_CASE}')`;
+    case 'lowercase':
+      return `translate(${input}, '${UPPER_CASE}', '${LOWER_CASE}')`;
+    case 'trim':
+      return `normalize-space(${input})`;
+    case 'substring': {
+      const start = Number(parameters.start ?? 0);
+      return parameters.end === undefined
+        ? `substring(${input}, ${start + 1})`
+        : `substring(${input}, ${start + 1}, ${Number(parameters.end) - start})`;
+    }
+    case 'replace':
+      return translateChar(input, parameters.pattern, parameters.replacement, true);
+    case 'prefix':
+      return `concat(${xpathLiteral(String(parameters.value ?? ''))}, ${input})`;
+    case 'suffix':
+      return `concat(${input}, ${xpathLiteral(String(parameters.value ?? ''))})`;
+    case 'padStart':
+      return padString(input, parameters.length, parameters.char ?? '0', false);
+    case 'map':
+      return mapString(
+        input,
+        Object.entries(parameters.values || {}),
+        parameters.default === undefined ? input : xpathLiteral(String(parameters.default))
+      );
+    case 'formatDate':
+      return formatDateString(input, String(parameters.format ?? 'YYYY-MM-DD'));
+    case 'string':
+      return `string(${input})`;
+    case 'number':
+      return `number(${input})`;
+    case 'integer':
+      return `(number(${input}) - (number(${input}) mod 1))`;
+    case 'boolean': {
+      const normalized = `translate(normalize-space(${input}), '${UPPER_CASE}', '${LOWER_CASE}')`;
+      return chooseString(`contains('|true|1|y|yes|', concat('|', ${normalized}, '|')) and ${normalized} != ''`, "'true'", "'false'");
+    }
+    default:
+      throw unsupported(`변환 ${name}`);
+  }
+}
+
+function asString(value: Translated): string {
+  return value.type === 'string' ? value.xpath : `string(${value.xpath})`;
+}
+
+function asNumber(value: Translated): string {
+  return value.type === 'number' ? value.xpath : `number(${value.xpath})`;
+}
+
+// 엔진의 참/거짓 판단: 값이 있으면 참 (숫자는 0이 아니면 참)
+function asBoolean(value: Translated): string {
+  switch (value.type) {
+    case 'boolean':
+      return value.xpath;
+    case 'number':
+      return `(${value.xpath} != 0)`;
+    default:
+      return `(${asString(value)} != '')`;
+  }
+}
+
+function literalNumber(node: ExpressionNode | undefined, what: string): number {
+  if (!node || node.kind !== 'literal' || typeof node.value !== 'number') {
+    throw unsupported(`${what}는 숫자 리터럴이어야 합니다`);
+  }
+  return node.value;
+}
+
+function literalString(node: ExpressionNode | undefined, what: string): string {
+  if (!node || node.kind !== 'literal' || node.value === null || typeof node.value === 'object') {
+    throw unsupported(`${what}는 리터럴이어야 합니다`);
+  }
+  return String(node.value);
+}
+
+class ExpressionTranslator {
+  constructor(private scope: XPathScope) {}
+
+  translate(node: ExpressionNode): Translated {
+    switch (node.kind) {
+      case 'literal':
+        if (node.value === null) {
+          return { xpath: "''", type: 'string' };
+        }
+        if (typeof node.value === 'boolean') {
+          return { xpath: node.value ? 'true()' : 'false()', type: 'boolean' };
+        }
+        return typeof node.value === 'number'
+          ? { xpath: String(node.value), type: 'number' }
+          : { xpath: xpathLiteral(String(node.value)), type: 'string' };
+      case 'root':
+        return { xpath: '/', type: 'nodes' };
+      case 'identifier':
+        return this.identifier(node.name);
+      case 'member': {
+        const object = this.translate(node.object);
+        if (object.type !== 'nodes') {
+          throw unsupported(`값이 아닌 경로에서 ${node.property} 읽기`);
+        }
+        const separator = object.xpath.endsWith('/') ? '' : '/';
+        return { xpath: `${object.xpath}${separator}${step(node.property, node.attribute)}`, type: 'nodes' };
+      }
+      case 'index': {
+        const object = this.translate(node.object);
+        if (object.type !== 'nodes') {
+          throw unsupported('값이 아닌 경로의 인덱스');
+        }
+        if (node.index.kind === 'literal' && typeof node.index.value === 'number' && node.index.value >= 0) {
+          return { xpath: `(${object.xpath})[${node.index.value + 1}]`, type: 'nodes' };
+        }
+        const name = literalString(node.index, '경로 인덱스');
+        const separator = object.xpath.endsWith('/') ? '' : '/';
+        return { xpath: `${object.xpath}${separator}${step(name, false)}`, type: 'nodes' };
+      }
+      case 'array':
+        throw unsupported('목록 리터럴');
+      case 'unary': {
+        const operand = this.translate(node.operand);
+        return node.operator === '!'
+          ? { xpath: `not(${asBoolean(operand)})`, type: 'boolean' }
+          : { xpath: `(0 - ${asNumber(operand)})`, type: 'number' };
+      }
+      case 'logical': {
+        const left = this.translate(node.left);
+        const right = this.translate(node.right);
+        if (node.operator === '??') {
+          return { xpath: chooseString(`${asString(left)} != ''`, asString(left), asString(right)), type: 'string' };
+        }
+        return { xpath: `(${asBoolean(left)} ${node.operator === '&&' ? 'and' : 'or'} ${asBoolean(right)})`, type: 'boolean' };
+      }
+      case 'binary':
+        return this.binary(node.operator, node.left, node.right);
+      case 'conditional': {
+        const test = asBoolean(this.translate(node.test));
+        return {
+          xpath: chooseString(test, asString(this.translate(node.consequent)), asString(this.translate(node.alternate))),
+          type: 'string'
+        };
+      }
+      case 'call':
+        return this.call(node.callee, node.args);
+    }
+  }
+
+  private identifier(name: string): Translated {
+    if (name === 'value' && this.scope.value !== undefined) {
+      return { xpath: this.scope.value, type: 'string' };
+    }
+    const parameters = this.scope.parameters || {};
+    if (Object.prototype.hasOwnProperty.call(parameters, name)) {
+      const parameter = parameters[name];
+      if (typeof parameter === 'number') {
+        return { xpath: String(parameter), type: 'number' };
+      }
+      if (typeof parameter === 'boolean') {
+        return { xpath: parameter ? 'true()' : 'false()', type: 'boolean' };
+      }
+      if (parameter === null || typeof parameter !== 'object') {
+        return { xpath: xpathLiteral(String(parameter ?? '')), type: 'string' };
+      }
+      throw unsupported(`파라미터 ${name}는 lookup 테이블로만 사용할 수 있습니다`);
+    }
+    return { xpath: `/${step(name, false)}`, type: 'nodes' };
+  }
+
+  private binary(operator: string, leftNode: ExpressionNode, rightNode: ExpressionNode): Translated {
+    const left = this.translate(leftNode);
+    const right = this.translate(rightNode);
+    const isNull = (node: ExpressionNode) => node.kind === 'literal' && node.value === null;
+
+    switch (operator) {
+      case '==':
+      case '!=': {
+        // null 비교는 값 존재 여부
+        if (isNull(leftNode) || isNull(rightNode)) {
+          const value = isNull(leftNode) ? right : left;
+          return { xpath: `(${asString(value)} ${operator === '==' ? '=' : '!='} '')`, type: 'boolean' };
+        }
+        const equal = `(${left.xpath} = ${right.xpath})`;
+        return { xpath: operator === '==' ? equal : `not${equal}`, type: 'boolean' };
+      }
+      case '<':
+      case '<=':
+      case '>':
+      case '>=':
+        return { xpath: `(${left.xpath} ${operator} ${right.xpath})`, type: 'boolean' };
+      case '&':
+        return { xpath: `concat(${asString(left)}, ${asString(right)})`, type: 'string' };
+      default: {
+        const xpathOperator = operator === '/' ? 'div' : operator === '%' ? 'mod' : operator;
+        return { xpath: `(${asNumber(left)} ${xpathOperator} ${asNumber(right)})`, type: 'number' };
+      }
+    }
+  }
+
+  private call(callee: string, args: ExpressionNode[]): Translated {
+    const string = (index: number) => asString(this.translate(args[index]!));
+    const number = (index: number) => asNumber(this.translate(args[index]!));
+
+    switch (callee) {
+      case 'upper':
+      case 'lower':
+      case 'trim':
+        return { xpath: transformToXPath({ upper: 'uppercase', lower: 'lowercase', trim: 'trim' }[callee], {}, string(0)), type: 'string' };
+      case 'substring':
+        return {
+          xpath: args.length > 2
+            ? `substring(${string(0)}, ${number(1)} + 1, ${number(2)} - ${number(1)})`
+            : `substring(${string(0)}, ${number(1)} + 1)`,
+          type: 'string'
+        };
+      case 'replace':
+        return {
+          xpath: translateChar(string(0), literalString(args[1], 'replace 찾을 문자열'), literalString(args[2], 'replace 바꿀 문자열'), false),
+          type: 'string'
+        };
+      case 'padStart':
+      case 'padEnd':
+        return {
+          xpath: padString(string(0), literalNumber(args[1], '채울 길이'), args[2] ? literalString(args[2], '채울 문자') : ' ', callee === 'padEnd'),
+          type: 'string'
+        };
+      case 'startsWith':
+        return { xpath: `starts-with(${string(0)}, ${string(1)})`, type: 'boolean' };
+      case 'endsWith':
+        return {
+          xpath: `(substring(${string(0)}, string-length(${string(0)}) - string-length(${string(1)}) + 1) = ${string(1)})`,
+          type: 'boolean'
+        };
+      case 'contains':
+        return { xpath: `contains(${string(0)}, ${string(1)})`, type: 'boolean' };
+      case 'concat':
+        return { xpath: concatStrings(args.map((_arg, index) => string(index))), type: 'string' };
+      case 'length':
+        return { xpath: `string-length(${string(0)})`, type: 'number' };
+      case 'number':
+        return { xpath: number(0), type: 'number' };
+      case 'integer':
+        return { xpath: `(${number(0)} - (${number(0)} mod 1))`, type: 'number' };
+      case 'round': {
+        if (args.length < 2) {
+          return { xpath: `round(${number(0)})`, type: 'number' };
+        }
+        const factor = 10 ** literalNumber(args[1], '자릿수');
+        return { xpath: `(round(${number(0)} * ${factor}) div ${factor})`, type: 'number' };
+      }
+      case 'floor':
+      case 'ceil':
+        return { xpath: `${callee === 'ceil' ? 'ceiling' : 'floor'}(${number(0)})`, type: 'number' };
+      case 'abs':
+        return { xpath: `(${number(0)} * (1 - 2 * number(${number(0)} < 0)))`, type: 'number' };
+      case 'sum':
+      case 'count': {
+        const nodes = this.translate(args[0]!);
+        if (args.length > 1 || nodes.type !== 'nodes') {
+          throw unsupported(`${callee}는 경로 하나에만 사용할 수 있습니다`);
+        }
+        return { xpath: `${callee}(${nodes.xpath})`, type: 'number' };
+      }
+      case 'string':
+        return { xpath: string(0), type: 'string' };
+      case 'isEmpty':
+      case 'exists':
+        return { xpath: `(${string(0)} ${callee === 'isEmpty' ? '=' : '!='} '')`, type: 'boolean' };
+      case 'if':
+        return { xpath: chooseString(asBoolean(this.translate(args[0]!)), string(1), string(2)), type: 'string' };
+      case 'coalesce':
+        return {
+          xpath: args.map((_arg, index) => string(index)).reduceRight((fallback, value) => chooseString(`${value} != ''`, value, fallback)),
+          type: 'string'
+        };
+      case 'formatDate':
+        return { xpath: formatDateString(string(0), args[1] ? literalString(args[1], '날짜 형식') : 'YYYY-MM-DD'), type: 'string' };
+      case 'lookup': {
+        const table = args[0]!;
+        const entries = table.kind === 'identifier' ? this.scope.parameters?.[table.name] : undefined;
+        if (!entries || typeof entries !== 'object' || Array.isArray(entries)) {
+          throw unsupported('lookup 테이블은 변환 파라미터 객체여야 합니다');
+        }
+        const fallback = args[2] ? string(2) : "''";
+        return { xpath: mapString(string(1), Object.entries(entries), fallback), type: 'string' };
+      }
+      default:
+        throw unsupported(`함수 ${callee}`);
+    }
+  }
+}
+
+/**
+ * 식 언어 구문 트리를 XPath 1.0 식으로 (문서 경로는 절대 경로)
+ */
+export function expressionToXPath(node: ExpressionNode, scope: XPathScope = {}): { xpath: string; test: string; text: string } {
+  const translated = new ExpressionTranslator(scope).translate(node);
+  return { xpath: translated.xpath, test: asBoolean(translated), text: asString(translated) };
+}
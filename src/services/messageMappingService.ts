@@ -1,4 +1,50 @@
 // import { logger } from "../utils/logger"; // TODO: 필요시 사용
+import * as yaml from "js-yaml";
+import * as xml2js from "xml2js";
+import { MappingEngine } from "./mapping/MappingEngine";
+import { XsltExporter } from "./mapping/XsltExporter";
+import { JsonTransformExporter } from "./mapping/JsonTransformExporter";
+import { FieldMatcher } from "./mapping/FieldMatcher";
+import { MappingTestRunner } from "./mapping/MappingTestRunner";
+import {
+  JsonTransformExportResult,
+  JsonTransformSpec,
+  MAPPING_BUNDLE_FORMAT,
+  MAPPING_BUNDLE_VERSION,
+  MappingBundle,
+  MappingBundleImportOptions,
+  MappingBundleImportResult,
+  MappingDocumentFormat,
+  MappingExecutionOptions,
+  MappingExecutionResult,
+  MappingListQuery,
+  MappingListResult,
+  MappingSuggestion,
+  MappingSuggestionOptions,
+  MappingSuggestionStatus,
+  MappingTestCase,
+  MappingTestRunResult,
+  MessageMappingRecord,
+  MessageMappingStore,
+  XsltExportResult,
+} from "../types/mapping";
+import { SchemaGridData } from "../types/schema";
+import { LookupTableResolver } from "../types/lookup";
+import { ConflictError, InternalServerError, NotFoundError, ValidationError } from "../types/errors";
+import { RuleExpressionError } from "../types/expression";
+import { validateExpression } from "./expression";
+import { TRANSFORMATION_NAMES_PATTERN } from "./mapping/transformFunctions";
+import { SchemaValidationService } from "./SchemaValidationService";
+import { InMemoryMappingStore } from "./mapping/store/InMemoryMappingStore";
+import { deserializeMappingRecord } from "./mapping/store/mappingRecord";
+
+const DEFAULT_PAGE_SIZE = 20;
+// XML Name production without ':' (no namespace prefixes are declared for generated elements)
+const XML_NAME_START_CHARS = "A-Z_a-z\\u00C0-\\u00D6\\u00D8-\\u00F6\\u00F8-\\u02FF\\u0370-\\u037D\\u037F-\\u1FFF\\u200C-\\u200D"
+  + "\\u2070-\\u218F\\u2C00-\\u2FEF\\u3001-\\uD7FF\\uF900-\\uFDCF\\uFDF0-\\uFFFD\\u{10000}-\\u{EFFFF}";
+const XML_NAME_PATTERN = new RegExp(
+  `^[${XML_NAME_START_CHARS}][${XML_NAME_START_CHARS}\\-.0-9\\u00B7\\u0300-\\u036F\\u203F-\\u2040]*$`, "u",
+);
 
 interface MessageMapping {
   id: string;
@@ -83,10 +129,40 @@ class MessageMappingService {
   private mappingRules: Map<string, AdvancedMappingRule[]> = new Map();
   private transformationRules: Map<string, TransformationRule[]> = new Map();
   private collaborationHistory: Map<string, CollaborationData[]> = new Map();
+  private ruleSuggestions: Map<string, MappingSuggestion[]> = new Map();
+  private testCases: Map<string, MappingTestCase[]> = new Map();
+  private engine: MappingEngine;
+  private testRunner: MappingTestRunner;
+  private schemaValidator = new SchemaValidationService();
+  private loaded: Promise<void>;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  // Lookup tables are resolved by name from transformation parameters and lookup() expressions.
+  // Stored records are loaded once in the background; changes wait for the load and are then
+  // written back through the store. Reads come from memory, so readers should await ready() first.
+  constructor(
+    private logger: any = logger,
+    lookupTables?: LookupTableResolver,
+    private store: MessageMappingStore = new InMemoryMappingStore(),
+  ) {
+    this.engine = new MappingEngine(lookupTables);
+    this.testRunner = new MappingTestRunner(this.engine);
+    this.loaded = this.store.loadAll()
+      .then(records => records.forEach(record => this.restoreRecord(record)))
+      .catch(error => {
+        this.logger.error("Failed to load stored message mappings", { error });
+        throw new InternalServerError("Stored message mappings could not be loaded", error);
+      });
+    // The failure is reported by ready() and every change; mark it handled so it is not an unhandled rejection
+    this.loaded.catch(() => undefined);
+  }
 
-  constructor(private logger: any = logger) {}
+  ready(): Promise<void> {
+    return this.loaded;
+  }
 
-  generateMapping(config: Configuration, source: string): MessageMapping {
+  async generateMapping(config: Configuration, source: string): Promise<MessageMapping> {
+    await this.loaded;
     const startTime = Date.now();
     const id = this.generateId();
 
@@ -112,6 +188,7 @@ class MessageMappingService {
     };
 
     this.mappings.set(id, mapping);
+    await this.persist(id);
     this.logger.info(`Generated message mapping with ID: ${id}`);
     return mapping;
   }
@@ -120,9 +197,11 @@ class MessageMappingService {
     return this.mappings.get(id);
   }
 
-  clearMapping(id: string): boolean {
+  async clearMapping(id: string): Promise<boolean> {
+    await this.loaded;
     const deleted = this.mappings.delete(id);
     if (deleted) {
+      await this.persist(id);
       this.logger.info(`Cleared message mapping with ID: ${id}`);
     }
     return deleted;
@@ -132,9 +211,34 @@ class MessageMappingService {
     return Array.from(this.mappings.values());
   }
 
+  // Newest first; search matches the ID, root element, message type and data type (case-insensitive)
+  listMappings(query: MappingListQuery = {}): MappingListResult {
+    const page = Math.max(1, query.page || 1);
+    const limit = Math.max(1, query.limit || DEFAULT_PAGE_SIZE);
+    const search = query.search?.trim().toLowerCase();
+
+    const matched = this.getAllMappings()
+      .filter(mapping => !search || [
+        mapping.id,
+        mapping.configuration?.rootElement,
+        mapping.configuration?.messageType,
+        mapping.configuration?.dataType,
+      ].some(value => typeof value === "string" && value.toLowerCase().includes(search)))
+      .sort((a, b) => b.metadata.createdAt.getTime() - a.metadata.createdAt.getTime() || a.id.localeCompare(b.id));
+
+    return {
+      items: matched.slice((page - 1) * limit, page * limit),
+      total: matched.length,
+      page,
+      limit,
+    };
+  }
+
   // Advanced mapping features
-  createAdvancedMappingRules(mappingId: string, rules: AdvancedMappingRule[]): void {
+  async createAdvancedMappingRules(mappingId: string, rules: AdvancedMappingRule[]): Promise<void> {
+    await this.loaded;
     this.mappingRules.set(mappingId, rules);
+    await this.persist(mappingId);
     this.logger.info(`Created ${rules.length} advanced mapping rules for mapping ID: ${mappingId}`);
   }
 
@@ -142,11 +246,18 @@ class MessageMappingService {
     return this.mappingRules.get(mappingId) || [];
   }
 
-  createTransformationRule(mappingId: string, rule: TransformationRule): void {
+  // IDs of every mapping that has advanced or transformation rules (rules may exist without a generated mapping)
+  getRuleMappingIds(): string[] {
+    return Array.from(new Set([...this.mappingRules.keys(), ...this.transformationRules.keys()]));
+  }
+
+  async createTransformationRule(mappingId: string, rule: TransformationRule): Promise<void> {
+    await this.loaded;
     if (!this.transformationRules.has(mappingId)) {
       this.transformationRules.set(mappingId, []);
     }
     this.transformationRules.get(mappingId)!.push(rule);
+    await this.persist(mappingId);
     this.logger.info(`Created transformation rule for mapping ID: ${mappingId}`);
   }
 
@@ -154,12 +265,290 @@ class MessageMappingService {
     return this.transformationRules.get(mappingId) || [];
   }
 
+  // Syntax check for the expression-language fields of rules, so broken rules are rejected
+  // when saved instead of failing on every execution. Name-list transformations are not expressions.
+  findRuleExpressionErrors(rules: AdvancedMappingRule[], transformations: TransformationRule[] = []): RuleExpressionError[] {
+    const errors: RuleExpressionError[] = [];
+    const check = (ruleId: string, field: string, expression: string | undefined) => {
+      const diagnostic = expression ? validateExpression(expression) : undefined;
+      if (diagnostic) {
+        errors.push({ ruleId, field, ...diagnostic });
+      }
+    };
+
+    rules.forEach(rule => {
+      check(rule.id, "condition", rule.condition);
+      if (rule.type !== "dataType" && rule.transformation && !TRANSFORMATION_NAMES_PATTERN.test(rule.transformation)) {
+        check(rule.id, "transformation", rule.transformation);
+      }
+      if (rule.validation?.type === "custom") {
+        check(rule.id, "validation.function", rule.validation.function);
+      }
+    });
+    transformations.forEach(rule => {
+      if (rule.function && !TRANSFORMATION_NAMES_PATTERN.test(rule.function)) {
+        check(rule.id, "function", rule.function);
+      }
+    });
+
+    return errors;
+  }
+
+  // Rule execution
+  // Applies the stored advanced/transformation rules to a source document.
+  // Formats, root element and namespace default to the generated mapping's configuration.
+  async executeMapping(
+    mappingId: string,
+    source: string | Record<string, any>,
+    options: MappingExecutionOptions = {},
+  ): Promise<MappingExecutionResult | undefined> {
+    const mapping = this.mappings.get(mappingId);
+    const rules = this.getAdvancedMappingRules(mappingId);
+    if (!mapping && rules.length === 0) {
+      return undefined;
+    }
+
+    const result = await this.engine.execute(
+      source,
+      rules,
+      this.getTransformationRules(mappingId),
+      this.getExecutionOptions(mapping?.configuration, options),
+    );
+
+    this.logger.info(`Executed ${rules.length} mapping rules for mapping ID: ${mappingId}`);
+    return result;
+  }
+
+  // Mapping test cases
+  async addTestCase(mappingId: string, testCase: Omit<MappingTestCase, "id"> & { id?: string }): Promise<MappingTestCase> {
+    await this.loaded;
+    const cases = this.getTestCases(mappingId);
+    const id = testCase.id || this.generateId();
+    if (cases.some(item => item.id === id)) {
+      throw new ConflictError(`Test case ${id} already exists`, "testCase");
+    }
+
+    const created: MappingTestCase = { ...testCase, id };
+    this.testCases.set(mappingId, [...cases, created]);
+    await this.persist(mappingId);
+    this.logger.info(`Added test case ${id} for mapping ID: ${mappingId}`);
+    return created;
+  }
+
+  getTestCases(mappingId: string): MappingTestCase[] {
+    return this.testCases.get(mappingId) || [];
+  }
+
+  async updateTestCase(
+    mappingId: string,
+    caseId: string,
+    changes: Partial<Omit<MappingTestCase, "id">>,
+  ): Promise<MappingTestCase | undefined> {
+    await this.loaded;
+    const cases = this.getTestCases(mappingId);
+    const existing = cases.find(item => item.id === caseId);
+    if (!existing) {
+      return undefined;
+    }
+
+    const updated: MappingTestCase = { ...existing, ...changes, id: caseId };
+    this.testCases.set(mappingId, cases.map(item => (item.id === caseId ? updated : item)));
+    await this.persist(mappingId);
+    this.logger.info(`Updated test case ${caseId} for mapping ID: ${mappingId}`);
+    return updated;
+  }
+
+  async deleteTestCase(mappingId: string, caseId: string): Promise<boolean> {
+    await this.loaded;
+    const cases = this.getTestCases(mappingId);
+    const remaining = cases.filter(item => item.id !== caseId);
+    if (remaining.length === cases.length) {
+      return false;
+    }
+    this.testCases.set(mappingId, remaining);
+    await this.persist(mappingId);
+    this.logger.info(`Deleted test case ${caseId} for mapping ID: ${mappingId}`);
+    return true;
+  }
+
+  // Runs the stored test cases (all, or only caseIds) against the current rules
+  async runTestCases(mappingId: string, caseIds?: string[]): Promise<MappingTestRunResult | undefined> {
+    const mapping = this.mappings.get(mappingId);
+    const rules = this.getAdvancedMappingRules(mappingId);
+    if (!mapping && rules.length === 0) {
+      return undefined;
+    }
+
+    const cases = this.getTestCases(mappingId).filter(item => !caseIds || caseIds.includes(item.id));
+    const result = await this.testRunner.run(
+      mappingId,
+      cases,
+      rules,
+      this.getTransformationRules(mappingId),
+      this.getExecutionOptions(mapping?.configuration),
+    );
+
+    this.logger.info(
+      `Ran ${result.total} test cases for mapping ID: ${mappingId} (${result.passed} passed, ${result.failed} failed)`,
+    );
+    return result;
+  }
+
+  // XSLT export
+  // Builds an XSLT 1.0 stylesheet for XML-to-XML runs of the stored rules.
+  // Rules that cannot be expressed in XPath 1.0 are left out and reported as warnings.
+  exportXslt(mappingId: string): XsltExportResult | undefined {
+    const mapping = this.mappings.get(mappingId);
+    const rules = this.getAdvancedMappingRules(mappingId);
+    if (!mapping && rules.length === 0) {
+      return undefined;
+    }
+
+    const config = mapping?.configuration;
+    const result = new XsltExporter().export(rules, this.getTransformationRules(mappingId), {
+      rootElement: config?.rootElement || undefined,
+      namespace: config?.namespace || undefined,
+      encoding: config?.encoding || undefined,
+      mappingId,
+    });
+
+    this.logger.info(`Exported XSLT for mapping ID: ${mappingId} (${result.skippedRules.length} rules skipped)`);
+    return result;
+  }
+
+  // JSON transform export
+  // The spec carries the stored rules verbatim (for round-trip editing) plus a JSONata rendering for REST integrations.
+  exportJsonTransform(mappingId: string): JsonTransformExportResult | undefined {
+    const rules = this.getAdvancedMappingRules(mappingId);
+    if (!this.mappings.has(mappingId) && rules.length === 0) {
+      return undefined;
+    }
+
+    const result = new JsonTransformExporter().export(rules, this.getTransformationRules(mappingId), mappingId);
+    this.logger.info(`Exported JSON transform for mapping ID: ${mappingId} (${result.skippedRules.length} rules skipped)`);
+    return result;
+  }
+
+  // Runs a JSON transform spec locally (JSON in, JSON out) without storing it
+  async executeJsonTransform(spec: JsonTransformSpec, input: string | Record<string, any>): Promise<MappingExecutionResult> {
+    const { rules, transformations } = new JsonTransformExporter().toRules(spec);
+    return this.engine.execute(input, rules, transformations, { sourceFormat: "json", targetFormat: "json" });
+  }
+
+  // Replaces the mapping's advanced and transformation rules with those of the spec.
+  // Nothing is stored when the spec's rules contain expression syntax errors.
+  async importJsonTransform(
+    mappingId: string,
+    spec: JsonTransformSpec,
+  ): Promise<{ rules: AdvancedMappingRule[]; transformations: TransformationRule[]; errors: RuleExpressionError[] }> {
+    await this.loaded;
+    const { rules, transformations } = new JsonTransformExporter().toRules(spec);
+    const errors = this.findRuleExpressionErrors(rules, transformations);
+    if (errors.length === 0) {
+      this.mappingRules.set(mappingId, rules);
+      this.transformationRules.set(mappingId, transformations);
+      await this.persist(mappingId);
+      this.logger.info(`Imported ${rules.length} mapping rules from JSON transform for mapping ID: ${mappingId}`);
+    }
+    return { rules, transformations, errors };
+  }
+
+  // Field mapping suggestions
+  // Targets that already have a rule and pairs rejected earlier are not proposed again.
+  // A new run replaces the pending suggestions and keeps accepted/rejected ones as history.
+  async suggestMappingRules(
+    mappingId: string,
+    sourceGrid: SchemaGridData[][],
+    targetGrid: SchemaGridData[][],
+    options: MappingSuggestionOptions = {},
+  ): Promise<MappingSuggestion[]> {
+    await this.loaded;
+    const configuration = this.mappings.get(mappingId)?.configuration;
+    const mappedTargets = new Set(this.getAdvancedMappingRules(mappingId).map(rule => rule.targetPath));
+    const history = this.getRuleSuggestions(mappingId).filter(suggestion => suggestion.status !== "pending");
+    const rejected = new Set(
+      history
+        .filter(suggestion => suggestion.status === "rejected")
+        .map(suggestion => `${suggestion.sourcePath} -> ${suggestion.targetPath}`),
+    );
+
+    const suggestions = new FieldMatcher(options.synonyms)
+      .suggest(
+        sourceGrid,
+        targetGrid,
+        {
+          ...options,
+          sourceFormat: options.sourceFormat || this.toDocumentFormat(configuration?.dataType),
+          targetFormat: options.targetFormat || this.toDocumentFormat(configuration?.messageType),
+        },
+        (sourcePath, targetPath) => mappedTargets.has(targetPath) || rejected.has(`${sourcePath} -> ${targetPath}`),
+      )
+      .map(suggestion => {
+        const id = this.generateId();
+        return { ...suggestion, id, rule: { ...suggestion.rule, id: `suggested-${id}` } };
+      });
+
+    this.ruleSuggestions.set(mappingId, [...history, ...suggestions]);
+    await this.persist(mappingId);
+    this.logger.info(`Suggested ${suggestions.length} mapping rules for mapping ID: ${mappingId}`);
+    return suggestions;
+  }
+
+  getRuleSuggestions(mappingId: string, status?: MappingSuggestionStatus): MappingSuggestion[] {
+    const suggestions = this.ruleSuggestions.get(mappingId) || [];
+    return status ? suggestions.filter(suggestion => suggestion.status === status) : suggestions;
+  }
+
+  // Appends the suggested rule (with optional edits) to the mapping's advanced rules
+  async acceptRuleSuggestion(
+    mappingId: string,
+    suggestionId: string,
+    overrides: Partial<AdvancedMappingRule> = {},
+  ): Promise<AdvancedMappingRule | undefined> {
+    await this.loaded;
+    const suggestion = this.findPendingSuggestion(mappingId, suggestionId);
+    if (!suggestion) {
+      return undefined;
+    }
+
+    const rule: AdvancedMappingRule = { ...suggestion.rule, ...overrides, id: overrides.id || suggestion.rule.id };
+    this.mappingRules.set(mappingId, [...this.getAdvancedMappingRules(mappingId), rule]);
+    suggestion.rule = rule;
+    suggestion.status = "accepted";
+    await this.persist(mappingId);
+    this.logger.info(`Accepted mapping suggestion ${suggestionId} for mapping ID: ${mappingId}`);
+    return rule;
+  }
+
+  async rejectRuleSuggestion(mappingId: string, suggestionId: string): Promise<MappingSuggestion | undefined> {
+    await this.loaded;
+    const suggestion = this.findPendingSuggestion(mappingId, suggestionId);
+    if (!suggestion) {
+      return undefined;
+    }
+
+    suggestion.status = "rejected";
+    await this.persist(mappingId);
+    this.logger.info(`Rejected mapping suggestion ${suggestionId} for mapping ID: ${mappingId}`);
+    return suggestion;
+  }
+
+  private findPendingSuggestion(mappingId: string, suggestionId: string): MappingSuggestion | undefined {
+    const suggestion = this.getRuleSuggestions(mappingId).find(item => item.id === suggestionId);
+    if (suggestion && suggestion.status !== "pending") {
+      throw new ConflictError(`Suggestion ${suggestionId} is already ${suggestion.status}`, "suggestion");
+    }
+    return suggestion;
+  }
+
   // Collaboration features
-  addCollaborationEvent(mappingId: string, event: CollaborationData): void {
+  async addCollaborationEvent(mappingId: string, event: CollaborationData): Promise<void> {
+    await this.loaded;
     if (!this.collaborationHistory.has(mappingId)) {
       this.collaborationHistory.set(mappingId, []);
     }
     this.collaborationHistory.get(mappingId)!.push(event);
+    await this.persist(mappingId);
     this.logger.info(`Added collaboration event for mapping ID: ${mappingId}`);
   }
 
@@ -167,6 +556,55 @@ class MessageMappingService {
     return this.collaborationHistory.get(mappingId) || [];
   }
 
+  // Mapping bundles
+  // A bundle carries everything stored under each mapping ID (generated mapping, rules, transformations,
+  // test cases, suggestions, collaboration history). Without IDs every stored mapping is exported.
+  exportBundle(mappingIds?: string[]): MappingBundle {
+    const ids = mappingIds && mappingIds.length > 0 ? Array.from(new Set(mappingIds)) : this.getStoredIds();
+    const missing = ids.filter(id => !this.toRecord(id));
+    if (missing.length > 0) {
+      throw new NotFoundError(`Message mapping not found: ${missing.join(", ")}`, "mapping", missing.join(","));
+    }
+
+    return {
+      format: MAPPING_BUNDLE_FORMAT,
+      version: MAPPING_BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      mappings: ids.map(id => {
+        const { updatedAt: _updatedAt, ...record } = this.toRecord(id)!;
+        return JSON.parse(JSON.stringify(record));
+      }),
+    };
+  }
+
+  // Imports every mapping in the bundle or none: IDs that already exist are rejected
+  // unless overwrite is set, in which case the stored data for that ID is replaced as a whole.
+  // If the store fails part way, the previous data is restored in memory and in the store.
+  async importBundle(bundle: MappingBundle, options: MappingBundleImportOptions = {}): Promise<MappingBundleImportResult> {
+    await this.loaded;
+    const records = this.readBundle(bundle);
+    const existing = records.map(record => record.id).filter(id => this.toRecord(id));
+    if (existing.length > 0 && !options.overwrite) {
+      throw new ConflictError(`Message mappings already exist: ${existing.join(", ")}`, "mapping");
+    }
+
+    const previous = new Map(records.map(record => [record.id, this.toRecord(record.id)]));
+    records.forEach(record => {
+      this.removeRecord(record.id);
+      this.restoreRecord(record);
+    });
+    try {
+      for (const record of records) {
+        await this.persist(record.id);
+      }
+    } catch (error) {
+      await this.rollbackImport(previous);
+      throw error;
+    }
+    this.logger.info(`Imported ${records.length} message mappings from bundle (${existing.length} overwritten)`);
+    return { imported: records.map(record => record.id), overwritten: existing };
+  }
+
   // Schema validation features
   validateSchema(content: string, schemaType: string, schemaContent: string): boolean {
     try {
@@ -187,24 +625,167 @@ class MessageMappingService {
     }
   }
 
-  private validateXsdSchema(_content: string, _schemaContent: string): boolean {
-    // Placeholder for XSD validation implementation
-    // In a real implementation, you would use a library like libxmljs or similar
-    // this.logger.info("XSD validation performed (placeholder)");
-    return true;
+  private validateXsdSchema(content: string, schemaContent: string): boolean {
+    return this.reportValidation("XSD", this.schemaValidator.validateXmlSchema(content, schemaContent));
   }
 
-  private validateJsonSchema(_content: string, _schemaContent: string): boolean {
-    // Placeholder for JSON schema validation implementation
-    // In a real implementation, you would use AJV or similar
-    // this.logger.info("JSON schema validation performed (placeholder)");
-    return true;
+  private validateJsonSchema(content: string, schemaContent: string): boolean {
+    return this.reportValidation("JSON schema", this.schemaValidator.validateJsonSchema(content, schemaContent));
   }
 
-  private validateYamlSchema(_content: string, _schemaContent: string): boolean {
-    // Placeholder for YAML schema validation implementation
-    // this.logger.info("YAML schema validation performed (placeholder)");
-    return true;
+  // The YAML schema is a JSON Schema written in YAML or JSON
+  private validateYamlSchema(content: string, schemaContent: string): boolean {
+    return this.reportValidation("YAML schema", this.schemaValidator.validateYamlSchema(content, schemaContent));
+  }
+
+  private reportValidation(kind: string, result: { valid: boolean; errors?: any[] }): boolean {
+    if (!result.valid) {
+      this.logger.debug(`${kind} validation failed`, { errors: result.errors });
+    }
+    return result.valid;
+  }
+
+  // Request options win over the mapping's configuration
+  private getExecutionOptions(
+    config: Configuration | undefined,
+    options: MappingExecutionOptions = {},
+  ): MappingExecutionOptions {
+    return {
+      sourceFormat: options.sourceFormat || this.toDocumentFormat(config?.dataType),
+      targetFormat: options.targetFormat || this.toDocumentFormat(config?.messageType),
+      rootElement: options.rootElement || config?.rootElement || undefined,
+      namespace: options.namespace || config?.namespace || undefined,
+      encoding: options.encoding || config?.encoding || undefined,
+    };
+  }
+
+  private toDocumentFormat(type: string | undefined): MappingDocumentFormat | undefined {
+    const format = type?.toLowerCase();
+    return format === "xml" || format === "json" || format === "yaml" ? format : undefined;
+  }
+
+  private readBundle(bundle: MappingBundle): MessageMappingRecord[] {
+    if (!bundle || bundle.format !== MAPPING_BUNDLE_FORMAT) {
+      throw new ValidationError(`Bundle format must be ${MAPPING_BUNDLE_FORMAT}`, "format", bundle?.format);
+    }
+    if (bundle.version !== MAPPING_BUNDLE_VERSION) {
+      throw new ValidationError(`Unsupported bundle version: ${bundle.version}`, "version", bundle.version);
+    }
+    if (!Array.isArray(bundle.mappings)) {
+      throw new ValidationError("Bundle mappings must be an array", "mappings");
+    }
+
+    const seen = new Set<string>();
+    return bundle.mappings.map((item, index) => {
+      if (!item || typeof item.id !== "string" || item.id.trim() === "") {
+        throw new ValidationError(`mappings[${index}]: id is required`, "mappings", item);
+      }
+      if (seen.has(item.id)) {
+        throw new ValidationError(`Duplicate mapping ID in bundle: ${item.id}`, "mappings", item.id);
+      }
+      seen.add(item.id);
+      if (item.mapping && item.mapping.id !== item.id) {
+        throw new ValidationError(`mappings[${index}]: mapping.id must match ${item.id}`, "mappings", item.mapping.id);
+      }
+      try {
+        return deserializeMappingRecord(JSON.stringify({ ...item, updatedAt: new Date() }));
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          throw new ValidationError(`mappings[${index}]: ${error.message}`, "mappings", error.value);
+        }
+        throw error;
+      }
+    });
+  }
+
+  // IDs with any stored data, including rules saved without a generated mapping
+  private getStoredIds(): string[] {
+    return Array.from(new Set([
+      ...this.mappings.keys(),
+      ...this.mappingRules.keys(),
+      ...this.transformationRules.keys(),
+      ...this.collaborationHistory.keys(),
+      ...this.ruleSuggestions.keys(),
+      ...this.testCases.keys(),
+    ]));
+  }
+
+  private toRecord(mappingId: string): MessageMappingRecord | undefined {
+    const record: MessageMappingRecord = {
+      id: mappingId,
+      mapping: this.mappings.get(mappingId),
+      rules: this.getAdvancedMappingRules(mappingId),
+      transformations: this.getTransformationRules(mappingId),
+      collaboration: this.getCollaborationHistory(mappingId),
+      suggestions: this.getRuleSuggestions(mappingId),
+      testCases: this.getTestCases(mappingId),
+      updatedAt: new Date(),
+    };
+    const empty = !record.mapping
+      && [record.rules, record.transformations, record.collaboration, record.suggestions, record.testCases]
+        .every(list => list.length === 0);
+    return empty ? undefined : record;
+  }
+
+  private restoreRecord(record: MessageMappingRecord): void {
+    const { id } = record;
+    if (record.mapping) {
+      this.mappings.set(id, record.mapping);
+    }
+    const lists: [Map<string, any[]>, any[] | undefined][] = [
+      [this.mappingRules, record.rules],
+      [this.transformationRules, record.transformations],
+      [this.collaborationHistory, record.collaboration],
+      [this.ruleSuggestions, record.suggestions],
+      [this.testCases, record.testCases],
+    ];
+    lists.forEach(([map, items]) => {
+      if (items && items.length > 0) {
+        map.set(id, items);
+      }
+    });
+  }
+
+  private removeRecord(mappingId: string): void {
+    [
+      this.mappings,
+      this.mappingRules,
+      this.transformationRules,
+      this.collaborationHistory,
+      this.ruleSuggestions,
+      this.testCases,
+    ].forEach(map => map.delete(mappingId));
+  }
+
+  // Restores the state held before a failed import, in memory and in the store.
+  // Records that cannot be written back are logged; the import error is what the caller sees.
+  private async rollbackImport(previous: Map<string, MessageMappingRecord | undefined>): Promise<void> {
+    for (const [id, record] of previous) {
+      this.removeRecord(id);
+      if (record) {
+        this.restoreRecord(record);
+      }
+      try {
+        await this.persist(id);
+      } catch (error) {
+        this.logger.error(`Failed to roll back imported message mapping: ${id}`, { error });
+      }
+    }
+  }
+
+  // Writes the current state of one mapping ID through to the store (removes it when nothing is left).
+  // Writes are queued so an older snapshot never lands after a newer one.
+  private async persist(mappingId: string): Promise<void> {
+    const record = this.toRecord(mappingId);
+    const write = this.pendingWrite.then(async () => {
+      if (record) {
+        await this.store.save(record);
+      } else {
+        await this.store.delete(mappingId);
+      }
+    });
+    this.pendingWrite = write.catch(() => undefined);
+    await write;
   }
 
   private generateId(): string {
@@ -227,21 +808,26 @@ class MessageMappingService {
 
   private transformXml(source: string, config: Configuration): string {
     const rootElement = config.rootElement || "root";
-    const namespace = config.namespace ? ` xmlns="${config.namespace}"` : "";
+    this.assertXmlName(rootElement, "rootElement");
+    const namespace = config.namespace ? ` xmlns="${this.escapeXml(config.namespace).replace(/"/g, "&quot;")}"` : "";
     const version = config.version || "1.0";
     const encoding = config.encoding || "UTF-8";
 
     let xmlContent = `<?xml version="${version}" encoding="${encoding}"?>\n`;
     xmlContent += `<${rootElement}${namespace}>\n`;
 
-    // Process source data based on type
-    if (config.dataType && config.dataType.toUpperCase() === "JSON") {
+    // Process source data based on type (JSON and YAML sources become elements)
+    const format = this.toDocumentFormat(config.dataType);
+    if (format === "json" || format === "yaml") {
       try {
-        const jsonData = JSON.parse(source);
-        xmlContent += this.jsonToXml(jsonData, 1);
-      } catch {
-        // Handle invalid JSON gracefully
-        xmlContent += "  <error type=\"invalid-json\">Invalid JSON format</error>\n";
+        xmlContent += this.jsonToXml(this.parseSourceData(source, format), 1);
+      } catch (error) {
+        // Keys that cannot become element names are the caller's error, not invalid source data
+        if (error instanceof ValidationError) {
+          throw error;
+        }
+        // Handle invalid source gracefully
+        xmlContent += `  <error type="invalid-${format}">Invalid ${format.toUpperCase()} format</error>\n`;
         xmlContent += `  <source><![CDATA[${source}]]></source>\n`;
         xmlContent += "  <transformed>true</transformed>\n";
       }
@@ -259,42 +845,59 @@ class MessageMappingService {
   }
 
   private transformJson(source: string, config: Configuration): string {
+    return JSON.stringify(this.createEnvelope(source, config), null, 2);
+  }
+
+  private transformYaml(source: string, config: Configuration): string {
+    const body = yaml.dump(this.createEnvelope(source, config), { indent: 2, lineWidth: 120, skipInvalid: true });
+    return `---\n${body}`;
+  }
+
+  // Document wrapper shared by JSON and YAML targets; the source is parsed according to dataType
+  private createEnvelope(source: string, config: Configuration): Record<string, any> {
+    const format = this.toDocumentFormat(config.dataType) || "json";
     try {
-      const parsed = JSON.parse(source);
-      const result = {
+      return {
         root: config.rootElement || "root",
         namespace: config.namespace || "",
         encoding: config.encoding || "UTF-8",
         version: config.version || "1.0",
-        data: parsed,
+        data: this.parseSourceData(source, format),
         statement: config.statement || "",
         transformed: true,
       };
-      return JSON.stringify(result, null, 2);
     } catch {
-      return JSON.stringify(
-        {
-          error: "Invalid JSON source",
-          source: source,
-          config: config,
-        },
-        null,
-        2,
-      );
+      return {
+        error: `Invalid ${format.toUpperCase()} source`,
+        source: source,
+        config: config,
+      };
     }
   }
 
-  private transformYaml(source: string, config: Configuration): string {
-    // Placeholder for YAML transformation - would require js-yaml dependency
-    return `---
-root: "${config.rootElement || "root"}"
-namespace: "${config.namespace || ""}"
-encoding: "${config.encoding || "UTF-8"}"
-version: "${config.version || "1.0"}"
-data: ${source}
-statement: "${config.statement || ""}"
-transformed: true
-`;
+  private parseSourceData(source: string, format: MappingDocumentFormat): any {
+    switch (format) {
+    case "xml":
+      return this.parseXml(source);
+    case "yaml":
+      return yaml.load(source);
+    default:
+      return JSON.parse(source);
+    }
+  }
+
+  // xml2js calls back synchronously unless its async option is set
+  private parseXml(source: string): any {
+    let document: any;
+    let failure: Error | null = null;
+    new xml2js.Parser({ explicitArray: false }).parseString(source, (error: Error | null, result: any) => {
+      failure = error;
+      document = result;
+    });
+    if (failure) {
+      throw failure;
+    }
+    return document;
   }
 
   private createMappings(config: Configuration): Record<string, any> {
@@ -358,12 +961,16 @@ transformed: true
       return xmlMatches.length;
     }
 
-    // Count JSON objects/arrays
+    // Count JSON/YAML objects/arrays
     try {
       const json = JSON.parse(content);
       return this.countJsonNodes(json);
     } catch {
-      return 1; // Plain text
+      try {
+        return this.countJsonNodes(yaml.load(content));
+      } catch {
+        return 1; // Plain text
+      }
     }
   }
 
@@ -407,8 +1014,8 @@ transformed: true
         return true;
       }
       case "YAML": {
-        // Basic YAML validation
-        return content.includes("---") || content.trim().length > 0;
+        yaml.load(content);
+        return content.trim().length > 0;
       }
       default:
         return false;
@@ -426,20 +1033,34 @@ transformed: true
       obj.forEach((item, index) => {
         xml += `${indentStr}<item index="${index}">\n`;
         xml += this.jsonToXml(item, indent + 1);
-        xml += `${indentStr}</item index="${index}">\n`;
+        xml += `${indentStr}</item>\n`;
       });
+    } else if (obj instanceof Date) {
+      // YAML timestamps load as Date objects
+      xml += `${indentStr}${obj.toISOString()}\n`;
     } else if (typeof obj === "object" && obj !== null) {
       Object.keys(obj).forEach((key) => {
+        this.assertXmlName(key, "source");
         xml += `${indentStr}<${key}>\n`;
         xml += this.jsonToXml(obj[key], indent + 1);
         xml += `${indentStr}</${key}>\n`;
       });
     } else {
-      xml += `${indentStr}${String(obj)}\n`;
+      xml += `${indentStr}${this.escapeXml(String(obj))}\n`;
     }
 
     return xml;
   }
+
+  private assertXmlName(name: string, field: string): void {
+    if (!XML_NAME_PATTERN.test(name)) {
+      throw new ValidationError(`Cannot use "${name}" as an XML element name`, field, name);
+    }
+  }
+
+  private escapeXml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  }
 }
 
 export { MessageMappingService };
@@ -448,6 +1069,7 @@ export type {
   Configuration, 
   AdvancedMappingRule, 
   TransformationRule, 
+  ValidationRule,
   CollaborationData,
   MappingRule
 };
\ No newline at end of file
@@ -0,0 +1,212 @@
+/**
+ * 파일 시스템 기반 스키마 저장소 (기본 어댑터)
+ * 스키마마다 <id>.json, 리비전은 revisions/<id>/<번호>.json 파일로 저장하며
+ * 임시 파일에 쓴 뒤 이름을 바꿔 부분 기록을 방지
+ * 새 스키마/리비전은 임시 파일을 링크해 대상이 이미 있으면 실패하므로 동시 생성이 서로 덮어쓰지 않음
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { Schema } from '../../types/schema';
+import { SchemaListQuery, SchemaListResult, SchemaRepository, SchemaRevision } from '../../types/repository';
+import { ConflictError, NotFoundError, ValidationError } from '../../types/errors';
+import { Logger } from '../../core/logging/Logger';
+import { writeJsonAtomic } from '../../core/utils/fileUtils';
+import { applySchemaQuery, deserializeRevision, deserializeSchema } from './schemaQuery';
+
+// 디렉토리 밖 경로를 만들 수 없는 ID만 허용
+const SAFE_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export class FileSchemaRepository implements SchemaRepository {
+  private logger: Logger;
+  // 이 프로세스에서 쓴 변경만 셈 (다른 프로세스가 같은 디렉토리를 바꾸는 구성은 지원하지 않음)
+  private changeCount = 0;
+
+  constructor(private readonly directory: string) {
+    this.logger = Logger.getInstance();
+  }
+
+  async create(schema: Schema): Promise<Schema> {
+    this.assertSafeId(schema.id);
+    if (!(await writeJsonAtomic(this.filePath(schema.id), schema, { exclusive: true }))) {
+      throw new ConflictError(`이미 존재하는 스키마 ID입니다: ${schema.id}`, 'schema');
+    }
+    this.changeCount++;
+    return schema;
+  }
+
+  async findById(id: string): Promise<Schema | null> {
+    if (!SAFE_ID_PATTERN.test(id)) {
+      return null;
+    }
+
+    try {
+      return deserializeSchema(await fs.readFile(this.filePath(id), 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async update(schema: Schema): Promise<Schema> {
+    this.assertSafeId(schema.id);
+    if (!(await this.exists(this.filePath(schema.id)))) {
+      throw new NotFoundError('스키마를 찾을 수 없습니다', 'schema', schema.id);
+    }
+    await writeJsonAtomic(this.filePath(schema.id), schema);
+    this.changeCount++;
+    return schema;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!SAFE_ID_PATTERN.test(id)) {
+      return false;
+    }
+
+    await fs.rm(this.revisionDirectory(id), { recursive: true, force: true });
+    try {
+      await fs.unlink(this.filePath(id));
+      this.changeCount++;
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async list(query?: SchemaListQuery): Promise<SchemaListResult> {
+    return applySchemaQuery(await this.readAll(), query);
+  }
+
+  async addRevision(revision: SchemaRevision): Promise<SchemaRevision> {
+    this.assertSafeId(revision.schemaId);
+    if (!(await writeJsonAtomic(this.revisionPath(revision.schemaId, revision.revision), revision, { exclusive: true }))) {
+      throw new ConflictError(`이미 존재하는 리비전입니다: ${revision.schemaId}@${revision.revision}`, 'revision');
+    }
+    return revision;
+  }
+
+  async listRevisions(schemaId: string): Promise<SchemaRevision[]> {
+    if (!SAFE_ID_PATTERN.test(schemaId)) {
+      return [];
+    }
+
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.revisionDirectory(schemaId));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const revisions: SchemaRevision[] = [];
+    for (const entry of entries.filter(name => /^\d+\.json$/.test(name))) {
+      revisions.push(deserializeRevision(await fs.readFile(path.join(this.revisionDirectory(schemaId), entry), 'utf-8')));
+    }
+    return revisions.sort((a, b) => a.revision - b.revision);
+  }
+
+  async findRevision(schemaId: string, revision: number): Promise<SchemaRevision | null> {
+    if (!SAFE_ID_PATTERN.test(schemaId) || !Number.isInteger(revision)) {
+      return null;
+    }
+
+    try {
+      return deserializeRevision(await fs.readFile(this.revisionPath(schemaId, revision), 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async updateRevisionTags(schemaId: string, revision: number, tags: string[]): Promise<SchemaRevision> {
+    const found = await this.findRevision(schemaId, revision);
+    if (!found) {
+      throw new NotFoundError('리비전을 찾을 수 없습니다', 'revision', `${schemaId}@${revision}`);
+    }
+    const updated = { ...found, tags: [...tags] };
+    await writeJsonAtomic(this.revisionPath(schemaId, revision), updated);
+    return updated;
+  }
+
+  async deleteRevision(schemaId: string, revision: number): Promise<boolean> {
+    if (!SAFE_ID_PATTERN.test(schemaId) || !Number.isInteger(revision)) {
+      return false;
+    }
+
+    try {
+      await fs.unlink(this.revisionPath(schemaId, revision));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  getChangeCount(): number {
+    return this.changeCount;
+  }
+
+  private async readAll(): Promise<Schema[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const schemas: Schema[] = [];
+    for (const entry of entries.filter(name => name.endsWith('.json'))) {
+      try {
+        schemas.push(deserializeSchema(await fs.readFile(path.join(this.directory, entry), 'utf-8')));
+      } catch (error) {
+        // 손상된 파일 하나 때문에 목록 전체가 실패하지 않도록 건너뜀
+        this.logger.warn('스키마 파일을 읽을 수 없어 건너뜀', {
+          file: entry,
+          error: error instanceof Error ? error.message : '알 수 없는 오류'
+        });
+      }
+    }
+    return schemas;
+  }
+
+  private assertSafeId(id: string): void {
+    if (!SAFE_ID_PATTERN.test(id)) {
+      throw new ValidationError(`저장할 수 없는 스키마 ID입니다: ${id}`, 'id', id);
+    }
+  }
+
+  private async exists(target: string): Promise<boolean> {
+    try {
+      await fs.access(target);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private filePath(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  private revisionDirectory(schemaId: string): string {
+    return path.join(this.directory, 'revisions', schemaId);
+  }
+
+  private revisionPath(schemaId: string, revision: number): string {
+    return path.join(this.revisionDirectory(schemaId), `${revision}.json`);
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * 메모리 기반 스키마 저장소 (테스트 및 임시 실행용)
+ */
+
+import { Schema } from '../../types/schema';
+import { SchemaListQuery, SchemaListResult, SchemaRepository, SchemaRevision } from '../../types/repository';
+import { ConflictError, NotFoundError } from '../../types/errors';
+import { applySchemaQuery, cloneRevision, cloneSchema } from './schemaQuery';
+
+export class InMemorySchemaRepository implements SchemaRepository {
+  private schemas = new Map<string, Schema>();
+  private revisions = new Map<string, SchemaRevision[]>();
+  private changeCount = 0;
+
+  async create(schema: Schema): Promise<Schema> {
+    if (this.schemas.has(schema.id)) {
+      throw new ConflictError(`이미 존재하는 스키마 ID입니다: ${schema.id}`, 'schema');
+    }
+    this.schemas.set(schema.id, cloneSchema(schema));
+    this.changeCount++;
+    return cloneSchema(schema);
+  }
+
+  async findById(id: string): Promise<Schema | null> {
+    const schema = this.schemas.get(id);
+    return schema ? cloneSchema(schema) : null;
+  }
+
+  async update(schema: Schema): Promise<Schema> {
+    if (!this.schemas.has(schema.id)) {
+      throw new NotFoundError('스키마를 찾을 수 없습니다', 'schema', schema.id);
+    }
+    this.schemas.set(schema.id, cloneSchema(schema));
+    this.changeCount++;
+    return cloneSchema(schema);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    this.revisions.delete(id);
+    const deleted = this.schemas.delete(id);
+    if (deleted) {
+      this.changeCount++;
+    }
+    return deleted;
+  }
+
+  async list(query?: SchemaListQuery): Promise<SchemaListResult> {
+    const result = applySchemaQuery(Array.from(this.schemas.values()), query);
+    return { ...result, items: result.items.map(schema => cloneSchema(schema)) };
+  }
+
+  async addRevision(revision: SchemaRevision): Promise<SchemaRevision> {
+    const history = this.revisions.get(revision.schemaId) || [];
+    if (history.some(existing => existing.revision === revision.revision)) {
+      throw new ConflictError(`이미 존재하는 리비전입니다: ${revision.schemaId}@${revision.revision}`, 'revision');
+    }
+    history.push(cloneRevision(revision));
+    this.revisions.set(revision.schemaId, history);
+    return cloneRevision(revision);
+  }
+
+  async listRevisions(schemaId: string): Promise<SchemaRevision[]> {
+    return (this.revisions.get(schemaId) || [])
+      .map(revision => cloneRevision(revision))
+      .sort((a, b) => a.revision - b.revision);
+  }
+
+  async findRevision(schemaId: string, revision: number): Promise<SchemaRevision | null> {
+    const found = (this.revisions.get(schemaId) || []).find(existing => existing.revision === revision);
+    return found ? cloneRevision(found) : null;
+  }
+
+  async updateRevisionTags(schemaId: string, revision: number, tags: string[]): Promise<SchemaRevision> {
+    const found = (this.revisions.get(schemaId) || []).find(existing => existing.revision === revision);
+    if (!found) {
+      throw new NotFoundError('리비전을 찾을 수 없습니다', 'revision', `${schemaId}@${revision}`);
+    }
+    found.tags = [...tags];
+    return cloneRevision(found);
+  }
+
+  getChangeCount(): number {
+    return this.changeCount;
+  }
+
+  async deleteRevision(schemaId: string, revision: number): Promise<boolean> {
+    const history = this.revisions.get(schemaId) || [];
+    const remaining = history.filter(existing => existing.revision !== revision);
+    this.revisions.set(schemaId, remaining);
+    return remaining.length !== history.length;
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * 스키마 저장소 어댑터 생성
+ */
+
+import path from 'path';
+import { SchemaRepository } from '../../types/repository';
+import { ConfigManager } from '../../core/config/ConfigManager';
+import { FileSchemaRepository } from './FileSchemaRepository';
+import { InMemorySchemaRepository } from './InMemorySchemaRepository';
+
+export { FileSchemaRepository } from './FileSchemaRepository';
+export { InMemorySchemaRepository } from './InMemorySchemaRepository';
+
+/**
+ * 환경 설정(SCHEMA_STORAGE_DRIVER, SCHEMA_STORAGE_DIR)에 맞는 저장소 생성
+ */
+export function createSchemaRepository(): SchemaRepository {
+  const { driver, directory } = ConfigManager.getInstance().getSchemaStorageConfig();
+
+  if (driver === 'memory') {
+    return new InMemorySchemaRepository();
+  }
+  return new FileSchemaRepository(path.resolve(process.cwd(), directory));
+}
+
+let sharedRepository: SchemaRepository | undefined;
+
+/**
+ * 라우터 간에 공유하는 기본 저장소 (메모리 저장소도 같은 인스턴스를 보도록)
+ */
+export function getSchemaRepository(): SchemaRepository {
+  if (!sharedRepository) {
+    sharedRepository = createSchemaRepository();
+  }
+  return sharedRepository;
+}
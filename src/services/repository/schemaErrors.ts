@@ -0,0 +1,48 @@
+/**
+ * 스키마 저장소 서비스 오류를 API v2 에러로 변환 (스키마 라우터와 일괄 작업 결과에서 공통 사용)
+ */
+
+import { ApiError } from '../../types/api-v2';
+import { ConflictError, NotFoundError, SchemaConversionError, ValidationError } from '../../types/errors';
+
+/**
+ * 없는 스키마/리비전/필드 404, 스키마 검증 실패 400, 충돌 409, 형식 변환 실패 422, 그 외 500
+ */
+export function toSchemaApiError(error: unknown, requestId: string): { status: number; error: ApiError } {
+  let status = 500;
+  let code = 'INTERNAL_ERROR';
+  let message = '서버 내부 오류가 발생했습니다.';
+  let details: any;
+
+  if (error instanceof NotFoundError) {
+    status = 404;
+    code = error.resourceType === 'schema'
+      ? 'SCHEMA_NOT_FOUND'
+      : error.resourceType === 'field' ? 'FIELD_NOT_FOUND' : 'REVISION_NOT_FOUND';
+    message = error.message;
+  } else if (error instanceof ValidationError) {
+    status = 400;
+    code = 'SCHEMA_VALIDATION_FAILED';
+    message = error.message;
+    details = error.value;
+  } else if (error instanceof ConflictError) {
+    status = 409;
+    code = 'SCHEMA_CONFLICT';
+    message = error.message;
+  } else if (error instanceof SchemaConversionError) {
+    status = 422;
+    code = 'SCHEMA_CONVERSION_FAILED';
+    message = error.message;
+  }
+
+  return {
+    status,
+    error: {
+      code,
+      message,
+      details,
+      timestamp: new Date().toISOString(),
+      requestId
+    }
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * 스키마 직렬화, 목록 필터링/페이지네이션 (저장소 어댑터 공통)
+ */
+
+import { Schema } from '../../types/schema';
+import { SchemaListQuery, SchemaListResult, SchemaRevision } from '../../types/repository';
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+/**
+ * JSON으로 직렬화된 스키마 복원 (날짜 필드를 Date로 되돌림)
+ */
+export function deserializeSchema(content: string): Schema {
+  const raw = JSON.parse(content);
+  return {
+    ...raw,
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt)
+  };
+}
+
+/**
+ * 저장소 밖에서 수정해도 저장된 값에 영향이 없도록 깊은 복사
+ */
+export function cloneSchema(schema: Schema): Schema {
+  return deserializeSchema(JSON.stringify(schema));
+}
+
+/**
+ * JSON으로 직렬화된 리비전 복원
+ */
+export function deserializeRevision(content: string): SchemaRevision {
+  const raw = JSON.parse(content);
+  return { ...raw, createdAt: new Date(raw.createdAt) };
+}
+
+export function cloneRevision(revision: SchemaRevision): SchemaRevision {
+  return deserializeRevision(JSON.stringify(revision));
+}
+
+/**
+ * 스키마가 조회 조건에 맞는지 확인
+ */
+export function matchesSchemaQuery(schema: Schema, query: SchemaListQuery): boolean {
+  if (query.format && schema.format !== query.format) {
+    return false;
+  }
+
+  if (query.tags && query.tags.length > 0) {
+    const tags = schema.tags || [];
+    if (!query.tags.every(tag => tags.includes(tag))) {
+      return false;
+    }
+  }
+
+  const search = query.search?.trim().toLowerCase();
+  if (search) {
+    const haystack = [schema.name, schema.description || '', ...(schema.tags || [])];
+    if (!haystack.some(value => value.toLowerCase().includes(search))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * 조건에 맞는 스키마를 최근 수정 순으로 정렬한 뒤 페이지 단위로 잘라냄
+ */
+export function applySchemaQuery(schemas: Schema[], query: SchemaListQuery = {}): SchemaListResult {
+  const page = Math.max(1, query.page || 1);
+  const limit = Math.max(1, query.limit || DEFAULT_PAGE_SIZE);
+
+  const matched = schemas
+    .filter(schema => matchesSchemaQuery(schema, query))
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime() || a.id.localeCompare(b.id));
+
+  return {
+    items: matched.slice((page - 1) * limit, page * limit),
+    total: matched.length,
+    page,
+    limit
+  };
+}
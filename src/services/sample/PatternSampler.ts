@@ -0,0 +1,295 @@
+/**
+ * 정규식 패턴 샘플러
+ * XSD/JSON Schema pattern을 만족하는 문자열을 생성 (역참조·전후방 탐색 등은 지원하지 않음)
+ */
+
+import { SeededRandom } from './SeededRandom';
+
+/**
+ * 패턴 구문 노드
+ */
+type PatternNode =
+  | { kind: 'sequence'; items: PatternNode[] }
+  | { kind: 'alternation'; options: PatternNode[] }
+  | { kind: 'chars'; chars: string[] }
+  | { kind: 'repeat'; node: PatternNode; min: number; max: number };
+
+/**
+ * 길이 제약
+ */
+export interface PatternLengthBounds {
+  minLength?: number;
+  maxLength?: number;
+}
+
+/**
+ * 부정 문자 클래스와 .에 사용할 출력 가능한 ASCII 문자
+ */
+const PRINTABLE_CHARS = Array.from({ length: 95 }, (_, index) => String.fromCharCode(32 + index));
+
+const DIGIT_CHARS = charRange('0', '9');
+const WORD_CHARS = [...charRange('a', 'z'), ...charRange('A', 'Z'), ...DIGIT_CHARS, '_'];
+const SPACE_CHARS = [' '];
+
+/**
+ * 무제한 반복(*, +, {n,})에 추가로 허용하는 최대 횟수
+ */
+const UNBOUNDED_EXTRA = 4;
+
+/**
+ * 제약을 만족하는 값을 찾기 위한 최대 시도 횟수
+ */
+const MAX_ATTEMPTS = 50;
+
+/**
+ * 문자 범위 목록 생성
+ */
+function charRange(from: string, to: string): string[] {
+  const start = from.charCodeAt(0);
+  const end = to.charCodeAt(0);
+  return Array.from({ length: end - start + 1 }, (_, index) => String.fromCharCode(start + index));
+}
+
+/**
+ * 패턴 샘플러 구현체
+ */
+export class PatternSampler {
+  private source = '';
+  private position = 0;
+
+  /**
+   * 패턴과 길이 제약을 만족하는 문자열 생성 (실패 시 undefined)
+   */
+  generate(pattern: string, random: SeededRandom, bounds: PatternLengthBounds = {}): string | undefined {
+    const ast = this.parse(pattern);
+    // XSD pattern은 전체 일치, JSON Schema pattern은 부분 일치이지만 전체 일치 값은 둘 다 만족
+    const matcher = new RegExp(`^(?:${pattern.replace(/^\^/, '').replace(/(?<!\\)\$$/, '')})$`);
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const value = this.render(ast, random);
+      const withinBounds = (bounds.minLength === undefined || value.length >= bounds.minLength)
+        && (bounds.maxLength === undefined || value.length <= bounds.maxLength);
+
+      if (withinBounds && matcher.test(value)) {
+        return value;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 패턴 문자열을 구문 트리로 변환
+   */
+  parse(pattern: string): PatternNode {
+    this.source = pattern;
+    this.position = 0;
+
+    const node = this.parseAlternation();
+    if (this.position < this.source.length) {
+      throw new Error(`패턴을 해석할 수 없습니다: '${this.source[this.position]}' (${this.position + 1}번째 문자)`);
+    }
+    return node;
+  }
+
+  /**
+   * a|b|c
+   */
+  private parseAlternation(): PatternNode {
+    const options = [this.parseSequence()];
+    while (this.peek() === '|') {
+      this.position++;
+      options.push(this.parseSequence());
+    }
+    return options.length === 1 ? options[0]! : { kind: 'alternation', options };
+  }
+
+  /**
+   * 연속된 원자와 수량자
+   */
+  private parseSequence(): PatternNode {
+    const items: PatternNode[] = [];
+
+    while (this.position < this.source.length && this.peek() !== '|' && this.peek() !== ')') {
+      const atom = this.parseAtom();
+      if (atom) {
+        items.push(this.parseQuantifier(atom));
+      }
+    }
+
+    return { kind: 'sequence', items };
+  }
+
+  /**
+   * 단일 원자 (그룹, 문자 클래스, 이스케이프, 리터럴)
+   * 앵커(^, $)는 생성 결과에 영향이 없으므로 건너뜀
+   */
+  private parseAtom(): PatternNode | undefined {
+    const char = this.source[this.position++]!;
+
+    switch (char) {
+      case '^':
+      case '$':
+        return undefined;
+      case '(': {
+        if (this.peek() === '?') {
+          if (this.source[this.position + 1] !== ':') {
+            throw new Error('전후방 탐색과 이름 있는 그룹은 지원하지 않습니다');
+          }
+          this.position += 2;
+        }
+        const node = this.parseAlternation();
+        if (this.source[this.position++] !== ')') {
+          throw new Error('닫히지 않은 그룹이 있습니다');
+        }
+        return node;
+      }
+      case '[':
+        return { kind: 'chars', chars: this.parseCharClass() };
+      case '.':
+        return { kind: 'chars', chars: WORD_CHARS };
+      case '\\':
+        return { kind: 'chars', chars: this.parseEscape(false) };
+      case '*':
+      case '+':
+      case '?':
+      case '{':
+        throw new Error(`반복할 대상이 없는 수량자입니다: '${char}'`);
+      default:
+        return { kind: 'chars', chars: [char] };
+    }
+  }
+
+  /**
+   * 수량자 (*, +, ?, {n}, {n,}, {n,m}) 적용
+   */
+  private parseQuantifier(atom: PatternNode): PatternNode {
+    const char = this.peek();
+    let min: number;
+    let max: number;
+
+    if (char === '*' || char === '+' || char === '?') {
+      this.position++;
+      min = char === '+' ? 1 : 0;
+      max = char === '?' ? 1 : min + UNBOUNDED_EXTRA;
+    } else if (char === '{' && /^\{\d+(,\d*)?\}/.test(this.source.substring(this.position))) {
+      const match = /^\{(\d+)(,(\d*))?\}/.exec(this.source.substring(this.position))!;
+      this.position += match[0].length;
+      min = Number(match[1]);
+      max = match[2] === undefined ? min : match[3] ? Number(match[3]) : min + UNBOUNDED_EXTRA;
+    } else {
+      return atom;
+    }
+
+    // 게으른/소유 수량자 표시는 생성 결과와 무관
+    if (this.peek() === '?' || this.peek() === '+') {
+      this.position++;
+    }
+
+    return { kind: 'repeat', node: atom, min, max };
+  }
+
+  /**
+   * [...] 문자 클래스
+   */
+  private parseCharClass(): string[] {
+    const negated = this.peek() === '^';
+    if (negated) {
+      this.position++;
+    }
+
+    const chars = new Set<string>();
+    let first = true;
+
+    while (this.position < this.source.length && (this.peek() !== ']' || first)) {
+      first = false;
+      const char = this.source[this.position++]!;
+
+      if (char === '\\') {
+        this.parseEscape(true).forEach(value => chars.add(value));
+        continue;
+      }
+
+      if (this.peek() === '-' && this.source[this.position + 1] !== undefined && this.source[this.position + 1] !== ']') {
+        this.position++;
+        let end = this.source[this.position++]!;
+        if (end === '\\') {
+          end = this.parseEscape(true)[0]!;
+        }
+        charRange(char, end).forEach(value => chars.add(value));
+        continue;
+      }
+
+      chars.add(char);
+    }
+
+    if (this.source[this.position++] !== ']') {
+      throw new Error('닫히지 않은 문자 클래스가 있습니다');
+    }
+
+    const result = negated ? PRINTABLE_CHARS.filter(char => !chars.has(char)) : Array.from(chars);
+    if (result.length === 0) {
+      throw new Error('빈 문자 클래스입니다');
+    }
+    return result;
+  }
+
+  /**
+   * 이스케이프 시퀀스 (\d, \w, \s, XSD \i \c, 리터럴)
+   */
+  private parseEscape(inClass: boolean): string[] {
+    const char = this.source[this.position++];
+
+    switch (char) {
+      case 'd':
+        return DIGIT_CHARS;
+      case 'D':
+        return PRINTABLE_CHARS.filter(value => !DIGIT_CHARS.includes(value));
+      case 'w':
+        return WORD_CHARS;
+      case 'W':
+        return PRINTABLE_CHARS.filter(value => !WORD_CHARS.includes(value));
+      case 's':
+        return SPACE_CHARS;
+      case 'S':
+        return WORD_CHARS;
+      case 'i':
+      case 'c':
+        // XSD 이름 시작 문자/이름 문자
+        return [...charRange('a', 'z'), ...charRange('A', 'Z')];
+      case 'n':
+        return ['\n'];
+      case 't':
+        return ['\t'];
+      case undefined:
+        throw new Error('패턴이 \\로 끝납니다');
+      default:
+        if (!inClass && /[1-9]/.test(char)) {
+          throw new Error('역참조는 지원하지 않습니다');
+        }
+        return [char];
+    }
+  }
+
+  /**
+   * 구문 트리를 임의 문자열로 출력
+   */
+  private render(node: PatternNode, random: SeededRandom): string {
+    switch (node.kind) {
+      case 'sequence':
+        return node.items.map(item => this.render(item, random)).join('');
+      case 'alternation':
+        return this.render(random.pick(node.options), random);
+      case 'chars':
+        return random.pick(node.chars);
+      case 'repeat': {
+        const count = random.int(node.min, node.max);
+        return Array.from({ length: count }, () => this.render(node.node, random)).join('');
+      }
+    }
+  }
+
+  private peek(): string | undefined {
+    return this.source[this.position];
+  }
+}
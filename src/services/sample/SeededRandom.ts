@@ -0,0 +1,61 @@
+/**
+ * 시드 기반 난수 생성기
+ * 같은 시드로 항상 같은 샘플 메시지를 재현하기 위한 mulberry32 구현
+ */
+
+/**
+ * 시드 난수 생성기
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * 숫자/문자열 시드로 생성 (생략 시 임의 시드)
+   */
+  static from(seed?: number | string): SeededRandom {
+    if (seed === undefined || seed === '') {
+      return new SeededRandom(Math.floor(Math.random() * 0x100000000));
+    }
+
+    if (typeof seed === 'number' && Number.isFinite(seed)) {
+      return new SeededRandom(Math.trunc(seed));
+    }
+
+    // 문자열 시드는 FNV-1a 해시로 변환
+    let hash = 0x811c9dc5;
+    for (const char of String(seed)) {
+      hash ^= char.codePointAt(0)!;
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return new SeededRandom(hash >>> 0);
+  }
+
+  /**
+   * 0 이상 1 미만 난수
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let value = this.state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /**
+   * min 이상 max 이하 정수
+   */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * 목록에서 하나 선택
+   */
+  pick<T>(values: T[]): T {
+    return values[this.int(0, values.length - 1)]!;
+  }
+}
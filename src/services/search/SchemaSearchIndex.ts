@@ -0,0 +1,169 @@
+/**
+ * 저장된 스키마 검색 인덱스
+ * 이름/설명/태그/필드 이름 토큰의 역색인과 스키마별 필드 목록을 메모리에 유지
+ */
+
+import { Schema } from '../../types/schema';
+import { FieldQuery } from '../../types/api-v2';
+import { PATH_SEPARATOR, resolveRowPath } from '../converters/gridTree';
+
+export type SearchableAttribute = 'name' | 'description' | 'tags' | 'fields';
+
+// 일치한 위치별 점수 가중치
+export const ATTRIBUTE_WEIGHTS: Record<SearchableAttribute, number> = {
+  name: 5,
+  tags: 3,
+  fields: 2,
+  description: 1
+};
+
+export interface IndexedField {
+  path: string;
+  fieldName: string;
+  dataType: string;
+  itemType?: string;
+}
+
+export interface IndexedSchema {
+  schema: Schema;
+  fields: IndexedField[];
+  size: number;
+  // 변경 감지용 (리비전 + 수정 시각)
+  stamp: string;
+}
+
+/**
+ * 검색용 토큰 분리
+ * 소문자 단어 전체와 camelCase/숫자 경계로 나눈 조각을 함께 반환 (customerId → customerid, customer, id)
+ */
+export function tokenize(text: string): string[] {
+  const tokens = new Set<string>();
+
+  for (const word of text.match(/[\p{L}\p{N}]+/gu) || []) {
+    tokens.add(word.toLowerCase());
+    const parts = word.match(/\p{Lu}+(?!\p{Ll})|\p{Lu}?\p{Ll}+|\p{Lo}+|\p{N}+/gu) || [];
+    if (parts.length > 1) {
+      parts.forEach(part => tokens.add(part.toLowerCase()));
+    }
+  }
+
+  return Array.from(tokens);
+}
+
+export class SchemaSearchIndex {
+  private documents = new Map<string, IndexedSchema>();
+  private postings = new Map<string, Map<string, Set<SearchableAttribute>>>();
+
+  /**
+   * 저장소의 전체 스키마 목록과 동기화 (바뀐 스키마만 다시 색인)
+   */
+  sync(schemas: Schema[]): void {
+    const current = new Set(schemas.map(schema => schema.id));
+    for (const id of Array.from(this.documents.keys())) {
+      if (!current.has(id)) {
+        this.remove(id);
+      }
+    }
+    schemas.forEach(schema => this.upsert(schema));
+  }
+
+  upsert(schema: Schema): void {
+    const stamp = `${schema.revision ?? 0}:${schema.updatedAt.getTime()}`;
+    if (this.documents.get(schema.id)?.stamp === stamp) {
+      return;
+    }
+
+    this.remove(schema.id);
+
+    const fields = (schema.gridData || [])
+      .map(row => row[0])
+      .filter((row): row is NonNullable<typeof row> => !!row && !!row.fieldName)
+      .map(row => ({
+        path: resolveRowPath(row),
+        fieldName: row.fieldName,
+        dataType: row.dataType,
+        itemType: row.itemType
+      }));
+
+    this.documents.set(schema.id, {
+      schema,
+      fields,
+      size: Buffer.byteLength(schema.originalContent, 'utf-8'),
+      stamp
+    });
+
+    this.addTokens(schema.id, 'name', tokenize(schema.name));
+    this.addTokens(schema.id, 'description', tokenize(schema.description || ''));
+    this.addTokens(schema.id, 'tags', (schema.tags || []).flatMap(tag => tokenize(tag)));
+    this.addTokens(schema.id, 'fields', fields.flatMap(field => tokenize(field.fieldName)));
+  }
+
+  remove(id: string): void {
+    if (!this.documents.delete(id)) {
+      return;
+    }
+    for (const [token, postings] of this.postings) {
+      postings.delete(id);
+      if (postings.size === 0) {
+        this.postings.delete(token);
+      }
+    }
+  }
+
+  all(): IndexedSchema[] {
+    return Array.from(this.documents.values());
+  }
+
+  /**
+   * 검색어 하나와 앞부분이 일치하는 토큰을 가진 스키마와 일치 위치
+   */
+  matchTerm(term: string): Map<string, Set<SearchableAttribute>> {
+    const normalized = term.toLowerCase();
+    const matches = new Map<string, Set<SearchableAttribute>>();
+
+    for (const [token, postings] of this.postings) {
+      if (!token.startsWith(normalized)) {
+        continue;
+      }
+      for (const [id, attributes] of postings) {
+        const merged = matches.get(id) || new Set<SearchableAttribute>();
+        attributes.forEach(attribute => merged.add(attribute));
+        matches.set(id, merged);
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * 이름(또는 경로)과 타입 조건에 맞는 필드 목록
+   * 배열 필드는 array 또는 항목 타입으로 조회 가능
+   */
+  findFields(document: IndexedSchema, query: FieldQuery): IndexedField[] {
+    const name = query.name.toLowerCase();
+    const type = query.type?.toLowerCase();
+    const byPath = name.includes(PATH_SEPARATOR);
+
+    return document.fields.filter(field => {
+      // 점이 든 필드명도 있으므로 경로로 찾을 때도 이름이 같으면 일치
+      if (field.fieldName.toLowerCase() !== name && (!byPath || field.path.toLowerCase() !== name)) {
+        return false;
+      }
+      if (!type) {
+        return true;
+      }
+      const dataType = field.dataType.toLowerCase();
+      return dataType === type || (dataType === 'array' && field.itemType?.toLowerCase() === type);
+    });
+  }
+
+  private addTokens(id: string, attribute: SearchableAttribute, tokens: string[]): void {
+    for (const token of tokens) {
+      const postings = this.postings.get(token) || new Map<string, Set<SearchableAttribute>>();
+      const attributes = postings.get(id) || new Set<SearchableAttribute>();
+      attributes.add(attribute);
+      postings.set(id, attributes);
+      this.postings.set(token, postings);
+    }
+  }
+}
@@ -3,6 +3,12 @@
  * RESTful API v2 엔드포인트를 위한 요청/응답 타입들
  */
 
+import { SchemaImportOptions, XmlNamespaceImport } from './schema';
+import { SampleMessageOptions } from './sample';
+import { InstanceDocument, SchemaInferenceOptions } from './inference';
+import { CompatibilityMode } from './compatibility';
+import { SchemaDiffReport, SchemaDiffSummary } from './diff';
+
 // Express Request 타입 확장
 declare global {
   namespace Express {
@@ -57,7 +63,7 @@ export interface PaginationMeta {
 export interface CreateSchemaRequest {
   name: string;
   description?: string;
-  format: 'xml' | 'json' | 'yaml' | 'xsd' | 'wsdl';
+  format: 'xml' | 'json' | 'yaml' | 'xsd' | 'wsdl' | 'openapi' | 'swagger' | 'avro' | 'protobuf' | 'thrift';
   content: string;
   tags?: string[];
 }
@@ -67,6 +73,8 @@ export interface UpdateSchemaRequest {
   description?: string;
   content?: string;
   tags?: string[];
+  // 리비전에 기록할 변경 요약 (생략 시 자동 생성)
+  changeSummary?: string;
 }
 
 export interface SchemaResponse {
@@ -75,6 +83,7 @@ export interface SchemaResponse {
   description?: string;
   format: string;
   version: string;
+  revision?: number;
   createdAt: string;
   updatedAt: string;
   createdBy: string;
@@ -84,6 +93,37 @@ export interface SchemaResponse {
   lastValidation?: ValidationResult;
 }
 
+// 스키마 리비전 관련 타입
+export interface SchemaRevisionResponse {
+  schemaId: string;
+  revision: number;
+  version: string;
+  author: string;
+  createdAt: string;
+  summary: string;
+  format: string;
+  size: number;
+  tags: string[];
+  restoredFrom?: number;
+  // 직전 리비전 대비 변경 요약
+  isBreaking?: boolean;
+  changes?: SchemaDiffSummary;
+}
+
+export interface SchemaRevisionDetailResponse extends SchemaRevisionResponse {
+  // 요청한 형식으로 변환한 리비전 내용
+  content: string;
+  diff?: SchemaDiffReport;
+}
+
+export interface TagRevisionRequest {
+  tag: string;
+}
+
+export interface RollbackSchemaRequest {
+  changeSummary?: string;
+}
+
 export interface ValidationResult {
   isValid: boolean;
   errors: ValidationError[];
@@ -107,6 +147,30 @@ export interface ValidationWarning {
   path?: string;
 }
 
+export interface SchemaCompatibilityRequest {
+  // 제안된 새 스키마
+  schema: {
+    content: string;
+    format?: string;
+  };
+  // 이전 버전 목록 (오래된 순)
+  previousVersions: Array<{
+    content: string;
+    format?: string;
+    version?: string;
+  }>;
+  mode?: CompatibilityMode;
+}
+
+// 저장된 스키마의 리비전 이력과 비교하는 호환성 검사 요청
+export interface SchemaRevisionCompatibilityRequest {
+  schema: {
+    content: string;
+    format?: string;
+  };
+  mode?: CompatibilityMode;
+}
+
 // 그리드 관련 타입
 export interface ConvertToGridRequest {
   format: 'xml' | 'json' | 'yaml';
@@ -114,11 +178,44 @@ export interface ConvertToGridRequest {
   options?: ConversionOptions;
 }
 
+export interface ConvertToSchemaRequest {
+  gridData: any[][];
+  format: 'json' | 'xml' | 'yaml' | 'xsd' | 'wsdl';
+  options?: ConversionOptions;
+}
+
+export interface GenerateSampleMessageRequest {
+  // gridData 또는 schema + sourceFormat 중 하나
+  gridData?: any[][];
+  schema?: string;
+  sourceFormat?: string;
+  importOptions?: SchemaImportOptions;
+  options?: SampleMessageOptions;
+}
+
+export interface InferSchemaRequest {
+  // 인스턴스 문서 내용 또는 형식을 지정한 문서
+  documents: Array<string | InstanceDocument>;
+  options?: SchemaInferenceOptions;
+  // 지정하면 추론한 그리드를 해당 형식의 스키마로 내보냄
+  targetFormat?: string;
+  exportOptions?: ConversionOptions;
+}
+
 export interface ConversionOptions {
   preserveComments?: boolean;
   includeMetadata?: boolean;
   maxDepth?: number;
   arrayHandling?: 'flatten' | 'preserve';
+  // XSD/WSDL 생성 옵션
+  targetNamespace?: string;
+  rootElementName?: string;
+  elementFormDefault?: 'qualified' | 'unqualified';
+  // 대상 네임스페이스 접두사 (생략 시 기본 네임스페이스로 선언)
+  namespacePrefix?: string;
+  // 추가로 선언할 접두사 -> 네임스페이스 URI
+  prefixes?: Record<string, string>;
+  importedNamespaces?: XmlNamespaceImport[];
 }
 
 export interface UpdateGridRequest {
@@ -247,6 +344,7 @@ export interface SelectionRange {
 
 // 검색 및 필터링
 export interface SearchRequest {
+  // 이름, 설명, 태그, 필드 이름 대상 자유 검색어 (field:이름 또는 field:이름:타입 형식의 필드 조건 포함 가능)
   query: string;
   filters?: SearchFilters;
   sort?: SortOptions;
@@ -259,11 +357,15 @@ export interface SearchFilters {
   createdBy?: string[];
   dateRange?: DateRange;
   size?: SizeRange;
+  // 지정한 필드를 모두 포함한 스키마만 조회
+  fields?: FieldQuery[];
 }
 
 export interface DateRange {
   from: string;
   to: string;
+  // 비교할 날짜 (기본값 createdAt)
+  field?: 'createdAt' | 'updatedAt';
 }
 
 export interface SizeRange {
@@ -271,6 +373,29 @@ export interface SizeRange {
   max: number;
 }
 
+// "X라는 이름의 Y 타입 필드" 조건
+export interface FieldQuery {
+  // 필드 이름 또는 점으로 구분된 전체 경로 (대소문자 무시)
+  name: string;
+  // 그리드 데이터 타입 (배열은 항목 타입으로도 일치)
+  type?: string;
+}
+
+export interface SearchFieldMatch {
+  path: string;
+  fieldName: string;
+  dataType: string;
+  itemType?: string;
+}
+
+export interface SearchResultItem {
+  schema: SchemaResponse;
+  score: number;
+  // 검색어가 일치한 항목 (name, description, tags, fields)
+  matchedIn: string[];
+  matchedFields: SearchFieldMatch[];
+}
+
 export interface SortOptions {
   field: string;
   direction: 'asc' | 'desc';
@@ -288,14 +413,18 @@ export interface BatchRequest<T> {
 }
 
 export interface BatchOperation<T> {
-  operation: 'create' | 'update' | 'delete';
+  operation: 'create' | 'update' | 'delete' | 'convert' | 'validate';
   id?: string;
-  data: T;
+  // delete는 생략 가능, convert/validate는 id(저장된 스키마) 또는 data 중 하나
+  data?: T;
 }
 
 export interface BatchOptions {
   continueOnError?: boolean;
+  // 트랜잭션 모드: 하나라도 실패하면 이미 적용한 변경을 모두 되돌림 (continueOnError, maxConcurrency 무시)
+  transactional?: boolean;
   maxConcurrency?: number;
+  // 전체 제한 시간(ms), 초과하면 시작하지 않은 작업은 건너뜀
   timeout?: number;
 }
 
@@ -310,15 +439,44 @@ export interface BatchResult<T> {
   error?: ApiError;
   operation: string;
   id?: string;
+  // 요청의 operations 배열 내 위치
+  index: number;
+  // 실행하지 않고 건너뜀 (앞선 실패로 중단되었거나 제한 시간 초과)
+  skipped?: boolean;
+  // 트랜잭션 실패로 변경이 되돌려짐
+  rolledBack?: boolean;
 }
 
 export interface BatchSummary {
   total: number;
   successful: number;
   failed: number;
+  skipped: number;
+  rolledBack: boolean;
   duration: number;
 }
 
+// 스키마 일괄 작업 입력 (operation별로 필요한 필드만 사용)
+export interface BatchConvertData {
+  // id를 지정하지 않으면 content와 sourceFormat으로 변환
+  content?: string;
+  sourceFormat?: string;
+  targetFormat: string;
+}
+
+export interface BatchValidateData {
+  content: string;
+  format: string;
+}
+
+export type SchemaBatchData = CreateSchemaRequest | UpdateSchemaRequest | BatchConvertData | BatchValidateData;
+
+export interface BatchConvertResult {
+  format: string;
+  content: string;
+  warnings: string[];
+}
+
 // 버전 관리
 export interface VersionInfo {
   version: string;
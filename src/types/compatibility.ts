@@ -0,0 +1,48 @@
+// 스키마 호환성 검사 관련 타입 정의 (스키마 레지스트리의 진화 규칙)
+
+import { SchemaChangeType, SchemaDiffInput } from './diff';
+
+// BACKWARD: 새 스키마로 이전 버전 메시지를 읽을 수 있음 (소비자 먼저 배포)
+// FORWARD: 이전 스키마로 새 버전 메시지를 읽을 수 있음 (생산자 먼저 배포)
+// FULL: 양방향 / *_TRANSITIVE: 직전 버전이 아닌 모든 이전 버전과 비교
+export type CompatibilityMode =
+  | 'NONE'
+  | 'BACKWARD'
+  | 'BACKWARD_TRANSITIVE'
+  | 'FORWARD'
+  | 'FORWARD_TRANSITIVE'
+  | 'FULL'
+  | 'FULL_TRANSITIVE';
+
+export const COMPATIBILITY_MODES: CompatibilityMode[] = [
+  'NONE',
+  'BACKWARD',
+  'BACKWARD_TRANSITIVE',
+  'FORWARD',
+  'FORWARD_TRANSITIVE',
+  'FULL',
+  'FULL_TRANSITIVE'
+];
+
+// 비교 대상 이전 버전 스키마
+export interface SchemaVersionSnapshot extends SchemaDiffInput {
+  version?: string;
+}
+
+export interface CompatibilityViolation {
+  // 위반이 발견된 검사 방향
+  direction: 'BACKWARD' | 'FORWARD';
+  // 비교한 이전 버전
+  version: string;
+  path: string;
+  oldPath?: string;
+  changeType: SchemaChangeType;
+  reason: string;
+}
+
+export interface CompatibilityCheckResult {
+  compatible: boolean;
+  mode: CompatibilityMode;
+  checkedVersions: string[];
+  violations: CompatibilityViolation[];
+}
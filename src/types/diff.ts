@@ -0,0 +1,68 @@
+// 스키마 버전 간 의미 비교(diff) 관련 타입 정의
+
+import { SchemaFormat, SchemaImportOptions } from './schema';
+
+export type SchemaChangeType =
+  | 'FIELD_ADDED'
+  | 'FIELD_REMOVED'
+  | 'FIELD_RENAMED'
+  | 'TYPE_CHANGED'
+  | 'REQUIRED_CHANGED'
+  | 'CONSTRAINT_TIGHTENED'
+  | 'CONSTRAINT_LOOSENED'
+  | 'CONSTRAINT_CHANGED'
+  | 'DEFAULT_CHANGED';
+
+// breaking: 이전 스키마로 유효했던 메시지가 새 스키마에서 무효가 되거나, 기존 소비자가 읽던 필드가 사라짐
+export type SchemaChangeSeverity = 'breaking' | 'non-breaking';
+
+export interface SchemaChange {
+  type: SchemaChangeType;
+  severity: SchemaChangeSeverity;
+  // 새 스키마 기준 경로 (삭제된 필드는 이전 경로)
+  path: string;
+  // 이름이 바뀐 필드의 이전 경로
+  oldPath?: string;
+  // 제약 변경인 경우 제약 이름 (minLength, maximum, enumValues, pattern 등)
+  constraint?: string;
+  before?: any;
+  after?: any;
+  message: string;
+}
+
+export interface SchemaDiffSummary {
+  total: number;
+  breaking: number;
+  nonBreaking: number;
+  byType: Partial<Record<SchemaChangeType, number>>;
+}
+
+export interface SchemaDiffSide {
+  format?: SchemaFormat;
+  fieldCount: number;
+}
+
+export interface SchemaDiffReport {
+  isBreaking: boolean;
+  changes: SchemaChange[];
+  summary: SchemaDiffSummary;
+  source: SchemaDiffSide;
+  target: SchemaDiffSide;
+  generatedAt: string;
+}
+
+export interface SchemaDiffOptions {
+  // 같은 부모 아래에서 삭제/추가된 필드 중 타입이 같고 이름이 비슷한 쌍을 이름 변경으로 판단
+  detectRenames?: boolean;
+  // 이름 변경으로 판단할 최소 이름 유사도 (0~1)
+  renameSimilarity?: number;
+}
+
+// 비교할 스키마 문서 (format 생략 시 자동 감지)
+export interface SchemaDiffInput {
+  content: string;
+  format?: SchemaFormat;
+  importOptions?: SchemaImportOptions;
+}
+
+export type SchemaDiffRenderFormat = 'json' | 'markdown' | 'html';
@@ -53,6 +53,24 @@ export class SchemaConversionError extends AppError {
   }
 }
 
+export class ExpressionSyntaxError extends AppError {
+  readonly statusCode = 400;
+  readonly isOperational = true;
+  readonly errorCode = 'EXPRESSION_SYNTAX_ERROR';
+
+  constructor(
+    message: string,
+    public readonly expression: string,
+    // 0부터 시작하는 문자 위치, line/column은 1부터 시작
+    public readonly position: number,
+    public readonly line: number,
+    public readonly column: number,
+    requestId?: string
+  ) {
+    super(message, requestId);
+  }
+}
+
 export class CollaborationError extends AppError {
   readonly statusCode = 409;
   readonly isOperational = true;
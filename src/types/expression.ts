@@ -0,0 +1,29 @@
+// 매핑 규칙/그리드 제약 조건 식 관련 타입 정의
+
+export interface ExpressionScope {
+  // 이름을 찾을 때 문서보다 먼저 보는 변수 (value, 변환 파라미터 등)
+  variables?: Record<string, any>;
+  // $와 변수에 없는 이름이 가리키는 문서
+  document?: any;
+  // lookup('테이블 이름', key)에서 이름으로 테이블 찾기
+  lookupTable?: (name: string) => Record<string, any> | undefined;
+  // 이름으로 찾은 테이블에 key가 없고 fallback 인자도 없을 때의 값 (테이블의 없는 값 정책 적용)
+  lookupMiss?: (name: string, key: string) => any;
+  // now(), today() 기준 시각 (생략하면 현재 시각)
+  now?: Date;
+}
+
+// 식 문법 오류 위치 (position은 0부터, line/column은 1부터)
+export interface ExpressionDiagnostic {
+  expression: string;
+  message: string;
+  position: number;
+  line: number;
+  column: number;
+}
+
+// 매핑 규칙의 식 문법 오류 (field: condition, transformation, validation.function, function)
+export interface RuleExpressionError extends ExpressionDiagnostic {
+  ruleId: string;
+  field: string;
+}
@@ -18,7 +18,8 @@ export enum DataType {
 
 // 검증 규칙 인터페이스
 export interface ValidationRule {
-  type: 'required' | 'minLength' | 'maxLength' | 'pattern' | 'range' | 'custom';
+  // expression: value에 식 언어 문자열 (셀 값은 식에서 value)
+  type: 'required' | 'minLength' | 'maxLength' | 'pattern' | 'range' | 'custom' | 'expression';
   value?: any;
   message: string;
   validator?: (value: any) => boolean;
@@ -49,6 +50,13 @@ export interface SchemaGridData {
   maxLength?: number;
   pattern?: string;
   enumValues?: string[];
+  path?: string;
+  parentPath?: string;
+  depth?: number;
+  itemType?: string;
+  typeRef?: string;
+  isAttribute?: boolean;
+  fieldNumber?: number;
 }
 
 // 구조 변경 타입
@@ -0,0 +1,91 @@
+// 필드 사용처 및 변경 영향 분석 관련 타입 정의
+
+import { SchemaChange } from './diff';
+
+// 분석할 필드 변경 (이름 변경, 타입 변경, 삭제)
+export type FieldChange =
+  | { kind: 'rename'; newName: string }
+  | { kind: 'retype'; newType: string; newItemType?: string }
+  | { kind: 'remove' };
+
+export type FieldChangeKind = FieldChange['kind'];
+
+// breaking: 변경 후 그대로 두면 동작하지 않음 / review: 사람이 확인해야 함
+export type ImpactLevel = 'breaking' | 'review';
+
+// 필드 조회 조건 (점이 들어 있으면 경로 끝부분, 없으면 필드 이름으로 비교)
+export interface FieldReference {
+  field: string;
+  // 지정하면 해당 스키마의 필드만 변경 대상으로 봄
+  schemaId?: string;
+}
+
+export interface SchemaFieldUsage {
+  schemaId: string;
+  schemaName: string;
+  path: string;
+  dataType: string;
+  itemType?: string;
+}
+
+// 매핑 규칙에서 필드를 참조하는 위치
+export type MappingUsageLocation = 'sourcePath' | 'targetPath' | 'condition' | 'transformation' | 'transformationRule';
+
+export interface MappingFieldUsage {
+  mappingId: string;
+  // AdvancedMappingRule 또는 TransformationRule ID
+  ruleId: string;
+  location: MappingUsageLocation;
+  // 참조한 원문 (경로 또는 식)
+  expression: string;
+}
+
+export interface FieldUsageResult {
+  field: string;
+  schemas: SchemaFieldUsage[];
+  mappings: MappingFieldUsage[];
+}
+
+export interface ImpactAnalysisRequest extends FieldReference {
+  change: FieldChange;
+}
+
+export interface SchemaImpact {
+  schemaId: string;
+  schemaName: string;
+  version: string;
+  fields: SchemaFieldUsage[];
+  // 변경을 적용한 그리드와 현재 그리드의 비교 결과
+  changes: SchemaChange[];
+  isBreaking: boolean;
+}
+
+export interface MappingImpact extends MappingFieldUsage {
+  level: ImpactLevel;
+  reason: string;
+  // 이름 변경 시 바꿔야 할 경로
+  suggestedExpression?: string;
+}
+
+export interface SessionImpact {
+  sessionId: string;
+  schemaId: string;
+  name: string;
+  onlineUsers: string[];
+}
+
+export interface ImpactAnalysisResult {
+  field: string;
+  change: FieldChange;
+  schemas: SchemaImpact[];
+  mappings: MappingImpact[];
+  sessions: SessionImpact[];
+  summary: {
+    schemaCount: number;
+    mappingCount: number;
+    ruleCount: number;
+    sessionCount: number;
+    breaking: boolean;
+  };
+  analyzedAt: string;
+}
@@ -5,4 +5,14 @@ export * from './collaboration';
 export * from './api';
 export * from './errors';
 export * from './performance';
-export * from './mcp';
\ No newline at end of file
+export * from './mcp';
+export * from './wsdl';
+export * from './openapi';
+export * from './sample';
+export * from './inference';
+export * from './diff';
+export * from './compatibility';
+export * from './repository';
+export * from './impact';
+export * from './mapping';
+export * from './expression';
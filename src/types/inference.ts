@@ -0,0 +1,50 @@
+// 인스턴스 문서 기반 스키마 추론 관련 타입 정의
+
+import { ConversionResult, SchemaExportOptions, SchemaGridData } from './schema';
+
+export type InstanceDocumentFormat = 'xml' | 'json' | 'yaml';
+
+export interface InstanceDocument {
+  content: string;
+  // 생략 시 내용으로 자동 감지
+  format?: InstanceDocumentFormat;
+}
+
+export interface SchemaInferenceOptions {
+  // 열거값 후보로 제안할 최대 고유값 수 (0이면 열거값을 추론하지 않음)
+  maxEnumValues?: number;
+  // 열거값 후보로 판단하기 위한 최소 관측 횟수
+  minEnumOccurrences?: number;
+  // 관측된 문자열 길이로 minLength/maxLength 제안
+  inferLengths?: boolean;
+}
+
+// 필드별 관측 통계 (필수 여부와 타입 추론 근거)
+export interface InferredFieldStats {
+  path: string;
+  // 필드가 등장한 부모 인스턴스 수
+  occurrences: number;
+  // 부모 인스턴스 수 (루트 필드는 문서 수)
+  parentOccurrences: number;
+  // 관측된 값 종류 (object, array, string, number, boolean, null 등)
+  observedTypes: string[];
+  distinctValues: number;
+}
+
+export interface SchemaInferenceResult {
+  gridData: SchemaGridData[][];
+  // XML 문서의 루트 요소 이름 (XSD 내보내기 rootName 기본값)
+  rootName?: string;
+  documentCount: number;
+  fieldStats: InferredFieldStats[];
+  warnings: string[];
+}
+
+export interface SchemaInferenceExportResult extends SchemaInferenceResult {
+  conversion: ConversionResult;
+}
+
+// 추론 결과를 스키마로 내보낼 때의 옵션
+export interface SchemaInferenceExportOptions extends SchemaInferenceOptions {
+  export?: SchemaExportOptions;
+}
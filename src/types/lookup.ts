@@ -0,0 +1,101 @@
+// 룩업 테이블(코드 목록) 관련 타입 정의
+
+// 테이블에 없는 값 처리: default는 기본값(없으면 원래 값), fail은 변환 실패
+export type LookupMissPolicy = 'default' | 'fail';
+
+export interface LookupEntry {
+  key: string;
+  value: any;
+  description?: string;
+}
+
+export interface LookupTable {
+  // 변환에서 참조하는 이름 (고유)
+  name: string;
+  description?: string;
+  missPolicy: LookupMissPolicy;
+  defaultValue?: any;
+  // 현재 버전 (항목이 바뀔 때마다 1씩 증가)
+  version: number;
+  entries: LookupEntry[];
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy?: string;
+}
+
+export interface LookupTableVersion {
+  version: number;
+  entryCount: number;
+  createdAt: Date;
+  createdBy?: string;
+  comment?: string;
+}
+
+// 항목은 목록 또는 { 키: 값 } 객체
+export type LookupEntriesInput = LookupEntry[] | Record<string, any>;
+
+export interface LookupTableInput {
+  name: string;
+  description?: string;
+  missPolicy?: LookupMissPolicy;
+  defaultValue?: any;
+  entries?: LookupEntriesInput;
+}
+
+// entries를 주면 새 버전, 나머지는 테이블 설정만 바꿈 (버전 유지)
+export interface LookupTableUpdate {
+  description?: string;
+  missPolicy?: LookupMissPolicy;
+  defaultValue?: any;
+  entries?: LookupEntriesInput;
+  // 새 버전에 남길 설명
+  comment?: string;
+}
+
+export interface LookupCsvImportOptions {
+  // 테이블이 없을 때 새로 만들면서 쓸 설정
+  description?: string;
+  missPolicy?: LookupMissPolicy;
+  defaultValue?: any;
+  comment?: string;
+  createdBy?: string;
+}
+
+// 값 조회 옵션 (생략하면 테이블 설정과 현재 버전)
+export interface LookupResolveOptions {
+  version?: number;
+  missPolicy?: LookupMissPolicy;
+  defaultValue?: any;
+}
+
+// 저장소에 남기는 테이블 전체 (모든 버전의 항목 포함)
+export interface LookupTableRecord {
+  name: string;
+  description?: string;
+  missPolicy: LookupMissPolicy;
+  defaultValue?: any;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy?: string;
+  versions: Array<LookupTableVersion & { entries: LookupEntry[] }>;
+}
+
+/**
+ * 룩업 테이블 저장소 어댑터 인터페이스
+ * 서비스가 시작할 때 전체를 읽어 메모리에 올리고, 변경할 때마다 해당 테이블을 다시 저장함
+ */
+export interface LookupTableStore {
+  loadAll(): Promise<LookupTableRecord[]>;
+  save(record: LookupTableRecord): Promise<void>;
+  delete(name: string): Promise<boolean>;
+}
+
+export type LookupStorageDriver = 'file' | 'memory';
+
+// 매핑 실행에서 이름으로 테이블을 찾는 쪽 (LookupTableService)
+export interface LookupTableResolver {
+  // 정책을 반영한 값 (fail 정책이면 ValidationError)
+  resolve(name: string, key: any, options?: LookupResolveOptions): any;
+  // { 키: 값 } 형태 항목 (테이블이 없으면 undefined)
+  getEntries(name: string, version?: number): Record<string, any> | undefined;
+}
@@ -0,0 +1,267 @@
+// 메시지 매핑 규칙 실행 관련 타입 정의
+
+import type {
+  AdvancedMappingRule,
+  CollaborationData,
+  MessageMapping,
+  TransformationRule
+} from '../services/messageMappingService';
+
+export type MappingDocumentFormat = 'xml' | 'json' | 'yaml';
+
+// applied: 원본 값 적용 / defaulted: 기본값 적용 / skipped: 조건 불일치
+// missing: 선택 필드 값 없음 / failed: 필수 누락, 검증 또는 변환 실패
+export type RuleTraceStatus = 'applied' | 'defaulted' | 'skipped' | 'missing' | 'failed';
+
+export interface RuleTraceEntry {
+  ruleId: string;
+  type: string;
+  sourcePath: string;
+  targetPath: string;
+  status: RuleTraceStatus;
+  // 원본에서 읽은 값 (여러 값이면 배열)
+  input?: any;
+  // 대상에 쓴 값
+  output?: any;
+  // 적용한 변환 이름 (순서대로)
+  transformations: string[];
+  message?: string;
+}
+
+export interface MappingExecutionOptions {
+  // 생략하면 내용으로 자동 감지
+  sourceFormat?: MappingDocumentFormat;
+  targetFormat?: MappingDocumentFormat;
+  // XML 대상 문서의 루트 요소 (대상 경로의 최상위 요소가 하나면 그 요소를 루트로 사용)
+  rootElement?: string;
+  namespace?: string;
+  encoding?: string;
+}
+
+export interface MappingExecutionSummary {
+  total: number;
+  applied: number;
+  defaulted: number;
+  skipped: number;
+  missing: number;
+  failed: number;
+}
+
+export interface MappingExecutionResult {
+  success: boolean;
+  format: MappingDocumentFormat;
+  // 직렬화된 대상 메시지
+  output: string;
+  // 대상 메시지 객체 (XML이면 xml2js 형태: $ 속성, _ 텍스트)
+  target: Record<string, any>;
+  trace: RuleTraceEntry[];
+  summary: MappingExecutionSummary;
+  durationMs: number;
+}
+
+// XSLT/JSON 변환 내보내기에서 옮기지 못했거나 근사로 옮긴 규칙
+export interface MappingExportWarning {
+  ruleId?: string;
+  message: string;
+}
+
+export interface XsltExportResult {
+  stylesheet: string;
+  // 스타일시트에 포함하지 못한 규칙 ID
+  skippedRules: string[];
+  warnings: MappingExportWarning[];
+}
+
+// XSLT 결과를 만든 실행기 (conforming이 false면 XSLT 1.0 처리기가 아니라 일부 명령만 흉내 낸 것)
+export interface XsltProcessorInfo {
+  name: string;
+  conforming: boolean;
+  note: string;
+}
+
+export interface XsltTestResult {
+  // 엔진 결과와 XSLT 결과의 XML 구조/값이 같은지
+  matches: boolean;
+  processor: XsltProcessorInfo;
+  engineOutput: string;
+  xsltOutput: string;
+  // 다른 위치 설명 (/경로: 엔진 값 ≠ XSLT 값)
+  differences: string[];
+  warnings: MappingExportWarning[];
+}
+
+// JSON 변환 명세: 규칙을 그대로 담아 다시 가져올 수 있고, jsonata는 같은 매핑을 JSONata 식으로 옮긴 것
+export interface JsonTransformSpec {
+  format: 'json-transform';
+  version: 1;
+  mappingId?: string;
+  rules: AdvancedMappingRule[];
+  transformations: TransformationRule[];
+  jsonata: string;
+}
+
+export interface JsonTransformExportResult {
+  spec: JsonTransformSpec;
+  // JSONata 식에 포함하지 못한 규칙 ID (명세의 rules에는 남아 있음)
+  skippedRules: string[];
+  warnings: MappingExportWarning[];
+}
+
+// 필드 매핑 제안 상태 (accepted는 규칙으로 추가됨, rejected는 다시 제안하지 않음)
+export type MappingSuggestionStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface MappingSuggestionScores {
+  // 이름 유사도 (정규화, 약어, 동의어 반영)
+  name: number;
+  // 타입 호환성
+  type: number;
+  // 설명 유사도 (양쪽 모두 설명이 있을 때만)
+  description?: number;
+}
+
+export interface MappingSuggestion {
+  id: string;
+  sourcePath: string;
+  targetPath: string;
+  // 종합 신뢰도 (0~1)
+  confidence: number;
+  scores: MappingSuggestionScores;
+  // 점수 근거 설명
+  reasons: string[];
+  rule: AdvancedMappingRule;
+  status: MappingSuggestionStatus;
+}
+
+export interface MappingSuggestionOptions {
+  sourceFormat?: MappingDocumentFormat;
+  targetFormat?: MappingDocumentFormat;
+  // 이 값보다 낮은 신뢰도는 제안하지 않음 (기본 0.5)
+  minConfidence?: number;
+  limit?: number;
+  // 추가 동의어 묶음 (예: [["client", "customer"]])
+  synonyms?: string[][];
+}
+
+// 매핑 테스트 케이스의 기대 규칙 실패 (지정한 항목이 모두 맞는 실패 규칙이 있어야 함)
+export interface MappingTestExpectedError {
+  ruleId?: string;
+  // 실패 메시지에 포함되어야 하는 문구
+  message?: string;
+}
+
+export interface MappingTestCase {
+  id: string;
+  name: string;
+  description?: string;
+  // 입력 문서 (문자열이면 sourceFormat 또는 매핑 설정의 형식으로 해석)
+  input: string | Record<string, any>;
+  // 기대 대상 메시지 (문자열이면 대상 형식으로 해석, 생략하면 출력은 비교하지 않음)
+  expectedOutput?: string | Record<string, any>;
+  // 생략하면 실패한 규칙이 없어야 통과
+  expectedErrors?: MappingTestExpectedError[];
+  sourceFormat?: MappingDocumentFormat;
+  targetFormat?: MappingDocumentFormat;
+}
+
+// missing: 기대한 값이 출력에 없음 / unexpected: 기대하지 않은 값이 출력에 있음 / changed: 값이 다름
+export type MappingTestDifferenceKind = 'missing' | 'unexpected' | 'changed';
+
+export interface MappingTestDifference {
+  // 대상 문서 안의 위치 (JSON/YAML은 $.a.b[0], XML은 /a/b[1]/@id)
+  path: string;
+  kind: MappingTestDifferenceKind;
+  expected?: any;
+  actual?: any;
+}
+
+export interface MappingTestRuleFailure {
+  ruleId: string;
+  message?: string;
+}
+
+export interface MappingTestCaseResult {
+  caseId: string;
+  name: string;
+  passed: boolean;
+  differences: MappingTestDifference[];
+  // 기대했지만 일어나지 않은 규칙 실패
+  missingErrors: MappingTestExpectedError[];
+  // 기대하지 않은 규칙 실패
+  unexpectedErrors: MappingTestRuleFailure[];
+  // 입력/기대 출력을 해석하지 못하는 등 케이스를 실행하지 못한 이유
+  error?: string;
+  output?: string;
+  durationMs: number;
+}
+
+export interface MappingTestRunResult {
+  mappingId: string;
+  total: number;
+  passed: number;
+  failed: number;
+  results: MappingTestCaseResult[];
+  durationMs: number;
+}
+
+/**
+ * 매핑 ID 하나에 딸린 저장 단위 (생성된 매핑 없이 규칙만 있을 수도 있음)
+ */
+export interface MessageMappingRecord {
+  id: string;
+  mapping?: MessageMapping;
+  rules: AdvancedMappingRule[];
+  transformations: TransformationRule[];
+  collaboration: CollaborationData[];
+  suggestions: MappingSuggestion[];
+  testCases: MappingTestCase[];
+  updatedAt: Date;
+}
+
+/**
+ * 메시지 매핑 저장소 어댑터 인터페이스
+ * 서비스가 시작할 때 전체를 읽어 메모리에 올리고, 변경할 때마다 해당 레코드를 다시 저장함
+ */
+export interface MessageMappingStore {
+  loadAll(): Promise<MessageMappingRecord[]>;
+  save(record: MessageMappingRecord): Promise<void>;
+  delete(id: string): Promise<boolean>;
+}
+
+export type MappingStorageDriver = 'file' | 'memory';
+
+export interface MappingListQuery {
+  page?: number;
+  limit?: number;
+  // ID, 루트 요소, 메시지/데이터 형식 대상 부분 일치 검색 (대소문자 무시)
+  search?: string;
+}
+
+export interface MappingListResult {
+  items: MessageMapping[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+export const MAPPING_BUNDLE_FORMAT = 'message-mapping-bundle';
+export const MAPPING_BUNDLE_VERSION = 1;
+
+/**
+ * 매핑 내보내기/가져오기 묶음 (매핑, 규칙, 변환, 테스트 케이스, 제안, 협업 이력)
+ */
+export interface MappingBundle {
+  format: typeof MAPPING_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  mappings: Omit<MessageMappingRecord, 'updatedAt'>[];
+}
+
+export interface MappingBundleImportOptions {
+  // 같은 ID가 이미 있으면 덮어씀 (기본은 충돌로 거부)
+  overwrite?: boolean;
+}
+
+export interface MappingBundleImportResult {
+  imported: string[];
+  overwritten: string[];
+}
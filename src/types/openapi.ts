@@ -0,0 +1,50 @@
+// OpenAPI / Swagger 관련 타입 정의
+
+export type OpenApiVersion = '2.0' | '3.0' | '3.1';
+
+export type OpenApiBodyDirection = 'request' | 'response';
+
+// 문서에서 불러올 수 있는 스키마 대상 목록
+export interface OpenApiDocumentSummary {
+  version: OpenApiVersion;
+  title?: string;
+  // components.schemas (Swagger 2.0은 definitions) 이름
+  schemas: string[];
+  operations: OpenApiOperationSummary[];
+}
+
+export interface OpenApiOperationSummary {
+  path: string;
+  method: string;
+  operationId?: string;
+  summary?: string;
+  hasRequestBody: boolean;
+  // 본문 스키마가 있는 응답 상태 코드
+  responses: string[];
+}
+
+// 그리드로 불러올 대상 선택 (schemaName 또는 operation 중 하나)
+export interface OpenApiSelection {
+  schemaName?: string;
+  operationId?: string;
+  path?: string;
+  method?: string;
+  direction?: OpenApiBodyDirection;
+  // 응답 상태 코드 (생략 시 첫 번째 2xx 응답)
+  status?: string;
+  // 미디어 타입 (생략 시 application/json 또는 첫 번째 미디어 타입)
+  mediaType?: string;
+}
+
+// 그리드를 OpenAPI 문서로 내보내기 위한 옵션
+export interface OpenApiExportOptions {
+  // OpenAPI 3.x 문서 버전 (Swagger 2.0은 SchemaFormat.SWAGGER로 선택)
+  specVersion?: '3.0' | '3.1';
+  title?: string;
+  version?: string;
+  // components.schemas에 등록할 루트 스키마 이름
+  schemaName?: string;
+  // 지정하면 루트 스키마를 요청 본문으로 사용하는 골격 경로를 추가
+  path?: string;
+  method?: string;
+}
@@ -0,0 +1,72 @@
+// 스키마 저장소(영속화) 관련 타입 정의
+
+import { Schema, SchemaFormat, SchemaGridData } from './schema';
+import { SchemaDiffReport } from './diff';
+
+export interface SchemaListQuery {
+  page?: number;
+  limit?: number;
+  format?: SchemaFormat;
+  // 지정한 태그를 모두 가진 스키마만 조회
+  tags?: string[];
+  // 이름, 설명, 태그 대상 부분 일치 검색 (대소문자 무시)
+  search?: string;
+}
+
+export interface SchemaListResult {
+  items: Schema[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+/**
+ * 스키마 리비전 (수정할 때마다 하나씩 추가되며 내용은 변경하지 않음, 태그만 붙이고 뗄 수 있음)
+ */
+export interface SchemaRevision {
+  schemaId: string;
+  // 1부터 증가하는 리비전 번호
+  revision: number;
+  // 리비전 시점의 스키마 버전 문자열
+  version: string;
+  author: string;
+  createdAt: Date;
+  summary: string;
+  format: SchemaFormat;
+  content: string;
+  gridData?: SchemaGridData[][];
+  // 직전 리비전 대비 변경 (첫 리비전이거나 그리드 변환이 불가능하면 없음)
+  diff?: SchemaDiffReport;
+  // 롤백으로 생성된 경우 복원한 리비전 번호
+  restoredFrom?: number;
+  tags: string[];
+}
+
+/**
+ * 스키마 저장소 어댑터 인터페이스
+ * 기본 구현은 파일 시스템(FileSchemaRepository), 테스트용으로 메모리 구현 제공
+ */
+export interface SchemaRepository {
+  create(schema: Schema): Promise<Schema>;
+  findById(id: string): Promise<Schema | null>;
+  update(schema: Schema): Promise<Schema>;
+  delete(id: string): Promise<boolean>;
+  list(query?: SchemaListQuery): Promise<SchemaListResult>;
+  // 리비전 이력 (스키마를 삭제하면 함께 삭제)
+  addRevision(revision: SchemaRevision): Promise<SchemaRevision>;
+  listRevisions(schemaId: string): Promise<SchemaRevision[]>;
+  findRevision(schemaId: string, revision: number): Promise<SchemaRevision | null>;
+  updateRevisionTags(schemaId: string, revision: number, tags: string[]): Promise<SchemaRevision>;
+  // 일괄 작업 트랜잭션 되돌리기 전용 (일반 흐름에서 리비전은 삭제하지 않음)
+  deleteRevision(schemaId: string, revision: number): Promise<boolean>;
+  // 스키마를 만들거나 수정/삭제할 때마다 증가 (검색 색인 등 파생 데이터의 갱신 여부 판단용)
+  getChangeCount(): number;
+}
+
+// 되돌리기용 스키마와 리비전 이력 스냅샷
+export interface SchemaSnapshot {
+  schema: Schema;
+  revisions: SchemaRevision[];
+}
+
+export type SchemaStorageDriver = 'file' | 'memory';
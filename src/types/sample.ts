@@ -0,0 +1,38 @@
+// 샘플 메시지 생성 관련 타입 정의
+
+import { SchemaImportOptions } from './schema';
+
+export type SampleMessageFormat = 'xml' | 'json' | 'yaml';
+
+// 선택 필드 포함 방식 (all: 모두 포함, required: 필수 필드만, random: 시드에 따라 일부 포함)
+export type SampleOptionalFieldMode = 'all' | 'required' | 'random';
+
+export interface SampleMessageOptions {
+  format?: SampleMessageFormat;
+  // 같은 시드와 스키마는 항상 같은 메시지를 생성 (생략 시 임의 시드를 결과에 반환)
+  seed?: number | string;
+  // XML 루트 요소 이름
+  rootName?: string;
+  // XML 루트 요소의 기본 네임스페이스
+  namespace?: string;
+  optionalFields?: SampleOptionalFieldMode;
+  // 배열 항목 수 (minItems/maxItems 제약이 우선)
+  arrayItems?: number;
+  // 재귀 구조(typeRef)를 펼칠 최대 깊이
+  maxDepth?: number;
+}
+
+// 그리드가 아닌 스키마 문서로부터 생성할 때의 옵션
+export interface SchemaSampleMessageOptions extends SampleMessageOptions {
+  import?: SchemaImportOptions;
+}
+
+export interface SampleMessageResult {
+  format: SampleMessageFormat;
+  content: string;
+  // 직렬화 전 값 (XML 속성은 포함하지 않음)
+  data: Record<string, any>;
+  // 재현에 사용할 수 있는 실제 시드
+  seed: number;
+  warnings: string[];
+}
@@ -1,11 +1,18 @@
 // 스키마 관련 타입 정의
 
+import { OpenApiExportOptions, OpenApiSelection } from './openapi';
+
 export enum SchemaFormat {
   XML = 'xml',
   JSON = 'json',
   YAML = 'yaml',
   XSD = 'xsd',
-  WSDL = 'wsdl'
+  WSDL = 'wsdl',
+  OPENAPI = 'openapi',
+  SWAGGER = 'swagger',
+  AVRO = 'avro',
+  PROTOBUF = 'protobuf',
+  THRIFT = 'thrift'
 }
 
 export interface Schema {
@@ -14,10 +21,13 @@ export interface Schema {
   description?: string;
   format: SchemaFormat;
   version: string;
+  // 현재 리비전 번호 (리비전 이력이 있는 저장된 스키마)
+  revision?: number;
   createdAt: Date;
   updatedAt: Date;
   createdBy: string;
   originalContent: string;
+  tags?: string[];
   gridData?: SchemaGridData[][];
   gridMetadata?: GridMetadata;
   collaborationSession?: string;
@@ -31,6 +41,22 @@ export interface SchemaGridData {
   description: string;
   defaultValue?: any;
   constraints?: string;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  enumValues?: string[];
+  // XML 속성(xs:attribute)으로 표현되는 필드
+  isAttribute?: boolean;
+  // 중첩 구조 지원 (점으로 구분된 전체 경로, 예: order.items.sku)
+  path?: string;
+  parentPath?: string;
+  depth?: number;
+  // dataType이 array인 경우 항목 타입 (object이면 하위 행이 항목 구조를 정의)
+  itemType?: string;
+  // 공유 정의 이름 (JSON Schema definitions/$defs, XSD 이름 있는 complexType)
+  typeRef?: string;
+  // Protobuf/Thrift 필드 번호 (편집 후에도 유지되도록 행에 보존)
+  fieldNumber?: number;
 }
 
 export interface GridMetadata {
@@ -96,6 +122,8 @@ export interface ConversionResult {
   xml?: string;
   json?: string;
   yaml?: string;
+  // Protobuf/Thrift IDL 텍스트
+  idl?: string;
   errors: ConversionError[];
   warnings: ConversionWarning[];
 }
@@ -113,4 +141,46 @@ export interface ConversionWarning {
   message: string;
   code: string;
   details?: any;
-}
\ No newline at end of file
+}
+
+// 스키마 -> 그리드 변환 옵션
+export interface SchemaImportOptions {
+  // OpenAPI/Swagger 문서에서 불러올 component schema 또는 operation 본문
+  openApi?: OpenApiSelection;
+  // Avro record / Protobuf message / Thrift struct 중 그리드로 불러올 루트 타입 이름
+  rootType?: string;
+}
+
+// XSD/WSDL에서 가져오는(xs:import) 외부 네임스페이스
+export interface XmlNamespaceImport {
+  namespace: string;
+  schemaLocation?: string;
+  // 지정하면 xmlns 선언을 추가하여 typeRef에서 접두사:타입명으로 참조 가능
+  prefix?: string;
+}
+
+// XSD/WSDL 생성 옵션
+export interface XmlSchemaExportOptions {
+  elementFormDefault?: 'qualified' | 'unqualified';
+  // 대상 네임스페이스 접두사 (생략 시 기본 네임스페이스로 선언)
+  targetPrefix?: string;
+  // 추가로 선언할 접두사 -> 네임스페이스 URI
+  prefixes?: Record<string, string>;
+  imports?: XmlNamespaceImport[];
+}
+
+// 그리드 -> 스키마 변환 옵션
+export interface SchemaExportOptions {
+  openApi?: OpenApiExportOptions;
+  xmlSchema?: XmlSchemaExportOptions;
+  // XSD 루트 요소 / Avro record / Protobuf message / Thrift struct 루트 이름
+  rootName?: string;
+  // XSD/WSDL targetNamespace / Avro namespace / Protobuf package / Thrift namespace
+  namespace?: string;
+}
+
+// 형식 간 직접 변환 옵션
+export interface FormatConversionOptions {
+  source?: SchemaImportOptions;
+  target?: SchemaExportOptions;
+}
@@ -0,0 +1,111 @@
+// WSDL 관련 타입 정의
+
+import { SchemaGridData, XmlSchemaExportOptions } from './schema';
+
+export type WsdlVersion = '1.1' | '2.0';
+
+export type WsdlMessageDirection = 'input' | 'output' | 'fault';
+
+export interface WsdlDefinition {
+  version: WsdlVersion;
+  name?: string;
+  targetNamespace?: string;
+  // 접두사 -> 네임스페이스 URI
+  namespaces: Record<string, string>;
+  // types 섹션에 선언된 전역 요소 이름
+  elements: string[];
+  // WSDL 1.1 전용 (2.0은 operation이 요소를 직접 참조)
+  messages: WsdlMessage[];
+  // WSDL 1.1 portType / WSDL 2.0 interface
+  portTypes: WsdlPortType[];
+  bindings: WsdlBinding[];
+  services: WsdlService[];
+}
+
+export interface WsdlMessage {
+  name: string;
+  parts: WsdlMessagePart[];
+}
+
+export interface WsdlMessagePart {
+  name: string;
+  // document 스타일: 전역 요소 참조
+  element?: string;
+  // rpc 스타일: 타입 참조
+  type?: string;
+}
+
+export interface WsdlPortType {
+  name: string;
+  operations: WsdlOperation[];
+}
+
+export interface WsdlOperation {
+  name: string;
+  documentation?: string;
+  pattern?: string;
+  input?: WsdlOperationMessage;
+  output?: WsdlOperationMessage;
+  faults: WsdlOperationMessage[];
+}
+
+export interface WsdlOperationMessage {
+  name?: string;
+  // WSDL 1.1: message 이름, WSDL 2.0: 요소 이름 (접두사 제거)
+  message?: string;
+  element?: string;
+}
+
+export interface WsdlBinding {
+  name: string;
+  // 바인딩 대상 portType/interface 이름
+  portType: string;
+  transport?: string;
+  style?: string;
+  operations: WsdlBindingOperation[];
+}
+
+export interface WsdlBindingOperation {
+  name: string;
+  soapAction?: string;
+  style?: string;
+}
+
+export interface WsdlService {
+  name: string;
+  ports: WsdlPort[];
+}
+
+export interface WsdlPort {
+  name: string;
+  binding: string;
+  address?: string;
+}
+
+// 그리드로 불러올 오퍼레이션 메시지 선택
+export interface WsdlOperationSelection {
+  operation: string;
+  portType?: string;
+  direction?: WsdlMessageDirection;
+  // direction이 fault인 경우 fault 이름 (생략 시 첫 번째 fault)
+  faultName?: string;
+}
+
+// 그리드로부터 전체 WSDL을 생성하기 위한 명세
+export interface WsdlGenerationSpec {
+  serviceName: string;
+  targetNamespace?: string;
+  endpoint?: string;
+  operations: WsdlOperationSpec[];
+  // wsdl:types 스키마의 elementFormDefault, 접두사, xs:import
+  xmlSchema?: XmlSchemaExportOptions;
+}
+
+export interface WsdlOperationSpec {
+  name: string;
+  documentation?: string;
+  soapAction?: string;
+  request: SchemaGridData[][];
+  response?: SchemaGridData[][];
+  faults?: Array<{ name: string; gridData: SchemaGridData[][] }>;
+}